@@ -0,0 +1,207 @@
+/**
+ * Local AGO stand-in
+ *
+ * A minimal in-memory imitation of an ArcGIS feature service so the AGO sync can be
+ * exercised without an ArcGIS Online account. It implements the parts of the REST
+ * contract the backend uses: layer metadata, applyEdits and query.
+ *
+ * Usage:
+ *   npm run ago:stand-in
+ *   AGO_API_URL=http://localhost:4100/arcgis/rest/services/LMS/FeatureServer
+ *
+ * Set AGO_STAND_IN_TOKEN to require a matching token (AGO_API_KEY) on every request.
+ */
+
+import http from 'http';
+import { randomUUID } from 'crypto';
+
+const PORT = parseInt(process.env.AGO_STAND_IN_PORT || '4100', 10);
+const TOKEN = process.env.AGO_STAND_IN_TOKEN || '';
+
+interface StoredFeature {
+  attributes: Record<string, any>;
+  geometry: any;
+}
+
+const features = new Map<number, StoredFeature>();
+let nextObjectId = 1;
+
+const send = (res: http.ServerResponse, payload: any) => {
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+};
+
+const agoError = (code: number, message: string, details: string[] = []) => ({
+  error: { code, message, details },
+});
+
+const readParams = (req: http.IncomingMessage): Promise<URLSearchParams> =>
+  new Promise((resolve, reject) => {
+    const url = new URL(req.url || '/', `http://localhost:${PORT}`);
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const params = new URLSearchParams(url.search);
+      new URLSearchParams(body).forEach((value, key) => params.set(key, value));
+      resolve(params);
+    });
+    req.on('error', reject);
+  });
+
+const parseJsonParam = (params: URLSearchParams, key: string): any[] => {
+  const raw = params.get(key);
+  if (!raw) return [];
+  return JSON.parse(raw);
+};
+
+const findByGlobalId = (globalId: string): number | undefined => {
+  for (const [objectId, feature] of features) {
+    if (String(feature.attributes.GlobalID).toLowerCase() === String(globalId).toLowerCase()) {
+      return objectId;
+    }
+  }
+  return undefined;
+};
+
+const layerInfo = (layerId: number) => ({
+  id: layerId,
+  name: 'LMS Properties (stand-in)',
+  type: 'Feature Layer',
+  geometryType: 'esriGeometryPoint',
+  objectIdField: 'OBJECTID',
+  globalIdField: 'GlobalID',
+  fields: [
+    { name: 'OBJECTID', type: 'esriFieldTypeOID' },
+    { name: 'GlobalID', type: 'esriFieldTypeGlobalID' },
+  ],
+});
+
+const applyEdits = (params: URLSearchParams) => {
+  const useGlobalIds = params.get('useGlobalIds') === 'true';
+
+  const addResults = parseJsonParam(params, 'adds').map((feature: StoredFeature) => {
+    const objectId = nextObjectId++;
+    const globalId = useGlobalIds && feature.attributes.GlobalID
+      ? feature.attributes.GlobalID
+      : `{${randomUUID().toUpperCase()}}`;
+
+    features.set(objectId, {
+      attributes: { ...feature.attributes, OBJECTID: objectId, GlobalID: globalId },
+      geometry: feature.geometry || null,
+    });
+    return { objectId, globalId, success: true };
+  });
+
+  const updateResults = parseJsonParam(params, 'updates').map((feature: StoredFeature) => {
+    const objectId = useGlobalIds
+      ? findByGlobalId(feature.attributes.GlobalID)
+      : Number(feature.attributes.OBJECTID);
+
+    const existing = objectId !== undefined ? features.get(objectId) : undefined;
+    if (objectId === undefined || !existing) {
+      return {
+        objectId: feature.attributes.OBJECTID,
+        globalId: feature.attributes.GlobalID,
+        success: false,
+        error: { code: 1019, description: 'Feature not found.' },
+      };
+    }
+
+    features.set(objectId, {
+      attributes: { ...existing.attributes, ...feature.attributes, OBJECTID: objectId },
+      geometry: feature.geometry === undefined ? existing.geometry : feature.geometry,
+    });
+    return { objectId, globalId: existing.attributes.GlobalID, success: true };
+  });
+
+  const rawDeletes = params.get('deletes');
+  const deleteIds: string[] = !rawDeletes
+    ? []
+    : useGlobalIds
+      ? JSON.parse(rawDeletes)
+      : rawDeletes.split(',');
+
+  const deleteResults = deleteIds.map((id) => {
+    const objectId = useGlobalIds ? findByGlobalId(id) : Number(id);
+    if (objectId === undefined || !features.has(objectId)) {
+      return { objectId, globalId: useGlobalIds ? id : undefined, success: false, error: { code: 1019, description: 'Feature not found.' } };
+    }
+    const globalId = features.get(objectId)!.attributes.GlobalID;
+    features.delete(objectId);
+    return { objectId, globalId, success: true };
+  });
+
+  return { addResults, updateResults, deleteResults };
+};
+
+/**
+ * Supports "1=1" and simple equality clauses joined with AND, e.g. parcel_number = 'P-1'
+ */
+const matchesWhere = (attributes: Record<string, any>, where: string): boolean => {
+  if (!where || where.trim() === '1=1') return true;
+
+  return where.split(/\s+AND\s+/i).every((clause) => {
+    const match = clause.trim().match(/^(\w+)\s*=\s*'?([^']*)'?$/);
+    if (!match) return false;
+    return String(attributes[match[1]] ?? '').toLowerCase() === match[2].toLowerCase();
+  });
+};
+
+const query = (params: URLSearchParams) => {
+  const where = params.get('where') || '1=1';
+  const outFields = (params.get('outFields') || '*').split(',').map((field) => field.trim());
+  const returnGeometry = params.get('returnGeometry') !== 'false';
+  const offset = parseInt(params.get('resultOffset') || '0', 10);
+  const count = parseInt(params.get('resultRecordCount') || '1000', 10);
+
+  const matching = [...features.values()].filter((feature) => matchesWhere(feature.attributes, where));
+  const page = matching.slice(offset, offset + count);
+
+  return {
+    objectIdFieldName: 'OBJECTID',
+    globalIdFieldName: 'GlobalID',
+    exceededTransferLimit: offset + count < matching.length,
+    features: page.map((feature) => ({
+      attributes: outFields.includes('*')
+        ? feature.attributes
+        : Object.fromEntries(outFields.map((field) => [field, feature.attributes[field]])),
+      ...(returnGeometry ? { geometry: feature.geometry } : {}),
+    })),
+  };
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const params = await readParams(req);
+    const path = new URL(req.url || '/', `http://localhost:${PORT}`).pathname;
+    const match = path.match(/\/FeatureServer\/(\d+)(\/applyEdits|\/query)?\/?$/);
+
+    if (!match) {
+      send(res, agoError(400, 'Invalid URL', [path]));
+      return;
+    }
+
+    if (TOKEN && params.get('token') !== TOKEN) {
+      send(res, agoError(498, 'Invalid token.'));
+      return;
+    }
+
+    const layerId = parseInt(match[1], 10);
+    switch (match[2]) {
+      case '/applyEdits':
+        send(res, applyEdits(params));
+        break;
+      case '/query':
+        send(res, query(params));
+        break;
+      default:
+        send(res, layerInfo(layerId));
+    }
+  } catch (error: any) {
+    send(res, agoError(400, 'Unable to complete operation.', [error.message]));
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`AGO stand-in listening on http://localhost:${PORT}/arcgis/rest/services/LMS/FeatureServer`);
+});
@@ -31,8 +31,15 @@ export const createApp = (): Application => {
   });
   app.use('/api', limiter);
 
-  // Body parsing middleware
-  app.use(express.json({ limit: '10mb' }));
+  // Body parsing middleware; the raw body is kept for verifying signed provider callbacks
+  app.use(
+    express.json({
+      limit: '10mb',
+      verify: (req, res, buf) => {
+        (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+      },
+    })
+  );
   app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
   // Compression middleware
@@ -29,12 +29,47 @@ export const config = {
   maxFileSize: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10),
   uploadDir: process.env.UPLOAD_DIR || './uploads',
 
+  // Encryption of secrets stored in the database
+  settingsEncryptionKey: process.env.SETTINGS_ENCRYPTION_KEY || '',
+
   // Logging
   logLevel: process.env.LOG_LEVEL || 'info',
 
-  // AGO Integration
+  // AGO Integration (defaults until settings are saved from the admin page)
   agoApiUrl: process.env.AGO_API_URL || '',
   agoApiKey: process.env.AGO_API_KEY || '',
+  agoLayerId: parseInt(process.env.AGO_LAYER_ID || '0', 10),
+  agoTimeoutMs: parseInt(process.env.AGO_TIMEOUT_MS || '15000', 10),
+  agoRetryIntervalMs: parseInt(process.env.AGO_RETRY_INTERVAL_MS || '60000', 10),
+  agoRetryBaseDelayMinutes: parseInt(process.env.AGO_RETRY_BASE_DELAY_MINUTES || '15', 10),
+  agoRetryMaxAttempts: parseInt(process.env.AGO_RETRY_MAX_ATTEMPTS || '5', 10),
+  agoRetryClaimTimeoutMinutes: parseInt(process.env.AGO_RETRY_CLAIM_TIMEOUT_MINUTES || '10', 10),
+
+  // Documents (name printed on receipts and the frontend URL used in their QR codes)
+  organizationName: process.env.ORGANIZATION_NAME || 'Land Management System',
+  publicAppUrl: process.env.PUBLIC_APP_URL || 'http://localhost:5173',
+
+  // Tax clearance (number of days an issued certificate stays valid)
+  clearanceValidityDays: parseInt(process.env.CLEARANCE_VALIDITY_DAYS || '90', 10),
+
+  // Review queue (how submitted records are assigned: manual, round_robin or least_loaded, and
+  // the minutes after which an assignment lapses and the record returns to the unassigned items)
+  reviewAssignmentMode: process.env.REVIEW_ASSIGNMENT_MODE || 'manual',
+  reviewClaimTimeoutMinutes: parseInt(process.env.REVIEW_CLAIM_TIMEOUT_MINUTES || '240', 10),
+
+  // How often breached review SLA targets are checked for escalation
+  reviewEscalationIntervalMs: parseInt(process.env.REVIEW_ESCALATION_INTERVAL_MS || '900000', 10),
+
+  // Tax penalties (hour of the day, server time, when the daily penalty job runs)
+  penaltyRunHour: parseInt(process.env.PENALTY_RUN_HOUR || '1', 10),
+
+  // Mobile money (provider of payment requests, the secret its callbacks are signed with and
+  // the public URL of this API that the provider calls back)
+  mobileMoneyProvider: process.env.MOBILE_MONEY_PROVIDER || 'simulator',
+  mobileMoneyCurrency: process.env.MOBILE_MONEY_CURRENCY || 'USD',
+  mobileMoneyWebhookSecret: process.env.MOBILE_MONEY_WEBHOOK_SECRET || '',
+  mobileMoneySimulatorDelayMs: parseInt(process.env.MOBILE_MONEY_SIMULATOR_DELAY_MS || '0', 10),
+  publicApiUrl: process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || '3000'}`,
 };
 
 // Validate required environment variables
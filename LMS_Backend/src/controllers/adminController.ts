@@ -95,7 +95,7 @@ export class AdminController {
 
   async updateAGOSettings(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const data = await adminService.updateAGOSettings(req.body);
+      const data = await adminService.updateAGOSettings(req.body, req.user!.id);
       logger.info(`AGO settings updated by ${req.user!.email}`);
       ResponseHandler.success(res, data, 'AGO settings updated successfully');
     } catch (error) {
@@ -111,4 +111,127 @@ export class AdminController {
       next(error);
     }
   }
+
+  async previewAGOFeature(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { property, field_mapping } = req.body;
+      const data = await adminService.previewAGOFeature(property, field_mapping);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getAGOSyncStats(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await adminService.getAGOSyncStats();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getAGOSyncRetries(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const filters = {
+        page: parseInt(req.query.page as string) || 1,
+        limit: parseInt(req.query.limit as string) || 50,
+        status: req.query.status as string,
+      };
+
+      const result = await adminService.getAGOSyncRetries(filters);
+      ResponseHandler.success(res, result.data, undefined, 200, result.meta);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async retryAGOSync(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await adminService.retryAGOSync(id, req.user!.id);
+      logger.info(`AGO sync retry ${id} run by ${req.user!.email}`);
+      ResponseHandler.success(res, data, data.status === 'SUCCESS' ? 'Property synced to AGO' : 'Retry attempted');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async giveUpAGOSync(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await adminService.giveUpAGOSync(id);
+      logger.info(`AGO sync retry ${id} abandoned by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Retry cancelled');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async startAGOReconciliation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await adminService.startAGOReconciliation(req.user!.id);
+      logger.info(`AGO reconciliation started by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Reconciliation started', 202);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getLatestAGOReconciliation(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await adminService.getLatestAGOReconciliation();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getAGOReconciliationItems(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const filters = {
+        page: parseInt(req.query.page as string) || 1,
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 1000),
+        category: req.query.category as string,
+      };
+
+      const result = await adminService.getAGOReconciliationItems(id, filters);
+      ResponseHandler.success(res, result.data, undefined, 200, result.meta);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async exportAGOReconciliationItems(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await adminService.exportAGOReconciliationItems(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async repushAGOReconciliationItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await adminService.repushAGOReconciliationItem(id, req.user!.id);
+      logger.info(`AGO reconciliation item ${id} re-pushed by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Property re-pushed to AGO');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async unlinkAGOReconciliationItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await adminService.unlinkAGOReconciliationItem(id, req.user!.id);
+      logger.info(`AGO reconciliation item ${id} unlinked by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Property unlinked from AGO feature');
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -1,10 +1,17 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { CustomerService } from '../services/customerService';
+import { StatementOptions, StatementService } from '../services/statements';
 import { ResponseHandler } from '../utils/response';
 import { logger } from '../utils/logger';
 
 const customerService = new CustomerService();
+const statementService = new StatementService();
+
+const getStatementPeriod = (query: any): StatementOptions => ({
+  from: String(query.from).slice(0, 10),
+  to: String(query.to).slice(0, 10),
+});
 
 export class CustomerController {
   async getCustomers(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
@@ -28,6 +35,26 @@ export class CustomerController {
     }
   }
 
+  async getStatement(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await statementService.getStatement(id, getStatementPeriod(req.query));
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getStatementPdf(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { filename, content } = await statementService.renderStatement(id, getStatementPeriod(req.query));
+      ResponseHandler.file(res, content, filename, 'application/pdf', !req.query.download);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getCustomer(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
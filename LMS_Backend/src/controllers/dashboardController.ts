@@ -24,4 +24,13 @@ export class DashboardController {
       next(error);
     }
   }
+
+  async getCollectionTrends(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await dashboardService.getCollectionTrends(Number(req.query.months));
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
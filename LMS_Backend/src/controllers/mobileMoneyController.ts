@@ -0,0 +1,74 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { MobileMoneyRequestStatus, MobileMoneyService } from '../services/mobileMoney';
+import { ResponseHandler } from '../utils/response';
+import { logger } from '../utils/logger';
+
+const mobileMoneyService = new MobileMoneyService();
+
+export class MobileMoneyController {
+  async getSettings(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = mobileMoneyService.getSettings();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getRequests(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { assessment_id, status } = req.query;
+      const data = await mobileMoneyService.getRequests({
+        assessment_id: assessment_id as string,
+        status: status as MobileMoneyRequestStatus,
+      });
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getRequest(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await mobileMoneyService.getRequest(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async requestPayment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await mobileMoneyService.requestPayment(req.body, req.user!.id);
+      logger.info(`Mobile money request ${data.request_number} sent to ${data.phone_number} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Payment request sent to the payer');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async simulate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await mobileMoneyService.simulate(id, req.body.outcome);
+      ResponseHandler.success(res, data, 'Simulated payer answer delivered');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Called by the provider; authenticated by the signature over the raw body
+  async handleCallback(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { provider } = req.params;
+      const rawBody = (req as Request & { rawBody?: Buffer }).rawBody;
+      const data = await mobileMoneyService.handleCallback(provider, rawBody, req.headers);
+      logger.info(`Mobile money callback from ${provider} for ${data.request_number}: ${data.outcome}`);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
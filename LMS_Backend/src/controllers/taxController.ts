@@ -1,10 +1,35 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { TaxService } from '../services/taxService';
+import { PenaltyRuleService, PenaltyService } from '../services/penalty';
+import { TaxRateService } from '../services/rates';
+import { ExemptionService } from '../services/exemptions';
+import { TaxRollService } from '../services/taxRoll';
+import { AgingBucketKey, AgingGroupBy, ArrearsService } from '../services/arrears';
+import { PaymentAdjustmentService, PaymentAdjustmentStatus } from '../services/paymentAdjustments';
+import { CashierSessionService, CashierSessionStatus } from '../services/cashier';
+import { BankStatementService } from '../services/bankStatements';
+import { InstallmentPlanService } from '../services/installments';
+import { ReceiptService } from '../services/receipts';
+import { ClearanceService, ClearanceSubject } from '../services/clearance';
+import { NoticeService } from '../services/notices';
 import { ResponseHandler } from '../utils/response';
 import { logger } from '../utils/logger';
 
 const taxService = new TaxService();
+const penaltyRuleService = new PenaltyRuleService();
+const penaltyService = new PenaltyService();
+const taxRateService = new TaxRateService();
+const exemptionService = new ExemptionService();
+const taxRollService = new TaxRollService();
+const arrearsService = new ArrearsService();
+const paymentAdjustmentService = new PaymentAdjustmentService();
+const installmentPlanService = new InstallmentPlanService();
+const cashierSessionService = new CashierSessionService();
+const bankStatementService = new BankStatementService();
+const receiptService = new ReceiptService();
+const clearanceService = new ClearanceService();
+const noticeService = new NoticeService();
 
 export class TaxController {
   async getAssessments(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
@@ -27,6 +52,44 @@ export class TaxController {
     }
   }
 
+  async getArrearsAging(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { group_by, district_id, sub_district_id, property_type, customer_type, tax_year } = req.query;
+      const data = await arrearsService.getAgingReport(group_by as AgingGroupBy, {
+        district_id: district_id as string,
+        sub_district_id: sub_district_id as string,
+        property_type: property_type as string,
+        customer_type: customer_type as string,
+        tax_year: tax_year ? Number(tax_year) : undefined,
+      });
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getArrearsAgingAssessments(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { group_by, group_key, bucket, page, limit, district_id, sub_district_id, property_type, customer_type, tax_year } =
+        req.query;
+      const result = await arrearsService.getAgingAssessments({
+        group_by: group_by as AgingGroupBy,
+        group_key: group_key as string,
+        bucket: bucket as AgingBucketKey,
+        page: Number(page),
+        limit: Number(limit),
+        district_id: district_id as string,
+        sub_district_id: sub_district_id as string,
+        property_type: property_type as string,
+        customer_type: customer_type as string,
+        tax_year: tax_year ? Number(tax_year) : undefined,
+      });
+      ResponseHandler.success(res, result.data, undefined, 200, result.meta);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getAssessment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
@@ -58,6 +121,15 @@ export class TaxController {
     }
   }
 
+  async calculateAssessment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await taxService.calculateAssessment(req.body);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async deleteAssessment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
@@ -92,7 +164,8 @@ export class TaxController {
 
   async createPayment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
-      const data = await taxService.createPayment(req.body, req.user!.id);
+      const { id } = req.params;
+      const data = await taxService.createPayment(id, req.body, req.user!.id, req.user!.role);
       logger.info(`Tax payment created: ${data.receipt_number} by ${req.user!.email}`);
       ResponseHandler.created(res, data, 'Payment recorded successfully');
     } catch (error) {
@@ -100,6 +173,318 @@ export class TaxController {
     }
   }
 
+  async getPropertyDebt(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { propertyId } = req.params;
+      const data = await taxService.getPropertyDebt(propertyId);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createAllocatedPayment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { propertyId } = req.params;
+      const data = await taxService.createAllocatedPayment(propertyId, req.body, req.user!.id, req.user!.role);
+      logger.info(
+        `Tax payment of ${data.total_paid} allocated to ${data.payments.length} assessments of property ${propertyId} by ${req.user!.email}`
+      );
+
+      if (data.unrecorded.length > 0) {
+        logger.warn(`Allocated payment ${data.allocation_id} left ${data.unrecorded_amount} unrecorded`);
+        ResponseHandler.success(res, data, `Payment partly recorded, ${data.unrecorded_amount.toFixed(2)} was not recorded`, 207);
+        return;
+      }
+
+      ResponseHandler.created(res, data, 'Payment recorded successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPaymentReceipt(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { filename, content } = await receiptService.renderReceipt(id);
+      ResponseHandler.file(res, content, filename, 'application/pdf', req.query.download !== 'true');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async checkClearance(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await clearanceService.check(req.query as ClearanceSubject);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getClearanceCertificates(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await clearanceService.getCertificates(req.query as ClearanceSubject);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async issueClearanceCertificate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await clearanceService.issue(req.body, req.user!.id);
+      logger.info(`Tax clearance certificate ${data.certificate_number} issued to ${data.holder_name} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Clearance certificate issued successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getClearanceCertificatePdf(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { filename, content } = await clearanceService.renderCertificate(id);
+      ResponseHandler.file(res, content, filename, 'application/pdf', req.query.download !== 'true');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPaymentAdjustments(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, assessment_id } = req.query;
+      const data = await paymentAdjustmentService.getAdjustments({
+        status: status as PaymentAdjustmentStatus,
+        assessmentId: assessment_id as string,
+      });
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async requestPaymentAdjustment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await paymentAdjustmentService.requestAdjustment(id, req.body, req.user!.id);
+      logger.info(`Payment ${req.body.adjustment_type.toLowerCase()} requested: ${id} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Request submitted for approval');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async approvePaymentAdjustment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await paymentAdjustmentService.approveAdjustment(id, req.user!.id, req.body.notes);
+      logger.info(`Payment adjustment approved: ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Request approved and recorded');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async rejectPaymentAdjustment(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await paymentAdjustmentService.rejectAdjustment(id, req.user!.id, req.body.notes);
+      logger.info(`Payment adjustment rejected: ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Request rejected');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCashierSessions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { status, cashier_id, from, to } = req.query;
+      // Collectors only see their own sessions
+      const cashierId = req.user!.role === 'INPUTTER' ? req.user!.id : (cashier_id as string);
+      const data = await cashierSessionService.getSessions({
+        status: status as CashierSessionStatus,
+        cashierId,
+        from: from as string,
+        to: to as string,
+      });
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCurrentCashierSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await cashierSessionService.getCurrentSession(req.user!.id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCashierSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await cashierSessionService.getSession(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async openCashierSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await cashierSessionService.openSession(req.body, req.user!.id);
+      logger.info(`Cashier session opened: ${data.session_number} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Cashier session opened');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async closeCashierSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await cashierSessionService.closeSession(id, req.body, req.user!.id);
+      logger.info(`Cashier session closed: ${data.session_number} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Cashier session closed and sent for approval');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async approveCashierSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await cashierSessionService.approveSession(id, req.user!.id, req.body.notes);
+      logger.info(`Cashier session approved: ${data.session_number} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Cashier session approved');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async returnCashierSession(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await cashierSessionService.returnSession(id, req.user!.id, req.body.notes);
+      logger.info(`Cashier session returned for recount: ${data.session_number} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Cashier session returned for a recount');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getCashierZReport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { filename, content } = await cashierSessionService.renderZReport(id);
+      ResponseHandler.file(res, content, filename, 'application/pdf', req.query.download !== 'true');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getBankImports(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await bankStatementService.getImports();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getBankImport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await bankStatementService.getImport(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async importBankStatement(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.file) {
+        ResponseHandler.badRequest(res, 'No file uploaded');
+        return;
+      }
+
+      const data = await bankStatementService.importStatement(req.file, req.user!.id);
+      logger.info(`Bank statement imported: ${req.file.originalname} (${data.lines} lines, ${data.matched} matched) by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Bank statement imported');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async postBankLines(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await bankStatementService.postLines(id, req.body.line_ids, req.user!.id);
+      logger.info(`Bank statement lines posted for import ${id}: ${data.posted} posted, ${data.failed.length} failed by ${req.user!.email}`);
+      ResponseHandler.success(res, data, `${data.posted} payment(s) posted`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async assignBankLine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await bankStatementService.assignLine(id, req.body.assessment_id, req.user!.id);
+      logger.info(`Bank statement line ${id} assigned to assessment ${req.body.assessment_id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Line assigned');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async ignoreBankLine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await bankStatementService.ignoreLine(id, req.body.reason, req.user!.id);
+      logger.info(`Bank statement line ${id} ignored by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Line ignored');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getInstallmentPlans(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await installmentPlanService.getPlans(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createInstallmentPlan(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await installmentPlanService.createPlan(id, req.body, req.user!.id);
+      logger.info(`Installment plan created for assessment ${id} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Payment plan created successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async cancelInstallmentPlan(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await installmentPlanService.cancelPlan(id, req.body.reason, req.user!.id);
+      logger.info(`Installment plan cancelled: ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Payment plan cancelled');
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async getTaxStats(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const year = req.query.year ? parseInt(req.query.year as string) : undefined;
@@ -109,4 +494,234 @@ export class TaxController {
       next(error);
     }
   }
+
+  async getPenaltyRules(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await penaltyRuleService.getRules();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createPenaltyRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await penaltyRuleService.createRule(req.body, req.user!.id);
+      logger.info(`Penalty rule created: ${data.name} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Penalty rule created successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updatePenaltyRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await penaltyRuleService.updateRule(id, req.body, req.user!.id);
+      logger.info(`Penalty rule updated: ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Penalty rule updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deletePenaltyRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      await penaltyRuleService.deleteRule(id);
+      logger.info(`Penalty rule deleted: ${id} by ${req.user!.email}`);
+      ResponseHandler.noContent(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async runPenalties(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await penaltyService.runPenalties(req.user!.id);
+      logger.info(`Penalty job run by ${req.user!.email}: ${data.updated} of ${data.checked} assessments updated`);
+      ResponseHandler.success(res, data, 'Penalties recalculated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getRateRules(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await taxRateService.getRules();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createRateRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await taxRateService.createRule(req.body, req.user!.id);
+      logger.info(`Tax rate rule created: ${data.name} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Tax rate rule created successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateRateRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await taxRateService.updateRule(id, req.body, req.user!.id);
+      logger.info(`Tax rate rule updated: ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Tax rate rule updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteRateRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      await taxRateService.deleteRule(id);
+      logger.info(`Tax rate rule deleted: ${id} by ${req.user!.email}`);
+      ResponseHandler.noContent(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getExemptionRules(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await exemptionService.getRules();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createExemptionRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await exemptionService.createRule(req.body, req.user!.id);
+      logger.info(`Exemption rule created: ${data.name} by ${req.user!.email}`);
+      ResponseHandler.created(res, data, 'Exemption rule created successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateExemptionRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await exemptionService.updateRule(id, req.body, req.user!.id);
+      logger.info(`Exemption rule updated: ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Exemption rule updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteExemptionRule(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      await exemptionService.deleteRule(id);
+      logger.info(`Exemption rule deleted: ${id} by ${req.user!.email}`);
+      ResponseHandler.noContent(res);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async previewTaxRoll(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await taxRollService.preview(req.body);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async startTaxRoll(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await taxRollService.startRun(req.body, req.user!.id);
+      logger.info(`Tax roll ${data.tax_year} started by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Tax roll generation started', 202);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getLatestTaxRollRun(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const taxYear = req.query.tax_year ? parseInt(req.query.tax_year as string) : undefined;
+      const data = await taxRollService.getLatestRun(taxYear);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTaxRollRun(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await taxRollService.getRun(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getNoticeTemplates(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await noticeService.getTemplates();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async saveNoticeTemplate(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { language } = req.params;
+      const data = await noticeService.saveTemplate(language, req.body, req.user!.id);
+      logger.info(`Notice template saved: ${language} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Notice template saved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async previewNotices(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await noticeService.preview(req.body);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async generateNotices(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { batch, filename, content, contentType } = await noticeService.generate(req.body, req.user!.id);
+      logger.info(`Tax notices generated: ${batch.notice_count} for ${batch.tax_year} by ${req.user!.email}`);
+      ResponseHandler.file(res, content, filename, contentType);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getNoticeBatches(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await noticeService.getBatches();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getAssessmentNotices(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data = await noticeService.getAssessmentNotices(id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { ClearanceService } from '../services/clearance';
+import { ReceiptService } from '../services/receipts';
+import { ResponseHandler } from '../utils/response';
+
+const receiptService = new ReceiptService();
+const clearanceService = new ClearanceService();
+
+export class VerificationController {
+  async verifyReceipt(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.params;
+      const data = await receiptService.verify(code);
+      ResponseHandler.success(res, data, 'Receipt is authentic');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async verifyClearance(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.params;
+      const data = await clearanceService.verify(code);
+      ResponseHandler.success(
+        res,
+        data,
+        data.valid ? 'Clearance certificate is authentic and valid' : 'Clearance certificate is authentic but has expired'
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,22 +1,52 @@
 import { Response, NextFunction } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { WorkflowService } from '../services/workflowService';
+import {
+  ApprovalWorkflowService,
+  ReviewQueueView,
+  ReviewSlaService,
+  TurnaroundFilters,
+  WorkflowEntityType,
+} from '../services/approvals';
 import { ResponseHandler } from '../utils/response';
 import { logger } from '../utils/logger';
 
 const workflowService = new WorkflowService();
+const approvalWorkflowService = new ApprovalWorkflowService();
+const reviewSlaService = new ReviewSlaService();
+
+// A stage approval leaves the record under review until the remaining stages are approved
+const approvalMessage = (label: string, data: any) =>
+  data.workflow?.status === 'IN_PROGRESS'
+    ? `${label} approval recorded, awaiting ${data.workflow.current_stages.join(', ')}`
+    : `${label} approved successfully`;
+
+// Rejecting the edits of an approved record restores it rather than rejecting the record
+const rejectionMessage = (label: string, data: any) =>
+  data.changes_restored ? `${label} changes rejected, approved version restored` : `${label} rejected`;
+
+const QUEUE_VIEWS: ReviewQueueView[] = ['mine', 'unassigned', 'all'];
+
+const isEntityType = (value: string): value is WorkflowEntityType => value === 'customer' || value === 'property';
 
 export class WorkflowController {
   async getReviewQueue(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
+      const view = (req.query.view as ReviewQueueView) || 'all';
+      if (!QUEUE_VIEWS.includes(view)) {
+        ResponseHandler.badRequest(res, 'Invalid view. Must be "mine", "unassigned" or "all"');
+        return;
+      }
+
       const filters = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 50,
         entityType: req.query.entityType as 'customer' | 'property' | undefined,
         status: req.query.status as string,
+        view,
       };
 
-      const result = await workflowService.getReviewQueue(filters);
+      const result = await workflowService.getReviewQueue(filters, req.user!);
       ResponseHandler.success(res, result.data, undefined, 200, result.meta);
     } catch (error) {
       next(error);
@@ -32,7 +62,7 @@ export class WorkflowController {
         return;
       }
 
-      const data = await workflowService.getReviewItem(entityType, id);
+      const data = await workflowService.getReviewItem(entityType, id, req.user!);
       ResponseHandler.success(res, data);
     } catch (error) {
       next(error);
@@ -42,9 +72,9 @@ export class WorkflowController {
   async approveCustomer(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const data = await workflowService.approveCustomer(id, req.user!.id);
-      logger.info(`Customer approved: ${id} by ${req.user!.email}`);
-      ResponseHandler.success(res, data, 'Customer approved successfully');
+      const data = await workflowService.approveCustomer(id, req.user!);
+      logger.info(`Customer approved: ${id} by ${req.user!.email} (${data.workflow?.status || 'APPROVED'})`);
+      ResponseHandler.success(res, data, approvalMessage('Customer', data));
     } catch (error) {
       next(error);
     }
@@ -60,9 +90,9 @@ export class WorkflowController {
         return;
       }
 
-      const data = await workflowService.rejectCustomer(id, req.user!.id, feedback);
+      const data = await workflowService.rejectCustomer(id, req.user!, feedback);
       logger.info(`Customer rejected: ${id} by ${req.user!.email}`);
-      ResponseHandler.success(res, data, 'Customer rejected');
+      ResponseHandler.success(res, data, rejectionMessage('Customer', data));
     } catch (error) {
       next(error);
     }
@@ -71,9 +101,9 @@ export class WorkflowController {
   async approveProperty(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const data = await workflowService.approveProperty(id, req.user!.id);
-      logger.info(`Property approved: ${id} by ${req.user!.email}`);
-      ResponseHandler.success(res, data, 'Property approved successfully');
+      const data = await workflowService.approveProperty(id, req.user!);
+      logger.info(`Property approved: ${id} by ${req.user!.email} (${data.workflow?.status || 'APPROVED'})`);
+      ResponseHandler.success(res, data, approvalMessage('Property', data));
     } catch (error) {
       next(error);
     }
@@ -89,9 +119,171 @@ export class WorkflowController {
         return;
       }
 
-      const data = await workflowService.rejectProperty(id, req.user!.id, feedback);
+      const data = await workflowService.rejectProperty(id, req.user!, feedback);
       logger.info(`Property rejected: ${id} by ${req.user!.email}`);
-      ResponseHandler.success(res, data, 'Property rejected');
+      ResponseHandler.success(res, data, rejectionMessage('Property', data));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async bulkApprove(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await workflowService.bulkReview('approve', req.body, req.user!);
+      logger.info(`Bulk approval by ${req.user!.email}: ${data.succeeded} of ${data.total} succeeded`);
+      ResponseHandler.success(res, data, `${data.succeeded} of ${data.total} records approved`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async bulkReject(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await workflowService.bulkReview('reject', req.body, req.user!);
+      logger.info(`Bulk rejection by ${req.user!.email}: ${data.succeeded} of ${data.total} succeeded`);
+      ResponseHandler.success(res, data, `${data.succeeded} of ${data.total} records rejected`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async claimReviewItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType, id } = req.params;
+
+      if (!isEntityType(entityType)) {
+        ResponseHandler.badRequest(res, 'Invalid entity type. Must be "customer" or "property"');
+        return;
+      }
+
+      const data = await approvalWorkflowService.claim(entityType, id, req.user!);
+      logger.info(`Review claimed: ${entityType} ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Assigned to you');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async releaseReviewItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType, id } = req.params;
+
+      if (!isEntityType(entityType)) {
+        ResponseHandler.badRequest(res, 'Invalid entity type. Must be "customer" or "property"');
+        return;
+      }
+
+      await approvalWorkflowService.release(entityType, id, req.user!);
+      logger.info(`Review released: ${entityType} ${id} by ${req.user!.email}`);
+      ResponseHandler.success(res, null, 'Returned to the queue');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async assignReviewItem(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType, id } = req.params;
+
+      if (!isEntityType(entityType)) {
+        ResponseHandler.badRequest(res, 'Invalid entity type. Must be "customer" or "property"');
+        return;
+      }
+
+      const data = await approvalWorkflowService.reassign(entityType, id, req.body.user_id, req.user!.id);
+      logger.info(`Review reassigned: ${entityType} ${id} to ${req.body.user_id} by ${req.user!.email}`);
+      ResponseHandler.success(res, data, `Assigned to ${data.assignee?.full_name || 'the approver'}`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getReviewAssignees(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType, id } = req.params;
+
+      if (!isEntityType(entityType)) {
+        ResponseHandler.badRequest(res, 'Invalid entity type. Must be "customer" or "property"');
+        return;
+      }
+
+      const data = await approvalWorkflowService.getAssignees(entityType, id);
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getDefinitions(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await approvalWorkflowService.getDefinitions();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async saveDefinition(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType } = req.params;
+
+      if (entityType !== 'customer' && entityType !== 'property') {
+        ResponseHandler.badRequest(res, 'Invalid entity type. Must be "customer" or "property"');
+        return;
+      }
+
+      const data = await approvalWorkflowService.saveDefinition(
+        entityType as WorkflowEntityType,
+        req.body,
+        req.user!.id
+      );
+      logger.info(`Workflow definition saved: ${entityType} (${data.stages.length} stages) by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'Workflow saved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSlaTargets(_req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await reviewSlaService.getTargets();
+      ResponseHandler.success(res, data);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async saveSlaTarget(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { entityType } = req.params;
+
+      if (!isEntityType(entityType)) {
+        ResponseHandler.badRequest(res, 'Invalid entity type. Must be "customer" or "property"');
+        return;
+      }
+
+      const data = await reviewSlaService.saveTarget(entityType, req.body, req.user!.id);
+      logger.info(`Review SLA target saved: ${entityType} (${data.target_hours}h) by ${req.user!.email}`);
+      ResponseHandler.success(res, data, 'SLA target saved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async runEscalations(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await reviewSlaService.runEscalations();
+      logger.info(`Review escalations run by ${req.user!.email}: ${data.escalated} escalated, ${data.failed} failed`);
+      ResponseHandler.success(res, data, `${data.escalated} overdue reviews escalated`);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getTurnaroundReport(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data = await reviewSlaService.getTurnaroundReport(req.query as unknown as TurnaroundFilters);
+      ResponseHandler.success(res, data);
     } catch (error) {
       next(error);
     }
@@ -5,6 +5,7 @@ import { ResponseHandler } from '../utils/response';
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  errors?: any[]; // returned to the client next to the message
 
   constructor(message: string, statusCode: number = 500, isOperational: boolean = true) {
     super(message);
@@ -27,7 +28,7 @@ export const errorHandler = (
       method: req.method,
     });
 
-    ResponseHandler.error(res, err.message, err.statusCode);
+    ResponseHandler.error(res, err.message, err.statusCode, err.errors);
     return;
   }
 
@@ -26,3 +26,22 @@ export const upload = multer({
   },
   fileFilter: fileFilter,
 });
+
+// Bank statement files: CSV exports, MT940 messages and CAMT.053 XML
+const statementFileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedExtensions = ['.csv', '.txt', '.sta', '.mt940', '.940', '.xml'];
+
+  if (allowedExtensions.includes(path.extname(file.originalname).toLowerCase())) {
+    return cb(null, true);
+  } else {
+    cb(new AppError('Only CSV, MT940 and CAMT.053 statement files are allowed', 400));
+  }
+};
+
+export const statementUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max file size
+  },
+  fileFilter: statementFileFilter,
+});
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { AdminController } from '../../controllers/adminController';
 import { authenticate, authorize } from '../../middleware/auth';
+import { validate } from '../../middleware/validator';
+import { agoFeaturePreviewSchema, agoSettingsSchema } from '../../validators/agoSettingsValidator';
 
 const router = Router();
 const adminController = new AdminController();
@@ -63,7 +65,7 @@ router.get('/ago-settings', adminController.getAGOSettings);
  * @desc    Update AGO settings
  * @access  Private (ADMINISTRATOR)
  */
-router.put('/ago-settings', adminController.updateAGOSettings);
+router.put('/ago-settings', validate(agoSettingsSchema), adminController.updateAGOSettings);
 
 /**
  * @route   POST /api/v1/admin/ago-settings/test
@@ -72,4 +74,81 @@ router.put('/ago-settings', adminController.updateAGOSettings);
  */
 router.post('/ago-settings/test', adminController.testAGOConnection);
 
+/**
+ * @route   POST /api/v1/admin/ago-settings/preview
+ * @desc    Render the AGO feature JSON a property would be synced as
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/ago-settings/preview', validate(agoFeaturePreviewSchema), adminController.previewAGOFeature);
+
+/**
+ * @route   GET /api/v1/admin/ago-sync/stats
+ * @desc    Get AGO sync and retry queue counts
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get('/ago-sync/stats', adminController.getAGOSyncStats);
+
+/**
+ * @route   GET /api/v1/admin/ago-sync/retries
+ * @desc    Get AGO sync retry queue
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get('/ago-sync/retries', adminController.getAGOSyncRetries);
+
+/**
+ * @route   POST /api/v1/admin/ago-sync/retries/:id/retry
+ * @desc    Retry a queued AGO sync now
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/ago-sync/retries/:id/retry', adminController.retryAGOSync);
+
+/**
+ * @route   POST /api/v1/admin/ago-sync/retries/:id/give-up
+ * @desc    Stop retrying a queued AGO sync
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/ago-sync/retries/:id/give-up', adminController.giveUpAGOSync);
+
+/**
+ * @route   POST /api/v1/admin/ago-reconciliation/runs
+ * @desc    Start an AGO layer vs properties reconciliation
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/ago-reconciliation/runs', adminController.startAGOReconciliation);
+
+/**
+ * @route   GET /api/v1/admin/ago-reconciliation/runs/latest
+ * @desc    Get the most recent reconciliation run
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get('/ago-reconciliation/runs/latest', adminController.getLatestAGOReconciliation);
+
+/**
+ * @route   GET /api/v1/admin/ago-reconciliation/runs/:id/items
+ * @desc    Get the differences found by a reconciliation run
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get('/ago-reconciliation/runs/:id/items', adminController.getAGOReconciliationItems);
+
+/**
+ * @route   GET /api/v1/admin/ago-reconciliation/runs/:id/items/export
+ * @desc    Get every difference found by a reconciliation run for the downloadable report
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get('/ago-reconciliation/runs/:id/items/export', adminController.exportAGOReconciliationItems);
+
+/**
+ * @route   POST /api/v1/admin/ago-reconciliation/items/:id/repush
+ * @desc    Re-push the property of a reconciliation item to AGO
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/ago-reconciliation/items/:id/repush', adminController.repushAGOReconciliationItem);
+
+/**
+ * @route   POST /api/v1/admin/ago-reconciliation/items/:id/unlink
+ * @desc    Unlink the property of a reconciliation item from its AGO feature
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/ago-reconciliation/items/:id/unlink', adminController.unlinkAGOReconciliationItem);
+
 export default router;
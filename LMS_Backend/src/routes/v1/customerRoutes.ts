@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { CustomerController } from '../../controllers/customerController';
 import { authenticate, authorize } from '../../middleware/auth';
+import { validateQuery } from '../../middleware/validator';
+import { customerStatementQuerySchema } from '../../validators/customerStatementValidator';
 
 const router = Router();
 const customerController = new CustomerController();
@@ -33,6 +35,28 @@ router.get(
  */
 router.get('/:id', customerController.getCustomer);
 
+/**
+ * @route   GET /api/v1/customers/:id/statement
+ * @desc    Statement of account across the customer's current properties (?from=&to=)
+ * @access  Private (All roles)
+ */
+router.get(
+  '/:id/statement',
+  validateQuery(customerStatementQuerySchema),
+  customerController.getStatement
+);
+
+/**
+ * @route   GET /api/v1/customers/:id/statement/pdf
+ * @desc    Statement of account as a PDF (?from=&to=&download=true)
+ * @access  Private (All roles)
+ */
+router.get(
+  '/:id/statement/pdf',
+  validateQuery(customerStatementQuerySchema),
+  customerController.getStatementPdf
+);
+
 /**
  * @route   POST /api/v1/customers
  * @desc    Create new customer
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { DashboardController } from '../../controllers/dashboardController';
 import { authenticate } from '../../middleware/auth';
+import { validateQuery } from '../../middleware/validator';
+import { collectionTrendsQuerySchema } from '../../validators/arrearsValidator';
 
 const router = Router();
 const dashboardController = new DashboardController();
@@ -22,4 +24,15 @@ router.get('/stats', dashboardController.getDashboardStats);
  */
 router.get('/tax-stats', dashboardController.getTaxStats);
 
+/**
+ * @route   GET /api/v1/dashboard/collection-trends
+ * @desc    Payments collected per month (?months=12)
+ * @access  Private (All roles)
+ */
+router.get(
+  '/collection-trends',
+  validateQuery(collectionTrendsQuerySchema),
+  dashboardController.getCollectionTrends
+);
+
 export default router;
@@ -10,6 +10,8 @@ import dashboardRoutes from './dashboardRoutes';
 import notificationRoutes from './notificationRoutes';
 import bulkUploadRoutes from './bulkUploadRoutes';
 import activityLogRoutes from './activityLogRoutes';
+import verificationRoutes from './verificationRoutes';
+import mobileMoneyRoutes from './mobileMoneyRoutes';
 
 const router = Router();
 
@@ -25,6 +27,8 @@ router.use('/dashboard', dashboardRoutes);
 router.use('/notifications', notificationRoutes);
 router.use('/bulk-upload', bulkUploadRoutes);
 router.use('/activity-logs', activityLogRoutes);
+router.use('/verify', verificationRoutes);
+router.use('/mobile-money', mobileMoneyRoutes);
 
 // Health check endpoint
 router.get('/health', (req, res) => {
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import { MobileMoneyController } from '../../controllers/mobileMoneyController';
+import { authenticate, authorize } from '../../middleware/auth';
+import { validate, validateQuery } from '../../middleware/validator';
+import {
+  mobileMoneyRequestQuerySchema,
+  mobileMoneyRequestSchema,
+  mobileMoneySimulateSchema,
+} from '../../validators/mobileMoneyValidator';
+
+const router = Router();
+const mobileMoneyController = new MobileMoneyController();
+
+/**
+ * @route   POST /api/v1/mobile-money/callbacks/:provider
+ * @desc    Payment outcome reported by a mobile-money provider
+ * @access  Public (signed by the provider)
+ */
+router.post('/callbacks/:provider', mobileMoneyController.handleCallback);
+
+// All other routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/v1/mobile-money/settings
+ * @desc    Active provider and currency of mobile-money requests
+ * @access  Private (All roles)
+ */
+router.get('/settings', mobileMoneyController.getSettings);
+
+/**
+ * @route   GET /api/v1/mobile-money/requests
+ * @desc    Get mobile-money payment requests, filtered by assessment_id or status
+ * @access  Private (All roles)
+ */
+router.get('/requests', validateQuery(mobileMoneyRequestQuerySchema), mobileMoneyController.getRequests);
+
+/**
+ * @route   GET /api/v1/mobile-money/requests/:id
+ * @desc    Get a mobile-money payment request
+ * @access  Private (All roles)
+ */
+router.get('/requests/:id', mobileMoneyController.getRequest);
+
+/**
+ * @route   POST /api/v1/mobile-money/requests
+ * @desc    Send a payment request for an assessment to the payer's phone
+ * @access  Private (INPUTTER, APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/requests',
+  authorize('INPUTTER', 'APPROVER', 'ADMINISTRATOR'),
+  validate(mobileMoneyRequestSchema),
+  mobileMoneyController.requestPayment
+);
+
+/**
+ * @route   POST /api/v1/mobile-money/requests/:id/simulate
+ * @desc    Answer a request sent through the local simulator as the payer would
+ * @access  Private (INPUTTER, APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/requests/:id/simulate',
+  authorize('INPUTTER', 'APPROVER', 'ADMINISTRATOR'),
+  validate(mobileMoneySimulateSchema),
+  mobileMoneyController.simulate
+);
+
+export default router;
@@ -1,6 +1,34 @@
 import { Router } from 'express';
 import { TaxController } from '../../controllers/taxController';
 import { authenticate, authorize } from '../../middleware/auth';
+import { statementUpload } from '../../middleware/upload';
+import { validate, validateQuery } from '../../middleware/validator';
+import { arrearsAgingQuerySchema, arrearsAssessmentQuerySchema } from '../../validators/arrearsValidator';
+import { bankLineAssignSchema, bankLineIgnoreSchema, bankLinePostSchema } from '../../validators/bankStatementValidator';
+import {
+  cashierSessionCloseSchema,
+  cashierSessionOpenSchema,
+  cashierSessionReturnSchema,
+  cashierSessionReviewSchema,
+} from '../../validators/cashierSessionValidator';
+import {
+  clearanceCheckQuerySchema,
+  clearanceIssueSchema,
+  clearanceListQuerySchema,
+} from '../../validators/clearanceValidator';
+import { exemptionRuleSchema } from '../../validators/exemptionRuleValidator';
+import { installmentPlanCancelSchema, installmentPlanSchema } from '../../validators/installmentPlanValidator';
+import { penaltyRuleSchema } from '../../validators/penaltyRuleValidator';
+import { taxCalculationSchema, taxRateRuleSchema } from '../../validators/taxRateValidator';
+import { taxRollSchema } from '../../validators/taxRollValidator';
+import { taxNoticeSchema, taxNoticeTemplateSchema } from '../../validators/taxNoticeValidator';
+import {
+  allocatedPaymentSchema,
+  paymentAdjustmentRejectSchema,
+  paymentAdjustmentReviewSchema,
+  paymentAdjustmentSchema,
+  taxPaymentSchema,
+} from '../../validators/taxPaymentValidator';
 
 const router = Router();
 const taxController = new TaxController();
@@ -22,6 +50,25 @@ router.get('/assessments', taxController.getAssessments);
  */
 router.get('/stats', taxController.getTaxStats);
 
+/**
+ * @route   GET /api/v1/tax/arrears/aging
+ * @desc    Outstanding amounts past due by aging bucket, per district, sub-district,
+ *          property type or customer type (?group_by=&district_id=&tax_year=...)
+ * @access  Private (All roles)
+ */
+router.get('/arrears/aging', validateQuery(arrearsAgingQuerySchema), taxController.getArrearsAging);
+
+/**
+ * @route   GET /api/v1/tax/arrears/aging/assessments
+ * @desc    Assessments behind a group and/or bucket of the aging report (?group_by=&group_key=&bucket=)
+ * @access  Private (All roles)
+ */
+router.get(
+  '/arrears/aging/assessments',
+  validateQuery(arrearsAssessmentQuerySchema),
+  taxController.getArrearsAgingAssessments
+);
+
 /**
  * @route   GET /api/v1/tax/assessments/:id
  * @desc    Get tax assessment by ID
@@ -36,6 +83,13 @@ router.get('/assessments/:id', taxController.getAssessment);
  */
 router.get('/assessments/:id/payments', taxController.getPayments);
 
+/**
+ * @route   GET /api/v1/tax/assessments/:id/notices
+ * @desc    Get the assessment notices generated for an assessment
+ * @access  Private (All roles)
+ */
+router.get('/assessments/:id/notices', taxController.getAssessmentNotices);
+
 /**
  * @route   POST /api/v1/tax/assessments
  * @desc    Create new tax assessment
@@ -47,6 +101,18 @@ router.post(
   taxController.createAssessment
 );
 
+/**
+ * @route   POST /api/v1/tax/assessments/calculate
+ * @desc    Calculate base assessment from the rate tables without saving
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/assessments/calculate',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(taxCalculationSchema),
+  taxController.calculateAssessment
+);
+
 /**
  * @route   PUT /api/v1/tax/assessments/:id
  * @desc    Update tax assessment
@@ -81,14 +147,523 @@ router.patch(
 );
 
 /**
- * @route   POST /api/v1/tax/payments
- * @desc    Create new payment
+ * @route   POST /api/v1/tax/assessments/:id/payments
+ * @desc    Record a payment against an assessment
  * @access  Private (INPUTTER, ADMINISTRATOR)
  */
 router.post(
-  '/payments',
+  '/assessments/:id/payments',
   authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(taxPaymentSchema),
   taxController.createPayment
 );
 
+/**
+ * @route   GET /api/v1/tax/properties/:propertyId/debt
+ * @desc    Tax history of a property and its outstanding balance across all years
+ * @access  Private (All roles)
+ */
+router.get('/properties/:propertyId/debt', taxController.getPropertyDebt);
+
+/**
+ * @route   POST /api/v1/tax/properties/:propertyId/payments
+ * @desc    Record a payment for a property, allocated to its open assessments oldest year first
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/properties/:propertyId/payments',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(allocatedPaymentSchema),
+  taxController.createAllocatedPayment
+);
+
+/**
+ * @route   GET /api/v1/tax/payments/:id/receipt
+ * @desc    PDF receipt of a payment, reversal or refund (?download=true to save as a file)
+ * @access  Private (All roles)
+ */
+router.get('/payments/:id/receipt', taxController.getPaymentReceipt);
+
+/**
+ * @route   GET /api/v1/tax/clearances/check
+ * @desc    Whether a clearance certificate can be issued for a property or customer, with the blocking assessments
+ * @access  Private (All roles)
+ */
+router.get('/clearances/check', validateQuery(clearanceCheckQuerySchema), taxController.checkClearance);
+
+/**
+ * @route   GET /api/v1/tax/clearances
+ * @desc    Get issued clearance certificates, filtered by property_id or customer_id
+ * @access  Private (All roles)
+ */
+router.get('/clearances', validateQuery(clearanceListQuerySchema), taxController.getClearanceCertificates);
+
+/**
+ * @route   POST /api/v1/tax/clearances
+ * @desc    Issue a clearance certificate for a property or for all current properties of a customer
+ * @access  Private (INPUTTER, APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/clearances',
+  authorize('INPUTTER', 'APPROVER', 'ADMINISTRATOR'),
+  validate(clearanceIssueSchema),
+  taxController.issueClearanceCertificate
+);
+
+/**
+ * @route   GET /api/v1/tax/clearances/:id/pdf
+ * @desc    PDF of an issued clearance certificate (?download=true to save as a file)
+ * @access  Private (All roles)
+ */
+router.get('/clearances/:id/pdf', taxController.getClearanceCertificatePdf);
+
+/**
+ * @route   POST /api/v1/tax/payments/:id/adjustments
+ * @desc    Request a reversal or refund of a payment
+ * @access  Private (INPUTTER, APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/payments/:id/adjustments',
+  authorize('INPUTTER', 'APPROVER', 'ADMINISTRATOR'),
+  validate(paymentAdjustmentSchema),
+  taxController.requestPaymentAdjustment
+);
+
+/**
+ * @route   GET /api/v1/tax/payment-adjustments
+ * @desc    Get reversal and refund requests, filtered by status or assessment
+ * @access  Private (All roles)
+ */
+router.get('/payment-adjustments', taxController.getPaymentAdjustments);
+
+/**
+ * @route   POST /api/v1/tax/payment-adjustments/:id/approve
+ * @desc    Approve a reversal or refund and record the compensating entry
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/payment-adjustments/:id/approve',
+  authorize('APPROVER', 'ADMINISTRATOR'),
+  validate(paymentAdjustmentReviewSchema),
+  taxController.approvePaymentAdjustment
+);
+
+/**
+ * @route   POST /api/v1/tax/payment-adjustments/:id/reject
+ * @desc    Reject a reversal or refund
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/payment-adjustments/:id/reject',
+  authorize('APPROVER', 'ADMINISTRATOR'),
+  validate(paymentAdjustmentRejectSchema),
+  taxController.rejectPaymentAdjustment
+);
+
+/**
+ * @route   GET /api/v1/tax/cashier-sessions
+ * @desc    Get cashier sessions, filtered by status, cashier_id or opening date (from, to)
+ * @access  Private (All roles; inputters only see their own)
+ */
+router.get('/cashier-sessions', taxController.getCashierSessions);
+
+/**
+ * @route   GET /api/v1/tax/cashier-sessions/current
+ * @desc    Get the session of the current user that has not been closed yet
+ * @access  Private (All roles)
+ */
+router.get('/cashier-sessions/current', taxController.getCurrentCashierSession);
+
+/**
+ * @route   GET /api/v1/tax/cashier-sessions/:id
+ * @desc    Get a cashier session with its payments and expected vs counted totals
+ * @access  Private (All roles)
+ */
+router.get('/cashier-sessions/:id', taxController.getCashierSession);
+
+/**
+ * @route   GET /api/v1/tax/cashier-sessions/:id/z-report
+ * @desc    Z-report PDF of a closed session (?download=true to save as a file)
+ * @access  Private (All roles)
+ */
+router.get('/cashier-sessions/:id/z-report', taxController.getCashierZReport);
+
+/**
+ * @route   POST /api/v1/tax/cashier-sessions
+ * @desc    Open a cashier session for the current user
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/cashier-sessions',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(cashierSessionOpenSchema),
+  taxController.openCashierSession
+);
+
+/**
+ * @route   POST /api/v1/tax/cashier-sessions/:id/close
+ * @desc    Close a session with the counted amount per payment method
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/cashier-sessions/:id/close',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(cashierSessionCloseSchema),
+  taxController.closeCashierSession
+);
+
+/**
+ * @route   POST /api/v1/tax/cashier-sessions/:id/approve
+ * @desc    Approve the close of a cashier session
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/cashier-sessions/:id/approve',
+  authorize('APPROVER', 'ADMINISTRATOR'),
+  validate(cashierSessionReviewSchema),
+  taxController.approveCashierSession
+);
+
+/**
+ * @route   POST /api/v1/tax/cashier-sessions/:id/return
+ * @desc    Return a closed cashier session to the cashier for a recount
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/cashier-sessions/:id/return',
+  authorize('APPROVER', 'ADMINISTRATOR'),
+  validate(cashierSessionReturnSchema),
+  taxController.returnCashierSession
+);
+
+/**
+ * @route   GET /api/v1/tax/bank-imports
+ * @desc    Get imported bank statements with the number of lines per status
+ * @access  Private (All roles)
+ */
+router.get('/bank-imports', taxController.getBankImports);
+
+/**
+ * @route   GET /api/v1/tax/bank-imports/:id
+ * @desc    Get an imported bank statement with its lines and their matches
+ * @access  Private (All roles)
+ */
+router.get('/bank-imports/:id', taxController.getBankImport);
+
+/**
+ * @route   POST /api/v1/tax/bank-imports
+ * @desc    Import a bank statement file (CSV, MT940 or CAMT.053) and match its lines
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/bank-imports',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  statementUpload.single('file'),
+  taxController.importBankStatement
+);
+
+/**
+ * @route   POST /api/v1/tax/bank-imports/:id/post
+ * @desc    Record the matched lines of an import as bank transfer payments
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/bank-imports/:id/post',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(bankLinePostSchema),
+  taxController.postBankLines
+);
+
+/**
+ * @route   POST /api/v1/tax/bank-lines/:id/assign
+ * @desc    Assign a bank statement line to an open assessment
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/bank-lines/:id/assign',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(bankLineAssignSchema),
+  taxController.assignBankLine
+);
+
+/**
+ * @route   POST /api/v1/tax/bank-lines/:id/ignore
+ * @desc    Leave a bank statement line out of reconciliation
+ * @access  Private (INPUTTER, ADMINISTRATOR)
+ */
+router.post(
+  '/bank-lines/:id/ignore',
+  authorize('INPUTTER', 'ADMINISTRATOR'),
+  validate(bankLineIgnoreSchema),
+  taxController.ignoreBankLine
+);
+
+/**
+ * @route   GET /api/v1/tax/assessments/:id/installment-plans
+ * @desc    Get the payment plans of an assessment with their installments
+ * @access  Private (All roles)
+ */
+router.get('/assessments/:id/installment-plans', taxController.getInstallmentPlans);
+
+/**
+ * @route   POST /api/v1/tax/assessments/:id/installment-plans
+ * @desc    Put the outstanding amount of an assessment on a payment plan
+ * @access  Private (INPUTTER, APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/assessments/:id/installment-plans',
+  authorize('INPUTTER', 'APPROVER', 'ADMINISTRATOR'),
+  validate(installmentPlanSchema),
+  taxController.createInstallmentPlan
+);
+
+/**
+ * @route   POST /api/v1/tax/installment-plans/:id/cancel
+ * @desc    Cancel a payment plan; the assessment falls back to its original due date
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post(
+  '/installment-plans/:id/cancel',
+  authorize('APPROVER', 'ADMINISTRATOR'),
+  validate(installmentPlanCancelSchema),
+  taxController.cancelInstallmentPlan
+);
+
+/**
+ * @route   GET /api/v1/tax/penalty-rules
+ * @desc    Get penalty and interest rules
+ * @access  Private (All roles)
+ */
+router.get('/penalty-rules', taxController.getPenaltyRules);
+
+/**
+ * @route   POST /api/v1/tax/penalty-rules
+ * @desc    Create penalty rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/penalty-rules',
+  authorize('ADMINISTRATOR'),
+  validate(penaltyRuleSchema),
+  taxController.createPenaltyRule
+);
+
+/**
+ * @route   PUT /api/v1/tax/penalty-rules/:id
+ * @desc    Update penalty rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.put(
+  '/penalty-rules/:id',
+  authorize('ADMINISTRATOR'),
+  validate(penaltyRuleSchema),
+  taxController.updatePenaltyRule
+);
+
+/**
+ * @route   DELETE /api/v1/tax/penalty-rules/:id
+ * @desc    Delete penalty rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.delete(
+  '/penalty-rules/:id',
+  authorize('ADMINISTRATOR'),
+  taxController.deletePenaltyRule
+);
+
+/**
+ * @route   POST /api/v1/tax/penalties/run
+ * @desc    Run the daily penalty job now
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/penalties/run',
+  authorize('ADMINISTRATOR'),
+  taxController.runPenalties
+);
+
+/**
+ * @route   GET /api/v1/tax/rate-rules
+ * @desc    Get tax rate rules
+ * @access  Private (All roles)
+ */
+router.get('/rate-rules', taxController.getRateRules);
+
+/**
+ * @route   POST /api/v1/tax/rate-rules
+ * @desc    Create tax rate rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/rate-rules',
+  authorize('ADMINISTRATOR'),
+  validate(taxRateRuleSchema),
+  taxController.createRateRule
+);
+
+/**
+ * @route   PUT /api/v1/tax/rate-rules/:id
+ * @desc    Update tax rate rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.put(
+  '/rate-rules/:id',
+  authorize('ADMINISTRATOR'),
+  validate(taxRateRuleSchema),
+  taxController.updateRateRule
+);
+
+/**
+ * @route   DELETE /api/v1/tax/rate-rules/:id
+ * @desc    Delete tax rate rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.delete(
+  '/rate-rules/:id',
+  authorize('ADMINISTRATOR'),
+  taxController.deleteRateRule
+);
+
+/**
+ * @route   GET /api/v1/tax/exemption-rules
+ * @desc    Get exemption rules
+ * @access  Private (All roles)
+ */
+router.get('/exemption-rules', taxController.getExemptionRules);
+
+/**
+ * @route   POST /api/v1/tax/exemption-rules
+ * @desc    Create exemption rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/exemption-rules',
+  authorize('ADMINISTRATOR'),
+  validate(exemptionRuleSchema),
+  taxController.createExemptionRule
+);
+
+/**
+ * @route   PUT /api/v1/tax/exemption-rules/:id
+ * @desc    Update exemption rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.put(
+  '/exemption-rules/:id',
+  authorize('ADMINISTRATOR'),
+  validate(exemptionRuleSchema),
+  taxController.updateExemptionRule
+);
+
+/**
+ * @route   DELETE /api/v1/tax/exemption-rules/:id
+ * @desc    Delete exemption rule
+ * @access  Private (ADMINISTRATOR)
+ */
+router.delete(
+  '/exemption-rules/:id',
+  authorize('ADMINISTRATOR'),
+  taxController.deleteExemptionRule
+);
+
+/**
+ * @route   POST /api/v1/tax/roll/preview
+ * @desc    Dry run of the tax roll for a year
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/roll/preview',
+  authorize('ADMINISTRATOR'),
+  validate(taxRollSchema),
+  taxController.previewTaxRoll
+);
+
+/**
+ * @route   POST /api/v1/tax/roll/runs
+ * @desc    Start generating the tax roll for a year
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/roll/runs',
+  authorize('ADMINISTRATOR'),
+  validate(taxRollSchema),
+  taxController.startTaxRoll
+);
+
+/**
+ * @route   GET /api/v1/tax/roll/runs/latest
+ * @desc    Get the latest tax roll run, optionally for a tax year
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get(
+  '/roll/runs/latest',
+  authorize('ADMINISTRATOR'),
+  taxController.getLatestTaxRollRun
+);
+
+/**
+ * @route   GET /api/v1/tax/roll/runs/:id
+ * @desc    Get a tax roll run with its progress
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get(
+  '/roll/runs/:id',
+  authorize('ADMINISTRATOR'),
+  taxController.getTaxRollRun
+);
+
+/**
+ * @route   GET /api/v1/tax/notice-templates
+ * @desc    Get the assessment notice templates of all languages
+ * @access  Private (All roles)
+ */
+router.get('/notice-templates', taxController.getNoticeTemplates);
+
+/**
+ * @route   PUT /api/v1/tax/notice-templates/:language
+ * @desc    Create or update the notice template of a language
+ * @access  Private (ADMINISTRATOR)
+ */
+router.put(
+  '/notice-templates/:language',
+  authorize('ADMINISTRATOR'),
+  validate(taxNoticeTemplateSchema),
+  taxController.saveNoticeTemplate
+);
+
+/**
+ * @route   POST /api/v1/tax/notices/preview
+ * @desc    Count the notices a batch would contain, per group
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/notices/preview',
+  authorize('ADMINISTRATOR'),
+  validate(taxNoticeSchema),
+  taxController.previewNotices
+);
+
+/**
+ * @route   POST /api/v1/tax/notices
+ * @desc    Generate and record a batch of assessment notices, returned as a PDF or ZIP
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/notices',
+  authorize('ADMINISTRATOR'),
+  validate(taxNoticeSchema),
+  taxController.generateNotices
+);
+
+/**
+ * @route   GET /api/v1/tax/notices/batches
+ * @desc    Get the most recent notice batches
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get(
+  '/notices/batches',
+  authorize('ADMINISTRATOR'),
+  taxController.getNoticeBatches
+);
+
 export default router;
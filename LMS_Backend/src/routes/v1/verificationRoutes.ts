@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { VerificationController } from '../../controllers/verificationController';
+
+const router = Router();
+const verificationController = new VerificationController();
+
+// Public routes, reached from the QR codes on printed documents
+
+/**
+ * @route   GET /api/v1/verify/receipts/:code
+ * @desc    Verify a tax payment receipt from the code in its QR code
+ * @access  Public
+ */
+router.get('/receipts/:code', verificationController.verifyReceipt);
+
+/**
+ * @route   GET /api/v1/verify/clearances/:code
+ * @desc    Verify a tax clearance certificate from the code in its QR code
+ * @access  Public
+ */
+router.get('/clearances/:code', verificationController.verifyClearance);
+
+export default router;
@@ -1,6 +1,11 @@
 import { Router } from 'express';
 import { WorkflowController } from '../../controllers/workflowController';
 import { authenticate, authorize } from '../../middleware/auth';
+import { validate, validateQuery } from '../../middleware/validator';
+import { workflowDefinitionSchema } from '../../validators/workflowDefinitionValidator';
+import { reviewAssignSchema } from '../../validators/reviewAssignmentValidator';
+import { slaTargetSchema, turnaroundReportQuerySchema } from '../../validators/reviewSlaValidator';
+import { bulkApproveSchema, bulkRejectSchema } from '../../validators/bulkReviewValidator';
 
 const router = Router();
 const workflowController = new WorkflowController();
@@ -11,21 +16,125 @@ router.use(authorize('APPROVER', 'ADMINISTRATOR'));
 
 /**
  * @route   GET /api/v1/workflow/review-queue
- * @desc    Get review queue (pending approvals)
+ * @desc    Get review queue (pending approvals), ?view=mine|unassigned|all
  * @access  Private (APPROVER, ADMINISTRATOR)
  */
 router.get('/review-queue', workflowController.getReviewQueue);
 
+/**
+ * @route   GET /api/v1/workflow/definitions
+ * @desc    Get the approval stages of customers and properties
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.get('/definitions', workflowController.getDefinitions);
+
+/**
+ * @route   PUT /api/v1/workflow/definitions/:entityType
+ * @desc    Replace the approval stages of customers or properties
+ * @access  Private (ADMINISTRATOR)
+ */
+router.put(
+  '/definitions/:entityType',
+  authorize('ADMINISTRATOR'),
+  validate(workflowDefinitionSchema),
+  workflowController.saveDefinition
+);
+
+/**
+ * @route   GET /api/v1/workflow/sla-targets
+ * @desc    Get the review SLA targets of customers and properties
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.get('/sla-targets', workflowController.getSlaTargets);
+
+/**
+ * @route   PUT /api/v1/workflow/sla-targets/:entityType
+ * @desc    Set the review SLA target of customers or properties and how breaches are escalated
+ * @access  Private (ADMINISTRATOR)
+ */
+router.put(
+  '/sla-targets/:entityType',
+  authorize('ADMINISTRATOR'),
+  validate(slaTargetSchema),
+  workflowController.saveSlaTarget
+);
+
+/**
+ * @route   POST /api/v1/workflow/sla-escalations/run
+ * @desc    Escalate reviews past their SLA target now instead of waiting for the next pass
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post('/sla-escalations/run', authorize('ADMINISTRATOR'), workflowController.runEscalations);
+
+/**
+ * @route   GET /api/v1/workflow/reports/turnaround
+ * @desc    Average and percentile decision time per approver, ?from&to&entity_type
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get(
+  '/reports/turnaround',
+  authorize('ADMINISTRATOR'),
+  validateQuery(turnaroundReportQuerySchema),
+  workflowController.getTurnaroundReport
+);
+
 /**
  * @route   GET /api/v1/workflow/review/:entityType/:id
- * @desc    Get review item details
+ * @desc    Get review item details with its approval stages and history
  * @access  Private (APPROVER, ADMINISTRATOR)
  */
 router.get('/review/:entityType/:id', workflowController.getReviewItem);
 
+/**
+ * @route   POST /api/v1/workflow/review/:entityType/:id/claim
+ * @desc    Assign a review item to yourself
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post('/review/:entityType/:id/claim', workflowController.claimReviewItem);
+
+/**
+ * @route   POST /api/v1/workflow/review/:entityType/:id/release
+ * @desc    Return a review item to the unassigned items
+ * @access  Private (assignee, ADMINISTRATOR)
+ */
+router.post('/review/:entityType/:id/release', workflowController.releaseReviewItem);
+
+/**
+ * @route   GET /api/v1/workflow/review/:entityType/:id/assignees
+ * @desc    Approvers who can take over a review item, with their current load
+ * @access  Private (ADMINISTRATOR)
+ */
+router.get('/review/:entityType/:id/assignees', authorize('ADMINISTRATOR'), workflowController.getReviewAssignees);
+
+/**
+ * @route   POST /api/v1/workflow/review/:entityType/:id/assign
+ * @desc    Reassign a review item to another approver
+ * @access  Private (ADMINISTRATOR)
+ */
+router.post(
+  '/review/:entityType/:id/assign',
+  authorize('ADMINISTRATOR'),
+  validate(reviewAssignSchema),
+  workflowController.assignReviewItem
+);
+
+/**
+ * @route   POST /api/v1/workflow/bulk/approve
+ * @desc    Approve many customers and properties, each on its own, with an optional shared note
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post('/bulk/approve', validate(bulkApproveSchema), workflowController.bulkApprove);
+
+/**
+ * @route   POST /api/v1/workflow/bulk/reject
+ * @desc    Reject many customers and properties, each on its own, with shared feedback
+ * @access  Private (APPROVER, ADMINISTRATOR)
+ */
+router.post('/bulk/reject', validate(bulkRejectSchema), workflowController.bulkReject);
+
 /**
  * @route   POST /api/v1/workflow/customers/:id/approve
- * @desc    Approve customer
+ * @desc    Approve the pending stage of a customer; approved once every stage is
  * @access  Private (APPROVER, ADMINISTRATOR)
  */
 router.post('/customers/:id/approve', workflowController.approveCustomer);
@@ -39,7 +148,7 @@ router.post('/customers/:id/reject', workflowController.rejectCustomer);
 
 /**
  * @route   POST /api/v1/workflow/properties/:id/approve
- * @desc    Approve property
+ * @desc    Approve the pending stage of a property; approved once every stage is
  * @access  Private (APPROVER, ADMINISTRATOR)
  */
 router.post('/properties/:id/approve', workflowController.approveProperty);
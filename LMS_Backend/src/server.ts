@@ -3,6 +3,9 @@ import { createApp } from './app';
 import { config, validateEnv } from './config/env';
 import { testConnection } from './config/database';
 import { logger } from './utils/logger';
+import { AgoRetryScheduler } from './services/ago';
+import { PenaltyScheduler } from './services/penalty';
+import { ReviewEscalationScheduler } from './services/approvals';
 
 // Validate environment variables
 try {
@@ -26,6 +29,15 @@ testConnection().then((connected) => {
   }
 });
 
+// Background AGO sync retries
+const agoRetryScheduler = new AgoRetryScheduler();
+
+// Daily overdue penalties and interest
+const penaltyScheduler = new PenaltyScheduler();
+
+// Escalation of reviews past their SLA target
+const reviewEscalationScheduler = new ReviewEscalationScheduler();
+
 // Start server
 const PORT = config.port;
 
@@ -33,12 +45,19 @@ server.listen(PORT, () => {
   logger.info(`🚀 Server running on port ${PORT}`);
   logger.info(`📝 Environment: ${config.nodeEnv}`);
   logger.info(`🔗 API Base URL: http://localhost:${PORT}/api/${config.apiVersion}`);
+  agoRetryScheduler.start();
+  penaltyScheduler.start();
+  reviewEscalationScheduler.start();
 });
 
 // Graceful shutdown
 const gracefulShutdown = (signal: string) => {
   logger.info(`${signal} received. Starting graceful shutdown...`);
 
+  agoRetryScheduler.stop();
+  penaltyScheduler.stop();
+  reviewEscalationScheduler.stop();
+
   server.close(() => {
     logger.info('HTTP server closed');
     process.exit(0);
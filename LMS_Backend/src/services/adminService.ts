@@ -1,5 +1,18 @@
 import { supabase } from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import {
+  AGO_TRANSFORMS,
+  AgoFieldMapping,
+  AgoReconciliationItemFilters,
+  AgoReconciliationService,
+  AgoRetryFilters,
+  AgoRetryService,
+  AgoSettingsInput,
+  AgoSettingsService,
+  AgoSyncService,
+  LOOKUP_SOURCES,
+  PROPERTY_SOURCE_FIELDS,
+} from './ago';
 
 export interface UserFilters {
   page?: number;
@@ -9,6 +22,11 @@ export interface UserFilters {
   search?: string;
 }
 
+const agoSyncService = new AgoSyncService();
+const agoRetryService = new AgoRetryService();
+const agoSettingsService = new AgoSettingsService();
+const agoReconciliationService = new AgoReconciliationService();
+
 export class AdminService {
   async getUsers(filters: UserFilters) {
     const {
@@ -185,35 +203,86 @@ export class AdminService {
   }
 
   async getAGOSettings() {
-    // For now, return placeholder settings
-    // In production, this would fetch from a settings table
+    const settings = await agoSettingsService.getSettings();
+
+    const { data: lastSynced } = await supabase
+      .from('properties')
+      .select('last_sync_at')
+      .eq('ago_sync_status', 'SYNCED')
+      .order('last_sync_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
     return {
-      enabled: false,
-      api_url: process.env.AGO_API_URL || '',
-      api_key: process.env.AGO_API_KEY ? '***hidden***' : '',
-      sync_interval: 3600,
-      last_sync: null,
-      status: 'not_configured',
+      enabled: settings.enabled,
+      api_url: settings.serviceUrl,
+      layer_id: settings.layerId,
+      api_key: settings.apiKey ? '***hidden***' : '',
+      sync_interval: settings.syncInterval,
+      field_mapping: settings.fieldMapping,
+      mapping_options: {
+        sources: PROPERTY_SOURCE_FIELDS,
+        lookups: Object.fromEntries(
+          Object.entries(LOOKUP_SOURCES).map(([source, lookup]) => [source, lookup.columns])
+        ),
+        transforms: AGO_TRANSFORMS,
+      },
+      last_sync: lastSynced?.last_sync_at || null,
+      updated_at: settings.updatedAt,
+      status: settings.serviceUrl ? 'configured' : 'not_configured',
     };
   }
 
-  async updateAGOSettings(settings: any) {
-    // For now, just return success
-    // In production, this would update a settings table
-    return {
-      ...settings,
-      api_key: '***hidden***',
-      updated_at: new Date().toISOString(),
-    };
+  async updateAGOSettings(settings: AgoSettingsInput, userId: string) {
+    await agoSettingsService.updateSettings(settings, userId);
+    return this.getAGOSettings();
   }
 
   async testAGOConnection() {
-    // For now, return placeholder response
-    // In production, this would test the actual AGO connection
-    return {
-      success: false,
-      message: 'AGO integration not yet implemented',
-      timestamp: new Date().toISOString(),
-    };
+    return agoSyncService.testConnection();
+  }
+
+  async previewAGOFeature(property: string, fieldMapping?: AgoFieldMapping[]) {
+    return agoSyncService.previewFeature(property, fieldMapping);
+  }
+
+  async getAGOSyncStats() {
+    return agoRetryService.getSyncStats();
+  }
+
+  async getAGOSyncRetries(filters: AgoRetryFilters) {
+    return agoRetryService.getRetries(filters);
+  }
+
+  async retryAGOSync(id: string, userId: string) {
+    return agoRetryService.retryNow(id, userId);
+  }
+
+  async giveUpAGOSync(id: string) {
+    return agoRetryService.giveUp(id);
+  }
+
+  async startAGOReconciliation(userId: string) {
+    return agoReconciliationService.startRun(userId);
+  }
+
+  async getLatestAGOReconciliation() {
+    return agoReconciliationService.getLatestRun();
+  }
+
+  async getAGOReconciliationItems(runId: string, filters: AgoReconciliationItemFilters) {
+    return agoReconciliationService.getRunItems(runId, filters);
+  }
+
+  async exportAGOReconciliationItems(runId: string) {
+    return agoReconciliationService.getAllRunItems(runId);
+  }
+
+  async repushAGOReconciliationItem(itemId: string, userId: string) {
+    return agoReconciliationService.repush(itemId, userId);
+  }
+
+  async unlinkAGOReconciliationItem(itemId: string, userId: string) {
+    return agoReconciliationService.unlink(itemId, userId);
   }
 }
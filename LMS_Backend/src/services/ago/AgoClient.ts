@@ -0,0 +1,130 @@
+/**
+ * AGO Client - Thin wrapper around the ArcGIS feature-service REST API
+ *
+ * Every request is sent with f=json. ArcGIS reports most failures with HTTP 200 and an
+ * `error` object in the body, so both transport and payload errors are turned into AppErrors.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import {
+  AgoConnection,
+  AgoEdits,
+  AgoApplyEditsResponse,
+  AgoQueryParams,
+  AgoQueryResponse,
+  AgoLayerInfo,
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export class AgoClient {
+  private readonly connection: AgoConnection;
+
+  constructor(connection: AgoConnection) {
+    if (!connection.serviceUrl) {
+      throw new AppError('AGO feature service URL is not configured', 400);
+    }
+    this.connection = connection;
+  }
+
+  /**
+   * URL of the configured layer, e.g. .../FeatureServer/0
+   */
+  get layerUrl(): string {
+    return `${this.connection.serviceUrl.replace(/\/+$/, '')}/${this.connection.layerId}`;
+  }
+
+  /**
+   * Fetch layer metadata (used to test the connection)
+   */
+  async getLayerInfo(): Promise<AgoLayerInfo> {
+    return this.request<AgoLayerInfo>('GET', '', {});
+  }
+
+  /**
+   * Add, update or delete features in a single applyEdits call
+   */
+  async applyEdits(edits: AgoEdits): Promise<AgoApplyEditsResponse> {
+    const params: Record<string, string> = {};
+
+    if (edits.adds?.length) params.adds = JSON.stringify(edits.adds);
+    if (edits.updates?.length) params.updates = JSON.stringify(edits.updates);
+    if (edits.deletes?.length) {
+      params.deletes = edits.useGlobalIds ? JSON.stringify(edits.deletes) : edits.deletes.join(',');
+    }
+    if (edits.useGlobalIds) params.useGlobalIds = 'true';
+
+    return this.request<AgoApplyEditsResponse>('POST', '/applyEdits', params);
+  }
+
+  /**
+   * Query features from the layer
+   */
+  async query(queryParams: AgoQueryParams = {}): Promise<AgoQueryResponse> {
+    const params: Record<string, string> = {
+      where: queryParams.where || '1=1',
+      outFields: (queryParams.outFields || ['*']).join(','),
+      returnGeometry: String(queryParams.returnGeometry ?? true),
+    };
+
+    if (queryParams.resultOffset !== undefined) {
+      params.resultOffset = String(queryParams.resultOffset);
+    }
+    if (queryParams.resultRecordCount !== undefined) {
+      params.resultRecordCount = String(queryParams.resultRecordCount);
+    }
+    if (queryParams.outSR !== undefined) {
+      params.outSR = String(queryParams.outSR);
+    }
+
+    const response = await this.request<AgoQueryResponse>('POST', '/query', params);
+    return { ...response, features: response.features || [] };
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, params: Record<string, string>): Promise<T> {
+    const body = new URLSearchParams({ ...params, f: 'json' });
+    if (this.connection.apiKey) {
+      body.set('token', this.connection.apiKey);
+    }
+
+    let url = `${this.layerUrl}${path}`;
+    const init: RequestInit = { method };
+
+    if (method === 'GET') {
+      url = `${url}?${body.toString()}`;
+    } else {
+      init.headers = { 'Content-Type': 'application/x-www-form-urlencoded' };
+      init.body = body.toString();
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.connection.timeoutMs || DEFAULT_TIMEOUT_MS);
+    init.signal = controller.signal;
+
+    let payload: any;
+    try {
+      const response = await fetch(url, init);
+
+      if (!response.ok) {
+        throw new AppError(`AGO request failed with HTTP ${response.status}`, 502);
+      }
+
+      payload = await response.json();
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      if (error.name === 'AbortError') {
+        throw new AppError('AGO request timed out', 504);
+      }
+      throw new AppError(`AGO request failed: ${error.message}`, 502);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (payload?.error) {
+      const detail = payload.error.details?.length ? ` (${payload.error.details.join('; ')})` : '';
+      throw new AppError(`AGO error ${payload.error.code}: ${payload.error.message}${detail}`, 502);
+    }
+
+    return payload as T;
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * AGO Reconciliation Service - Compares the AGO feature layer with the properties table
+ *
+ * Features are matched to properties by GlobalID, falling back to parcel number. A run
+ * records every difference in ago_reconciliation_items:
+ * - MISSING_IN_AGO: approved property with no feature on the layer
+ * - MISSING_IN_LMS: feature that matches no property
+ * - MISMATCH: matched pair whose attributes or geometry differ from what a sync would push
+ * - ORPHANED: feature for a property that is not approved, or a duplicate for an already linked parcel
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { AgoSettingsService } from './AgoSettingsService';
+import { AgoSyncService } from './AgoSyncService';
+import {
+  AgoAttributeDifference,
+  AgoFeature,
+  AgoFieldMapping,
+  AgoReconciliationCategory,
+} from './types';
+
+export interface AgoReconciliationItemFilters {
+  page?: number;
+  limit?: number;
+  category?: string;
+}
+
+interface ReconciliationItem {
+  category: AgoReconciliationCategory;
+  property_id: string | null;
+  global_id: string | null;
+  parcel_number: string | null;
+  reference_id: string | null;
+  details: string;
+  differences: AgoAttributeDifference[] | null;
+}
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+const COORDINATE_TOLERANCE = 0.000001;
+// A run still RUNNING after this long was interrupted (e.g. by a restart)
+const STALE_RUN_MINUTES = 30;
+
+const normalizeGlobalId = (globalId?: string | null): string =>
+  globalId ? String(globalId).replace(/[{}]/g, '').toLowerCase() : '';
+
+const isBlank = (value: any) => value === null || value === undefined || value === '';
+
+const valuesMatch = (expected: any, actual: any): boolean => {
+  if (isBlank(expected) || isBlank(actual)) return isBlank(expected) && isBlank(actual);
+
+  const expectedNumber = Number(expected);
+  const actualNumber = Number(actual);
+  if (typeof expected !== 'string' || typeof actual !== 'string') {
+    if (Number.isFinite(expectedNumber) && Number.isFinite(actualNumber)) {
+      return Math.abs(expectedNumber - actualNumber) < COORDINATE_TOLERANCE;
+    }
+  }
+
+  return String(expected).trim() === String(actual).trim();
+};
+
+export class AgoReconciliationService {
+  private syncService = new AgoSyncService();
+  private settingsService = new AgoSettingsService();
+
+  /**
+   * Start a reconciliation run in the background and return it immediately
+   */
+  async startRun(userId: string) {
+    const settings = await this.settingsService.getSettings();
+    if (!settings.serviceUrl) {
+      throw new AppError('AGO feature service URL is not configured', 400);
+    }
+
+    const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString();
+    const { data: running } = await supabase
+      .from('ago_reconciliation_runs')
+      .select('id')
+      .eq('status', 'RUNNING')
+      .gte('started_at', staleBefore)
+      .limit(1)
+      .maybeSingle();
+
+    if (running) {
+      throw new AppError('A reconciliation run is already in progress', 409);
+    }
+
+    const { data: run, error } = await supabase
+      .from('ago_reconciliation_runs')
+      .insert({ status: 'RUNNING', started_by: userId })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    this.execute(run.id, settings.fieldMapping).catch((executeError) => {
+      console.error('AGO reconciliation failed:', executeError);
+    });
+
+    return run;
+  }
+
+  async getLatestRun() {
+    const { data, error } = await supabase
+      .from('ago_reconciliation_runs')
+      .select('*, started_by_user:users!ago_reconciliation_runs_started_by_fkey(full_name)')
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  async getRunItems(runId: string, filters: AgoReconciliationItemFilters) {
+    const { page = 1, limit = 50, category } = filters;
+
+    let query = supabase
+      .from('ago_reconciliation_items')
+      .select('*', { count: 'exact' })
+      .eq('run_id', runId);
+
+    if (category && category !== 'ALL') {
+      query = query.eq('category', category);
+    }
+
+    const from = (page - 1) * limit;
+    const to = from + limit - 1;
+    query = query.range(from, to).order('category').order('parcel_number');
+
+    const { data, error, count } = await query;
+
+    if (error) throw new AppError(error.message, 500);
+
+    return {
+      data: data || [],
+      meta: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  }
+
+  /**
+   * Every difference found by a run, read page by page for the downloadable report
+   */
+  async getAllRunItems(runId: string): Promise<any[]> {
+    const items: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('ago_reconciliation_items')
+        .select('*')
+        .eq('run_id', runId)
+        .order('category')
+        .order('parcel_number')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      items.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return items;
+  }
+
+  /**
+   * Push the LMS version of the property over the AGO feature (or add it if missing)
+   */
+  async repush(itemId: string, userId: string) {
+    const item = await this.getOpenItem(itemId);
+
+    if (!item.property_id || !['MISSING_IN_AGO', 'MISMATCH'].includes(item.category)) {
+      throw new AppError('Only missing or mismatched properties can be re-pushed', 400);
+    }
+
+    // Link to the matched feature so the sync updates it, or drop a link to a deleted feature so it is re-added
+    const globalId = item.category === 'MISMATCH' ? item.global_id : null;
+    const { error: linkError } = await supabase
+      .from('properties')
+      .update({ global_id: globalId })
+      .eq('id', item.property_id);
+
+    if (linkError) throw new AppError(linkError.message, 500);
+
+    await this.syncService.syncProperty(item.property_id, userId);
+
+    return this.resolveItem(item.id, 'REPUSHED', userId);
+  }
+
+  /**
+   * Remove the property's link to its AGO feature; the feature itself is left on the layer
+   */
+  async unlink(itemId: string, userId: string) {
+    const item = await this.getOpenItem(itemId);
+
+    if (!item.property_id) {
+      throw new AppError('This feature is not linked to a property', 400);
+    }
+
+    const { error } = await supabase
+      .from('properties')
+      .update({ global_id: null, ago_sync_status: 'PENDING', ago_sync_error: null })
+      .eq('id', item.property_id);
+
+    if (error) throw new AppError(error.message, 500);
+
+    await supabase.from('activity_logs').insert({
+      entity_type: 'PROPERTY',
+      entity_id: item.property_id,
+      action: 'AGO_UNLINKED',
+      performed_by: userId,
+      metadata: { global_id: item.global_id, category: item.category, reconciliation_item_id: item.id },
+    });
+
+    return this.resolveItem(item.id, 'UNLINKED', userId);
+  }
+
+  private async execute(runId: string, fieldMapping: AgoFieldMapping[]) {
+    try {
+      const [features, properties] = await Promise.all([this.fetchFeatures(), this.fetchProperties()]);
+      const items = await this.compare(features, properties, fieldMapping);
+
+      for (let i = 0; i < items.length; i += INSERT_BATCH_SIZE) {
+        const batch = items.slice(i, i + INSERT_BATCH_SIZE).map((item) => ({ ...item, run_id: runId }));
+        const { error } = await supabase.from('ago_reconciliation_items').insert(batch);
+        if (error) throw new AppError(error.message, 500);
+      }
+
+      const countOf = (category: AgoReconciliationCategory) =>
+        items.filter((item) => item.category === category).length;
+
+      await supabase
+        .from('ago_reconciliation_runs')
+        .update({
+          status: 'COMPLETED',
+          completed_at: new Date().toISOString(),
+          summary: {
+            properties_checked: properties.length,
+            features_checked: features.length,
+            missing_in_ago: countOf('MISSING_IN_AGO'),
+            missing_in_lms: countOf('MISSING_IN_LMS'),
+            mismatch: countOf('MISMATCH'),
+            orphaned: countOf('ORPHANED'),
+          },
+        })
+        .eq('id', runId);
+    } catch (error: any) {
+      await supabase
+        .from('ago_reconciliation_runs')
+        .update({
+          status: 'FAILED',
+          completed_at: new Date().toISOString(),
+          error_message: error.message || 'Reconciliation failed',
+        })
+        .eq('id', runId);
+    }
+  }
+
+  private async compare(
+    features: AgoFeature[],
+    properties: any[],
+    fieldMapping: AgoFieldMapping[]
+  ): Promise<ReconciliationItem[]> {
+    const items: ReconciliationItem[] = [];
+    const lookupCache = new Map<string, Record<string, any> | null>();
+
+    const parcelAttribute = fieldMapping.find((mapping) => mapping.source === 'parcel_number' && !mapping.lookup)?.target;
+    const featureGlobalId = (feature: AgoFeature) => normalizeGlobalId(feature.attributes.GlobalID);
+    const featureParcel = (feature: AgoFeature) =>
+      parcelAttribute ? String(feature.attributes[parcelAttribute] ?? '').trim() : '';
+
+    const featuresByGlobalId = new Map(features.map((feature) => [featureGlobalId(feature), feature]));
+    const featuresByParcel = new Map<string, AgoFeature>();
+    for (const feature of features) {
+      const parcel = featureParcel(feature);
+      if (parcel && !featuresByParcel.has(parcel)) featuresByParcel.set(parcel, feature);
+    }
+
+    const propertiesByParcel = new Map(properties.map((property) => [String(property.parcel_number), property]));
+    const matched = new Set<string>();
+
+    for (const property of properties) {
+      let feature = property.global_id ? featuresByGlobalId.get(normalizeGlobalId(property.global_id)) : undefined;
+      let linkedByParcel = false;
+
+      if (!feature) {
+        const candidate = featuresByParcel.get(String(property.parcel_number));
+        if (candidate && !matched.has(featureGlobalId(candidate))) {
+          feature = candidate;
+          linkedByParcel = true;
+        }
+      }
+
+      if (feature) matched.add(featureGlobalId(feature));
+
+      const base = {
+        property_id: property.id,
+        parcel_number: property.parcel_number,
+        reference_id: property.reference_id,
+      };
+
+      if (property.status !== 'APPROVED') {
+        if (feature) {
+          items.push({
+            ...base,
+            category: 'ORPHANED',
+            global_id: feature.attributes.GlobalID,
+            details: `Feature exists but the property is ${property.status}`,
+            differences: null,
+          });
+        }
+        continue;
+      }
+
+      if (!feature) {
+        items.push({
+          ...base,
+          category: 'MISSING_IN_AGO',
+          global_id: property.global_id || null,
+          details: property.global_id
+            ? `Linked feature ${property.global_id} no longer exists on the layer`
+            : 'Property has never been synced',
+          differences: null,
+        });
+        continue;
+      }
+
+      const expected = await this.syncService.buildFeature(property, fieldMapping, lookupCache);
+      const differences = this.diffFeature(expected, feature);
+
+      if (linkedByParcel) {
+        differences.unshift({
+          attribute: 'GlobalID',
+          lms_value: property.global_id || null,
+          ago_value: feature.attributes.GlobalID,
+        });
+      }
+
+      if (differences.length > 0) {
+        items.push({
+          ...base,
+          category: 'MISMATCH',
+          global_id: feature.attributes.GlobalID,
+          details: linkedByParcel
+            ? 'Matched by parcel number; the property is not linked to this feature'
+            : `${differences.length} attribute(s) differ`,
+          differences,
+        });
+      }
+    }
+
+    for (const feature of features) {
+      if (matched.has(featureGlobalId(feature))) continue;
+
+      const parcel = featureParcel(feature);
+      const property = parcel ? propertiesByParcel.get(parcel) : undefined;
+
+      items.push({
+        category: property ? 'ORPHANED' : 'MISSING_IN_LMS',
+        property_id: property?.id || null,
+        global_id: feature.attributes.GlobalID || null,
+        parcel_number: parcel || null,
+        reference_id: property?.reference_id || null,
+        details: property
+          ? `Duplicate feature; the property is linked to ${property.global_id || 'another feature'}`
+          : 'No property with this parcel number',
+        differences: null,
+      });
+    }
+
+    return items;
+  }
+
+  private diffFeature(expected: AgoFeature, actual: AgoFeature): AgoAttributeDifference[] {
+    const differences: AgoAttributeDifference[] = [];
+
+    for (const [attribute, value] of Object.entries(expected.attributes)) {
+      if (!valuesMatch(value, actual.attributes[attribute])) {
+        differences.push({ attribute, lms_value: value ?? null, ago_value: actual.attributes[attribute] ?? null });
+      }
+    }
+
+    const expectedGeometry = expected.geometry || null;
+    const actualGeometry = actual.geometry || null;
+    const geometryMatches =
+      (!expectedGeometry && !actualGeometry) ||
+      (!!expectedGeometry &&
+        !!actualGeometry &&
+        valuesMatch(expectedGeometry.x, actualGeometry.x) &&
+        valuesMatch(expectedGeometry.y, actualGeometry.y));
+
+    if (!geometryMatches) {
+      differences.push({
+        attribute: 'geometry',
+        lms_value: expectedGeometry ? { x: expectedGeometry.x, y: expectedGeometry.y } : null,
+        ago_value: actualGeometry ? { x: actualGeometry.x, y: actualGeometry.y } : null,
+      });
+    }
+
+    return differences;
+  }
+
+  private async fetchFeatures(): Promise<AgoFeature[]> {
+    const client = await this.syncService.getClient();
+    const features: AgoFeature[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const response = await client.query({
+        where: '1=1',
+        outFields: ['*'],
+        returnGeometry: true,
+        outSR: 4326,
+        resultOffset: offset,
+        resultRecordCount: PAGE_SIZE,
+      });
+
+      features.push(...response.features);
+      if (!response.exceededTransferLimit && response.features.length < PAGE_SIZE) break;
+      if (response.features.length === 0) break;
+    }
+
+    return features;
+  }
+
+  private async fetchProperties(): Promise<any[]> {
+    const properties: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('*')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      properties.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return properties;
+  }
+
+  private async getOpenItem(itemId: string) {
+    const { data: item, error } = await supabase
+      .from('ago_reconciliation_items')
+      .select('*')
+      .eq('id', itemId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!item) throw new AppError('Reconciliation item not found', 404);
+    if (item.resolution) throw new AppError(`Item was already ${item.resolution.toLowerCase()}`, 409);
+
+    return item;
+  }
+
+  private async resolveItem(itemId: string, resolution: 'REPUSHED' | 'UNLINKED', userId: string) {
+    const { data, error } = await supabase
+      .from('ago_reconciliation_items')
+      .update({ resolution, resolved_by: userId, resolved_at: new Date().toISOString() })
+      .eq('id', itemId)
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+}
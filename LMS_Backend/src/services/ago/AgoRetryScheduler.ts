@@ -0,0 +1,71 @@
+/**
+ * AGO Retry Scheduler - Background worker that processes due AGO sync retries
+ *
+ * The pass interval is the sync_interval from the AGO settings, re-read after every pass
+ * so a change on the settings page takes effect without a restart. Every pass first re-queues
+ * retries left claimed by an interrupted attempt.
+ */
+
+import { config } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { AgoRetryService } from './AgoRetryService';
+import { AgoSettingsService } from './AgoSettingsService';
+
+export class AgoRetryScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private retryService = new AgoRetryService();
+  private settingsService = new AgoSettingsService();
+
+  start() {
+    if (this.started) return;
+
+    this.started = true;
+    this.schedule(config.agoRetryIntervalMs);
+    logger.info('AGO retry scheduler started');
+  }
+
+  stop() {
+    if (!this.started) return;
+
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info('AGO retry scheduler stopped');
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.started) return;
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  /**
+   * Run one pass over the queue, skipped while AGO sync is disabled or unconfigured
+   */
+  async tick() {
+    let nextDelayMs = config.agoRetryIntervalMs;
+
+    try {
+      const settings = await this.settingsService.getSettings();
+      nextDelayMs = settings.syncInterval * 1000;
+
+      const requeued = await this.retryService.requeueStaleRetries();
+      if (requeued > 0) {
+        logger.warn(`AGO retry scheduler re-queued ${requeued} interrupted retries`);
+      }
+
+      if (settings.enabled && settings.serviceUrl) {
+        const processed = await this.retryService.processDueRetries();
+        if (processed > 0) {
+          logger.info(`AGO retry scheduler processed ${processed} retries`);
+        }
+      }
+    } catch (error: any) {
+      logger.error('AGO retry scheduler failed:', error.message);
+    } finally {
+      this.schedule(nextDelayMs);
+    }
+  }
+}
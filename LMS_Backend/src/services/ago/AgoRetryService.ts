@@ -0,0 +1,274 @@
+/**
+ * AGO Retry Service - Works the ago_sync_retries queue
+ *
+ * Each property with a failed sync has one queue row. The row is re-attempted when
+ * next_retry_at is due, pushed back with exponential backoff on failure, and closed as
+ * SUCCESS or FAILED. A row whose attempt never finished (crash or restart while RETRYING)
+ * is put back to PENDING once its claim is older than the claim timeout.
+ */
+
+import { supabase } from '../../config/database';
+import { config } from '../../config/env';
+import { AppError } from '../../middleware/errorHandler';
+import { AgoSyncService } from './AgoSyncService';
+import { getNextRetryAt } from './retryPolicy';
+
+export interface AgoRetryFilters {
+  page?: number;
+  limit?: number;
+  status?: string;
+}
+
+const DUE_BATCH_SIZE = 20;
+
+export class AgoRetryService {
+  private agoSyncService = new AgoSyncService();
+
+  async getRetries(filters: AgoRetryFilters) {
+    const { page = 1, limit = 50, status } = filters;
+
+    let query = supabase
+      .from('ago_sync_retries')
+      .select('*, properties(reference_id, parcel_number)', { count: 'exact' });
+
+    if (status && status !== 'ALL') {
+      query = query.eq('status', status);
+    }
+
+    const from = (page - 1) * limit;
+    const to = from + limit - 1;
+    query = query.range(from, to).order('next_retry_at', { ascending: true });
+
+    const { data, error, count } = await query;
+
+    if (error) throw new AppError(error.message, 500);
+
+    return {
+      data: data || [],
+      meta: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  }
+
+  async getSyncStats() {
+    const countProperties = async (syncStatus?: string) => {
+      let query = supabase
+        .from('properties')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', 'APPROVED');
+
+      if (syncStatus) {
+        query = query.eq('ago_sync_status', syncStatus);
+      }
+
+      const { count } = await query;
+      return count || 0;
+    };
+
+    const countRetries = async (status: string) => {
+      const { count } = await supabase
+        .from('ago_sync_retries')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', status);
+      return count || 0;
+    };
+
+    return {
+      total: await countProperties(),
+      synced: await countProperties('SYNCED'),
+      pending: await countProperties('PENDING'),
+      failed: await countProperties('ERROR'),
+      queue: {
+        pending: await countRetries('PENDING'),
+        retrying: await countRetries('RETRYING'),
+        failed: await countRetries('FAILED'),
+      },
+    };
+  }
+
+  /**
+   * Process every PENDING row whose next_retry_at has passed
+   */
+  async processDueRetries(): Promise<number> {
+    const { data: due, error } = await supabase
+      .from('ago_sync_retries')
+      .select('*')
+      .eq('status', 'PENDING')
+      .lte('next_retry_at', new Date().toISOString())
+      .order('next_retry_at', { ascending: true })
+      .limit(DUE_BATCH_SIZE);
+
+    if (error) throw new AppError(error.message, 500);
+
+    let processed = 0;
+    for (const row of due || []) {
+      const claimed = await this.claim(row.id, ['PENDING']);
+      if (!claimed) continue;
+
+      await this.attempt(claimed, null);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Put back to PENDING the rows claimed longer ago than the claim timeout, whose attempt
+   * was interrupted. Rows claimed before claimed_at existed have none and are re-queued too.
+   */
+  async requeueStaleRetries(): Promise<number> {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - config.agoRetryClaimTimeoutMinutes * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase
+      .from('ago_sync_retries')
+      .update({
+        status: 'PENDING',
+        claimed_at: null,
+        next_retry_at: now.toISOString(),
+        error_message: 'Retry was interrupted before it finished',
+      })
+      .eq('status', 'RETRYING')
+      .or(`claimed_at.is.null,claimed_at.lt.${cutoff}`)
+      .select('id');
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data?.length || 0;
+  }
+
+  /**
+   * Run a queued (or given-up) retry immediately
+   */
+  async retryNow(id: string, userId: string) {
+    const claimed = await this.claim(id, ['PENDING', 'FAILED']);
+    if (!claimed) {
+      throw new AppError('Retry not found or not in a retryable state', 409);
+    }
+
+    return this.attempt(claimed, userId);
+  }
+
+  /**
+   * Stop retrying a queued sync
+   */
+  async giveUp(id: string) {
+    const { data, error } = await supabase
+      .from('ago_sync_retries')
+      .update({ status: 'FAILED' })
+      .eq('id', id)
+      .eq('status', 'PENDING')
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Retry not found or not pending', 409);
+
+    return data;
+  }
+
+  /**
+   * Move a row to RETRYING only if it is still in one of the expected states,
+   * so two workers never attempt the same row.
+   */
+  private async claim(id: string, fromStatuses: string[]) {
+    const { data, error } = await supabase
+      .from('ago_sync_retries')
+      .update({ status: 'RETRYING', claimed_at: new Date().toISOString() })
+      .eq('id', id)
+      .in('status', fromStatuses)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  private async attempt(row: any, userId: string | null) {
+    const attemptedAt = new Date().toISOString();
+
+    try {
+      await this.agoSyncService.syncProperty(row.property_id, userId);
+
+      return this.updateRow(row.id, {
+        status: 'SUCCESS',
+        claimed_at: null,
+        last_attempt_at: attemptedAt,
+        error_message: null,
+      });
+    } catch (error: any) {
+      const message = error.message || 'AGO sync failed';
+      // Client errors (property missing, no longer approved, AGO not configured) won't fix themselves
+      const permanent = error instanceof AppError && error.statusCode < 500;
+
+      if (permanent || row.attempt_number >= config.agoRetryMaxAttempts) {
+        await this.notifyAdmins(row.property_id, message);
+
+        return this.updateRow(row.id, {
+          status: 'FAILED',
+          claimed_at: null,
+          last_attempt_at: attemptedAt,
+          error_message: message,
+        });
+      }
+
+      const nextAttempt = row.attempt_number + 1;
+      return this.updateRow(row.id, {
+        status: 'PENDING',
+        claimed_at: null,
+        attempt_number: nextAttempt,
+        last_attempt_at: attemptedAt,
+        next_retry_at: getNextRetryAt(nextAttempt),
+        error_message: message,
+      });
+    }
+  }
+
+  private async updateRow(id: string, values: Record<string, any>) {
+    const { data, error } = await supabase
+      .from('ago_sync_retries')
+      .update(values)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  private async notifyAdmins(propertyId: string, errorMessage: string) {
+    try {
+      const { data: property } = await supabase
+        .from('properties')
+        .select('reference_id')
+        .eq('id', propertyId)
+        .single();
+
+      const { data: admins } = await supabase
+        .from('users')
+        .select('id')
+        .eq('role', 'ADMINISTRATOR')
+        .eq('is_active', true);
+
+      if (admins && admins.length > 0) {
+        const notifications = admins.map((admin) => ({
+          user_id: admin.id,
+          title: 'AGO Sync Failed',
+          message: `Property ${property?.reference_id || propertyId} could not be synced to AGO: ${errorMessage}`,
+          entity_type: 'property',
+          entity_id: propertyId,
+        }));
+
+        await supabase.from('notifications').insert(notifications);
+      }
+    } catch (notifError) {
+      console.error('Failed to create notifications:', notifError);
+    }
+  }
+}
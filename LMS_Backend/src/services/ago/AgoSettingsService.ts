@@ -0,0 +1,152 @@
+/**
+ * AGO Settings Service - Persisted AGO connection and sync settings
+ *
+ * Settings live in a single ago_settings row with the API key encrypted at rest.
+ * Until an administrator saves them, the AGO_* environment variables are used.
+ */
+
+import { supabase } from '../../config/database';
+import { config } from '../../config/env';
+import { AppError } from '../../middleware/errorHandler';
+import { EncryptionUtil } from '../../utils/encryption';
+import { DEFAULT_FIELD_MAPPING } from './propertyFeature';
+import { AgoConnection, AgoSettings, AgoSettingsInput } from './types';
+
+export class AgoSettingsService {
+  /**
+   * Current settings, read from the store on every call so changes apply without a restart
+   */
+  async getSettings(): Promise<AgoSettings> {
+    const { data: row, error } = await supabase
+      .from('ago_settings')
+      .select('*')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    if (!row) {
+      return {
+        id: null,
+        enabled: !!config.agoApiUrl,
+        serviceUrl: config.agoApiUrl,
+        layerId: config.agoLayerId,
+        apiKey: config.agoApiKey,
+        syncInterval: Math.round(config.agoRetryIntervalMs / 1000),
+        fieldMapping: DEFAULT_FIELD_MAPPING,
+        updatedAt: null,
+      };
+    }
+
+    return {
+      id: row.id,
+      enabled: row.enabled,
+      serviceUrl: row.service_url,
+      layerId: row.layer_id,
+      apiKey: row.api_key_encrypted ? this.decryptApiKey(row.api_key_encrypted) : '',
+      syncInterval: row.sync_interval,
+      fieldMapping: row.field_mapping?.length ? row.field_mapping : DEFAULT_FIELD_MAPPING,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Connection for the AGO client (regardless of the enabled flag, so it can be tested before enabling)
+   */
+  async getConnection(): Promise<AgoConnection> {
+    const settings = await this.getSettings();
+
+    return {
+      serviceUrl: settings.serviceUrl,
+      layerId: settings.layerId,
+      apiKey: settings.apiKey,
+      timeoutMs: config.agoTimeoutMs,
+    };
+  }
+
+  /**
+   * Save settings and record each changed field in the audit log.
+   * A blank api_key keeps the stored key; clear_api_key removes it.
+   */
+  async updateSettings(input: AgoSettingsInput, userId: string): Promise<AgoSettings> {
+    const { data: existing, error: fetchError } = await supabase
+      .from('ago_settings')
+      .select('*')
+      .limit(1)
+      .maybeSingle();
+
+    if (fetchError) throw new AppError(fetchError.message, 500);
+
+    const values: Record<string, any> = {
+      enabled: input.enabled,
+      service_url: input.api_url,
+      layer_id: input.layer_id,
+      sync_interval: input.sync_interval,
+      field_mapping: input.field_mapping ?? existing?.field_mapping ?? DEFAULT_FIELD_MAPPING,
+      updated_by: userId,
+    };
+
+    if (input.clear_api_key) {
+      values.api_key_encrypted = null;
+    } else if (input.api_key) {
+      try {
+        values.api_key_encrypted = EncryptionUtil.encrypt(input.api_key);
+      } catch (error: any) {
+        throw new AppError(`Cannot store the API key: ${error.message}`, 500);
+      }
+    }
+
+    const { data: saved, error } = existing
+      ? await supabase.from('ago_settings').update(values).eq('id', existing.id).select().single()
+      : await supabase.from('ago_settings').insert(values).select().single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    await this.auditChanges(existing, saved, userId);
+
+    return this.getSettings();
+  }
+
+  private decryptApiKey(encrypted: string): string {
+    try {
+      return EncryptionUtil.decrypt(encrypted);
+    } catch (error) {
+      throw new AppError('Stored AGO API key could not be decrypted. Re-enter it on the AGO Settings page.', 500);
+    }
+  }
+
+  private async auditChanges(before: any, after: any, userId: string) {
+    const fields = ['enabled', 'service_url', 'layer_id', 'sync_interval', 'field_mapping'];
+    const format = (value: any) =>
+      value === null || value === undefined ? null : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    const entries = fields
+      .filter((field) => format(before?.[field]) !== format(after[field]))
+      .map((field) => ({
+        field,
+        old_value: format(before?.[field]),
+        new_value: format(after[field]),
+      }));
+
+    // Never write the key itself to the audit trail
+    if ((before?.api_key_encrypted || null) !== (after.api_key_encrypted || null)) {
+      entries.push({
+        field: 'api_key',
+        old_value: before?.api_key_encrypted ? '***hidden***' : null,
+        new_value: after.api_key_encrypted ? '***hidden***' : null,
+      });
+    }
+
+    if (entries.length === 0) return;
+
+    await supabase.from('audit_logs').insert(
+      entries.map((entry) => ({
+        entity_type: 'ago_settings',
+        entity_id: after.id,
+        action: before ? 'update' : 'create',
+        ...entry,
+        changed_by: userId,
+      }))
+    );
+  }
+}
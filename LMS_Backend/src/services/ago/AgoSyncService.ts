@@ -0,0 +1,265 @@
+/**
+ * AGO Sync Service - Pushes approved properties to the ArcGIS feature service
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { AgoClient } from './AgoClient';
+import { AgoSettingsService } from './AgoSettingsService';
+import { buildPropertyFeature, LOOKUP_SOURCES } from './propertyFeature';
+import { getNextRetryAt } from './retryPolicy';
+import { AgoConnection, AgoEditResult, AgoFeature, AgoFieldMapping, AgoLookupRows } from './types';
+
+export class AgoSyncService {
+  private settingsService = new AgoSettingsService();
+
+  /**
+   * Connection settings for the configured feature service
+   */
+  async getConnection(): Promise<AgoConnection> {
+    return this.settingsService.getConnection();
+  }
+
+  async getClient(): Promise<AgoClient> {
+    return new AgoClient(await this.getConnection());
+  }
+
+  /**
+   * Push a single property to AGO.
+   * New features are added and the GlobalID returned by AGO is stored on the property;
+   * properties that already have a GlobalID are updated in place.
+   * Failed pushes are queued in ago_sync_retries; userId is null when run by the retry scheduler.
+   */
+  async syncProperty(propertyId: string, userId: string | null) {
+    const { data: property, error } = await supabase
+      .from('properties')
+      .select('*')
+      .eq('id', propertyId)
+      .single();
+
+    if (error || !property) throw new AppError('Property not found', 404);
+
+    if (property.status !== 'APPROVED') {
+      throw new AppError('Only approved properties can be synced to AGO', 400);
+    }
+
+    const settings = await this.settingsService.getSettings();
+    if (!settings.enabled) {
+      throw new AppError('AGO sync is disabled', 400);
+    }
+
+    const client = await this.getClient();
+    const feature = await this.buildFeature(property, settings.fieldMapping);
+
+    try {
+      let globalId: string | undefined = property.global_id || undefined;
+      let result: AgoEditResult | undefined;
+
+      if (globalId) {
+        feature.attributes.GlobalID = globalId;
+        const response = await client.applyEdits({ updates: [feature], useGlobalIds: true });
+        result = response.updateResults?.[0];
+      } else {
+        const response = await client.applyEdits({ adds: [feature] });
+        result = response.addResults?.[0];
+        globalId = result?.globalId;
+      }
+
+      if (!result || !result.success) {
+        const description = result?.error?.description || result?.error?.message || 'No edit result returned';
+        throw new AppError(`AGO rejected the feature: ${description}`, 502);
+      }
+
+      if (!globalId) {
+        throw new AppError('AGO did not return a GlobalID for the new feature', 502);
+      }
+
+      const { data: updated, error: updateError } = await supabase
+        .from('properties')
+        .update({
+          ago_sync_status: 'SYNCED',
+          ago_sync_error: null,
+          last_sync_at: new Date().toISOString(),
+          global_id: globalId,
+        })
+        .eq('id', propertyId)
+        .select()
+        .single();
+
+      if (updateError) throw new AppError(updateError.message, 500);
+
+      if (userId) {
+        await supabase.from('activity_logs').insert({
+          entity_type: 'PROPERTY',
+          entity_id: propertyId,
+          action: 'SYNCED',
+          performed_by: userId,
+          metadata: { global_id: globalId, object_id: result.objectId },
+        });
+      }
+
+      return updated;
+    } catch (error: any) {
+      const message = error.message || 'AGO sync failed';
+
+      await supabase
+        .from('properties')
+        .update({
+          ago_sync_status: 'ERROR',
+          ago_sync_error: message,
+          last_sync_at: new Date().toISOString(),
+        })
+        .eq('id', propertyId);
+
+      if (userId) {
+        await supabase.from('activity_logs').insert({
+          entity_type: 'PROPERTY',
+          entity_id: propertyId,
+          action: 'SYNC_FAILED',
+          performed_by: userId,
+          metadata: { error: message },
+        });
+      }
+
+      await this.scheduleRetry(propertyId, message);
+
+      throw error instanceof AppError ? error : new AppError(message, 502);
+    }
+  }
+
+  /**
+   * Render the feature a property would be pushed as, optionally with an unsaved mapping.
+   * The property is looked up by id or reference ID.
+   */
+  async previewFeature(property: string, fieldMapping?: AgoFieldMapping[]) {
+    const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(property);
+
+    const { data: row, error } = await supabase
+      .from('properties')
+      .select('*')
+      .eq(isUuid ? 'id' : 'reference_id', property)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!row) throw new AppError('Property not found', 404);
+
+    const mapping = fieldMapping || (await this.settingsService.getSettings()).fieldMapping;
+    const feature = await this.buildFeature(row, mapping);
+
+    if (row.global_id) {
+      feature.attributes.GlobalID = row.global_id;
+    }
+
+    return {
+      property_id: row.id,
+      reference_id: row.reference_id,
+      status: row.status,
+      operation: row.global_id ? 'update' : 'add',
+      feature,
+    };
+  }
+
+  /**
+   * Build the feature for a property with its lookups resolved.
+   * Pass a cache when building many features so each lookup row is fetched once.
+   */
+  async buildFeature(
+    property: any,
+    fieldMapping: AgoFieldMapping[],
+    lookupCache: Map<string, Record<string, any> | null> = new Map()
+  ): Promise<AgoFeature> {
+    const lookups = await this.loadLookups(property, fieldMapping, lookupCache);
+    return buildPropertyFeature(property, fieldMapping, lookups);
+  }
+
+  /**
+   * Fetch the lookup rows referenced by mappings that resolve a foreign key
+   */
+  private async loadLookups(
+    property: any,
+    fieldMapping: AgoFieldMapping[],
+    lookupCache: Map<string, Record<string, any> | null>
+  ): Promise<AgoLookupRows> {
+    const lookups: AgoLookupRows = {};
+    const sources = new Set(fieldMapping.filter((mapping) => mapping.lookup).map((mapping) => mapping.source));
+
+    for (const source of sources) {
+      const lookupSource = LOOKUP_SOURCES[source];
+      if (!lookupSource || !property[source]) {
+        lookups[source] = null;
+        continue;
+      }
+
+      const cacheKey = `${lookupSource.table}:${property[source]}`;
+      if (!lookupCache.has(cacheKey)) {
+        const { data } = await supabase
+          .from(lookupSource.table)
+          .select(lookupSource.columns.join(', '))
+          .eq('id', property[source])
+          .maybeSingle();
+
+        lookupCache.set(cacheKey, (data as Record<string, any> | null) || null);
+      }
+
+      lookups[source] = lookupCache.get(cacheKey) || null;
+    }
+
+    return lookups;
+  }
+
+  /**
+   * Queue a first retry for a failed sync, unless the property already has one in progress
+   */
+  async scheduleRetry(propertyId: string, errorMessage: string) {
+    const { data: existing } = await supabase
+      .from('ago_sync_retries')
+      .select('id')
+      .eq('property_id', propertyId)
+      .in('status', ['PENDING', 'RETRYING'])
+      .limit(1)
+      .maybeSingle();
+
+    if (existing) return;
+
+    const { error } = await supabase.from('ago_sync_retries').insert({
+      property_id: propertyId,
+      attempt_number: 1,
+      last_attempt_at: new Date().toISOString(),
+      next_retry_at: getNextRetryAt(1),
+      error_message: errorMessage,
+      status: 'PENDING',
+    });
+
+    if (error) {
+      console.error('Failed to schedule AGO retry:', error);
+    }
+  }
+
+  /**
+   * Check that the configured layer is reachable
+   */
+  async testConnection() {
+    const timestamp = new Date().toISOString();
+
+    try {
+      const client = await this.getClient();
+      const layer = await client.getLayerInfo();
+      return {
+        success: true,
+        message: `Connected to layer "${layer.name}"`,
+        layer: {
+          id: layer.id,
+          name: layer.name,
+          geometry_type: layer.geometryType || null,
+        },
+        timestamp,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        message: error.message || 'Failed to connect to AGO',
+        timestamp,
+      };
+    }
+  }
+}
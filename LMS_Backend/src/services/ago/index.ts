@@ -0,0 +1,22 @@
+/**
+ * AGO Module - ArcGIS Online feature-service integration
+ */
+
+export { AgoClient } from './AgoClient';
+export { AgoSyncService } from './AgoSyncService';
+export { AgoSettingsService } from './AgoSettingsService';
+export { AgoRetryService, AgoRetryFilters } from './AgoRetryService';
+export { AgoRetryScheduler } from './AgoRetryScheduler';
+export { AgoReconciliationService, AgoReconciliationItemFilters } from './AgoReconciliationService';
+export {
+  applyTransform,
+  buildPropertyFeature,
+  parseCoordinates,
+  AGO_TRANSFORMS,
+  DEFAULT_FIELD_MAPPING,
+  LOOKUP_SOURCES,
+  PROPERTY_SOURCE_FIELDS,
+} from './propertyFeature';
+export { getRetryDelayMinutes, getNextRetryAt } from './retryPolicy';
+
+export * from './types';
@@ -0,0 +1,156 @@
+/**
+ * Build the AGO feature (attributes + point geometry) for a property record
+ */
+
+import { AgoFeature, AgoFieldMapping, AgoGeometry, AgoLookupRows, AgoTransform } from './types';
+
+/**
+ * Property columns that may be published to AGO
+ */
+export const PROPERTY_SOURCE_FIELDS = [
+  'id',
+  'reference_id',
+  'parcel_number',
+  'property_location',
+  'sub_location',
+  'district_id',
+  'sub_district_id',
+  'property_type_id',
+  'is_downtown',
+  'is_building',
+  'has_built_area',
+  'has_property_wall',
+  'number_of_floors',
+  'size',
+  'parcel_area',
+  'door_number',
+  'road_name',
+  'postal_zip_code',
+  'section',
+  'block',
+  'status',
+  'approved_at',
+];
+
+/**
+ * Foreign-key fields that can be resolved to a column of the referenced lookup table
+ */
+export const LOOKUP_SOURCES: Record<string, { table: string; columns: string[] }> = {
+  district_id: { table: 'districts', columns: ['name', 'code'] },
+  sub_district_id: { table: 'sub_districts', columns: ['name'] },
+  property_type_id: { table: 'property_types', columns: ['name', 'category'] },
+};
+
+export const AGO_TRANSFORMS: AgoTransform[] = [
+  'none',
+  'uppercase',
+  'lowercase',
+  'trim',
+  'number',
+  'integer',
+  'boolean_int',
+  'boolean_yes_no',
+  'date_epoch',
+];
+
+/**
+ * Attribute names used when no mapping has been saved
+ */
+export const DEFAULT_FIELD_MAPPING: AgoFieldMapping[] = [
+  { source: 'id', target: 'lms_id' },
+  { source: 'reference_id', target: 'reference_id' },
+  { source: 'parcel_number', target: 'parcel_number' },
+  { source: 'property_location', target: 'property_location' },
+  { source: 'district_id', target: 'district_id' },
+  { source: 'sub_district_id', target: 'sub_district_id' },
+  { source: 'property_type_id', target: 'property_type_id' },
+  { source: 'size', target: 'size' },
+  { source: 'is_downtown', target: 'is_downtown' },
+  { source: 'number_of_floors', target: 'number_of_floors' },
+];
+
+/**
+ * Parse stored property coordinates into a WGS84 point.
+ * Supports the PostGIS text format written by the map picker, POINT(lng lat),
+ * and GeoJSON points.
+ */
+export const parseCoordinates = (coordinates?: string | null): AgoGeometry | null => {
+  if (!coordinates) return null;
+
+  const postgisMatch = coordinates.match(/POINT\(([+-]?\d+\.?\d*)\s+([+-]?\d+\.?\d*)\)/i);
+  if (postgisMatch) {
+    return {
+      x: parseFloat(postgisMatch[1]),
+      y: parseFloat(postgisMatch[2]),
+      spatialReference: { wkid: 4326 },
+    };
+  }
+
+  const geoJsonMatch = coordinates.match(/\{.*coordinates.*\[([+-]?\d+\.?\d*),\s*([+-]?\d+\.?\d*)\]/);
+  if (geoJsonMatch) {
+    return {
+      x: parseFloat(geoJsonMatch[1]),
+      y: parseFloat(geoJsonMatch[2]),
+      spatialReference: { wkid: 4326 },
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Apply a value transform. Without one, booleans are published as 1/0 since AGO
+ * has no boolean field type.
+ */
+export const applyTransform = (value: any, transform: AgoTransform = 'none'): any => {
+  if (value === null || value === undefined) return null;
+
+  switch (transform) {
+    case 'uppercase':
+      return String(value).toUpperCase();
+    case 'lowercase':
+      return String(value).toLowerCase();
+    case 'trim':
+      return String(value).trim();
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'integer': {
+      const number = Number(value);
+      return Number.isFinite(number) ? Math.round(number) : null;
+    }
+    case 'boolean_int':
+      return value ? 1 : 0;
+    case 'boolean_yes_no':
+      return value ? 'Yes' : 'No';
+    case 'date_epoch': {
+      const time = new Date(value).getTime();
+      return Number.isNaN(time) ? null : time;
+    }
+    default:
+      return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+  }
+};
+
+/**
+ * Map a property row to its AGO feature.
+ * lookups holds the referenced rows for mappings that resolve a foreign key.
+ */
+export const buildPropertyFeature = (
+  property: any,
+  fieldMapping: AgoFieldMapping[] = DEFAULT_FIELD_MAPPING,
+  lookups: AgoLookupRows = {}
+): AgoFeature => {
+  const attributes: Record<string, any> = {};
+
+  for (const { source, target, lookup, transform } of fieldMapping) {
+    const value = lookup ? lookups[source]?.[lookup] : property[source];
+    attributes[target] = applyTransform(value, transform);
+  }
+
+  return {
+    attributes,
+    geometry: parseCoordinates(property.coordinates),
+  };
+};
@@ -0,0 +1,14 @@
+/**
+ * Exponential backoff for failed AGO syncs.
+ * With the defaults this matches schedule_ago_retry(): 15, 30, 60, 120 and 240 minutes.
+ */
+
+import { config } from '../../config/env';
+
+export const getRetryDelayMinutes = (attemptNumber: number): number => {
+  return config.agoRetryBaseDelayMinutes * Math.pow(2, Math.max(attemptNumber - 1, 0));
+};
+
+export const getNextRetryAt = (attemptNumber: number, from: Date = new Date()): string => {
+  return new Date(from.getTime() + getRetryDelayMinutes(attemptNumber) * 60 * 1000).toISOString();
+};
@@ -0,0 +1,139 @@
+/**
+ * Types for the ArcGIS Online (AGO) feature-service integration
+ *
+ * Only the parts of the ArcGIS REST contract that the LMS uses are modelled here:
+ * layer metadata, applyEdits and query.
+ */
+
+export interface AgoConnection {
+  serviceUrl: string;
+  layerId: number;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export interface AgoGeometry {
+  x: number;
+  y: number;
+  spatialReference?: { wkid: number };
+}
+
+export interface AgoFeature {
+  attributes: Record<string, any>;
+  geometry?: AgoGeometry | null;
+}
+
+export interface AgoErrorDetail {
+  code: number;
+  message?: string;
+  description?: string;
+  details?: string[];
+}
+
+export interface AgoEditResult {
+  objectId?: number;
+  globalId?: string;
+  success: boolean;
+  error?: AgoErrorDetail;
+}
+
+export interface AgoEdits {
+  adds?: AgoFeature[];
+  updates?: AgoFeature[];
+  deletes?: string[];
+  useGlobalIds?: boolean;
+}
+
+export interface AgoApplyEditsResponse {
+  addResults?: AgoEditResult[];
+  updateResults?: AgoEditResult[];
+  deleteResults?: AgoEditResult[];
+}
+
+export interface AgoQueryParams {
+  where?: string;
+  outFields?: string[];
+  returnGeometry?: boolean;
+  resultOffset?: number;
+  resultRecordCount?: number;
+  outSR?: number;
+}
+
+export interface AgoQueryResponse {
+  objectIdFieldName?: string;
+  globalIdFieldName?: string;
+  features: AgoFeature[];
+  exceededTransferLimit?: boolean;
+}
+
+export interface AgoLayerInfo {
+  id: number;
+  name: string;
+  type: string;
+  geometryType?: string;
+  objectIdField?: string;
+  globalIdField?: string;
+  fields?: { name: string; type: string; alias?: string }[];
+}
+
+export type AgoSyncStatus = 'PENDING' | 'SYNCED' | 'ERROR';
+
+export type AgoTransform =
+  | 'none'
+  | 'uppercase'
+  | 'lowercase'
+  | 'trim'
+  | 'number'
+  | 'integer'
+  | 'boolean_int'
+  | 'boolean_yes_no'
+  | 'date_epoch';
+
+/**
+ * Maps one LMS property field onto an AGO attribute.
+ * lookup replaces a foreign key with a column of the referenced row (e.g. district_id -> name)
+ * before the transform is applied.
+ */
+export interface AgoFieldMapping {
+  source: string;
+  target: string;
+  lookup?: string | null;
+  transform?: AgoTransform;
+}
+
+/**
+ * Referenced lookup rows for a property, keyed by source field (e.g. district_id)
+ */
+export type AgoLookupRows = Record<string, Record<string, any> | null>;
+
+/**
+ * Settings persisted in ago_settings (API key decrypted)
+ */
+export interface AgoSettings {
+  id: string | null;
+  enabled: boolean;
+  serviceUrl: string;
+  layerId: number;
+  apiKey: string;
+  syncInterval: number;
+  fieldMapping: AgoFieldMapping[];
+  updatedAt: string | null;
+}
+
+export interface AgoSettingsInput {
+  enabled: boolean;
+  api_url: string;
+  layer_id: number;
+  api_key?: string;
+  clear_api_key?: boolean;
+  sync_interval: number;
+  field_mapping?: AgoFieldMapping[];
+}
+
+export type AgoReconciliationCategory = 'MISSING_IN_AGO' | 'MISSING_IN_LMS' | 'MISMATCH' | 'ORPHANED';
+
+export interface AgoAttributeDifference {
+  attribute: string;
+  lms_value: any;
+  ago_value: any;
+}
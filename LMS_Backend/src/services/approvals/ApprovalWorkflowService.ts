@@ -0,0 +1,470 @@
+/**
+ * Approval Workflow Service - Multi-stage review of submitted customers and properties
+ *
+ * Administrators define the stages per entity type; until they do, a single approval by
+ * an APPROVER or ADMINISTRATOR applies. Submitting a record starts a workflow instance
+ * with the stages whose condition matches the record at that moment, so later edits of
+ * the definition do not change reviews already under way. Each approval is recorded
+ * against a stage; the record is approved once every stage is, and rejected as soon
+ * as any pending stage rejects it. Reviews are assigned to approvers through the
+ * ReviewAssignmentService as they start and move from stage to stage.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { ReviewAssignmentService } from './ReviewAssignmentService';
+import {
+  applicableStages,
+  DEFAULT_STAGES,
+  findActionableStage,
+  findRejectableStage,
+  getCurrentOrder,
+  getPendingStages,
+  getStageApprovals,
+  validateStageConditions,
+} from './stageRules';
+import {
+  ApproverLoad,
+  AssignmentEligibility,
+  ReviewAssignment,
+  StageDecision,
+  StageProgress,
+  WorkflowAction,
+  WorkflowActor,
+  WorkflowDefinition,
+  WorkflowDefinitionInput,
+  WorkflowEntityType,
+  WorkflowInstance,
+  WorkflowProgress,
+} from './types';
+
+const ENTITY_TABLES: Record<WorkflowEntityType, string> = {
+  customer: 'customers',
+  property: 'properties',
+};
+
+const DEFAULT_NAMES: Record<WorkflowEntityType, string> = {
+  customer: 'Customer approval',
+  property: 'Property approval',
+};
+
+const reviewAssignmentService = new ReviewAssignmentService();
+
+const ACTION_SELECT = `
+  *,
+  actor:users!workflow_actions_acted_by_fkey(full_name)
+`;
+
+export class ApprovalWorkflowService {
+  async getDefinitions(): Promise<WorkflowDefinition[]> {
+    return Promise.all([this.getDefinition('customer'), this.getDefinition('property')]);
+  }
+
+  async getDefinition(entityType: WorkflowEntityType): Promise<WorkflowDefinition> {
+    const { data, error } = await supabase
+      .from('workflow_definitions')
+      .select('*')
+      .eq('entity_type', entityType)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    if (!data || !data.stages?.length) {
+      return {
+        id: data?.id || null,
+        entity_type: entityType,
+        name: data?.name || DEFAULT_NAMES[entityType],
+        stages: DEFAULT_STAGES,
+        updated_at: data?.updated_at || null,
+      };
+    }
+
+    return {
+      id: data.id,
+      entity_type: entityType,
+      name: data.name,
+      stages: data.stages,
+      updated_at: data.updated_at,
+    };
+  }
+
+  /**
+   * Replace the stages of an entity type. Reviews already under way keep their stages.
+   */
+  async saveDefinition(
+    entityType: WorkflowEntityType,
+    input: WorkflowDefinitionInput,
+    userId: string
+  ): Promise<WorkflowDefinition> {
+    const conditionErrors = validateStageConditions(entityType, input.stages);
+    if (conditionErrors.length > 0) {
+      const error = new AppError('Invalid stage conditions', 400);
+      error.errors = conditionErrors.map((message) => ({ field: 'stages', message }));
+      throw error;
+    }
+
+    const { error } = await supabase.from('workflow_definitions').upsert(
+      {
+        entity_type: entityType,
+        name: input.name,
+        stages: [...input.stages].sort((a, b) => a.order - b.order),
+        updated_by: userId,
+      },
+      { onConflict: 'entity_type' }
+    );
+
+    if (error) throw new AppError(error.message, 500);
+
+    return this.getDefinition(entityType);
+  }
+
+  /**
+   * Start the review of a submitted record, replacing any review still in progress
+   */
+  async start(entityType: WorkflowEntityType, entityId: string, userId: string | null): Promise<WorkflowInstance> {
+    const previous = await this.getActiveInstance(entityType, entityId);
+    if (previous) {
+      const { error: cancelError } = await supabase
+        .from('workflow_instances')
+        .update({ status: 'CANCELLED', current_order: null, completed_at: new Date().toISOString() })
+        .eq('id', previous.id);
+
+      if (cancelError) throw new AppError(cancelError.message, 500);
+
+      await this.recordAction(previous.id, null, 'CANCEL', userId, 'Resubmitted');
+    }
+
+    const { data: record, error: recordError } = await supabase
+      .from(ENTITY_TABLES[entityType])
+      .select('*')
+      .eq('id', entityId)
+      .maybeSingle();
+
+    if (recordError) throw new AppError(recordError.message, 500);
+    if (!record) throw new AppError(`${entityType === 'customer' ? 'Customer' : 'Property'} not found`, 404);
+
+    const definition = await this.getDefinition(entityType);
+    const matched = applicableStages(definition.stages, record);
+    // Conditions can leave no stage at all; the record still needs an approval
+    const stages = matched.length > 0 ? matched : DEFAULT_STAGES;
+
+    const { data: instance, error } = await supabase
+      .from('workflow_instances')
+      .insert({
+        entity_type: entityType,
+        entity_id: entityId,
+        definition_id: definition.id,
+        stages,
+        current_order: stages[0].order,
+        submitted_by: userId,
+        submitted_at: record.submitted_at || new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError('The record was submitted at the same time by someone else, please reload it', 409);
+      }
+      throw new AppError(error.message, 500);
+    }
+
+    await this.recordAction(instance.id, null, 'SUBMIT', userId, null);
+
+    await reviewAssignmentService.complete(entityType, entityId);
+    await reviewAssignmentService.autoAssign(entityType, entityId, this.getEligibility(instance, new Map()));
+
+    return instance;
+  }
+
+  /**
+   * Stages and history of the latest review of a record, or null if it was never submitted
+   */
+  async getProgress(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    actor?: WorkflowActor
+  ): Promise<WorkflowProgress | null> {
+    const { data: instance, error } = await supabase
+      .from('workflow_instances')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .order('submitted_at', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!instance) return null;
+
+    return this.buildProgress(instance, await this.getActions(instance.id), actor);
+  }
+
+  /**
+   * Record the approval of the pending stage the user may act on
+   */
+  async approve(entityType: WorkflowEntityType, entityId: string, actor: WorkflowActor): Promise<StageDecision> {
+    await reviewAssignmentService.assertCanAct(entityType, entityId, actor);
+
+    const instance = await this.getOrStartInstance(entityType, entityId);
+    const approvals = getStageApprovals(await this.getActions(instance.id));
+    const stage = findActionableStage(instance.stages, approvals, actor);
+
+    if (!stage) {
+      const alreadyApproved = [...approvals.values()].some((users) => users.includes(actor.id));
+      const pending = getPendingStages(instance.stages, approvals).map((pendingStage) => pendingStage.name);
+      throw new AppError(
+        alreadyApproved
+          ? 'You have already approved this record; another approver must approve the remaining stages'
+          : `Your role cannot approve the pending stage${pending.length === 1 ? '' : 's'}: ${pending.join(', ')}`,
+        403
+      );
+    }
+
+    await this.recordAction(instance.id, stage.key, 'APPROVE', actor.id, null);
+
+    approvals.set(stage.key, [...(approvals.get(stage.key) || []), actor.id]);
+    const currentOrder = getCurrentOrder(instance.stages, approvals);
+    const completed = currentOrder === null;
+
+    const { error } = await supabase
+      .from('workflow_instances')
+      .update({
+        current_order: currentOrder,
+        status: completed ? 'APPROVED' : 'IN_PROGRESS',
+        completed_at: completed ? new Date().toISOString() : null,
+      })
+      .eq('id', instance.id);
+
+    if (error) throw new AppError(error.message, 500);
+
+    // The next stages go back to the queue, or to the next approver in turn
+    await reviewAssignmentService.complete(entityType, entityId);
+    if (!completed) {
+      await reviewAssignmentService.autoAssign(entityType, entityId, this.getEligibility(instance, approvals));
+    }
+
+    return {
+      completed,
+      stage,
+      progress: (await this.getProgress(entityType, entityId, actor))!,
+    };
+  }
+
+  /**
+   * Reject the record at a pending stage the user may act on; the review ends
+   */
+  async reject(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    actor: WorkflowActor,
+    feedback: string
+  ): Promise<StageDecision> {
+    await reviewAssignmentService.assertCanAct(entityType, entityId, actor);
+
+    const instance = await this.getOrStartInstance(entityType, entityId);
+    const approvals = getStageApprovals(await this.getActions(instance.id));
+    const stage = findRejectableStage(instance.stages, approvals, actor);
+
+    if (!stage) {
+      throw new AppError('Your role cannot review the pending stage of this record', 403);
+    }
+
+    await this.recordAction(instance.id, stage.key, 'REJECT', actor.id, feedback);
+
+    const { error } = await supabase
+      .from('workflow_instances')
+      .update({ status: 'REJECTED', current_order: null, completed_at: new Date().toISOString() })
+      .eq('id', instance.id);
+
+    if (error) throw new AppError(error.message, 500);
+
+    await reviewAssignmentService.complete(entityType, entityId);
+
+    return {
+      completed: true,
+      stage,
+      progress: (await this.getProgress(entityType, entityId, actor))!,
+    };
+  }
+
+  /**
+   * Names of the pending stages of the records under review, with whether the user can act
+   * on them and when the review was submitted
+   */
+  async getQueueStages(
+    entityType: WorkflowEntityType,
+    entityIds: string[],
+    actor: WorkflowActor
+  ): Promise<Map<string, { current_stages: string[]; can_act: boolean; submitted_at: string }>> {
+    const result = new Map<string, { current_stages: string[]; can_act: boolean; submitted_at: string }>();
+    if (entityIds.length === 0) return result;
+
+    const { data: instances, error } = await supabase
+      .from('workflow_instances')
+      .select('id, entity_id, stages, submitted_at, workflow_actions(stage_key, action, acted_by)')
+      .eq('entity_type', entityType)
+      .eq('status', 'IN_PROGRESS')
+      .in('entity_id', entityIds);
+
+    if (error) throw new AppError(error.message, 500);
+
+    for (const instance of instances || []) {
+      const approvals = getStageApprovals((instance.workflow_actions || []) as WorkflowAction[]);
+      result.set(instance.entity_id, {
+        current_stages: getPendingStages(instance.stages, approvals).map((stage) => stage.name),
+        can_act: !!findActionableStage(instance.stages, approvals, actor),
+        submitted_at: instance.submitted_at,
+      });
+    }
+
+    return result;
+  }
+
+  async claim(entityType: WorkflowEntityType, entityId: string, actor: WorkflowActor): Promise<ReviewAssignment> {
+    return reviewAssignmentService.claim(entityType, entityId, actor, await this.getCurrentEligibility(entityType, entityId));
+  }
+
+  async release(entityType: WorkflowEntityType, entityId: string, actor: WorkflowActor): Promise<void> {
+    return reviewAssignmentService.release(entityType, entityId, actor);
+  }
+
+  async reassign(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    userId: string,
+    adminId: string | null
+  ): Promise<ReviewAssignment> {
+    return reviewAssignmentService.reassign(
+      entityType,
+      entityId,
+      userId,
+      adminId,
+      await this.getCurrentEligibility(entityType, entityId)
+    );
+  }
+
+  /**
+   * Approvers who may take over the review of a record, with their current load
+   */
+  async getAssignees(entityType: WorkflowEntityType, entityId: string): Promise<ApproverLoad[]> {
+    return reviewAssignmentService.getApproverLoads(await this.getCurrentEligibility(entityType, entityId));
+  }
+
+  private async getCurrentEligibility(entityType: WorkflowEntityType, entityId: string): Promise<AssignmentEligibility> {
+    const instance = await this.getOrStartInstance(entityType, entityId);
+    return this.getEligibility(instance, getStageApprovals(await this.getActions(instance.id)));
+  }
+
+  private getEligibility(instance: WorkflowInstance, approvals: Map<string, string[]>): AssignmentEligibility {
+    const pending = getPendingStages(instance.stages, approvals);
+    return {
+      roles: [...new Set(pending.flatMap((stage) => stage.roles))],
+      excluded_user_ids: [...new Set([...approvals.values()].flat())],
+      submitted_by: instance.submitted_by,
+    };
+  }
+
+  private async getActiveInstance(entityType: WorkflowEntityType, entityId: string): Promise<WorkflowInstance | null> {
+    const { data, error } = await supabase
+      .from('workflow_instances')
+      .select('*')
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .eq('status', 'IN_PROGRESS')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  /**
+   * Records submitted before workflows existed get their review started on the first decision
+   */
+  private async getOrStartInstance(entityType: WorkflowEntityType, entityId: string): Promise<WorkflowInstance> {
+    const instance = await this.getActiveInstance(entityType, entityId);
+    if (instance) return instance;
+
+    const { data: record, error } = await supabase
+      .from(ENTITY_TABLES[entityType])
+      .select('status, created_by')
+      .eq('id', entityId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!record) throw new AppError(`${entityType === 'customer' ? 'Customer' : 'Property'} not found`, 404);
+    if (record.status !== 'SUBMITTED') {
+      throw new AppError(`Only submitted records can be reviewed (current status: ${record.status})`, 400);
+    }
+
+    return this.start(entityType, entityId, record.created_by);
+  }
+
+  private async getActions(instanceId: string): Promise<WorkflowAction[]> {
+    const { data, error } = await supabase
+      .from('workflow_actions')
+      .select(ACTION_SELECT)
+      .eq('instance_id', instanceId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  private async recordAction(
+    instanceId: string,
+    stageKey: string | null,
+    action: WorkflowAction['action'],
+    userId: string | null,
+    feedback: string | null
+  ): Promise<void> {
+    const { error } = await supabase.from('workflow_actions').insert({
+      instance_id: instanceId,
+      stage_key: stageKey,
+      action,
+      acted_by: userId,
+      feedback,
+    });
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  private buildProgress(instance: WorkflowInstance, actions: WorkflowAction[], actor?: WorkflowActor): WorkflowProgress {
+    const approvals = getStageApprovals(actions);
+    const names = new Map(actions.map((action) => [action.acted_by, action.actor?.full_name || 'Unknown']));
+    const rejection = actions.find((action) => action.action === 'REJECT');
+    const pending = instance.status === 'IN_PROGRESS' ? getPendingStages(instance.stages, approvals) : [];
+
+    const stages: StageProgress[] = instance.stages.map((stage) => {
+      const approvedBy = approvals.get(stage.key) || [];
+      let state: StageProgress['state'];
+      if (approvedBy.length >= stage.required_approvals) state = 'APPROVED';
+      else if (rejection?.stage_key === stage.key) state = 'REJECTED';
+      else if (instance.status === 'CANCELLED' || instance.status === 'REJECTED') state = 'CANCELLED';
+      else if (pending.some((pendingStage) => pendingStage.key === stage.key)) state = 'PENDING';
+      else state = 'WAITING';
+
+      return {
+        ...stage,
+        state,
+        approvals: approvedBy.length,
+        approved_by: approvedBy.map((userId) => names.get(userId) || 'Unknown'),
+      };
+    });
+
+    return {
+      instance_id: instance.id,
+      status: instance.status,
+      submitted_at: instance.submitted_at,
+      completed_at: instance.completed_at,
+      current_order: instance.current_order,
+      current_stages: pending.map((stage) => stage.name),
+      stages,
+      history: actions,
+      can_act: !!actor && instance.status === 'IN_PROGRESS' && !!findActionableStage(instance.stages, approvals, actor),
+    };
+  }
+}
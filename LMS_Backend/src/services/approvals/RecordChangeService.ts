@@ -0,0 +1,261 @@
+/**
+ * Record Change Service - Approved versions of customers and properties edited after approval
+ *
+ * Editing an approved record sends it back for review. The approved version is captured
+ * before the first such edit; later edits while the record is under review add to the
+ * same change set. Reviewers see the field-by-field diff, approving the record accepts
+ * all changes and rejecting it restores the approved version.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { diffSnapshots, restorableFields } from './changeRules';
+import { RecordChangeSet, RecordSnapshot, ReviewChanges, WorkflowEntityType } from './types';
+
+const CHANGE_SET_SELECT = `
+  *,
+  editor:users!record_change_sets_created_by_fkey(full_name)
+`;
+
+const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+export class RecordChangeService {
+  /**
+   * Keep the approved version of a record before an edit sends it back for review
+   */
+  async capture(entityType: WorkflowEntityType, entityId: string, userId: string): Promise<void> {
+    const snapshot = await this.takeSnapshot(entityType, entityId);
+
+    const { error } = await supabase.from('record_change_sets').insert({
+      entity_type: entityType,
+      entity_id: entityId,
+      snapshot,
+      created_by: userId,
+    });
+
+    if (error) {
+      // The record already has changes under review, whose snapshot is the approved version
+      if (error.code === '23505') {
+        logger.info(`${entityType} ${entityId} already has a change set under review`);
+        return;
+      }
+      throw new AppError(error.message, 500);
+    }
+  }
+
+  async getPending(entityType: WorkflowEntityType, entityId: string): Promise<RecordChangeSet | null> {
+    const { data, error } = await supabase
+      .from('record_change_sets')
+      .select(CHANGE_SET_SELECT)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .eq('status', 'PENDING')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  /**
+   * Fields changed since the record was approved, or null when it was never approved
+   */
+  async getReviewChanges(entityType: WorkflowEntityType, entityId: string): Promise<ReviewChanges | null> {
+    const changeSet = await this.getPending(entityType, entityId);
+    if (!changeSet) return null;
+
+    const current = await this.takeSnapshot(entityType, entityId);
+
+    return {
+      change_set_id: changeSet.id,
+      edited_by: changeSet.created_by,
+      edited_by_name: changeSet.editor?.full_name || null,
+      edited_at: changeSet.created_at,
+      changes: diffSnapshots(changeSet.snapshot, current),
+    };
+  }
+
+  /**
+   * The record was approved with its changes
+   */
+  async accept(entityType: WorkflowEntityType, entityId: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('record_change_sets')
+      .update({ status: 'APPROVED', resolved_by: userId, resolved_at: new Date().toISOString() })
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .eq('status', 'PENDING');
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  /**
+   * The changes were rejected: write the approved version back and return the restored record
+   */
+  async restore(changeSet: RecordChangeSet, userId: string): Promise<any> {
+    const { entity_type: entityType, entity_id: entityId, snapshot } = changeSet;
+    const table = entityType === 'customer' ? 'customers' : 'properties';
+
+    const { data, error } = await supabase
+      .from(table)
+      .update({ ...restorableFields(snapshot.record), updated_at: new Date().toISOString() })
+      .eq('id', entityId)
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    if (entityType === 'customer') {
+      await this.restoreDetails(data.customer_type, entityId, snapshot);
+    } else {
+      await this.restoreBoundaries(entityId, snapshot);
+      await this.restoreOwner(entityId, snapshot);
+    }
+
+    const { error: resolveError } = await supabase
+      .from('record_change_sets')
+      .update({ status: 'REJECTED', resolved_by: userId, resolved_at: new Date().toISOString() })
+      .eq('id', changeSet.id);
+
+    if (resolveError) throw new AppError(resolveError.message, 500);
+
+    return data;
+  }
+
+  private async takeSnapshot(entityType: WorkflowEntityType, entityId: string): Promise<RecordSnapshot> {
+    const table = entityType === 'customer' ? 'customers' : 'properties';
+    const { data: record, error } = await supabase.from(table).select('*').eq('id', entityId).single();
+
+    if (error) throw new AppError(error.message, 404);
+
+    if (entityType === 'customer') {
+      const { data: details, error: detailsError } = await supabase
+        .from(`customer_${String(record.customer_type).toLowerCase()}`)
+        .select('*')
+        .eq('customer_id', entityId)
+        .maybeSingle();
+
+      if (detailsError) throw new AppError(detailsError.message, 500);
+
+      return { record, details };
+    }
+
+    const { data: boundaries, error: boundariesError } = await supabase
+      .from('property_boundaries')
+      .select('*')
+      .eq('property_id', entityId)
+      .maybeSingle();
+
+    if (boundariesError) throw new AppError(boundariesError.message, 500);
+
+    const { data: ownership, error: ownershipError } = await supabase
+      .from('property_ownership')
+      .select('customer_id, ownership_type, ownership_percentage, customers(reference_id)')
+      .eq('property_id', entityId)
+      .eq('is_current', true)
+      .maybeSingle();
+
+    if (ownershipError) throw new AppError(ownershipError.message, 500);
+
+    return {
+      record,
+      boundaries,
+      owner: ownership
+        ? {
+            customer_id: ownership.customer_id,
+            reference_id: single(ownership.customers)?.reference_id || null,
+            ownership_type: ownership.ownership_type,
+            ownership_percentage: ownership.ownership_percentage === null ? null : Number(ownership.ownership_percentage),
+          }
+        : null,
+    };
+  }
+
+  private async restoreDetails(customerType: string, customerId: string, snapshot: RecordSnapshot): Promise<void> {
+    if (!snapshot.details) return;
+
+    const { error } = await supabase
+      .from(`customer_${customerType.toLowerCase()}`)
+      .update(restorableFields(snapshot.details))
+      .eq('customer_id', customerId);
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  private async restoreBoundaries(propertyId: string, snapshot: RecordSnapshot): Promise<void> {
+    const { data: existing } = await supabase
+      .from('property_boundaries')
+      .select('id')
+      .eq('property_id', propertyId)
+      .maybeSingle();
+
+    let result;
+    if (!snapshot.boundaries) {
+      // The approved version had no boundaries
+      result = await supabase.from('property_boundaries').delete().eq('property_id', propertyId);
+    } else if (existing) {
+      result = await supabase
+        .from('property_boundaries')
+        .update({ ...restorableFields(snapshot.boundaries), updated_at: new Date().toISOString() })
+        .eq('property_id', propertyId);
+    } else {
+      result = await supabase
+        .from('property_boundaries')
+        .insert({ property_id: propertyId, ...restorableFields(snapshot.boundaries) });
+    }
+
+    if (result.error) throw new AppError(result.error.message, 500);
+  }
+
+  /**
+   * Put the snapshot owner back with the type and share they held. Snapshots taken
+   * before these were recorded restore a sole owner.
+   */
+  private async restoreOwner(propertyId: string, snapshot: RecordSnapshot): Promise<void> {
+    const { data: current } = await supabase
+      .from('property_ownership')
+      .select('customer_id, ownership_type, ownership_percentage')
+      .eq('property_id', propertyId)
+      .eq('is_current', true)
+      .maybeSingle();
+
+    const owner = snapshot.owner
+      ? {
+          customer_id: snapshot.owner.customer_id,
+          ownership_type: snapshot.owner.ownership_type || 'OWNER',
+          ownership_percentage:
+            snapshot.owner.ownership_percentage === undefined ? 100 : snapshot.owner.ownership_percentage,
+        }
+      : null;
+
+    if (!current && !owner) return;
+    if (
+      current &&
+      owner &&
+      current.customer_id === owner.customer_id &&
+      current.ownership_type === owner.ownership_type &&
+      Number(current.ownership_percentage) === Number(owner.ownership_percentage)
+    ) {
+      return;
+    }
+
+    const today = new Date().toISOString().split('T')[0];
+    await supabase
+      .from('property_ownership')
+      .update({ is_current: false, end_date: today })
+      .eq('property_id', propertyId)
+      .eq('is_current', true);
+
+    if (!owner) return;
+
+    const { error } = await supabase.from('property_ownership').insert({
+      property_id: propertyId,
+      ...owner,
+      start_date: today,
+      is_current: true,
+    });
+
+    if (error) throw new AppError(error.message, 500);
+  }
+}
@@ -0,0 +1,352 @@
+/**
+ * Review Assignment Service - Who is reviewing each submitted customer and property
+ *
+ * An approver claims a record from the queue, or it is assigned on submission by
+ * round-robin or to the least loaded approver (REVIEW_ASSIGNMENT_MODE). Assignments lapse
+ * after REVIEW_CLAIM_TIMEOUT_MINUTES; lapsed ones are expired whenever assignments are
+ * read, so the record simply shows as unassigned again. While a record is assigned, only
+ * the assignee or an administrator can decide it.
+ */
+
+import { config } from '../../config/env';
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { getExpiry, isAssignmentMode, isEligible, pickLeastLoaded, pickRoundRobin } from './assignmentRules';
+import {
+  ApproverLoad,
+  AssignmentEligibility,
+  AssignmentMethod,
+  ReviewAssignment,
+  WorkflowActor,
+  WorkflowEntityType,
+} from './types';
+
+const ASSIGNMENT_SELECT = `
+  *,
+  assignee:users!review_assignments_assigned_to_fkey(full_name)
+`;
+
+const LABELS: Record<WorkflowEntityType, string> = {
+  customer: 'Customer',
+  property: 'Property',
+};
+
+export class ReviewAssignmentService {
+  /**
+   * Active assignment of a record, or null when it is unassigned
+   */
+  async getActive(entityType: WorkflowEntityType, entityId: string): Promise<ReviewAssignment | null> {
+    await this.expireStale();
+
+    const { data, error } = await supabase
+      .from('review_assignments')
+      .select(ASSIGNMENT_SELECT)
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .eq('status', 'ACTIVE')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  async getActiveMap(entityType: WorkflowEntityType, entityIds: string[]): Promise<Map<string, ReviewAssignment>> {
+    const result = new Map<string, ReviewAssignment>();
+    if (entityIds.length === 0) return result;
+
+    await this.expireStale();
+
+    const { data, error } = await supabase
+      .from('review_assignments')
+      .select(ASSIGNMENT_SELECT)
+      .eq('entity_type', entityType)
+      .eq('status', 'ACTIVE')
+      .in('entity_id', entityIds);
+
+    if (error) throw new AppError(error.message, 500);
+
+    for (const assignment of data || []) {
+      result.set(assignment.entity_id, assignment);
+    }
+
+    return result;
+  }
+
+  /**
+   * Active approvers and administrators with the number of records assigned to them,
+   * optionally only those who may take a given review
+   */
+  async getApproverLoads(eligibility?: AssignmentEligibility): Promise<ApproverLoad[]> {
+    await this.expireStale();
+
+    const { data: users, error } = await supabase
+      .from('users')
+      .select('id, full_name, role')
+      .in('role', eligibility?.roles || ['APPROVER', 'ADMINISTRATOR'])
+      .eq('is_active', true)
+      .order('full_name', { ascending: true });
+
+    if (error) throw new AppError(error.message, 500);
+
+    const { data: active, error: activeError } = await supabase
+      .from('review_assignments')
+      .select('assigned_to')
+      .eq('status', 'ACTIVE');
+
+    if (activeError) throw new AppError(activeError.message, 500);
+
+    const counts = new Map<string, number>();
+    for (const assignment of active || []) {
+      counts.set(assignment.assigned_to, (counts.get(assignment.assigned_to) || 0) + 1);
+    }
+
+    return (users || [])
+      .filter((user: any) => !eligibility || isEligible(user, eligibility))
+      .map((user: any) => ({
+        id: user.id,
+        full_name: user.full_name,
+        role: user.role,
+        active_items: counts.get(user.id) || 0,
+      }));
+  }
+
+  /**
+   * Take a record for review; claiming one's own record again restarts the timeout
+   */
+  async claim(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    actor: WorkflowActor,
+    eligibility: AssignmentEligibility
+  ): Promise<ReviewAssignment> {
+    const current = await this.getActive(entityType, entityId);
+
+    if (current && current.assigned_to !== actor.id) {
+      throw new AppError(`Already assigned to ${current.assignee?.full_name || 'another approver'}`, 409);
+    }
+
+    if (!isEligible(actor, eligibility)) {
+      throw new AppError('You cannot review the pending stage of this record', 403);
+    }
+
+    if (current) {
+      const { data, error } = await supabase
+        .from('review_assignments')
+        .update({ expires_at: getExpiry(new Date(), config.reviewClaimTimeoutMinutes) })
+        .eq('id', current.id)
+        .select(ASSIGNMENT_SELECT)
+        .single();
+
+      if (error) throw new AppError(error.message, 500);
+
+      return data;
+    }
+
+    return this.insert(entityType, entityId, actor.id, actor.id, 'CLAIM');
+  }
+
+  /**
+   * Give a record back to the queue; administrators can release anyone's assignment
+   */
+  async release(entityType: WorkflowEntityType, entityId: string, actor: WorkflowActor): Promise<void> {
+    const current = await this.getActive(entityType, entityId);
+
+    if (!current) {
+      throw new AppError('The record is not assigned', 400);
+    }
+    if (current.assigned_to !== actor.id && actor.role !== 'ADMINISTRATOR') {
+      throw new AppError('Only the assignee or an administrator can release this record', 403);
+    }
+
+    await this.end(current.id, 'RELEASED');
+  }
+
+  /**
+   * Assign a record to another approver, by an administrator or by SLA escalation (null)
+   */
+  async reassign(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    userId: string,
+    adminId: string | null,
+    eligibility: AssignmentEligibility
+  ): Promise<ReviewAssignment> {
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('id, role, is_active')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!user || !user.is_active) throw new AppError('User not found or inactive', 400);
+    if (!isEligible(user, eligibility)) {
+      throw new AppError('The user cannot review the pending stage of this record', 400);
+    }
+
+    const current = await this.getActive(entityType, entityId);
+    if (current?.assigned_to === userId) return current;
+    if (current) await this.end(current.id, 'RELEASED');
+
+    const assignment = await this.insert(entityType, entityId, userId, adminId, 'REASSIGN');
+    await this.notifyAssignee(assignment);
+
+    return assignment;
+  }
+
+  /**
+   * Assign a record per REVIEW_ASSIGNMENT_MODE; returns null in manual mode or when
+   * nobody can take it
+   */
+  async autoAssign(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    eligibility: AssignmentEligibility
+  ): Promise<ReviewAssignment | null> {
+    const mode = config.reviewAssignmentMode;
+    if (!isAssignmentMode(mode)) {
+      logger.error(`Unknown REVIEW_ASSIGNMENT_MODE "${mode}", records are not assigned automatically`);
+      return null;
+    }
+    if (mode === 'manual') return null;
+
+    const candidates = (await this.getApproverLoads(eligibility)).filter(
+      (candidate) => candidate.id !== eligibility.submitted_by
+    );
+
+    let chosen: ApproverLoad | undefined;
+    if (mode === 'round_robin') {
+      const { data: last, error } = await supabase
+        .from('review_assignments')
+        .select('assigned_to')
+        .eq('method', 'ROUND_ROBIN')
+        .order('assigned_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw new AppError(error.message, 500);
+
+      chosen = pickRoundRobin(candidates, last?.assigned_to || null);
+    } else {
+      chosen = pickLeastLoaded(candidates);
+    }
+
+    if (!chosen) {
+      logger.info(`No approver available for ${entityType} ${entityId}, left unassigned`);
+      return null;
+    }
+
+    const assignment = await this.insert(
+      entityType,
+      entityId,
+      chosen.id,
+      null,
+      mode === 'round_robin' ? 'ROUND_ROBIN' : 'LEAST_LOADED'
+    );
+    await this.notifyAssignee(assignment);
+
+    return assignment;
+  }
+
+  /**
+   * End the active assignment once its stage is decided or the review is replaced
+   */
+  async complete(entityType: WorkflowEntityType, entityId: string): Promise<void> {
+    const { error } = await supabase
+      .from('review_assignments')
+      .update({ status: 'COMPLETED', ended_at: new Date().toISOString() })
+      .eq('entity_type', entityType)
+      .eq('entity_id', entityId)
+      .eq('status', 'ACTIVE');
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  /**
+   * A record assigned to someone else can only be decided by an administrator
+   */
+  async assertCanAct(entityType: WorkflowEntityType, entityId: string, actor: WorkflowActor): Promise<void> {
+    const current = await this.getActive(entityType, entityId);
+
+    if (current && current.assigned_to !== actor.id && actor.role !== 'ADMINISTRATOR') {
+      throw new AppError(
+        `This record is assigned to ${current.assignee?.full_name || 'another approver'}; ask them or an administrator to release it`,
+        409
+      );
+    }
+  }
+
+  private async expireStale(): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('review_assignments')
+      .update({ status: 'EXPIRED', ended_at: now })
+      .eq('status', 'ACTIVE')
+      .lte('expires_at', now);
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  private async end(id: string, status: 'RELEASED' | 'COMPLETED'): Promise<void> {
+    const { error } = await supabase
+      .from('review_assignments')
+      .update({ status, ended_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  private async insert(
+    entityType: WorkflowEntityType,
+    entityId: string,
+    userId: string,
+    assignedBy: string | null,
+    method: AssignmentMethod
+  ): Promise<ReviewAssignment> {
+    const now = new Date();
+    const { data, error } = await supabase
+      .from('review_assignments')
+      .insert({
+        entity_type: entityType,
+        entity_id: entityId,
+        assigned_to: userId,
+        assigned_by: assignedBy,
+        method,
+        assigned_at: now.toISOString(),
+        expires_at: getExpiry(now, config.reviewClaimTimeoutMinutes),
+      })
+      .select(ASSIGNMENT_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError('The record was just assigned to someone else, please reload the queue', 409);
+      }
+      throw new AppError(error.message, 500);
+    }
+
+    return data;
+  }
+
+  private async notifyAssignee(assignment: ReviewAssignment): Promise<void> {
+    try {
+      const { data: record } = await supabase
+        .from(assignment.entity_type === 'customer' ? 'customers' : 'properties')
+        .select('reference_id')
+        .eq('id', assignment.entity_id)
+        .maybeSingle();
+
+      const label = LABELS[assignment.entity_type];
+      await supabase.from('notifications').insert({
+        user_id: assignment.assigned_to,
+        title: `${label} Assigned for Review`,
+        message: `${label} ${record?.reference_id || assignment.entity_id} has been assigned to you for review`,
+        entity_type: assignment.entity_type,
+        entity_id: assignment.entity_id,
+      });
+    } catch (notifError) {
+      console.error('Failed to create notification:', notifError);
+    }
+  }
+}
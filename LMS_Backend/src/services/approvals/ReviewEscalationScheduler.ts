@@ -0,0 +1,56 @@
+/**
+ * Review Escalation Scheduler - Background worker that escalates reviews past their SLA target
+ *
+ * Runs every REVIEW_ESCALATION_INTERVAL_MS; each review is escalated at most once, so a pass
+ * only acts on reviews that breached their target since the previous one.
+ */
+
+import { config } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { ReviewSlaService } from './ReviewSlaService';
+
+export class ReviewEscalationScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private slaService = new ReviewSlaService();
+
+  start() {
+    if (this.started) return;
+
+    this.started = true;
+    this.schedule(config.reviewEscalationIntervalMs);
+    logger.info('Review escalation scheduler started');
+  }
+
+  stop() {
+    if (!this.started) return;
+
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info('Review escalation scheduler stopped');
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.started) return;
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  async tick() {
+    try {
+      const summary = await this.slaService.runEscalations();
+      if (summary.escalated > 0 || summary.failed > 0) {
+        logger.info(
+          `Review escalation scheduler escalated ${summary.escalated} reviews ` +
+            `(${summary.reassigned} reassigned, ${summary.failed} failed)`
+        );
+      }
+    } catch (error: any) {
+      logger.error('Review escalation scheduler failed:', error.message);
+    } finally {
+      this.schedule(config.reviewEscalationIntervalMs);
+    }
+  }
+}
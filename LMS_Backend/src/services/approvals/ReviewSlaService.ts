@@ -0,0 +1,330 @@
+/**
+ * Review SLA Service - SLA targets of reviews, their escalation and approver turnaround
+ *
+ * A review is measured from its submission. Once it has waited longer than the target of
+ * its entity type it is escalated, once per review: the supervisor (or every
+ * administrator) is notified and, with the REASSIGN action, the record moves to the least
+ * loaded approver who can take it.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { ApprovalWorkflowService } from './ApprovalWorkflowService';
+import { ReviewAssignmentService } from './ReviewAssignmentService';
+import { pickLeastLoaded } from './assignmentRules';
+import { getDecisionTurnarounds, getSlaStatus, roundHours, summarizeTurnarounds } from './slaRules';
+import {
+  ApproverTurnaround,
+  DecisionTurnaround,
+  EscalationSummary,
+  SlaTarget,
+  SlaTargetInput,
+  TurnaroundFilters,
+  TurnaroundReport,
+  WorkflowEntityType,
+  WorkflowInstance,
+} from './types';
+
+const approvalWorkflowService = new ApprovalWorkflowService();
+const reviewAssignmentService = new ReviewAssignmentService();
+
+const ENTITY_TYPES: WorkflowEntityType[] = ['customer', 'property'];
+
+const ENTITY_TABLES: Record<WorkflowEntityType, string> = {
+  customer: 'customers',
+  property: 'properties',
+};
+
+const LABELS: Record<WorkflowEntityType, string> = {
+  customer: 'Customer',
+  property: 'Property',
+};
+
+const TARGET_SELECT = `
+  *,
+  supervisor:users!review_sla_targets_supervisor_id_fkey(full_name)
+`;
+
+// Instances looked up per request when building the turnaround report
+const INSTANCE_BATCH_SIZE = 200;
+const PAGE_SIZE = 1000;
+
+export class ReviewSlaService {
+  /**
+   * Targets of both entity types; entity types without one get an inactive placeholder
+   */
+  async getTargets(): Promise<SlaTarget[]> {
+    const { data, error } = await supabase.from('review_sla_targets').select(TARGET_SELECT);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return ENTITY_TYPES.map(
+      (entityType) =>
+        (data || []).find((target: SlaTarget) => target.entity_type === entityType) || {
+          id: null,
+          entity_type: entityType,
+          target_hours: null,
+          warning_percent: 75,
+          escalation_action: 'NOTIFY',
+          supervisor_id: null,
+          is_active: false,
+          updated_at: null,
+        }
+    );
+  }
+
+  async getTarget(entityType: WorkflowEntityType): Promise<SlaTarget | null> {
+    const target = (await this.getTargets()).find((candidate) => candidate.entity_type === entityType)!;
+    return target.id && target.is_active ? target : null;
+  }
+
+  async saveTarget(entityType: WorkflowEntityType, input: SlaTargetInput, userId: string): Promise<SlaTarget> {
+    if (input.supervisor_id) {
+      const { data: supervisor, error: supervisorError } = await supabase
+        .from('users')
+        .select('id, is_active')
+        .eq('id', input.supervisor_id)
+        .maybeSingle();
+
+      if (supervisorError) throw new AppError(supervisorError.message, 500);
+      if (!supervisor || !supervisor.is_active) throw new AppError('Supervisor not found or inactive', 400);
+    }
+
+    const { error } = await supabase.from('review_sla_targets').upsert(
+      {
+        entity_type: entityType,
+        target_hours: input.target_hours,
+        warning_percent: input.warning_percent,
+        escalation_action: input.escalation_action,
+        supervisor_id: input.supervisor_id,
+        is_active: input.is_active,
+        updated_by: userId,
+      },
+      { onConflict: 'entity_type' }
+    );
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (await this.getTargets()).find((target) => target.entity_type === entityType)!;
+  }
+
+  /**
+   * Escalate every review in progress that has passed its target and was not escalated yet
+   */
+  async runEscalations(now: Date = new Date()): Promise<EscalationSummary> {
+    const summary: EscalationSummary = { checked: 0, escalated: 0, reassigned: 0, failed: 0 };
+
+    for (const target of await this.getTargets()) {
+      if (!target.id || !target.is_active || !target.target_hours) continue;
+
+      const cutoff = new Date(now.getTime() - Number(target.target_hours) * 60 * 60 * 1000).toISOString();
+      const { data: instances, error } = await supabase
+        .from('workflow_instances')
+        .select('id, entity_type, entity_id, submitted_at, submitted_by, review_escalations(id)')
+        .eq('entity_type', target.entity_type)
+        .eq('status', 'IN_PROGRESS')
+        .lte('submitted_at', cutoff);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const instance of instances || []) {
+        if ((instance.review_escalations || []).length > 0) continue;
+        summary.checked++;
+
+        try {
+          const reassigned = await this.escalate(instance, target, now);
+          if (reassigned === null) continue; // escalated concurrently
+          summary.escalated++;
+          if (reassigned) summary.reassigned++;
+        } catch (escalationError: any) {
+          summary.failed++;
+          logger.error(`Escalation failed for ${instance.entity_type} ${instance.entity_id}:`, escalationError.message);
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Average and percentile time approvers took to decide a stage, for decisions in the period
+   */
+  async getTurnaroundReport(filters: TurnaroundFilters): Promise<TurnaroundReport> {
+    const from = `${filters.from.slice(0, 10)}T00:00:00.000Z`;
+    const to = `${filters.to.slice(0, 10)}T23:59:59.999Z`;
+
+    const decidedIds = new Set<string>();
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: decided, error } = await supabase
+        .from('workflow_actions')
+        .select('instance_id')
+        .in('action', ['APPROVE', 'REJECT'])
+        .gte('created_at', from)
+        .lte('created_at', to)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const action of decided || []) decidedIds.add(action.instance_id);
+      if (!decided || decided.length < PAGE_SIZE) break;
+    }
+
+    const instanceIds = [...decidedIds];
+    const decisions: DecisionTurnaround[] = [];
+
+    for (let i = 0; i < instanceIds.length; i += INSTANCE_BATCH_SIZE) {
+      let query = supabase
+        .from('workflow_instances')
+        .select('id, entity_type, stages, submitted_at, workflow_actions(stage_key, action, acted_by, created_at)')
+        .in('id', instanceIds.slice(i, i + INSTANCE_BATCH_SIZE));
+
+      if (filters.entity_type) {
+        query = query.eq('entity_type', filters.entity_type);
+      }
+
+      const { data: instances, error: instanceError } = await query;
+      if (instanceError) throw new AppError(instanceError.message, 500);
+
+      for (const instance of instances || []) {
+        decisions.push(
+          ...getDecisionTurnarounds(instance.stages, instance.submitted_at, instance.workflow_actions || []).filter(
+            (decision) => decision.acted_at >= from && decision.acted_at <= to
+          )
+        );
+      }
+    }
+
+    const byApprover = new Map<string, DecisionTurnaround[]>();
+    for (const decision of decisions) {
+      byApprover.set(decision.acted_by, [...(byApprover.get(decision.acted_by) || []), decision]);
+    }
+
+    const names = new Map<string, string>();
+    if (byApprover.size > 0) {
+      const { data: users, error: usersError } = await supabase
+        .from('users')
+        .select('id, full_name')
+        .in('id', [...byApprover.keys()]);
+
+      if (usersError) throw new AppError(usersError.message, 500);
+
+      for (const user of users || []) names.set(user.id, user.full_name);
+    }
+
+    const approvers: ApproverTurnaround[] = [...byApprover.entries()]
+      .map(([userId, approverDecisions]) => ({
+        user_id: userId,
+        full_name: names.get(userId) || 'Unknown',
+        ...summarizeTurnarounds(approverDecisions),
+      }))
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+
+    return {
+      from: filters.from,
+      to: filters.to,
+      entity_type: filters.entity_type || null,
+      overall: summarizeTurnarounds(decisions),
+      approvers,
+    };
+  }
+
+  /**
+   * Record the escalation first so a review is only escalated once, then act on it.
+   * Returns whether the record was reassigned, or null if it was already escalated.
+   */
+  private async escalate(
+    instance: Pick<WorkflowInstance, 'id' | 'entity_type' | 'entity_id' | 'submitted_at' | 'submitted_by'>,
+    target: SlaTarget,
+    now: Date
+  ): Promise<boolean | null> {
+    const status = getSlaStatus(instance.submitted_at, target, now);
+    const current = await reviewAssignmentService.getActive(instance.entity_type, instance.entity_id);
+
+    const { data: escalation, error } = await supabase
+      .from('review_escalations')
+      .insert({
+        instance_id: instance.id,
+        entity_type: instance.entity_type,
+        entity_id: instance.entity_id,
+        action: target.escalation_action,
+        hours_pending: status.hours_pending,
+        target_hours: target.target_hours,
+        previous_assignee: current?.assigned_to || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return null;
+      throw new AppError(error.message, 500);
+    }
+
+    let reassignedTo: { id: string; full_name: string } | undefined;
+    if (target.escalation_action === 'REASSIGN') {
+      const candidates = (await approvalWorkflowService.getAssignees(instance.entity_type, instance.entity_id)).filter(
+        (candidate) => candidate.id !== current?.assigned_to && candidate.id !== instance.submitted_by
+      );
+      reassignedTo = pickLeastLoaded(candidates);
+
+      if (reassignedTo) {
+        await approvalWorkflowService.reassign(instance.entity_type, instance.entity_id, reassignedTo.id, null);
+        await supabase.from('review_escalations').update({ reassigned_to: reassignedTo.id }).eq('id', escalation.id);
+      }
+    }
+
+    await this.notifySupervisors(instance, target, status.hours_pending, current?.assignee?.full_name, reassignedTo?.full_name);
+
+    return !!reassignedTo;
+  }
+
+  private async notifySupervisors(
+    instance: Pick<WorkflowInstance, 'entity_type' | 'entity_id'>,
+    target: SlaTarget,
+    hoursPending: number,
+    assigneeName: string | undefined,
+    reassignedToName: string | undefined
+  ): Promise<void> {
+    try {
+      let supervisorIds: string[] = target.supervisor_id ? [target.supervisor_id] : [];
+      if (supervisorIds.length === 0) {
+        const { data: admins } = await supabase
+          .from('users')
+          .select('id')
+          .eq('role', 'ADMINISTRATOR')
+          .eq('is_active', true);
+        supervisorIds = (admins || []).map((admin: any) => admin.id);
+      }
+
+      const { data: record } = await supabase
+        .from(ENTITY_TABLES[instance.entity_type])
+        .select('reference_id')
+        .eq('id', instance.entity_id)
+        .maybeSingle();
+
+      const label = LABELS[instance.entity_type];
+      const outcome = reassignedToName
+        ? `reassigned to ${reassignedToName}`
+        : assigneeName
+          ? `still with ${assigneeName}`
+          : 'still unassigned';
+
+      const notifications = supervisorIds.map((userId) => ({
+        user_id: userId,
+        title: `${label} Review Overdue`,
+        message:
+          `${label} ${record?.reference_id || instance.entity_id} has waited ${roundHours(hoursPending)}h ` +
+          `for review, past its ${Number(target.target_hours)}h target; ${outcome}`,
+        entity_type: instance.entity_type,
+        entity_id: instance.entity_id,
+      }));
+
+      if (notifications.length > 0) {
+        await supabase.from('notifications').insert(notifications);
+      }
+    } catch (notifError) {
+      console.error('Failed to create notification:', notifError);
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Assignment Rules - Which approver gets a review and when an assignment lapses
+ */
+
+import { ApproverLoad, AssignmentEligibility, AssignmentMode, ReviewAssignment } from './types';
+
+export const isAssignmentMode = (mode: string): mode is AssignmentMode =>
+  mode === 'manual' || mode === 'round_robin' || mode === 'least_loaded';
+
+export const getExpiry = (from: Date, timeoutMinutes: number): string =>
+  new Date(from.getTime() + timeoutMinutes * 60 * 1000).toISOString();
+
+export const isExpired = (assignment: Pick<ReviewAssignment, 'expires_at'>, now: Date = new Date()): boolean =>
+  new Date(assignment.expires_at).getTime() <= now.getTime();
+
+export const isEligible = (
+  user: { id: string; role: string },
+  eligibility: AssignmentEligibility
+): boolean => eligibility.roles.includes(user.role) && !eligibility.excluded_user_ids.includes(user.id);
+
+/**
+ * Next approver after the one who got the previous automatic assignment, in name order
+ */
+export const pickRoundRobin = (candidates: ApproverLoad[], lastUserId: string | null): ApproverLoad | undefined => {
+  if (candidates.length === 0) return undefined;
+
+  const sorted = [...candidates].sort((a, b) => a.full_name.localeCompare(b.full_name) || a.id.localeCompare(b.id));
+  const lastIndex = sorted.findIndex((candidate) => candidate.id === lastUserId);
+  if (lastIndex >= 0) return sorted[(lastIndex + 1) % sorted.length];
+
+  // No previous assignment, or that approver cannot take this review: start from the top
+  return sorted[0];
+};
+
+/**
+ * Approver with the fewest active assignments; ties go by name
+ */
+export const pickLeastLoaded = (candidates: ApproverLoad[]): ApproverLoad | undefined =>
+  [...candidates].sort(
+    (a, b) => a.active_items - b.active_items || a.full_name.localeCompare(b.full_name) || a.id.localeCompare(b.id)
+  )[0];
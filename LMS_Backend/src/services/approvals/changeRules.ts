@@ -0,0 +1,81 @@
+/**
+ * Change Rules - Field-by-field comparison of an approved record with its edited version
+ */
+
+import { ChangeSection, FieldChange, RecordSnapshot } from './types';
+
+// Bookkeeping columns that change with every edit or review and are not part of the data
+export const IGNORED_FIELDS = new Set([
+  'id',
+  'customer_id',
+  'property_id',
+  'reference_id',
+  'status',
+  'created_by',
+  'created_at',
+  'updated_at',
+  'submitted_at',
+  'approved_by',
+  'approved_at',
+  'rejection_feedback',
+]);
+
+const SECTIONS: ChangeSection[] = ['record', 'details', 'boundaries', 'owner'];
+
+// Columns a restore must not write back
+const FIXED_FIELDS = ['id', 'customer_id', 'property_id', 'reference_id', 'created_by', 'created_at', 'updated_at'];
+
+export const toLabel = (field: string): string => {
+  const words = field.replace(/_id$/, '').split('_').filter(Boolean);
+  const label = words.join(' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// Values are compared as stored; numbers may come back as numeric strings
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === '') return null;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return value;
+};
+
+const getSection = (snapshot: RecordSnapshot, section: ChangeSection): Record<string, unknown> => {
+  if (section === 'owner') {
+    return snapshot.owner ? { owner: snapshot.owner.reference_id || snapshot.owner.customer_id } : {};
+  }
+  return snapshot[section] || {};
+};
+
+/**
+ * Fields that differ between the approved snapshot and the current version
+ */
+export const diffSnapshots = (approved: RecordSnapshot, current: RecordSnapshot): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  for (const section of SECTIONS) {
+    const before = getSection(approved, section);
+    const after = getSection(current, section);
+    const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      if (normalize(before[field]) === normalize(after[field])) continue;
+
+      changes.push({
+        section,
+        field,
+        label: toLabel(field),
+        old_value: before[field] ?? null,
+        new_value: after[field] ?? null,
+      });
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Columns of a snapshot row that are written back when it is restored
+ */
+export const restorableFields = (row: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(row).filter(([field]) => !FIXED_FIELDS.includes(field)));
@@ -0,0 +1,21 @@
+/**
+ * Approvals Module - Configurable multi-stage review of customers and properties
+ */
+
+export { ApprovalWorkflowService } from './ApprovalWorkflowService';
+export { ReviewAssignmentService } from './ReviewAssignmentService';
+export { ReviewSlaService } from './ReviewSlaService';
+export { ReviewEscalationScheduler } from './ReviewEscalationScheduler';
+export { RecordChangeService } from './RecordChangeService';
+export { pickLeastLoaded, pickRoundRobin } from './assignmentRules';
+export { diffSnapshots } from './changeRules';
+export {
+  applicableStages,
+  CONDITION_FIELDS,
+  DEFAULT_STAGES,
+  matchesCondition,
+  validateStageConditions,
+} from './stageRules';
+export { getDecisionTurnarounds, getSlaStatus, percentile, summarizeTurnarounds } from './slaRules';
+
+export * from './types';
@@ -0,0 +1,106 @@
+/**
+ * SLA Rules - Time in review against SLA targets, and approver turnaround
+ */
+
+import { getCurrentOrder, getStageApprovals } from './stageRules';
+import {
+  DecisionTurnaround,
+  SlaStatus,
+  SlaTarget,
+  TurnaroundStats,
+  WorkflowAction,
+  WorkflowStage,
+} from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+export const hoursBetween = (from: string | Date, to: string | Date): number =>
+  (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+
+/**
+ * Where a review submitted at `submittedAt` stands against its target
+ */
+export const getSlaStatus = (submittedAt: string, target: SlaTarget | null, now: Date = new Date()): SlaStatus => {
+  const hoursPending = Math.max(0, hoursBetween(submittedAt, now));
+
+  if (!target || !target.is_active || !target.target_hours) {
+    return { hours_pending: roundHours(hoursPending), target_hours: null, due_at: null, state: null };
+  }
+
+  const targetHours = Number(target.target_hours);
+  let state: SlaStatus['state'] = 'ON_TRACK';
+  if (hoursPending >= targetHours) state = 'BREACHED';
+  else if (hoursPending >= (targetHours * target.warning_percent) / 100) state = 'AT_RISK';
+
+  return {
+    hours_pending: roundHours(hoursPending),
+    target_hours: targetHours,
+    due_at: new Date(new Date(submittedAt).getTime() + targetHours * HOUR_MS).toISOString(),
+    state,
+  };
+};
+
+/**
+ * Hours each decision of a review took, counted from the moment its stage became
+ * pending: the submission for the first stages, then the approval that completed the
+ * previous order
+ */
+export const getDecisionTurnarounds = (
+  stages: WorkflowStage[],
+  submittedAt: string,
+  actions: Pick<WorkflowAction, 'stage_key' | 'action' | 'acted_by' | 'created_at'>[]
+): DecisionTurnaround[] => {
+  const sorted = [...actions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const approved: Pick<WorkflowAction, 'stage_key' | 'action' | 'acted_by'>[] = [];
+  let pendingSince = submittedAt;
+  let currentOrder = getCurrentOrder(stages, new Map());
+  const result: DecisionTurnaround[] = [];
+
+  for (const action of sorted) {
+    if ((action.action !== 'APPROVE' && action.action !== 'REJECT') || !action.acted_by) continue;
+
+    result.push({
+      acted_by: action.acted_by,
+      action: action.action,
+      acted_at: action.created_at,
+      hours: roundHours(Math.max(0, hoursBetween(pendingSince, action.created_at))),
+    });
+
+    if (action.action === 'APPROVE') {
+      approved.push(action);
+      const order = getCurrentOrder(stages, getStageApprovals(approved));
+      if (order !== currentOrder) {
+        pendingSince = action.created_at;
+        currentOrder = order;
+      }
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Nearest-rank percentile of ascending values
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+export const summarizeTurnarounds = (decisions: DecisionTurnaround[]): TurnaroundStats => {
+  const hours = decisions.map((decision) => decision.hours).sort((a, b) => a - b);
+  const total = hours.reduce((sum, value) => sum + value, 0);
+
+  return {
+    decisions: decisions.length,
+    approvals: decisions.filter((decision) => decision.action === 'APPROVE').length,
+    rejections: decisions.filter((decision) => decision.action === 'REJECT').length,
+    average_hours: hours.length > 0 ? roundHours(total / hours.length) : 0,
+    median_hours: percentile(hours, 50),
+    p90_hours: percentile(hours, 90),
+    max_hours: hours.length > 0 ? hours[hours.length - 1] : 0,
+  };
+};
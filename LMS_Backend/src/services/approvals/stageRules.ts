@@ -0,0 +1,167 @@
+/**
+ * Stage Rules - Which stages apply to a record and which are awaiting approval
+ *
+ * The stages of the lowest order that is not fully approved are pending; stages of a
+ * higher order wait for them. A user approves at most one stage of a review, so a stage
+ * needing two approvals, or a second stage, always gets a second person.
+ */
+
+import {
+  ConditionFieldType,
+  StageCondition,
+  WorkflowAction,
+  WorkflowActor,
+  WorkflowEntityType,
+  WorkflowRole,
+  WorkflowStage,
+} from './types';
+
+/**
+ * Built-in review used until an administrator defines one: a single approval
+ */
+export const DEFAULT_STAGES: WorkflowStage[] = [
+  {
+    key: 'approval',
+    name: 'Approval',
+    order: 1,
+    roles: ['APPROVER', 'ADMINISTRATOR'],
+    required_approvals: 1,
+    condition: null,
+  },
+];
+
+/**
+ * Record fields stage conditions can test, per entity type
+ */
+export const CONDITION_FIELDS: Record<WorkflowEntityType, Record<string, ConditionFieldType>> = {
+  customer: {
+    customer_type: 'string',
+  },
+  property: {
+    size: 'number',
+    parcel_area: 'number',
+    number_of_floors: 'number',
+    is_downtown: 'boolean',
+    is_building: 'boolean',
+    district_id: 'string',
+    property_type_id: 'string',
+  },
+};
+
+/**
+ * Problems with the stage conditions of a definition: unknown fields, or values and
+ * operators that do not suit the field
+ */
+export const validateStageConditions = (entityType: WorkflowEntityType, stages: WorkflowStage[]): string[] => {
+  const fields = CONDITION_FIELDS[entityType];
+  const errors: string[] = [];
+
+  for (const stage of stages) {
+    if (!stage.condition) continue;
+    const { field, operator, value } = stage.condition;
+    const fieldType = fields[field];
+
+    if (!fieldType) {
+      errors.push(`${stage.name}: ${entityType} records have no condition field "${field}" (use ${Object.keys(fields).join(', ')})`);
+    } else if (typeof value !== fieldType) {
+      errors.push(`${stage.name}: ${field} must be compared with a ${fieldType}`);
+    } else if (fieldType !== 'number' && operator !== 'eq' && operator !== 'neq') {
+      errors.push(`${stage.name}: ${field} can only be compared with eq or neq`);
+    }
+  }
+
+  return errors;
+};
+
+export const matchesCondition = (condition: StageCondition | null, record: Record<string, any>): boolean => {
+  if (!condition) return true;
+
+  const actual = record[condition.field];
+  if (actual === null || actual === undefined) return false;
+
+  if (typeof condition.value === 'number') {
+    const value = Number(actual);
+    switch (condition.operator) {
+      case 'gt':
+        return value > condition.value;
+      case 'gte':
+        return value >= condition.value;
+      case 'lt':
+        return value < condition.value;
+      case 'lte':
+        return value <= condition.value;
+      case 'eq':
+        return value === condition.value;
+      case 'neq':
+        return value !== condition.value;
+    }
+  }
+
+  const matches = String(actual) === String(condition.value);
+  if (condition.operator === 'eq') return matches;
+  if (condition.operator === 'neq') return !matches;
+  return false;
+};
+
+/**
+ * Stages whose condition matches the record, in order
+ */
+export const applicableStages = (stages: WorkflowStage[], record: Record<string, any>): WorkflowStage[] =>
+  stages
+    .filter((stage) => matchesCondition(stage.condition, record))
+    .sort((a, b) => a.order - b.order);
+
+/**
+ * Users who approved each stage
+ */
+export const getStageApprovals = (
+  actions: Pick<WorkflowAction, 'action' | 'stage_key' | 'acted_by'>[]
+): Map<string, string[]> => {
+  const approvals = new Map<string, string[]>();
+  for (const action of actions) {
+    if (action.action !== 'APPROVE' || !action.stage_key || !action.acted_by) continue;
+    approvals.set(action.stage_key, [...(approvals.get(action.stage_key) || []), action.acted_by]);
+  }
+  return approvals;
+};
+
+const isComplete = (stage: WorkflowStage, approvals: Map<string, string[]>): boolean =>
+  (approvals.get(stage.key)?.length || 0) >= stage.required_approvals;
+
+/**
+ * Order of the stages awaiting approval, or null when every stage is approved
+ */
+export const getCurrentOrder = (stages: WorkflowStage[], approvals: Map<string, string[]>): number | null => {
+  const open = stages.filter((stage) => !isComplete(stage, approvals));
+  return open.length > 0 ? Math.min(...open.map((stage) => stage.order)) : null;
+};
+
+export const getPendingStages = (stages: WorkflowStage[], approvals: Map<string, string[]>): WorkflowStage[] => {
+  const order = getCurrentOrder(stages, approvals);
+  return stages.filter((stage) => stage.order === order && !isComplete(stage, approvals));
+};
+
+/**
+ * Pending stage the user can approve: their role is allowed and they have not
+ * approved any stage of this review yet
+ */
+export const findActionableStage = (
+  stages: WorkflowStage[],
+  approvals: Map<string, string[]>,
+  actor: WorkflowActor
+): WorkflowStage | undefined => {
+  const alreadyApproved = [...approvals.values()].some((users) => users.includes(actor.id));
+  if (alreadyApproved) return undefined;
+
+  return getPendingStages(stages, approvals).find((stage) => stage.roles.includes(actor.role as WorkflowRole));
+};
+
+/**
+ * Pending stage the user can reject the record at (approving earlier does not prevent it)
+ */
+export const findRejectableStage = (
+  stages: WorkflowStage[],
+  approvals: Map<string, string[]>,
+  actor: WorkflowActor
+): WorkflowStage | undefined =>
+  getPendingStages(stages, approvals).find((stage) => stage.roles.includes(actor.role as WorkflowRole));
@@ -0,0 +1,266 @@
+/**
+ * Types for multi-stage approval workflows of customers and properties, the
+ * assignment of their reviews, their SLA targets and the change sets of edited
+ * approved records
+ */
+
+export type WorkflowEntityType = 'customer' | 'property';
+
+export type WorkflowRole = 'APPROVER' | 'ADMINISTRATOR';
+
+export type ConditionOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+
+export type ConditionFieldType = 'number' | 'boolean' | 'string';
+
+export interface StageCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: number | string | boolean;
+}
+
+export interface WorkflowStage {
+  key: string;
+  name: string;
+  order: number; // stages with the same order run in parallel
+  roles: WorkflowRole[];
+  required_approvals: number; // by different users
+  condition: StageCondition | null; // stage only applies to records matching it
+}
+
+export interface WorkflowDefinition {
+  id: string | null; // null while the built-in single approval applies
+  entity_type: WorkflowEntityType;
+  name: string;
+  stages: WorkflowStage[];
+  updated_at: string | null;
+}
+
+export interface WorkflowDefinitionInput {
+  name: string;
+  stages: WorkflowStage[];
+}
+
+export type WorkflowStatus = 'IN_PROGRESS' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export type WorkflowActionType = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'CANCEL';
+
+export interface WorkflowInstance {
+  id: string;
+  entity_type: WorkflowEntityType;
+  entity_id: string;
+  definition_id: string | null;
+  stages: WorkflowStage[];
+  current_order: number | null;
+  status: WorkflowStatus;
+  submitted_by: string | null;
+  submitted_at: string;
+  completed_at: string | null;
+}
+
+export interface WorkflowAction {
+  id: string;
+  instance_id: string;
+  stage_key: string | null;
+  action: WorkflowActionType;
+  acted_by: string | null;
+  feedback: string | null;
+  created_at: string;
+  actor?: { full_name: string } | null;
+}
+
+export interface WorkflowActor {
+  id: string;
+  role: string;
+}
+
+/**
+ * PENDING stages await approval now, WAITING stages come after them
+ */
+export type StageState = 'PENDING' | 'WAITING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export interface StageProgress extends WorkflowStage {
+  state: StageState;
+  approvals: number;
+  approved_by: string[];
+}
+
+export interface WorkflowProgress {
+  instance_id: string;
+  status: WorkflowStatus;
+  submitted_at: string;
+  completed_at: string | null;
+  current_order: number | null;
+  current_stages: string[]; // names of the pending stages
+  stages: StageProgress[];
+  history: WorkflowAction[];
+  can_act: boolean; // whether the requesting user can approve a pending stage
+}
+
+export interface StageDecision {
+  completed: boolean; // true when the record is now fully approved or rejected
+  stage: WorkflowStage;
+  progress: WorkflowProgress;
+}
+
+export type AssignmentMode = 'manual' | 'round_robin' | 'least_loaded';
+
+export type AssignmentMethod = 'CLAIM' | 'ROUND_ROBIN' | 'LEAST_LOADED' | 'REASSIGN';
+
+export type AssignmentStatus = 'ACTIVE' | 'RELEASED' | 'EXPIRED' | 'COMPLETED';
+
+export interface ReviewAssignment {
+  id: string;
+  entity_type: WorkflowEntityType;
+  entity_id: string;
+  assigned_to: string;
+  assigned_by: string | null;
+  method: AssignmentMethod;
+  status: AssignmentStatus;
+  assigned_at: string;
+  expires_at: string;
+  ended_at: string | null;
+  assignee?: { full_name: string } | null;
+}
+
+/**
+ * Who may take the review of a record: the roles of its pending stages, less the users
+ * who already approved it
+ */
+export interface AssignmentEligibility {
+  roles: string[];
+  excluded_user_ids: string[];
+  submitted_by: string | null; // never assigned their own record automatically
+}
+
+export interface ApproverLoad {
+  id: string;
+  full_name: string;
+  role: string;
+  active_items: number;
+}
+
+export type ReviewQueueView = 'mine' | 'unassigned' | 'all';
+
+export type EscalationAction = 'NOTIFY' | 'REASSIGN';
+
+export interface SlaTarget {
+  id: string | null; // null when no target is set for the entity type
+  entity_type: WorkflowEntityType;
+  target_hours: number | null;
+  warning_percent: number;
+  escalation_action: EscalationAction;
+  supervisor_id: string | null; // null notifies all administrators
+  is_active: boolean;
+  updated_at: string | null;
+  supervisor?: { full_name: string } | null;
+}
+
+export interface SlaTargetInput {
+  target_hours: number;
+  warning_percent: number;
+  escalation_action: EscalationAction;
+  supervisor_id: string | null;
+  is_active: boolean;
+}
+
+export type SlaState = 'ON_TRACK' | 'AT_RISK' | 'BREACHED';
+
+export interface SlaStatus {
+  hours_pending: number;
+  target_hours: number | null;
+  due_at: string | null;
+  state: SlaState | null; // null without an active target
+}
+
+export interface EscalationSummary {
+  checked: number;
+  escalated: number;
+  reassigned: number;
+  failed: number;
+}
+
+export interface DecisionTurnaround {
+  acted_by: string;
+  action: 'APPROVE' | 'REJECT';
+  acted_at: string;
+  hours: number; // from the stage becoming pending to the decision
+}
+
+export interface TurnaroundStats {
+  decisions: number;
+  approvals: number;
+  rejections: number;
+  average_hours: number;
+  median_hours: number;
+  p90_hours: number;
+  max_hours: number;
+}
+
+export interface ApproverTurnaround extends TurnaroundStats {
+  user_id: string;
+  full_name: string;
+}
+
+export interface TurnaroundReport {
+  from: string;
+  to: string;
+  entity_type: WorkflowEntityType | null;
+  overall: TurnaroundStats;
+  approvers: ApproverTurnaround[];
+}
+
+export interface TurnaroundFilters {
+  from: string;
+  to: string;
+  entity_type?: WorkflowEntityType;
+}
+
+/**
+ * The current owner of a property; the type and share are missing from older snapshots
+ */
+export interface RecordSnapshotOwner {
+  customer_id: string;
+  reference_id: string | null;
+  ownership_type?: string;
+  ownership_percentage?: number | null;
+}
+
+export interface RecordSnapshot {
+  record: Record<string, unknown>;
+  details?: Record<string, unknown> | null; // customer type-specific row
+  boundaries?: Record<string, unknown> | null; // property boundaries
+  owner?: RecordSnapshotOwner | null; // current property owner
+}
+
+export type ChangeSetStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface RecordChangeSet {
+  id: string;
+  entity_type: WorkflowEntityType;
+  entity_id: string;
+  snapshot: RecordSnapshot;
+  status: ChangeSetStatus;
+  created_by: string | null;
+  created_at: string;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  editor?: { full_name: string } | null;
+}
+
+export type ChangeSection = 'record' | 'details' | 'boundaries' | 'owner';
+
+export interface FieldChange {
+  section: ChangeSection;
+  field: string;
+  label: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+export interface ReviewChanges {
+  change_set_id: string;
+  edited_by: string | null;
+  edited_by_name: string | null;
+  edited_at: string;
+  changes: FieldChange[];
+}
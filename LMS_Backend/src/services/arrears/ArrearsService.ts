@@ -0,0 +1,388 @@
+/**
+ * Arrears Service - Aging of outstanding tax across all years
+ *
+ * Every open assessment past its due date is put in an aging bucket by the number of days
+ * since it fell due, and totalled per district, sub-district, property type or customer
+ * type. The customer type is that of the current owner (a co-owner when the property has
+ * none). Drilling down lists the assessments behind one group and bucket.
+ *
+ * The debt of a property is the balance of all its open assessments across the years;
+ * new assessments record the part of it from earlier years when they are created.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { CUSTOMER_NAME_SELECT, getCustomerName } from '../../utils/customerName';
+import { AGING_BUCKETS, addToAmounts, agingBucket, daysPastDue, emptyAmounts, roundAmount } from './agingBuckets';
+import { sortOldestFirst } from './debtAllocation';
+import {
+  AgedAssessment,
+  AgingDrillDownOptions,
+  AgingFilters,
+  AgingGroup,
+  AgingGroupBy,
+  AgingReport,
+  DebtAssessment,
+  PriorBalance,
+  PropertyDebt,
+} from './types';
+
+const PAGE_SIZE = 1000;
+const PROPERTY_BATCH_SIZE = 200;
+
+const OPEN_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+
+const ASSESSMENT_SELECT = `
+  id,
+  reference_id,
+  tax_year,
+  status,
+  due_date,
+  outstanding_amount,
+  property_type,
+  property_id,
+  properties!inner(
+    reference_id,
+    parcel_number,
+    district_id,
+    sub_district_id,
+    districts(name),
+    sub_districts(name),
+    property_types(name)
+  )
+`;
+
+const DEBT_SELECT = `
+  id,
+  reference_id,
+  tax_year,
+  status,
+  due_date,
+  assessed_amount,
+  penalty_amount,
+  paid_amount,
+  outstanding_amount,
+  arrears_brought_forward
+`;
+
+const NOT_SET_LABELS: Record<AgingGroupBy, string> = {
+  DISTRICT: 'No District',
+  SUB_DISTRICT: 'No Sub-district',
+  PROPERTY_TYPE: 'No Property Type',
+  CUSTOMER_TYPE: 'No Owner',
+};
+
+const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+const toDebtAssessment = (row: any): DebtAssessment => ({
+  id: row.id,
+  reference_id: row.reference_id,
+  tax_year: row.tax_year,
+  status: row.status,
+  due_date: row.due_date,
+  assessed_amount: Number(row.assessed_amount) || 0,
+  penalty_amount: Number(row.penalty_amount) || 0,
+  paid_amount: Number(row.paid_amount) || 0,
+  outstanding_amount: Number(row.outstanding_amount) || 0,
+  arrears_brought_forward: Number(row.arrears_brought_forward) || 0,
+});
+
+const isOpen = (assessment: { status: string; outstanding_amount: number }): boolean =>
+  OPEN_STATUSES.includes(assessment.status) && assessment.outstanding_amount > 0;
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Key and label of the group an assessment belongs to
+ */
+const groupOf = (assessment: AgedAssessment, groupBy: AgingGroupBy): { key: string | null; label: string } => {
+  const { property, owner } = assessment;
+
+  switch (groupBy) {
+    case 'DISTRICT':
+      return { key: property.district_id, label: property.district || NOT_SET_LABELS.DISTRICT };
+    case 'SUB_DISTRICT':
+      return {
+        key: property.sub_district_id,
+        label: property.sub_district
+          ? `${property.sub_district}${property.district ? ` (${property.district})` : ''}`
+          : NOT_SET_LABELS.SUB_DISTRICT,
+      };
+    case 'PROPERTY_TYPE':
+      return { key: property.property_type, label: property.property_type || NOT_SET_LABELS.PROPERTY_TYPE };
+    case 'CUSTOMER_TYPE':
+      return { key: owner?.customer_type || null, label: owner?.customer_type || NOT_SET_LABELS.CUSTOMER_TYPE };
+  }
+};
+
+export class ArrearsService {
+  async getAgingReport(groupBy: AgingGroupBy, filters: AgingFilters = {}): Promise<AgingReport> {
+    const asOf = today();
+    const assessments = await this.getAgedAssessments(filters, asOf);
+
+    const totals = emptyAmounts();
+    const groups = new Map<string, AgingGroup>();
+
+    for (const assessment of assessments) {
+      addToAmounts(totals, assessment.bucket, assessment.outstanding_amount);
+
+      const { key, label } = groupOf(assessment, groupBy);
+      const mapKey = key ?? '';
+      const group = groups.get(mapKey) || { key, label, ...emptyAmounts() };
+      addToAmounts(group, assessment.bucket, assessment.outstanding_amount);
+      groups.set(mapKey, group);
+    }
+
+    return {
+      as_of: asOf,
+      group_by: groupBy,
+      buckets: AGING_BUCKETS,
+      totals,
+      groups: Array.from(groups.values()).sort((a, b) => b.outstanding - a.outstanding),
+    };
+  }
+
+  /**
+   * Assessments behind a group and/or bucket of the report, oldest arrears first
+   */
+  async getAgingAssessments(options: AgingDrillDownOptions) {
+    const { group_by, group_key, bucket, page = 1, limit = 50, ...filters } = options;
+    const asOf = today();
+
+    let assessments = await this.getAgedAssessments(filters, asOf);
+
+    if (group_by && group_key !== undefined) {
+      assessments = assessments.filter((assessment) => groupOf(assessment, group_by).key === (group_key || null));
+    }
+
+    if (bucket) {
+      assessments = assessments.filter((assessment) => assessment.bucket === bucket);
+    }
+
+    assessments.sort((a, b) => b.days_past_due - a.days_past_due || b.outstanding_amount - a.outstanding_amount);
+
+    const from = (page - 1) * limit;
+
+    return {
+      data: assessments.slice(from, from + limit),
+      meta: {
+        as_of: asOf,
+        page,
+        limit,
+        total: assessments.length,
+        totalPages: Math.ceil(assessments.length / limit),
+      },
+    };
+  }
+
+  /**
+   * Tax history of a property and what it owes across all years
+   */
+  async getPropertyDebt(propertyId: string): Promise<PropertyDebt> {
+    const { data, error } = await supabase
+      .from('tax_assessments')
+      .select(DEBT_SELECT)
+      .eq('property_id', propertyId)
+      .not('is_archived', 'is', true)
+      .order('tax_year', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    const history = (data || []).map(toDebtAssessment);
+    const openAssessments = sortOldestFirst(history.filter(isOpen));
+
+    return {
+      property_id: propertyId,
+      total_outstanding: roundAmount(openAssessments.reduce((sum, assessment) => sum + assessment.outstanding_amount, 0)),
+      open_assessments: openAssessments,
+      history,
+    };
+  }
+
+  /**
+   * What a new assessment of the tax year brings forward from earlier years, per property:
+   * the latest earlier assessment and the open balances of all earlier years
+   */
+  async getPriorBalances(taxYear: number, propertyIds?: string[]): Promise<Map<string, PriorBalance>> {
+    const rows: any[] = [];
+
+    if (propertyIds) {
+      const uniqueIds = [...new Set(propertyIds)];
+      for (let i = 0; i < uniqueIds.length; i += PROPERTY_BATCH_SIZE) {
+        rows.push(...(await this.fetchPriorAssessments(taxYear, uniqueIds.slice(i, i + PROPERTY_BATCH_SIZE))));
+      }
+    } else {
+      rows.push(...(await this.fetchPriorAssessments(taxYear)));
+    }
+
+    const balances = new Map<string, PriorBalance & { latest_year: number }>();
+
+    for (const row of rows) {
+      const balance = balances.get(row.property_id) || {
+        previous_assessment_id: null,
+        latest_year: 0,
+        arrears_brought_forward: 0,
+        arrears_details: [],
+      };
+
+      if (row.tax_year > balance.latest_year) {
+        balance.previous_assessment_id = row.id;
+        balance.latest_year = row.tax_year;
+      }
+
+      const outstanding = Number(row.outstanding_amount) || 0;
+      if (!row.is_archived && isOpen({ status: row.status, outstanding_amount: outstanding })) {
+        balance.arrears_brought_forward = roundAmount(balance.arrears_brought_forward + outstanding);
+        balance.arrears_details.push({
+          assessment_id: row.id,
+          reference_id: row.reference_id,
+          tax_year: row.tax_year,
+          outstanding_amount: outstanding,
+        });
+      }
+
+      balances.set(row.property_id, balance);
+    }
+
+    return new Map(
+      Array.from(balances.entries()).map(([propertyId, { latest_year, ...balance }]) => [
+        propertyId,
+        { ...balance, arrears_details: balance.arrears_details.sort((a, b) => a.tax_year - b.tax_year) },
+      ])
+    );
+  }
+
+  private async fetchPriorAssessments(taxYear: number, propertyIds?: string[]): Promise<any[]> {
+    const assessments: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('tax_assessments')
+        .select('id, reference_id, property_id, tax_year, status, outstanding_amount, is_archived')
+        .lt('tax_year', taxYear);
+
+      if (propertyIds) {
+        query = query.in('property_id', propertyIds);
+      }
+
+      const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      assessments.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return assessments;
+  }
+
+  private async getAgedAssessments(filters: AgingFilters, asOf: string): Promise<AgedAssessment[]> {
+    const rows = await this.fetchAssessments(filters, asOf);
+    const owners = await this.getOwners(rows.map((row) => row.property_id));
+
+    const assessments: AgedAssessment[] = [];
+
+    for (const row of rows) {
+      const days = daysPastDue(row.due_date, asOf);
+      const bucket = agingBucket(days);
+      if (!bucket) continue;
+
+      const property = single(row.properties) || {};
+      const owner = owners.get(row.property_id) || null;
+      const propertyType = single(property.property_types)?.name || row.property_type || null;
+
+      if (filters.property_type && propertyType !== filters.property_type) continue;
+      if (filters.customer_type && owner?.customer_type !== filters.customer_type) continue;
+
+      assessments.push({
+        id: row.id,
+        reference_id: row.reference_id,
+        tax_year: row.tax_year,
+        status: row.status,
+        due_date: row.due_date,
+        days_past_due: days,
+        bucket,
+        outstanding_amount: Number(row.outstanding_amount),
+        property: {
+          id: row.property_id,
+          reference_id: property.reference_id,
+          parcel_number: property.parcel_number,
+          district_id: property.district_id || null,
+          district: single(property.districts)?.name || null,
+          sub_district_id: property.sub_district_id || null,
+          sub_district: single(property.sub_districts)?.name || null,
+          property_type: propertyType,
+        },
+        owner,
+      });
+    }
+
+    return assessments;
+  }
+
+  private async fetchAssessments(filters: AgingFilters, asOf: string): Promise<any[]> {
+    const assessments: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('tax_assessments')
+        .select(ASSESSMENT_SELECT)
+        .in('status', OPEN_STATUSES)
+        .gt('outstanding_amount', 0)
+        .lte('due_date', asOf)
+        .not('is_archived', 'is', true);
+
+      if (filters.tax_year) {
+        query = query.eq('tax_year', filters.tax_year);
+      }
+
+      if (filters.district_id) {
+        query = query.eq('properties.district_id', filters.district_id);
+      }
+
+      if (filters.sub_district_id) {
+        query = query.eq('properties.sub_district_id', filters.sub_district_id);
+      }
+
+      const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      assessments.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return assessments;
+  }
+
+  /**
+   * Current owner of each property, or its first co-owner when it has no owner
+   */
+  private async getOwners(propertyIds: string[]): Promise<Map<string, AgedAssessment['owner']>> {
+    const owners = new Map<string, AgedAssessment['owner']>();
+    const ownerFound = new Set<string>();
+    const uniqueIds = [...new Set(propertyIds)];
+
+    for (let i = 0; i < uniqueIds.length; i += PROPERTY_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('property_ownership')
+        .select(`property_id, ownership_type, customers(${CUSTOMER_NAME_SELECT})`)
+        .in('property_id', uniqueIds.slice(i, i + PROPERTY_BATCH_SIZE))
+        .in('ownership_type', ['OWNER', 'CO_OWNER'])
+        .eq('is_current', true);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const row of (data || []) as any[]) {
+        const customer = single(row.customers);
+        if (!customer || ownerFound.has(row.property_id)) continue;
+        if (row.ownership_type !== 'OWNER' && owners.has(row.property_id)) continue;
+
+        if (row.ownership_type === 'OWNER') ownerFound.add(row.property_id);
+        owners.set(row.property_id, { name: getCustomerName(customer), customer_type: customer.customer_type || null });
+      }
+    }
+
+    return owners;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Aging Buckets - Days past due and the aging bucket they fall in
+ *
+ * Days are counted from the due date to the report date, both as calendar dates, so an
+ * assessment due today is 0 days past due. Amounts not yet due are not arrears.
+ */
+
+import { AgingAmounts, AgingBucket, AgingBucketKey } from './types';
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  { key: 'DAYS_0_30', label: '0-30 days', min_days: 0, max_days: 30 },
+  { key: 'DAYS_31_90', label: '31-90 days', min_days: 31, max_days: 90 },
+  { key: 'DAYS_91_180', label: '91-180 days', min_days: 91, max_days: 180 },
+  { key: 'DAYS_OVER_180', label: 'Over 180 days', min_days: 181, max_days: null },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: string): number => Date.parse(`${value.slice(0, 10)}T00:00:00Z`);
+
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const daysPastDue = (dueDate: string, asOf: string): number =>
+  Math.round((toDate(asOf) - toDate(dueDate)) / DAY_MS);
+
+/**
+ * Bucket of an amount that is the given number of days past due; null when not yet due
+ */
+export const agingBucket = (days: number): AgingBucketKey | null => {
+  if (days < 0) return null;
+
+  const bucket = AGING_BUCKETS.find((b) => days >= b.min_days && (b.max_days === null || days <= b.max_days));
+  return bucket ? bucket.key : null;
+};
+
+export const emptyAmounts = (): AgingAmounts => ({
+  count: 0,
+  outstanding: 0,
+  buckets: { DAYS_0_30: 0, DAYS_31_90: 0, DAYS_91_180: 0, DAYS_OVER_180: 0 },
+});
+
+export const addToAmounts = (amounts: AgingAmounts, bucket: AgingBucketKey, outstanding: number): void => {
+  amounts.count += 1;
+  amounts.outstanding = roundAmount(amounts.outstanding + outstanding);
+  amounts.buckets[bucket] = roundAmount(amounts.buckets[bucket] + outstanding);
+};
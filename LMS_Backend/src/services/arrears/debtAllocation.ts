@@ -0,0 +1,36 @@
+/**
+ * Debt Allocation - Splits a payment across the open assessments of a property
+ *
+ * The oldest tax year is paid first (earliest due date within a year), and an assessment
+ * is only credited once every older one is paid in full.
+ */
+
+import { roundAmount } from './agingBuckets';
+import { DebtAllocation } from './types';
+
+interface OpenBalance {
+  id: string;
+  tax_year: number;
+  due_date: string;
+  outstanding_amount: number;
+}
+
+export const sortOldestFirst = <T extends OpenBalance>(assessments: T[]): T[] =>
+  [...assessments].sort((a, b) => a.tax_year - b.tax_year || a.due_date.localeCompare(b.due_date));
+
+export const allocateOldestFirst = (assessments: OpenBalance[], amount: number): DebtAllocation[] => {
+  const allocations: DebtAllocation[] = [];
+  let remaining = roundAmount(amount);
+
+  for (const assessment of sortOldestFirst(assessments)) {
+    if (remaining <= 0) break;
+
+    const share = roundAmount(Math.min(remaining, Number(assessment.outstanding_amount)));
+    if (share <= 0) continue;
+
+    allocations.push({ assessment_id: assessment.id, amount: share });
+    remaining = roundAmount(remaining - share);
+  }
+
+  return allocations;
+};
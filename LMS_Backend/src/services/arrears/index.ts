@@ -0,0 +1,9 @@
+/**
+ * Arrears Module - Aging report of outstanding tax and the debt of properties across years
+ */
+
+export { ArrearsService } from './ArrearsService';
+export { AGING_BUCKETS, agingBucket, daysPastDue } from './agingBuckets';
+export { allocateOldestFirst, sortOldestFirst } from './debtAllocation';
+
+export * from './types';
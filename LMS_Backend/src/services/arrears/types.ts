@@ -0,0 +1,124 @@
+/**
+ * Types for the tax arrears aging report
+ */
+
+export type AgingBucketKey = 'DAYS_0_30' | 'DAYS_31_90' | 'DAYS_91_180' | 'DAYS_OVER_180';
+
+export type AgingGroupBy = 'DISTRICT' | 'SUB_DISTRICT' | 'PROPERTY_TYPE' | 'CUSTOMER_TYPE';
+
+export interface AgingBucket {
+  key: AgingBucketKey;
+  label: string;
+  min_days: number;
+  max_days: number | null;
+}
+
+export interface AgingFilters {
+  district_id?: string;
+  sub_district_id?: string;
+  property_type?: string;
+  customer_type?: string;
+  tax_year?: number;
+}
+
+export interface AgingAmounts {
+  count: number;
+  outstanding: number;
+  buckets: Record<AgingBucketKey, number>;
+}
+
+export interface AgingGroup extends AgingAmounts {
+  // Value to pass back as group_key when drilling down; null for the "not set" group
+  key: string | null;
+  label: string;
+}
+
+export interface AgingReport {
+  as_of: string;
+  group_by: AgingGroupBy;
+  buckets: AgingBucket[];
+  totals: AgingAmounts;
+  groups: AgingGroup[];
+}
+
+export interface AgingDrillDownOptions extends AgingFilters {
+  group_by?: AgingGroupBy;
+  group_key?: string | null;
+  bucket?: AgingBucketKey;
+  page?: number;
+  limit?: number;
+}
+
+export interface AgedAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  status: string;
+  due_date: string;
+  days_past_due: number;
+  bucket: AgingBucketKey;
+  outstanding_amount: number;
+  property: {
+    id: string;
+    reference_id: string;
+    parcel_number: string;
+    district_id: string | null;
+    district: string | null;
+    sub_district_id: string | null;
+    sub_district: string | null;
+    property_type: string | null;
+  };
+  owner: {
+    name: string;
+    customer_type: string | null;
+  } | null;
+}
+
+export interface DebtAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  status: string;
+  due_date: string;
+  assessed_amount: number;
+  penalty_amount: number;
+  paid_amount: number;
+  outstanding_amount: number;
+  arrears_brought_forward: number;
+}
+
+export interface PropertyDebt {
+  property_id: string;
+  total_outstanding: number;
+  // Open assessments with a balance, in the order payments are allocated to them
+  open_assessments: DebtAssessment[];
+  // Every assessment of the property, latest year first
+  history: DebtAssessment[];
+}
+
+export interface PriorBalance {
+  previous_assessment_id: string | null;
+  arrears_brought_forward: number;
+  arrears_details: Array<{ assessment_id: string; reference_id: string; tax_year: number; outstanding_amount: number }>;
+}
+
+export interface DebtAllocation {
+  assessment_id: string;
+  amount: number;
+}
+
+/**
+ * Share of a split payment that could not be recorded
+ */
+export interface UnrecordedAllocation extends DebtAllocation {
+  reference_id: string;
+  error: string;
+}
+
+export interface AllocatedPaymentResult {
+  allocation_id: string;
+  total_paid: number; // sum of the recorded entries
+  unrecorded_amount: number;
+  payments: any[];
+  unrecorded: UnrecordedAllocation[];
+}
@@ -0,0 +1,453 @@
+/**
+ * Bank Statement Service - Import bank statements and reconcile them against assessments
+ *
+ * Importing a statement stores its lines and proposes a match for every credit; a line
+ * already imported from an earlier statement is skipped by its fingerprint. Ambiguous and
+ * unmatched lines are assigned to an assessment by hand (or ignored), and matched lines
+ * are then posted as BANK_TRANSFER payments dated on the booking date.
+ */
+
+import { createHash } from 'crypto';
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { TaxService } from '../taxService';
+import { extractReferences, matchLines } from './bankMatching';
+import { parseStatement } from './parseStatement';
+import { BankImportSummary, BankPostingResult, MatchCandidate, ParsedStatementLine } from './types';
+
+const OPEN_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+
+const ASSESSMENT_SELECT = `
+  id,
+  reference_id,
+  tax_year,
+  status,
+  outstanding_amount,
+  properties(reference_id, parcel_number)
+`;
+
+// Batch size of .in() filters, keeping request URLs short
+const CHUNK_SIZE = 200;
+
+const chunk = <T>(items: T[]): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Fingerprint of a bank line; identical bookings on the same day are told apart by
+ * their occurrence within the file
+ */
+const fingerprintLine = (account: string | null, line: ParsedStatementLine, occurrence: number): string =>
+  createHash('sha256')
+    .update([
+      account || '',
+      line.booking_date,
+      line.amount.toFixed(2),
+      line.bank_reference || '',
+      line.counterparty || '',
+      line.narrative,
+      occurrence,
+    ].join('|'))
+    .digest('hex');
+
+export class BankStatementService {
+  private taxService = new TaxService();
+
+  async importStatement(file: { originalname: string; buffer: Buffer }, userId: string): Promise<BankImportSummary> {
+    const statement = parseStatement(file.buffer.toString('utf8'));
+
+    const occurrences = new Map<string, number>();
+    const fingerprinted = statement.lines.map((line) => {
+      const key = fingerprintLine(statement.account, line, 0);
+      const occurrence = occurrences.get(key) || 0;
+      occurrences.set(key, occurrence + 1);
+      return { line, fingerprint: occurrence === 0 ? key : fingerprintLine(statement.account, line, occurrence) };
+    });
+
+    const existing = new Set<string>();
+    for (const fingerprints of chunk(fingerprinted.map((entry) => entry.fingerprint))) {
+      const { data, error } = await supabase
+        .from('bank_statement_lines')
+        .select('fingerprint')
+        .in('fingerprint', fingerprints);
+
+      if (error) throw new AppError(error.message, 500);
+      (data || []).forEach((row: any) => existing.add(row.fingerprint));
+    }
+
+    const fresh = fingerprinted.filter((entry) => !existing.has(entry.fingerprint));
+    if (fresh.length === 0) {
+      throw new AppError('Every line of this statement has already been imported', 409);
+    }
+
+    const lines = fresh.map((entry) => entry.line);
+    const { candidates, receiptAssessments } = await this.loadCandidates(lines);
+    const matches = matchLines(lines, candidates, receiptAssessments);
+
+    const { data: created, error: importError } = await supabase
+      .from('bank_statement_imports')
+      .insert({
+        filename: file.originalname,
+        format: statement.format,
+        account: statement.account,
+        line_count: fresh.length,
+        duplicate_count: existing.size,
+        imported_by: userId,
+      })
+      .select()
+      .single();
+
+    if (importError) throw new AppError(importError.message, 500);
+
+    const { error: linesError } = await supabase.from('bank_statement_lines').insert(
+      fresh.map((entry, index) => ({
+        import_id: created.id,
+        ...entry.line,
+        fingerprint: entry.fingerprint,
+        ...matches[index],
+      }))
+    );
+
+    if (linesError) {
+      await supabase.from('bank_statement_imports').delete().eq('id', created.id);
+      if (linesError.code === '23505') {
+        throw new AppError('This statement is being imported by someone else', 409);
+      }
+      throw new AppError(linesError.message, 500);
+    }
+
+    const count = (status: string) => matches.filter((match) => match.status === status).length;
+
+    return {
+      import_id: created.id,
+      format: statement.format,
+      lines: fresh.length,
+      duplicates: existing.size,
+      matched: count('MATCHED'),
+      ambiguous: count('AMBIGUOUS'),
+      unmatched: count('UNMATCHED'),
+      ignored: count('IGNORED'),
+    };
+  }
+
+  async getImports() {
+    const { data, error } = await supabase
+      .from('bank_statement_imports')
+      .select('*, importer:users!bank_statement_imports_imported_by_fkey(full_name), lines:bank_statement_lines(status, amount)')
+      .order('created_at', { ascending: false })
+      .limit(200);
+
+    if (error) throw new AppError(error.message, 500);
+
+    // Replace the lines with a count per status
+    return (data || []).map(({ lines, ...statement }: any) => {
+      const status_counts: Record<string, number> = {};
+      (lines || []).forEach((line: any) => {
+        status_counts[line.status] = (status_counts[line.status] || 0) + 1;
+      });
+      return { ...statement, status_counts };
+    });
+  }
+
+  /**
+   * An import with its lines, the proposed or assigned assessment of each line and the
+   * assessments an ambiguous line could belong to
+   */
+  async getImport(id: string) {
+    const { data: statement, error } = await supabase
+      .from('bank_statement_imports')
+      .select('*, importer:users!bank_statement_imports_imported_by_fkey(full_name)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!statement) throw new AppError('Bank statement import not found', 404);
+
+    const { data: lines, error: linesError } = await supabase
+      .from('bank_statement_lines')
+      .select(`
+        *,
+        assessment:tax_assessments(${ASSESSMENT_SELECT}),
+        payment:tax_payments(id, receipt_number),
+        resolver:users!bank_statement_lines_resolved_by_fkey(full_name)
+      `)
+      .eq('import_id', id)
+      .order('line_number', { ascending: true });
+
+    if (linesError) throw new AppError(linesError.message, 500);
+
+    const candidateIds = Array.from(new Set((lines || []).flatMap((line: any) => line.candidate_assessment_ids || [])));
+    const candidates = new Map<string, any>();
+    for (const ids of chunk(candidateIds)) {
+      const { data, error: candidatesError } = await supabase
+        .from('tax_assessments')
+        .select(ASSESSMENT_SELECT)
+        .in('id', ids);
+
+      if (candidatesError) throw new AppError(candidatesError.message, 500);
+      (data || []).forEach((assessment: any) => candidates.set(assessment.id, assessment));
+    }
+
+    return {
+      ...statement,
+      lines: (lines || []).map((line: any) => ({
+        ...line,
+        amount: Number(line.amount),
+        candidates: (line.candidate_assessment_ids || [])
+          .map((candidateId: string) => candidates.get(candidateId))
+          .filter(Boolean),
+      })),
+    };
+  }
+
+  /**
+   * Record the matched lines of an import as payments; a line that cannot be posted
+   * (e.g. the balance was paid at the counter meanwhile) stays matched and is reported
+   */
+  async postLines(importId: string, lineIds: string[] | undefined, userId: string): Promise<BankPostingResult> {
+    let query = supabase
+      .from('bank_statement_lines')
+      .select('*, import:bank_statement_imports(filename)')
+      .eq('import_id', importId)
+      .eq('status', 'MATCHED');
+
+    if (lineIds && lineIds.length > 0) {
+      query = query.in('id', lineIds);
+    }
+
+    const { data: lines, error } = await query.order('line_number', { ascending: true });
+
+    if (error) throw new AppError(error.message, 500);
+    if (!lines || lines.length === 0) {
+      throw new AppError('There are no matched lines to post', 400);
+    }
+
+    const result: BankPostingResult = { posted: 0, failed: [] };
+
+    for (const line of lines) {
+      // Claim the line so that it is not posted twice
+      const { data: claimed, error: claimError } = await supabase
+        .from('bank_statement_lines')
+        .update({ status: 'POSTED', resolved_by: userId, resolved_at: new Date().toISOString() })
+        .eq('id', line.id)
+        .eq('status', 'MATCHED')
+        .select('id')
+        .maybeSingle();
+
+      if (claimError || !claimed) {
+        result.failed.push({ line_id: line.id, line_number: line.line_number, error: 'The line is no longer matched' });
+        continue;
+      }
+
+      try {
+        const notes = [
+          `Bank statement ${line.import.filename} line ${line.line_number}`,
+          line.bank_reference ? `ref ${line.bank_reference}` : null,
+          line.counterparty,
+        ].filter(Boolean).join(', ');
+
+        const payment = await this.taxService.recordPayment(
+          line.assessment_id,
+          {
+            payment_date: line.booking_date,
+            amount_paid: Number(line.amount),
+            payment_method: 'BANK_TRANSFER',
+            notes,
+          },
+          userId
+        );
+
+        await supabase.from('bank_statement_lines').update({ payment_id: payment.id }).eq('id', line.id);
+        result.posted++;
+      } catch (postError: any) {
+        await supabase
+          .from('bank_statement_lines')
+          .update({ status: 'MATCHED', resolved_by: line.resolved_by, resolved_at: line.resolved_at })
+          .eq('id', line.id);
+        result.failed.push({ line_id: line.id, line_number: line.line_number, error: postError.message });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Assign an ambiguous, unmatched or ignored credit line to an open assessment
+   */
+  async assignLine(lineId: string, assessmentId: string, userId: string) {
+    const line = await this.getLineRow(lineId);
+
+    if (line.status === 'POSTED') {
+      throw new AppError('This line has already been posted', 400);
+    }
+    if (Number(line.amount) <= 0) {
+      throw new AppError('Only credit lines can be assigned to an assessment', 400);
+    }
+
+    const { data: assessment, error } = await supabase
+      .from('tax_assessments')
+      .select('id, reference_id, status, outstanding_amount, is_archived')
+      .eq('id', assessmentId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!assessment) throw new AppError('Tax assessment not found', 404);
+
+    if (assessment.is_archived || !OPEN_STATUSES.includes(assessment.status)) {
+      throw new AppError(`${assessment.reference_id} is not open for payment`, 400);
+    }
+
+    const pending = await this.getPendingAmounts([assessment.id], lineId);
+    const available = Number(assessment.outstanding_amount) - (pending.get(assessment.id) || 0);
+    if (Number(line.amount) > available + 0.005) {
+      throw new AppError(
+        `The line amount exceeds the ${Math.max(available, 0).toFixed(2)} still open on ${assessment.reference_id}`,
+        400
+      );
+    }
+
+    return this.resolveLine(lineId, {
+      status: 'MATCHED',
+      assessment_id: assessment.id,
+      match_reason: `Assigned manually to ${assessment.reference_id}`,
+    }, userId);
+  }
+
+  async ignoreLine(lineId: string, reason: string, userId: string) {
+    const line = await this.getLineRow(lineId);
+
+    if (line.status === 'POSTED') {
+      throw new AppError('This line has already been posted', 400);
+    }
+
+    return this.resolveLine(lineId, { status: 'IGNORED', assessment_id: null, match_reason: reason }, userId);
+  }
+
+  /**
+   * Open assessments named by the lines, with their balance less what earlier imports
+   * have already matched, and the assessment of every receipt the lines name
+   */
+  private async loadCandidates(lines: ParsedStatementLine[]) {
+    const references = lines.map(extractReferences);
+    const receipts = Array.from(new Set(references.flatMap((reference) => reference.receipts)));
+
+    const receiptAssessments = new Map<string, string>();
+    for (const numbers of chunk(receipts)) {
+      const { data, error } = await supabase
+        .from('tax_payments')
+        .select('receipt_number, assessment:tax_assessments(reference_id)')
+        .in('receipt_number', numbers);
+
+      if (error) throw new AppError(error.message, 500);
+      (data || []).forEach((payment: any) => {
+        const assessment = Array.isArray(payment.assessment) ? payment.assessment[0] : payment.assessment;
+        if (assessment) receiptAssessments.set(payment.receipt_number, assessment.reference_id);
+      });
+    }
+
+    const referenceIds = Array.from(new Set([
+      ...references.flatMap((reference) => reference.assessments),
+      ...receiptAssessments.values(),
+    ]));
+
+    const candidates = new Map<string, MatchCandidate>();
+    for (const ids of chunk(referenceIds)) {
+      const { data, error } = await supabase
+        .from('tax_assessments')
+        .select('id, reference_id, outstanding_amount')
+        .in('reference_id', ids)
+        .in('status', OPEN_STATUSES)
+        .eq('is_archived', false)
+        .gt('outstanding_amount', 0);
+
+      if (error) throw new AppError(error.message, 500);
+      (data || []).forEach((assessment: any) => {
+        candidates.set(assessment.reference_id, {
+          id: assessment.id,
+          reference_id: assessment.reference_id,
+          outstanding_amount: Number(assessment.outstanding_amount),
+        });
+      });
+    }
+
+    const pending = await this.getPendingAmounts(Array.from(candidates.values(), (candidate) => candidate.id));
+    candidates.forEach((candidate, reference) => {
+      const available = Math.round((candidate.outstanding_amount - (pending.get(candidate.id) || 0)) * 100) / 100;
+      if (available > 0) {
+        candidates.set(reference, { ...candidate, outstanding_amount: available });
+      } else {
+        candidates.delete(reference);
+      }
+    });
+
+    return { candidates, receiptAssessments };
+  }
+
+  /**
+   * Amount of matched but not yet posted lines per assessment
+   */
+  private async getPendingAmounts(assessmentIds: string[], excludeLineId?: string) {
+    const pending = new Map<string, number>();
+
+    for (const ids of chunk(assessmentIds)) {
+      let query = supabase
+        .from('bank_statement_lines')
+        .select('assessment_id, amount')
+        .eq('status', 'MATCHED')
+        .in('assessment_id', ids);
+
+      if (excludeLineId) {
+        query = query.neq('id', excludeLineId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw new AppError(error.message, 500);
+      (data || []).forEach((line: any) => {
+        pending.set(line.assessment_id, (pending.get(line.assessment_id) || 0) + Number(line.amount));
+      });
+    }
+
+    return pending;
+  }
+
+  private async getLineRow(id: string) {
+    const { data, error } = await supabase
+      .from('bank_statement_lines')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Bank statement line not found', 404);
+
+    return data;
+  }
+
+  private async resolveLine(
+    id: string,
+    changes: { status: string; assessment_id: string | null; match_reason: string },
+    userId: string
+  ) {
+    const { data, error } = await supabase
+      .from('bank_statement_lines')
+      .update({
+        ...changes,
+        resolved_by: userId,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .neq('status', 'POSTED')
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('This line has already been posted', 409);
+
+    return data;
+  }
+}
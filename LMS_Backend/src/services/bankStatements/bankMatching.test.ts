@@ -0,0 +1,116 @@
+import { describe, expect, it } from '@jest/globals';
+import { extractReferences, matchLines } from './bankMatching';
+import { MatchCandidate, ParsedStatementLine } from './types';
+
+const line = (narrative: string, amount: number, bankReference: string | null = null): ParsedStatementLine => ({
+  line_number: 1,
+  booking_date: '2025-03-01',
+  value_date: null,
+  amount,
+  currency: 'USD',
+  bank_reference: bankReference,
+  counterparty: null,
+  narrative,
+});
+
+const candidates = new Map<string, MatchCandidate>([
+  ['TAX-2025-00001', { id: 'a1', reference_id: 'TAX-2025-00001', outstanding_amount: 100 }],
+  ['TAX-2025-00002', { id: 'a2', reference_id: 'TAX-2025-00002', outstanding_amount: 50 }],
+]);
+
+const receipts = new Map<string, string>([
+  ['RCPT-2025-00010', 'TAX-2025-00002'],
+  ['RCPT-2024-00003', 'TAX-2024-00009'],
+]);
+
+describe('extractReferences', () => {
+  it('normalises references written with spaces, dashes or none', () => {
+    const references = extractReferences(line('tax 2025 00001 and TAX202500001, rcpt-2025-00010', 10, 'TAX-2025-00002'));
+
+    expect(references).toEqual({
+      assessments: ['TAX-2025-00001', 'TAX-2025-00002'],
+      receipts: ['RCPT-2025-00010'],
+    });
+  });
+});
+
+describe('matchLines', () => {
+  it('ignores debit lines', () => {
+    const [match] = matchLines([line('TAX-2025-00001', -20)], candidates, receipts);
+
+    expect(match).toEqual({ status: 'IGNORED', match_reason: 'Debit line', assessment_id: null, candidate_assessment_ids: [] });
+  });
+
+  it('matches a line naming one open assessment', () => {
+    const [match] = matchLines([line('Property tax', 100, 'TAX-2025-00001')], candidates, receipts);
+
+    expect(match).toEqual({
+      status: 'MATCHED',
+      match_reason: 'Reference TAX-2025-00001',
+      assessment_id: 'a1',
+      candidate_assessment_ids: [],
+    });
+  });
+
+  it('matches through the receipt of an earlier payment', () => {
+    const [match] = matchLines([line('Second part of RCPT 2025 00010', 50)], candidates, receipts);
+
+    expect(match).toMatchObject({
+      status: 'MATCHED',
+      match_reason: 'Receipt RCPT-2025-00010 of TAX-2025-00002',
+      assessment_id: 'a2',
+    });
+  });
+
+  it('prefers the assessment reference when the receipt names the same assessment', () => {
+    const [match] = matchLines([line('TAX-2025-00002 RCPT-2025-00010', 20)], candidates, receipts);
+
+    expect(match).toMatchObject({ status: 'MATCHED', match_reason: 'Reference TAX-2025-00002', assessment_id: 'a2' });
+  });
+
+  it('leaves a line naming several open assessments ambiguous', () => {
+    const [match] = matchLines([line('TAX-2025-00001 RCPT-2025-00010', 20)], candidates, receipts);
+
+    expect(match).toEqual({
+      status: 'AMBIGUOUS',
+      match_reason: 'Names several open assessments: TAX-2025-00001, TAX-2025-00002',
+      assessment_id: null,
+      candidate_assessment_ids: ['a1', 'a2'],
+    });
+  });
+
+  it('consumes the balance across lines so they cannot overpay together', () => {
+    const matches = matchLines(
+      [line('TAX-2025-00001', 60), line('TAX-2025-00001', 60), line('TAX-2025-00001', 40)],
+      candidates,
+      receipts
+    );
+
+    expect(matches.map((match) => match.status)).toEqual(['MATCHED', 'AMBIGUOUS', 'MATCHED']);
+    expect(matches[1]).toMatchObject({
+      match_reason: 'Amount exceeds the 40.00 open on TAX-2025-00001',
+      candidate_assessment_ids: ['a1'],
+    });
+  });
+
+  it('does not change the candidate balances it was given', () => {
+    matchLines([line('TAX-2025-00002', 50)], candidates, receipts);
+
+    expect(candidates.get('TAX-2025-00002')!.outstanding_amount).toBe(50);
+  });
+
+  it('explains why a line could not be matched', () => {
+    const matches = matchLines(
+      [line('Rent for March', 10), line('RCPT-2025-99999', 10), line('TAX-2024-00009', 10), line('RCPT-2024-00003', 10)],
+      candidates,
+      receipts
+    );
+
+    expect(matches.map((match) => [match.status, match.match_reason])).toEqual([
+      ['UNMATCHED', 'No assessment or receipt reference found'],
+      ['UNMATCHED', 'Unknown receipt RCPT-2025-99999'],
+      ['UNMATCHED', 'No open balance on TAX-2024-00009'],
+      ['UNMATCHED', 'No open balance on TAX-2024-00009'],
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Bank Matching - Match bank statement lines to open assessments
+ *
+ * A credit line matches when its narrative or bank reference names exactly one open
+ * assessment, either by its TAX-YYYY-NNNNN reference or by an RCPT-YYYY-NNNNN receipt
+ * of an earlier payment on it, and the amount fits the outstanding balance. Balances
+ * are consumed line by line, so two lines cannot together overpay an assessment.
+ */
+
+import { LineMatch, MatchCandidate, ParsedStatementLine } from './types';
+
+const ASSESSMENT_REFERENCE = /\bTAX[\s-]?(\d{4})[\s-]?(\d{5})\b/gi;
+const RECEIPT_REFERENCE = /\bRCPT[\s-]?(\d{4})[\s-]?(\d{5})\b/gi;
+
+export interface LineReferences {
+  assessments: string[];
+  receipts: string[];
+}
+
+const collect = (text: string, pattern: RegExp, prefix: string): string[] =>
+  Array.from(new Set(Array.from(text.matchAll(pattern), (match) => `${prefix}-${match[1]}-${match[2]}`)));
+
+/**
+ * Assessment and receipt references written anywhere on the line, normalised to
+ * their canonical form
+ */
+export const extractReferences = (line: ParsedStatementLine): LineReferences => {
+  const text = [line.narrative, line.bank_reference || ''].join(' ');
+  return {
+    assessments: collect(text, ASSESSMENT_REFERENCE, 'TAX'),
+    receipts: collect(text, RECEIPT_REFERENCE, 'RCPT'),
+  };
+};
+
+/**
+ * @param candidates open assessments by reference, with the balance still free for matching
+ * @param receiptAssessments assessment reference of each known receipt number
+ */
+export const matchLines = (
+  lines: ParsedStatementLine[],
+  candidates: Map<string, MatchCandidate>,
+  receiptAssessments: Map<string, string>
+): LineMatch[] => {
+  const remaining = new Map(
+    Array.from(candidates.values(), (candidate) => [candidate.id, candidate.outstanding_amount])
+  );
+
+  return lines.map((line): LineMatch => {
+    if (line.amount <= 0) {
+      return { status: 'IGNORED', match_reason: 'Debit line', assessment_id: null, candidate_assessment_ids: [] };
+    }
+
+    const references = extractReferences(line);
+    const sources = new Map<string, string>();
+    for (const reference of references.assessments) {
+      sources.set(reference, `Reference ${reference}`);
+    }
+    for (const receipt of references.receipts) {
+      const reference = receiptAssessments.get(receipt);
+      if (reference && !sources.has(reference)) sources.set(reference, `Receipt ${receipt} of ${reference}`);
+    }
+
+    if (sources.size === 0) {
+      const reason = references.receipts.length > 0
+        ? `Unknown receipt ${references.receipts.join(', ')}`
+        : 'No assessment or receipt reference found';
+      return { status: 'UNMATCHED', match_reason: reason, assessment_id: null, candidate_assessment_ids: [] };
+    }
+
+    const open = Array.from(sources.keys())
+      .map((reference) => candidates.get(reference))
+      .filter((candidate): candidate is MatchCandidate => candidate !== undefined);
+
+    if (open.length === 0) {
+      return {
+        status: 'UNMATCHED',
+        match_reason: `No open balance on ${Array.from(sources.keys()).join(', ')}`,
+        assessment_id: null,
+        candidate_assessment_ids: [],
+      };
+    }
+
+    if (open.length > 1) {
+      return {
+        status: 'AMBIGUOUS',
+        match_reason: `Names several open assessments: ${open.map((candidate) => candidate.reference_id).join(', ')}`,
+        assessment_id: null,
+        candidate_assessment_ids: open.map((candidate) => candidate.id),
+      };
+    }
+
+    const [candidate] = open;
+    const balance = remaining.get(candidate.id) || 0;
+    if (line.amount > balance + 0.005) {
+      return {
+        status: 'AMBIGUOUS',
+        match_reason: `Amount exceeds the ${balance.toFixed(2)} open on ${candidate.reference_id}`,
+        assessment_id: null,
+        candidate_assessment_ids: [candidate.id],
+      };
+    }
+
+    remaining.set(candidate.id, Math.round((balance - line.amount) * 100) / 100);
+    return {
+      status: 'MATCHED',
+      match_reason: sources.get(candidate.reference_id)!,
+      assessment_id: candidate.id,
+      candidate_assessment_ids: [],
+    };
+  });
+};
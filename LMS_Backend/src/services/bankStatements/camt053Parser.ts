@@ -0,0 +1,98 @@
+/**
+ * CAMT.053 Parser - ISO 20022 bank-to-customer statement XML
+ *
+ * Reads the account and every <Ntry> of the statement. Only the elements needed for
+ * matching are extracted, so namespace prefixes and unknown elements are ignored.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { collapseWhitespace, invalidLine, parseAmount, parseDate } from './parserUtils';
+import { ParsedStatement, ParsedStatementLine } from './types';
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(+code))
+    .replace(/&amp;/g, '&');
+
+/**
+ * Inner XML of every element with the given local name
+ */
+const elements = (xml: string, name: string): string[] => {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+};
+
+/**
+ * Text of the element reached by following the path of local names
+ */
+const text = (xml: string, ...path: string[]): string | null => {
+  let current: string | undefined = xml;
+  for (const name of path) {
+    current = elements(current, name)[0];
+    if (current === undefined) return null;
+  }
+  return collapseWhitespace(decodeXml(current.replace(/<[^>]+>/g, ' ')));
+};
+
+const attribute = (xml: string, name: string, attr: string): string | null => {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${name}\\s[^>]*${attr}="([^"]*)"`));
+  return match ? match[1] : null;
+};
+
+export const parseCamt053Statement = (xml: string): ParsedStatement => {
+  const statement = elements(xml, 'Stmt')[0];
+  if (statement === undefined) {
+    throw new AppError('The CAMT.053 file has no <Stmt> element', 400);
+  }
+
+  const accountXml = elements(statement, 'Acct')[0] || '';
+  const account = text(accountXml, 'Id', 'IBAN') || text(accountXml, 'Id', 'Othr', 'Id');
+
+  const lines: ParsedStatementLine[] = elements(statement, 'Ntry').map((entry, index) => {
+    const lineNumber = index + 1;
+
+    const amountText = text(entry, 'Amt');
+    const amount = amountText ? parseAmount(amountText) : NaN;
+    if (!Number.isFinite(amount)) throw invalidLine(lineNumber, 'unreadable <Amt>');
+
+    const direction = text(entry, 'CdtDbtInd');
+    if (direction !== 'CRDT' && direction !== 'DBIT') {
+      throw invalidLine(lineNumber, 'missing <CdtDbtInd>');
+    }
+
+    const bookingDate = parseDate(text(entry, 'BookgDt', 'Dt') || text(entry, 'BookgDt', 'DtTm') || '');
+    if (!bookingDate) throw invalidLine(lineNumber, 'unreadable <BookgDt>');
+
+    const details = elements(entry, 'TxDtls')[0] || entry;
+    const remittance = elements(details, 'RmtInf')[0] || '';
+    const narrative = [
+      ...elements(remittance, 'Ustrd').map((value) => decodeXml(value)),
+      ...elements(remittance, 'Ref').map((value) => decodeXml(value)),
+      text(entry, 'AddtlNtryInf') || '',
+    ];
+    // Credits come from the debtor, debits go to the creditor
+    const party = direction === 'CRDT' ? 'Dbtr' : 'Cdtr';
+
+    return {
+      line_number: lineNumber,
+      booking_date: bookingDate,
+      value_date: parseDate(text(entry, 'ValDt', 'Dt') || ''),
+      amount: direction === 'CRDT' ? amount : -amount,
+      currency: attribute(entry, 'Amt', 'Ccy'),
+      bank_reference: text(entry, 'AcctSvcrRef') || text(details, 'Refs', 'EndToEndId'),
+      counterparty: text(details, 'RltdPties', party, 'Nm') || text(details, 'RltdPties', party, 'Pty', 'Nm'),
+      narrative: collapseWhitespace(narrative.join(' ')),
+    };
+  });
+
+  if (lines.length === 0) {
+    throw new AppError('The CAMT.053 file has no <Ntry> entries', 400);
+  }
+
+  return { format: 'CAMT053', account, lines };
+};
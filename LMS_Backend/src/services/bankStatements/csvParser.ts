@@ -0,0 +1,127 @@
+/**
+ * CSV Parser - Bank statement exports in CSV
+ *
+ * The header row names the columns; common bank spellings are recognised. The amount
+ * is either one signed column or separate credit and debit columns. Files using a
+ * semicolon as delimiter are read with a decimal comma.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { collapseWhitespace, invalidLine, parseAmount, parseDate } from './parserUtils';
+import { ParsedStatement, ParsedStatementLine } from './types';
+
+const COLUMN_ALIASES = {
+  booking_date: ['booking date', 'transaction date', 'posting date', 'date'],
+  value_date: ['value date'],
+  amount: ['amount', 'transaction amount'],
+  credit: ['credit', 'credit amount', 'paid in', 'deposit', 'deposits'],
+  debit: ['debit', 'debit amount', 'paid out', 'withdrawal', 'withdrawals'],
+  narrative: ['description', 'narrative', 'details', 'transaction details', 'payment details', 'remittance information', 'memo'],
+  bank_reference: ['reference', 'bank reference', 'transaction reference', 'transaction id'],
+  counterparty: ['counterparty', 'payer', 'remitter', 'name'],
+  currency: ['currency', 'ccy'],
+};
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with embedded delimiters,
+ * quotes and line breaks
+ */
+export const parseCsvRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+export const parseCsvStatement = (text: string): ParsedStatement => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''), delimiter);
+
+  if (rows.length < 2) {
+    throw new AppError('The CSV file has no statement lines', 400);
+  }
+
+  const headers = rows[0].map((header) => collapseWhitespace(header).toLowerCase());
+  const columns: Partial<Record<Column, number>> = {};
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[Column, string[]]>) {
+    const index = aliases.map((alias) => headers.indexOf(alias)).find((position) => position >= 0);
+    if (index !== undefined) columns[column] = index;
+  }
+
+  if (columns.booking_date === undefined) {
+    throw new AppError('The CSV file needs a date column such as "Booking Date" or "Date"', 400);
+  }
+  if (columns.amount === undefined && columns.credit === undefined) {
+    throw new AppError('The CSV file needs an "Amount" column or "Credit" and "Debit" columns', 400);
+  }
+
+  const cell = (cells: string[], column: Column): string =>
+    columns[column] === undefined ? '' : (cells[columns[column]!] || '').trim();
+
+  const lines: ParsedStatementLine[] = rows.slice(1).map((cells, index) => {
+    const lineNumber = index + 2;
+    const bookingDate = parseDate(cell(cells, 'booking_date'));
+    if (!bookingDate) throw invalidLine(lineNumber, `unreadable date "${cell(cells, 'booking_date')}"`);
+
+    let amount: number;
+    if (columns.amount !== undefined && cell(cells, 'amount') !== '') {
+      amount = parseAmount(cell(cells, 'amount'), delimiter === ';');
+    } else {
+      const credit = cell(cells, 'credit') ? parseAmount(cell(cells, 'credit'), delimiter === ';') : 0;
+      const debit = cell(cells, 'debit') ? parseAmount(cell(cells, 'debit'), delimiter === ';') : 0;
+      amount = Math.abs(credit) - Math.abs(debit);
+    }
+    if (!Number.isFinite(amount)) throw invalidLine(lineNumber, 'unreadable amount');
+
+    return {
+      line_number: lineNumber,
+      booking_date: bookingDate,
+      value_date: parseDate(cell(cells, 'value_date')),
+      amount,
+      currency: cell(cells, 'currency').toUpperCase() || null,
+      bank_reference: cell(cells, 'bank_reference') || null,
+      counterparty: cell(cells, 'counterparty') || null,
+      narrative: collapseWhitespace(cell(cells, 'narrative')),
+    };
+  });
+
+  return { format: 'CSV', account: null, lines };
+};
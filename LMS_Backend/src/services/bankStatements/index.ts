@@ -0,0 +1,9 @@
+/**
+ * Bank Statements Module - Import of bank statements and reconciliation of their lines
+ */
+
+export { BankStatementService } from './BankStatementService';
+export { extractReferences, matchLines } from './bankMatching';
+export { detectStatementFormat, parseStatement } from './parseStatement';
+
+export * from './types';
@@ -0,0 +1,92 @@
+/**
+ * MT940 Parser - SWIFT MT940 customer statement messages
+ *
+ * Every :61: statement line is one booking, followed by an optional :86: field with
+ * the narrative. :25: holds the account. Amounts use a decimal comma.
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+import { collapseWhitespace, invalidLine, parseAmount, parseSwiftDate } from './parserUtils';
+import { ParsedStatement, ParsedStatementLine } from './types';
+
+// :61: value date, optional entry date, (reversal) credit/debit mark, optional funds code,
+// amount, transaction type, customer reference, optional //bank reference
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([A-Z]\w{3})?([^/\n]*)(?:\/\/(.*))?/;
+
+export const parseMt940Statement = (text: string): ParsedStatement => {
+  // Split into tagged fields; continuation lines belong to the preceding tag
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const rawLine of text.replace(/\r/g, '').split('\n')) {
+    const tagged = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && rawLine.trim() !== '' && !/^-\}?$/.test(rawLine.trim())) {
+      fields[fields.length - 1].value += `\n${rawLine}`;
+    }
+  }
+
+  let account: string | null = null;
+  let currency: string | null = null;
+  const lines: ParsedStatementLine[] = [];
+
+  for (const field of fields) {
+    if (field.tag === '25' && !account) {
+      account = field.value.trim();
+    } else if (field.tag === '60F' || field.tag === '60M') {
+      // Opening balance: C/D mark, date, currency
+      currency = field.value.trim().slice(7, 10) || currency;
+    } else if (field.tag === '61') {
+      const lineNumber = lines.length + 1;
+      const [firstLine, ...rest] = field.value.split('\n');
+      const match = firstLine.trim().match(STATEMENT_LINE);
+      if (!match) throw invalidLine(lineNumber, 'unreadable :61: field');
+
+      const valueDate = parseSwiftDate(match[1]);
+      if (!valueDate) throw invalidLine(lineNumber, 'unreadable value date');
+
+      // The entry date has no year; it belongs to the value date's year unless it wraps
+      let bookingDate = valueDate;
+      if (match[2]) {
+        let year = +valueDate.slice(0, 4);
+        const month = +match[2].slice(0, 2);
+        if (month === 12 && +valueDate.slice(5, 7) === 1) year--;
+        if (month === 1 && +valueDate.slice(5, 7) === 12) year++;
+        bookingDate = parseSwiftDate(`${String(year).slice(2)}${match[2]}`) || valueDate;
+      }
+
+      const amount = parseAmount(match[5], true);
+      // Debits and reversed credits take money out of the account
+      const isCredit = match[3] === 'C' || match[3] === 'RD';
+
+      lines.push({
+        line_number: lineNumber,
+        booking_date: bookingDate,
+        value_date: valueDate,
+        amount: isCredit ? amount : -amount,
+        currency,
+        bank_reference: (match[8] || '').trim() || (match[7] || '').trim() || null,
+        counterparty: null,
+        narrative: collapseWhitespace([(match[7] || '').replace(/^NONREF$/, ''), ...rest].join(' ')),
+      });
+    } else if (field.tag === '86' && lines.length > 0) {
+      const line = lines[lines.length - 1];
+      const info = field.value.replace(/\n/g, '');
+      // Structured :86: fields such as ?20..?29 remittance lines and ?32/?33 name
+      if (/^\d{3}\?/.test(info)) {
+        const parts = info.split('?').slice(1);
+        const remittance = parts.filter((part) => /^2\d/.test(part)).map((part) => part.slice(2));
+        const name = parts.filter((part) => /^3[23]/.test(part)).map((part) => part.slice(2));
+        line.narrative = collapseWhitespace([line.narrative, ...remittance].join(' '));
+        line.counterparty = collapseWhitespace(name.join(' ')) || null;
+      } else {
+        line.narrative = collapseWhitespace(`${line.narrative} ${field.value}`);
+      }
+    }
+  }
+
+  if (lines.length === 0) {
+    throw new AppError('The MT940 file has no :61: statement lines', 400);
+  }
+
+  return { format: 'MT940', account, lines };
+};
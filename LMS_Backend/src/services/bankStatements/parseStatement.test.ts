@@ -0,0 +1,185 @@
+import { describe, expect, it } from '@jest/globals';
+import { detectStatementFormat, parseStatement } from './parseStatement';
+
+const MT940 = [
+  ':20:STMT1',
+  ':25:NL91ABNA0417164300',
+  ':28C:1/1',
+  ':60F:C250301EUR1000,00',
+  ':61:2503010301C250,00NTRFNONREF//BANK123',
+  ':86:Payment TAX-2025-00001',
+  ':61:2503020302D10,5NCHGFEE',
+  ':86:Charges',
+  ':61:2501011231C75,NTRFNONREF',
+  ':86:166?00CREDIT?20TAX-2025-00002?21PROPERTY',
+  '?32JOHN DOE',
+  ':62F:C250302EUR1314,50',
+  '-',
+].join('\n');
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Acct><Id><IBAN>GB29NWBK60161331926819</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="USD">120.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2025-03-01</Dt></BookgDt>
+        <ValDt><Dt>2025-03-02</Dt></ValDt>
+        <AcctSvcrRef>SVC1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>Jane &amp; Co</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>TAX-2025-00001</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="USD">3.50</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><DtTm>2025-03-03T10:00:00</DtTm></BookgDt>
+        <AddtlNtryInf>Fee</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('detectStatementFormat', () => {
+  it('recognises MT940 and CAMT.053 and falls back to CSV', () => {
+    expect(detectStatementFormat(MT940)).toBe('MT940');
+    expect(detectStatementFormat(CAMT053)).toBe('CAMT053');
+    expect(detectStatementFormat('Date,Amount\n2025-03-01,10')).toBe('CSV');
+  });
+});
+
+describe('CSV statements', () => {
+  it('reads a signed amount column with quoted fields', () => {
+    const statement = parseStatement(
+      '\uFEFFDate,Description,Amount,Reference\r\n01/03/2025,"Payment TAX-2025-00001, thanks","1,250.50",REF1\r\n2025-03-02,Fee,-5.00,\r\n'
+    );
+
+    expect(statement).toEqual({
+      format: 'CSV',
+      account: null,
+      lines: [
+        {
+          line_number: 2,
+          booking_date: '2025-03-01',
+          value_date: null,
+          amount: 1250.5,
+          currency: null,
+          bank_reference: 'REF1',
+          counterparty: null,
+          narrative: 'Payment TAX-2025-00001, thanks',
+        },
+        {
+          line_number: 3,
+          booking_date: '2025-03-02',
+          value_date: null,
+          amount: -5,
+          currency: null,
+          bank_reference: null,
+          counterparty: null,
+          narrative: 'Fee',
+        },
+      ],
+    });
+  });
+
+  it('reads credit and debit columns with a decimal comma from semicolon files', () => {
+    const statement = parseStatement(
+      'Booking Date;Details;Credit;Debit;Currency\n01.03.2025;TAX-2025-00001;1.250,50;;usd\n02.03.2025;Charges;;12,30;usd'
+    );
+
+    expect(statement.lines.map((line) => [line.booking_date, line.amount, line.currency])).toEqual([
+      ['2025-03-01', 1250.5, 'USD'],
+      ['2025-03-02', -12.3, 'USD'],
+    ]);
+  });
+
+  it('rejects files without a date column or with an unreadable line', () => {
+    expect(() => parseStatement('Description,Amount\nRent,10')).toThrow('needs a date column');
+    expect(() => parseStatement('Date,Amount\n31/02/2025,10')).toThrow('Statement line 2: unreadable date "31/02/2025"');
+  });
+});
+
+describe('MT940 statements', () => {
+  it('reads every :61: booking with its :86: narrative', () => {
+    const statement = parseStatement(MT940);
+
+    expect(statement.format).toBe('MT940');
+    expect(statement.account).toBe('NL91ABNA0417164300');
+    expect(statement.lines).toEqual([
+      {
+        line_number: 1,
+        booking_date: '2025-03-01',
+        value_date: '2025-03-01',
+        amount: 250,
+        currency: 'EUR',
+        bank_reference: 'BANK123',
+        counterparty: null,
+        narrative: 'Payment TAX-2025-00001',
+      },
+      {
+        line_number: 2,
+        booking_date: '2025-03-02',
+        value_date: '2025-03-02',
+        amount: -10.5,
+        currency: 'EUR',
+        bank_reference: 'FEE',
+        counterparty: null,
+        narrative: 'FEE Charges',
+      },
+      {
+        line_number: 3,
+        booking_date: '2024-12-31',
+        value_date: '2025-01-01',
+        amount: 75,
+        currency: 'EUR',
+        bank_reference: 'NONREF',
+        counterparty: 'JOHN DOE',
+        narrative: 'TAX-2025-00002 PROPERTY',
+      },
+    ]);
+  });
+
+  it('rejects an unreadable :61: field', () => {
+    expect(() => parseStatement(':20:STMT1\n:61:\n')).toThrow('Statement line 1: unreadable :61: field');
+  });
+});
+
+describe('CAMT.053 statements', () => {
+  it('reads the account and every entry', () => {
+    const statement = parseStatement(CAMT053);
+
+    expect(statement.format).toBe('CAMT053');
+    expect(statement.account).toBe('GB29NWBK60161331926819');
+    expect(statement.lines).toEqual([
+      {
+        line_number: 1,
+        booking_date: '2025-03-01',
+        value_date: '2025-03-02',
+        amount: 120,
+        currency: 'USD',
+        bank_reference: 'SVC1',
+        counterparty: 'Jane & Co',
+        narrative: 'TAX-2025-00001',
+      },
+      {
+        line_number: 2,
+        booking_date: '2025-03-03',
+        value_date: null,
+        amount: -3.5,
+        currency: 'USD',
+        bank_reference: null,
+        counterparty: null,
+        narrative: 'Fee',
+      },
+    ]);
+  });
+
+  it('rejects an entry without a credit or debit indicator', () => {
+    const xml = CAMT053.replace('<CdtDbtInd>DBIT</CdtDbtInd>', '');
+
+    expect(() => parseStatement(xml)).toThrow('Statement line 2: missing <CdtDbtInd>');
+  });
+});
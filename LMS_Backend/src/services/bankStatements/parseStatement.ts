@@ -0,0 +1,26 @@
+/**
+ * Parse Statement - Detect the format of a bank statement file and parse it
+ */
+
+import { parseCamt053Statement } from './camt053Parser';
+import { parseCsvStatement } from './csvParser';
+import { parseMt940Statement } from './mt940Parser';
+import { BankStatementFormat, ParsedStatement } from './types';
+
+export const detectStatementFormat = (content: string): BankStatementFormat => {
+  const head = content.trimStart();
+  if (head.startsWith('<') && /BkToCstmrStmt/.test(content)) return 'CAMT053';
+  if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'MT940';
+  return 'CSV';
+};
+
+export const parseStatement = (content: string): ParsedStatement => {
+  switch (detectStatementFormat(content)) {
+    case 'CAMT053':
+      return parseCamt053Statement(content);
+    case 'MT940':
+      return parseMt940Statement(content);
+    default:
+      return parseCsvStatement(content);
+  }
+};
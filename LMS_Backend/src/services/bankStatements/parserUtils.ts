@@ -0,0 +1,62 @@
+/**
+ * Parser Utils - Shared helpers of the bank statement parsers
+ */
+
+import { AppError } from '../../middleware/errorHandler';
+
+/**
+ * Amount written with either a decimal point or a decimal comma; when both appear the
+ * last one is the decimal separator
+ */
+export const parseAmount = (value: string, decimalComma: boolean = false): number => {
+  let text = value.replace(/[\s']/g, '').replace(/[^\d.,+-]/g, '');
+  const lastDot = text.lastIndexOf('.');
+  const lastComma = text.lastIndexOf(',');
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    text = lastComma > lastDot ? text.replace(/\./g, '').replace(',', '.') : text.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    text = decimalComma || /,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  return Number.isFinite(amount) ? Math.round(amount * 100) / 100 : NaN;
+};
+
+/**
+ * Date as YYYY-MM-DD from ISO, DD/MM/YYYY, DD.MM.YYYY, DD-MM-YYYY or YYYYMMDD
+ */
+export const parseDate = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) return toIsoDate(+match[3], +match[2], +match[1]);
+
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return toIsoDate(+match[1], +match[2], +match[3]);
+
+  return null;
+};
+
+/**
+ * Date as YYYY-MM-DD from the YYMMDD form of SWIFT messages
+ */
+export const parseSwiftDate = (value: string): string | null => {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  return match ? toIsoDate(2000 + +match[1], +match[2], +match[3]) : null;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+export const collapseWhitespace = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+export const invalidLine = (lineNumber: number, message: string): AppError =>
+  new AppError(`Statement line ${lineNumber}: ${message}`, 400);
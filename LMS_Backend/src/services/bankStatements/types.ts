@@ -0,0 +1,59 @@
+/**
+ * Types for bank statement import and reconciliation
+ */
+
+export type BankStatementFormat = 'CSV' | 'MT940' | 'CAMT053';
+
+export type BankLineStatus = 'MATCHED' | 'AMBIGUOUS' | 'UNMATCHED' | 'POSTED' | 'IGNORED';
+
+/**
+ * One booking read from a statement file; credits are positive and debits negative
+ */
+export interface ParsedStatementLine {
+  line_number: number;
+  booking_date: string;
+  value_date: string | null;
+  amount: number;
+  currency: string | null;
+  bank_reference: string | null;
+  counterparty: string | null;
+  narrative: string;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  account: string | null;
+  lines: ParsedStatementLine[];
+}
+
+/**
+ * Open assessment a bank line may pay
+ */
+export interface MatchCandidate {
+  id: string;
+  reference_id: string;
+  outstanding_amount: number;
+}
+
+export interface LineMatch {
+  status: BankLineStatus;
+  match_reason: string;
+  assessment_id: string | null;
+  candidate_assessment_ids: string[];
+}
+
+export interface BankImportSummary {
+  import_id: string;
+  format: BankStatementFormat;
+  lines: number;
+  duplicates: number;
+  matched: number;
+  ambiguous: number;
+  unmatched: number;
+  ignored: number;
+}
+
+export interface BankPostingResult {
+  posted: number;
+  failed: Array<{ line_id: string; line_number: number; error: string }>;
+}
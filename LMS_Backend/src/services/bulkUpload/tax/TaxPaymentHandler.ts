@@ -4,8 +4,11 @@
  */
 
 import { supabase } from '../../../config/database';
+import { InstallmentPlanService } from '../../installments';
 import { getValue, isEmpty, isValidUUID, cleanUUID } from '../utils';
 
+const installmentPlanService = new InstallmentPlanService();
+
 export class TaxPaymentHandler {
   /**
    * Validate tax payment fields based on actual database structure
@@ -112,6 +115,8 @@ export class TaxPaymentHandler {
       payment_method: typeData.payment_method || 'CASH',
       receipt_number: typeData.receipt_number || `RCP-${Date.now()}`,
       notes: typeData.notes || null,
+      // Imported payments were not taken at a till, so they stay out of the cashier sessions
+      cashier_session_id: null,
     };
 
     // Store additional metadata in notes if provided
@@ -183,6 +188,9 @@ export class TaxPaymentHandler {
 
       if (error) throw new Error(error.message);
 
+      // Allocate the payment to the installments of an open payment plan
+      await installmentPlanService.allocatePayments(payment.assessment_id, userId);
+
       return payment;
     } catch (error) {
       throw error;
@@ -0,0 +1,409 @@
+/**
+ * Cashier Session Service - Till sessions of collectors and their end-of-day reconciliation
+ *
+ * A collector opens a session with the cash float in the till; every payment they
+ * record while it is open is attached to it, and so are the refunds they pay out of the
+ * till. Collectors cannot take payments without an open session; other roles record
+ * them outside the sessions when they have none. Closing the session stores the counted
+ * amount per payment method next to the amount expected from the attached payments.
+ * A supervisor other than the cashier then approves the close, or returns it for a
+ * recount. The Z-report is the printed record of a closed session.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { compareMethods, getTotalVariance, reconcileSession, roundAmount } from './cashierReconciliation';
+import { renderZReportPdf } from './zReportPdf';
+import {
+  CashierMethodTotal,
+  CashierSessionCloseInput,
+  CashierSessionFilters,
+  CashierSessionOpenInput,
+  CashierSessionPayment,
+  CashierSessionStatus,
+} from './types';
+
+const SESSION_SELECT = `
+  *,
+  cashier:users!cashier_sessions_cashier_id_fkey(full_name),
+  reviewer:users!cashier_sessions_reviewed_by_fkey(full_name),
+  counts:cashier_session_counts(*)
+`;
+
+const UNSETTLED_STATUSES: CashierSessionStatus[] = ['OPEN', 'RETURNED'];
+
+// Roles that take payments over the counter and need an open session to record them
+const SESSION_REQUIRED_ROLES = ['INPUTTER'];
+
+const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+export class CashierSessionService {
+  async getSessions(filters: CashierSessionFilters) {
+    let query = supabase.from('cashier_sessions').select(SESSION_SELECT);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.cashierId) {
+      query = query.eq('cashier_id', filters.cashierId);
+    }
+
+    if (filters.from) {
+      query = query.gte('opened_at', filters.from);
+    }
+
+    if (filters.to) {
+      query = query.lte('opened_at', `${filters.to}T23:59:59.999Z`);
+    }
+
+    const { data, error } = await query.order('opened_at', { ascending: false }).limit(200);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  /**
+   * The session the user still has to close, if any, with its running totals
+   */
+  async getCurrentSession(userId: string) {
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .select('id')
+      .eq('cashier_id', userId)
+      .in('status', UNSETTLED_STATUSES)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data ? this.getSession(data.id) : null;
+  }
+
+  /**
+   * A session with its payments; totals are the stored counts once it has been
+   * closed, and the running expected amounts while it is open
+   */
+  async getSession(id: string) {
+    const session = await this.getSessionRow(id);
+    const payments = await this.getPayments(id);
+    const totals: CashierMethodTotal[] =
+      session.counts && session.counts.length > 0 && !UNSETTLED_STATUSES.includes(session.status)
+        ? this.sortCounts(session.counts)
+        : reconcileSession(payments, Number(session.opening_float));
+
+    return { ...session, payments, totals, total_variance: getTotalVariance(totals) };
+  }
+
+  /**
+   * Id of the user's open session, which refunds they pay out are attached to
+   */
+  async getOpenSessionId(userId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .select('id')
+      .eq('cashier_id', userId)
+      .eq('status', 'OPEN')
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data ? data.id : null;
+  }
+
+  /**
+   * Session a counter payment recorded by the user is attached to, or null when it is
+   * recorded outside the sessions. A returned session takes no payments: the collector
+   * recounts and closes it, then opens a new session.
+   */
+  async getPaymentSessionId(userId: string, role: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .select('id, status')
+      .eq('cashier_id', userId)
+      .in('status', UNSETTLED_STATUSES)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    if (data?.status === 'OPEN') return data.id;
+    if (!SESSION_REQUIRED_ROLES.includes(role)) return null;
+
+    if (data?.status === 'RETURNED') {
+      throw new AppError(
+        'Your cashier session was returned for a recount. Recount and close it, then open a new session before recording payments',
+        400
+      );
+    }
+    throw new AppError('Open a cashier session before recording payments', 400);
+  }
+
+  async openSession(input: CashierSessionOpenInput, userId: string) {
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .insert({
+        session_number: await this.generateSessionNumber(),
+        cashier_id: userId,
+        opening_float: roundAmount(Number(input.opening_float || 0)),
+        opening_notes: input.notes || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError('You already have a cashier session that has not been closed', 409);
+      }
+      throw new AppError(error.message, 500);
+    }
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'cashier_session',
+      entity_id: data.id,
+      action: 'create',
+      field: 'opening_float',
+      old_value: null,
+      new_value: String(data.opening_float),
+      changed_by: userId,
+    });
+
+    return this.getSession(data.id);
+  }
+
+  async closeSession(id: string, input: CashierSessionCloseInput, userId: string) {
+    const session = await this.getSessionRow(id);
+
+    if (session.cashier_id !== userId) {
+      throw new AppError('Only the cashier who opened the session can close it', 403);
+    }
+
+    // Claim the session first so that no further payments are attached to it
+    const { data: closed, error } = await supabase
+      .from('cashier_sessions')
+      .update({
+        status: 'CLOSED',
+        closed_at: new Date().toISOString(),
+        closing_notes: input.notes || null,
+        reviewed_by: null,
+        reviewed_at: null,
+      })
+      .eq('id', id)
+      .in('status', UNSETTLED_STATUSES)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!closed) throw new AppError('This cashier session has already been closed', 409);
+
+    const payments = await this.getPayments(id);
+    const totals = reconcileSession(payments, Number(session.opening_float), input.counts);
+
+    await supabase.from('cashier_session_counts').delete().eq('session_id', id);
+    const { error: countsError } = await supabase
+      .from('cashier_session_counts')
+      .insert(totals.map((total) => ({ session_id: id, ...total })));
+
+    if (countsError) {
+      await supabase.from('cashier_sessions').update({ status: session.status }).eq('id', id);
+      throw new AppError(countsError.message, 500);
+    }
+
+    const variance = getTotalVariance(totals);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'cashier_session',
+      entity_id: id,
+      action: 'submit',
+      field: 'status',
+      old_value: session.status,
+      new_value: `CLOSED, variance ${variance.toFixed(2)}`,
+      changed_by: userId,
+    });
+
+    // Notify supervisors
+    const { data: approvers } = await supabase
+      .from('users')
+      .select('id')
+      .in('role', ['APPROVER', 'ADMINISTRATOR'])
+      .eq('is_active', true)
+      .neq('id', userId);
+
+    if (approvers && approvers.length > 0) {
+      await supabase.from('notifications').insert(
+        approvers.map((approver) => ({
+          user_id: approver.id,
+          title: 'Cashier Session Closed',
+          message: `Cashier session ${session.session_number} was closed with a variance of ${variance.toFixed(2)} and needs approval`,
+          entity_type: 'CASHIER_SESSION',
+          entity_id: id,
+        }))
+      );
+    }
+
+    return this.getSession(id);
+  }
+
+  async approveSession(id: string, userId: string, notes?: string | null) {
+    const session = await this.review(id, 'APPROVED', userId, notes);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'cashier_session',
+      entity_id: id,
+      action: 'approve',
+      field: 'status',
+      old_value: 'CLOSED',
+      new_value: 'APPROVED',
+      changed_by: userId,
+    });
+
+    await this.notifyCashier(session, 'Approved', `was approved${notes ? `: ${notes}` : ''}`);
+
+    return this.getSession(id);
+  }
+
+  /**
+   * Send a closed session back to the cashier for a recount
+   */
+  async returnSession(id: string, userId: string, notes: string) {
+    const session = await this.review(id, 'RETURNED', userId, notes);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'cashier_session',
+      entity_id: id,
+      action: 'reject',
+      field: 'status',
+      old_value: 'CLOSED',
+      new_value: `RETURNED: ${notes}`,
+      changed_by: userId,
+    });
+
+    await this.notifyCashier(session, 'Returned', `was returned for a recount: ${notes}`);
+
+    return this.getSession(id);
+  }
+
+  async renderZReport(id: string): Promise<{ filename: string; content: Buffer }> {
+    const session = await this.getSession(id);
+
+    if (UNSETTLED_STATUSES.includes(session.status)) {
+      throw new AppError('The Z-report is available once the session has been closed', 400);
+    }
+
+    const content = await renderZReportPdf({
+      session,
+      cashier: single(session.cashier)?.full_name || '-',
+      reviewer: session.status === 'APPROVED' ? single(session.reviewer)?.full_name || '-' : null,
+      totals: session.totals,
+      payments: session.payments,
+      generated_at: new Date().toISOString(),
+    });
+
+    return { filename: `z-report_${session.session_number}.pdf`, content };
+  }
+
+  private async review(id: string, status: CashierSessionStatus, userId: string, notes?: string | null) {
+    const session = await this.getSessionRow(id);
+
+    if (session.cashier_id === userId) {
+      throw new AppError('You cannot review your own cashier session', 403);
+    }
+
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .update({
+        status,
+        reviewed_by: userId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes || null,
+      })
+      .eq('id', id)
+      .eq('status', 'CLOSED')
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Only closed cashier sessions awaiting approval can be reviewed', 409);
+
+    return data;
+  }
+
+  private async getSessionRow(id: string) {
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .select(SESSION_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Cashier session not found', 404);
+
+    return data;
+  }
+
+  private async getPayments(sessionId: string): Promise<CashierSessionPayment[]> {
+    const { data, error } = await supabase
+      .from('tax_payments')
+      .select('id, receipt_number, payment_date, payment_method, amount_paid, created_at, tax_assessments(reference_id)')
+      .eq('cashier_session_id', sessionId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || []).map((payment: any) => ({
+      id: payment.id,
+      receipt_number: payment.receipt_number,
+      payment_date: payment.payment_date,
+      payment_method: payment.payment_method,
+      amount_paid: Number(payment.amount_paid),
+      created_at: payment.created_at,
+      assessment_reference_id: single(payment.tax_assessments)?.reference_id || '',
+    }));
+  }
+
+  private sortCounts(counts: any[]): CashierMethodTotal[] {
+    return counts
+      .map((count) => ({
+        payment_method: count.payment_method,
+        payment_count: count.payment_count,
+        expected_amount: Number(count.expected_amount),
+        counted_amount: Number(count.counted_amount),
+        variance: Number(count.variance),
+      }))
+      .sort(compareMethods);
+  }
+
+  /**
+   * Next free number in the CS-<year>-NNNNN sequence of the current year
+   */
+  private async generateSessionNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const { data, error } = await supabase
+      .from('cashier_sessions')
+      .select('session_number')
+      .like('session_number', `CS-${year}-%`)
+      .order('session_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const lastNumber = data ? parseInt(data.session_number.split('-').pop() || '0', 10) : 0;
+    const nextNumber = (Number.isFinite(lastNumber) ? lastNumber : 0) + 1;
+
+    return `CS-${year}-${String(nextNumber).padStart(5, '0')}`;
+  }
+
+  private async notifyCashier(session: any, outcome: string, message: string) {
+    try {
+      await supabase.from('notifications').insert({
+        user_id: session.cashier_id,
+        title: `Cashier Session ${outcome}`,
+        message: `Cashier session ${session.session_number} ${message}`,
+        entity_type: 'CASHIER_SESSION',
+        entity_id: session.id,
+      });
+    } catch (notifError) {
+      console.error('Failed to create notification:', notifError);
+    }
+  }
+}
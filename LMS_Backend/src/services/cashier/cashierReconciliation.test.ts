@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { getTotalVariance, reconcileSession } from './cashierReconciliation';
+
+describe('reconcileSession', () => {
+  it('expects the opening float plus the cash taken', () => {
+    const totals = reconcileSession(
+      [
+        { payment_method: 'CASH', amount_paid: 150 },
+        { payment_method: 'CASH', amount_paid: 50.25 },
+        { payment_method: 'CHECK', amount_paid: 300 },
+      ],
+      100,
+      [
+        { payment_method: 'CASH', counted_amount: 300.25 },
+        { payment_method: 'CHECK', counted_amount: 300 },
+      ]
+    );
+
+    expect(totals.map((total) => total.payment_method)).toEqual(['CASH', 'CHECK']);
+    expect(totals[0]).toMatchObject({ payment_count: 2, expected_amount: 300.25, variance: 0 });
+    expect(totals[1]).toMatchObject({ payment_count: 1, expected_amount: 300, counted_amount: 300, variance: 0 });
+    expect(getTotalVariance(totals)).toBe(0);
+  });
+
+  it('reduces the expected cash by a refund paid out of the till', () => {
+    const totals = reconcileSession(
+      [
+        { payment_method: 'CASH', amount_paid: 200 },
+        { payment_method: 'CASH', amount_paid: -75 },
+      ],
+      50,
+      [{ payment_method: 'CASH', counted_amount: 175 }]
+    );
+
+    expect(totals).toHaveLength(1);
+    expect(totals[0]).toMatchObject({ payment_method: 'CASH', expected_amount: 175, counted_amount: 175, variance: 0 });
+  });
+
+  it('shows a missing count as a shortage', () => {
+    const totals = reconcileSession([{ payment_method: 'MOBILE_MONEY', amount_paid: 40 }], 0);
+
+    expect(totals).toEqual([
+      { payment_method: 'CASH', payment_count: 0, expected_amount: 0, counted_amount: 0, variance: 0 },
+      { payment_method: 'MOBILE_MONEY', payment_count: 1, expected_amount: 40, counted_amount: 0, variance: -40 },
+    ]);
+  });
+
+  it('sums the variance over all methods', () => {
+    const totals = reconcileSession(
+      [
+        { payment_method: 'CASH', amount_paid: 80 },
+        { payment_method: 'BANK_TRANSFER', amount_paid: 120 },
+      ],
+      20,
+      [
+        { payment_method: 'CASH', counted_amount: 95 },
+        { payment_method: 'BANK_TRANSFER', counted_amount: 120 },
+      ]
+    );
+
+    expect(totals.map((total) => total.payment_method)).toEqual(['CASH', 'BANK_TRANSFER']);
+    expect(totals[0].variance).toBe(-5);
+    expect(getTotalVariance(totals)).toBe(-5);
+  });
+});
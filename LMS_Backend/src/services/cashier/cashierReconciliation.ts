@@ -0,0 +1,59 @@
+/**
+ * Cashier Reconciliation - Expected against counted amounts of a cashier session
+ */
+
+import { CashierCountInput, CashierMethodTotal } from './types';
+
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Cash first, then the other payment methods alphabetically
+ */
+export const compareMethods = (a: CashierMethodTotal, b: CashierMethodTotal): number =>
+  a.payment_method === 'CASH' ? -1 : b.payment_method === 'CASH' ? 1 : a.payment_method.localeCompare(b.payment_method);
+
+/**
+ * Totals per payment method. Cash is always listed and includes the opening float;
+ * other methods are listed when they were taken or counted. Refunds paid out of the
+ * till are negative entries that lower the expected amount. Methods not counted
+ * count as zero, so a missing count shows up as a shortage.
+ */
+export const reconcileSession = (
+  payments: Array<{ payment_method: string; amount_paid: number }>,
+  openingFloat: number,
+  counts: CashierCountInput[] = []
+): CashierMethodTotal[] => {
+  const totals = new Map<string, CashierMethodTotal>();
+
+  const getTotal = (method: string): CashierMethodTotal => {
+    let total = totals.get(method);
+    if (!total) {
+      total = { payment_method: method, payment_count: 0, expected_amount: 0, counted_amount: 0, variance: 0 };
+      totals.set(method, total);
+    }
+    return total;
+  };
+
+  getTotal('CASH').expected_amount = Number(openingFloat || 0);
+
+  for (const payment of payments) {
+    const total = getTotal(payment.payment_method);
+    total.payment_count++;
+    total.expected_amount += Number(payment.amount_paid);
+  }
+
+  for (const count of counts) {
+    getTotal(count.payment_method).counted_amount += Number(count.counted_amount);
+  }
+
+  return [...totals.values()]
+    .map((total) => {
+      const expected = roundAmount(total.expected_amount);
+      const counted = roundAmount(total.counted_amount);
+      return { ...total, expected_amount: expected, counted_amount: counted, variance: roundAmount(counted - expected) };
+    })
+    .sort(compareMethods);
+};
+
+export const getTotalVariance = (totals: CashierMethodTotal[]): number =>
+  roundAmount(totals.reduce((sum, total) => sum + total.variance, 0));
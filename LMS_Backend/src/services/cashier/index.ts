@@ -0,0 +1,9 @@
+/**
+ * Cashier Module - Cashier sessions and end-of-day reconciliation of collectors
+ */
+
+export { CashierSessionService } from './CashierSessionService';
+export { getTotalVariance, reconcileSession } from './cashierReconciliation';
+export { renderZReportPdf } from './zReportPdf';
+
+export * from './types';
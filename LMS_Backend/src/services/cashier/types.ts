@@ -0,0 +1,72 @@
+/**
+ * Types for cashier sessions and end-of-day reconciliation
+ */
+
+export type CashierSessionStatus = 'OPEN' | 'CLOSED' | 'APPROVED' | 'RETURNED';
+
+export interface CashierSessionOpenInput {
+  opening_float?: number;
+  notes?: string | null;
+}
+
+export interface CashierCountInput {
+  payment_method: string;
+  counted_amount: number;
+}
+
+export interface CashierSessionCloseInput {
+  counts: CashierCountInput[];
+  notes?: string | null;
+}
+
+export interface CashierSessionFilters {
+  status?: CashierSessionStatus;
+  cashierId?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Expected against counted amount of one payment method; variance is counted minus expected
+ */
+export interface CashierMethodTotal {
+  payment_method: string;
+  payment_count: number;
+  expected_amount: number;
+  counted_amount: number;
+  variance: number;
+}
+
+export interface CashierSessionPayment {
+  id: string;
+  receipt_number: string;
+  payment_date: string;
+  payment_method: string;
+  amount_paid: number;
+  created_at: string;
+  assessment_reference_id: string;
+}
+
+export interface CashierSession {
+  id: string;
+  session_number: string;
+  cashier_id: string;
+  status: CashierSessionStatus;
+  opening_float: number;
+  opened_at: string;
+  opening_notes: string | null;
+  closed_at: string | null;
+  closing_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
+export interface ZReportData {
+  session: CashierSession;
+  cashier: string;
+  reviewer: string | null;
+  totals: CashierMethodTotal[];
+  payments: CashierSessionPayment[];
+  generated_at: string;
+}
@@ -0,0 +1,108 @@
+/**
+ * Z-Report PDF - End-of-day printout of a closed cashier session
+ */
+
+import { PdfUtil } from '../../utils/pdf';
+import { ZReportData } from './types';
+
+const STATUS_LABELS = {
+  OPEN: 'Open',
+  CLOSED: 'Awaiting approval',
+  APPROVED: 'Approved',
+  RETURNED: 'Returned for recount',
+};
+
+const formatDateTime = (date: string): string =>
+  `${PdfUtil.formatDate(date)} ${new Date(date).toISOString().slice(11, 16)}`;
+
+export const renderZReportPdf = (report: ZReportData): Promise<Buffer> => {
+  const money = PdfUtil.formatCurrency;
+  const { session } = report;
+
+  return PdfUtil.render((doc) => {
+    PdfUtil.header(doc, 'Z-Report', `Cashier Session ${session.session_number}`);
+
+    const sessionRows: Array<[string, string]> = [
+      ['Cashier', report.cashier],
+      ['Opened', formatDateTime(session.opened_at)],
+      ['Closed', session.closed_at ? formatDateTime(session.closed_at) : '-'],
+      ['Opening Float', money(Number(session.opening_float))],
+      ['Status', STATUS_LABELS[session.status]],
+    ];
+    if (report.reviewer) {
+      sessionRows.push(['Approved By', `${report.reviewer} on ${formatDateTime(session.reviewed_at!)}`]);
+    }
+    if (session.closing_notes) {
+      sessionRows.push(['Cashier Notes', session.closing_notes]);
+    }
+    if (session.review_notes) {
+      sessionRows.push(['Supervisor Notes', session.review_notes]);
+    }
+    PdfUtil.fields(doc, sessionRows);
+
+    const expected = report.totals.reduce((sum, total) => sum + total.expected_amount, 0);
+    const counted = report.totals.reduce((sum, total) => sum + total.counted_amount, 0);
+    const variance = report.totals.reduce((sum, total) => sum + total.variance, 0);
+
+    PdfUtil.section(doc, 'Reconciliation');
+    PdfUtil.table(
+      doc,
+      [
+        { header: 'Payment Method', width: 28 },
+        { header: 'Payments', width: 12, align: 'right' },
+        { header: 'Expected', width: 20, align: 'right' },
+        { header: 'Counted', width: 20, align: 'right' },
+        { header: 'Variance', width: 20, align: 'right' },
+      ],
+      [
+        ...report.totals.map((total) => [
+          total.payment_method.replace(/_/g, ' ') + (total.payment_method === 'CASH' ? ' (incl. float)' : ''),
+          String(total.payment_count),
+          money(total.expected_amount),
+          money(total.counted_amount),
+          money(total.variance),
+        ]),
+        [
+          'Total',
+          String(report.payments.length),
+          money(expected),
+          money(counted),
+          money(variance),
+        ],
+      ],
+      { boldLastRows: 1 }
+    );
+
+    PdfUtil.section(doc, 'Payments');
+    if (report.payments.length === 0) {
+      doc.font('Helvetica').fontSize(9).text('No payments were taken in this session.');
+    } else {
+      PdfUtil.table(
+        doc,
+        [
+          { header: 'Time', width: 12 },
+          { header: 'Receipt', width: 22 },
+          { header: 'Assessment', width: 22 },
+          { header: 'Method', width: 22 },
+          { header: 'Amount', width: 22, align: 'right' },
+        ],
+        report.payments.map((payment) => [
+          new Date(payment.created_at).toISOString().slice(11, 16),
+          payment.receipt_number,
+          payment.assessment_reference_id,
+          payment.payment_method.replace(/_/g, ' '),
+          money(payment.amount_paid),
+        ])
+      );
+    }
+
+    doc.moveDown(2);
+    PdfUtil.rule(doc);
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor('#555555')
+      .text(`Printed ${formatDateTime(report.generated_at)}. Variance is counted minus expected; a negative variance is a shortage.`)
+      .fillColor('black');
+  });
+};
@@ -0,0 +1,297 @@
+/**
+ * Clearance Service - Tax clearance certificates of a property or of a customer
+ *
+ * A certificate covers one property, or every property the customer currently owns or
+ * co-owns. It is only issued when none of their non-archived assessments has a balance
+ * or is overdue; otherwise the blocking assessments are returned with the refusal.
+ * Issued certificates are numbered TC-<year>-NNNNN, expire after the configured number
+ * of days and are verified publicly through the code in their QR code.
+ */
+
+import { config } from '../../config/env';
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { CUSTOMER_NAME_SELECT, getCustomerName } from '../../utils/customerName';
+import { describeBlocking, findBlockingAssessments, getValidUntil, roundAmount } from './clearanceRules';
+import { renderClearancePdf } from './clearancePdf';
+import {
+  ClearanceAssessment,
+  ClearanceCertificate,
+  ClearanceCheck,
+  ClearanceIssueInput,
+  ClearanceProperty,
+  ClearanceSubject,
+  ClearanceVerification,
+} from './types';
+
+const PROPERTY_SELECT = 'id, reference_id, parcel_number, property_location, districts(name)';
+
+const CERTIFICATE_SELECT = `
+  *,
+  issuer:users!tax_clearance_certificates_issued_by_fkey(full_name)
+`;
+
+const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+const toProperty = (property: any): ClearanceProperty => ({
+  id: property.id,
+  reference_id: property.reference_id,
+  parcel_number: property.parcel_number,
+  location: property.property_location || null,
+  district: single(property.districts)?.name || null,
+});
+
+export class ClearanceService {
+  /**
+   * Whether a certificate can be issued, with the assessments standing in the way
+   */
+  async check(subject: ClearanceSubject): Promise<ClearanceCheck> {
+    const { holderName, properties } = subject.property_id
+      ? await this.getPropertySubject(subject.property_id)
+      : await this.getCustomerSubject(subject.customer_id!);
+
+    const assessments = await this.getAssessments(properties.map((property) => property.id));
+    const blocking = findBlockingAssessments(
+      assessments,
+      new Map(properties.map((property) => [property.id, property.parcel_number]))
+    );
+
+    return {
+      subject_type: subject.property_id ? 'PROPERTY' : 'CUSTOMER',
+      property_id: subject.property_id || null,
+      customer_id: subject.property_id ? null : subject.customer_id!,
+      holder_name: holderName,
+      properties,
+      assessments_checked: assessments.length,
+      total_outstanding: roundAmount(assessments.reduce((sum, assessment) => sum + assessment.outstanding_amount, 0)),
+      eligible: blocking.length === 0,
+      blocking_assessments: blocking,
+    };
+  }
+
+  async issue(input: ClearanceIssueInput, userId: string): Promise<ClearanceCertificate> {
+    const check = await this.check(input);
+
+    if (check.properties.length === 0) {
+      throw new AppError('The customer has no current properties to clear', 400);
+    }
+
+    if (!check.eligible) {
+      const error = new AppError(describeBlocking(check.blocking_assessments), 409);
+      error.errors = check.blocking_assessments;
+      throw error;
+    }
+
+    const issuedAt = new Date();
+
+    const { data: certificate, error } = await supabase
+      .from('tax_clearance_certificates')
+      .insert({
+        certificate_number: await this.generateCertificateNumber(),
+        subject_type: check.subject_type,
+        property_id: check.property_id,
+        customer_id: check.customer_id,
+        holder_name: check.holder_name,
+        purpose: input.purpose || null,
+        properties: check.properties,
+        assessments_checked: check.assessments_checked,
+        issued_by: userId,
+        issued_at: issuedAt.toISOString(),
+        valid_until: getValidUntil(issuedAt, config.clearanceValidityDays),
+      })
+      .select(CERTIFICATE_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError('Another certificate was issued at the same time, please try again', 409);
+      }
+      throw new AppError(error.message, 500);
+    }
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'tax_clearance',
+      entity_id: certificate.id,
+      action: 'create',
+      field: check.subject_type.toLowerCase(),
+      old_value: null,
+      new_value: `${certificate.certificate_number}: ${check.holder_name}`,
+      changed_by: userId,
+    });
+
+    return certificate;
+  }
+
+  /**
+   * Issued certificates, latest first
+   */
+  async getCertificates(filters: ClearanceSubject): Promise<ClearanceCertificate[]> {
+    let query = supabase.from('tax_clearance_certificates').select(CERTIFICATE_SELECT);
+
+    if (filters.property_id) {
+      query = query.eq('property_id', filters.property_id);
+    }
+
+    if (filters.customer_id) {
+      query = query.eq('customer_id', filters.customer_id);
+    }
+
+    const { data, error } = await query.order('issued_at', { ascending: false }).limit(200);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async renderCertificate(id: string): Promise<{ filename: string; content: Buffer }> {
+    const { data: certificate, error } = await supabase
+      .from('tax_clearance_certificates')
+      .select(CERTIFICATE_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!certificate) throw new AppError('Clearance certificate not found', 404);
+
+    return {
+      filename: `${certificate.certificate_number}.pdf`,
+      content: await renderClearancePdf(certificate, this.getVerificationUrl(certificate.verification_code)),
+    };
+  }
+
+  /**
+   * Public check of a certificate from the code in its QR code
+   */
+  async verify(code: string): Promise<ClearanceVerification> {
+    const { data: certificate, error } = await supabase
+      .from('tax_clearance_certificates')
+      .select('certificate_number, subject_type, holder_name, properties, issued_at, valid_until')
+      .eq('verification_code', code)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!certificate) throw new AppError('No clearance certificate matches this verification code', 404);
+
+    return {
+      valid: certificate.valid_until >= new Date().toISOString().slice(0, 10),
+      certificate_number: certificate.certificate_number,
+      subject_type: certificate.subject_type,
+      holder_name: certificate.holder_name,
+      parcel_numbers: (certificate.properties || []).map((property: ClearanceProperty) => property.parcel_number),
+      issued_at: certificate.issued_at,
+      valid_until: certificate.valid_until,
+    };
+  }
+
+  getVerificationUrl(code: string): string {
+    return `${config.publicAppUrl.replace(/\/$/, '')}/verify/clearances/${code}`;
+  }
+
+  /**
+   * The property, held in the names of its current owners and co-owners
+   */
+  private async getPropertySubject(propertyId: string) {
+    const { data: property, error } = await supabase
+      .from('properties')
+      .select(PROPERTY_SELECT)
+      .eq('id', propertyId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!property) throw new AppError('Property not found', 404);
+
+    const { data: owners, error: ownersError } = await supabase
+      .from('property_ownership')
+      .select(`customers(${CUSTOMER_NAME_SELECT})`)
+      .eq('property_id', propertyId)
+      .in('ownership_type', ['OWNER', 'CO_OWNER'])
+      .eq('is_current', true);
+
+    if (ownersError) throw new AppError(ownersError.message, 500);
+
+    const names = (owners || []).map((row: any) => getCustomerName(single(row.customers)));
+
+    return {
+      holderName: names.length > 0 ? names.join(', ') : `Property ${property.parcel_number}`,
+      properties: [toProperty(property)],
+    };
+  }
+
+  /**
+   * The customer and every property they currently own or co-own
+   */
+  private async getCustomerSubject(customerId: string) {
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .select(`id, ${CUSTOMER_NAME_SELECT}`)
+      .eq('id', customerId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!customer) throw new AppError('Customer not found', 404);
+
+    const { data: ownerships, error: ownershipsError } = await supabase
+      .from('property_ownership')
+      .select(`properties(${PROPERTY_SELECT})`)
+      .eq('customer_id', customerId)
+      .in('ownership_type', ['OWNER', 'CO_OWNER'])
+      .eq('is_current', true);
+
+    if (ownershipsError) throw new AppError(ownershipsError.message, 500);
+
+    const properties = new Map<string, ClearanceProperty>();
+    for (const row of ownerships || []) {
+      const property = single((row as any).properties);
+      if (property) properties.set(property.id, toProperty(property));
+    }
+
+    return {
+      holderName: getCustomerName(customer),
+      properties: [...properties.values()].sort((a, b) => a.parcel_number.localeCompare(b.parcel_number)),
+    };
+  }
+
+  private async getAssessments(propertyIds: string[]): Promise<ClearanceAssessment[]> {
+    if (propertyIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('tax_assessments')
+      .select('id, reference_id, tax_year, property_id, status, due_date, outstanding_amount')
+      .in('property_id', propertyIds)
+      .eq('is_archived', false);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || []).map((assessment) => ({
+      id: assessment.id,
+      reference_id: assessment.reference_id,
+      tax_year: assessment.tax_year,
+      property_id: assessment.property_id,
+      status: assessment.status,
+      due_date: assessment.due_date,
+      outstanding_amount: Number(assessment.outstanding_amount || 0),
+    }));
+  }
+
+  /**
+   * Next free number in the TC-<year>-NNNNN sequence of the current year
+   */
+  private async generateCertificateNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+
+    const { data, error } = await supabase
+      .from('tax_clearance_certificates')
+      .select('certificate_number')
+      .like('certificate_number', `TC-${year}-%`)
+      .order('certificate_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const lastNumber = data ? parseInt(data.certificate_number.split('-').pop() || '0', 10) : 0;
+    const nextNumber = (Number.isFinite(lastNumber) ? lastNumber : 0) + 1;
+
+    return `TC-${year}-${String(nextNumber).padStart(5, '0')}`;
+  }
+}
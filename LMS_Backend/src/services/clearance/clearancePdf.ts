@@ -0,0 +1,86 @@
+/**
+ * Clearance PDF - Layout of a tax clearance certificate
+ */
+
+import { config } from '../../config/env';
+import { PdfUtil } from '../../utils/pdf';
+import { ClearanceCertificate } from './types';
+
+const QR_SIZE = 110;
+
+export const renderClearancePdf = async (
+  certificate: ClearanceCertificate,
+  verificationUrl: string
+): Promise<Buffer> => {
+  const qrCode = await PdfUtil.qrCode(verificationUrl);
+
+  return PdfUtil.render((doc) => {
+    PdfUtil.header(doc, 'Tax Clearance Certificate', `Certificate No. ${certificate.certificate_number}`);
+
+    // QR code in the top right corner of the details
+    const top = doc.y;
+    const qrLeft = doc.page.width - doc.page.margins.right - QR_SIZE;
+    doc.image(qrCode, qrLeft, top, { width: QR_SIZE });
+    doc
+      .font('Helvetica')
+      .fontSize(7)
+      .fillColor('#555555')
+      .text('Scan to verify', qrLeft, top + QR_SIZE + 2, { width: QR_SIZE, align: 'center' })
+      .fillColor('black');
+    doc.y = top;
+
+    PdfUtil.section(doc, 'Certificate');
+    const certificateRows: Array<[string, string]> = [
+      ['Issued To', certificate.holder_name],
+      ['Issued On', PdfUtil.formatDate(certificate.issued_at)],
+      ['Valid Until', PdfUtil.formatDate(certificate.valid_until)],
+    ];
+    if (certificate.purpose) {
+      certificateRows.push(['Purpose', certificate.purpose]);
+    }
+    certificateRows.push(['Issued By', certificate.issuer?.full_name || '-']);
+    PdfUtil.fields(doc, certificateRows, qrLeft - doc.page.margins.left - 20);
+    doc.y = Math.max(doc.y, top + QR_SIZE + 15);
+
+    PdfUtil.section(doc, certificate.properties.length === 1 ? 'Property' : 'Properties');
+    PdfUtil.table(
+      doc,
+      [
+        { header: 'Parcel Number', width: 110 },
+        { header: 'Reference', width: 110 },
+        { header: 'Location', width: 170 },
+        { header: 'District', width: 105 },
+      ],
+      certificate.properties.map((property) => [
+        property.parcel_number,
+        property.reference_id,
+        property.location || '-',
+        property.district || '-',
+      ])
+    );
+
+    doc.moveDown(1);
+    doc
+      .font('Helvetica')
+      .fontSize(10)
+      .text(
+        `${config.organizationName} certifies that, on the date of issue, all ${certificate.assessments_checked} ` +
+          `property tax assessment${certificate.assessments_checked === 1 ? '' : 's'} of the ` +
+          `${certificate.properties.length === 1 ? 'property' : 'properties'} listed above were settled ` +
+          'and none was overdue.',
+        doc.page.margins.left
+      );
+
+    doc.moveDown(2);
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor('#555555')
+      .text(
+        `Verify this certificate by scanning the QR code or visiting ${verificationUrl}. ` +
+          'The certificate is not valid after the date above and does not cover assessments raised after it was issued.',
+        { align: 'center' }
+      )
+      .fillColor('black');
+  });
+};
@@ -0,0 +1,58 @@
+/**
+ * Clearance Rules - Which assessments stand in the way of a tax clearance certificate
+ *
+ * Every assessment must be fully paid and none may be overdue. An overdue status blocks
+ * even without a balance, since it means the assessment has not been settled on the books.
+ */
+
+import { BlockingAssessment, ClearanceAssessment, ClearanceBlockReason } from './types';
+
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Blocking assessments, oldest tax year first
+ */
+export const findBlockingAssessments = (
+  assessments: ClearanceAssessment[],
+  parcelNumbers: Map<string, string>
+): BlockingAssessment[] =>
+  assessments
+    .map((assessment) => {
+      const reasons: ClearanceBlockReason[] = [];
+      if (roundAmount(assessment.outstanding_amount) > 0) reasons.push('OUTSTANDING');
+      if (assessment.status === 'OVERDUE') reasons.push('OVERDUE');
+
+      return {
+        assessment_id: assessment.id,
+        reference_id: assessment.reference_id,
+        tax_year: assessment.tax_year,
+        parcel_number: parcelNumbers.get(assessment.property_id) || '',
+        status: assessment.status,
+        due_date: assessment.due_date,
+        outstanding_amount: roundAmount(assessment.outstanding_amount),
+        reasons,
+      };
+    })
+    .filter((blocking) => blocking.reasons.length > 0)
+    .sort((a, b) => a.tax_year - b.tax_year || a.parcel_number.localeCompare(b.parcel_number));
+
+/**
+ * Last valid day of a certificate issued on the given date (YYYY-MM-DD)
+ */
+export const getValidUntil = (issuedAt: Date, validityDays: number): string => {
+  const date = new Date(Date.UTC(issuedAt.getUTCFullYear(), issuedAt.getUTCMonth(), issuedAt.getUTCDate()));
+  date.setUTCDate(date.getUTCDate() + validityDays);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Describes the blocking assessments in one sentence for the error message
+ */
+export const describeBlocking = (blocking: BlockingAssessment[]): string => {
+  const outstanding = roundAmount(blocking.reduce((sum, assessment) => sum + assessment.outstanding_amount, 0));
+  const years = [...new Set(blocking.map((assessment) => assessment.tax_year))].join(', ');
+  return (
+    `Clearance refused: ${blocking.length} assessment${blocking.length === 1 ? '' : 's'} ` +
+    `(${years}) not settled, ${outstanding.toFixed(2)} outstanding`
+  );
+};
@@ -0,0 +1,9 @@
+/**
+ * Clearance Module - Tax clearance certificates and their public verification
+ */
+
+export { ClearanceService } from './ClearanceService';
+export { findBlockingAssessments, getValidUntil } from './clearanceRules';
+export { renderClearancePdf } from './clearancePdf';
+
+export * from './types';
@@ -0,0 +1,84 @@
+/**
+ * Types for tax clearance certificates
+ */
+
+export type ClearanceSubjectType = 'PROPERTY' | 'CUSTOMER';
+
+export type ClearanceBlockReason = 'OUTSTANDING' | 'OVERDUE';
+
+export interface ClearanceSubject {
+  property_id?: string;
+  customer_id?: string;
+}
+
+export interface ClearanceProperty {
+  id: string;
+  reference_id: string;
+  parcel_number: string;
+  location: string | null;
+  district: string | null;
+}
+
+export interface ClearanceAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  property_id: string;
+  status: string;
+  due_date: string;
+  outstanding_amount: number;
+}
+
+export interface BlockingAssessment {
+  assessment_id: string;
+  reference_id: string;
+  tax_year: number;
+  parcel_number: string;
+  status: string;
+  due_date: string;
+  outstanding_amount: number;
+  reasons: ClearanceBlockReason[];
+}
+
+export interface ClearanceCheck {
+  subject_type: ClearanceSubjectType;
+  property_id: string | null;
+  customer_id: string | null;
+  holder_name: string;
+  properties: ClearanceProperty[];
+  assessments_checked: number;
+  total_outstanding: number;
+  eligible: boolean;
+  blocking_assessments: BlockingAssessment[];
+}
+
+export interface ClearanceIssueInput extends ClearanceSubject {
+  purpose?: string | null;
+}
+
+export interface ClearanceCertificate {
+  id: string;
+  certificate_number: string;
+  verification_code: string;
+  subject_type: ClearanceSubjectType;
+  property_id: string | null;
+  customer_id: string | null;
+  holder_name: string;
+  purpose: string | null;
+  properties: ClearanceProperty[];
+  assessments_checked: number;
+  issued_by: string;
+  issued_at: string;
+  valid_until: string;
+  issuer?: { full_name: string } | null;
+}
+
+export interface ClearanceVerification {
+  valid: boolean; // false once the certificate has expired
+  certificate_number: string;
+  subject_type: ClearanceSubjectType;
+  holder_name: string;
+  parcel_numbers: string[];
+  issued_at: string;
+  valid_until: string;
+}
@@ -1,5 +1,6 @@
 import { supabase } from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { ApprovalWorkflowService, RecordChangeService } from './approvals';
 // import { getSocketHandler } from '../websocket/socketHandler'; // WebSocket removed
 
 export interface CustomerFilters {
@@ -14,6 +15,9 @@ export interface CustomerFilters {
   updated_to?: string;
 }
 
+const approvalWorkflowService = new ApprovalWorkflowService();
+const recordChangeService = new RecordChangeService();
+
 export class CustomerService {
   async getCustomers(filters: CustomerFilters) {
     const {
@@ -461,8 +465,9 @@ export class CustomerService {
     // Prepare update data
     const updateData: any = { updated_at: new Date().toISOString() };
 
-    // If currently APPROVED, move back to SUBMITTED for re-approval
+    // If currently APPROVED, keep the approved version and move back to SUBMITTED for re-approval
     if (currentCustomer?.status === 'APPROVED') {
+      await recordChangeService.capture('customer', id, userId);
       updateData.status = 'SUBMITTED';
       updateData.submitted_at = new Date().toISOString();
       updateData.approved_by = null;
@@ -533,6 +538,7 @@ export class CustomerService {
     // Add note if returned to SUBMITTED for re-approval
     if (currentCustomer?.status === 'APPROVED' && customer.status === 'SUBMITTED') {
       activityMetadata.note = 'Edited after approval - returned to SUBMITTED for re-approval';
+      await approvalWorkflowService.start('customer', id, userId);
     }
 
     await supabase.from('activity_logs').insert({
@@ -631,6 +637,8 @@ export class CustomerService {
 
     if (error) throw new AppError(error.message, 500);
 
+    await approvalWorkflowService.start('customer', id, userId);
+
     // Create activity log
     await supabase.from('activity_logs').insert({
       entity_type: 'CUSTOMER',
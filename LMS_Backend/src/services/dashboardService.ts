@@ -117,4 +117,54 @@ export class DashboardService {
       statusBreakdown,
     };
   }
+
+  /**
+   * Payments received per calendar month over the last months, including the current one.
+   * Reversals and refunds are counted in the month they were booked.
+   */
+  async getCollectionTrends(months: number = 12) {
+    const now = new Date();
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+    const startDate = start.toISOString().slice(0, 10);
+
+    const trends = new Map<string, { month: string; collected: number; adjustments: number; net: number; payments: number }>();
+    for (let i = 0; i < months; i++) {
+      const month = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + i, 1)).toISOString().slice(0, 7);
+      trends.set(month, { month, collected: 0, adjustments: 0, net: 0, payments: 0 });
+    }
+
+    const pageSize = 1000;
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabase
+        .from('tax_payments')
+        .select('payment_date, amount_paid, entry_type')
+        .gte('payment_date', startDate)
+        .order('id')
+        .range(from, from + pageSize - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const payment of data || []) {
+        const trend = trends.get(String(payment.payment_date).slice(0, 7));
+        if (!trend) continue;
+
+        const amount = Number(payment.amount_paid) || 0;
+        if ((payment.entry_type || 'PAYMENT') === 'PAYMENT') {
+          trend.collected += amount;
+          trend.payments += 1;
+        } else {
+          trend.adjustments += amount;
+        }
+      }
+
+      if (!data || data.length < pageSize) break;
+    }
+
+    return Array.from(trends.values()).map((trend) => ({
+      ...trend,
+      collected: Math.round(trend.collected * 100) / 100,
+      adjustments: Math.round(trend.adjustments * 100) / 100,
+      net: Math.round((trend.collected + trend.adjustments) * 100) / 100,
+    }));
+  }
 }
@@ -0,0 +1,138 @@
+/**
+ * Exemption Service - Manages the exemption_rules table and applies exemptions to assessments
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { applyExemption } from './exemptionCalculator';
+import { ExemptionContext, ExemptionOwner, ExemptionRule, ExemptionRuleInput, TaxExemptionDetails } from './types';
+
+const OWNER_LOOKUP_BATCH_SIZE = 200;
+
+export class ExemptionService {
+  async getRules(): Promise<ExemptionRule[]> {
+    const { data, error } = await supabase
+      .from('exemption_rules')
+      .select('*, property_types(name)')
+      .order('effective_from', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async getActiveRules(): Promise<ExemptionRule[]> {
+    const { data, error } = await supabase
+      .from('exemption_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async createRule(input: ExemptionRuleInput, userId: string): Promise<ExemptionRule> {
+    const { data, error } = await supabase
+      .from('exemption_rules')
+      .insert({ ...input, created_by: userId, updated_by: userId })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  async updateRule(id: string, input: Partial<ExemptionRuleInput>, userId: string): Promise<ExemptionRule> {
+    const { data, error } = await supabase
+      .from('exemption_rules')
+      .update({ ...input, updated_by: userId })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Exemption rule not found', 404);
+
+    return data;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase.from('exemption_rules').delete().eq('id', id);
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  /**
+   * Current owners and co-owners of the given properties, keyed by property id
+   */
+  async getCurrentOwners(propertyIds: string[]): Promise<Map<string, ExemptionOwner[]>> {
+    const owners = new Map<string, ExemptionOwner[]>();
+
+    for (let i = 0; i < propertyIds.length; i += OWNER_LOOKUP_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('property_ownership')
+        .select('property_id, customer_id, customers(customer_type)')
+        .in('property_id', propertyIds.slice(i, i + OWNER_LOOKUP_BATCH_SIZE))
+        .in('ownership_type', ['OWNER', 'CO_OWNER'])
+        .eq('is_current', true);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const row of (data || []) as any[]) {
+        const customer = Array.isArray(row.customers) ? row.customers[0] : row.customers;
+        if (!customer) continue;
+
+        const list = owners.get(row.property_id) || [];
+        list.push({ customer_id: row.customer_id, customer_type: customer.customer_type });
+        owners.set(row.property_id, list);
+      }
+    }
+
+    return owners;
+  }
+
+  /**
+   * Context from the assessment values, with property flags and owners looked up by property_id
+   */
+  async buildContext(assessment: any): Promise<ExemptionContext> {
+    let property: any = null;
+    let owners: ExemptionOwner[] = [];
+
+    if (assessment.property_id) {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('property_type_id, is_downtown, is_building')
+        .eq('id', assessment.property_id)
+        .maybeSingle();
+
+      if (error) throw new AppError(error.message, 500);
+      if (!data) throw new AppError('Property not found', 404);
+      property = data;
+
+      owners = (await this.getCurrentOwners([assessment.property_id])).get(assessment.property_id) || [];
+    }
+
+    return {
+      property_type_id: property?.property_type_id ?? null,
+      is_downtown: property?.is_downtown ?? null,
+      is_building: property?.is_building ?? null,
+      occupancy_type: assessment.occupancy_type || 'OWNER_OCCUPIED',
+      owners,
+      assessment_date: assessment.assessment_date || new Date().toISOString().slice(0, 10),
+    };
+  }
+
+  /**
+   * Exemption for the given context and base assessment, null when no rule applies; rules can be
+   * passed in when applying in bulk
+   */
+  async apply(
+    context: ExemptionContext,
+    baseAssessment: number,
+    rules?: ExemptionRule[]
+  ): Promise<TaxExemptionDetails | null> {
+    return applyExemption(rules ?? (await this.getActiveRules()), context, baseAssessment);
+  }
+}
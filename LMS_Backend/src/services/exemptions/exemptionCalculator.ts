@@ -0,0 +1,91 @@
+/**
+ * Exemption Calculator - exemption_amount from the exemption policies
+ *
+ * A rule matches when each of its property criteria is either NULL or equal to the
+ * context, and its customer_type is NULL or held by one of the current owners. When
+ * several rules match, the largest exemption applies, then the most specific rule.
+ *
+ *   FULL       = base
+ *   PERCENTAGE = base * exemption_value%
+ *   FIXED      = min(exemption_value, base)
+ */
+
+import { EXEMPTION_PROPERTY_FIELDS, ExemptionContext, ExemptionOwner, ExemptionRule, TaxExemptionDetails } from './types';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const specificity = (rule: ExemptionRule): number =>
+  [...EXEMPTION_PROPERTY_FIELDS, 'customer_type' as const].filter(
+    (field) => rule[field] !== null && rule[field] !== undefined
+  ).length;
+
+/**
+ * Owner the rule matched on, null when the rule has no customer type, undefined when it does not match
+ */
+const matchRule = (rule: ExemptionRule, context: ExemptionContext, date: string): ExemptionOwner | null | undefined => {
+  if (!rule.is_active || rule.effective_from > date || (rule.effective_to && rule.effective_to < date)) {
+    return undefined;
+  }
+
+  const propertyMatches = EXEMPTION_PROPERTY_FIELDS.every(
+    (field) => rule[field] === null || rule[field] === undefined || rule[field] === context[field]
+  );
+  if (!propertyMatches) return undefined;
+
+  if (!rule.customer_type) return null;
+  return context.owners.find((owner) => owner.customer_type === rule.customer_type);
+};
+
+export const calculateExemptionAmount = (rule: ExemptionRule, baseAssessment: number): number => {
+  switch (rule.exemption_type) {
+    case 'FULL':
+      return roundAmount(baseAssessment);
+    case 'PERCENTAGE':
+      return roundAmount((baseAssessment * Math.min(Number(rule.exemption_value), 100)) / 100);
+    case 'FIXED':
+      return roundAmount(Math.min(Number(rule.exemption_value), baseAssessment));
+    default:
+      return 0;
+  }
+};
+
+export const applyExemption = (
+  rules: ExemptionRule[],
+  context: ExemptionContext,
+  baseAssessment: number
+): TaxExemptionDetails | null => {
+  const date = context.assessment_date.slice(0, 10);
+
+  const candidates = rules
+    .map((rule) => ({ rule, owner: matchRule(rule, context, date) }))
+    .filter((candidate) => candidate.owner !== undefined)
+    .map((candidate) => ({ ...candidate, amount: calculateExemptionAmount(candidate.rule, baseAssessment) }));
+
+  candidates.sort(
+    (a, b) =>
+      b.amount - a.amount ||
+      specificity(b.rule) - specificity(a.rule) ||
+      b.rule.effective_from.localeCompare(a.rule.effective_from)
+  );
+
+  const selected = candidates[0];
+  if (!selected || selected.amount <= 0) return null;
+
+  const matchedOn: TaxExemptionDetails['matched_on'] = {};
+  for (const field of [...EXEMPTION_PROPERTY_FIELDS, 'customer_type' as const]) {
+    const value = selected.rule[field];
+    if (value !== null && value !== undefined) matchedOn[field] = value;
+  }
+
+  return {
+    rule_id: selected.rule.id,
+    rule_name: selected.rule.name,
+    exemption_type: selected.rule.exemption_type,
+    exemption_value: Number(selected.rule.exemption_value),
+    matched_on: matchedOn,
+    owner_customer_id: selected.owner?.customer_id ?? null,
+    base_assessment: baseAssessment,
+    exemption_amount: selected.amount,
+    applied_at: new Date().toISOString(),
+  };
+};
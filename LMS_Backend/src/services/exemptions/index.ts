@@ -0,0 +1,8 @@
+/**
+ * Exemptions Module - Exemption policies by owner customer type and property details
+ */
+
+export { ExemptionService } from './ExemptionService';
+export { applyExemption, calculateExemptionAmount } from './exemptionCalculator';
+
+export * from './types';
@@ -0,0 +1,62 @@
+/**
+ * Types for tax exemption policies
+ */
+
+export type ExemptionType = 'FULL' | 'PERCENTAGE' | 'FIXED';
+
+export interface ExemptionRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  customer_type: string | null;
+  property_type_id: string | null;
+  is_downtown: boolean | null;
+  is_building: boolean | null;
+  occupancy_type: string | null;
+  exemption_type: ExemptionType;
+  exemption_value: number;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+}
+
+export type ExemptionRuleInput = Omit<ExemptionRule, 'id'>;
+
+/**
+ * Current owner or co-owner of a property
+ */
+export interface ExemptionOwner {
+  customer_id: string;
+  customer_type: string;
+}
+
+/**
+ * The property, owner and assessment values a rule is matched on
+ */
+export interface ExemptionContext {
+  property_type_id: string | null;
+  is_downtown: boolean | null;
+  is_building: boolean | null;
+  occupancy_type: string;
+  owners: ExemptionOwner[];
+  assessment_date: string;
+}
+
+export const EXEMPTION_PROPERTY_FIELDS = [
+  'property_type_id',
+  'is_downtown',
+  'is_building',
+  'occupancy_type',
+] as const;
+
+export interface TaxExemptionDetails {
+  rule_id: string;
+  rule_name: string;
+  exemption_type: ExemptionType;
+  exemption_value: number;
+  matched_on: Record<string, string | boolean>;
+  owner_customer_id: string | null;
+  base_assessment: number;
+  exemption_amount: number;
+  applied_at: string;
+}
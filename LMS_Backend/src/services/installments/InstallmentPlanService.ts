@@ -0,0 +1,414 @@
+/**
+ * Installment Plan Service - Payment plans for tax assessments
+ *
+ * A plan spreads the outstanding amount of an assessment over a schedule of
+ * installments. Whenever a payment, reversal or refund is recorded the plan is
+ * reallocated from the assessment's paid_amount, so installments always reflect the
+ * payment history. The daily check flags installments missed after their due date
+ * and moves the plan to DEFAULTED; only ACTIVE plans keep the assessment out of the
+ * penalty job. Once a plan stops being ACTIVE, the time it was current is recorded as a
+ * penalty suspension so that charges resume from where they stopped.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { allocateToInstallments, buildSchedule, getPlanStatus, roundAmount } from './installmentSchedule';
+import {
+  InstallmentCheckSummary,
+  InstallmentPlan,
+  InstallmentPlanInput,
+  InstallmentPlanStatus,
+  ScheduledInstallment,
+} from './types';
+
+const PLAN_SELECT = `
+  *,
+  installments:tax_installments(*),
+  creator:users!tax_installment_plans_created_by_fkey(full_name),
+  canceller:users!tax_installment_plans_cancelled_by_fkey(full_name)
+`;
+
+const OPEN_STATUSES: InstallmentPlanStatus[] = ['ACTIVE', 'DEFAULTED'];
+const PLANNABLE_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+const PAGE_SIZE = 1000;
+
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+export class InstallmentPlanService {
+  async getPlans(assessmentId: string) {
+    const { data, error } = await supabase
+      .from('tax_installment_plans')
+      .select(PLAN_SELECT)
+      .eq('assessment_id', assessmentId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || []).map((plan) => this.sortInstallments(plan));
+  }
+
+  async createPlan(assessmentId: string, input: InstallmentPlanInput, userId: string) {
+    const { data: assessment, error: assessmentError } = await supabase
+      .from('tax_assessments')
+      .select('*')
+      .eq('id', assessmentId)
+      .maybeSingle();
+
+    if (assessmentError) throw new AppError(assessmentError.message, 500);
+    if (!assessment) throw new AppError('Tax assessment not found', 404);
+    if (assessment.is_archived) throw new AppError('Archived assessments cannot be put on a payment plan', 400);
+
+    const outstanding = roundAmount(Number(assessment.outstanding_amount || 0));
+    if (!PLANNABLE_STATUSES.includes(assessment.status) || outstanding <= 0) {
+      throw new AppError('Only assessments with an outstanding amount can be put on a payment plan', 400);
+    }
+
+    const schedule: ScheduledInstallment[] = input.installments?.length
+      ? input.installments.map((installment) => ({
+          due_date: String(installment.due_date).slice(0, 10),
+          amount: roundAmount(Number(installment.amount)),
+        }))
+      : buildSchedule(
+          outstanding,
+          input.installment_count!,
+          input.first_due_date!.slice(0, 10),
+          input.interval_months || 1
+        );
+
+    this.validateSchedule(schedule, outstanding);
+
+    const { data: plan, error: planError } = await supabase
+      .from('tax_installment_plans')
+      .insert({
+        assessment_id: assessmentId,
+        total_amount: outstanding,
+        opening_paid_amount: Number(assessment.paid_amount || 0),
+        penalty_suspended_from: today(),
+        notes: input.notes || null,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (planError) {
+      if (planError.code === '23505') {
+        throw new AppError('This assessment already has an open payment plan', 409);
+      }
+      throw new AppError(planError.message, 500);
+    }
+
+    const { error: installmentsError } = await supabase.from('tax_installments').insert(
+      schedule.map((installment, index) => ({
+        plan_id: plan.id,
+        installment_number: index + 1,
+        due_date: installment.due_date,
+        amount: roundAmount(installment.amount),
+      }))
+    );
+
+    if (installmentsError) {
+      await supabase.from('tax_installment_plans').delete().eq('id', plan.id);
+      throw new AppError(installmentsError.message, 500);
+    }
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'tax_assessment',
+      entity_id: assessmentId,
+      action: 'create',
+      field: 'installment_plan',
+      old_value: null,
+      new_value: `${schedule.length} installments totalling ${outstanding.toFixed(2)}`,
+      changed_by: userId,
+    });
+
+    // A current plan replaces the original due date, so the assessment is no longer overdue.
+    // Setting ASSESSED lets the status trigger recompute ASSESSED or PARTIAL.
+    if (assessment.status === 'OVERDUE') {
+      const { data: updated, error: statusError } = await supabase
+        .from('tax_assessments')
+        .update({ status: 'ASSESSED' })
+        .eq('id', assessmentId)
+        .select('status')
+        .single();
+
+      if (statusError) throw new AppError(statusError.message, 500);
+
+      await supabase.from('audit_logs').insert({
+        entity_type: 'tax_assessment',
+        entity_id: assessmentId,
+        action: 'update',
+        field: 'status',
+        old_value: assessment.status,
+        new_value: updated.status,
+        changed_by: userId,
+      });
+    }
+
+    return this.getPlan(plan.id);
+  }
+
+  async cancelPlan(planId: string, reason: string, userId: string) {
+    const plan = await this.getPlan(planId);
+    if (!OPEN_STATUSES.includes(plan.status)) {
+      throw new AppError('Only active or defaulted payment plans can be cancelled', 409);
+    }
+
+    const { data, error } = await supabase
+      .from('tax_installment_plans')
+      .update({
+        status: 'CANCELLED',
+        // A defaulted plan is already being charged from its first missed installment
+        penalty_resumes_on: plan.status === 'ACTIVE' ? today() : plan.penalty_resumes_on,
+        cancelled_by: userId,
+        cancelled_at: new Date().toISOString(),
+        cancel_reason: reason,
+      })
+      .eq('id', planId)
+      .eq('status', plan.status)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Payment plan was changed by someone else, please try again', 409);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'tax_assessment',
+      entity_id: data.assessment_id,
+      action: 'update',
+      field: 'installment_plan',
+      old_value: null,
+      new_value: `CANCELLED: ${reason}`,
+      changed_by: userId,
+    });
+
+    return this.getPlan(planId);
+  }
+
+  /**
+   * Reallocate the payments of an assessment to its open plan, if it has one.
+   * Called after every payment, reversal or refund.
+   */
+  async allocatePayments(assessmentId: string, userId: string | null, asOf: string = today()) {
+    const { data: plan, error } = await supabase
+      .from('tax_installment_plans')
+      .select('*, installments:tax_installments(*)')
+      .eq('assessment_id', assessmentId)
+      .in('status', OPEN_STATUSES)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!plan) return null;
+
+    return this.refreshPlan(plan, asOf, userId);
+  }
+
+  /**
+   * Flag installments of ACTIVE plans left unpaid after their due date
+   */
+  async checkMissedInstallments(asOf: string = today(), userId: string | null = null): Promise<InstallmentCheckSummary> {
+    const summary: InstallmentCheckSummary = { as_of: asOf, checked: 0, defaulted: 0, failed: 0 };
+
+    const { data, error } = await supabase
+      .from('tax_installments')
+      .select('plan:tax_installment_plans!inner(*, installments:tax_installments(*))')
+      .in('status', ['PENDING', 'PARTIAL'])
+      .lt('due_date', asOf)
+      .eq('plan.status', 'ACTIVE');
+
+    if (error) throw new AppError(error.message, 500);
+
+    const plans = new Map<string, any>();
+    for (const row of data || []) {
+      const plan: any = row.plan;
+      if (plan) plans.set(plan.id, plan);
+    }
+
+    for (const plan of plans.values()) {
+      summary.checked++;
+
+      try {
+        const refreshed = await this.refreshPlan(plan, asOf, userId);
+        if (refreshed.status === 'DEFAULTED') summary.defaulted++;
+      } catch (error: any) {
+        summary.failed++;
+        logger.error(`Installment check failed for plan ${plan.id}:`, error.message);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Assessments on a current plan, which are neither marked OVERDUE nor penalised
+   */
+  async getCurrentPlanAssessmentIds(): Promise<Set<string>> {
+    const { data, error } = await supabase
+      .from('tax_installment_plans')
+      .select('assessment_id')
+      .eq('status', 'ACTIVE');
+
+    if (error) throw new AppError(error.message, 500);
+
+    return new Set((data || []).map((plan) => plan.assessment_id));
+  }
+
+  /**
+   * The periods each assessment spent on a plan that is no longer ACTIVE, which do not
+   * count towards its overdue period
+   */
+  async getPenaltySuspensions(): Promise<Map<string, Array<{ from: string; to: string }>>> {
+    const suspensions = new Map<string, Array<{ from: string; to: string }>>();
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('tax_installment_plans')
+        .select('assessment_id, penalty_suspended_from, penalty_resumes_on')
+        .neq('status', 'ACTIVE')
+        .not('penalty_resumes_on', 'is', null)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const plan of data || []) {
+        const periods = suspensions.get(plan.assessment_id) || [];
+        periods.push({ from: plan.penalty_suspended_from, to: plan.penalty_resumes_on });
+        suspensions.set(plan.assessment_id, periods);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return suspensions;
+  }
+
+  private async getPlan(planId: string): Promise<InstallmentPlan> {
+    const { data, error } = await supabase
+      .from('tax_installment_plans')
+      .select(PLAN_SELECT)
+      .eq('id', planId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Payment plan not found', 404);
+
+    return this.sortInstallments(data);
+  }
+
+  private async refreshPlan(plan: any, asOf: string, userId: string | null): Promise<InstallmentPlan> {
+    const { data: assessment, error } = await supabase
+      .from('tax_assessments')
+      .select('reference_id, paid_amount')
+      .eq('id', plan.assessment_id)
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const installments: any[] = plan.installments || [];
+    const paidTowardsPlan = Number(assessment.paid_amount || 0) - Number(plan.opening_paid_amount || 0);
+    const allocations = allocateToInstallments(installments, paidTowardsPlan, asOf);
+
+    for (const allocation of allocations) {
+      const installment = installments.find((item) => item.installment_number === allocation.installment_number);
+      if (
+        installment.status === allocation.status &&
+        Number(installment.paid_amount) === allocation.paid_amount
+      ) {
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from('tax_installments')
+        .update({
+          paid_amount: allocation.paid_amount,
+          status: allocation.status,
+          paid_at: allocation.status === 'PAID' ? installment.paid_at || new Date().toISOString() : null,
+        })
+        .eq('id', installment.id);
+
+      if (updateError) throw new AppError(updateError.message, 500);
+    }
+
+    const status = getPlanStatus(allocations);
+    const missed = allocations.find((allocation) => allocation.status === 'MISSED');
+
+    if (status !== plan.status) {
+      const changes: Record<string, any> = { status };
+      if (plan.status === 'ACTIVE') {
+        // Penalties resume from the first missed installment, or from today when the plan completes
+        changes.penalty_resumes_on = missed
+          ? installments.find((item) => item.installment_number === missed.installment_number).due_date
+          : asOf;
+      }
+
+      const { error: planError } = await supabase
+        .from('tax_installment_plans')
+        .update(changes)
+        .eq('id', plan.id);
+
+      if (planError) throw new AppError(planError.message, 500);
+
+      await supabase.from('audit_logs').insert({
+        entity_type: 'tax_assessment',
+        entity_id: plan.assessment_id,
+        action: 'update',
+        field: 'installment_plan',
+        old_value: plan.status,
+        new_value: status,
+        changed_by: userId,
+      });
+
+      if (status === 'DEFAULTED' && missed) {
+        await this.notifyMissed(plan, assessment.reference_id, missed.installment_number);
+      }
+    }
+
+    return this.getPlan(plan.id);
+  }
+
+  private validateSchedule(schedule: ScheduledInstallment[], outstanding: number) {
+    const total = roundAmount(schedule.reduce((sum, installment) => sum + Number(installment.amount), 0));
+    if (total !== outstanding) {
+      throw new AppError(
+        `Installments total ${total.toFixed(2)} but the outstanding amount is ${outstanding.toFixed(2)}`,
+        400
+      );
+    }
+
+    if (schedule.some((installment) => Number(installment.amount) <= 0)) {
+      throw new AppError('Every installment must be more than zero', 400);
+    }
+
+    const todayDate = today();
+    schedule.forEach((installment, index) => {
+      if (installment.due_date < todayDate) {
+        throw new AppError('Installment due dates cannot be in the past', 400);
+      }
+      if (index > 0 && installment.due_date <= schedule[index - 1].due_date) {
+        throw new AppError('Installment due dates must be in ascending order', 400);
+      }
+    });
+  }
+
+  private sortInstallments(plan: any) {
+    return {
+      ...plan,
+      installments: [...(plan.installments || [])].sort((a, b) => a.installment_number - b.installment_number),
+    };
+  }
+
+  private async notifyMissed(plan: any, referenceId: string, installmentNumber: number) {
+    try {
+      await supabase.from('notifications').insert({
+        user_id: plan.created_by,
+        title: 'Installment Missed',
+        message: `Installment ${installmentNumber} of the payment plan for assessment ${referenceId} was not paid on time`,
+        entity_type: 'TAX_ASSESSMENT',
+        entity_id: plan.assessment_id,
+      });
+    } catch (notifError) {
+      console.error('Failed to create notification:', notifError);
+    }
+  }
+}
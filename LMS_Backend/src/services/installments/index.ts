@@ -0,0 +1,8 @@
+/**
+ * Installments Module - Installment payment plans for tax assessments
+ */
+
+export { InstallmentPlanService } from './InstallmentPlanService';
+export { addMonths, allocateToInstallments, buildSchedule, getPlanStatus } from './installmentSchedule';
+
+export * from './types';
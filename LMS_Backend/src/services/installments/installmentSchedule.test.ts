@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { addMonths, allocateToInstallments, buildSchedule, getPlanStatus } from './installmentSchedule';
+
+const installments = [
+  { installment_number: 1, due_date: '2025-01-31', amount: 33.33 },
+  { installment_number: 2, due_date: '2025-02-28', amount: 33.33 },
+  { installment_number: 3, due_date: '2025-03-31', amount: 33.34 },
+];
+
+describe('addMonths', () => {
+  it('keeps the day of the month and clamps it to shorter months', () => {
+    expect(addMonths('2025-01-15', 1)).toBe('2025-02-15');
+    expect(addMonths('2025-01-31', 1)).toBe('2025-02-28');
+    expect(addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(addMonths('2025-11-30', 3)).toBe('2026-02-28');
+  });
+});
+
+describe('buildSchedule', () => {
+  it('puts the rounding difference on the last installment', () => {
+    const schedule = buildSchedule(100, 3, '2025-01-31');
+
+    expect(schedule).toEqual([
+      { due_date: '2025-01-31', amount: 33.33 },
+      { due_date: '2025-02-28', amount: 33.33 },
+      { due_date: '2025-03-31', amount: 33.34 },
+    ]);
+    expect(schedule.reduce((sum, installment) => sum + installment.amount, 0)).toBeCloseTo(100, 2);
+  });
+
+  it('spaces the installments by the interval', () => {
+    const schedule = buildSchedule(1200, 4, '2025-01-15', 3);
+
+    expect(schedule.map((installment) => installment.due_date)).toEqual([
+      '2025-01-15',
+      '2025-04-15',
+      '2025-07-15',
+      '2025-10-15',
+    ]);
+    expect(schedule.every((installment) => installment.amount === 300)).toBe(true);
+  });
+
+  it('rounds the amounts down to cents', () => {
+    const schedule = buildSchedule(10.01, 2, '2025-01-01');
+
+    expect(schedule.map((installment) => installment.amount)).toEqual([5, 5.01]);
+  });
+});
+
+describe('allocateToInstallments', () => {
+  it('pays the installments in order and misses an underpaid one after its due date', () => {
+    const allocations = allocateToInstallments([...installments].reverse(), 50, '2025-03-01');
+
+    expect(allocations).toEqual([
+      { installment_number: 1, paid_amount: 33.33, status: 'PAID' },
+      { installment_number: 2, paid_amount: 16.67, status: 'MISSED' },
+      { installment_number: 3, paid_amount: 0, status: 'PENDING' },
+    ]);
+    expect(getPlanStatus(allocations)).toBe('DEFAULTED');
+  });
+
+  it('leaves an installment partly paid until the end of its due date', () => {
+    const allocations = allocateToInstallments(installments, 50, '2025-02-28');
+
+    expect(allocations[1]).toEqual({ installment_number: 2, paid_amount: 16.67, status: 'PARTIAL' });
+    expect(getPlanStatus(allocations)).toBe('ACTIVE');
+  });
+
+  it('completes the plan once everything is paid', () => {
+    const allocations = allocateToInstallments(installments, 150, '2025-06-01');
+
+    expect(allocations.map((allocation) => allocation.status)).toEqual(['PAID', 'PAID', 'PAID']);
+    expect(allocations[2].paid_amount).toBe(33.34);
+    expect(getPlanStatus(allocations)).toBe('COMPLETED');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Installment Schedule - Builds payment plan schedules and allocates payments to them
+ *
+ * Payments made since the plan started are allocated to the installments in due date
+ * order, so an installment is only credited once every earlier one is paid in full.
+ * An installment not fully paid by the end of its due date is MISSED.
+ */
+
+import { InstallmentAllocation, InstallmentPlanStatus, ScheduledInstallment } from './types';
+
+const toDate = (value: string): Date => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Same day of the month, months later; clamped to the end of shorter months
+ */
+export const addMonths = (date: string, months: number): string => {
+  const start = toDate(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+
+  return formatDate(target);
+};
+
+/**
+ * Equal installments at a fixed interval; rounding differences go to the last one
+ */
+export const buildSchedule = (
+  total: number,
+  count: number,
+  firstDueDate: string,
+  intervalMonths: number = 1
+): ScheduledInstallment[] => {
+  const amount = Math.floor((total * 100) / count) / 100;
+
+  return Array.from({ length: count }, (_, index) => ({
+    due_date: addMonths(firstDueDate, index * intervalMonths),
+    amount: index === count - 1 ? roundAmount(total - amount * (count - 1)) : amount,
+  }));
+};
+
+/**
+ * Spread the amount paid towards the plan over the installments as of the given date
+ */
+export const allocateToInstallments = (
+  installments: Array<{ installment_number: number; due_date: string; amount: number }>,
+  paidTowardsPlan: number,
+  asOf: string
+): InstallmentAllocation[] => {
+  let remaining = roundAmount(Math.max(paidTowardsPlan, 0));
+
+  return [...installments]
+    .sort((a, b) => a.installment_number - b.installment_number)
+    .map((installment) => {
+      const amount = Number(installment.amount);
+      const paid = roundAmount(Math.min(remaining, amount));
+      remaining = roundAmount(remaining - paid);
+
+      let status: InstallmentAllocation['status'];
+      if (paid >= amount) status = 'PAID';
+      else if (installment.due_date.slice(0, 10) < asOf) status = 'MISSED';
+      else if (paid > 0) status = 'PARTIAL';
+      else status = 'PENDING';
+
+      return { installment_number: installment.installment_number, paid_amount: paid, status };
+    });
+};
+
+export const getPlanStatus = (allocations: InstallmentAllocation[]): InstallmentPlanStatus => {
+  if (allocations.every((allocation) => allocation.status === 'PAID')) return 'COMPLETED';
+  if (allocations.some((allocation) => allocation.status === 'MISSED')) return 'DEFAULTED';
+  return 'ACTIVE';
+};
@@ -0,0 +1,67 @@
+/**
+ * Types for installment payment plans on tax assessments
+ */
+
+export type InstallmentPlanStatus = 'ACTIVE' | 'DEFAULTED' | 'COMPLETED' | 'CANCELLED';
+
+export type InstallmentStatus = 'PENDING' | 'PARTIAL' | 'PAID' | 'MISSED';
+
+export interface ScheduledInstallment {
+  due_date: string;
+  amount: number;
+}
+
+/**
+ * Either an explicit schedule, or a number of equal installments at a fixed interval
+ */
+export interface InstallmentPlanInput {
+  installments?: ScheduledInstallment[];
+  installment_count?: number;
+  first_due_date?: string;
+  interval_months?: number;
+  notes?: string | null;
+}
+
+export interface Installment {
+  id: string;
+  plan_id: string;
+  installment_number: number;
+  due_date: string;
+  amount: number;
+  paid_amount: number;
+  status: InstallmentStatus;
+  paid_at: string | null;
+}
+
+export interface InstallmentPlan {
+  id: string;
+  assessment_id: string;
+  status: InstallmentPlanStatus;
+  total_amount: number;
+  opening_paid_amount: number;
+  penalty_suspended_from: string;
+  penalty_resumes_on: string | null; // charges resume from here once the plan is no longer ACTIVE
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  cancelled_by: string | null;
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  installments?: Installment[];
+}
+
+/**
+ * Paid amount and status of one installment after allocating the plan payments
+ */
+export interface InstallmentAllocation {
+  installment_number: number;
+  paid_amount: number;
+  status: InstallmentStatus;
+}
+
+export interface InstallmentCheckSummary {
+  as_of: string;
+  checked: number;
+  defaulted: number;
+  failed: number;
+}
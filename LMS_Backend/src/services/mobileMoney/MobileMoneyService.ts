@@ -0,0 +1,409 @@
+/**
+ * Mobile Money Service - Payment requests to payers' phones and the provider callbacks
+ *
+ * A request is sent for part or all of an assessment's outstanding amount. When the
+ * provider calls back, the request is claimed before anything is posted, so a callback
+ * delivered twice posts one payment. Money that arrives but cannot be posted (e.g. the
+ * balance was settled at the counter meanwhile) leaves the request for review instead
+ * of being lost.
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { supabase } from '../../config/database';
+import { config } from '../../config/env';
+import { AppError } from '../../middleware/errorHandler';
+import { TaxService } from '../taxService';
+import { findMobileMoneyProvider, getActiveMobileMoneyProvider, getMobileMoneyProvider } from './providerRegistry';
+import { SimulatorProvider } from './SimulatorProvider';
+import {
+  CallbackResult,
+  MobileMoneyOutcome,
+  MobileMoneyRequestFilters,
+  MobileMoneyRequestInput,
+  MobileMoneyRequestStatus,
+  ProviderCallback,
+} from './types';
+
+const OPEN_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+const WAITING_STATUSES: MobileMoneyRequestStatus[] = ['PENDING', 'PROCESSING'];
+
+const REQUEST_SELECT = `
+  *,
+  assessment:tax_assessments(id, reference_id, tax_year, outstanding_amount),
+  payment:tax_payments(id, receipt_number),
+  requester:users!mobile_money_requests_requested_by_fkey(full_name)
+`;
+
+export class MobileMoneyService {
+  private taxService = new TaxService();
+
+  /**
+   * Active provider and currency, and whether requests can be completed from the app.
+   * Without a registered provider mobile money is reported as not enabled.
+   */
+  getSettings() {
+    const provider = findMobileMoneyProvider(config.mobileMoneyProvider);
+    return {
+      enabled: provider !== null,
+      provider: provider ? provider.name : config.mobileMoneyProvider,
+      currency: config.mobileMoneyCurrency,
+      simulator: provider instanceof SimulatorProvider,
+    };
+  }
+
+  async getRequests(filters: MobileMoneyRequestFilters) {
+    let query = supabase.from('mobile_money_requests').select(REQUEST_SELECT);
+
+    if (filters.assessment_id) {
+      query = query.eq('assessment_id', filters.assessment_id);
+    }
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(200);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async getRequest(id: string) {
+    const { data, error } = await supabase
+      .from('mobile_money_requests')
+      .select(REQUEST_SELECT)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Mobile money request not found', 404);
+
+    return data;
+  }
+
+  /**
+   * Send a payment request to the payer's phone
+   */
+  async requestPayment(input: MobileMoneyRequestInput, userId: string) {
+    const { data: assessment, error } = await supabase
+      .from('tax_assessments')
+      .select('id, reference_id, tax_year, status, outstanding_amount, property_id, is_archived')
+      .eq('id', input.assessment_id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!assessment) throw new AppError('Tax assessment not found', 404);
+
+    if (!assessment.property_id) {
+      throw new AppError('Cannot request a payment: this tax assessment does not have a property assigned', 400);
+    }
+    if (assessment.is_archived || !OPEN_STATUSES.includes(assessment.status)) {
+      throw new AppError(`${assessment.reference_id} is not open for payment`, 400);
+    }
+
+    // Requests still waiting for the payer hold part of the balance
+    const { data: waiting, error: waitingError } = await supabase
+      .from('mobile_money_requests')
+      .select('amount')
+      .eq('assessment_id', assessment.id)
+      .in('status', WAITING_STATUSES);
+
+    if (waitingError) throw new AppError(waitingError.message, 500);
+
+    const held = (waiting || []).reduce((sum, request) => sum + Number(request.amount), 0);
+    const available = Math.round((Number(assessment.outstanding_amount) - held) * 100) / 100;
+    if (input.amount > available + 0.005) {
+      throw new AppError(
+        held > 0
+          ? `Only ${Math.max(available, 0).toFixed(2)} can be requested; ${held.toFixed(2)} is already waiting for the payer`
+          : 'Payment amount cannot exceed the outstanding amount',
+        400
+      );
+    }
+
+    const provider = getActiveMobileMoneyProvider();
+    const { data: request, error: insertError } = await supabase
+      .from('mobile_money_requests')
+      .insert({
+        request_number: await this.generateRequestNumber(),
+        assessment_id: assessment.id,
+        provider: provider.name,
+        phone_number: input.phone_number,
+        amount: input.amount,
+        currency: config.mobileMoneyCurrency,
+        requested_by: userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw new AppError(insertError.message, 500);
+
+    try {
+      const response = await provider.requestPayment({
+        request_number: request.request_number,
+        phone_number: request.phone_number,
+        amount: Number(request.amount),
+        currency: request.currency,
+        description: `Property tax ${assessment.reference_id} (${assessment.tax_year})`,
+        callback_url: this.getCallbackUrl(provider.name),
+      });
+
+      await supabase
+        .from('mobile_money_requests')
+        .update({ provider_reference: response.provider_reference })
+        .eq('id', request.id);
+    } catch (providerError: any) {
+      await supabase
+        .from('mobile_money_requests')
+        .update({ status: 'FAILED', failure_reason: providerError.message, completed_at: new Date().toISOString() })
+        .eq('id', request.id);
+      throw new AppError(`The mobile-money provider refused the request: ${providerError.message}`, 502);
+    }
+
+    return this.getRequest(request.id);
+  }
+
+  /**
+   * Handle a provider callback. Invalid signatures are refused; a callback for a request
+   * that has already been settled changes nothing and is acknowledged as a duplicate.
+   */
+  async handleCallback(providerName: string, rawBody: Buffer | undefined, headers: IncomingHttpHeaders): Promise<CallbackResult> {
+    const provider = getMobileMoneyProvider(providerName);
+
+    let payload: any = null;
+    try {
+      payload = rawBody ? JSON.parse(rawBody.toString('utf8')) : null;
+    } catch {
+      payload = null;
+    }
+
+    if (!rawBody || !provider.verifySignature(rawBody, headers)) {
+      await this.logCallback(provider.name, null, false, payload, 'rejected: invalid signature');
+      throw new AppError('Invalid callback signature', 401);
+    }
+
+    let callback: ProviderCallback;
+    try {
+      callback = provider.parseCallback(payload);
+    } catch (error: any) {
+      await this.logCallback(provider.name, null, true, payload, `rejected: ${error.message}`);
+      throw error;
+    }
+
+    const { data: request, error } = await supabase
+      .from('mobile_money_requests')
+      .select('*')
+      .eq('provider', provider.name)
+      .eq('provider_reference', callback.provider_reference)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!request) {
+      await this.logCallback(provider.name, null, true, payload, 'rejected: unknown request');
+      throw new AppError('Unknown payment request', 404);
+    }
+
+    const result =
+      callback.outcome === 'SUCCEEDED'
+        ? await this.settlePaid(request, callback)
+        : await this.settleFailed(request, callback);
+
+    await this.logCallback(provider.name, request.id, true, payload, result.outcome);
+
+    return result;
+  }
+
+  /**
+   * Complete a simulator request as if the payer had answered on their phone
+   */
+  async simulate(id: string, outcome: MobileMoneyOutcome) {
+    const request = await this.getRequest(id);
+    const provider = getMobileMoneyProvider(request.provider);
+
+    if (!(provider instanceof SimulatorProvider)) {
+      throw new AppError('Only requests sent through the simulator can be completed from the app', 400);
+    }
+    if (request.status !== 'PENDING' || !request.provider_reference) {
+      throw new AppError('This request is no longer waiting for the payer', 400);
+    }
+
+    await provider.sendCallback(
+      {
+        provider_reference: request.provider_reference,
+        request_number: request.request_number,
+        phone_number: request.phone_number,
+        amount: Number(request.amount),
+        currency: request.currency,
+        callback_url: this.getCallbackUrl(provider.name),
+      },
+      outcome
+    );
+
+    return this.getRequest(id);
+  }
+
+  private async settlePaid(request: any, callback: ProviderCallback): Promise<CallbackResult> {
+    // Claim the request; only the first delivery of the callback gets past this point
+    const { data: claimed, error } = await supabase
+      .from('mobile_money_requests')
+      .update({ status: 'PROCESSING', provider_transaction_id: callback.transaction_id })
+      .eq('id', request.id)
+      .eq('status', 'PENDING')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return { request_number: request.request_number, status: request.status, outcome: 'duplicate: transaction already posted' };
+      }
+      throw new AppError(error.message, 500);
+    }
+    if (!claimed) {
+      return { request_number: request.request_number, status: request.status, outcome: `duplicate: request already ${request.status}` };
+    }
+
+    const amount = callback.amount === null ? Number(request.amount) : callback.amount;
+    if (Math.abs(amount - Number(request.amount)) > 0.005) {
+      return this.finish(request, 'NEEDS_REVIEW', {
+        failure_reason: `The provider reported ${amount.toFixed(2)} instead of the ${Number(request.amount).toFixed(2)} requested`,
+      });
+    }
+
+    try {
+      const payment = await this.taxService.recordPayment(
+        request.assessment_id,
+        {
+          payment_date: new Date().toISOString().slice(0, 10),
+          amount_paid: amount,
+          payment_method: 'MOBILE_MONEY',
+          notes: [
+            `Mobile money ${request.request_number}`,
+            `${request.provider} transaction ${callback.transaction_id || request.provider_reference}`,
+            request.phone_number,
+          ].join(', '),
+        },
+        request.requested_by
+      );
+
+      return this.finish(request, 'PAID', { payment_id: payment.id });
+    } catch (postError: any) {
+      return this.finish(request, 'NEEDS_REVIEW', { failure_reason: postError.message });
+    }
+  }
+
+  private async settleFailed(request: any, callback: ProviderCallback): Promise<CallbackResult> {
+    const { data: failed, error } = await supabase
+      .from('mobile_money_requests')
+      .update({
+        status: 'FAILED',
+        failure_reason: callback.reason || 'The payer did not complete the payment',
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', request.id)
+      .eq('status', 'PENDING')
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!failed) {
+      return { request_number: request.request_number, status: request.status, outcome: `duplicate: request already ${request.status}` };
+    }
+
+    await this.notifyRequester(failed);
+
+    return { request_number: request.request_number, status: 'FAILED', outcome: 'failed' };
+  }
+
+  private async finish(
+    request: any,
+    status: MobileMoneyRequestStatus,
+    changes: { payment_id?: string; failure_reason?: string }
+  ): Promise<CallbackResult> {
+    const { data: finished, error } = await supabase
+      .from('mobile_money_requests')
+      .update({ ...changes, status, completed_at: new Date().toISOString() })
+      .eq('id', request.id)
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    await this.notifyRequester(finished);
+
+    return {
+      request_number: request.request_number,
+      status,
+      outcome: status === 'PAID' ? 'posted' : `needs review: ${changes.failure_reason}`,
+    };
+  }
+
+  private async notifyRequester(request: any): Promise<void> {
+    const amount = Number(request.amount).toFixed(2);
+    const messages: Partial<Record<MobileMoneyRequestStatus, { title: string; message: string }>> = {
+      PAID: {
+        title: 'Mobile Money Payment Received',
+        message: `${request.phone_number} paid ${amount} ${request.currency} for request ${request.request_number}; the payment has been posted`,
+      },
+      FAILED: {
+        title: 'Mobile Money Payment Failed',
+        message: `Request ${request.request_number} to ${request.phone_number} was not paid: ${request.failure_reason}`,
+      },
+      NEEDS_REVIEW: {
+        title: 'Mobile Money Payment Needs Review',
+        message: `${amount} ${request.currency} arrived for request ${request.request_number} but could not be posted: ${request.failure_reason}`,
+      },
+    };
+
+    const notification = messages[request.status as MobileMoneyRequestStatus];
+    if (!notification) return;
+
+    await supabase.from('notifications').insert({
+      user_id: request.requested_by,
+      ...notification,
+      entity_type: 'TAX_ASSESSMENT',
+      entity_id: request.assessment_id,
+    });
+  }
+
+  private async logCallback(
+    provider: string,
+    requestId: string | null,
+    signatureValid: boolean,
+    payload: any,
+    outcome: string
+  ): Promise<void> {
+    await supabase.from('mobile_money_callbacks').insert({
+      provider,
+      request_id: requestId,
+      signature_valid: signatureValid,
+      payload,
+      outcome,
+    });
+  }
+
+  private getCallbackUrl(providerName: string): string {
+    return `${config.publicApiUrl.replace(/\/+$/, '')}/api/${config.apiVersion}/mobile-money/callbacks/${providerName}`;
+  }
+
+  /**
+   * Next free number in the MM-<year>-NNNNN sequence of the current year
+   */
+  private async generateRequestNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const { data, error } = await supabase
+      .from('mobile_money_requests')
+      .select('request_number')
+      .like('request_number', `MM-${year}-%`)
+      .order('request_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const lastNumber = data ? parseInt(data.request_number.split('-').pop() || '0', 10) : 0;
+    const nextNumber = (Number.isFinite(lastNumber) ? lastNumber : 0) + 1;
+
+    return `MM-${year}-${String(nextNumber).padStart(5, '0')}`;
+  }
+}
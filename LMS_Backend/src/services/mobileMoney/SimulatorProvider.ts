@@ -0,0 +1,123 @@
+/**
+ * Simulator Provider - Local stand-in for a mobile-money provider
+ *
+ * Accepts every payment request and reports the payer's answer through a signed callback
+ * to the regular callback endpoint, so the whole flow can be tried without a provider
+ * account. Requests complete when triggered from the app or, when a delay is configured,
+ * on their own: payers whose phone number ends in 000 then decline.
+ */
+
+import { randomUUID } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { signPayload, verifySignatureHeader } from './signature';
+import {
+  MobileMoneyOutcome,
+  MobileMoneyProvider,
+  ProviderCallback,
+  ProviderPaymentRequest,
+  ProviderPaymentResponse,
+} from './types';
+
+export const SIMULATOR_SIGNATURE_HEADER = 'x-simulator-signature';
+
+const CALLBACK_TIMEOUT_MS = 15000;
+
+export interface SimulatedPayment {
+  provider_reference: string;
+  request_number: string;
+  phone_number: string;
+  amount: number;
+  currency: string;
+  callback_url: string;
+}
+
+export class SimulatorProvider implements MobileMoneyProvider {
+  readonly name = 'simulator';
+
+  constructor(
+    private readonly secret: string,
+    private readonly autoCompleteDelayMs: number = 0
+  ) {}
+
+  async requestPayment(request: ProviderPaymentRequest): Promise<ProviderPaymentResponse> {
+    const providerReference = `SIM-${randomUUID()}`;
+
+    if (this.autoCompleteDelayMs > 0) {
+      const payment: SimulatedPayment = { ...request, provider_reference: providerReference };
+      const outcome: MobileMoneyOutcome = request.phone_number.endsWith('000') ? 'FAILED' : 'SUCCEEDED';
+      setTimeout(() => {
+        this.sendCallback(payment, outcome).catch((error) =>
+          logger.error(`Simulated mobile-money callback for ${request.request_number} failed: ${error.message}`)
+        );
+      }, this.autoCompleteDelayMs);
+    }
+
+    return { provider_reference: providerReference };
+  }
+
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean {
+    const header = headers[SIMULATOR_SIGNATURE_HEADER];
+    return verifySignatureHeader(this.secret, Array.isArray(header) ? header[0] : header, rawBody);
+  }
+
+  parseCallback(payload: any): ProviderCallback {
+    if (!payload || typeof payload.reference !== 'string' || !['payment.completed', 'payment.failed'].includes(payload.event)) {
+      throw new AppError('Malformed simulator callback', 400);
+    }
+
+    return {
+      provider_reference: payload.reference,
+      transaction_id: payload.transaction_id || null,
+      outcome: payload.event === 'payment.completed' ? 'SUCCEEDED' : 'FAILED',
+      amount: payload.amount === undefined || payload.amount === null ? null : Number(payload.amount),
+      reason: payload.reason || null,
+    };
+  }
+
+  /**
+   * Play the payer's answer: POST a signed callback to the callback URL of the request
+   */
+  async sendCallback(payment: SimulatedPayment, outcome: MobileMoneyOutcome): Promise<void> {
+    const body = JSON.stringify({
+      event: outcome === 'SUCCEEDED' ? 'payment.completed' : 'payment.failed',
+      reference: payment.provider_reference,
+      merchant_reference: payment.request_number,
+      transaction_id: outcome === 'SUCCEEDED' ? `SIMTX-${randomUUID()}` : null,
+      amount: payment.amount,
+      currency: payment.currency,
+      phone_number: payment.phone_number,
+      reason: outcome === 'FAILED' ? 'Payer declined the payment' : null,
+      timestamp: new Date().toISOString(),
+    });
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(payment.callback_url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SIMULATOR_SIGNATURE_HEADER]: signPayload(this.secret, body),
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const payload: any = await response.json().catch(() => null);
+        throw new AppError(
+          `Callback endpoint answered HTTP ${response.status}${payload?.message ? `: ${payload.message}` : ''}`,
+          502
+        );
+      }
+    } catch (error: any) {
+      if (error instanceof AppError) throw error;
+      throw new AppError(`Could not reach the callback endpoint: ${error.message}`, 502);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
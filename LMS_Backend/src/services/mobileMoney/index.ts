@@ -0,0 +1,15 @@
+/**
+ * Mobile Money Module - Payment requests through mobile-money providers and their callbacks
+ */
+
+export { MobileMoneyService } from './MobileMoneyService';
+export { SimulatorProvider, SIMULATOR_SIGNATURE_HEADER } from './SimulatorProvider';
+export {
+  findMobileMoneyProvider,
+  getActiveMobileMoneyProvider,
+  getMobileMoneyProvider,
+  registerMobileMoneyProvider,
+} from './providerRegistry';
+export { signPayload, verifySignatureHeader } from './signature';
+
+export * from './types';
@@ -0,0 +1,55 @@
+/**
+ * Provider Registry - Mobile-money providers by name
+ *
+ * A provider integration implements MobileMoneyProvider and registers itself here;
+ * MOBILE_MONEY_PROVIDER picks the one used for new requests. Callbacks are routed by
+ * the provider name in their URL. The simulator is only available outside production.
+ */
+
+import { config } from '../../config/env';
+import { AppError } from '../../middleware/errorHandler';
+import { SimulatorProvider } from './SimulatorProvider';
+import { MobileMoneyProvider } from './types';
+
+// Secret of the simulator when no webhook secret is configured
+const LOCAL_SIMULATOR_SECRET = 'local-simulator-secret';
+
+const providers = new Map<string, MobileMoneyProvider>();
+let defaultsRegistered = false;
+
+const registerDefaults = (): void => {
+  if (defaultsRegistered) return;
+  defaultsRegistered = true;
+
+  if (config.nodeEnv !== 'production') {
+    registerMobileMoneyProvider(
+      new SimulatorProvider(config.mobileMoneyWebhookSecret || LOCAL_SIMULATOR_SECRET, config.mobileMoneySimulatorDelayMs)
+    );
+  }
+};
+
+export const registerMobileMoneyProvider = (provider: MobileMoneyProvider): void => {
+  providers.set(provider.name, provider);
+};
+
+/**
+ * The provider registered under the name, or null when there is none
+ */
+export const findMobileMoneyProvider = (name: string): MobileMoneyProvider | null => {
+  registerDefaults();
+  return providers.get(name) || null;
+};
+
+export const getMobileMoneyProvider = (name: string): MobileMoneyProvider => {
+  const provider = findMobileMoneyProvider(name);
+  if (!provider) {
+    throw new AppError(`Mobile-money provider "${name}" is not available`, 404);
+  }
+  return provider;
+};
+
+/**
+ * The provider that new payment requests are sent to
+ */
+export const getActiveMobileMoneyProvider = (): MobileMoneyProvider =>
+  getMobileMoneyProvider(config.mobileMoneyProvider);
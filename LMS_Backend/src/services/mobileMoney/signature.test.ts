@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { signPayload, verifySignatureHeader } from './signature';
+
+const SECRET = 'callback-secret';
+const NOW = 1_740_000_000;
+const body = Buffer.from(JSON.stringify({ request_id: 'req-1', status: 'SUCCESS', amount: 25 }));
+
+describe('signPayload', () => {
+  it('writes the timestamp and a hex HMAC-SHA256', () => {
+    expect(signPayload(SECRET, body, NOW)).toMatch(new RegExp(`^t=${NOW},v1=[0-9a-f]{64}$`));
+  });
+
+  it('signs the same body the same way from a string or a buffer', () => {
+    expect(signPayload(SECRET, body.toString(), NOW)).toBe(signPayload(SECRET, body, NOW));
+  });
+});
+
+describe('verifySignatureHeader', () => {
+  it('accepts a callback signed with the secret', () => {
+    expect(verifySignatureHeader(SECRET, signPayload(SECRET, body, NOW), body, 300, NOW)).toBe(true);
+  });
+
+  it('refuses a tampered body', () => {
+    const header = signPayload(SECRET, body, NOW);
+    const tampered = Buffer.from(body.toString().replace('"amount":25', '"amount":2500'));
+
+    expect(verifySignatureHeader(SECRET, header, tampered, 300, NOW)).toBe(false);
+  });
+
+  it('refuses a callback signed with another secret', () => {
+    expect(verifySignatureHeader(SECRET, signPayload('other-secret', body, NOW), body, 300, NOW)).toBe(false);
+  });
+
+  it('refuses a changed timestamp', () => {
+    const header = signPayload(SECRET, body, NOW).replace(`t=${NOW}`, `t=${NOW + 1}`);
+
+    expect(verifySignatureHeader(SECRET, header, body, 300, NOW)).toBe(false);
+  });
+
+  it('refuses callbacks outside the tolerance', () => {
+    const header = signPayload(SECRET, body, NOW - 301);
+
+    expect(verifySignatureHeader(SECRET, header, body, 300, NOW)).toBe(false);
+    expect(verifySignatureHeader(SECRET, header, body, 600, NOW)).toBe(true);
+  });
+
+  it('refuses a missing or malformed header and an empty secret', () => {
+    const header = signPayload(SECRET, body, NOW);
+
+    expect(verifySignatureHeader(SECRET, undefined, body, 300, NOW)).toBe(false);
+    expect(verifySignatureHeader(SECRET, `t=${NOW},v1=abc`, body, 300, NOW)).toBe(false);
+    expect(verifySignatureHeader(SECRET, 'v1=' + header.split('v1=')[1], body, 300, NOW)).toBe(false);
+    expect(verifySignatureHeader('', header, body, 300, NOW)).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Signature - HMAC signatures of callback bodies
+ *
+ * The signature header reads `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ * Signing the timestamp with the body lets old callbacks be refused when replayed.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const hmac = (secret: string, timestamp: number, body: Buffer | string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+
+export const signPayload = (secret: string, body: Buffer | string, timestamp: number = Math.floor(Date.now() / 1000)): string =>
+  `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+
+export const verifySignatureHeader = (
+  secret: string,
+  header: string | undefined,
+  body: Buffer,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean => {
+  if (!secret || !header) return false;
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = parseInt(parts.t, 10);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > toleranceSeconds) return false;
+  if (!/^[0-9a-f]{64}$/.test(parts.v1 || '')) return false;
+
+  return timingSafeEqual(Buffer.from(hmac(secret, timestamp, body), 'hex'), Buffer.from(parts.v1, 'hex'));
+};
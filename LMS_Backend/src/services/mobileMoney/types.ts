@@ -0,0 +1,70 @@
+/**
+ * Types for mobile-money payment requests and their providers
+ */
+
+import { IncomingHttpHeaders } from 'http';
+
+export type MobileMoneyRequestStatus = 'PENDING' | 'PROCESSING' | 'PAID' | 'FAILED' | 'NEEDS_REVIEW';
+
+export type MobileMoneyOutcome = 'SUCCEEDED' | 'FAILED';
+
+export interface MobileMoneyRequestInput {
+  assessment_id: string;
+  phone_number: string;
+  amount: number;
+}
+
+export interface MobileMoneyRequestFilters {
+  assessment_id?: string;
+  status?: MobileMoneyRequestStatus;
+}
+
+/**
+ * What is sent to the provider to ask the payer for a payment
+ */
+export interface ProviderPaymentRequest {
+  request_number: string;
+  phone_number: string;
+  amount: number;
+  currency: string;
+  description: string;
+  callback_url: string;
+}
+
+export interface ProviderPaymentResponse {
+  provider_reference: string;
+}
+
+/**
+ * Outcome of a payment request as reported in a provider callback
+ */
+export interface ProviderCallback {
+  provider_reference: string;
+  transaction_id: string | null;
+  outcome: MobileMoneyOutcome;
+  amount: number | null;
+  reason: string | null;
+}
+
+/**
+ * A mobile-money provider. Implementations talk to one provider's API and know how its
+ * callbacks are signed and shaped; the service does the bookkeeping.
+ */
+export interface MobileMoneyProvider {
+  readonly name: string;
+
+  /** Ask the payer to approve the payment on their phone */
+  requestPayment(request: ProviderPaymentRequest): Promise<ProviderPaymentResponse>;
+
+  /** Whether the raw callback body was signed by the provider */
+  verifySignature(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+
+  /** Read the outcome from a callback whose signature has been verified */
+  parseCallback(payload: any): ProviderCallback;
+}
+
+export interface CallbackResult {
+  request_number: string;
+  status: MobileMoneyRequestStatus;
+  outcome: string;
+}
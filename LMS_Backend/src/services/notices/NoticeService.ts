@@ -0,0 +1,413 @@
+/**
+ * Notice Service - Bulk generation of tax assessment notices (demand letters)
+ *
+ * Notices are generated for the assessments of a tax year that still have an amount due,
+ * addressed to the current owners and co-owners of the property, worded from the template
+ * of the chosen language and grouped by district or sub-district. The batch and every
+ * notice in it are recorded before the file is rendered, so each printed notice can be
+ * traced back to its assessment.
+ */
+
+import archiver from 'archiver';
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { CUSTOMER_CONTACT_SELECT, getCustomerContact, getCustomerName } from '../../utils/customerName';
+import { noticeGroupTitle, renderNoticesPdf } from './noticePdf';
+import { UNKNOWN_OWNER } from './noticeTemplate';
+import {
+  NoticeData,
+  NoticeGroup,
+  NoticeOptions,
+  NoticePreview,
+  NoticeRecipient,
+  NoticeTemplate,
+  NoticeTemplateInput,
+  TaxNoticeBatch,
+} from './types';
+
+const PAGE_SIZE = 1000;
+const OWNER_LOOKUP_BATCH_SIZE = 200;
+const INSERT_BATCH_SIZE = 500;
+
+// Larger batches are refused; generate them per district instead
+const MAX_NOTICES_PER_BATCH = 2000;
+
+const NOTICE_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+
+const ASSESSMENT_SELECT = `
+  id,
+  reference_id,
+  tax_year,
+  property_id,
+  base_assessment,
+  exemption_amount,
+  assessed_amount,
+  penalty_amount,
+  interest_amount,
+  paid_amount,
+  outstanding_amount,
+  due_date,
+  properties!inner(
+    reference_id,
+    parcel_number,
+    property_location,
+    district_id,
+    sub_district_id,
+    districts(name),
+    sub_districts(name)
+  )
+`;
+
+type UnnumberedNotice = Omit<NoticeData, 'notice_number'>;
+
+const slug = (text: string): string => text.replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export class NoticeService {
+  async getTemplates(): Promise<NoticeTemplate[]> {
+    const { data, error } = await supabase.from('tax_notice_templates').select('*').order('language');
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async saveTemplate(language: string, input: NoticeTemplateInput, userId: string): Promise<NoticeTemplate> {
+    if (!/^[a-z]{2}$/.test(language)) {
+      throw new AppError('Language must be a two-letter code such as "en" or "so"', 400);
+    }
+
+    const { data, error } = await supabase
+      .from('tax_notice_templates')
+      .upsert({ ...input, language, updated_by: userId }, { onConflict: 'language' })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  async preview(options: NoticeOptions): Promise<NoticePreview> {
+    const notices = await this.buildNotices(options);
+    const groups = this.groupNotices(
+      notices.map((notice) => ({ ...notice, notice_number: '' })),
+      options
+    );
+
+    return {
+      tax_year: options.tax_year,
+      total: notices.length,
+      without_owner: notices.filter((notice) => notice.recipients.length === 0).length,
+      groups: groups.map((group) => ({
+        district: group.district,
+        sub_district: group.sub_district,
+        count: group.notices.length,
+      })),
+    };
+  }
+
+  /**
+   * Record the batch and its notices, then render them into one PDF or a ZIP with a PDF per group
+   */
+  async generate(
+    options: NoticeOptions,
+    userId: string
+  ): Promise<{ batch: TaxNoticeBatch; filename: string; content: Buffer; contentType: string }> {
+    const template = await this.getActiveTemplate(options.language);
+    const unnumbered = await this.buildNotices(options);
+
+    if (unnumbered.length === 0) {
+      throw new AppError(`No assessments with an amount due for ${options.tax_year} match these filters`, 400);
+    }
+
+    if (unnumbered.length > MAX_NOTICES_PER_BATCH) {
+      throw new AppError(
+        `${unnumbered.length} notices match, more than the ${MAX_NOTICES_PER_BATCH} allowed in one batch. Generate them per district.`,
+        400
+      );
+    }
+
+    // Number the notices in the order they are printed
+    const year = options.tax_year;
+    let nextNumber = await this.getNextNoticeNumber(year);
+    const groups = this.groupNotices(
+      unnumbered.map((notice) => ({ ...notice, notice_number: '' })),
+      options
+    );
+    for (const group of groups) {
+      for (const notice of group.notices) {
+        notice.notice_number = `NTC-${year}-${String(nextNumber++).padStart(6, '0')}`;
+      }
+    }
+
+    const extension = options.output_format === 'ZIP' ? 'zip' : 'pdf';
+    const filename = `assessment_notices_${year}_${options.language}_${new Date().toISOString().slice(0, 10)}.${extension}`;
+    const batch = await this.recordBatch(options, groups, filename, userId);
+
+    try {
+      if (options.output_format === 'ZIP') {
+        return { batch, filename, content: await this.renderZip(template, groups), contentType: 'application/zip' };
+      }
+
+      return { batch, filename, content: await renderNoticesPdf(template, groups), contentType: 'application/pdf' };
+    } catch (error: any) {
+      // Nothing was printed, so the notices were not issued
+      await supabase.from('tax_notice_batches').delete().eq('id', batch.id);
+      throw new AppError(`Failed to render notices: ${error.message}`, 500);
+    }
+  }
+
+  async getBatches(limit: number = 20) {
+    const { data, error } = await supabase
+      .from('tax_notice_batches')
+      .select(
+        `
+        *,
+        districts(name),
+        sub_districts(name),
+        generated_by_user:users!tax_notice_batches_generated_by_fkey(full_name)
+      `
+      )
+      .order('generated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async getAssessmentNotices(assessmentId: string) {
+    const { data, error } = await supabase
+      .from('tax_notices')
+      .select('*, generated_by_user:users!tax_notices_generated_by_fkey(full_name)')
+      .eq('assessment_id', assessmentId)
+      .order('generated_at', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  private async getActiveTemplate(language: string): Promise<NoticeTemplate> {
+    const { data, error } = await supabase
+      .from('tax_notice_templates')
+      .select('*')
+      .eq('language', language)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data || !data.is_active) throw new AppError(`No active notice template for language "${language}"`, 400);
+
+    return data;
+  }
+
+  private async buildNotices(options: NoticeOptions): Promise<UnnumberedNotice[]> {
+    const assessments = await this.fetchAssessments(options);
+    const owners = await this.getOwners(assessments.map((assessment) => assessment.property_id));
+    const noticeDate = new Date().toISOString().slice(0, 10);
+
+    return assessments.map((assessment) => {
+      const property = Array.isArray(assessment.properties) ? assessment.properties[0] : assessment.properties;
+
+      return {
+        notice_date: noticeDate,
+        assessment: {
+          id: assessment.id,
+          reference_id: assessment.reference_id,
+          tax_year: assessment.tax_year,
+          base_assessment: Number(assessment.base_assessment),
+          exemption_amount: Number(assessment.exemption_amount || 0),
+          assessed_amount: Number(assessment.assessed_amount),
+          penalties: Number(assessment.penalty_amount || 0) + Number(assessment.interest_amount || 0),
+          paid_amount: Number(assessment.paid_amount || 0),
+          outstanding_amount: Number(assessment.outstanding_amount),
+          due_date: assessment.due_date,
+        },
+        property: {
+          reference_id: property?.reference_id || '',
+          parcel_number: property?.parcel_number || '',
+          location: property?.property_location || null,
+          district: property?.districts?.name || null,
+          sub_district: property?.sub_districts?.name || null,
+        },
+        recipients: owners.get(assessment.property_id) || [],
+      };
+    });
+  }
+
+  private async fetchAssessments(options: NoticeOptions): Promise<any[]> {
+    const assessments: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabase
+        .from('tax_assessments')
+        .select(ASSESSMENT_SELECT)
+        .eq('tax_year', options.tax_year)
+        .in('status', NOTICE_STATUSES)
+        .gt('outstanding_amount', 0)
+        .not('is_archived', 'is', true);
+
+      if (options.district_id) {
+        query = query.eq('properties.district_id', options.district_id);
+      }
+
+      if (options.sub_district_id) {
+        query = query.eq('properties.sub_district_id', options.sub_district_id);
+      }
+
+      const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      assessments.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return assessments;
+  }
+
+  /**
+   * Current owners and co-owners with their contact details, by property
+   */
+  private async getOwners(propertyIds: string[]): Promise<Map<string, NoticeRecipient[]>> {
+    const owners = new Map<string, NoticeRecipient[]>();
+    const uniqueIds = [...new Set(propertyIds)];
+
+    for (let i = 0; i < uniqueIds.length; i += OWNER_LOOKUP_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('property_ownership')
+        .select(`property_id, customers(${CUSTOMER_CONTACT_SELECT})`)
+        .in('property_id', uniqueIds.slice(i, i + OWNER_LOOKUP_BATCH_SIZE))
+        .in('ownership_type', ['OWNER', 'CO_OWNER'])
+        .eq('is_current', true);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const row of (data || []) as any[]) {
+        const customer = Array.isArray(row.customers) ? row.customers[0] : row.customers;
+        if (!customer) continue;
+
+        const list = owners.get(row.property_id) || [];
+        list.push({ name: getCustomerName(customer), contact: getCustomerContact(customer) });
+        owners.set(row.property_id, list);
+      }
+    }
+
+    return owners;
+  }
+
+  /**
+   * Groups sorted by name, notices within a group by sub-district and parcel number
+   */
+  private groupNotices(notices: NoticeData[], options: NoticeOptions): NoticeGroup[] {
+    const groups = new Map<string, NoticeGroup>();
+
+    for (const notice of notices) {
+      const district = notice.property.district || 'No District';
+      const subDistrict =
+        options.group_by === 'SUB_DISTRICT' ? notice.property.sub_district || 'No Sub-district' : null;
+      const key = noticeGroupTitle({ district, sub_district: subDistrict });
+
+      const group = groups.get(key) || { district, sub_district: subDistrict, notices: [] };
+      group.notices.push(notice);
+      groups.set(key, group);
+    }
+
+    const sorted = [...groups.values()].sort((a, b) => noticeGroupTitle(a).localeCompare(noticeGroupTitle(b)));
+    for (const group of sorted) {
+      group.notices.sort(
+        (a, b) =>
+          (a.property.sub_district || '').localeCompare(b.property.sub_district || '') ||
+          a.property.parcel_number.localeCompare(b.property.parcel_number)
+      );
+    }
+
+    return sorted;
+  }
+
+  private async getNextNoticeNumber(taxYear: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('tax_notices')
+      .select('notice_number')
+      .like('notice_number', `NTC-${taxYear}-%`)
+      .order('notice_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const lastNumber = data ? parseInt(data.notice_number.split('-').pop() || '0', 10) : 0;
+    return (Number.isFinite(lastNumber) ? lastNumber : 0) + 1;
+  }
+
+  private async recordBatch(
+    options: NoticeOptions,
+    groups: NoticeGroup[],
+    filename: string,
+    userId: string
+  ): Promise<TaxNoticeBatch> {
+    const notices = groups.flatMap((group) => group.notices);
+
+    const { data: batch, error } = await supabase
+      .from('tax_notice_batches')
+      .insert({
+        tax_year: options.tax_year,
+        language: options.language,
+        district_id: options.district_id || null,
+        sub_district_id: options.sub_district_id || null,
+        group_by: options.group_by,
+        output_format: options.output_format,
+        notice_count: notices.length,
+        file_name: filename,
+        generated_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const rows = notices.map((notice) => ({
+      notice_number: notice.notice_number,
+      batch_id: batch.id,
+      assessment_id: notice.assessment.id,
+      language: options.language,
+      recipient_name: notice.recipients.map((recipient) => recipient.name).join(', ') || UNKNOWN_OWNER,
+      recipient_contact: notice.recipients.map((recipient) => recipient.contact).filter(Boolean).join('; ') || null,
+      amount_due: notice.assessment.outstanding_amount,
+      due_date: notice.assessment.due_date,
+      generated_by: userId,
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const { error: insertError } = await supabase.from('tax_notices').insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+
+      if (insertError) {
+        await supabase.from('tax_notice_batches').delete().eq('id', batch.id);
+        if (insertError.code === '23505') {
+          throw new AppError('Notice numbers are being assigned by another batch, please try again', 409);
+        }
+        throw new AppError(insertError.message, 500);
+      }
+    }
+
+    return batch;
+  }
+
+  private async renderZip(template: NoticeTemplate, groups: NoticeGroup[]): Promise<Buffer> {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const chunks: Buffer[] = [];
+
+    const done = new Promise<Buffer>((resolve, reject) => {
+      archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+      archive.on('end', () => resolve(Buffer.concat(chunks)));
+      archive.on('error', reject);
+    });
+
+    for (const group of groups) {
+      archive.append(await renderNoticesPdf(template, [group]), { name: `${slug(noticeGroupTitle(group))}.pdf` });
+    }
+    await archive.finalize();
+
+    return done;
+  }
+}
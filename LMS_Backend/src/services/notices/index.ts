@@ -0,0 +1,9 @@
+/**
+ * Notices - Tax assessment notices generated in bulk from per-language templates
+ */
+
+export { NoticeService } from './NoticeService';
+export { renderNoticesPdf } from './noticePdf';
+export { DEFAULT_NOTICE_LABELS, fillTemplate } from './noticeTemplate';
+
+export * from './types';
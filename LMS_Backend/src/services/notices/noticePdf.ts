@@ -0,0 +1,108 @@
+/**
+ * Notice PDF - Layout of assessment notices, one page per notice with a cover page per group
+ */
+
+import { PdfUtil } from '../../utils/pdf';
+import { fillTemplate, noticePlaceholders, resolveLabels, UNKNOWN_OWNER } from './noticeTemplate';
+import { NoticeData, NoticeGroup, NoticeLabels, NoticeTemplate } from './types';
+
+export const noticeGroupTitle = (group: Pick<NoticeGroup, 'district' | 'sub_district'>): string =>
+  group.sub_district ? `${group.district} - ${group.sub_district}` : group.district;
+
+const drawNotice = (doc: PDFKit.PDFDocument, template: NoticeTemplate, labels: NoticeLabels, notice: NoticeData) => {
+  const values = noticePlaceholders(notice);
+
+  PdfUtil.header(doc, fillTemplate(template.title, values));
+
+  PdfUtil.fields(doc, [
+    [labels.notice_number, notice.notice_number],
+    [labels.notice_date, PdfUtil.formatDate(notice.notice_date)],
+  ]);
+
+  PdfUtil.section(doc, labels.recipient);
+  if (notice.recipients.length === 0) {
+    doc.font('Helvetica').fontSize(10).text(UNKNOWN_OWNER);
+  }
+  for (const recipient of notice.recipients) {
+    doc.font('Helvetica').fontSize(10).text(recipient.contact ? `${recipient.name} (${recipient.contact})` : recipient.name);
+  }
+  if (notice.property.location) {
+    doc.text(notice.property.location);
+  }
+
+  doc.moveDown();
+  doc.font('Helvetica').fontSize(10).text(fillTemplate(template.body, values), { align: 'justify' });
+
+  PdfUtil.section(doc, labels.property);
+  PdfUtil.fields(doc, [
+    [labels.parcel_number, notice.property.parcel_number],
+    [labels.property_reference, notice.property.reference_id],
+    [labels.district, noticeGroupTitle({ district: notice.property.district || '-', sub_district: notice.property.sub_district })],
+  ]);
+
+  PdfUtil.section(doc, labels.assessment);
+  const rows: Array<[string, string]> = [
+    [labels.assessment_reference, notice.assessment.reference_id],
+    [labels.base_assessment, PdfUtil.formatCurrency(notice.assessment.base_assessment)],
+  ];
+  if (notice.assessment.exemption_amount > 0) {
+    rows.push([labels.exemption, `-${PdfUtil.formatCurrency(notice.assessment.exemption_amount)}`]);
+  }
+  rows.push([labels.assessed_amount, PdfUtil.formatCurrency(notice.assessment.assessed_amount)]);
+  if (notice.assessment.penalties > 0) {
+    rows.push([labels.penalties, PdfUtil.formatCurrency(notice.assessment.penalties)]);
+  }
+  if (notice.assessment.paid_amount > 0) {
+    rows.push([labels.paid, `-${PdfUtil.formatCurrency(notice.assessment.paid_amount)}`]);
+  }
+  PdfUtil.fields(doc, rows);
+
+  doc.moveDown(0.3);
+  PdfUtil.rule(doc);
+  doc.moveDown(0.5);
+  PdfUtil.fields(doc, [
+    [labels.amount_due, PdfUtil.formatCurrency(notice.assessment.outstanding_amount)],
+    [labels.due_date, PdfUtil.formatDate(notice.assessment.due_date)],
+  ]);
+
+  doc.moveDown(1.5);
+  doc.font('Helvetica').fontSize(10).text(fillTemplate(template.closing, values), doc.page.margins.left);
+};
+
+const drawGroupCover = (doc: PDFKit.PDFDocument, template: NoticeTemplate, group: NoticeGroup) => {
+  doc.moveDown(10);
+  doc.font('Helvetica-Bold').fontSize(20).text(noticeGroupTitle(group), { align: 'center' });
+  doc.moveDown();
+  doc
+    .font('Helvetica')
+    .fontSize(12)
+    .text(`${group.notices.length} notices - ${template.language_name}`, { align: 'center' })
+    .text(`${group.notices[0].notice_number} to ${group.notices[group.notices.length - 1].notice_number}`, {
+      align: 'center',
+    });
+};
+
+/**
+ * One printable file with the notices of all groups, each group after its cover page
+ */
+export const renderNoticesPdf = (template: NoticeTemplate, groups: NoticeGroup[]): Promise<Buffer> => {
+  const labels = resolveLabels(template);
+
+  return PdfUtil.render((doc) => {
+    let first = true;
+    const newPage = () => {
+      if (!first) doc.addPage();
+      first = false;
+    };
+
+    for (const group of groups) {
+      newPage();
+      drawGroupCover(doc, template, group);
+
+      for (const notice of group.notices) {
+        newPage();
+        drawNotice(doc, template, labels, notice);
+      }
+    }
+  });
+};
@@ -0,0 +1,63 @@
+/**
+ * Notice Template - Fills the {{placeholders}} of a notice template
+ */
+
+import { config } from '../../config/env';
+import { PdfUtil } from '../../utils/pdf';
+import { NOTICE_LABEL_KEYS, NoticeData, NoticeLabels, NoticeTemplate } from './types';
+
+export const DEFAULT_NOTICE_LABELS: NoticeLabels = {
+  notice_number: 'Notice No.',
+  notice_date: 'Date',
+  recipient: 'To',
+  property: 'Property',
+  parcel_number: 'Parcel Number',
+  property_reference: 'Property Reference',
+  location: 'Location',
+  district: 'District',
+  assessment: 'Assessment',
+  assessment_reference: 'Assessment Reference',
+  base_assessment: 'Base Assessment',
+  exemption: 'Exemption',
+  assessed_amount: 'Assessed Amount',
+  penalties: 'Penalties and Interest',
+  paid: 'Paid',
+  amount_due: 'Amount Due',
+  due_date: 'Due Date',
+};
+
+// Used when no current owner is recorded for the property
+export const UNKNOWN_OWNER = 'The Owner';
+
+/**
+ * Template labels with English defaults for missing keys
+ */
+export const resolveLabels = (template: NoticeTemplate): NoticeLabels => {
+  const labels = { ...DEFAULT_NOTICE_LABELS };
+
+  for (const key of NOTICE_LABEL_KEYS) {
+    const value = template.labels?.[key];
+    if (typeof value === 'string' && value.trim()) {
+      labels[key] = value;
+    }
+  }
+
+  return labels;
+};
+
+export const noticePlaceholders = (notice: NoticeData): Record<string, string> => ({
+  owner_name: notice.recipients.map((recipient) => recipient.name).join(', ') || UNKNOWN_OWNER,
+  parcel_number: notice.property.parcel_number,
+  property_reference: notice.property.reference_id,
+  tax_year: String(notice.assessment.tax_year),
+  amount_due: PdfUtil.formatCurrency(notice.assessment.outstanding_amount),
+  due_date: PdfUtil.formatDate(notice.assessment.due_date),
+  assessment_reference: notice.assessment.reference_id,
+  organization_name: config.organizationName,
+});
+
+/**
+ * Replace {{name}} placeholders; unknown placeholders are left as they are
+ */
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match);
@@ -0,0 +1,115 @@
+/**
+ * Types for tax assessment notices (demand letters)
+ */
+
+export type NoticeGroupBy = 'DISTRICT' | 'SUB_DISTRICT';
+
+export type NoticeOutputFormat = 'PDF' | 'ZIP';
+
+export const NOTICE_LABEL_KEYS = [
+  'notice_number',
+  'notice_date',
+  'recipient',
+  'property',
+  'parcel_number',
+  'property_reference',
+  'location',
+  'district',
+  'assessment',
+  'assessment_reference',
+  'base_assessment',
+  'exemption',
+  'assessed_amount',
+  'penalties',
+  'paid',
+  'amount_due',
+  'due_date',
+] as const;
+
+export type NoticeLabelKey = (typeof NOTICE_LABEL_KEYS)[number];
+
+export type NoticeLabels = Record<NoticeLabelKey, string>;
+
+export interface NoticeTemplate {
+  language: string;
+  language_name: string;
+  title: string;
+  body: string;
+  closing: string;
+  labels: Partial<NoticeLabels>;
+  is_active: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NoticeTemplateInput = Pick<
+  NoticeTemplate,
+  'language_name' | 'title' | 'body' | 'closing' | 'labels' | 'is_active'
+>;
+
+export interface NoticeOptions {
+  tax_year: number;
+  language: string;
+  district_id?: string | null;
+  sub_district_id?: string | null;
+  group_by: NoticeGroupBy;
+  output_format: NoticeOutputFormat;
+}
+
+export interface NoticeRecipient {
+  name: string;
+  contact: string | null;
+}
+
+export interface NoticeData {
+  notice_number: string;
+  notice_date: string;
+  assessment: {
+    id: string;
+    reference_id: string;
+    tax_year: number;
+    base_assessment: number;
+    exemption_amount: number;
+    assessed_amount: number;
+    penalties: number; // penalty plus interest
+    paid_amount: number;
+    outstanding_amount: number;
+    due_date: string;
+  };
+  property: {
+    reference_id: string;
+    parcel_number: string;
+    location: string | null;
+    district: string | null;
+    sub_district: string | null;
+  };
+  recipients: NoticeRecipient[];
+}
+
+export interface NoticeGroup {
+  district: string;
+  sub_district: string | null; // null when grouped by district only
+  notices: NoticeData[];
+}
+
+export interface NoticePreview {
+  tax_year: number;
+  total: number;
+  without_owner: number; // addressed to "The Owner" because no current owner is recorded
+  groups: Array<{ district: string; sub_district: string | null; count: number }>;
+}
+
+export interface TaxNoticeBatch {
+  id: string;
+  tax_year: number;
+  language: string;
+  district_id: string | null;
+  sub_district_id: string | null;
+  group_by: NoticeGroupBy;
+  output_format: NoticeOutputFormat;
+  notice_count: number;
+  file_name: string;
+  generated_by: string | null;
+  generated_at: string;
+}
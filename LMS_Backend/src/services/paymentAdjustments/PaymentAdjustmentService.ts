@@ -0,0 +1,330 @@
+/**
+ * Payment Adjustment Service - Reversals and refunds of tax payments
+ *
+ * A reversal or refund is first requested against a payment with a reason. Once an
+ * approver other than the requester signs it off, a compensating tax_payments entry
+ * with a negative amount is recorded; the payment and status triggers then recompute
+ * paid_amount, outstanding_amount and status of the assessment. Payments are never
+ * edited or deleted. A refund is paid out of the till of the cashier who requested it
+ * and is attached to their open session, which a cash refund cannot be approved without.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { CashierSessionService } from '../cashier';
+import { InstallmentPlanService } from '../installments';
+import { TaxService } from '../taxService';
+import { PaymentAdjustment, PaymentAdjustmentFilters, PaymentAdjustmentInput } from './types';
+
+const ADJUSTMENT_SELECT = `
+  *,
+  payment:tax_payments!tax_payment_adjustments_payment_id_fkey(receipt_number, amount_paid, payment_method, payment_date),
+  assessment:tax_assessments(reference_id, tax_year),
+  requester:users!tax_payment_adjustments_requested_by_fkey(full_name),
+  reviewer:users!tax_payment_adjustments_reviewed_by_fkey(full_name)
+`;
+
+const ADJUSTMENT_LABELS = {
+  REVERSAL: 'Reversal',
+  REFUND: 'Refund',
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class PaymentAdjustmentService {
+  private taxService = new TaxService();
+  private installmentPlanService = new InstallmentPlanService();
+  private cashierSessionService = new CashierSessionService();
+
+  async getAdjustments(filters: PaymentAdjustmentFilters) {
+    let query = supabase.from('tax_payment_adjustments').select(ADJUSTMENT_SELECT);
+
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    }
+
+    if (filters.assessmentId) {
+      query = query.eq('assessment_id', filters.assessmentId);
+    }
+
+    const { data, error } = await query.order('requested_at', { ascending: false }).limit(200);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async requestAdjustment(paymentId: string, input: PaymentAdjustmentInput, userId: string) {
+    const payment = await this.getPayment(paymentId);
+
+    if (payment.entry_type !== 'PAYMENT') {
+      throw new AppError('Only payments can be reversed or refunded', 400);
+    }
+
+    const remaining = await this.getRemainingAmount(payment);
+
+    if (remaining <= 0) {
+      throw new AppError('This payment has already been fully reversed or refunded', 400);
+    }
+
+    const amount = input.adjustment_type === 'REVERSAL' ? remaining : roundAmount(input.amount || 0);
+
+    if (amount > remaining) {
+      throw new AppError(`Refund cannot exceed the remaining payment amount of ${remaining.toFixed(2)}`, 400);
+    }
+
+    const { data, error } = await supabase
+      .from('tax_payment_adjustments')
+      .insert({
+        payment_id: payment.id,
+        assessment_id: payment.assessment_id,
+        adjustment_type: input.adjustment_type,
+        amount,
+        reason: input.reason,
+        requested_by: userId,
+      })
+      .select(ADJUSTMENT_SELECT)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError('A reversal or refund of this payment is already awaiting approval', 409);
+      }
+      throw new AppError(error.message, 500);
+    }
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'tax_payment',
+      entity_id: payment.id,
+      action: 'submit',
+      field: input.adjustment_type.toLowerCase(),
+      old_value: null,
+      new_value: `${amount.toFixed(2)}: ${input.reason}`,
+      changed_by: userId,
+    });
+
+    // Notify approvers
+    const { data: approvers } = await supabase
+      .from('users')
+      .select('id')
+      .in('role', ['APPROVER', 'ADMINISTRATOR'])
+      .eq('is_active', true)
+      .neq('id', userId);
+
+    if (approvers && approvers.length > 0) {
+      await supabase.from('notifications').insert(
+        approvers.map((approver) => ({
+          user_id: approver.id,
+          title: `Payment ${ADJUSTMENT_LABELS[input.adjustment_type]} Requested`,
+          message: `${ADJUSTMENT_LABELS[input.adjustment_type]} of ${amount.toFixed(2)} on receipt ${payment.receipt_number} needs approval`,
+          entity_type: 'TAX_ASSESSMENT',
+          entity_id: payment.assessment_id,
+        }))
+      );
+    }
+
+    return data;
+  }
+
+  async approveAdjustment(id: string, userId: string, notes?: string | null) {
+    const adjustment = await this.getPendingAdjustment(id, userId);
+    const payment = await this.getPayment(adjustment.payment_id);
+    const remaining = await this.getRemainingAmount(payment);
+
+    if (Number(adjustment.amount) > remaining) {
+      throw new AppError(`Only ${remaining.toFixed(2)} of this payment is left to reverse or refund`, 400);
+    }
+
+    const { data: assessment } = await supabase
+      .from('tax_assessments')
+      .select('status')
+      .eq('id', adjustment.assessment_id)
+      .single();
+
+    const cashierSessionId =
+      adjustment.adjustment_type === 'REFUND'
+        ? await this.cashierSessionService.getOpenSessionId(adjustment.requested_by)
+        : null;
+
+    if (adjustment.adjustment_type === 'REFUND' && payment.payment_method === 'CASH' && !cashierSessionId) {
+      throw new AppError(
+        'A cash refund is paid out of a till: the cashier who requested it needs an open cashier session',
+        400
+      );
+    }
+
+    // Claim the request first so that two approvers cannot both post it
+    await this.claim(id, 'APPROVED', userId, notes);
+
+    const { data: entry, error: entryError } = await supabase
+      .from('tax_payments')
+      .insert({
+        assessment_id: adjustment.assessment_id,
+        payment_date: new Date().toISOString().slice(0, 10),
+        amount_paid: -Number(adjustment.amount),
+        payment_method: payment.payment_method,
+        receipt_number: await this.taxService.generateReceiptNumber(),
+        entry_type: adjustment.adjustment_type,
+        reverses_payment_id: payment.id,
+        reason: adjustment.reason,
+        notes: notes || null,
+        collected_by: adjustment.requested_by,
+        approved_by: userId,
+        cashier_session_id: cashierSessionId,
+      })
+      .select()
+      .single();
+
+    if (entryError) {
+      await supabase
+        .from('tax_payment_adjustments')
+        .update({ status: 'PENDING', reviewed_by: null, reviewed_at: null, review_notes: null })
+        .eq('id', id);
+      throw new AppError(entryError.message, 500);
+    }
+
+    const { data, error } = await supabase
+      .from('tax_payment_adjustments')
+      .update({ adjustment_payment_id: entry.id })
+      .eq('id', id)
+      .select(ADJUSTMENT_SELECT)
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'tax_payment',
+      entity_id: entry.id,
+      action: 'approve',
+      field: adjustment.adjustment_type.toLowerCase(),
+      old_value: payment.receipt_number,
+      new_value: `${entry.amount_paid}: ${adjustment.reason}`,
+      changed_by: userId,
+    });
+
+    const { data: updated } = await supabase
+      .from('tax_assessments')
+      .select('status')
+      .eq('id', adjustment.assessment_id)
+      .single();
+
+    if (assessment && updated && assessment.status !== updated.status) {
+      await supabase.from('audit_logs').insert({
+        entity_type: 'tax_assessment',
+        entity_id: adjustment.assessment_id,
+        action: 'update',
+        field: 'status',
+        old_value: assessment.status,
+        new_value: updated.status,
+        changed_by: userId,
+      });
+    }
+
+    await this.installmentPlanService.allocatePayments(adjustment.assessment_id, userId);
+
+    await this.notifyRequester(adjustment, 'Approved', payment.receipt_number);
+
+    return data;
+  }
+
+  async rejectAdjustment(id: string, userId: string, notes: string) {
+    const adjustment = await this.getPendingAdjustment(id, userId);
+    const data = await this.claim(id, 'REJECTED', userId, notes);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: 'tax_payment',
+      entity_id: adjustment.payment_id,
+      action: 'reject',
+      field: adjustment.adjustment_type.toLowerCase(),
+      old_value: null,
+      new_value: notes,
+      changed_by: userId,
+    });
+
+    const payment = await this.getPayment(adjustment.payment_id);
+    await this.notifyRequester(adjustment, 'Rejected', payment.receipt_number);
+
+    return data;
+  }
+
+  private async getPayment(paymentId: string) {
+    const { data, error } = await supabase
+      .from('tax_payments')
+      .select('*')
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Payment not found', 404);
+
+    return data;
+  }
+
+  /**
+   * Part of a payment not yet reversed or refunded
+   */
+  private async getRemainingAmount(payment: any): Promise<number> {
+    const { data, error } = await supabase
+      .from('tax_payments')
+      .select('amount_paid')
+      .eq('reverses_payment_id', payment.id);
+
+    if (error) throw new AppError(error.message, 500);
+
+    const compensated = (data || []).reduce((sum, entry) => sum + Number(entry.amount_paid), 0);
+    return roundAmount(Number(payment.amount_paid) + compensated);
+  }
+
+  private async getPendingAdjustment(id: string, userId: string): Promise<PaymentAdjustment> {
+    const { data, error } = await supabase
+      .from('tax_payment_adjustments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Payment adjustment not found', 404);
+    if (data.status !== 'PENDING') {
+      throw new AppError(`This request has already been ${data.status.toLowerCase()}`, 409);
+    }
+    if (data.requested_by === userId) {
+      throw new AppError('A reversal or refund must be signed off by someone other than the requester', 403);
+    }
+
+    return data;
+  }
+
+  private async claim(id: string, status: 'APPROVED' | 'REJECTED', userId: string, notes?: string | null) {
+    const { data, error } = await supabase
+      .from('tax_payment_adjustments')
+      .update({
+        status,
+        reviewed_by: userId,
+        reviewed_at: new Date().toISOString(),
+        review_notes: notes || null,
+      })
+      .eq('id', id)
+      .eq('status', 'PENDING')
+      .select(ADJUSTMENT_SELECT)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('This request has already been reviewed', 409);
+
+    return data;
+  }
+
+  private async notifyRequester(adjustment: PaymentAdjustment, outcome: string, receiptNumber: string) {
+    try {
+      await supabase.from('notifications').insert({
+        user_id: adjustment.requested_by,
+        title: `Payment ${ADJUSTMENT_LABELS[adjustment.adjustment_type]} ${outcome}`,
+        message: `Your ${ADJUSTMENT_LABELS[adjustment.adjustment_type].toLowerCase()} of ${Number(adjustment.amount).toFixed(2)} on receipt ${receiptNumber} has been ${outcome.toLowerCase()}`,
+        entity_type: 'TAX_ASSESSMENT',
+        entity_id: adjustment.assessment_id,
+      });
+    } catch (notifError) {
+      console.error('Failed to create notification:', notifError);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Payment Adjustments Module - Approved reversals and refunds of tax payments
+ */
+
+export { PaymentAdjustmentService } from './PaymentAdjustmentService';
+
+export * from './types';
@@ -0,0 +1,34 @@
+/**
+ * Types for tax payment reversals and refunds
+ */
+
+export type PaymentAdjustmentType = 'REVERSAL' | 'REFUND';
+
+export type PaymentAdjustmentStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface PaymentAdjustmentInput {
+  adjustment_type: PaymentAdjustmentType;
+  amount?: number; // refunds only, reversals cover the rest of the payment
+  reason: string;
+}
+
+export interface PaymentAdjustmentFilters {
+  status?: PaymentAdjustmentStatus;
+  assessmentId?: string;
+}
+
+export interface PaymentAdjustment {
+  id: string;
+  payment_id: string;
+  assessment_id: string;
+  adjustment_type: PaymentAdjustmentType;
+  amount: number;
+  reason: string;
+  status: PaymentAdjustmentStatus;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  adjustment_payment_id: string | null;
+}
@@ -0,0 +1,63 @@
+/**
+ * Penalty Rule Service - Manages the penalty_rules table
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { PenaltyRule, PenaltyRuleInput } from './types';
+
+export class PenaltyRuleService {
+  async getRules(): Promise<PenaltyRule[]> {
+    const { data, error } = await supabase
+      .from('penalty_rules')
+      .select('*')
+      .order('effective_from', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async getActiveRules(): Promise<PenaltyRule[]> {
+    const { data, error } = await supabase
+      .from('penalty_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async createRule(input: PenaltyRuleInput, userId: string): Promise<PenaltyRule> {
+    const { data, error } = await supabase
+      .from('penalty_rules')
+      .insert({ ...input, created_by: userId, updated_by: userId })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  async updateRule(id: string, input: Partial<PenaltyRuleInput>, userId: string): Promise<PenaltyRule> {
+    const { data, error } = await supabase
+      .from('penalty_rules')
+      .update({ ...input, updated_by: userId })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Penalty rule not found', 404);
+
+    return data;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase.from('penalty_rules').delete().eq('id', id);
+
+    if (error) throw new AppError(error.message, 500);
+  }
+}
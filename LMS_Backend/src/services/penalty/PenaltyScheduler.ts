@@ -0,0 +1,65 @@
+/**
+ * Penalty Scheduler - Runs the penalty job once a day at PENALTY_RUN_HOUR (server time)
+ *
+ * The job is idempotent, so it also runs shortly after startup to catch up on a day
+ * missed while the server was down.
+ */
+
+import { config } from '../../config/env';
+import { logger } from '../../utils/logger';
+import { PenaltyService } from './PenaltyService';
+
+const STARTUP_DELAY_MS = 60 * 1000;
+
+export class PenaltyScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private started = false;
+  private penaltyService = new PenaltyService();
+
+  start() {
+    if (this.started) return;
+
+    this.started = true;
+    this.schedule(STARTUP_DELAY_MS);
+    logger.info(`Penalty scheduler started (daily at ${config.penaltyRunHour}:00)`);
+  }
+
+  stop() {
+    if (!this.started) return;
+
+    this.started = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    logger.info('Penalty scheduler stopped');
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.started) return;
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private getDelayUntilNextRun(now: Date = new Date()): number {
+    const next = new Date(now);
+    next.setHours(config.penaltyRunHour, 0, 0, 0);
+    if (next <= now) next.setDate(next.getDate() + 1);
+
+    return next.getTime() - now.getTime();
+  }
+
+  async tick() {
+    try {
+      const summary = await this.penaltyService.runPenalties(null);
+      logger.info(
+        `Penalty job checked ${summary.checked} assessments: ${summary.updated} updated, ` +
+          `${summary.marked_overdue} marked overdue, ${summary.on_plan} on a payment plan, ` +
+          `${summary.plans_defaulted} plans defaulted, ${summary.failed} failed`
+      );
+    } catch (error: any) {
+      logger.error('Penalty job failed:', error.message);
+    } finally {
+      this.schedule(this.getDelayUntilNextRun());
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Penalty Service - Applies penalty rules to past-due assessments
+ *
+ * ASSESSED and PARTIAL assessments past their grace period become OVERDUE, and the
+ * penalty and interest of every overdue assessment are recalculated. The database
+ * trigger recomputes outstanding_amount from the new charges. Each changed field is
+ * written to the audit log. Assessments on a current installment plan are skipped;
+ * missed installments are flagged first so that defaulted plans are charged again, from
+ * the first missed installment on.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { logger } from '../../utils/logger';
+import { InstallmentPlanService } from '../installments';
+import { calculatePenalty, selectPenaltyRule } from './penaltyCalculator';
+import { PenaltyRuleService } from './PenaltyRuleService';
+import { PenaltyRule, PenaltyRunSummary, PenaltySuspension } from './types';
+
+const BATCH_SIZE = 500;
+const AUDITED_FIELDS = ['status', 'penalty_amount', 'interest_amount', 'outstanding_amount'];
+
+export class PenaltyService {
+  private ruleService = new PenaltyRuleService();
+  private installmentPlanService = new InstallmentPlanService();
+
+  /**
+   * Process every unpaid assessment past its due date.
+   * userId is the administrator who started the run, or null for the scheduled job.
+   */
+  async runPenalties(userId: string | null, asOf: string = new Date().toISOString().slice(0, 10)): Promise<PenaltyRunSummary> {
+    const rules = await this.ruleService.getActiveRules();
+    const installmentCheck = await this.installmentPlanService.checkMissedInstallments(asOf, userId);
+    const onPlan = await this.installmentPlanService.getCurrentPlanAssessmentIds();
+    const suspensions = await this.installmentPlanService.getPenaltySuspensions();
+    const summary: PenaltyRunSummary = {
+      as_of: asOf,
+      checked: 0,
+      updated: 0,
+      marked_overdue: 0,
+      on_plan: 0,
+      plans_defaulted: installmentCheck.defaulted,
+      failed: 0,
+    };
+
+    for (let from = 0; ; from += BATCH_SIZE) {
+      const { data: assessments, error } = await supabase
+        .from('tax_assessments')
+        .select('*')
+        .in('status', ['ASSESSED', 'PARTIAL', 'OVERDUE'])
+        .eq('is_archived', false)
+        .gt('assessed_amount', 0) // fully exempt assessments owe nothing
+        .lt('due_date', asOf)
+        .order('id', { ascending: true })
+        .range(from, from + BATCH_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+      if (!assessments || assessments.length === 0) break;
+
+      for (const assessment of assessments) {
+        if (onPlan.has(assessment.id)) {
+          summary.on_plan++;
+          continue;
+        }
+
+        summary.checked++;
+
+        try {
+          const result = await this.applyPenalty(assessment, rules, asOf, userId, suspensions.get(assessment.id) || []);
+          if (result.updated) summary.updated++;
+          if (result.markedOverdue) summary.marked_overdue++;
+        } catch (error: any) {
+          summary.failed++;
+          logger.error(`Penalty calculation failed for assessment ${assessment.reference_id}:`, error.message);
+        }
+      }
+
+      if (assessments.length < BATCH_SIZE) break;
+    }
+
+    return summary;
+  }
+
+  private async applyPenalty(
+    assessment: any,
+    rules: PenaltyRule[],
+    asOf: string,
+    userId: string | null,
+    suspensions: PenaltySuspension[]
+  ) {
+    const rule = selectPenaltyRule(rules, assessment.due_date);
+    const calculation = calculatePenalty(assessment, rule, asOf, suspensions);
+
+    const changes: Record<string, any> = {};
+
+    if (calculation.is_overdue && assessment.status !== 'OVERDUE') {
+      changes.status = 'OVERDUE';
+    }
+    if (calculation.penalty_amount !== Number(assessment.penalty_amount || 0)) {
+      changes.penalty_amount = calculation.penalty_amount;
+    }
+    if (calculation.interest_amount !== Number(assessment.interest_amount || 0)) {
+      changes.interest_amount = calculation.interest_amount;
+    }
+    if (calculation.interest_months !== (assessment.interest_months || 0)) {
+      changes.interest_months = calculation.interest_months;
+    }
+    if (rule && rule.id !== assessment.penalty_rule_id) {
+      changes.penalty_rule_id = rule.id;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return { updated: false, markedOverdue: false };
+    }
+
+    const { data: updated, error } = await supabase
+      .from('tax_assessments')
+      .update({ ...changes, penalty_calculated_at: new Date().toISOString() })
+      .eq('id', assessment.id)
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const entries = AUDITED_FIELDS.filter(
+      (field) => String(assessment[field] ?? '') !== String(updated[field] ?? '')
+    ).map((field) => ({
+      entity_type: 'tax_assessment',
+      entity_id: assessment.id,
+      action: 'update',
+      field,
+      old_value: assessment[field] === null || assessment[field] === undefined ? null : String(assessment[field]),
+      new_value: updated[field] === null || updated[field] === undefined ? null : String(updated[field]),
+      changed_by: userId,
+    }));
+
+    if (entries.length > 0) {
+      const { error: auditError } = await supabase.from('audit_logs').insert(entries);
+      if (auditError) logger.error(`Failed to audit penalty for ${assessment.reference_id}:`, auditError.message);
+    }
+
+    return { updated: true, markedOverdue: updated.status === 'OVERDUE' && assessment.status !== 'OVERDUE' };
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Penalty Module - Late payment penalties and interest on tax assessments
+ */
+
+export { PenaltyRuleService } from './PenaltyRuleService';
+export { PenaltyService } from './PenaltyService';
+export { PenaltyScheduler } from './PenaltyScheduler';
+export {
+  addDays,
+  calculatePenalty,
+  fullMonthsBetween,
+  selectPenaltyRule,
+  suspendedDaysBetween,
+} from './penaltyCalculator';
+
+export * from './types';
@@ -0,0 +1,117 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculatePenalty, fullMonthsBetween, selectPenaltyRule } from './penaltyCalculator';
+import { PenaltyAssessment, PenaltyRule } from './types';
+
+const rule: PenaltyRule = {
+  id: 'rule-1',
+  name: 'Standard',
+  grace_days: 30,
+  penalty_type: 'PERCENTAGE',
+  penalty_value: 5,
+  monthly_interest_rate: 2,
+  interest_cap_percent: null,
+  max_penalty_amount: null,
+  effective_from: '2024-01-01',
+  effective_to: null,
+  is_active: true,
+};
+
+const assessment: PenaltyAssessment = {
+  assessed_amount: 1000,
+  paid_amount: 0,
+  due_date: '2025-01-31',
+  penalty_amount: null,
+  interest_amount: null,
+  interest_months: null,
+};
+
+describe('calculatePenalty', () => {
+  it('charges nothing until the grace period has ended', () => {
+    const result = calculatePenalty(assessment, rule, '2025-03-02');
+
+    expect(result).toMatchObject({
+      grace_ends_on: '2025-03-02',
+      is_overdue: false,
+      days_overdue: 0,
+      penalty_amount: 0,
+      interest_amount: 0,
+      interest_months: 0,
+    });
+  });
+
+  it('charges the penalty the day after the grace period', () => {
+    const result = calculatePenalty(assessment, rule, '2025-03-03');
+
+    expect(result).toMatchObject({ is_overdue: true, days_overdue: 1, months_overdue: 0, penalty_amount: 50, interest_amount: 0 });
+  });
+
+  it('charges a flat penalty regardless of the assessed amount', () => {
+    const result = calculatePenalty(assessment, { ...rule, penalty_type: 'FLAT', penalty_value: 25 }, '2025-03-03');
+
+    expect(result.penalty_amount).toBe(25);
+  });
+
+  it('charges simple interest per full month without compounding', () => {
+    const result = calculatePenalty(assessment, rule, '2025-06-02');
+
+    expect(result).toMatchObject({ months_overdue: 3, interest_amount: 60, interest_months: 3 });
+  });
+
+  it('keeps interest already charged and charges new months on the unpaid amount', () => {
+    const charged = { ...assessment, paid_amount: 500, penalty_amount: 50, interest_amount: 60, interest_months: 3 };
+
+    expect(calculatePenalty(charged, rule, '2025-06-15')).toMatchObject({ interest_amount: 60, interest_months: 3 });
+    expect(calculatePenalty(charged, rule, '2025-07-02')).toMatchObject({ interest_amount: 70, interest_months: 4 });
+  });
+
+  it('caps interest at a percentage of the assessed amount', () => {
+    const result = calculatePenalty(assessment, { ...rule, interest_cap_percent: 5 }, '2025-06-02');
+
+    expect(result).toMatchObject({ penalty_amount: 50, interest_amount: 50 });
+  });
+
+  it('caps the penalty and interest together', () => {
+    const result = calculatePenalty(assessment, { ...rule, max_penalty_amount: 80 }, '2025-06-02');
+
+    expect(result).toMatchObject({ penalty_amount: 50, interest_amount: 30 });
+  });
+
+  it('leaves the time on an installment plan out of the overdue period', () => {
+    const result = calculatePenalty(assessment, rule, '2025-06-02', [{ from: '2025-03-02', to: '2025-05-02' }]);
+
+    expect(result).toMatchObject({ days_overdue: 31, months_overdue: 1, interest_amount: 20 });
+  });
+
+  it('returns the current charges unchanged without a rule', () => {
+    const charged = { ...assessment, penalty_amount: 10, interest_amount: 5, interest_months: 1 };
+
+    expect(calculatePenalty(charged, null, '2025-06-02')).toMatchObject({
+      penalty_rule_id: null,
+      penalty_amount: 10,
+      interest_amount: 5,
+      interest_months: 1,
+    });
+  });
+});
+
+describe('fullMonthsBetween', () => {
+  it('only counts a month once its day has been reached', () => {
+    expect(fullMonthsBetween('2025-01-15', '2025-02-14')).toBe(0);
+    expect(fullMonthsBetween('2025-01-15', '2025-02-15')).toBe(1);
+    expect(fullMonthsBetween('2025-03-01', '2025-01-01')).toBe(0);
+  });
+});
+
+describe('selectPenaltyRule', () => {
+  it('picks the most recent active rule in force on the due date', () => {
+    const rules = [
+      rule,
+      { ...rule, id: 'rule-2', effective_from: '2025-01-01' },
+      { ...rule, id: 'rule-3', effective_from: '2025-01-15', is_active: false },
+      { ...rule, id: 'rule-4', effective_from: '2025-02-01' },
+    ];
+
+    expect(selectPenaltyRule(rules, '2025-01-31')?.id).toBe('rule-2');
+    expect(selectPenaltyRule([{ ...rule, effective_to: '2024-12-31' }], '2025-01-31')).toBeNull();
+  });
+});
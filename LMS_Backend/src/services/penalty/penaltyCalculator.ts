@@ -0,0 +1,126 @@
+/**
+ * Penalty Calculator - Late payment charges for a single assessment
+ *
+ * An assessment is overdue from the day after due_date + grace_days. It is then charged
+ * a one-off penalty (flat, or a percentage of the assessed amount) plus simple interest
+ * for every full month overdue on the assessed amount still unpaid in that month.
+ * Interest already charged is kept, so payments only slow down future interest.
+ * Time spent on an installment plan does not count as overdue.
+ */
+
+import { PenaltyAssessment, PenaltyCalculation, PenaltyRule, PenaltySuspension } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDate = (value: string): Date => new Date(`${value.slice(0, 10)}T00:00:00Z`);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const addDays = (date: string, days: number): string => {
+  return formatDate(new Date(toDate(date).getTime() + days * DAY_MS));
+};
+
+export const fullMonthsBetween = (from: string, to: string): number => {
+  const start = toDate(from);
+  const end = toDate(to);
+
+  let months =
+    (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth());
+  if (end.getUTCDate() < start.getUTCDate()) months -= 1;
+
+  return Math.max(months, 0);
+};
+
+/**
+ * Number of days from one date up to another that fall within the suspensions
+ */
+export const suspendedDaysBetween = (from: string, to: string, suspensions: PenaltySuspension[]): number => {
+  return suspensions.reduce((total, suspension) => {
+    const start = Math.max(toDate(from).getTime(), toDate(suspension.from).getTime());
+    const end = Math.min(toDate(to).getTime(), toDate(suspension.to).getTime());
+    return total + Math.max(Math.round((end - start) / DAY_MS), 0);
+  }, 0);
+};
+
+/**
+ * The active rule in force on the due date; the most recent one wins when periods overlap
+ */
+export const selectPenaltyRule = (rules: PenaltyRule[], dueDate: string): PenaltyRule | null => {
+  const date = dueDate.slice(0, 10);
+
+  const matching = rules
+    .filter(
+      (rule) =>
+        rule.is_active &&
+        rule.effective_from <= date &&
+        (!rule.effective_to || rule.effective_to >= date)
+    )
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+  return matching[0] || null;
+};
+
+/**
+ * Charges as of the given date (YYYY-MM-DD). Without a rule, or before the grace period
+ * ends, the current charges are returned unchanged. The overdue period is shortened by the
+ * days spent in the suspensions, so a defaulted plan is charged from its first missed
+ * installment rather than for the months it was kept up.
+ */
+export const calculatePenalty = (
+  assessment: PenaltyAssessment,
+  rule: PenaltyRule | null,
+  asOf: string,
+  suspensions: PenaltySuspension[] = []
+): PenaltyCalculation => {
+  const graceEndsOn = addDays(assessment.due_date, rule?.grace_days ?? 0);
+  const countedTo = addDays(asOf, -suspendedDaysBetween(graceEndsOn, asOf, suspensions));
+  const daysOverdue = Math.max(
+    Math.round((toDate(countedTo).getTime() - toDate(graceEndsOn).getTime()) / DAY_MS),
+    0
+  );
+  const monthsOverdue = fullMonthsBetween(graceEndsOn, countedTo);
+
+  const currentPenalty = Number(assessment.penalty_amount || 0);
+  const currentInterest = Number(assessment.interest_amount || 0);
+  const chargedMonths = assessment.interest_months || 0;
+
+  const result: PenaltyCalculation = {
+    penalty_rule_id: rule?.id ?? null,
+    grace_ends_on: graceEndsOn,
+    is_overdue: daysOverdue > 0,
+    days_overdue: daysOverdue,
+    months_overdue: monthsOverdue,
+    penalty_amount: currentPenalty,
+    interest_amount: currentInterest,
+    interest_months: chargedMonths,
+  };
+
+  if (!rule || !result.is_overdue) return result;
+
+  const assessed = Number(assessment.assessed_amount || 0);
+  const unpaid = Math.max(assessed - Number(assessment.paid_amount || 0), 0);
+
+  let penalty =
+    rule.penalty_type === 'FLAT' ? Number(rule.penalty_value) : (assessed * Number(rule.penalty_value)) / 100;
+
+  const newMonths = Math.max(monthsOverdue - chargedMonths, 0);
+  let interest = currentInterest + (unpaid * Number(rule.monthly_interest_rate) * newMonths) / 100;
+
+  if (rule.interest_cap_percent !== null && rule.interest_cap_percent !== undefined) {
+    interest = Math.min(interest, (assessed * Number(rule.interest_cap_percent)) / 100);
+  }
+
+  if (rule.max_penalty_amount !== null && rule.max_penalty_amount !== undefined) {
+    const maxCharges = Number(rule.max_penalty_amount);
+    penalty = Math.min(penalty, maxCharges);
+    interest = Math.min(interest, maxCharges - penalty);
+  }
+
+  result.penalty_amount = roundAmount(penalty);
+  result.interest_amount = roundAmount(Math.max(interest, 0));
+  result.interest_months = Math.max(monthsOverdue, chargedMonths);
+
+  return result;
+};
@@ -0,0 +1,64 @@
+/**
+ * Types for late payment penalties and interest on tax assessments
+ */
+
+export type PenaltyType = 'FLAT' | 'PERCENTAGE';
+
+export interface PenaltyRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  grace_days: number;
+  penalty_type: PenaltyType;
+  penalty_value: number;
+  monthly_interest_rate: number;
+  interest_cap_percent: number | null;
+  max_penalty_amount: number | null;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+}
+
+export type PenaltyRuleInput = Omit<PenaltyRule, 'id'>;
+
+/**
+ * The assessment columns the calculation depends on
+ */
+export interface PenaltyAssessment {
+  assessed_amount: number;
+  paid_amount: number;
+  due_date: string;
+  penalty_amount: number | null;
+  interest_amount: number | null;
+  interest_months: number | null;
+}
+
+/**
+ * A period the overdue clock stood still: from the start of an installment plan until it
+ * defaulted or was cancelled or completed
+ */
+export interface PenaltySuspension {
+  from: string;
+  to: string;
+}
+
+export interface PenaltyCalculation {
+  penalty_rule_id: string | null;
+  grace_ends_on: string;
+  is_overdue: boolean;
+  days_overdue: number;
+  months_overdue: number;
+  penalty_amount: number;
+  interest_amount: number;
+  interest_months: number;
+}
+
+export interface PenaltyRunSummary {
+  as_of: string;
+  checked: number;
+  updated: number;
+  marked_overdue: number;
+  on_plan: number; // skipped, on a current installment plan
+  plans_defaulted: number;
+  failed: number;
+}
@@ -1,5 +1,7 @@
 import { supabase } from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import { AgoSyncService } from './ago';
+import { ApprovalWorkflowService, RecordChangeService } from './approvals';
 // import { getSocketHandler } from '../websocket/socketHandler'; // WebSocket removed
 
 export interface PropertyFilters {
@@ -13,6 +15,10 @@ export interface PropertyFilters {
   showArchived?: boolean;
 }
 
+const agoSyncService = new AgoSyncService();
+const approvalWorkflowService = new ApprovalWorkflowService();
+const recordChangeService = new RecordChangeService();
+
 export class PropertyService {
   async getProperties(filters: PropertyFilters) {
     const {
@@ -245,8 +251,9 @@ export class PropertyService {
       .eq('id', id)
       .single();
 
-    // If currently APPROVED, move back to SUBMITTED for re-approval
+    // If currently APPROVED, keep the approved version and move back to SUBMITTED for re-approval
     if (currentProperty?.status === 'APPROVED') {
+      await recordChangeService.capture('property', id, userId);
       propertyFields.status = 'SUBMITTED';
       propertyFields.approved_by = null;
       // Note: submitted_at and approved_at columns may not exist in database yet
@@ -331,6 +338,7 @@ export class PropertyService {
     // Add note if returned to SUBMITTED for re-approval
     if (currentProperty?.status === 'APPROVED' && property.status === 'SUBMITTED') {
       activityMetadata.note = 'Edited after approval - returned to SUBMITTED for re-approval';
+      await approvalWorkflowService.start('property', id, userId);
     }
 
     await supabase.from('activity_logs').insert({
@@ -413,6 +421,8 @@ export class PropertyService {
 
     if (error) throw new AppError(error.message, 500);
 
+    await approvalWorkflowService.start('property', id, userId);
+
     // Create notification for approvers (optional - don't fail if it doesn't work)
     try {
       const { data: approvers } = await supabase
@@ -618,18 +628,6 @@ export class PropertyService {
   }
 
   async syncToAGO(propertyId: string, userId: string) {
-    // This would integrate with AGO API
-    // For now, just return success message (AGO not implemented yet)
-    const { data, error } = await supabase
-      .from('properties')
-      .select()
-      .eq('id', propertyId)
-      .single();
-
-    if (error) throw new AppError(error.message, 500);
-
-    // TODO: Implement actual AGO sync logic here
-    // For now, just return the property data
-    return { ...data, ago_sync_message: 'AGO sync will be implemented later' };
+    return agoSyncService.syncProperty(propertyId, userId);
   }
 }
@@ -0,0 +1,114 @@
+/**
+ * Tax Rate Service - Manages the tax_rate_rules table and calculates base assessments
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { calculateBaseAssessment, selectRateRule } from './rateCalculator';
+import { TaxCalculationBreakdown, TaxRateInput, TaxRateRule, TaxRateRuleInput } from './types';
+
+export class TaxRateService {
+  async getRules(): Promise<TaxRateRule[]> {
+    const { data, error } = await supabase
+      .from('tax_rate_rules')
+      .select('*, property_types(name), districts(name)')
+      .order('effective_from', { ascending: false });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async getActiveRules(): Promise<TaxRateRule[]> {
+    const { data, error } = await supabase
+      .from('tax_rate_rules')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data || [];
+  }
+
+  async createRule(input: TaxRateRuleInput, userId: string): Promise<TaxRateRule> {
+    const { data, error } = await supabase
+      .from('tax_rate_rules')
+      .insert({ ...input, created_by: userId, updated_by: userId })
+      .select()
+      .single();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  async updateRule(id: string, input: Partial<TaxRateRuleInput>, userId: string): Promise<TaxRateRule> {
+    const { data, error } = await supabase
+      .from('tax_rate_rules')
+      .update({ ...input, updated_by: userId })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Tax rate rule not found', 404);
+
+    return data;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase.from('tax_rate_rules').delete().eq('id', id);
+
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  /**
+   * Rate input from the assessment values, with type, district and downtown flag taken from the property
+   */
+  async buildRateInput(assessment: any): Promise<TaxRateInput> {
+    let property: any = null;
+
+    if (assessment.property_id) {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('property_type_id, district_id, is_downtown')
+        .eq('id', assessment.property_id)
+        .maybeSingle();
+
+      if (error) throw new AppError(error.message, 500);
+      if (!data) throw new AppError('Property not found', 404);
+      property = data;
+    }
+
+    return {
+      property_type_id: property?.property_type_id ?? null,
+      district_id: property?.district_id ?? null,
+      is_downtown: property?.is_downtown ?? null,
+      occupancy_type: assessment.occupancy_type || 'OWNER_OCCUPIED',
+      construction_status: assessment.construction_status || 'COMPLETED',
+      land_size: Number(assessment.land_size || 0),
+      built_up_area: assessment.built_up_area ?? null,
+      number_of_floors: assessment.number_of_floors ?? null,
+      assessment_date: assessment.assessment_date || new Date().toISOString().slice(0, 10),
+    };
+  }
+
+  /**
+   * Base assessment and breakdown for the given input; rules can be passed in when calculating in bulk
+   */
+  async calculate(input: TaxRateInput, rules?: TaxRateRule[]): Promise<TaxCalculationBreakdown> {
+    const rule = selectRateRule(rules ?? (await this.getActiveRules()), input);
+
+    if (!rule) {
+      throw new AppError('No tax rate rule matches this property. Add one on the Tax Rates page.', 400);
+    }
+
+    const breakdown = calculateBaseAssessment(rule, input);
+
+    if (breakdown.base_assessment <= 0) {
+      throw new AppError(`Tax rate rule "${rule.name}" gives a base assessment of 0 for this property`, 400);
+    }
+
+    return breakdown;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Rates Module - Rate tables for calculating tax base assessments
+ */
+
+export { TaxRateService } from './TaxRateService';
+export { calculateBaseAssessment, selectRateRule } from './rateCalculator';
+
+export * from './types';
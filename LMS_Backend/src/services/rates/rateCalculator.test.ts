@@ -0,0 +1,107 @@
+import { describe, expect, it } from '@jest/globals';
+import { calculateBaseAssessment, selectRateRule } from './rateCalculator';
+import { TaxRateInput, TaxRateRule } from './types';
+
+const rule: TaxRateRule = {
+  id: 'rate-1',
+  name: 'Default',
+  property_type_id: null,
+  district_id: null,
+  is_downtown: null,
+  occupancy_type: null,
+  construction_status: null,
+  land_rate_per_m2: 10,
+  built_rate_per_m2: 50,
+  floor_modifier_percent: 10,
+  minimum_amount: 500,
+  effective_from: '2024-01-01',
+  effective_to: null,
+  is_active: true,
+};
+
+const input: TaxRateInput = {
+  property_type_id: 'residential',
+  district_id: 'district-1',
+  is_downtown: false,
+  occupancy_type: 'OWNER_OCCUPIED',
+  construction_status: 'COMPLETED',
+  land_size: 200,
+  built_up_area: 100,
+  number_of_floors: 3,
+  assessment_date: '2025-03-01',
+};
+
+describe('selectRateRule', () => {
+  it('prefers the rule matching on more criteria', () => {
+    const district = { ...rule, id: 'rate-2', district_id: 'district-1' };
+    const districtDowntown = { ...rule, id: 'rate-3', district_id: 'district-1', is_downtown: false };
+
+    expect(selectRateRule([rule, district, districtDowntown], input)?.id).toBe('rate-3');
+  });
+
+  it('skips rules whose criteria do not match the property', () => {
+    const otherDistrict = { ...rule, id: 'rate-2', district_id: 'district-2' };
+    const downtown = { ...rule, id: 'rate-3', is_downtown: true };
+
+    expect(selectRateRule([rule, otherDistrict, downtown], input)?.id).toBe('rate-1');
+  });
+
+  it('picks the latest effective rule among equally specific ones', () => {
+    const newer = { ...rule, id: 'rate-2', effective_from: '2025-01-01' };
+    const future = { ...rule, id: 'rate-3', effective_from: '2025-06-01' };
+
+    expect(selectRateRule([rule, newer, future], input)?.id).toBe('rate-2');
+  });
+
+  it('ignores inactive and expired rules', () => {
+    const inactive = { ...rule, id: 'rate-2', district_id: 'district-1', is_active: false };
+    const expired = { ...rule, id: 'rate-3', effective_to: '2024-12-31' };
+
+    expect(selectRateRule([inactive, expired], input)).toBeNull();
+  });
+});
+
+describe('calculateBaseAssessment', () => {
+  it('adds the land and building amounts with the floor modifier', () => {
+    const result = calculateBaseAssessment(rule, input);
+
+    expect(result).toMatchObject({
+      rule_id: 'rate-1',
+      matched_on: {},
+      land: { area: 200, rate: 10, amount: 2000 },
+      building: { area: 100, rate: 50, amount: 5000 },
+      floors: { count: 3, modifier_percent: 10, factor: 1.2, adjustment: 1000 },
+      subtotal: 8000,
+      base_assessment: 8000,
+    });
+  });
+
+  it('raises the amount to the minimum', () => {
+    const result = calculateBaseAssessment(rule, { ...input, land_size: 10, built_up_area: null, number_of_floors: null });
+
+    expect(result).toMatchObject({ subtotal: 100, minimum_amount: 500, base_assessment: 500 });
+    expect(result.floors).toMatchObject({ count: 1, factor: 1, adjustment: 0 });
+  });
+
+  it('uses the subtotal when the rule has no minimum', () => {
+    const result = calculateBaseAssessment({ ...rule, minimum_amount: null }, { ...input, land_size: 10, built_up_area: 0 });
+
+    expect(result).toMatchObject({ minimum_amount: null, base_assessment: 100 });
+  });
+
+  it('lists the criteria the rule matched on', () => {
+    const result = calculateBaseAssessment({ ...rule, district_id: 'district-1', is_downtown: false }, input);
+
+    expect(result.matched_on).toEqual({ district_id: 'district-1', is_downtown: false });
+  });
+
+  it('rounds the amounts to cents', () => {
+    const result = calculateBaseAssessment(
+      { ...rule, land_rate_per_m2: 1.333, floor_modifier_percent: 0, minimum_amount: null },
+      { ...input, land_size: 10, built_up_area: 0 }
+    );
+
+    expect(result.land.amount).toBe(13.33);
+    expect(result.base_assessment).toBe(13.33);
+  });
+});
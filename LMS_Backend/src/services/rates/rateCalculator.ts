@@ -0,0 +1,76 @@
+/**
+ * Rate Calculator - base_assessment from the rate tables
+ *
+ * A rule matches when each of its criteria is either NULL or equal to the input. The
+ * most specific matching rule wins, then the one with the latest effective_from.
+ *
+ *   land     = land_size * land_rate_per_m2
+ *   building = built_up_area * built_rate_per_m2 * (1 + floor_modifier_percent% * (floors - 1))
+ *   base     = max(land + building, minimum_amount)
+ */
+
+import { RATE_MATCH_FIELDS, TaxCalculationBreakdown, TaxRateInput, TaxRateRule } from './types';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const specificity = (rule: TaxRateRule): number =>
+  RATE_MATCH_FIELDS.filter((field) => rule[field] !== null && rule[field] !== undefined).length;
+
+export const selectRateRule = (rules: TaxRateRule[], input: TaxRateInput): TaxRateRule | null => {
+  const date = input.assessment_date.slice(0, 10);
+
+  const matching = rules.filter(
+    (rule) =>
+      rule.is_active &&
+      rule.effective_from <= date &&
+      (!rule.effective_to || rule.effective_to >= date) &&
+      RATE_MATCH_FIELDS.every(
+        (field) => rule[field] === null || rule[field] === undefined || rule[field] === input[field]
+      )
+  );
+
+  matching.sort(
+    (a, b) => specificity(b) - specificity(a) || b.effective_from.localeCompare(a.effective_from)
+  );
+
+  return matching[0] || null;
+};
+
+export const calculateBaseAssessment = (rule: TaxRateRule, input: TaxRateInput): TaxCalculationBreakdown => {
+  const landArea = Number(input.land_size || 0);
+  const builtArea = Number(input.built_up_area || 0);
+  const floors = Math.max(Number(input.number_of_floors || 1), 1);
+  const modifierPercent = Number(rule.floor_modifier_percent || 0);
+
+  const landAmount = landArea * Number(rule.land_rate_per_m2);
+  const buildingAmount = builtArea * Number(rule.built_rate_per_m2);
+  const floorFactor = Math.max(1 + (modifierPercent / 100) * (floors - 1), 0);
+  const floorAdjustment = buildingAmount * (floorFactor - 1);
+
+  const subtotal = roundAmount(landAmount + buildingAmount + floorAdjustment);
+  const minimum = rule.minimum_amount === null || rule.minimum_amount === undefined ? null : Number(rule.minimum_amount);
+
+  const matchedOn: TaxCalculationBreakdown['matched_on'] = {};
+  for (const field of RATE_MATCH_FIELDS) {
+    const value = rule[field];
+    if (value !== null && value !== undefined) matchedOn[field] = value;
+  }
+
+  return {
+    rule_id: rule.id,
+    rule_name: rule.name,
+    matched_on: matchedOn,
+    land: { area: landArea, rate: Number(rule.land_rate_per_m2), amount: roundAmount(landAmount) },
+    building: { area: builtArea, rate: Number(rule.built_rate_per_m2), amount: roundAmount(buildingAmount) },
+    floors: {
+      count: floors,
+      modifier_percent: modifierPercent,
+      factor: Math.round(floorFactor * 10000) / 10000,
+      adjustment: roundAmount(floorAdjustment),
+    },
+    subtotal,
+    minimum_amount: minimum,
+    base_assessment: minimum !== null ? Math.max(subtotal, minimum) : subtotal,
+    calculated_at: new Date().toISOString(),
+  };
+};
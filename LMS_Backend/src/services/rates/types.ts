@@ -0,0 +1,59 @@
+/**
+ * Types for rate-table based tax calculation
+ */
+
+export interface TaxRateRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  property_type_id: string | null;
+  district_id: string | null;
+  is_downtown: boolean | null;
+  occupancy_type: string | null;
+  construction_status: string | null;
+  land_rate_per_m2: number;
+  built_rate_per_m2: number;
+  floor_modifier_percent: number;
+  minimum_amount: number | null;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+}
+
+export type TaxRateRuleInput = Omit<TaxRateRule, 'id'>;
+
+/**
+ * The property and assessment values a rule is matched and applied on
+ */
+export interface TaxRateInput {
+  property_type_id: string | null;
+  district_id: string | null;
+  is_downtown: boolean | null;
+  occupancy_type: string;
+  construction_status: string;
+  land_size: number;
+  built_up_area: number | null;
+  number_of_floors: number | null;
+  assessment_date: string;
+}
+
+export const RATE_MATCH_FIELDS = [
+  'property_type_id',
+  'district_id',
+  'is_downtown',
+  'occupancy_type',
+  'construction_status',
+] as const;
+
+export interface TaxCalculationBreakdown {
+  rule_id: string;
+  rule_name: string;
+  matched_on: Partial<Record<(typeof RATE_MATCH_FIELDS)[number], string | boolean>>;
+  land: { area: number; rate: number; amount: number };
+  building: { area: number; rate: number; amount: number };
+  floors: { count: number; modifier_percent: number; factor: number; adjustment: number };
+  subtotal: number;
+  minimum_amount: number | null;
+  base_assessment: number;
+  calculated_at: string;
+}
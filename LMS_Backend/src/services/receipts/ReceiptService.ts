@@ -0,0 +1,187 @@
+/**
+ * Receipt Service - Official PDF receipts of tax payment entries and their public verification
+ *
+ * Each tax_payments row has a random verification_code. The receipt prints it as a QR code
+ * linking to the public verification page, which looks the entry up by that code.
+ */
+
+import { config } from '../../config/env';
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { CUSTOMER_NAME_SELECT, getCustomerName } from '../../utils/customerName';
+import { renderReceiptPdf } from './receiptPdf';
+import { ReceiptData, ReceiptVerification } from './types';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export class ReceiptService {
+  async getReceiptData(paymentId: string): Promise<ReceiptData> {
+    const { data: payment, error } = await supabase
+      .from('tax_payments')
+      .select(
+        `
+        *,
+        collector:users!tax_payments_collected_by_fkey(full_name),
+        approver:users!tax_payments_approved_by_fkey(full_name),
+        reversed:tax_payments!tax_payments_reverses_payment_id_fkey(receipt_number)
+      `
+      )
+      .eq('id', paymentId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!payment) throw new AppError('Payment not found', 404);
+
+    const { data: assessment, error: assessmentError } = await supabase
+      .from('tax_assessments')
+      .select(
+        `
+        reference_id,
+        tax_year,
+        due_date,
+        property_id,
+        assessed_amount,
+        penalty_amount,
+        interest_amount,
+        properties(
+          reference_id,
+          parcel_number,
+          property_location,
+          districts(name),
+          sub_districts(name)
+        )
+      `
+      )
+      .eq('id', payment.assessment_id)
+      .single();
+
+    if (assessmentError || !assessment) throw new AppError('Tax assessment not found', 404);
+
+    const { data: entries, error: entriesError } = await supabase
+      .from('tax_payments')
+      .select('id, amount_paid, created_at')
+      .eq('assessment_id', payment.assessment_id)
+      .lte('created_at', payment.created_at);
+
+    if (entriesError) throw new AppError(entriesError.message, 500);
+
+    const property: any = Array.isArray(assessment.properties) ? assessment.properties[0] : assessment.properties;
+    const totalDue = roundAmount(
+      Number(assessment.assessed_amount) + Number(assessment.penalty_amount || 0) + Number(assessment.interest_amount || 0)
+    );
+    const paidToDate = roundAmount((entries || []).reduce((sum, entry) => sum + Number(entry.amount_paid), 0));
+    const reversed: any = Array.isArray(payment.reversed) ? payment.reversed[0] : payment.reversed;
+
+    return {
+      payment_id: payment.id,
+      receipt_number: payment.receipt_number,
+      verification_code: payment.verification_code,
+      verification_url: this.getVerificationUrl(payment.verification_code),
+      entry_type: payment.entry_type || 'PAYMENT',
+      payment_date: payment.payment_date,
+      amount_paid: Number(payment.amount_paid),
+      payment_method: payment.payment_method,
+      reason: payment.reason || null,
+      notes: payment.notes || null,
+      collected_by: payment.collector?.full_name || null,
+      approved_by: payment.approver?.full_name || null,
+      reverses_receipt_number: reversed?.receipt_number || null,
+      assessment: {
+        reference_id: assessment.reference_id,
+        tax_year: assessment.tax_year,
+        due_date: assessment.due_date,
+        total_due: totalDue,
+      },
+      property: {
+        reference_id: property?.reference_id || '',
+        parcel_number: property?.parcel_number || '',
+        location: property?.property_location || null,
+        district: property?.districts?.name || null,
+        sub_district: property?.sub_districts?.name || null,
+      },
+      payers: await this.getPayers(assessment.property_id),
+      paid_to_date: paidToDate,
+      balance_after: Math.max(0, roundAmount(totalDue - paidToDate)),
+    };
+  }
+
+  async renderReceipt(paymentId: string): Promise<{ filename: string; content: Buffer }> {
+    const receipt = await this.getReceiptData(paymentId);
+
+    return {
+      filename: `${receipt.receipt_number}.pdf`,
+      content: await renderReceiptPdf(receipt),
+    };
+  }
+
+  /**
+   * Public check of a receipt from the code in its QR code
+   */
+  async verify(code: string): Promise<ReceiptVerification> {
+    const { data: payment, error } = await supabase
+      .from('tax_payments')
+      .select(
+        `
+        id,
+        receipt_number,
+        entry_type,
+        payment_date,
+        amount_paid,
+        payment_method,
+        created_at,
+        tax_assessments(reference_id, tax_year, properties(parcel_number))
+      `
+      )
+      .eq('verification_code', code)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!payment) throw new AppError('No receipt matches this verification code', 404);
+
+    const { data: corrections, error: correctionsError } = await supabase
+      .from('tax_payments')
+      .select('amount_paid')
+      .eq('reverses_payment_id', payment.id);
+
+    if (correctionsError) throw new AppError(correctionsError.message, 500);
+
+    const assessment: any = Array.isArray(payment.tax_assessments) ? payment.tax_assessments[0] : payment.tax_assessments;
+    const property: any = Array.isArray(assessment?.properties) ? assessment.properties[0] : assessment?.properties;
+
+    return {
+      valid: true,
+      receipt_number: payment.receipt_number,
+      entry_type: payment.entry_type,
+      payment_date: payment.payment_date,
+      amount_paid: Number(payment.amount_paid),
+      payment_method: payment.payment_method,
+      assessment_reference_id: assessment?.reference_id || '',
+      tax_year: assessment?.tax_year,
+      parcel_number: property?.parcel_number || '',
+      reversed_amount: roundAmount(-(corrections || []).reduce((sum, entry) => sum + Number(entry.amount_paid), 0)),
+      issued_at: payment.created_at,
+    };
+  }
+
+  getVerificationUrl(code: string): string {
+    return `${config.publicAppUrl.replace(/\/$/, '')}/verify/receipts/${code}`;
+  }
+
+  /**
+   * Names of the current owners and co-owners of the property
+   */
+  private async getPayers(propertyId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('property_ownership')
+      .select(`customers(${CUSTOMER_NAME_SELECT})`)
+      .eq('property_id', propertyId)
+      .in('ownership_type', ['OWNER', 'CO_OWNER'])
+      .eq('is_current', true);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || []).map((row: any) =>
+      getCustomerName(Array.isArray(row.customers) ? row.customers[0] : row.customers)
+    );
+  }
+}
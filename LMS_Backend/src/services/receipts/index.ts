@@ -0,0 +1,8 @@
+/**
+ * Receipts - Printable PDF receipts of tax payments with QR verification
+ */
+
+export { ReceiptService } from './ReceiptService';
+export { renderReceiptPdf } from './receiptPdf';
+
+export * from './types';
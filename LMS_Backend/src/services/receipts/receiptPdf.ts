@@ -0,0 +1,98 @@
+/**
+ * Receipt PDF - Layout of the official receipt of a tax payment entry
+ */
+
+import { PdfUtil } from '../../utils/pdf';
+import { ReceiptData } from './types';
+
+const TITLES = {
+  PAYMENT: 'Official Tax Payment Receipt',
+  REVERSAL: 'Payment Reversal Receipt',
+  REFUND: 'Payment Refund Receipt',
+};
+
+const QR_SIZE = 110;
+
+export const renderReceiptPdf = async (receipt: ReceiptData): Promise<Buffer> => {
+  const qrCode = await PdfUtil.qrCode(receipt.verification_url);
+
+  return PdfUtil.render((doc) => {
+    PdfUtil.header(doc, TITLES[receipt.entry_type], `Receipt No. ${receipt.receipt_number}`);
+
+    // QR code in the top right corner of the details
+    const top = doc.y;
+    const qrLeft = doc.page.width - doc.page.margins.right - QR_SIZE;
+    doc.image(qrCode, qrLeft, top, { width: QR_SIZE });
+    doc
+      .font('Helvetica')
+      .fontSize(7)
+      .fillColor('#555555')
+      .text('Scan to verify', qrLeft, top + QR_SIZE + 2, { width: QR_SIZE, align: 'center' })
+      .fillColor('black');
+    doc.y = top;
+
+    PdfUtil.section(doc, 'Payment');
+    const paymentRows: Array<[string, string]> = [
+      ['Date', PdfUtil.formatDate(receipt.payment_date)],
+      ['Amount', PdfUtil.formatCurrency(receipt.amount_paid)],
+      ['Payment Method', receipt.payment_method.replace(/_/g, ' ')],
+    ];
+    if (receipt.reverses_receipt_number) {
+      paymentRows.push(['Corrects Receipt', receipt.reverses_receipt_number]);
+    }
+    if (receipt.reason) {
+      paymentRows.push(['Reason', receipt.reason]);
+    }
+    paymentRows.push(['Collected By', receipt.collected_by || '-']);
+    if (receipt.approved_by) {
+      paymentRows.push(['Approved By', receipt.approved_by]);
+    }
+    PdfUtil.fields(doc, paymentRows, qrLeft - doc.page.margins.left - 20);
+    doc.y = Math.max(doc.y, top + QR_SIZE + 15);
+
+    PdfUtil.section(doc, 'Payer');
+    PdfUtil.fields(doc, [['Name', receipt.payers.length > 0 ? receipt.payers.join(', ') : '-']]);
+
+    PdfUtil.section(doc, 'Property');
+    PdfUtil.fields(doc, [
+      ['Parcel Number', receipt.property.parcel_number],
+      ['Property Reference', receipt.property.reference_id],
+      ['Location', receipt.property.location || '-'],
+      ['District', [receipt.property.district, receipt.property.sub_district].filter(Boolean).join(' / ') || '-'],
+    ]);
+
+    PdfUtil.section(doc, 'Assessment');
+    PdfUtil.fields(doc, [
+      ['Assessment Reference', receipt.assessment.reference_id],
+      ['Tax Year', String(receipt.assessment.tax_year)],
+      ['Due Date', PdfUtil.formatDate(receipt.assessment.due_date)],
+      ['Total Due', PdfUtil.formatCurrency(receipt.assessment.total_due)],
+      ['Paid to Date', PdfUtil.formatCurrency(receipt.paid_to_date)],
+    ]);
+
+    doc.moveDown(0.5);
+    PdfUtil.rule(doc);
+    doc.moveDown(0.5);
+    doc
+      .font('Helvetica-Bold')
+      .fontSize(12)
+      .text(`Remaining Balance: ${PdfUtil.formatCurrency(receipt.balance_after)}`, doc.page.margins.left);
+
+    if (receipt.notes) {
+      doc.moveDown(0.5);
+      doc.font('Helvetica').fontSize(9).text(`Notes: ${receipt.notes}`);
+    }
+
+    doc.moveDown(2);
+    doc
+      .font('Helvetica')
+      .fontSize(8)
+      .fillColor('#555555')
+      .text(
+        `Verify this receipt by scanning the QR code or visiting ${receipt.verification_url}. ` +
+          'The remaining balance is after this entry and does not reflect later payments.',
+        { align: 'center' }
+      )
+      .fillColor('black');
+  });
+};
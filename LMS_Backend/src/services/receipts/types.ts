@@ -0,0 +1,54 @@
+/**
+ * Types for printed tax payment receipts
+ */
+
+export type ReceiptEntryType = 'PAYMENT' | 'REVERSAL' | 'REFUND';
+
+export interface ReceiptData {
+  payment_id: string;
+  receipt_number: string;
+  verification_code: string;
+  verification_url: string;
+  entry_type: ReceiptEntryType;
+  payment_date: string;
+  amount_paid: number;
+  payment_method: string;
+  reason: string | null;
+  notes: string | null;
+  collected_by: string | null;
+  approved_by: string | null;
+  reverses_receipt_number: string | null;
+  assessment: {
+    reference_id: string;
+    tax_year: number;
+    due_date: string;
+    total_due: number; // assessed amount plus penalty and interest
+  };
+  property: {
+    reference_id: string;
+    parcel_number: string;
+    location: string | null;
+    district: string | null;
+    sub_district: string | null;
+  };
+  payers: string[];
+  paid_to_date: number; // net of all entries up to and including this one
+  balance_after: number;
+}
+
+/**
+ * What the public verification page shows; payer names are left out on purpose
+ */
+export interface ReceiptVerification {
+  valid: true;
+  receipt_number: string;
+  entry_type: ReceiptEntryType;
+  payment_date: string;
+  amount_paid: number;
+  payment_method: string;
+  assessment_reference_id: string;
+  tax_year: number;
+  parcel_number: string;
+  reversed_amount: number; // part of a payment since reversed or refunded
+  issued_at: string;
+}
@@ -0,0 +1,162 @@
+/**
+ * Statement Service - Statement of account of a customer across all current properties
+ *
+ * Covers every non-archived assessment of the properties the customer currently owns or
+ * co-owns, with the payments, reversals and refunds recorded against them.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { CUSTOMER_CONTACT_SELECT, getCustomerContact, getCustomerName } from '../../utils/customerName';
+import { buildLedger } from './statementLedger';
+import { renderStatementPdf } from './statementPdf';
+import {
+  CustomerStatement,
+  StatementAssessment,
+  StatementOptions,
+  StatementPayment,
+  StatementProperty,
+} from './types';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+export class StatementService {
+  async getStatement(customerId: string, period: StatementOptions): Promise<CustomerStatement> {
+    const { data: customer, error } = await supabase
+      .from('customers')
+      .select(`id, ${CUSTOMER_CONTACT_SELECT}`)
+      .eq('id', customerId)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!customer) throw new AppError('Customer not found', 404);
+
+    const properties = await this.getProperties(customerId);
+    const assessments = await this.getAssessments(properties, period.to);
+    const payments = await this.getPayments(assessments.map((assessment) => assessment.id), period.to);
+
+    return {
+      customer: {
+        id: customer.id,
+        reference_id: customer.reference_id,
+        name: getCustomerName(customer),
+        customer_type: customer.customer_type,
+        contact: getCustomerContact(customer),
+      },
+      period,
+      generated_at: new Date().toISOString(),
+      properties,
+      assessments,
+      total_outstanding: roundAmount(assessments.reduce((sum, assessment) => sum + assessment.outstanding_amount, 0)),
+      ...buildLedger(assessments, payments, period),
+    };
+  }
+
+  async renderStatement(customerId: string, period: StatementOptions): Promise<{ filename: string; content: Buffer }> {
+    const statement = await this.getStatement(customerId, period);
+
+    return {
+      filename: `statement_${statement.customer.reference_id}_${period.from}_${period.to}.pdf`,
+      content: await renderStatementPdf(statement),
+    };
+  }
+
+  private async getProperties(customerId: string): Promise<StatementProperty[]> {
+    const { data, error } = await supabase
+      .from('property_ownership')
+      .select(
+        `
+        ownership_type,
+        ownership_percentage,
+        properties(id, reference_id, parcel_number, property_location, districts(name))
+      `
+      )
+      .eq('customer_id', customerId)
+      .in('ownership_type', ['OWNER', 'CO_OWNER'])
+      .eq('is_current', true);
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || [])
+      .map((row: any) => ({ row, property: single(row.properties) }))
+      .filter(({ property }) => property)
+      .map(({ row, property }) => ({
+        id: property.id,
+        reference_id: property.reference_id,
+        parcel_number: property.parcel_number,
+        location: property.property_location || null,
+        district: single(property.districts)?.name || null,
+        ownership_type: row.ownership_type,
+        ownership_percentage: row.ownership_percentage === null ? null : Number(row.ownership_percentage),
+      }));
+  }
+
+  private async getAssessments(properties: StatementProperty[], to: string): Promise<StatementAssessment[]> {
+    if (properties.length === 0) return [];
+
+    const parcels = new Map(properties.map((property) => [property.id, property.parcel_number]));
+
+    const { data, error } = await supabase
+      .from('tax_assessments')
+      .select(
+        `
+        id,
+        reference_id,
+        tax_year,
+        property_id,
+        assessment_date,
+        due_date,
+        status,
+        assessed_amount,
+        penalty_amount,
+        interest_amount,
+        penalty_calculated_at,
+        paid_amount,
+        outstanding_amount
+      `
+      )
+      .in('property_id', [...parcels.keys()])
+      .eq('is_archived', false)
+      .lte('assessment_date', to)
+      .order('tax_year', { ascending: true });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || []).map((assessment) => ({
+      id: assessment.id,
+      reference_id: assessment.reference_id,
+      tax_year: assessment.tax_year,
+      property_id: assessment.property_id,
+      parcel_number: parcels.get(assessment.property_id) || '',
+      assessment_date: assessment.assessment_date,
+      due_date: assessment.due_date,
+      status: assessment.status,
+      assessed_amount: Number(assessment.assessed_amount || 0),
+      penalties: roundAmount(Number(assessment.penalty_amount || 0) + Number(assessment.interest_amount || 0)),
+      penalty_date: assessment.penalty_calculated_at,
+      paid_amount: Number(assessment.paid_amount || 0),
+      outstanding_amount: Number(assessment.outstanding_amount || 0),
+    }));
+  }
+
+  private async getPayments(assessmentIds: string[], to: string): Promise<StatementPayment[]> {
+    if (assessmentIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('tax_payments')
+      .select('id, assessment_id, payment_date, amount_paid, entry_type, receipt_number, payment_method')
+      .in('assessment_id', assessmentIds)
+      .lte('payment_date', to)
+      .order('payment_date', { ascending: true });
+
+    if (error) throw new AppError(error.message, 500);
+
+    return (data || []).map((payment) => ({
+      ...payment,
+      amount_paid: Number(payment.amount_paid),
+      entry_type: payment.entry_type || 'PAYMENT',
+    }));
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Statements Module - Customer statements of account across all current properties
+ */
+
+export { StatementService } from './StatementService';
+export { buildLedger } from './statementLedger';
+
+export * from './types';
@@ -0,0 +1,115 @@
+/**
+ * Statement Ledger - Turns assessments and payment entries into a dated ledger
+ *
+ * Assessments are charged on their assessment date and penalties and interest on the
+ * date they were last calculated. Payments are credits; reversals and refunds undo a
+ * credit, so they are shown as charges. Everything dated before the period makes up the
+ * opening balance.
+ */
+
+import {
+  StatementAssessment,
+  StatementLedger,
+  StatementLine,
+  StatementLineType,
+  StatementOptions,
+  StatementPayment,
+} from './types';
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Same-day entries: charges before the payments that settle them
+const LINE_ORDER: Record<StatementLineType, number> = {
+  ASSESSMENT: 0,
+  PENALTY: 1,
+  PAYMENT: 2,
+  REVERSAL: 3,
+  REFUND: 4,
+};
+
+const ENTRY_LABELS = {
+  PAYMENT: 'Payment',
+  REVERSAL: 'Payment reversal',
+  REFUND: 'Refund',
+};
+
+export const buildLedger = (
+  assessments: StatementAssessment[],
+  payments: StatementPayment[],
+  period: StatementOptions
+): StatementLedger => {
+  const byId = new Map(assessments.map((assessment) => [assessment.id, assessment]));
+  const entries: Array<Omit<StatementLine, 'balance'>> = [];
+
+  for (const assessment of assessments) {
+    entries.push({
+      date: assessment.assessment_date.slice(0, 10),
+      type: 'ASSESSMENT',
+      description: `Tax assessment ${assessment.tax_year}`,
+      assessment_reference_id: assessment.reference_id,
+      parcel_number: assessment.parcel_number,
+      document_number: null,
+      charge: assessment.assessed_amount,
+      credit: 0,
+    });
+
+    if (assessment.penalties > 0) {
+      entries.push({
+        date: (assessment.penalty_date || assessment.due_date).slice(0, 10),
+        type: 'PENALTY',
+        description: `Penalties and interest ${assessment.tax_year}`,
+        assessment_reference_id: assessment.reference_id,
+        parcel_number: assessment.parcel_number,
+        document_number: null,
+        charge: assessment.penalties,
+        credit: 0,
+      });
+    }
+  }
+
+  for (const payment of payments) {
+    const assessment = byId.get(payment.assessment_id);
+    if (!assessment) continue;
+
+    const amount = Number(payment.amount_paid);
+    entries.push({
+      date: payment.payment_date.slice(0, 10),
+      type: payment.entry_type,
+      description: `${ENTRY_LABELS[payment.entry_type]} (${payment.payment_method.replace(/_/g, ' ').toLowerCase()})`,
+      assessment_reference_id: assessment.reference_id,
+      parcel_number: assessment.parcel_number,
+      document_number: payment.receipt_number,
+      charge: amount < 0 ? -amount : 0,
+      credit: amount > 0 ? amount : 0,
+    });
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || LINE_ORDER[a.type] - LINE_ORDER[b.type]);
+
+  let balance = 0;
+  let totalCharges = 0;
+  let totalCredits = 0;
+  const lines: StatementLine[] = [];
+
+  for (const entry of entries) {
+    if (entry.date > period.to) continue;
+
+    balance = roundAmount(balance + entry.charge - entry.credit);
+
+    if (entry.date < period.from) continue;
+
+    totalCharges += entry.charge;
+    totalCredits += entry.credit;
+    lines.push({ ...entry, balance });
+  }
+
+  const closingBalance = balance;
+
+  return {
+    opening_balance: roundAmount(closingBalance - totalCharges + totalCredits),
+    total_charges: roundAmount(totalCharges),
+    total_credits: roundAmount(totalCredits),
+    closing_balance: closingBalance,
+    lines,
+  };
+};
@@ -0,0 +1,117 @@
+/**
+ * Statement PDF - Layout of the customer statement of account
+ */
+
+import { PdfUtil } from '../../utils/pdf';
+import { CustomerStatement } from './types';
+
+export const renderStatementPdf = (statement: CustomerStatement): Promise<Buffer> => {
+  const money = PdfUtil.formatCurrency;
+
+  return PdfUtil.render(
+    (doc) => {
+      PdfUtil.header(
+        doc,
+        'Statement of Account',
+        `${PdfUtil.formatDate(statement.period.from)} to ${PdfUtil.formatDate(statement.period.to)}`
+      );
+
+      PdfUtil.fields(doc, [
+        ['Customer', `${statement.customer.name} (${statement.customer.reference_id})`],
+        ['Contact', statement.customer.contact || '-'],
+        ['Statement Date', PdfUtil.formatDate(statement.generated_at)],
+      ]);
+
+      PdfUtil.section(doc, 'Summary');
+      PdfUtil.fields(doc, [
+        ['Opening Balance', money(statement.opening_balance)],
+        ['Charges', money(statement.total_charges)],
+        ['Payments and Credits', money(statement.total_credits)],
+        ['Closing Balance', money(statement.closing_balance)],
+      ]);
+
+      PdfUtil.section(doc, 'Transactions');
+      PdfUtil.table(
+        doc,
+        [
+          { header: 'Date', width: 10 },
+          { header: 'Description', width: 22 },
+          { header: 'Assessment', width: 15 },
+          { header: 'Parcel', width: 12 },
+          { header: 'Receipt', width: 14 },
+          { header: 'Charge', width: 9, align: 'right' },
+          { header: 'Credit', width: 9, align: 'right' },
+          { header: 'Balance', width: 10, align: 'right' },
+        ],
+        [
+          ['', 'Opening balance', '', '', '', '', '', money(statement.opening_balance)],
+          ...statement.lines.map((line) => [
+            PdfUtil.formatDate(line.date),
+            line.description,
+            line.assessment_reference_id,
+            line.parcel_number,
+            line.document_number || '',
+            line.charge ? money(line.charge) : '',
+            line.credit ? money(line.credit) : '',
+            money(line.balance),
+          ]),
+          [
+            '',
+            'Closing balance',
+            '',
+            '',
+            '',
+            money(statement.total_charges),
+            money(statement.total_credits),
+            money(statement.closing_balance),
+          ],
+        ],
+        { boldLastRows: 1 }
+      );
+
+      PdfUtil.section(doc, 'Assessments');
+      PdfUtil.table(
+        doc,
+        [
+          { header: 'Assessment', width: 16 },
+          { header: 'Year', width: 7 },
+          { header: 'Parcel', width: 13 },
+          { header: 'Due Date', width: 12 },
+          { header: 'Status', width: 10 },
+          { header: 'Assessed', width: 11, align: 'right' },
+          { header: 'Penalties', width: 10, align: 'right' },
+          { header: 'Paid', width: 10, align: 'right' },
+          { header: 'Outstanding', width: 11, align: 'right' },
+        ],
+        [
+          ...statement.assessments.map((assessment) => [
+            assessment.reference_id,
+            String(assessment.tax_year),
+            assessment.parcel_number,
+            PdfUtil.formatDate(assessment.due_date),
+            assessment.status,
+            money(assessment.assessed_amount),
+            money(assessment.penalties),
+            money(assessment.paid_amount),
+            money(assessment.outstanding_amount),
+          ]),
+          ['Total outstanding today', '', '', '', '', '', '', '', money(statement.total_outstanding)],
+        ],
+        { boldLastRows: 1 }
+      );
+
+      doc.moveDown();
+      doc
+        .font('Helvetica')
+        .fontSize(8)
+        .fillColor('#555555')
+        .text(
+          'Penalties and interest are shown on the date they were last calculated. ' +
+            'The assessment table shows balances as of the statement date.',
+          doc.page.margins.left
+        )
+        .fillColor('black');
+    },
+    { layout: 'landscape' }
+  );
+};
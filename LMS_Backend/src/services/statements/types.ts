@@ -0,0 +1,84 @@
+/**
+ * Types for customer statements of account
+ */
+
+export type StatementLineType = 'ASSESSMENT' | 'PENALTY' | 'PAYMENT' | 'REVERSAL' | 'REFUND';
+
+export interface StatementOptions {
+  from: string;
+  to: string;
+}
+
+export interface StatementProperty {
+  id: string;
+  reference_id: string;
+  parcel_number: string;
+  location: string | null;
+  district: string | null;
+  ownership_type: string;
+  ownership_percentage: number | null;
+}
+
+export interface StatementAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  property_id: string;
+  parcel_number: string;
+  assessment_date: string;
+  due_date: string;
+  status: string;
+  assessed_amount: number;
+  penalties: number; // penalty plus interest
+  penalty_date: string | null; // when the charges were last calculated
+  paid_amount: number;
+  outstanding_amount: number;
+}
+
+export interface StatementPayment {
+  id: string;
+  assessment_id: string;
+  payment_date: string;
+  amount_paid: number; // negative for reversals and refunds
+  entry_type: 'PAYMENT' | 'REVERSAL' | 'REFUND';
+  receipt_number: string;
+  payment_method: string;
+}
+
+/**
+ * One entry of the period; charges raise the balance and credits lower it
+ */
+export interface StatementLine {
+  date: string;
+  type: StatementLineType;
+  description: string;
+  assessment_reference_id: string;
+  parcel_number: string;
+  document_number: string | null;
+  charge: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementLedger {
+  opening_balance: number;
+  total_charges: number;
+  total_credits: number;
+  closing_balance: number;
+  lines: StatementLine[];
+}
+
+export interface CustomerStatement extends StatementLedger {
+  customer: {
+    id: string;
+    reference_id: string;
+    name: string;
+    customer_type: string;
+    contact: string | null;
+  };
+  period: StatementOptions;
+  generated_at: string;
+  properties: StatementProperty[];
+  assessments: StatementAssessment[];
+  total_outstanding: number; // outstanding today across the listed assessments
+}
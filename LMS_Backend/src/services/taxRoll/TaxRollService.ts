@@ -0,0 +1,459 @@
+/**
+ * Tax Roll Service - Creates the assessments of a tax year for all approved properties
+ *
+ * Every APPROVED property without an assessment for the year gets one. Occupancy, renter,
+ * utility, size and legal details are copied from the prior year's assessment, or taken
+ * from the property when there is none, base_assessment comes from the current rate
+ * rules and exemption policies are applied as for a single assessment. Each assessment is
+ * also linked to the property's prior years and records their unpaid balance as arrears
+ * brought forward. Rows are inserted with ON CONFLICT (property_id, tax_year) DO NOTHING, so a run
+ * can be repeated safely and never touches existing assessments.
+ */
+
+import { supabase } from '../../config/database';
+import { AppError } from '../../middleware/errorHandler';
+import { ArrearsService, PriorBalance } from '../arrears';
+import { ExemptionOwner, ExemptionRule, ExemptionService, applyExemption } from '../exemptions';
+import { TaxRateRule, TaxRateService } from '../rates';
+import { TaxService } from '../taxService';
+import { TaxRollFailure, TaxRollOptions, TaxRollPlanItem, TaxRollPreview } from './types';
+
+interface PlannedAssessment {
+  item: TaxRollPlanItem;
+  values: Record<string, any>;
+}
+
+interface PlanLookups {
+  rates: TaxRateRule[];
+  exemptions: ExemptionRule[];
+  owners: Map<string, ExemptionOwner[]>;
+  priorBalances: Map<string, PriorBalance>;
+}
+
+interface TaxRollPlan {
+  totalProperties: number;
+  alreadyAssessed: number;
+  planned: PlannedAssessment[];
+  failures: TaxRollFailure[];
+}
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 100;
+const PREVIEW_ITEM_LIMIT = 200;
+const MAX_STORED_FAILURES = 1000;
+// A run still RUNNING after this long was interrupted (e.g. by a restart)
+const STALE_RUN_MINUTES = 60;
+// Attempts at a batch whose reference numbers were taken meanwhile by another assessment
+const REFERENCE_ATTEMPTS = 5;
+
+// Assessment fields carried over from the prior year
+const COPY_FORWARD_FIELDS = [
+  'occupancy_type',
+  'renter_name',
+  'renter_contact',
+  'renter_national_id',
+  'monthly_rent_amount',
+  'rental_start_date',
+  'has_rental_agreement',
+  'property_type',
+  'land_size',
+  'built_up_area',
+  'number_of_units',
+  'number_of_floors',
+  'has_water',
+  'has_electricity',
+  'has_sewer',
+  'has_waste_collection',
+  'construction_status',
+  'property_registered',
+  'title_deed_number',
+];
+
+export class TaxRollService {
+  private taxService = new TaxService();
+  private taxRateService = new TaxRateService();
+  private exemptionService = new ExemptionService();
+  private arrearsService = new ArrearsService();
+
+  /**
+   * Dry run: what a run would create right now, without writing anything
+   */
+  async preview(options: TaxRollOptions): Promise<TaxRollPreview> {
+    const plan = await this.buildPlan(options);
+
+    return {
+      tax_year: options.tax_year,
+      total_properties: plan.totalProperties,
+      already_assessed: plan.alreadyAssessed,
+      to_create: plan.planned.length,
+      from_prior_year: plan.planned.filter((planned) => planned.item.source === 'PRIOR_YEAR').length,
+      failed: plan.failures.length,
+      total_base_assessment:
+        Math.round(plan.planned.reduce((sum, planned) => sum + planned.item.base_assessment, 0) * 100) / 100,
+      total_exemption_amount:
+        Math.round(plan.planned.reduce((sum, planned) => sum + planned.item.exemption_amount, 0) * 100) / 100,
+      items: plan.planned.slice(0, PREVIEW_ITEM_LIMIT).map((planned) => planned.item),
+      failures: plan.failures,
+    };
+  }
+
+  /**
+   * Start a run in the background and return it immediately; progress is kept on the run row
+   */
+  async startRun(options: TaxRollOptions, userId: string) {
+    await this.closeInterruptedRuns(options.tax_year);
+
+    const { data: run, error } = await supabase
+      .from('tax_roll_runs')
+      .insert({ ...options, status: 'RUNNING', started_by: userId })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new AppError(`A tax roll for ${options.tax_year} is already being generated`, 409);
+      }
+      throw new AppError(error.message, 500);
+    }
+
+    this.execute(run.id, options, userId).catch((executeError) =>
+      this.updateRun(run.id, {
+        status: 'FAILED',
+        completed_at: new Date().toISOString(),
+        error_message: executeError.message || 'Tax roll generation failed',
+      })
+    );
+
+    return run;
+  }
+
+  async getRun(id: string) {
+    await this.closeInterruptedRuns();
+
+    const { data, error } = await supabase
+      .from('tax_roll_runs')
+      .select('*, started_by_user:users!tax_roll_runs_started_by_fkey(full_name)')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+    if (!data) throw new AppError('Tax roll run not found', 404);
+
+    return data;
+  }
+
+  async getLatestRun(taxYear?: number) {
+    await this.closeInterruptedRuns(taxYear);
+
+    let query = supabase
+      .from('tax_roll_runs')
+      .select('*, started_by_user:users!tax_roll_runs_started_by_fkey(full_name)');
+
+    if (taxYear) {
+      query = query.eq('tax_year', taxYear);
+    }
+
+    const { data, error } = await query
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    return data;
+  }
+
+  /**
+   * Mark runs still RUNNING long after they started as FAILED. They were interrupted,
+   * and the one-RUNNING-run-per-year index would otherwise block their year for good.
+   */
+  private async closeInterruptedRuns(taxYear?: number) {
+    const staleBefore = new Date(Date.now() - STALE_RUN_MINUTES * 60 * 1000).toISOString();
+
+    let query = supabase
+      .from('tax_roll_runs')
+      .update({
+        status: 'FAILED',
+        completed_at: new Date().toISOString(),
+        error_message: 'The run was interrupted before it finished',
+      })
+      .eq('status', 'RUNNING')
+      .lt('started_at', staleBefore);
+
+    if (taxYear) {
+      query = query.eq('tax_year', taxYear);
+    }
+
+    const { error } = await query;
+    if (error) throw new AppError(error.message, 500);
+  }
+
+  private async execute(runId: string, options: TaxRollOptions, userId: string) {
+    const plan = await this.buildPlan(options);
+    let created = 0;
+    let skipped = plan.alreadyAssessed;
+
+    await this.updateRun(runId, {
+      total_properties: plan.totalProperties,
+      processed: plan.alreadyAssessed + plan.failures.length,
+      skipped_count: skipped,
+      failed_count: plan.failures.length,
+      failures: plan.failures.slice(0, MAX_STORED_FAILURES),
+    });
+
+    for (let i = 0; i < plan.planned.length; i += INSERT_BATCH_SIZE) {
+      const planned = plan.planned.slice(i, i + INSERT_BATCH_SIZE);
+      const insertedRows = await this.insertBatch(planned, runId, options.tax_year, userId);
+      created += insertedRows.length;
+      skipped += planned.length - insertedRows.length;
+
+      if (insertedRows.length > 0) {
+        await supabase.from('audit_logs').insert(
+          insertedRows.flatMap((row) => [
+            {
+              entity_type: 'tax_assessment',
+              entity_id: row.id,
+              action: 'create',
+              field: 'tax_roll_run_id',
+              old_value: null,
+              new_value: runId,
+              changed_by: userId,
+            },
+            ...(row.exemption_details
+              ? [
+                  {
+                    entity_type: 'tax_assessment',
+                    entity_id: row.id,
+                    action: 'create',
+                    field: 'exemption_details',
+                    old_value: null,
+                    new_value: JSON.stringify(row.exemption_details),
+                    changed_by: userId,
+                  },
+                ]
+              : []),
+          ])
+        );
+      }
+
+      await this.updateRun(runId, {
+        processed: plan.alreadyAssessed + plan.failures.length + Math.min(i + INSERT_BATCH_SIZE, plan.planned.length),
+        created_count: created,
+        skipped_count: skipped,
+      });
+    }
+
+    await this.updateRun(runId, {
+      status: 'COMPLETED',
+      completed_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Insert a batch numbered from the next free reference number. An assessment created by
+   * hand meanwhile can take one of those numbers; the batch is then renumbered and retried.
+   */
+  private async insertBatch(
+    planned: PlannedAssessment[],
+    runId: string,
+    taxYear: number,
+    userId: string
+  ): Promise<Array<{ id: string; exemption_details: any }>> {
+    for (let attempt = 1; ; attempt++) {
+      const nextNumber = await this.taxService.getNextReferenceNumber(taxYear);
+      const batch = planned.map((item, index) => ({
+        ...item.values,
+        reference_id: this.taxService.formatReferenceId(taxYear, nextNumber + index),
+        created_by: userId,
+        tax_roll_run_id: runId,
+      }));
+
+      const { data, error } = await supabase
+        .from('tax_assessments')
+        .upsert(batch, { onConflict: 'property_id,tax_year', ignoreDuplicates: true })
+        .select('id, exemption_details');
+
+      if (!error) return data || [];
+      if (error.code !== '23505' || attempt >= REFERENCE_ATTEMPTS) throw new AppError(error.message, 500);
+    }
+  }
+
+  private async buildPlan(options: TaxRollOptions): Promise<TaxRollPlan> {
+    const [properties, existing, priorYear, rates, exemptions, priorBalances] = await Promise.all([
+      this.fetchApprovedProperties(),
+      this.fetchAssessments(options.tax_year, 'property_id'),
+      this.fetchAssessments(options.tax_year - 1, `property_id, ${COPY_FORWARD_FIELDS.join(', ')}`),
+      this.taxRateService.getActiveRules(),
+      this.exemptionService.getActiveRules(),
+      this.arrearsService.getPriorBalances(options.tax_year),
+    ]);
+
+    const assessedIds = new Set(existing.map((assessment) => assessment.property_id));
+    const priorByProperty = new Map(priorYear.map((assessment) => [assessment.property_id, assessment]));
+    const owners = await this.exemptionService.getCurrentOwners(
+      properties.filter((property) => !assessedIds.has(property.id)).map((property) => property.id)
+    );
+    const lookups: PlanLookups = { rates, exemptions, owners, priorBalances };
+
+    const planned: PlannedAssessment[] = [];
+    const failures: TaxRollFailure[] = [];
+
+    for (const property of properties) {
+      if (assessedIds.has(property.id)) continue;
+
+      try {
+        planned.push(await this.planAssessment(property, priorByProperty.get(property.id), lookups, options));
+      } catch (error: any) {
+        failures.push({
+          property_id: property.id,
+          property_reference_id: property.reference_id,
+          reason: error.message || 'Could not calculate the assessment',
+        });
+      }
+    }
+
+    return {
+      totalProperties: properties.length,
+      alreadyAssessed: properties.length - planned.length - failures.length,
+      planned,
+      failures,
+    };
+  }
+
+  private async planAssessment(
+    property: any,
+    prior: any | undefined,
+    lookups: PlanLookups,
+    options: TaxRollOptions
+  ): Promise<PlannedAssessment> {
+    const details: Record<string, any> = prior
+      ? Object.fromEntries(COPY_FORWARD_FIELDS.map((field) => [field, prior[field] ?? null]))
+      : {
+          occupancy_type: 'OWNER_OCCUPIED',
+          property_type: property.property_types?.name || null,
+          land_size: property.size,
+          built_up_area: null,
+          number_of_units: null,
+          number_of_floors: property.number_of_floors ?? null,
+          has_water: false,
+          has_electricity: false,
+          has_sewer: false,
+          has_waste_collection: false,
+          construction_status: 'COMPLETED',
+          property_registered: false,
+        };
+
+    if (!details.land_size || Number(details.land_size) <= 0) {
+      throw new AppError('Land size is missing', 400);
+    }
+
+    const breakdown = await this.taxRateService.calculate(
+      {
+        property_type_id: property.property_type_id ?? null,
+        district_id: property.district_id ?? null,
+        is_downtown: property.is_downtown ?? null,
+        occupancy_type: details.occupancy_type,
+        construction_status: details.construction_status,
+        land_size: Number(details.land_size),
+        built_up_area: details.built_up_area,
+        number_of_floors: details.number_of_floors,
+        assessment_date: options.assessment_date,
+      },
+      lookups.rates
+    );
+
+    const exemption = applyExemption(
+      lookups.exemptions,
+      {
+        property_type_id: property.property_type_id ?? null,
+        is_downtown: property.is_downtown ?? null,
+        is_building: property.is_building ?? null,
+        occupancy_type: details.occupancy_type,
+        owners: lookups.owners.get(property.id) || [],
+        assessment_date: options.assessment_date,
+      },
+      breakdown.base_assessment
+    );
+    const exemptionAmount = exemption?.exemption_amount ?? 0;
+    const assessedAmount = Math.round((breakdown.base_assessment - exemptionAmount) * 100) / 100;
+    const priorBalance = lookups.priorBalances.get(property.id);
+
+    return {
+      item: {
+        property_id: property.id,
+        property_reference_id: property.reference_id,
+        parcel_number: property.parcel_number,
+        source: prior ? 'PRIOR_YEAR' : 'PROPERTY',
+        rate_rule_name: breakdown.rule_name,
+        base_assessment: breakdown.base_assessment,
+        exemption_rule_name: exemption?.rule_name ?? null,
+        exemption_amount: exemptionAmount,
+      },
+      values: {
+        ...details,
+        property_id: property.id,
+        tax_year: options.tax_year,
+        base_assessment: breakdown.base_assessment,
+        exemption_amount: exemptionAmount,
+        assessed_amount: assessedAmount,
+        paid_amount: 0,
+        outstanding_amount: assessedAmount,
+        rate_rule_id: breakdown.rule_id,
+        calculation_breakdown: breakdown,
+        exemption_rule_id: exemption?.rule_id ?? null,
+        exemption_details: exemption,
+        previous_assessment_id: priorBalance?.previous_assessment_id ?? null,
+        arrears_brought_forward: priorBalance?.arrears_brought_forward ?? 0,
+        arrears_details: priorBalance?.arrears_details.length ? priorBalance.arrears_details : null,
+        assessment_date: options.assessment_date,
+        due_date: options.due_date,
+        status: 'ASSESSED',
+      },
+    };
+  }
+
+  private async fetchApprovedProperties(): Promise<any[]> {
+    const properties: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('*, property_types(name)')
+        .eq('status', 'APPROVED')
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      properties.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return properties;
+  }
+
+  private async fetchAssessments(taxYear: number, columns: string): Promise<any[]> {
+    const assessments: any[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('tax_assessments')
+        .select(columns)
+        .eq('tax_year', taxYear)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw new AppError(error.message, 500);
+
+      assessments.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+
+    return assessments;
+  }
+
+  private async updateRun(runId: string, values: Record<string, any>) {
+    const { error } = await supabase.from('tax_roll_runs').update(values).eq('id', runId);
+    if (error) console.error('Failed to update tax roll run:', error.message);
+  }
+}
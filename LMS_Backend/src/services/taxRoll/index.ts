@@ -0,0 +1,7 @@
+/**
+ * Tax Roll Module - Annual generation of tax assessments for approved properties
+ */
+
+export { TaxRollService } from './TaxRollService';
+
+export * from './types';
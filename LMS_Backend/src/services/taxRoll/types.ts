@@ -0,0 +1,44 @@
+/**
+ * Types for annual tax roll generation
+ */
+
+export interface TaxRollOptions {
+  tax_year: number;
+  assessment_date: string;
+  due_date: string;
+}
+
+/**
+ * Where the occupancy, utility and size data of a new assessment came from
+ */
+export type TaxRollSource = 'PRIOR_YEAR' | 'PROPERTY';
+
+export interface TaxRollPlanItem {
+  property_id: string;
+  property_reference_id: string;
+  parcel_number: string;
+  source: TaxRollSource;
+  rate_rule_name: string;
+  base_assessment: number;
+  exemption_rule_name: string | null;
+  exemption_amount: number;
+}
+
+export interface TaxRollFailure {
+  property_id: string;
+  property_reference_id: string;
+  reason: string;
+}
+
+export interface TaxRollPreview {
+  tax_year: number;
+  total_properties: number;
+  already_assessed: number;
+  to_create: number;
+  from_prior_year: number;
+  failed: number;
+  total_base_assessment: number;
+  total_exemption_amount: number;
+  items: TaxRollPlanItem[];
+  failures: TaxRollFailure[];
+}
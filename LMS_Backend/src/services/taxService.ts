@@ -1,5 +1,11 @@
 import { supabase } from '../config/database';
+import { randomUUID } from 'crypto';
 import { AppError } from '../middleware/errorHandler';
+import { AllocatedPaymentResult, ArrearsService, UnrecordedAllocation, allocateOldestFirst } from './arrears';
+import { CashierSessionService } from './cashier';
+import { ExemptionService } from './exemptions';
+import { InstallmentPlanService } from './installments';
+import { TaxRateService } from './rates';
 // import { getSocketHandler } from '../websocket/socketHandler'; // WebSocket removed
 
 export interface TaxFilters {
@@ -13,7 +19,24 @@ export interface TaxFilters {
   district_id?: string;
 }
 
+// Assessment fields that feed the rate calculation
+const RATE_INPUT_FIELDS = [
+  'property_id',
+  'occupancy_type',
+  'construction_status',
+  'land_size',
+  'built_up_area',
+  'number_of_floors',
+  'assessment_date',
+];
+
 export class TaxService {
+  private taxRateService = new TaxRateService();
+  private exemptionService = new ExemptionService();
+  private installmentPlanService = new InstallmentPlanService();
+  private cashierSessionService = new CashierSessionService();
+  private arrearsService = new ArrearsService();
+
   async getAssessments(filters: TaxFilters) {
     const {
       page = 1,
@@ -97,7 +120,8 @@ export class TaxService {
           property_types(name, category),
           districts(name),
           sub_districts(name)
-        )
+        ),
+        penalty_rules(name, grace_days)
       `
       )
       .eq('id', id)
@@ -111,24 +135,45 @@ export class TaxService {
 
   async createAssessment(assessmentData: any, userId: string) {
     // Generate reference ID
-    const { count } = await supabase
-      .from('tax_assessments')
-      .select('*', { count: 'exact', head: true });
+    const nextNumber = await this.getNextReferenceNumber(assessmentData.tax_year);
+    const referenceId = this.formatReferenceId(assessmentData.tax_year, nextNumber);
+
+    // Calculate base assessment from the rate tables
+    const breakdown = await this.calculateBase(assessmentData);
+    const baseAssessment = breakdown.base_assessment;
 
-    const nextNumber = (count || 0) + 1;
-    const referenceId = `TAX-${assessmentData.tax_year}-${String(nextNumber).padStart(5, '0')}`;
+    // Exemption policies take precedence over an exemption entered by hand
+    const exemption = await this.applyExemption(assessmentData, baseAssessment);
+    const exemptionAmount = exemption ? exemption.exemption_amount : assessmentData.exemption_amount || 0;
+
+    if (exemptionAmount > baseAssessment) {
+      throw new AppError('Exemption amount cannot exceed the calculated base assessment', 400);
+    }
 
-    // Calculate assessed amount (base_assessment - exemption_amount)
-    const baseAssessment = assessmentData.base_assessment || 0;
-    const exemptionAmount = assessmentData.exemption_amount || 0;
     const assessedAmount = baseAssessment - exemptionAmount;
 
+    // Link the prior years of the property and record what they still owe
+    const priorBalance = assessmentData.property_id
+      ? (await this.arrearsService.getPriorBalances(assessmentData.tax_year, [assessmentData.property_id])).get(
+          assessmentData.property_id
+        )
+      : undefined;
+
     // Create assessment
     const { data: assessment, error: assessmentError } = await supabase
       .from('tax_assessments')
       .insert({
         ...assessmentData,
         reference_id: referenceId,
+        base_assessment: baseAssessment,
+        rate_rule_id: breakdown.rule_id,
+        calculation_breakdown: breakdown,
+        exemption_amount: exemptionAmount,
+        exemption_rule_id: exemption?.rule_id ?? null,
+        exemption_details: exemption,
+        previous_assessment_id: priorBalance?.previous_assessment_id ?? null,
+        arrears_brought_forward: priorBalance?.arrears_brought_forward ?? 0,
+        arrears_details: priorBalance?.arrears_details.length ? priorBalance.arrears_details : null,
         assessed_amount: assessedAmount,
         paid_amount: 0,
         outstanding_amount: assessedAmount,
@@ -151,28 +196,100 @@ export class TaxService {
       changed_by: userId,
     });
 
+    if (exemption) {
+      await supabase.from('audit_logs').insert({
+        entity_type: 'tax_assessment',
+        entity_id: assessment.id,
+        action: 'create',
+        field: 'exemption_details',
+        old_value: null,
+        new_value: JSON.stringify(exemption),
+        changed_by: userId,
+      });
+    }
+
     // WebSocket removed - not needed for LMS
 
     return assessment;
   }
 
+  /**
+   * Next free number in the TAX-<year>-NNNNN sequence of a tax year
+   */
+  async getNextReferenceNumber(taxYear: number): Promise<number> {
+    const { data, error } = await supabase
+      .from('tax_assessments')
+      .select('reference_id')
+      .like('reference_id', `TAX-${taxYear}-%`)
+      .order('reference_id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const lastNumber = data ? parseInt(data.reference_id.split('-').pop() || '0', 10) : 0;
+    return (Number.isFinite(lastNumber) ? lastNumber : 0) + 1;
+  }
+
+  formatReferenceId(taxYear: number, number: number): string {
+    return `TAX-${taxYear}-${String(number).padStart(5, '0')}`;
+  }
+
   async updateAssessment(id: string, assessmentData: any, userId: string) {
-    // Recalculate assessed amount if base or exemption changed
-    let updateData = { ...assessmentData };
-    
-    if (assessmentData.base_assessment !== undefined || 
-        assessmentData.exemption_amount !== undefined) {
-      
+    // Base assessment is calculated from the rate tables, never taken from the request
+    const updateData = { ...assessmentData };
+    delete updateData.base_assessment;
+    delete updateData.rate_rule_id;
+    delete updateData.calculation_breakdown;
+    delete updateData.exemption_rule_id;
+    delete updateData.exemption_details;
+    let exemptionChange: { old: any; new: any } | null = null;
+
+    const ratesInput = RATE_INPUT_FIELDS.some((field) => updateData[field] !== undefined);
+
+    if (ratesInput || updateData.exemption_amount !== undefined) {
       // Get current assessment
       const { data: current } = await supabase
         .from('tax_assessments')
-        .select('base_assessment, exemption_amount, paid_amount')
+        .select('*')
         .eq('id', id)
         .single();
 
       if (current) {
-        const baseAssessment = assessmentData.base_assessment ?? current.base_assessment;
-        const exemptionAmount = assessmentData.exemption_amount ?? current.exemption_amount;
+        let baseAssessment = current.base_assessment;
+        const ratesChanged = RATE_INPUT_FIELDS.some(
+          (field) => updateData[field] !== undefined && String(updateData[field] ?? '') !== String(current[field] ?? '')
+        );
+
+        if (ratesChanged) {
+          const breakdown = await this.calculateBase({ ...current, ...updateData });
+          baseAssessment = breakdown.base_assessment;
+          updateData.base_assessment = baseAssessment;
+          updateData.rate_rule_id = breakdown.rule_id;
+          updateData.calculation_breakdown = breakdown;
+        }
+
+        // Re-apply the exemption policies; a manual exemption only counts when none applies
+        const exemption = await this.applyExemption({ ...current, ...updateData }, baseAssessment);
+        if (exemption) {
+          updateData.exemption_amount = exemption.exemption_amount;
+          updateData.exemption_rule_id = exemption.rule_id;
+          updateData.exemption_details = exemption;
+        } else if (current.exemption_rule_id) {
+          updateData.exemption_amount = updateData.exemption_amount ?? 0;
+          updateData.exemption_rule_id = null;
+          updateData.exemption_details = null;
+        }
+
+        if ((exemption?.rule_id ?? null) !== (current.exemption_rule_id ?? null)) {
+          exemptionChange = { old: current.exemption_details ?? null, new: exemption };
+        }
+
+        const exemptionAmount = updateData.exemption_amount ?? current.exemption_amount;
+        if (exemptionAmount > baseAssessment) {
+          throw new AppError('Exemption amount cannot exceed the calculated base assessment', 400);
+        }
+
         const assessedAmount = baseAssessment - exemptionAmount;
 
         updateData.assessed_amount = assessedAmount;
@@ -200,11 +317,43 @@ export class TaxService {
       changed_by: userId,
     });
 
+    if (exemptionChange) {
+      await supabase.from('audit_logs').insert({
+        entity_type: 'tax_assessment',
+        entity_id: id,
+        action: 'update',
+        field: 'exemption_details',
+        old_value: exemptionChange.old ? JSON.stringify(exemptionChange.old) : null,
+        new_value: exemptionChange.new ? JSON.stringify(exemptionChange.new) : null,
+        changed_by: userId,
+      });
+    }
+
     // WebSocket removed - not needed for LMS
 
     return assessment;
   }
 
+  /**
+   * Base assessment, calculation breakdown and applicable exemption for assessment values, without saving anything
+   */
+  async calculateAssessment(assessmentData: any) {
+    const breakdown = await this.calculateBase(assessmentData);
+    const exemption = await this.applyExemption(assessmentData, breakdown.base_assessment);
+
+    return { ...breakdown, exemption };
+  }
+
+  private async calculateBase(assessmentData: any) {
+    const input = await this.taxRateService.buildRateInput(assessmentData);
+    return this.taxRateService.calculate(input);
+  }
+
+  private async applyExemption(assessmentData: any, baseAssessment: number) {
+    const context = await this.exemptionService.buildContext(assessmentData);
+    return this.exemptionService.apply(context, baseAssessment);
+  }
+
   async deleteAssessment(id: string, userId: string) {
     const { error } = await supabase.from('tax_assessments').delete().eq('id', id);
 
@@ -242,21 +391,117 @@ export class TaxService {
   async getPayments(assessmentId: string) {
     const { data, error } = await supabase
       .from('tax_payments')
-      .select('*')
+      .select(`
+        *,
+        collector:users!tax_payments_collected_by_fkey(full_name),
+        approver:users!tax_payments_approved_by_fkey(full_name)
+      `)
       .eq('assessment_id', assessmentId)
-      .order('payment_date', { ascending: false });
+      .order('payment_date', { ascending: false })
+      .order('created_at', { ascending: false });
 
     if (error) throw new AppError(error.message, 500);
 
     return data || [];
   }
 
-  async createPayment(paymentData: any, userId: string) {
+  async createPayment(assessmentId: string, paymentData: any, userId: string, userRole: string) {
+    // Payments taken over the counter belong to the collector's open till
+    const cashierSessionId = await this.cashierSessionService.getPaymentSessionId(userId, userRole);
+
+    return this.recordPayment(assessmentId, { ...paymentData, cashier_session_id: cashierSessionId }, userId);
+  }
+
+  /**
+   * Tax history of a property and its debt across all years
+   */
+  async getPropertyDebt(propertyId: string) {
+    return this.arrearsService.getPropertyDebt(propertyId);
+  }
+
+  /**
+   * Take one payment for a property and split it across its open assessments, oldest year
+   * first. Each assessment gets its own payment entry and receipt; the entries share an
+   * allocation id. Entries are posted one by one and never deleted, so when one fails
+   * after others were recorded, the result lists the recorded receipts and the shares
+   * left unrecorded instead of failing the whole payment.
+   */
+  async createAllocatedPayment(
+    propertyId: string,
+    paymentData: any,
+    userId: string,
+    userRole: string
+  ): Promise<AllocatedPaymentResult> {
+    const cashierSessionId = await this.cashierSessionService.getPaymentSessionId(userId, userRole);
+
+    const debt = await this.arrearsService.getPropertyDebt(propertyId);
+    if (debt.open_assessments.length === 0) {
+      throw new AppError('This property has no outstanding tax', 400);
+    }
+    if (paymentData.amount_paid > debt.total_outstanding) {
+      throw new AppError(
+        `Payment amount cannot exceed the total outstanding of ${debt.total_outstanding.toFixed(2)}`,
+        400
+      );
+    }
+
+    const allocationId = randomUUID();
+    const referenceIds = new Map(debt.open_assessments.map((assessment) => [assessment.id, assessment.reference_id]));
+    const payments: any[] = [];
+    const unrecorded: UnrecordedAllocation[] = [];
+
+    for (const allocation of allocateOldestFirst(debt.open_assessments, paymentData.amount_paid)) {
+      const referenceId = referenceIds.get(allocation.assessment_id) || '';
+
+      // Stop at the first failure so that the oldest years are still paid first
+      if (unrecorded.length > 0) {
+        unrecorded.push({ ...allocation, reference_id: referenceId, error: 'Not recorded after an earlier entry failed' });
+        continue;
+      }
+
+      try {
+        payments.push(
+          await this.recordPayment(
+            allocation.assessment_id,
+            {
+              payment_date: paymentData.payment_date,
+              payment_method: paymentData.payment_method,
+              notes: paymentData.notes,
+              amount_paid: allocation.amount,
+              cashier_session_id: cashierSessionId,
+              allocation_id: allocationId,
+            },
+            userId
+          )
+        );
+      } catch (error: any) {
+        // Nothing has been recorded yet, so the payment can simply be taken again
+        if (payments.length === 0) throw error;
+        unrecorded.push({ ...allocation, reference_id: referenceId, error: error.message || 'Payment failed' });
+      }
+    }
+
+    const totalPaid = Math.round(payments.reduce((sum, payment) => sum + Number(payment.amount_paid), 0) * 100) / 100;
+
+    return {
+      allocation_id: allocationId,
+      total_paid: totalPaid,
+      unrecorded_amount: Math.round((paymentData.amount_paid - totalPaid) * 100) / 100,
+      payments,
+      unrecorded,
+    };
+  }
+
+  /**
+   * Record a payment entry against an assessment, with its audit trail and plan allocation.
+   * Payments not taken at a till (e.g. bank transfers) are recorded without a cashier session.
+   */
+  async recordPayment(assessmentId: string, paymentData: any, userId: string) {
     // Get assessment
     const { data: assessment, error: assessmentError } = await supabase
       .from('tax_assessments')
       .select('*')
-      .eq('id', paymentData.assessment_id)
+      .eq('id', assessmentId)
       .single();
 
     if (assessmentError || !assessment) {
@@ -268,72 +513,92 @@ export class TaxService {
       throw new AppError('Cannot add payment: This tax assessment does not have a property assigned. Please edit the assessment and add a property first.', 400);
     }
 
-    // Generate receipt number
-    const { count } = await supabase
-      .from('tax_payments')
-      .select('*', { count: 'exact', head: true });
+    if (paymentData.amount_paid > Number(assessment.outstanding_amount)) {
+      throw new AppError('Payment amount cannot exceed the outstanding amount', 400);
+    }
 
-    const nextNumber = (count || 0) + 1;
-    const receiptNumber = `RCPT-${new Date().getFullYear()}-${String(nextNumber).padStart(5, '0')}`;
+    const receiptNumber = paymentData.receipt_number || (await this.generateReceiptNumber());
 
-    // Create payment
+    // Create payment; the payment trigger adds it to paid_amount and the status trigger
+    // recomputes outstanding_amount and status
     const { data: payment, error: paymentError } = await supabase
       .from('tax_payments')
       .insert({
         ...paymentData,
+        assessment_id: assessmentId,
         receipt_number: receiptNumber,
-        recorded_by: userId,
+        entry_type: 'PAYMENT',
+        collected_by: userId,
       })
       .select()
       .single();
 
-    if (paymentError) throw new AppError(paymentError.message, 500);
-
-    // Update assessment
-    const newPaidAmount = (assessment.paid_amount || 0) + paymentData.amount;
-    const newOutstandingAmount = assessment.assessed_amount - newPaidAmount;
-    const newStatus = newOutstandingAmount <= 0 ? 'PAID' : 'PARTIAL';
-
-    await supabase
-      .from('tax_assessments')
-      .update({
-        paid_amount: newPaidAmount,
-        outstanding_amount: newOutstandingAmount,
-        status: newStatus,
-      })
-      .eq('id', paymentData.assessment_id);
+    if (paymentError) {
+      if (paymentError.code === '23505') {
+        throw new AppError(`Receipt number ${receiptNumber} is already in use`, 409);
+      }
+      throw new AppError(paymentError.message, 500);
+    }
 
     // Create audit log for payment
     await supabase.from('audit_logs').insert({
       entity_type: 'tax_payment',
       entity_id: payment.id,
       action: 'create',
-      field: 'amount',
+      field: 'amount_paid',
       old_value: null,
-      new_value: paymentData.amount.toString(),
+      new_value: String(payment.amount_paid),
       changed_by: userId,
-      metadata: { receipt_number: receiptNumber, assessment_id: paymentData.assessment_id } as any,
     });
 
     // Create audit log for assessment status change
-    if (assessment.status !== newStatus) {
+    const { data: updated } = await supabase
+      .from('tax_assessments')
+      .select('status')
+      .eq('id', assessmentId)
+      .single();
+
+    if (updated && assessment.status !== updated.status) {
       await supabase.from('audit_logs').insert({
         entity_type: 'tax_assessment',
-        entity_id: paymentData.assessment_id,
+        entity_id: assessmentId,
         action: 'update',
         field: 'status',
         old_value: assessment.status,
-        new_value: newStatus,
+        new_value: updated.status,
         changed_by: userId,
-        metadata: { payment_id: payment.id } as any,
       });
     }
 
+    // Allocate the payment to the installments of an open payment plan
+    await this.installmentPlanService.allocatePayments(assessmentId, userId);
+
     // WebSocket removed - not needed for LMS
 
     return payment;
   }
 
+  /**
+   * Next free number in the RCPT-<year>-NNNNN sequence of the current year
+   */
+  async generateReceiptNumber(): Promise<string> {
+    const year = new Date().getFullYear();
+    const { data, error } = await supabase
+      .from('tax_payments')
+      .select('receipt_number')
+      .like('receipt_number', `RCPT-${year}-%`)
+      .order('receipt_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw new AppError(error.message, 500);
+
+    const lastNumber = data ? parseInt(data.receipt_number.split('-').pop() || '0', 10) : 0;
+    const nextNumber = (Number.isFinite(lastNumber) ? lastNumber : 0) + 1;
+
+    return `RCPT-${year}-${String(nextNumber).padStart(5, '0')}`;
+  }
+
   async getTaxStats(year?: number) {
     const currentYear = year || new Date().getFullYear();
 
@@ -1,5 +1,17 @@
 import { supabase } from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import {
+  ApprovalWorkflowService,
+  getSlaStatus,
+  RecordChangeService,
+  RecordChangeSet,
+  ReviewAssignmentService,
+  ReviewQueueView,
+  ReviewSlaService,
+  StageDecision,
+  WorkflowActor,
+  WorkflowEntityType,
+} from './approvals';
 // import { getSocketHandler } from '../websocket/socketHandler'; // WebSocket removed
 
 export interface ReviewQueueFilters {
@@ -7,18 +19,56 @@ export interface ReviewQueueFilters {
   limit?: number;
   entityType?: 'customer' | 'property';
   status?: string;
+  view?: ReviewQueueView;
 }
 
+export interface BulkReviewRequest {
+  customer_ids?: string[];
+  property_ids?: string[];
+  feedback?: string; // shared by every record; required to reject
+}
+
+export type BulkReviewOutcome = 'APPROVED' | 'STAGE_APPROVED' | 'REJECTED' | 'CHANGES_RESTORED';
+
+export interface BulkReviewItemResult {
+  entity_type: WorkflowEntityType;
+  id: string;
+  reference_id: string | null;
+  success: boolean;
+  outcome?: BulkReviewOutcome;
+  error?: string;
+}
+
+export interface BulkReviewResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkReviewItemResult[];
+}
+
+const single = (value: any) => (Array.isArray(value) ? value[0] : value);
+
+const LABELS: Record<WorkflowEntityType, { one: string; many: string }> = {
+  customer: { one: 'customer', many: 'customers' },
+  property: { one: 'property', many: 'properties' },
+};
+
+const approvalWorkflowService = new ApprovalWorkflowService();
+const reviewAssignmentService = new ReviewAssignmentService();
+const reviewSlaService = new ReviewSlaService();
+const recordChangeService = new RecordChangeService();
+
 export class WorkflowService {
-  async getReviewQueue(filters: ReviewQueueFilters) {
+  async getReviewQueue(filters: ReviewQueueFilters, actor: WorkflowActor) {
     const {
       page = 1,
       limit = 50,
       entityType,
       status = 'SUBMITTED',
+      view = 'all',
     } = filters;
 
-    const items: any[] = [];
+    let items: any[] = [];
 
     // Get customers if requested
     if (!entityType || entityType === 'customer') {
@@ -35,7 +85,8 @@ export class WorkflowService {
           submitted_at,
           customer_person(full_name, pr_id),
           customer_business(business_name),
-          customer_government(full_department_name)
+          customer_government(full_department_name),
+          created_by_user:users!customers_created_by_fkey(full_name)
         `
         )
         .eq('status', status)
@@ -72,6 +123,8 @@ export class WorkflowService {
             name,
             type: customer.customer_type,
             status: customer.status,
+            submitted_by: customer.created_by,
+            submitted_by_name: single(customer.created_by_user)?.full_name || 'Unknown',
             submitted_at: customer.submitted_at,
             created_at: customer.created_at,
           });
@@ -92,7 +145,9 @@ export class WorkflowService {
           status,
           created_by,
           created_at,
-          property_types(name)
+          property_types(name),
+          districts(name),
+          creator:users!properties_created_by_fkey(full_name)
         `
         )
         .eq('status', status)
@@ -106,7 +161,10 @@ export class WorkflowService {
             entity_type: 'property',
             name: property.property_location || property.parcel_number,
             type: property.property_types?.name || 'Unknown',
+            district: single(property.districts)?.name || null,
             status: property.status,
+            submitted_by: property.created_by,
+            submitted_by_name: single(property.creator)?.full_name || 'Unknown',
             submitted_at: property.created_at,
             created_at: property.created_at,
           });
@@ -114,6 +172,44 @@ export class WorkflowService {
       }
     }
 
+    // Pending stages of each item, whether this user can approve one of them, who is reviewing
+    // it and how long it has waited against its SLA target
+    const now = new Date();
+    const slaTargets = await reviewSlaService.getTargets();
+    for (const type of ['customer', 'property'] as WorkflowEntityType[]) {
+      const ids = items.filter((item) => item.entity_type === type).map((item) => item.id);
+      const stages = await approvalWorkflowService.getQueueStages(type, ids, actor);
+      const assignments = await reviewAssignmentService.getActiveMap(type, ids);
+      const slaTarget = slaTargets.find((target) => target.entity_type === type) || null;
+      items
+        .filter((item) => item.entity_type === type)
+        .forEach((item) => {
+          const itemStages = stages.get(item.id);
+          item.current_stages = itemStages?.current_stages || [];
+          // Items without a review yet get the built-in single approval on the first decision
+          item.can_act = itemStages ? itemStages.can_act : ['APPROVER', 'ADMINISTRATOR'].includes(actor.role);
+
+          const assignment = assignments.get(item.id);
+          item.assigned_to = assignment?.assigned_to || null;
+          item.assigned_to_name = assignment?.assignee?.full_name || null;
+          item.assignment_method = assignment?.method || null;
+          item.assignment_expires_at = assignment?.expires_at || null;
+
+          if (itemStages?.submitted_at) item.submitted_at = itemStages.submitted_at;
+          const sla = getSlaStatus(item.submitted_at || item.created_at, slaTarget, now);
+          item.hours_pending = sla.hours_pending;
+          item.sla_target_hours = sla.target_hours;
+          item.sla_due_at = sla.due_at;
+          item.sla_state = sla.state;
+        });
+    }
+
+    if (view === 'mine') {
+      items = items.filter((item) => item.assigned_to === actor.id);
+    } else if (view === 'unassigned') {
+      items = items.filter((item) => !item.assigned_to);
+    }
+
     // Sort by submitted_at
     items.sort((a, b) => 
       new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime()
@@ -135,7 +231,12 @@ export class WorkflowService {
     };
   }
 
-  async getReviewItem(entityType: 'customer' | 'property', id: string) {
+  async getReviewItem(entityType: 'customer' | 'property', id: string, actor: WorkflowActor) {
+    const workflow = await approvalWorkflowService.getProgress(entityType, id, actor);
+    const assignment = await reviewAssignmentService.getActive(entityType, id);
+    // Changes since the last approval when an approved record was edited
+    const changes = await recordChangeService.getReviewChanges(entityType, id);
+
     if (entityType === 'customer') {
       const { data, error } = await supabase
         .from('customers')
@@ -154,7 +255,7 @@ export class WorkflowService {
         .single();
 
       if (error) throw new AppError(error.message, 404);
-      return { entity_type: 'customer', ...data };
+      return { entity_type: 'customer', ...data, workflow, assignment, changes };
     } else {
       const { data, error } = await supabase
         .from('properties')
@@ -171,11 +272,17 @@ export class WorkflowService {
         .single();
 
       if (error) throw new AppError(error.message, 404);
-      return { entity_type: 'property', ...data };
+      return { entity_type: 'property', ...data, workflow, assignment, changes };
     }
   }
 
-  async approveCustomer(id: string, userId: string) {
+  async approveCustomer(id: string, actor: WorkflowActor, notifyCreator = true) {
+    const userId = actor.id;
+    const decision = await approvalWorkflowService.approve('customer', id, actor);
+    if (!decision.completed) {
+      return this.recordStageApproval('customer', id, decision, userId);
+    }
+
     const { data, error } = await supabase
       .from('customers')
       .update({
@@ -188,6 +295,8 @@ export class WorkflowService {
 
     if (error) throw new AppError(error.message, 500);
 
+    await recordChangeService.accept('customer', id, userId);
+
     // Create audit log
     await supabase.from('audit_logs').insert({
       entity_type: 'customer',
@@ -199,17 +308,19 @@ export class WorkflowService {
       changed_by: userId,
     });
 
-    // Create notification for creator
-    try {
-      await supabase.from('notifications').insert({
-        user_id: data.created_by,
-        title: 'Customer Approved',
-        message: `Your customer ${data.reference_id} has been approved`,
-        entity_type: 'customer',
-        entity_id: id,
-      });
-    } catch (notifError) {
-      console.error('Failed to create notification:', notifError);
+    // Create notification for creator; bulk decisions send one per creator instead
+    if (notifyCreator) {
+      try {
+        await supabase.from('notifications').insert({
+          user_id: data.created_by,
+          title: 'Customer Approved',
+          message: `Your customer ${data.reference_id} has been approved`,
+          entity_type: 'customer',
+          entity_id: id,
+        });
+      } catch (notifError) {
+        console.error('Failed to create notification:', notifError);
+      }
     }
 
     // Emit WebSocket event - REMOVED
@@ -227,10 +338,19 @@ export class WorkflowService {
     //   console.error('Failed to emit socket event:', error);
     // }
 
-    return data;
+    return { ...data, workflow: decision.progress };
   }
 
-  async rejectCustomer(id: string, userId: string, feedback: string) {
+  async rejectCustomer(id: string, actor: WorkflowActor, feedback: string, notifyCreator = true) {
+    const userId = actor.id;
+    const decision = await approvalWorkflowService.reject('customer', id, actor, feedback);
+
+    // Rejected edits of an approved record restore its approved version
+    const changeSet = await recordChangeService.getPending('customer', id);
+    if (changeSet) {
+      return this.rejectChanges(changeSet, decision, userId, feedback, notifyCreator);
+    }
+
     const { data, error } = await supabase
       .from('customers')
       .update({
@@ -255,17 +375,19 @@ export class WorkflowService {
       metadata: { feedback },
     });
 
-    // Create notification for creator
-    try {
-      await supabase.from('notifications').insert({
-        user_id: data.created_by,
-        title: 'Customer Rejected',
-        message: `Your customer ${data.reference_id} has been rejected: ${feedback}`,
-        entity_type: 'customer',
-        entity_id: id,
-      });
-    } catch (notifError) {
-      console.error('Failed to create notification:', notifError);
+    // Create notification for creator; bulk decisions send one per creator instead
+    if (notifyCreator) {
+      try {
+        await supabase.from('notifications').insert({
+          user_id: data.created_by,
+          title: 'Customer Rejected',
+          message: `Your customer ${data.reference_id} has been rejected: ${feedback}`,
+          entity_type: 'customer',
+          entity_id: id,
+        });
+      } catch (notifError) {
+        console.error('Failed to create notification:', notifError);
+      }
     }
 
     // Emit WebSocket event - REMOVED
@@ -283,10 +405,16 @@ export class WorkflowService {
     //   console.error('Failed to emit socket event:', error);
     // }
 
-    return data;
+    return { ...data, workflow: decision.progress };
   }
 
-  async approveProperty(id: string, userId: string) {
+  async approveProperty(id: string, actor: WorkflowActor, notifyCreator = true) {
+    const userId = actor.id;
+    const decision = await approvalWorkflowService.approve('property', id, actor);
+    if (!decision.completed) {
+      return this.recordStageApproval('property', id, decision, userId);
+    }
+
     const { data, error } = await supabase
       .from('properties')
       .update({
@@ -299,6 +427,8 @@ export class WorkflowService {
 
     if (error) throw new AppError(error.message, 500);
 
+    await recordChangeService.accept('property', id, userId);
+
     // Create audit log
     await supabase.from('audit_logs').insert({
       entity_type: 'property',
@@ -310,17 +440,19 @@ export class WorkflowService {
       changed_by: userId,
     });
 
-    // Create notification for creator
-    try {
-      await supabase.from('notifications').insert({
-        user_id: data.created_by,
-        title: 'Property Approved',
-        message: `Your property ${data.reference_id} has been approved`,
-        entity_type: 'property',
-        entity_id: id,
-      });
-    } catch (notifError) {
-      console.error('Failed to create notification:', notifError);
+    // Create notification for creator; bulk decisions send one per creator instead
+    if (notifyCreator) {
+      try {
+        await supabase.from('notifications').insert({
+          user_id: data.created_by,
+          title: 'Property Approved',
+          message: `Your property ${data.reference_id} has been approved`,
+          entity_type: 'property',
+          entity_id: id,
+        });
+      } catch (notifError) {
+        console.error('Failed to create notification:', notifError);
+      }
     }
 
     // Emit WebSocket event - REMOVED
@@ -338,10 +470,19 @@ export class WorkflowService {
     //   console.error('Failed to emit socket event:', error);
     // }
 
-    return data;
+    return { ...data, workflow: decision.progress };
   }
 
-  async rejectProperty(id: string, userId: string, feedback: string) {
+  async rejectProperty(id: string, actor: WorkflowActor, feedback: string, notifyCreator = true) {
+    const userId = actor.id;
+    const decision = await approvalWorkflowService.reject('property', id, actor, feedback);
+
+    // Rejected edits of an approved record restore its approved version
+    const changeSet = await recordChangeService.getPending('property', id);
+    if (changeSet) {
+      return this.rejectChanges(changeSet, decision, userId, feedback, notifyCreator);
+    }
+
     const { data, error } = await supabase
       .from('properties')
       .update({
@@ -365,17 +506,19 @@ export class WorkflowService {
       metadata: { feedback },
     });
 
-    // Create notification for creator
-    try {
-      await supabase.from('notifications').insert({
-        user_id: data.created_by,
-        title: 'Property Rejected',
-        message: `Your property ${data.reference_id} has been rejected: ${feedback}`,
-        entity_type: 'property',
-        entity_id: id,
-      });
-    } catch (notifError) {
-      console.error('Failed to create notification:', notifError);
+    // Create notification for creator; bulk decisions send one per creator instead
+    if (notifyCreator) {
+      try {
+        await supabase.from('notifications').insert({
+          user_id: data.created_by,
+          title: 'Property Rejected',
+          message: `Your property ${data.reference_id} has been rejected: ${feedback}`,
+          entity_type: 'property',
+          entity_id: id,
+        });
+      } catch (notifError) {
+        console.error('Failed to create notification:', notifError);
+      }
     }
 
     // Emit WebSocket event - REMOVED
@@ -393,6 +536,238 @@ export class WorkflowService {
     //   console.error('Failed to emit socket event:', error);
     // }
 
-    return data;
+    return { ...data, workflow: decision.progress };
+  }
+
+  /**
+   * Record an approval that completed a stage, or counted towards it, while other
+   * stages are still pending; the record stays SUBMITTED
+   */
+  private async recordStageApproval(
+    entityType: WorkflowEntityType,
+    id: string,
+    decision: StageDecision,
+    userId: string
+  ) {
+    const table = entityType === 'customer' ? 'customers' : 'properties';
+    const { data, error } = await supabase.from(table).select('*').eq('id', id).single();
+
+    if (error) throw new AppError(error.message, 404);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: entityType,
+      entity_id: id,
+      action: 'approve',
+      field: 'workflow_stage',
+      old_value: null,
+      new_value: decision.stage.name,
+      changed_by: userId,
+      metadata: { pending_stages: decision.progress.current_stages },
+    });
+
+    // Let the approvers of the stages now pending know the record is waiting for them
+    const pendingStages = decision.progress.stages.filter((stage) => stage.state === 'PENDING');
+    const roles = [...new Set(pendingStages.flatMap((stage) => stage.roles))];
+    const alreadyApproved = decision.progress.history
+      .filter((action) => action.action === 'APPROVE')
+      .map((action) => action.acted_by);
+    if (roles.length > 0) {
+      try {
+        const { data: approvers } = await supabase
+          .from('users')
+          .select('id')
+          .in('role', roles)
+          .eq('is_active', true);
+
+        const label = entityType === 'customer' ? 'Customer' : 'Property';
+        const notifications = (approvers || [])
+          .filter((approver: any) => !alreadyApproved.includes(approver.id))
+          .map((approver: any) => ({
+            user_id: approver.id,
+            title: `${label} Awaiting Approval`,
+            message: `${label} ${data.reference_id} passed ${decision.stage.name} and awaits ${decision.progress.current_stages.join(', ')}`,
+            entity_type: entityType,
+            entity_id: id,
+          }));
+        if (notifications.length > 0) {
+          await supabase.from('notifications').insert(notifications);
+        }
+      } catch (notifError) {
+        console.error('Failed to create notification:', notifError);
+      }
+    }
+
+    return { ...data, workflow: decision.progress };
+  }
+
+  /**
+   * Reject the changes made to an approved record: its approved version is restored and
+   * it stays APPROVED
+   */
+  private async rejectChanges(
+    changeSet: RecordChangeSet,
+    decision: StageDecision,
+    userId: string,
+    feedback: string,
+    notifyCreator: boolean
+  ) {
+    const { entity_type: entityType, entity_id: id } = changeSet;
+    const data = await recordChangeService.restore(changeSet, userId);
+
+    await supabase.from('audit_logs').insert({
+      entity_type: entityType,
+      entity_id: id,
+      action: 'reject',
+      field: 'changes',
+      old_value: 'SUBMITTED',
+      new_value: 'APPROVED',
+      changed_by: userId,
+      metadata: { feedback, change_set_id: changeSet.id },
+    });
+
+    const editedBy = changeSet.created_by || data.created_by;
+    if (notifyCreator) {
+      try {
+        const label = entityType === 'customer' ? 'Customer' : 'Property';
+        await supabase.from('notifications').insert({
+          user_id: editedBy,
+          title: `${label} Changes Rejected`,
+          message: `Your changes to ${label.toLowerCase()} ${data.reference_id} have been rejected and the approved version restored: ${feedback}`,
+          entity_type: entityType,
+          entity_id: id,
+        });
+      } catch (notifError) {
+        console.error('Failed to create notification:', notifError);
+      }
+    }
+
+    return { ...data, workflow: decision.progress, changes_restored: true, edited_by: editedBy };
+  }
+
+  /**
+   * Approve or reject many records at once. Each record is checked and decided on its own,
+   * so one failing does not stop the others; creators get one notification for the batch.
+   */
+  async bulkReview(
+    decision: 'approve' | 'reject',
+    request: BulkReviewRequest,
+    actor: WorkflowActor
+  ): Promise<BulkReviewResult> {
+    const feedback = request.feedback?.trim() || '';
+    const items: { entity_type: WorkflowEntityType; id: string }[] = [
+      ...[...new Set(request.customer_ids || [])].map((id) => ({ entity_type: 'customer' as const, id })),
+      ...[...new Set(request.property_ids || [])].map((id) => ({ entity_type: 'property' as const, id })),
+    ];
+
+    const records = new Map<string, { reference_id: string; status: string; created_by: string }>();
+    for (const type of ['customer', 'property'] as WorkflowEntityType[]) {
+      const ids = items.filter((item) => item.entity_type === type).map((item) => item.id);
+      if (ids.length === 0) continue;
+
+      const { data, error } = await supabase
+        .from(type === 'customer' ? 'customers' : 'properties')
+        .select('id, reference_id, status, created_by')
+        .in('id', ids);
+
+      if (error) throw new AppError(error.message, 500);
+
+      for (const record of data || []) records.set(`${type}:${record.id}`, record);
+    }
+
+    const results: BulkReviewItemResult[] = [];
+    const recipients = new Map<string, BulkReviewItemResult[]>();
+
+    for (const item of items) {
+      const record = records.get(`${item.entity_type}:${item.id}`);
+      const result: BulkReviewItemResult = { ...item, reference_id: record?.reference_id || null, success: false };
+      results.push(result);
+
+      if (!record) {
+        result.error = 'Record not found';
+        continue;
+      }
+      if (record.status !== 'SUBMITTED') {
+        result.error = `Not awaiting review (${record.status})`;
+        continue;
+      }
+
+      try {
+        let recipient: string | null = record.created_by;
+        if (decision === 'approve') {
+          const data =
+            item.entity_type === 'customer'
+              ? await this.approveCustomer(item.id, actor, false)
+              : await this.approveProperty(item.id, actor, false);
+          result.outcome = data.workflow?.status === 'IN_PROGRESS' ? 'STAGE_APPROVED' : 'APPROVED';
+          if (result.outcome === 'STAGE_APPROVED') recipient = null;
+        } else {
+          const data: any =
+            item.entity_type === 'customer'
+              ? await this.rejectCustomer(item.id, actor, feedback, false)
+              : await this.rejectProperty(item.id, actor, feedback, false);
+          result.outcome = data.changes_restored ? 'CHANGES_RESTORED' : 'REJECTED';
+          if (data.changes_restored) recipient = data.edited_by;
+        }
+        result.success = true;
+
+        if (recipient) {
+          recipients.set(recipient, [...(recipients.get(recipient) || []), result]);
+        }
+      } catch (error: any) {
+        result.error = error.message || 'Failed';
+      }
+    }
+
+    for (const [userId, decided] of recipients) {
+      await this.notifyBulkDecision(userId, decided, feedback);
+    }
+
+    const succeeded = results.filter((result) => result.success).length;
+    return { total: results.length, succeeded, failed: results.length - succeeded, results };
+  }
+
+  /**
+   * One notification listing every record of a creator decided in a bulk review
+   */
+  private async notifyBulkDecision(userId: string, decided: BulkReviewItemResult[], feedback: string) {
+    const describe = (outcome: BulkReviewOutcome, text: (records: string, have: string) => string) => {
+      const matching = decided.filter((result) => result.outcome === outcome);
+      if (matching.length === 0) return null;
+
+      const counts = (['customer', 'property'] as WorkflowEntityType[])
+        .map((type) => {
+          const count = matching.filter((result) => result.entity_type === type).length;
+          return count === 0 ? null : `${count} ${count === 1 ? LABELS[type].one : LABELS[type].many}`;
+        })
+        .filter(Boolean)
+        .join(' and ');
+      return text(`${counts} (${matching.map((result) => result.reference_id).join(', ')})`, matching.length === 1 ? 'has' : 'have');
+    };
+
+    const sentences = [
+      describe('APPROVED', (records, have) => `Your ${records} ${have} been approved.`),
+      describe('REJECTED', (records, have) => `Your ${records} ${have} been rejected.`),
+      describe(
+        'CHANGES_RESTORED',
+        (records) => `Your changes to ${records} have been rejected and the approved versions restored.`
+      ),
+    ].filter(Boolean);
+
+    const approvedOnly = decided.every((result) => result.outcome === 'APPROVED');
+    const message = [...sentences, feedback && `${approvedOnly ? 'Note' : 'Feedback'}: ${feedback}`]
+      .filter(Boolean)
+      .join(' ');
+
+    try {
+      await supabase.from('notifications').insert({
+        user_id: userId,
+        title: approvedOnly ? 'Records Approved' : 'Review Decisions',
+        message,
+        entity_type: decided[0].entity_type,
+        entity_id: decided[0].id,
+      });
+    } catch (notifError) {
+      console.error('Failed to create notification:', notifError);
+    }
   }
 }
@@ -0,0 +1,67 @@
+/**
+ * Display names of customers, which are stored in a table per customer type
+ */
+
+export const CUSTOMER_NAME_SELECT = `
+  customer_type,
+  reference_id,
+  customer_person(full_name),
+  customer_business(business_name),
+  customer_government(full_department_name),
+  customer_mosque_hospital(full_mosque_hospital_name),
+  customer_non_profit(ngo_name),
+  customer_residential(property_id),
+  customer_rental(rental_name)
+`;
+
+const NAME_FIELDS: Record<string, [string, string]> = {
+  PERSON: ['customer_person', 'full_name'],
+  BUSINESS: ['customer_business', 'business_name'],
+  GOVERNMENT: ['customer_government', 'full_department_name'],
+  MOSQUE_HOSPITAL: ['customer_mosque_hospital', 'full_mosque_hospital_name'],
+  NON_PROFIT: ['customer_non_profit', 'ngo_name'],
+  RESIDENTIAL: ['customer_residential', 'property_id'],
+  RENTAL: ['customer_rental', 'rental_name'],
+};
+
+/**
+ * Name of a customer selected with CUSTOMER_NAME_SELECT, falling back to its reference ID
+ */
+export const getCustomerName = (customer: any): string => {
+  if (!customer) return 'Unknown';
+
+  const [table, field] = NAME_FIELDS[customer.customer_type] || [];
+  const details = table ? customer[table] : null;
+  const row = Array.isArray(details) ? details[0] : details;
+
+  return row?.[field] || customer.reference_id || 'Unknown';
+};
+
+/**
+ * All details of every customer type, for documents that also need contact data
+ */
+export const CUSTOMER_CONTACT_SELECT = `
+  customer_type,
+  reference_id,
+  customer_person(*),
+  customer_business(*),
+  customer_government(*),
+  customer_mosque_hospital(*),
+  customer_non_profit(*),
+  customer_residential(*),
+  customer_rental(*)
+`;
+
+/**
+ * Phone number and email of a customer selected with CUSTOMER_CONTACT_SELECT, joined for printing
+ */
+export const getCustomerContact = (customer: any): string | null => {
+  if (!customer) return null;
+
+  const [table] = NAME_FIELDS[customer.customer_type] || [];
+  const details = table ? customer[table] : null;
+  const row = Array.isArray(details) ? details[0] : details;
+  if (!row) return null;
+
+  return [row.mobile_number_1, row.email].filter(Boolean).join(', ') || null;
+};
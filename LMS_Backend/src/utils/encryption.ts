@@ -0,0 +1,39 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * AES-256-GCM encryption for secrets stored in the database (e.g. the AGO API key).
+ * Values are stored as base64 "iv:tag:ciphertext".
+ */
+export class EncryptionUtil {
+  private static getKey(): Buffer {
+    if (!config.settingsEncryptionKey) {
+      throw new Error('SETTINGS_ENCRYPTION_KEY is not configured');
+    }
+    return crypto.createHash('sha256').update(config.settingsEncryptionKey).digest();
+  }
+
+  static encrypt(plainText: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.getKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [iv, tag, encrypted].map((part) => part.toString('base64')).join(':');
+  }
+
+  static decrypt(payload: string): string {
+    const [iv, tag, encrypted] = payload.split(':').map((part) => Buffer.from(part, 'base64'));
+    if (!iv || !tag || !encrypted) {
+      throw new Error('Malformed encrypted value');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.getKey(), iv);
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  }
+}
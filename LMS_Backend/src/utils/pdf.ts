@@ -0,0 +1,148 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { config } from '../config/env';
+
+const LABEL_WIDTH = 150;
+const CELL_PADDING = 4;
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // share of the page width; shares are scaled to fit
+  align?: 'left' | 'right' | 'center';
+}
+
+/**
+ * PDF helpers shared by receipts and other printed tax documents
+ */
+export class PdfUtil {
+  /**
+   * Render a document drawn by the callback into a buffer
+   */
+  static render(draw: (doc: PDFKit.PDFDocument) => void, options: PDFKit.PDFDocumentOptions = {}): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 50, ...options });
+      const chunks: Buffer[] = [];
+
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      try {
+        draw(doc);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  static qrCode(text: string): Promise<Buffer> {
+    return QRCode.toBuffer(text, { errorCorrectionLevel: 'M', margin: 1, width: 160 });
+  }
+
+  static header(doc: PDFKit.PDFDocument, title: string, subtitle?: string): void {
+    doc.font('Helvetica-Bold').fontSize(16).text(config.organizationName, { align: 'center' });
+    doc.moveDown(0.3);
+    doc.fontSize(13).text(title, { align: 'center' });
+    if (subtitle) {
+      doc.font('Helvetica').fontSize(10).fillColor('#555555').text(subtitle, { align: 'center' }).fillColor('black');
+    }
+    doc.moveDown(0.5);
+    this.rule(doc);
+    doc.moveDown(0.8);
+  }
+
+  static section(doc: PDFKit.PDFDocument, title: string): void {
+    doc.moveDown(0.5);
+    doc.font('Helvetica-Bold').fontSize(11).text(title, doc.page.margins.left);
+    doc.moveDown(0.3);
+  }
+
+  /**
+   * Label and value rows, optionally narrower than the page to leave room beside them
+   */
+  static fields(doc: PDFKit.PDFDocument, rows: Array<[string, string]>, width?: number): void {
+    const left = doc.page.margins.left;
+    const valueWidth = (width ?? doc.page.width - doc.page.margins.right - left) - LABEL_WIDTH;
+
+    for (const [label, value] of rows) {
+      const y = doc.y;
+      doc.font('Helvetica').fontSize(10).fillColor('#555555').text(label, left, y, { width: LABEL_WIDTH });
+      doc.fillColor('black').text(value || '-', left + LABEL_WIDTH, y, { width: valueWidth });
+      doc.moveDown(0.3);
+    }
+  }
+
+  /**
+   * Table with a bold header row, repeated after every page break. The last rows can be
+   * printed bold, e.g. for totals.
+   */
+  static table(
+    doc: PDFKit.PDFDocument,
+    columns: PdfTableColumn[],
+    rows: string[][],
+    options: { fontSize?: number; boldLastRows?: number } = {}
+  ): void {
+    const fontSize = options.fontSize ?? 8;
+    const left = doc.page.margins.left;
+    const tableWidth = doc.page.width - doc.page.margins.right - left;
+    const totalShare = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map((column) => (column.width / totalShare) * tableWidth);
+
+    const header = columns.map((column) => column.header);
+
+    const drawRow = (cells: string[], bold: boolean, isHeader: boolean = false) => {
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize);
+      const height =
+        Math.max(
+          ...cells.map((cell, index) => doc.heightOfString(cell || '', { width: widths[index] - CELL_PADDING * 2 }))
+        ) +
+        CELL_PADDING * 2;
+
+      if (doc.y + height > doc.page.height - doc.page.margins.bottom) {
+        doc.addPage();
+        if (!isHeader) drawRow(header, true, true);
+        doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize);
+      }
+
+      const top = doc.y;
+      let x = left;
+      cells.forEach((cell, index) => {
+        doc.text(cell || '', x + CELL_PADDING, top + CELL_PADDING, {
+          width: widths[index] - CELL_PADDING * 2,
+          align: columns[index].align || 'left',
+        });
+        x += widths[index];
+      });
+
+      doc.y = top + height;
+      doc
+        .moveTo(left, doc.y)
+        .lineTo(left + tableWidth, doc.y)
+        .strokeColor('#dddddd')
+        .stroke()
+        .strokeColor('black');
+    };
+
+    drawRow(header, true, true);
+    rows.forEach((row, index) => drawRow(row, index >= rows.length - (options.boldLastRows ?? 0)));
+    doc.x = left;
+  }
+
+  static rule(doc: PDFKit.PDFDocument): void {
+    doc
+      .moveTo(doc.page.margins.left, doc.y)
+      .lineTo(doc.page.width - doc.page.margins.right, doc.y)
+      .strokeColor('#cccccc')
+      .stroke()
+      .strokeColor('black');
+  }
+
+  static formatCurrency(amount: number): string {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+  }
+
+  static formatDate(date: string | Date): string {
+    return new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+  }
+}
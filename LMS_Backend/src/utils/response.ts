@@ -53,6 +53,13 @@ export class ResponseHandler {
     return res.status(204).send();
   }
 
+  static file(res: Response, content: Buffer, filename: string, contentType: string, inline: boolean = false): Response {
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${filename}"`);
+    res.setHeader('Content-Length', content.length.toString());
+    return res.status(200).send(content);
+  }
+
   static badRequest(res: Response, message: string, errors?: any[]): Response {
     return this.error(res, message, 400, errors);
   }
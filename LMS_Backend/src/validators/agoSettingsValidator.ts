@@ -0,0 +1,70 @@
+import Joi from 'joi';
+import { AGO_TRANSFORMS, LOOKUP_SOURCES, PROPERTY_SOURCE_FIELDS } from '../services/ago/propertyFeature';
+
+export const agoFieldMappingSchema = Joi.object({
+  source: Joi.string()
+    .valid(...PROPERTY_SOURCE_FIELDS)
+    .required()
+    .messages({
+      'any.only': 'Source must be a property field that can be published',
+    }),
+  target: Joi.string()
+    .pattern(/^[A-Za-z_][A-Za-z0-9_]*$/)
+    .max(64)
+    .required()
+    .messages({
+      'string.pattern.base': 'AGO attribute names may only contain letters, digits and underscores',
+    }),
+  lookup: Joi.string().allow(null),
+  transform: Joi.string()
+    .valid(...AGO_TRANSFORMS)
+    .default('none'),
+})
+  .custom((mapping, helpers) => {
+    if (mapping.lookup && !LOOKUP_SOURCES[mapping.source]?.columns.includes(mapping.lookup)) {
+      return helpers.error('mapping.lookup');
+    }
+    return mapping;
+  })
+  .messages({
+    'mapping.lookup': 'Lookup is not available for this source field',
+  });
+
+export const agoSettingsSchema = Joi.object({
+  enabled: Joi.boolean().required(),
+  api_url: Joi.when('enabled', {
+    is: true,
+    then: Joi.string().uri({ scheme: ['http', 'https'] }).required(),
+    otherwise: Joi.string().uri({ scheme: ['http', 'https'] }).allow('').default(''),
+  }).messages({
+    'string.uri': 'Service URL must be a valid http(s) URL',
+    'any.required': 'Service URL is required when sync is enabled',
+  }),
+  layer_id: Joi.number().integer().min(0).required(),
+  api_key: Joi.string().allow('').max(1024),
+  clear_api_key: Joi.boolean().default(false),
+  sync_interval: Joi.number().integer().min(30).max(86400).required().messages({
+    'number.min': 'Sync interval must be at least 30 seconds',
+    'number.max': 'Sync interval must be at most 86400 seconds (24 hours)',
+  }),
+  field_mapping: Joi.array()
+    .items(agoFieldMappingSchema)
+    .min(1)
+    .unique('target')
+    .messages({
+      'array.unique': 'Each AGO attribute may only be mapped once',
+    }),
+});
+
+export const agoFeaturePreviewSchema = Joi.object({
+  property: Joi.string().trim().required().messages({
+    'any.required': 'Property ID or reference ID is required',
+  }),
+  field_mapping: Joi.array()
+    .items(agoFieldMappingSchema)
+    .min(1)
+    .unique('target')
+    .messages({
+      'array.unique': 'Each AGO attribute may only be mapped once',
+    }),
+});
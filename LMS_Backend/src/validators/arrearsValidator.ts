@@ -0,0 +1,31 @@
+import Joi from 'joi';
+
+const AGING_GROUPS = ['DISTRICT', 'SUB_DISTRICT', 'PROPERTY_TYPE', 'CUSTOMER_TYPE'];
+
+const agingFilters = {
+  district_id: Joi.string().uuid(),
+  sub_district_id: Joi.string().uuid(),
+  property_type: Joi.string().trim().max(100),
+  customer_type: Joi.string().trim().uppercase().max(50),
+  tax_year: Joi.number().integer().min(1900).max(2100),
+};
+
+export const arrearsAgingQuerySchema = Joi.object({
+  ...agingFilters,
+  group_by: Joi.string().valid(...AGING_GROUPS).default('DISTRICT'),
+});
+
+export const arrearsAssessmentQuerySchema = Joi.object({
+  ...agingFilters,
+  group_by: Joi.string().valid(...AGING_GROUPS),
+  // Key of a report group; empty for the group of assessments without a value
+  group_key: Joi.string().allow('').max(100)
+    .when('group_by', { is: Joi.exist(), then: Joi.required() }),
+  bucket: Joi.string().valid('DAYS_0_30', 'DAYS_31_90', 'DAYS_91_180', 'DAYS_OVER_180'),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(200).default(50),
+});
+
+export const collectionTrendsQuerySchema = Joi.object({
+  months: Joi.number().integer().min(1).max(36).default(12),
+});
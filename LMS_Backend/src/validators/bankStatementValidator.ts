@@ -0,0 +1,17 @@
+import Joi from 'joi';
+
+export const bankLinePostSchema = Joi.object({
+  // Post only these matched lines; every matched line of the import when omitted
+  line_ids: Joi.array().items(Joi.string().uuid()).unique(),
+});
+
+export const bankLineAssignSchema = Joi.object({
+  assessment_id: Joi.string().uuid().required(),
+});
+
+export const bankLineIgnoreSchema = Joi.object({
+  reason: Joi.string().trim().min(3).max(500).required()
+    .messages({
+      'any.required': 'Give a reason for ignoring the line',
+    }),
+});
@@ -0,0 +1,27 @@
+import Joi from 'joi';
+
+const idsSchema = Joi.array().items(Joi.string().uuid()).min(1).max(100).unique();
+
+export const bulkApproveSchema = Joi.object({
+  customer_ids: idsSchema,
+  property_ids: idsSchema,
+  feedback: Joi.string().trim().max(1000).allow(''),
+})
+  .or('customer_ids', 'property_ids')
+  .messages({
+    'object.missing': 'Select at least one customer or property',
+  });
+
+export const bulkRejectSchema = Joi.object({
+  customer_ids: idsSchema,
+  property_ids: idsSchema,
+  feedback: Joi.string().trim().min(10).max(1000).required()
+    .messages({
+      'any.required': 'Rejection feedback is required',
+      'string.min': 'Rejection feedback must be at least 10 characters',
+    }),
+})
+  .or('customer_ids', 'property_ids')
+  .messages({
+    'object.missing': 'Select at least one customer or property',
+  });
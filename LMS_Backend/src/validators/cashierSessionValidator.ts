@@ -0,0 +1,35 @@
+import Joi from 'joi';
+import { PAYMENT_METHODS } from './taxPaymentValidator';
+
+export const cashierSessionOpenSchema = Joi.object({
+  opening_float: Joi.number().min(0).precision(2).default(0),
+  notes: Joi.string().trim().max(500).allow('', null),
+});
+
+export const cashierSessionCloseSchema = Joi.object({
+  counts: Joi.array()
+    .items(
+      Joi.object({
+        payment_method: Joi.string().valid(...PAYMENT_METHODS).required(),
+        counted_amount: Joi.number().min(0).precision(2).required(),
+      })
+    )
+    .unique('payment_method')
+    .min(1)
+    .required()
+    .messages({
+      'array.unique': 'Enter one count per payment method',
+    }),
+  notes: Joi.string().trim().max(1000).allow('', null),
+});
+
+export const cashierSessionReviewSchema = Joi.object({
+  notes: Joi.string().trim().max(500).allow('', null),
+});
+
+export const cashierSessionReturnSchema = Joi.object({
+  notes: Joi.string().trim().min(3).max(500).required()
+    .messages({
+      'any.required': 'Say what needs to be recounted',
+    }),
+});
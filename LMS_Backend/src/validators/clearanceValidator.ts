@@ -0,0 +1,22 @@
+import Joi from 'joi';
+
+const clearanceSubject = {
+  property_id: Joi.string().uuid(),
+  customer_id: Joi.string().uuid(),
+};
+
+const subjectMessages = {
+  'object.xor': 'Choose either a property or a customer',
+  'object.missing': 'Choose either a property or a customer',
+};
+
+export const clearanceCheckQuerySchema = Joi.object(clearanceSubject).xor('property_id', 'customer_id').messages(subjectMessages);
+
+export const clearanceIssueSchema = Joi.object({
+  ...clearanceSubject,
+  purpose: Joi.string().trim().max(200).allow('', null),
+})
+  .xor('property_id', 'customer_id')
+  .messages(subjectMessages);
+
+export const clearanceListQuerySchema = Joi.object(clearanceSubject);
@@ -0,0 +1,10 @@
+import Joi from 'joi';
+
+export const customerStatementQuerySchema = Joi.object({
+  from: Joi.date().iso().raw().default(() => `${new Date().getFullYear()}-01-01`),
+  to: Joi.date().iso().raw().min(Joi.ref('from')).default(() => new Date().toISOString().slice(0, 10))
+    .messages({
+      'date.min': 'The end of the period cannot be before its start',
+    }),
+  download: Joi.boolean().default(false),
+});
@@ -0,0 +1,28 @@
+import Joi from 'joi';
+
+const CUSTOMER_TYPES = ['PERSON', 'BUSINESS', 'GOVERNMENT', 'MOSQUE_HOSPITAL', 'NON_PROFIT', 'RESIDENTIAL', 'RENTAL'];
+const OCCUPANCY_TYPES = ['OWNER_OCCUPIED', 'RENTED', 'VACANT', 'MIXED_USE'];
+
+export const exemptionRuleSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  description: Joi.string().allow('', null).max(500),
+  customer_type: Joi.string().valid(...CUSTOMER_TYPES).allow(null).default(null),
+  property_type_id: Joi.string().uuid().allow(null).default(null),
+  is_downtown: Joi.boolean().allow(null).default(null),
+  is_building: Joi.boolean().allow(null).default(null),
+  occupancy_type: Joi.string().valid(...OCCUPANCY_TYPES).allow(null).default(null),
+  exemption_type: Joi.string().valid('FULL', 'PERCENTAGE', 'FIXED').required(),
+  exemption_value: Joi.when('exemption_type', {
+    switch: [
+      { is: 'PERCENTAGE', then: Joi.number().greater(0).max(100).required() },
+      { is: 'FIXED', then: Joi.number().greater(0).required() },
+    ],
+    otherwise: Joi.number().min(0).default(0),
+  }),
+  effective_from: Joi.date().iso().raw().required(),
+  effective_to: Joi.date().iso().raw().min(Joi.ref('effective_from')).allow(null).default(null)
+    .messages({
+      'date.min': 'Effective to must be on or after effective from',
+    }),
+  is_active: Joi.boolean().default(true),
+});
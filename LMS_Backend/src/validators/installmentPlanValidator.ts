@@ -0,0 +1,31 @@
+import Joi from 'joi';
+
+// Due dates in the past are rejected by the service, which compares calendar days
+const DUE_DATE = Joi.date().iso().raw();
+
+export const installmentPlanSchema = Joi.object({
+  // An explicit schedule, or a number of equal installments
+  installments: Joi.array()
+    .items(
+      Joi.object({
+        due_date: DUE_DATE.required(),
+        amount: Joi.number().positive().precision(2).required(),
+      })
+    )
+    .min(2)
+    .max(60),
+  installment_count: Joi.number().integer().min(2).max(60),
+  first_due_date: DUE_DATE,
+  interval_months: Joi.number().integer().min(1).max(12).default(1),
+  notes: Joi.string().trim().max(1000).allow('', null),
+})
+  .xor('installments', 'installment_count')
+  .with('installment_count', 'first_due_date')
+  .messages({
+    'object.missing': 'Give either the installments or the number of installments',
+    'object.xor': 'Give either the installments or the number of installments, not both',
+  });
+
+export const installmentPlanCancelSchema = Joi.object({
+  reason: Joi.string().trim().min(3).max(500).required(),
+});
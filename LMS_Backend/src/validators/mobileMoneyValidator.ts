@@ -0,0 +1,23 @@
+import Joi from 'joi';
+
+export const mobileMoneyRequestSchema = Joi.object({
+  assessment_id: Joi.string().uuid().required(),
+  phone_number: Joi.string()
+    .trim()
+    .replace(/[\s()-]/g, '')
+    .pattern(/^\+?\d{7,15}$/)
+    .required()
+    .messages({
+      'string.pattern.base': 'Enter the phone number with its country code, digits only',
+    }),
+  amount: Joi.number().positive().precision(2).required(),
+});
+
+export const mobileMoneyRequestQuerySchema = Joi.object({
+  assessment_id: Joi.string().uuid(),
+  status: Joi.string().valid('PENDING', 'PROCESSING', 'PAID', 'FAILED', 'NEEDS_REVIEW'),
+});
+
+export const mobileMoneySimulateSchema = Joi.object({
+  outcome: Joi.string().valid('SUCCEEDED', 'FAILED').required(),
+});
@@ -0,0 +1,25 @@
+import Joi from 'joi';
+
+export const penaltyRuleSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  description: Joi.string().allow('', null).max(500),
+  grace_days: Joi.number().integer().min(0).max(365).required(),
+  penalty_type: Joi.string().valid('FLAT', 'PERCENTAGE').required(),
+  penalty_value: Joi.number().min(0).required()
+    .when('penalty_type', {
+      is: 'PERCENTAGE',
+      then: Joi.number().max(100),
+    })
+    .messages({
+      'number.max': 'Percentage penalty cannot exceed 100',
+    }),
+  monthly_interest_rate: Joi.number().min(0).max(100).default(0),
+  interest_cap_percent: Joi.number().min(0).allow(null).default(null),
+  max_penalty_amount: Joi.number().min(0).allow(null).default(null),
+  effective_from: Joi.date().iso().raw().required(),
+  effective_to: Joi.date().iso().raw().min(Joi.ref('effective_from')).allow(null).default(null)
+    .messages({
+      'date.min': 'Effective to must be on or after effective from',
+    }),
+  is_active: Joi.boolean().default(true),
+});
@@ -0,0 +1,5 @@
+import Joi from 'joi';
+
+export const reviewAssignSchema = Joi.object({
+  user_id: Joi.string().uuid().required(),
+});
@@ -0,0 +1,18 @@
+import Joi from 'joi';
+
+export const slaTargetSchema = Joi.object({
+  target_hours: Joi.number().min(0.5).max(2160).precision(2).required(),
+  warning_percent: Joi.number().integer().min(1).max(100).default(75),
+  escalation_action: Joi.string().valid('NOTIFY', 'REASSIGN').default('NOTIFY'),
+  supervisor_id: Joi.string().uuid().allow(null).default(null),
+  is_active: Joi.boolean().default(true),
+});
+
+export const turnaroundReportQuerySchema = Joi.object({
+  from: Joi.date().iso().raw().default(() => new Date().toISOString().slice(0, 8) + '01'),
+  to: Joi.date().iso().raw().min(Joi.ref('from')).default(() => new Date().toISOString().slice(0, 10))
+    .messages({
+      'date.min': 'The end of the period cannot be before its start',
+    }),
+  entity_type: Joi.string().valid('customer', 'property'),
+});
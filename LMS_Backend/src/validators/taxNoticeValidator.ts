@@ -0,0 +1,27 @@
+import Joi from 'joi';
+import { NOTICE_LABEL_KEYS } from '../services/notices';
+
+const LANGUAGE = Joi.string().trim().lowercase().pattern(/^[a-z]{2}$/)
+  .messages({
+    'string.pattern.base': 'Language must be a two-letter code such as "en" or "so"',
+  });
+
+export const taxNoticeSchema = Joi.object({
+  tax_year: Joi.number().integer().min(2000).max(2100).required(),
+  language: LANGUAGE.required(),
+  district_id: Joi.string().uuid().allow(null, ''),
+  sub_district_id: Joi.string().uuid().allow(null, ''),
+  group_by: Joi.string().valid('DISTRICT', 'SUB_DISTRICT').default('SUB_DISTRICT'),
+  output_format: Joi.string().valid('PDF', 'ZIP').default('PDF'),
+});
+
+export const taxNoticeTemplateSchema = Joi.object({
+  language_name: Joi.string().trim().min(2).max(50).required(),
+  title: Joi.string().trim().min(3).max(200).required(),
+  body: Joi.string().trim().min(10).max(5000).required(),
+  closing: Joi.string().trim().max(1000).allow('').default(''),
+  labels: Joi.object(
+    Object.fromEntries(NOTICE_LABEL_KEYS.map((key) => [key, Joi.string().trim().max(60).allow('')]))
+  ).default({}),
+  is_active: Joi.boolean().default(true),
+});
@@ -0,0 +1,39 @@
+import Joi from 'joi';
+
+export const PAYMENT_METHODS = ['CASH', 'BANK_TRANSFER', 'CHECK', 'MOBILE_MONEY', 'CREDIT_CARD'];
+
+export const taxPaymentSchema = Joi.object({
+  payment_date: Joi.date().iso().raw().max('now').required()
+    .messages({
+      'date.max': 'Payment date cannot be in the future',
+    }),
+  amount_paid: Joi.number().positive().precision(2).required(),
+  payment_method: Joi.string().valid(...PAYMENT_METHODS).required(),
+  receipt_number: Joi.string().trim().max(50).allow('', null),
+  notes: Joi.string().allow('', null).max(1000),
+});
+
+// One payment for a property, split across its open assessments; every entry gets its own receipt number
+export const allocatedPaymentSchema = taxPaymentSchema.fork(['receipt_number'], (schema) => schema.forbidden());
+
+export const paymentAdjustmentSchema = Joi.object({
+  adjustment_type: Joi.string().valid('REVERSAL', 'REFUND').required(),
+  // Reversals always cover the rest of the payment
+  amount: Joi.when('adjustment_type', {
+    is: 'REFUND',
+    then: Joi.number().positive().precision(2).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  reason: Joi.string().trim().min(3).max(500).required(),
+});
+
+export const paymentAdjustmentReviewSchema = Joi.object({
+  notes: Joi.string().trim().max(500).allow('', null),
+});
+
+export const paymentAdjustmentRejectSchema = Joi.object({
+  notes: Joi.string().trim().min(3).max(500).required()
+    .messages({
+      'any.required': 'Give a reason for rejecting the request',
+    }),
+});
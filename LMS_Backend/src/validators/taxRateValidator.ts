@@ -0,0 +1,43 @@
+import Joi from 'joi';
+
+const OCCUPANCY_TYPES = ['OWNER_OCCUPIED', 'RENTED', 'VACANT', 'MIXED_USE'];
+const CONSTRUCTION_STATUSES = ['COMPLETED', 'UNDER_CONSTRUCTION', 'PLANNED'];
+
+export const taxRateRuleSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  description: Joi.string().allow('', null).max(500),
+  property_type_id: Joi.string().uuid().allow(null).default(null),
+  district_id: Joi.string().uuid().allow(null).default(null),
+  is_downtown: Joi.boolean().allow(null).default(null),
+  occupancy_type: Joi.string().valid(...OCCUPANCY_TYPES).allow(null).default(null),
+  construction_status: Joi.string().valid(...CONSTRUCTION_STATUSES).allow(null).default(null),
+  land_rate_per_m2: Joi.number().min(0).default(0),
+  built_rate_per_m2: Joi.number().min(0).default(0),
+  floor_modifier_percent: Joi.number().min(-100).max(1000).default(0),
+  minimum_amount: Joi.number().min(0).allow(null).default(null),
+  effective_from: Joi.date().iso().raw().required(),
+  effective_to: Joi.date().iso().raw().min(Joi.ref('effective_from')).allow(null).default(null)
+    .messages({
+      'date.min': 'Effective to must be on or after effective from',
+    }),
+  is_active: Joi.boolean().default(true),
+})
+  .custom((rule, helpers) => {
+    if (!(rule.land_rate_per_m2 > 0 || rule.built_rate_per_m2 > 0 || rule.minimum_amount > 0)) {
+      return helpers.error('rule.rate');
+    }
+    return rule;
+  })
+  .messages({
+    'rule.rate': 'Set a land rate, a built-area rate or a minimum amount',
+  });
+
+export const taxCalculationSchema = Joi.object({
+  property_id: Joi.string().uuid().allow(null, ''),
+  occupancy_type: Joi.string().valid(...OCCUPANCY_TYPES).required(),
+  construction_status: Joi.string().valid(...CONSTRUCTION_STATUSES).required(),
+  land_size: Joi.number().positive().required(),
+  built_up_area: Joi.number().min(0).allow(null),
+  number_of_floors: Joi.number().integer().min(1).allow(null),
+  assessment_date: Joi.date().iso().raw(),
+});
@@ -0,0 +1,10 @@
+import Joi from 'joi';
+
+export const taxRollSchema = Joi.object({
+  tax_year: Joi.number().integer().min(2000).max(2100).required(),
+  assessment_date: Joi.date().iso().raw().default(() => new Date().toISOString().slice(0, 10)),
+  due_date: Joi.date().iso().raw().greater(Joi.ref('assessment_date')).required()
+    .messages({
+      'date.greater': 'Due date must be after the assessment date',
+    }),
+});
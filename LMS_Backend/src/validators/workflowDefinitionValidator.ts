@@ -0,0 +1,28 @@
+import Joi from 'joi';
+
+const stageConditionSchema = Joi.object({
+  field: Joi.string().trim().required(),
+  operator: Joi.string().valid('gt', 'gte', 'lt', 'lte', 'eq', 'neq').required(),
+  value: Joi.alternatives().try(Joi.number(), Joi.boolean(), Joi.string().trim().max(100)).required(),
+});
+
+const workflowStageSchema = Joi.object({
+  key: Joi.string().trim().pattern(/^[a-z0-9_]+$/).max(50).required()
+    .messages({
+      'string.pattern.base': 'Stage key may only contain lowercase letters, digits and underscores',
+    }),
+  name: Joi.string().trim().max(100).required(),
+  order: Joi.number().integer().min(1).max(20).required(),
+  roles: Joi.array().items(Joi.string().valid('APPROVER', 'ADMINISTRATOR')).min(1).unique().required(),
+  required_approvals: Joi.number().integer().min(1).max(5).default(1),
+  condition: stageConditionSchema.allow(null).default(null),
+});
+
+export const workflowDefinitionSchema = Joi.object({
+  name: Joi.string().trim().max(100).required(),
+  stages: Joi.array().items(workflowStageSchema).min(1).max(20).unique('key').required()
+    .messages({
+      'array.min': 'A workflow needs at least one stage',
+      'array.unique': 'Stage keys must be unique',
+    }),
+});
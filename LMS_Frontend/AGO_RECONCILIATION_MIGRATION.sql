@@ -0,0 +1,77 @@
+-- ============================================
+-- AGO Reconciliation Reports
+-- ============================================
+-- Stores the result of comparing the ArcGIS feature layer with the properties table.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ago_reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'RUNNING' CHECK (status IN ('RUNNING', 'COMPLETED', 'FAILED')),
+  started_by UUID NOT NULL REFERENCES public.users(id),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  summary JSONB, -- counts per category, properties checked, features checked
+  error_message TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ago_reconciliation_runs_started
+ON public.ago_reconciliation_runs(started_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.ago_reconciliation_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.ago_reconciliation_runs(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('MISSING_IN_AGO', 'MISSING_IN_LMS', 'MISMATCH', 'ORPHANED')),
+  property_id UUID REFERENCES public.properties(id) ON DELETE SET NULL,
+  global_id TEXT,
+  parcel_number TEXT,
+  reference_id TEXT,
+  details TEXT,
+  differences JSONB, -- [{ attribute, lms_value, ago_value }]
+  resolution TEXT CHECK (resolution IN ('REPUSHED', 'UNLINKED')),
+  resolved_by UUID REFERENCES public.users(id),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ago_reconciliation_items_run
+ON public.ago_reconciliation_items(run_id, category);
+
+-- RLS: administrators only
+ALTER TABLE public.ago_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ago_reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage AGO reconciliation runs" ON public.ago_reconciliation_runs;
+CREATE POLICY "Admins can manage AGO reconciliation runs"
+ON public.ago_reconciliation_runs
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+DROP POLICY IF EXISTS "Admins can manage AGO reconciliation items" ON public.ago_reconciliation_items;
+CREATE POLICY "Admins can manage AGO reconciliation items"
+ON public.ago_reconciliation_items
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.ago_reconciliation_runs TO authenticated;
+GRANT ALL ON public.ago_reconciliation_items TO authenticated;
+
+COMMENT ON TABLE public.ago_reconciliation_runs IS 'Runs of the AGO layer vs properties reconciliation';
+COMMENT ON TABLE public.ago_reconciliation_items IS 'Differences found by an AGO reconciliation run';
+COMMENT ON COLUMN public.ago_reconciliation_items.category IS 'MISSING_IN_AGO: approved property without a feature; MISSING_IN_LMS: feature without a property; MISMATCH: attributes differ; ORPHANED: feature linked to a property that is not approved or linked elsewhere';
+
+SELECT 'AGO reconciliation migration completed successfully!' AS status;
@@ -0,0 +1,75 @@
+-- ============================================
+-- AGO Settings Store
+-- ============================================
+-- Persists the ArcGIS Online connection edited on the admin AGO Settings page.
+-- The API key is encrypted by the backend (AES-256-GCM) before it is stored.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.ago_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  singleton BOOLEAN NOT NULL DEFAULT TRUE UNIQUE CHECK (singleton),
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  service_url TEXT NOT NULL DEFAULT '',
+  layer_id INTEGER NOT NULL DEFAULT 0 CHECK (layer_id >= 0),
+  api_key_encrypted TEXT,
+  sync_interval INTEGER NOT NULL DEFAULT 60 CHECK (sync_interval >= 30),
+  field_mapping JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_ago_settings_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ago_settings_updated_at_trigger ON public.ago_settings;
+CREATE TRIGGER ago_settings_updated_at_trigger
+BEFORE UPDATE ON public.ago_settings
+FOR EACH ROW
+EXECUTE FUNCTION update_ago_settings_updated_at();
+
+-- Allow settings changes in the audit trail
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_entity_type_check;
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('customer', 'property', 'tax_assessment', 'tax_payment', 'user', 'ago_settings'));
+
+-- RLS: only administrators may read or change the settings
+ALTER TABLE public.ago_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage AGO settings" ON public.ago_settings;
+CREATE POLICY "Admins can manage AGO settings"
+ON public.ago_settings
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.ago_settings TO authenticated;
+
+COMMENT ON TABLE public.ago_settings IS 'ArcGIS Online connection and sync settings (single row)';
+COMMENT ON COLUMN public.ago_settings.api_key_encrypted IS 'AGO API key, AES-256-GCM encrypted by the backend (iv:tag:ciphertext, base64)';
+COMMENT ON COLUMN public.ago_settings.sync_interval IS 'Seconds between background AGO sync passes';
+COMMENT ON COLUMN public.ago_settings.field_mapping IS 'LMS property field to AGO attribute mapping';
+
+SELECT 'AGO settings migration completed successfully!' AS status;
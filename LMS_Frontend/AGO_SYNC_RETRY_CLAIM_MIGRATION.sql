@@ -0,0 +1,19 @@
+-- ============================================
+-- AGO Sync Retry Claims
+-- ============================================
+-- Records when a queued AGO sync was claimed by the retry worker. A row left in RETRYING
+-- by a crash or restart is put back to PENDING by the scheduler once its claim is older
+-- than AGO_RETRY_CLAIM_TIMEOUT_MINUTES.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE public.ago_sync_retries
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_ago_sync_retries_claimed
+ON public.ago_sync_retries(claimed_at)
+WHERE status = 'RETRYING';
+
+COMMENT ON COLUMN public.ago_sync_retries.claimed_at IS 'When the row was moved to RETRYING; cleared when the attempt finishes';
+
+SELECT 'AGO sync retry claim migration completed successfully!' AS status;
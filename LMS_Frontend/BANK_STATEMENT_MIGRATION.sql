@@ -0,0 +1,102 @@
+-- ============================================
+-- Bank Statement Import and Reconciliation
+-- ============================================
+-- Bank statement files (CSV, MT940 or CAMT.053) are imported line by line. Credit lines
+-- are matched to open assessments by the assessment reference or receipt number in the
+-- narrative and proposed as BANK_TRANSFER payments; ambiguous and unmatched lines are
+-- assigned by hand on the reconciliation screen before they are posted.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.bank_statement_imports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  filename TEXT NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('CSV', 'MT940', 'CAMT053')),
+  account TEXT, -- account number or IBAN of the statement, when the file has one
+  line_count INTEGER NOT NULL DEFAULT 0,
+  duplicate_count INTEGER NOT NULL DEFAULT 0, -- lines skipped because an earlier import had them
+  imported_by UUID NOT NULL REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_imports_created
+ON public.bank_statement_imports(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.bank_statement_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_id UUID NOT NULL REFERENCES public.bank_statement_imports(id) ON DELETE CASCADE,
+  line_number INTEGER NOT NULL,
+  booking_date DATE NOT NULL,
+  value_date DATE,
+  amount DECIMAL(15, 2) NOT NULL, -- credits positive, debits negative
+  currency TEXT,
+  bank_reference TEXT,
+  counterparty TEXT,
+  narrative TEXT NOT NULL DEFAULT '',
+  fingerprint TEXT NOT NULL UNIQUE, -- the same bank line is only imported once
+  status TEXT NOT NULL DEFAULT 'UNMATCHED' CHECK (status IN ('MATCHED', 'AMBIGUOUS', 'UNMATCHED', 'POSTED', 'IGNORED')),
+  match_reason TEXT,
+  assessment_id UUID REFERENCES public.tax_assessments(id) ON DELETE SET NULL, -- proposed or assigned assessment
+  candidate_assessment_ids UUID[] NOT NULL DEFAULT '{}',
+  payment_id UUID REFERENCES public.tax_payments(id) ON DELETE SET NULL, -- payment posted for the line
+  resolved_by UUID REFERENCES public.users(id),
+  resolved_at TIMESTAMPTZ,
+  UNIQUE (import_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bank_statement_lines_status
+ON public.bank_statement_lines(import_id, status);
+
+-- RLS: everyone can read imports, inputters import and reconcile them
+ALTER TABLE public.bank_statement_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bank_statement_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view bank statement imports" ON public.bank_statement_imports;
+CREATE POLICY "Users can view bank statement imports"
+ON public.bank_statement_imports
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Inputters can manage bank statement imports" ON public.bank_statement_imports;
+CREATE POLICY "Inputters can manage bank statement imports"
+ON public.bank_statement_imports
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'ADMINISTRATOR')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view bank statement lines" ON public.bank_statement_lines;
+CREATE POLICY "Users can view bank statement lines"
+ON public.bank_statement_lines
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Inputters can manage bank statement lines" ON public.bank_statement_lines;
+CREATE POLICY "Inputters can manage bank statement lines"
+ON public.bank_statement_lines
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT ALL ON public.bank_statement_imports TO authenticated;
+GRANT ALL ON public.bank_statement_lines TO authenticated;
+
+COMMENT ON TABLE public.bank_statement_imports IS 'Imported bank statement files';
+COMMENT ON TABLE public.bank_statement_lines IS 'Lines of imported bank statements and how they were reconciled';
+COMMENT ON COLUMN public.bank_statement_lines.status IS 'MATCHED proposes a payment, AMBIGUOUS and UNMATCHED need manual assignment, POSTED once the payment is recorded';
+COMMENT ON COLUMN public.bank_statement_lines.candidate_assessment_ids IS 'Open assessments referenced by the line when more than one could apply';
+
+SELECT 'Bank statement migration completed successfully!' AS status;
@@ -0,0 +1,132 @@
+-- ============================================
+-- Cashier Sessions
+-- ============================================
+-- A collector opens a cashier session before taking payments; every payment they
+-- record while it is open is attached to it. Closing the session stores the counted
+-- amount per payment method next to the expected amount, and a supervisor approves
+-- the close or returns it for a recount.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.cashier_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_number TEXT NOT NULL UNIQUE, -- CS-<year>-NNNNN
+  cashier_id UUID NOT NULL REFERENCES public.users(id),
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CLOSED', 'APPROVED', 'RETURNED')),
+  opening_float DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  opening_notes TEXT,
+  closed_at TIMESTAMPTZ,
+  closing_notes TEXT,
+  reviewed_by UUID REFERENCES public.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cashier_sessions_cashier
+ON public.cashier_sessions(cashier_id, opened_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_cashier_sessions_status
+ON public.cashier_sessions(status, opened_at DESC);
+
+-- Only one unsettled session per cashier
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cashier_sessions_open
+ON public.cashier_sessions(cashier_id) WHERE status IN ('OPEN', 'RETURNED');
+
+DROP TRIGGER IF EXISTS cashier_sessions_updated_at ON public.cashier_sessions;
+CREATE TRIGGER cashier_sessions_updated_at
+BEFORE UPDATE ON public.cashier_sessions
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Expected and counted amount per payment method, written when the session is closed
+CREATE TABLE IF NOT EXISTS public.cashier_session_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.cashier_sessions(id) ON DELETE CASCADE,
+  payment_method TEXT NOT NULL,
+  payment_count INTEGER NOT NULL DEFAULT 0,
+  expected_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  counted_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (counted_amount >= 0),
+  variance DECIMAL(15, 2) NOT NULL DEFAULT 0, -- counted minus expected
+  UNIQUE (session_id, payment_method)
+);
+
+-- Payments taken during a session
+ALTER TABLE public.tax_payments
+ADD COLUMN IF NOT EXISTS cashier_session_id UUID REFERENCES public.cashier_sessions(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_tax_payments_cashier_session
+ON public.tax_payments(cashier_session_id) WHERE cashier_session_id IS NOT NULL;
+
+-- Cashier sessions in the audit trail and notifications
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_entity_type_check;
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('customer', 'property', 'tax_assessment', 'tax_payment', 'user', 'ago_settings', 'cashier_session'));
+
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_entity_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_entity_type_check
+CHECK (entity_type IS NULL OR UPPER(entity_type) IN ('CUSTOMER', 'USER', 'PROPERTY', 'TAX_ASSESSMENT', 'CASHIER_SESSION'));
+
+-- RLS: everyone can read sessions, collectors manage their own, approvers review them
+ALTER TABLE public.cashier_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cashier_session_counts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view cashier sessions" ON public.cashier_sessions;
+CREATE POLICY "Users can view cashier sessions"
+ON public.cashier_sessions
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Cashiers can manage their sessions" ON public.cashier_sessions;
+CREATE POLICY "Cashiers can manage their sessions"
+ON public.cashier_sessions
+FOR ALL
+TO authenticated
+USING (
+  cashier_id = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view cashier session counts" ON public.cashier_session_counts;
+CREATE POLICY "Users can view cashier session counts"
+ON public.cashier_session_counts
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Cashiers can manage their session counts" ON public.cashier_session_counts;
+CREATE POLICY "Cashiers can manage their session counts"
+ON public.cashier_session_counts
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.cashier_sessions
+    WHERE cashier_sessions.id = cashier_session_counts.session_id
+    AND cashier_sessions.cashier_id = auth.uid()
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT ALL ON public.cashier_sessions TO authenticated;
+GRANT ALL ON public.cashier_session_counts TO authenticated;
+
+COMMENT ON TABLE public.cashier_sessions IS 'Till sessions of collectors, closed with counted amounts and approved by a supervisor';
+COMMENT ON COLUMN public.cashier_sessions.status IS 'OPEN while taking payments, CLOSED awaiting approval, RETURNED for a recount, APPROVED once signed off';
+COMMENT ON COLUMN public.cashier_sessions.opening_float IS 'Cash in the till when the session was opened, expected back at the close';
+COMMENT ON TABLE public.cashier_session_counts IS 'Expected and counted amount per payment method at the close of a session';
+COMMENT ON COLUMN public.tax_payments.cashier_session_id IS 'Cashier session the payment was taken in';
+
+SELECT 'Cashier session migration completed successfully!' AS status;
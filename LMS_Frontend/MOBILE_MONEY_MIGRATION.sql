@@ -0,0 +1,107 @@
+-- ============================================
+-- Mobile-Money Payments
+-- ============================================
+-- A collector sends a payment request for an assessment to the payer's phone through
+-- the configured mobile-money provider. The provider reports the outcome to a signed
+-- callback endpoint, which posts the payment exactly once; every callback received is
+-- kept for troubleshooting.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.mobile_money_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_number TEXT NOT NULL UNIQUE, -- MM-<year>-NNNNN, sent to the provider as our reference
+  assessment_id UUID NOT NULL REFERENCES public.tax_assessments(id) ON DELETE RESTRICT,
+  provider TEXT NOT NULL,
+  provider_reference TEXT, -- the provider's id of the request
+  provider_transaction_id TEXT, -- the provider's id of the completed transfer
+  phone_number TEXT NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PROCESSING', 'PAID', 'FAILED', 'NEEDS_REVIEW')),
+  failure_reason TEXT,
+  payment_id UUID REFERENCES public.tax_payments(id) ON DELETE SET NULL, -- payment posted from the callback
+  requested_by UUID NOT NULL REFERENCES public.users(id),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_money_requests_provider_reference
+ON public.mobile_money_requests(provider, provider_reference) WHERE provider_reference IS NOT NULL;
+
+-- A provider transaction is posted at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mobile_money_requests_transaction
+ON public.mobile_money_requests(provider, provider_transaction_id) WHERE provider_transaction_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_requests_assessment
+ON public.mobile_money_requests(assessment_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_requests_status
+ON public.mobile_money_requests(status, created_at DESC);
+
+DROP TRIGGER IF EXISTS mobile_money_requests_updated_at ON public.mobile_money_requests;
+CREATE TRIGGER mobile_money_requests_updated_at
+BEFORE UPDATE ON public.mobile_money_requests
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Callbacks as received, including those with an invalid signature
+CREATE TABLE IF NOT EXISTS public.mobile_money_callbacks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  request_id UUID REFERENCES public.mobile_money_requests(id) ON DELETE SET NULL,
+  signature_valid BOOLEAN NOT NULL,
+  payload JSONB,
+  outcome TEXT NOT NULL, -- what the callback did, e.g. posted, duplicate, rejected
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mobile_money_callbacks_request
+ON public.mobile_money_callbacks(request_id, received_at DESC);
+
+-- RLS: everyone can read requests, collectors create them; callbacks are written by the backend only
+ALTER TABLE public.mobile_money_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mobile_money_callbacks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view mobile money requests" ON public.mobile_money_requests;
+CREATE POLICY "Users can view mobile money requests"
+ON public.mobile_money_requests
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Collectors can create mobile money requests" ON public.mobile_money_requests;
+CREATE POLICY "Collectors can create mobile money requests"
+ON public.mobile_money_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+DROP POLICY IF EXISTS "Administrators can view mobile money callbacks" ON public.mobile_money_callbacks;
+CREATE POLICY "Administrators can view mobile money callbacks"
+ON public.mobile_money_callbacks
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT SELECT, INSERT ON public.mobile_money_requests TO authenticated;
+GRANT SELECT ON public.mobile_money_callbacks TO authenticated;
+
+COMMENT ON TABLE public.mobile_money_requests IS 'Payment requests sent to payers through a mobile-money provider';
+COMMENT ON TABLE public.mobile_money_callbacks IS 'Callbacks received from mobile-money providers';
+COMMENT ON COLUMN public.mobile_money_requests.status IS 'PENDING until the provider calls back; PAID once the payment is posted, NEEDS_REVIEW when the money arrived but could not be posted';
+
+SELECT 'Mobile money migration completed successfully!' AS status;
@@ -0,0 +1,59 @@
+-- ============================================
+-- Change Sets of Edited Approved Records
+-- ============================================
+-- Editing an approved customer or property returns it to SUBMITTED for re-approval.
+-- Before the edit is saved, the approved version is kept here so reviewers see a
+-- field-by-field diff. Approving the record accepts the changes; rejecting it restores
+-- the approved version and the record stays APPROVED.
+-- Requires WORKFLOW_STAGES_MIGRATION.sql.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.record_change_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('customer', 'property')),
+  entity_id UUID NOT NULL,
+  snapshot JSONB NOT NULL, -- the approved version: record, type details, boundaries, owner
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  created_by UUID REFERENCES public.users(id), -- who edited the approved record
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_by UUID REFERENCES public.users(id),
+  resolved_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only one change set under review per record; further edits add to it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_record_change_sets_pending
+ON public.record_change_sets(entity_type, entity_id) WHERE status = 'PENDING';
+
+CREATE INDEX IF NOT EXISTS idx_record_change_sets_entity
+ON public.record_change_sets(entity_type, entity_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS record_change_sets_updated_at ON public.record_change_sets;
+CREATE TRIGGER record_change_sets_updated_at
+BEFORE UPDATE ON public.record_change_sets
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- RLS: approvers and administrators can see the approved versions under review
+ALTER TABLE public.record_change_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Approvers can view record change sets" ON public.record_change_sets;
+CREATE POLICY "Approvers can view record change sets"
+ON public.record_change_sets
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT SELECT ON public.record_change_sets TO authenticated;
+
+COMMENT ON TABLE public.record_change_sets IS 'Approved version of a customer or property kept while edits to it are reviewed';
+COMMENT ON COLUMN public.record_change_sets.status IS 'PENDING while under review, APPROVED when the edits were accepted, REJECTED when the snapshot was restored';
+
+SELECT 'Record change sets migration completed successfully!' AS status;
@@ -0,0 +1,64 @@
+-- ============================================
+-- Review Queue Assignments
+-- ============================================
+-- Records under review are claimed by an approver, assigned automatically (round-robin
+-- or to the least loaded approver) or reassigned by an administrator. An assignment
+-- ends when its stage is decided, when it is released, or when it expires after the
+-- claim timeout; the record then returns to the unassigned items of the queue.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('customer', 'property')),
+  entity_id UUID NOT NULL,
+  assigned_to UUID NOT NULL REFERENCES public.users(id),
+  assigned_by UUID REFERENCES public.users(id), -- null for automatic assignments
+  method TEXT NOT NULL CHECK (method IN ('CLAIM', 'ROUND_ROBIN', 'LEAST_LOADED', 'REASSIGN')),
+  status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'RELEASED', 'EXPIRED', 'COMPLETED')),
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only one active assignment per record
+CREATE UNIQUE INDEX IF NOT EXISTS idx_review_assignments_active
+ON public.review_assignments(entity_type, entity_id) WHERE status = 'ACTIVE';
+
+CREATE INDEX IF NOT EXISTS idx_review_assignments_assignee
+ON public.review_assignments(assigned_to, status);
+
+CREATE INDEX IF NOT EXISTS idx_review_assignments_method
+ON public.review_assignments(method, assigned_at DESC);
+
+DROP TRIGGER IF EXISTS review_assignments_updated_at ON public.review_assignments;
+CREATE TRIGGER review_assignments_updated_at
+BEFORE UPDATE ON public.review_assignments
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- RLS: approvers and administrators can see who is reviewing what
+ALTER TABLE public.review_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Approvers can view review assignments" ON public.review_assignments;
+CREATE POLICY "Approvers can view review assignments"
+ON public.review_assignments
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT SELECT ON public.review_assignments TO authenticated;
+
+COMMENT ON TABLE public.review_assignments IS 'Approver reviewing a submitted customer or property';
+COMMENT ON COLUMN public.review_assignments.method IS 'CLAIM by the approver, ROUND_ROBIN or LEAST_LOADED on submission, REASSIGN by an administrator';
+COMMENT ON COLUMN public.review_assignments.status IS 'ACTIVE until the stage is decided (COMPLETED), the approver lets go (RELEASED) or the claim timeout passes (EXPIRED)';
+
+SELECT 'Review assignments migration completed successfully!' AS status;
@@ -0,0 +1,93 @@
+-- ============================================
+-- Review SLA Targets and Escalations
+-- ============================================
+-- Administrators set how many hours a customer or property may stay submitted before
+-- its review is overdue. The review queue flags records at risk and in breach, and a
+-- background job escalates each breached review once: it notifies a supervisor (or all
+-- administrators) and, if configured, reassigns the record to the least loaded approver.
+-- Requires WORKFLOW_STAGES_MIGRATION.sql and REVIEW_ASSIGNMENTS_MIGRATION.sql.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.review_sla_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL UNIQUE CHECK (entity_type IN ('customer', 'property')),
+  target_hours NUMERIC(8,2) NOT NULL CHECK (target_hours > 0),
+  warning_percent INTEGER NOT NULL DEFAULT 75 CHECK (warning_percent BETWEEN 1 AND 100),
+  escalation_action TEXT NOT NULL DEFAULT 'NOTIFY' CHECK (escalation_action IN ('NOTIFY', 'REASSIGN')),
+  supervisor_id UUID REFERENCES public.users(id), -- null notifies all administrators
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS review_sla_targets_updated_at ON public.review_sla_targets;
+CREATE TRIGGER review_sla_targets_updated_at
+BEFORE UPDATE ON public.review_sla_targets
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- One escalation per review
+CREATE TABLE IF NOT EXISTS public.review_escalations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instance_id UUID NOT NULL UNIQUE REFERENCES public.workflow_instances(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('customer', 'property')),
+  entity_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('NOTIFY', 'REASSIGN')),
+  hours_pending NUMERIC(10,2) NOT NULL,
+  target_hours NUMERIC(8,2) NOT NULL,
+  previous_assignee UUID REFERENCES public.users(id),
+  reassigned_to UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_escalations_entity
+ON public.review_escalations(entity_type, entity_id);
+
+-- RLS: approvers and administrators can read targets and escalations, administrators manage targets
+ALTER TABLE public.review_sla_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.review_escalations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view review SLA targets" ON public.review_sla_targets;
+CREATE POLICY "Users can view review SLA targets"
+ON public.review_sla_targets
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Administrators can manage review SLA targets" ON public.review_sla_targets;
+CREATE POLICY "Administrators can manage review SLA targets"
+ON public.review_sla_targets
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+DROP POLICY IF EXISTS "Approvers can view review escalations" ON public.review_escalations;
+CREATE POLICY "Approvers can view review escalations"
+ON public.review_escalations
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT ALL ON public.review_sla_targets TO authenticated;
+GRANT SELECT ON public.review_escalations TO authenticated;
+
+COMMENT ON TABLE public.review_sla_targets IS 'Hours a submitted customer or property may wait for its review';
+COMMENT ON COLUMN public.review_sla_targets.warning_percent IS 'Share of the target after which a review is shown as at risk';
+COMMENT ON COLUMN public.review_sla_targets.escalation_action IS 'NOTIFY the supervisor, or REASSIGN to the least loaded approver and notify the supervisor';
+COMMENT ON TABLE public.review_escalations IS 'Reviews that exceeded their SLA target and how they were escalated';
+
+SELECT 'Review SLA migration completed successfully!' AS status;
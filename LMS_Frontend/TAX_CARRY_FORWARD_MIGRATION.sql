@@ -0,0 +1,47 @@
+-- ============================================
+-- Tax Arrears Carry-Forward
+-- ============================================
+-- A new assessment is linked to the property's assessment of the previous year and records
+-- the unpaid balance of all earlier years at the time it was created (the arrears brought
+-- forward). Those balances stay on their own assessments; payments taken for the property
+-- as a whole are split across them oldest first and share an allocation id.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS previous_assessment_id UUID REFERENCES public.tax_assessments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS arrears_brought_forward DECIMAL(15,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS arrears_details JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_tax_assessments_previous_assessment
+ON public.tax_assessments(previous_assessment_id);
+
+ALTER TABLE public.tax_payments
+ADD COLUMN IF NOT EXISTS allocation_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_tax_payments_allocation
+ON public.tax_payments(allocation_id)
+WHERE allocation_id IS NOT NULL;
+
+-- Link existing assessments to the latest earlier assessment of the same property
+UPDATE public.tax_assessments ta
+SET previous_assessment_id = (
+  SELECT prior.id
+  FROM public.tax_assessments prior
+  WHERE prior.property_id = ta.property_id
+    AND prior.tax_year < ta.tax_year
+  ORDER BY prior.tax_year DESC
+  LIMIT 1
+)
+WHERE ta.previous_assessment_id IS NULL;
+
+COMMENT ON COLUMN public.tax_assessments.previous_assessment_id IS 'Latest earlier assessment of the same property';
+COMMENT ON COLUMN public.tax_assessments.arrears_brought_forward IS 'Unpaid balance of earlier years when the assessment was created; not part of outstanding_amount';
+COMMENT ON COLUMN public.tax_assessments.arrears_details IS 'Earlier assessments with a balance when the assessment was created';
+COMMENT ON COLUMN public.tax_payments.allocation_id IS 'Shared by the entries of one payment split across assessments oldest first';
+
+SELECT 'Tax carry-forward migration completed successfully!' AS status;
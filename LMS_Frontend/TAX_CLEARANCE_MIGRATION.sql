@@ -0,0 +1,82 @@
+-- ============================================
+-- Tax Clearance Certificates
+-- ============================================
+-- A clearance certificate states that a property, or every current property of a
+-- customer, had nothing outstanding and no overdue assessment when it was issued.
+-- Certificates are numbered, expire after a configured number of days and carry a
+-- random verification code printed as a QR code. Each issuance is kept here and in
+-- the audit trail.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.tax_clearance_certificates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  certificate_number TEXT NOT NULL UNIQUE, -- TC-<year>-NNNNN
+  verification_code TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('PROPERTY', 'CUSTOMER')),
+  property_id UUID REFERENCES public.properties(id) ON DELETE RESTRICT,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE RESTRICT,
+  holder_name TEXT NOT NULL,
+  purpose TEXT,
+  properties JSONB NOT NULL DEFAULT '[]'::jsonb,
+  assessments_checked INTEGER NOT NULL DEFAULT 0,
+  issued_by UUID NOT NULL REFERENCES public.users(id),
+  issued_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  valid_until DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (
+    (subject_type = 'PROPERTY' AND property_id IS NOT NULL)
+    OR (subject_type = 'CUSTOMER' AND customer_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_clearance_certificates_property
+ON public.tax_clearance_certificates(property_id, issued_at DESC) WHERE property_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tax_clearance_certificates_customer
+ON public.tax_clearance_certificates(customer_id, issued_at DESC) WHERE customer_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS tax_clearance_certificates_updated_at ON public.tax_clearance_certificates;
+CREATE TRIGGER tax_clearance_certificates_updated_at
+BEFORE UPDATE ON public.tax_clearance_certificates
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Clearance certificates in the audit trail
+ALTER TABLE public.audit_logs DROP CONSTRAINT IF EXISTS audit_logs_entity_type_check;
+ALTER TABLE public.audit_logs ADD CONSTRAINT audit_logs_entity_type_check
+  CHECK (entity_type IN ('customer', 'property', 'tax_assessment', 'tax_payment', 'user', 'ago_settings', 'cashier_session', 'tax_clearance'));
+
+-- RLS: everyone can read certificates, staff who issue them can create them
+ALTER TABLE public.tax_clearance_certificates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view clearance certificates" ON public.tax_clearance_certificates;
+CREATE POLICY "Users can view clearance certificates"
+ON public.tax_clearance_certificates
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Staff can issue clearance certificates" ON public.tax_clearance_certificates;
+CREATE POLICY "Staff can issue clearance certificates"
+ON public.tax_clearance_certificates
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT ALL ON public.tax_clearance_certificates TO authenticated;
+
+COMMENT ON TABLE public.tax_clearance_certificates IS 'Issued tax clearance certificates of a property or of all current properties of a customer';
+COMMENT ON COLUMN public.tax_clearance_certificates.verification_code IS 'Random code printed as a QR code, looked up by the public verification page';
+COMMENT ON COLUMN public.tax_clearance_certificates.properties IS 'Properties covered by the certificate as they were when it was issued';
+COMMENT ON COLUMN public.tax_clearance_certificates.assessments_checked IS 'Number of assessments found settled when the certificate was issued';
+COMMENT ON COLUMN public.tax_clearance_certificates.valid_until IS 'Last day the certificate is valid';
+
+SELECT 'Tax clearance migration completed successfully!' AS status;
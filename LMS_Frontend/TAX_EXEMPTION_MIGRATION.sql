@@ -0,0 +1,85 @@
+-- ============================================
+-- Tax Exemption Rules
+-- ============================================
+-- Exemption policies applied automatically when assessments are created, based on the
+-- customer type of the current owners and the property and assessment details.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.exemption_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Match criteria (NULL matches any value)
+  customer_type customer_type, -- any current OWNER or CO_OWNER of this type
+  property_type_id UUID REFERENCES public.property_types(id) ON DELETE CASCADE,
+  is_downtown BOOLEAN,
+  is_building BOOLEAN,
+  occupancy_type occupancy_type,
+
+  -- Exemption
+  exemption_type TEXT NOT NULL CHECK (exemption_type IN ('FULL', 'PERCENTAGE', 'FIXED')),
+  exemption_value DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (exemption_value >= 0), -- percent or amount, unused for FULL
+
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT valid_exemption_rule_dates CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  CONSTRAINT valid_exemption_value CHECK (
+    exemption_type = 'FULL'
+    OR (exemption_type = 'PERCENTAGE' AND exemption_value > 0 AND exemption_value <= 100)
+    OR (exemption_type = 'FIXED' AND exemption_value > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_exemption_rules_effective
+ON public.exemption_rules(effective_from DESC) WHERE is_active;
+
+DROP TRIGGER IF EXISTS exemption_rules_updated_at ON public.exemption_rules;
+CREATE TRIGGER exemption_rules_updated_at
+BEFORE UPDATE ON public.exemption_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Applied exemption on assessments
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS exemption_rule_id UUID REFERENCES public.exemption_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS exemption_details JSONB;
+
+-- RLS: everyone can read the rules, administrators manage them
+ALTER TABLE public.exemption_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view exemption rules" ON public.exemption_rules;
+CREATE POLICY "Users can view exemption rules"
+ON public.exemption_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage exemption rules" ON public.exemption_rules;
+CREATE POLICY "Admins can manage exemption rules"
+ON public.exemption_rules
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.exemption_rules TO authenticated;
+
+COMMENT ON TABLE public.exemption_rules IS 'Exemption policies; when several active rules match, the largest exemption applies';
+COMMENT ON COLUMN public.exemption_rules.customer_type IS 'Matches when a current owner or co-owner of the property has this customer type';
+COMMENT ON COLUMN public.exemption_rules.exemption_value IS 'Percentage of the base assessment for PERCENTAGE, amount for FIXED, unused for FULL';
+COMMENT ON COLUMN public.tax_assessments.exemption_rule_id IS 'Exemption rule applied to the assessment';
+COMMENT ON COLUMN public.tax_assessments.exemption_details IS 'Rule, matched criteria, owner and amount of the applied exemption';
+
+SELECT 'Tax exemption migration completed successfully!' AS status;
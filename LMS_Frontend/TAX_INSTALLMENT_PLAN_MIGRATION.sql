@@ -0,0 +1,112 @@
+-- ============================================
+-- Tax Installment Plans
+-- ============================================
+-- A payment plan spreads the outstanding amount of an assessment over a schedule of
+-- installments. Payments are allocated to the installments oldest first; installments
+-- left unpaid after their due date are flagged MISSED and the plan DEFAULTED. The
+-- penalty job leaves assessments on an ACTIVE plan alone, and the time spent on a plan
+-- does not count towards the overdue period once it defaults or is cancelled.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.tax_installment_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assessment_id UUID NOT NULL REFERENCES public.tax_assessments(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'DEFAULTED', 'COMPLETED', 'CANCELLED')),
+  total_amount DECIMAL(15, 2) NOT NULL CHECK (total_amount > 0),
+  opening_paid_amount DECIMAL(15, 2) NOT NULL DEFAULT 0, -- paid_amount of the assessment when the plan started
+  penalty_suspended_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  penalty_resumes_on DATE, -- set when the plan stops being ACTIVE
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  cancelled_by UUID REFERENCES public.users(id),
+  cancelled_at TIMESTAMPTZ,
+  cancel_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_installment_plans_assessment
+ON public.tax_installment_plans(assessment_id, created_at DESC);
+
+-- Only one open plan per assessment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_installment_plans_open
+ON public.tax_installment_plans(assessment_id) WHERE status IN ('ACTIVE', 'DEFAULTED');
+
+DROP TRIGGER IF EXISTS tax_installment_plans_updated_at ON public.tax_installment_plans;
+CREATE TRIGGER tax_installment_plans_updated_at
+BEFORE UPDATE ON public.tax_installment_plans
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.tax_installments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES public.tax_installment_plans(id) ON DELETE CASCADE,
+  installment_number INTEGER NOT NULL CHECK (installment_number > 0),
+  due_date DATE NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  paid_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (paid_amount >= 0),
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'PARTIAL', 'PAID', 'MISSED')),
+  paid_at TIMESTAMPTZ,
+  UNIQUE (plan_id, installment_number),
+  CONSTRAINT valid_installment_paid CHECK (paid_amount <= amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_installments_due
+ON public.tax_installments(due_date) WHERE status IN ('PENDING', 'PARTIAL');
+
+-- RLS: everyone can read plans, inputters set them up, approvers cancel them
+ALTER TABLE public.tax_installment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_installments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tax installment plans" ON public.tax_installment_plans;
+CREATE POLICY "Users can view tax installment plans"
+ON public.tax_installment_plans
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Inputters can manage tax installment plans" ON public.tax_installment_plans;
+CREATE POLICY "Inputters can manage tax installment plans"
+ON public.tax_installment_plans
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view tax installments" ON public.tax_installments;
+CREATE POLICY "Users can view tax installments"
+ON public.tax_installments
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Inputters can manage tax installments" ON public.tax_installments;
+CREATE POLICY "Inputters can manage tax installments"
+ON public.tax_installments
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT ALL ON public.tax_installment_plans TO authenticated;
+GRANT ALL ON public.tax_installments TO authenticated;
+
+COMMENT ON TABLE public.tax_installment_plans IS 'Payment plans spreading the outstanding amount of an assessment over installments';
+COMMENT ON COLUMN public.tax_installment_plans.status IS 'ACTIVE while current, DEFAULTED once an installment is missed, COMPLETED when fully paid';
+COMMENT ON COLUMN public.tax_installment_plans.opening_paid_amount IS 'Payments made before the plan started; later payments are allocated to the installments';
+COMMENT ON COLUMN public.tax_installment_plans.penalty_resumes_on IS 'Due date of the first missed installment, or the date the plan was cancelled or completed; penalties and interest are not counted from penalty_suspended_from until then';
+COMMENT ON TABLE public.tax_installments IS 'Scheduled installments of a payment plan';
+COMMENT ON COLUMN public.tax_installments.status IS 'MISSED when not fully paid by the end of its due date';
+
+SELECT 'Tax installment plan migration completed successfully!' AS status;
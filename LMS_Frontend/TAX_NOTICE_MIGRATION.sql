@@ -0,0 +1,180 @@
+-- ============================================
+-- Tax Assessment Notices
+-- ============================================
+-- Notice templates per language, and a record of every assessment notice (demand letter)
+-- generated, grouped in the batch it was printed with.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- Notice wording per language; {{placeholders}} are filled from the assessment
+CREATE TABLE IF NOT EXISTS public.tax_notice_templates (
+  language TEXT PRIMARY KEY CHECK (language ~ '^[a-z]{2}$'),
+  language_name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  closing TEXT NOT NULL,
+  labels JSONB NOT NULL DEFAULT '{}'::jsonb, -- table and heading labels, English is used for missing keys
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS tax_notice_templates_updated_at ON public.tax_notice_templates;
+CREATE TRIGGER tax_notice_templates_updated_at
+BEFORE UPDATE ON public.tax_notice_templates
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+INSERT INTO public.tax_notice_templates (language, language_name, title, body, closing, labels)
+VALUES
+(
+  'en',
+  'English',
+  'Property Tax Assessment Notice {{tax_year}}',
+  E'Dear {{owner_name}},\n\nThe property tax of the property with parcel number {{parcel_number}} has been assessed for {{tax_year}}. The amount due is {{amount_due}}, payable by {{due_date}}.\n\nPlease pay at any collection office or by an approved payment method, quoting the assessment reference {{assessment_reference}}. Late payment is subject to penalties and interest.',
+  E'Yours faithfully,\n{{organization_name}}',
+  '{}'::jsonb
+),
+(
+  'so',
+  'Soomaali',
+  'Ogeysiiska Qiimaynta Canshuurta Hantida {{tax_year}}',
+  E'Mudane/Marwo {{owner_name}},\n\nCanshuurta hantida ee dhulka lambarkiisu yahay {{parcel_number}} waxaa loo qiimeeyay sanadka {{tax_year}}. Lacagta lagu leeyahay waa {{amount_due}}, waxaana la bixiyaa ugu dambeyn {{due_date}}.\n\nFadlan ku bixi xafiis kasta oo lacagaha qaada ama hab lacag bixin oo la ogol yahay, adigoo sheegaya tixraaca qiimaynta {{assessment_reference}}. Bixinta daahda waxaa lagu soo rogayaa ganaax iyo dulsaar.',
+  E'Si daacad ah,\n{{organization_name}}',
+  '{
+    "notice_number": "Lambarka Ogeysiiska",
+    "notice_date": "Taariikhda",
+    "recipient": "Loo dirayo",
+    "property": "Hantida",
+    "parcel_number": "Lambarka Dhulka",
+    "property_reference": "Tixraaca Hantida",
+    "location": "Goobta",
+    "district": "Degmada",
+    "assessment": "Qiimaynta",
+    "assessment_reference": "Tixraaca Qiimaynta",
+    "base_assessment": "Qiimaynta Aasaasiga ah",
+    "exemption": "Dhaafid",
+    "assessed_amount": "Qadarka la Qiimeeyay",
+    "penalties": "Ganaax iyo Dulsaar",
+    "paid": "La Bixiyay",
+    "amount_due": "Lacagta lagu Leeyahay",
+    "due_date": "Taarikhda Bixinta"
+  }'::jsonb
+)
+ON CONFLICT (language) DO NOTHING;
+
+-- Batches of notices printed together
+CREATE TABLE IF NOT EXISTS public.tax_notice_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tax_year INTEGER NOT NULL,
+  language TEXT NOT NULL REFERENCES public.tax_notice_templates(language),
+  district_id UUID REFERENCES public.districts(id) ON DELETE SET NULL,
+  sub_district_id UUID REFERENCES public.sub_districts(id) ON DELETE SET NULL,
+  group_by TEXT NOT NULL CHECK (group_by IN ('DISTRICT', 'SUB_DISTRICT')),
+  output_format TEXT NOT NULL CHECK (output_format IN ('PDF', 'ZIP')),
+  notice_count INTEGER NOT NULL DEFAULT 0,
+  file_name TEXT NOT NULL,
+  generated_by UUID REFERENCES public.users(id),
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_notice_batches_generated
+ON public.tax_notice_batches(generated_at DESC);
+
+-- One row per notice, recorded against the assessment
+CREATE TABLE IF NOT EXISTS public.tax_notices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notice_number TEXT NOT NULL UNIQUE,
+  batch_id UUID NOT NULL REFERENCES public.tax_notice_batches(id) ON DELETE CASCADE,
+  assessment_id UUID NOT NULL REFERENCES public.tax_assessments(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  recipient_contact TEXT,
+  amount_due DECIMAL(15, 2) NOT NULL,
+  due_date DATE NOT NULL,
+  generated_by UUID REFERENCES public.users(id),
+  generated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_notices_assessment
+ON public.tax_notices(assessment_id, generated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_tax_notices_batch
+ON public.tax_notices(batch_id);
+
+-- RLS: everyone can read, administrators manage templates and generate notices
+ALTER TABLE public.tax_notice_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_notice_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_notices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tax notice templates" ON public.tax_notice_templates;
+CREATE POLICY "Users can view tax notice templates"
+ON public.tax_notice_templates
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage tax notice templates" ON public.tax_notice_templates;
+CREATE POLICY "Admins can manage tax notice templates"
+ON public.tax_notice_templates
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view tax notice batches" ON public.tax_notice_batches;
+CREATE POLICY "Users can view tax notice batches"
+ON public.tax_notice_batches
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage tax notice batches" ON public.tax_notice_batches;
+CREATE POLICY "Admins can manage tax notice batches"
+ON public.tax_notice_batches
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view tax notices" ON public.tax_notices;
+CREATE POLICY "Users can view tax notices"
+ON public.tax_notices
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage tax notices" ON public.tax_notices;
+CREATE POLICY "Admins can manage tax notices"
+ON public.tax_notices
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.tax_notice_templates TO authenticated;
+GRANT ALL ON public.tax_notice_batches TO authenticated;
+GRANT ALL ON public.tax_notices TO authenticated;
+
+COMMENT ON TABLE public.tax_notice_templates IS 'Assessment notice wording per language';
+COMMENT ON COLUMN public.tax_notice_templates.body IS 'Placeholders: owner_name, parcel_number, property_reference, tax_year, amount_due, due_date, assessment_reference, organization_name';
+COMMENT ON TABLE public.tax_notice_batches IS 'Assessment notices generated together into one PDF or ZIP';
+COMMENT ON TABLE public.tax_notices IS 'Every assessment notice generated, with the amount due it stated';
+
+SELECT 'Tax notice migration completed successfully!' AS status;
@@ -0,0 +1,109 @@
+-- ============================================
+-- Tax Payment Reversals and Refunds
+-- ============================================
+-- Reversals and refunds are requested against a payment and, once signed off by an
+-- approver, recorded as compensating tax_payments entries with a negative amount. The
+-- payment trigger and update_tax_status then recompute paid, outstanding and status.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- Compensating entries on tax_payments
+ALTER TABLE public.tax_payments
+ADD COLUMN IF NOT EXISTS entry_type TEXT NOT NULL DEFAULT 'PAYMENT',
+ADD COLUMN IF NOT EXISTS reverses_payment_id UUID REFERENCES public.tax_payments(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS reason TEXT,
+ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES public.users(id);
+
+ALTER TABLE public.tax_payments DROP CONSTRAINT IF EXISTS tax_payments_entry_type_check;
+ALTER TABLE public.tax_payments
+ADD CONSTRAINT tax_payments_entry_type_check CHECK (entry_type IN ('PAYMENT', 'REVERSAL', 'REFUND'));
+
+-- Payments are positive, reversals and refunds negative and tied to the payment they correct
+ALTER TABLE public.tax_payments DROP CONSTRAINT IF EXISTS valid_amount;
+ALTER TABLE public.tax_payments DROP CONSTRAINT IF EXISTS valid_payment_entry;
+ALTER TABLE public.tax_payments
+ADD CONSTRAINT valid_payment_entry CHECK (
+  (entry_type = 'PAYMENT' AND amount_paid > 0 AND reverses_payment_id IS NULL)
+  OR (entry_type IN ('REVERSAL', 'REFUND') AND amount_paid < 0 AND reverses_payment_id IS NOT NULL AND reason IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_payments_reverses
+ON public.tax_payments(reverses_payment_id) WHERE reverses_payment_id IS NOT NULL;
+
+-- Reversal and refund requests awaiting approver sign-off
+CREATE TABLE IF NOT EXISTS public.tax_payment_adjustments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID NOT NULL REFERENCES public.tax_payments(id) ON DELETE CASCADE,
+  assessment_id UUID NOT NULL REFERENCES public.tax_assessments(id) ON DELETE CASCADE,
+  adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('REVERSAL', 'REFUND')),
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+  requested_by UUID NOT NULL REFERENCES public.users(id),
+  requested_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  reviewed_by UUID REFERENCES public.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  adjustment_payment_id UUID REFERENCES public.tax_payments(id) ON DELETE SET NULL -- compensating entry once approved
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_payment_adjustments_assessment
+ON public.tax_payment_adjustments(assessment_id, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_tax_payment_adjustments_status
+ON public.tax_payment_adjustments(status, requested_at DESC);
+
+-- Only one open request per payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_payment_adjustments_pending
+ON public.tax_payment_adjustments(payment_id) WHERE status = 'PENDING';
+
+-- Notifications about tax assessments
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_entity_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_entity_type_check
+CHECK (entity_type IS NULL OR UPPER(entity_type) IN ('CUSTOMER', 'USER', 'PROPERTY', 'TAX_ASSESSMENT'));
+
+-- RLS: everyone can read requests, inputters and approvers create them, approvers review them
+ALTER TABLE public.tax_payment_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tax payment adjustments" ON public.tax_payment_adjustments;
+CREATE POLICY "Users can view tax payment adjustments"
+ON public.tax_payment_adjustments
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Inputters can request tax payment adjustments" ON public.tax_payment_adjustments;
+CREATE POLICY "Inputters can request tax payment adjustments"
+ON public.tax_payment_adjustments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('INPUTTER', 'APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+DROP POLICY IF EXISTS "Approvers can review tax payment adjustments" ON public.tax_payment_adjustments;
+CREATE POLICY "Approvers can review tax payment adjustments"
+ON public.tax_payment_adjustments
+FOR UPDATE
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('APPROVER', 'ADMINISTRATOR')
+  )
+);
+
+GRANT ALL ON public.tax_payment_adjustments TO authenticated;
+
+COMMENT ON TABLE public.tax_payment_adjustments IS 'Payment reversal and refund requests and their approval';
+COMMENT ON COLUMN public.tax_payments.entry_type IS 'PAYMENT, or a REVERSAL/REFUND compensating entry with a negative amount';
+COMMENT ON COLUMN public.tax_payments.reverses_payment_id IS 'Payment corrected by a reversal or refund';
+COMMENT ON COLUMN public.tax_payments.approved_by IS 'Approver who signed off a reversal or refund';
+
+SELECT 'Tax payment adjustments migration completed successfully!' AS status;
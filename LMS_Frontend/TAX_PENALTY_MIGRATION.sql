@@ -0,0 +1,118 @@
+-- ============================================
+-- Tax Penalties and Interest
+-- ============================================
+-- Penalty rules applied by the daily penalty job to assessments that are past due.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.penalty_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  grace_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_days >= 0),
+  penalty_type TEXT NOT NULL DEFAULT 'PERCENTAGE' CHECK (penalty_type IN ('FLAT', 'PERCENTAGE')),
+  penalty_value DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (penalty_value >= 0),
+  monthly_interest_rate DECIMAL(5, 2) NOT NULL DEFAULT 0 CHECK (monthly_interest_rate >= 0 AND monthly_interest_rate <= 100),
+  interest_cap_percent DECIMAL(6, 2) CHECK (interest_cap_percent >= 0), -- cap on interest as % of the assessed amount
+  max_penalty_amount DECIMAL(15, 2) CHECK (max_penalty_amount >= 0), -- cap on penalty + interest
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT valid_penalty_rule_dates CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  CONSTRAINT valid_penalty_percentage CHECK (penalty_type = 'FLAT' OR penalty_value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_penalty_rules_effective
+ON public.penalty_rules(effective_from DESC) WHERE is_active;
+
+DROP TRIGGER IF EXISTS penalty_rules_updated_at ON public.penalty_rules;
+CREATE TRIGGER penalty_rules_updated_at
+BEFORE UPDATE ON public.penalty_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Penalty breakdown on assessments
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS interest_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (interest_amount >= 0),
+ADD COLUMN IF NOT EXISTS interest_months INTEGER NOT NULL DEFAULT 0 CHECK (interest_months >= 0),
+ADD COLUMN IF NOT EXISTS penalty_rule_id UUID REFERENCES public.penalty_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS penalty_calculated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_tax_assessments_due_status
+ON public.tax_assessments(due_date, status) WHERE is_archived = false;
+
+-- Outstanding now includes penalty and interest. OVERDUE is set by the penalty job
+-- once the grace period has passed and is kept until the assessment is paid in full.
+CREATE OR REPLACE FUNCTION update_tax_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  outstanding DECIMAL;
+  new_status tax_status;
+BEGIN
+  outstanding := NEW.assessed_amount
+    + COALESCE(NEW.penalty_amount, 0)
+    + COALESCE(NEW.interest_amount, 0)
+    - NEW.paid_amount;
+  NEW.outstanding_amount := outstanding;
+
+  IF outstanding <= 0 AND NEW.paid_amount > 0 THEN
+    new_status := 'PAID';
+  ELSIF NEW.status = 'OVERDUE' THEN
+    new_status := 'OVERDUE';
+  ELSIF NEW.paid_amount = 0 THEN
+    new_status := 'ASSESSED';
+  ELSE
+    new_status := 'PARTIAL';
+  END IF;
+
+  NEW.status := new_status;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Scheduled jobs write audit entries without a user
+ALTER TABLE public.audit_logs ALTER COLUMN changed_by DROP NOT NULL;
+
+-- RLS: everyone can read the rules, administrators manage them
+ALTER TABLE public.penalty_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view penalty rules" ON public.penalty_rules;
+CREATE POLICY "Users can view penalty rules"
+ON public.penalty_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage penalty rules" ON public.penalty_rules;
+CREATE POLICY "Admins can manage penalty rules"
+ON public.penalty_rules
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.penalty_rules TO authenticated;
+
+COMMENT ON TABLE public.penalty_rules IS 'Late payment penalty and interest rules, selected by the assessment due date';
+COMMENT ON COLUMN public.penalty_rules.grace_days IS 'Days after the due date before the assessment becomes OVERDUE and charges start';
+COMMENT ON COLUMN public.penalty_rules.penalty_value IS 'Flat amount, or percentage of the assessed amount for PERCENTAGE rules';
+COMMENT ON COLUMN public.penalty_rules.monthly_interest_rate IS 'Simple interest per full month overdue, as a percentage of the assessed amount still unpaid that month';
+COMMENT ON COLUMN public.tax_assessments.penalty_amount IS 'One-off late payment penalty';
+COMMENT ON COLUMN public.tax_assessments.interest_amount IS 'Interest accrued since the grace period ended';
+COMMENT ON COLUMN public.tax_assessments.interest_months IS 'Full months overdue already charged interest';
+COMMENT ON COLUMN public.tax_assessments.penalty_rule_id IS 'Penalty rule used for the last calculation';
+COMMENT ON COLUMN public.audit_logs.changed_by IS 'User who made the change; NULL for scheduled jobs';
+
+SELECT 'Tax penalty migration completed successfully!' AS status;
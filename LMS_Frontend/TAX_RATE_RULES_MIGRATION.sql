@@ -0,0 +1,82 @@
+-- ============================================
+-- Tax Rate Rules
+-- ============================================
+-- Rate tables used to calculate base_assessment from the property and assessment details.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.tax_rate_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Match criteria (NULL matches any value)
+  property_type_id UUID REFERENCES public.property_types(id) ON DELETE CASCADE,
+  district_id UUID REFERENCES public.districts(id) ON DELETE CASCADE,
+  is_downtown BOOLEAN,
+  occupancy_type occupancy_type,
+  construction_status construction_status,
+
+  -- Rates
+  land_rate_per_m2 DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (land_rate_per_m2 >= 0),
+  built_rate_per_m2 DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (built_rate_per_m2 >= 0),
+  floor_modifier_percent DECIMAL(6, 2) NOT NULL DEFAULT 0 CHECK (floor_modifier_percent >= -100), -- per floor above the first
+  minimum_amount DECIMAL(15, 2) CHECK (minimum_amount >= 0),
+
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT valid_tax_rate_rule_dates CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  CONSTRAINT tax_rate_rule_has_rate CHECK (land_rate_per_m2 > 0 OR built_rate_per_m2 > 0 OR minimum_amount > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rate_rules_effective
+ON public.tax_rate_rules(effective_from DESC) WHERE is_active;
+
+DROP TRIGGER IF EXISTS tax_rate_rules_updated_at ON public.tax_rate_rules;
+CREATE TRIGGER tax_rate_rules_updated_at
+BEFORE UPDATE ON public.tax_rate_rules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Calculation result on assessments
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS rate_rule_id UUID REFERENCES public.tax_rate_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS calculation_breakdown JSONB;
+
+-- RLS: everyone can read the rates, administrators manage them
+ALTER TABLE public.tax_rate_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view tax rate rules" ON public.tax_rate_rules;
+CREATE POLICY "Users can view tax rate rules"
+ON public.tax_rate_rules
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage tax rate rules" ON public.tax_rate_rules;
+CREATE POLICY "Admins can manage tax rate rules"
+ON public.tax_rate_rules
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.tax_rate_rules TO authenticated;
+
+COMMENT ON TABLE public.tax_rate_rules IS 'Rate tables for calculating base_assessment; the most specific active rule wins';
+COMMENT ON COLUMN public.tax_rate_rules.floor_modifier_percent IS 'Adjustment to the built-area amount for each floor above the first';
+COMMENT ON COLUMN public.tax_rate_rules.minimum_amount IS 'Lowest base assessment the rule produces';
+COMMENT ON COLUMN public.tax_assessments.rate_rule_id IS 'Rate rule used to calculate base_assessment';
+COMMENT ON COLUMN public.tax_assessments.calculation_breakdown IS 'Inputs, rates and amounts of the base_assessment calculation';
+
+SELECT 'Tax rate rules migration completed successfully!' AS status;
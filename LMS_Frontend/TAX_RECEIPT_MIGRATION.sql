@@ -0,0 +1,18 @@
+-- ============================================
+-- Tax Receipt Verification Codes
+-- ============================================
+-- Every payment entry gets a random verification code that is printed as a QR code on
+-- its PDF receipt and checked by the public receipt verification page.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- Existing rows each get their own code from the volatile default
+ALTER TABLE public.tax_payments
+ADD COLUMN IF NOT EXISTS verification_code TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_payments_verification_code
+ON public.tax_payments(verification_code);
+
+COMMENT ON COLUMN public.tax_payments.verification_code IS 'Code in the receipt QR code, used to verify the receipt publicly';
+
+SELECT 'Tax receipt migration completed successfully!' AS status;
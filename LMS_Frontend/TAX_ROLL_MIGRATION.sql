@@ -0,0 +1,59 @@
+-- ============================================
+-- Tax Roll Generation
+-- ============================================
+-- Tracks runs that create the assessments of a tax year for all approved properties.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.tax_roll_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tax_year INTEGER NOT NULL CHECK (tax_year >= 2000 AND tax_year <= 2100),
+  assessment_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'RUNNING' CHECK (status IN ('RUNNING', 'COMPLETED', 'FAILED')),
+  total_properties INTEGER NOT NULL DEFAULT 0,
+  processed INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0, -- already assessed for the year
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  failures JSONB, -- [{ property_id, property_reference_id, reason }]
+  error_message TEXT,
+  started_by UUID NOT NULL REFERENCES public.users(id),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT valid_tax_roll_dates CHECK (due_date > assessment_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_roll_runs_year
+ON public.tax_roll_runs(tax_year, started_at DESC);
+
+-- Only one run per tax year at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_roll_runs_running
+ON public.tax_roll_runs(tax_year) WHERE status = 'RUNNING';
+
+-- Assessments created by a tax roll
+ALTER TABLE public.tax_assessments
+ADD COLUMN IF NOT EXISTS tax_roll_run_id UUID REFERENCES public.tax_roll_runs(id) ON DELETE SET NULL;
+
+-- RLS: administrators only
+ALTER TABLE public.tax_roll_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage tax roll runs" ON public.tax_roll_runs;
+CREATE POLICY "Admins can manage tax roll runs"
+ON public.tax_roll_runs
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+GRANT ALL ON public.tax_roll_runs TO authenticated;
+
+COMMENT ON TABLE public.tax_roll_runs IS 'Tax roll generation runs with progress and result counts';
+COMMENT ON COLUMN public.tax_assessments.tax_roll_run_id IS 'Tax roll run that created the assessment';
+
+SELECT 'Tax roll migration completed successfully!' AS status;
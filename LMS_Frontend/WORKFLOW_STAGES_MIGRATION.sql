@@ -0,0 +1,123 @@
+-- ============================================
+-- Multi-Stage Approval Workflows
+-- ============================================
+-- Administrators define the review stages of customers and properties. Stages with
+-- the same order run in parallel, later orders wait until every earlier stage is
+-- approved, and a stage can be limited to records matching a condition (e.g. a
+-- second approval for properties over 5,000 m2). Each submission starts a workflow
+-- instance holding the stages that applied when it was submitted; every approval
+-- and rejection is kept as its history.
+-- Run this SQL in your Supabase SQL Editor
+-- ============================================
+
+-- One definition per entity type; without one a single approval by an APPROVER or ADMINISTRATOR applies
+CREATE TABLE IF NOT EXISTS public.workflow_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL UNIQUE CHECK (entity_type IN ('customer', 'property')),
+  name TEXT NOT NULL,
+  stages JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS workflow_definitions_updated_at ON public.workflow_definitions;
+CREATE TRIGGER workflow_definitions_updated_at
+BEFORE UPDATE ON public.workflow_definitions
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- Review of one submission of a record
+CREATE TABLE IF NOT EXISTS public.workflow_instances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('customer', 'property')),
+  entity_id UUID NOT NULL,
+  definition_id UUID REFERENCES public.workflow_definitions(id) ON DELETE SET NULL,
+  stages JSONB NOT NULL, -- stages that applied to the record when it was submitted
+  current_order INTEGER,
+  status TEXT NOT NULL DEFAULT 'IN_PROGRESS' CHECK (status IN ('IN_PROGRESS', 'APPROVED', 'REJECTED', 'CANCELLED')),
+  submitted_by UUID REFERENCES public.users(id),
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_instances_entity
+ON public.workflow_instances(entity_type, entity_id, submitted_at DESC);
+
+-- Only one review in progress per record
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workflow_instances_in_progress
+ON public.workflow_instances(entity_type, entity_id) WHERE status = 'IN_PROGRESS';
+
+DROP TRIGGER IF EXISTS workflow_instances_updated_at ON public.workflow_instances;
+CREATE TRIGGER workflow_instances_updated_at
+BEFORE UPDATE ON public.workflow_instances
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at();
+
+-- History of a review
+CREATE TABLE IF NOT EXISTS public.workflow_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instance_id UUID NOT NULL REFERENCES public.workflow_instances(id) ON DELETE CASCADE,
+  stage_key TEXT,
+  action TEXT NOT NULL CHECK (action IN ('SUBMIT', 'APPROVE', 'REJECT', 'CANCEL')),
+  acted_by UUID REFERENCES public.users(id),
+  feedback TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_actions_instance
+ON public.workflow_actions(instance_id, created_at);
+
+-- RLS: everyone can read reviews, administrators manage the definitions
+ALTER TABLE public.workflow_definitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_instances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view workflow definitions" ON public.workflow_definitions;
+CREATE POLICY "Users can view workflow definitions"
+ON public.workflow_definitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Administrators can manage workflow definitions" ON public.workflow_definitions;
+CREATE POLICY "Administrators can manage workflow definitions"
+ON public.workflow_definitions
+FOR ALL
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.users
+    WHERE users.id = auth.uid()
+    AND users.role = 'ADMINISTRATOR'
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view workflow instances" ON public.workflow_instances;
+CREATE POLICY "Users can view workflow instances"
+ON public.workflow_instances
+FOR SELECT
+TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "Users can view workflow actions" ON public.workflow_actions;
+CREATE POLICY "Users can view workflow actions"
+ON public.workflow_actions
+FOR SELECT
+TO authenticated
+USING (true);
+
+GRANT ALL ON public.workflow_definitions TO authenticated;
+GRANT SELECT ON public.workflow_instances TO authenticated;
+GRANT SELECT ON public.workflow_actions TO authenticated;
+
+COMMENT ON TABLE public.workflow_definitions IS 'Review stages of customers or properties, defined by administrators';
+COMMENT ON COLUMN public.workflow_definitions.stages IS 'Stages with key, name, order, roles, required_approvals and an optional condition; equal orders run in parallel';
+COMMENT ON TABLE public.workflow_instances IS 'Review of one submission of a customer or property';
+COMMENT ON COLUMN public.workflow_instances.stages IS 'Stages whose condition matched the record when it was submitted';
+COMMENT ON COLUMN public.workflow_instances.current_order IS 'Order of the stages awaiting approval; null once the review is complete';
+COMMENT ON TABLE public.workflow_actions IS 'Submissions, stage approvals and rejections of a review';
+
+SELECT 'Workflow stages migration completed successfully!' AS status;
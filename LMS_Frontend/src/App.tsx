@@ -25,12 +25,27 @@ import TaxList from "./pages/tax/TaxList";
 import TaxDetail from "./pages/tax/TaxDetail";
 import TaxNew from "./pages/tax/TaxNew";
 import TaxPaymentNew from "./pages/tax/TaxPaymentNew";
+import TaxRoll from "./pages/tax/TaxRoll";
+import CashierSessions from "./pages/tax/CashierSessions";
+import CashierSessionDetail from "./pages/tax/CashierSessionDetail";
+import BankReconciliation from "./pages/tax/BankReconciliation";
+import BankImportDetail from "./pages/tax/BankImportDetail";
+import TaxNotices from "./pages/tax/TaxNotices";
+import ArrearsReport from "./pages/tax/ArrearsReport";
 import { ReviewQueue } from "./pages/workflow/ReviewQueue";
 import { ReviewQueueDetail } from "./pages/workflow/ReviewQueueDetail";
 import BulkUpload from "./pages/BulkUpload";
 import MapView from "./pages/MapView";
 import AgoSettings from "./pages/admin/AgoSettings";
+import PenaltyRules from "./pages/admin/PenaltyRules";
+import TaxRates from "./pages/admin/TaxRates";
+import ExemptionRules from "./pages/admin/ExemptionRules";
+import NoticeTemplates from "./pages/admin/NoticeTemplates";
+import WorkflowDefinitions from "./pages/admin/WorkflowDefinitions";
+import ReviewSla from "./pages/admin/ReviewSla";
 import Notifications from "./pages/Notifications";
+import VerifyReceipt from "./pages/verify/VerifyReceipt";
+import VerifyClearance from "./pages/verify/VerifyClearance";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -45,6 +60,8 @@ const App = () => (
           <Routes>
             <Route path="/login" element={<Login />} />
             <Route path="/forgot-password" element={<ForgotPassword />} />
+            <Route path="/verify/receipts/:code" element={<VerifyReceipt />} />
+            <Route path="/verify/clearances/:code" element={<VerifyClearance />} />
             
             <Route
               path="/"
@@ -148,6 +165,30 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="tax/roll"
+                element={
+                  <ProtectedRoute allowedRoles={['ADMINISTRATOR']}>
+                    <TaxRoll />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="tax/notices"
+                element={
+                  <ProtectedRoute allowedRoles={['ADMINISTRATOR']}>
+                    <TaxNotices />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="tax/arrears"
+                element={
+                  <ProtectedRoute allowedRoles={['INPUTTER', 'APPROVER', 'VIEWER', 'ADMINISTRATOR']}>
+                    <ArrearsReport />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="tax/:id"
                 element={
@@ -164,6 +205,38 @@ const App = () => (
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="cashier"
+                element={
+                  <ProtectedRoute allowedRoles={['INPUTTER', 'APPROVER', 'ADMINISTRATOR']}>
+                    <CashierSessions />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="cashier/:id"
+                element={
+                  <ProtectedRoute allowedRoles={['INPUTTER', 'APPROVER', 'ADMINISTRATOR']}>
+                    <CashierSessionDetail />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="bank-reconciliation"
+                element={
+                  <ProtectedRoute allowedRoles={['INPUTTER', 'APPROVER', 'ADMINISTRATOR']}>
+                    <BankReconciliation />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="bank-reconciliation/:id"
+                element={
+                  <ProtectedRoute allowedRoles={['INPUTTER', 'APPROVER', 'ADMINISTRATOR']}>
+                    <BankImportDetail />
+                  </ProtectedRoute>
+                }
+              />
               
               {/* Workflow Routes */}
               <Route
@@ -202,6 +275,12 @@ const App = () => (
               <Route path="admin/users/new" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><UserForm /></ProtectedRoute>} />
               <Route path="admin/users/edit" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><UserForm /></ProtectedRoute>} />
               <Route path="admin/lookups" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><LookupManagement /></ProtectedRoute>} />
+              <Route path="admin/tax-rates" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><TaxRates /></ProtectedRoute>} />
+              <Route path="admin/exemption-rules" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><ExemptionRules /></ProtectedRoute>} />
+              <Route path="admin/penalty-rules" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><PenaltyRules /></ProtectedRoute>} />
+              <Route path="admin/notice-templates" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><NoticeTemplates /></ProtectedRoute>} />
+              <Route path="admin/workflows" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><WorkflowDefinitions /></ProtectedRoute>} />
+              <Route path="admin/review-sla" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><ReviewSla /></ProtectedRoute>} />
               <Route path="admin/ago-settings" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><AgoSettings /></ProtectedRoute>} />
               <Route path="admin/audit-logs" element={<ProtectedRoute allowedRoles={['ADMINISTRATOR']}><AuditLogs /></ProtectedRoute>} />
             </Route>
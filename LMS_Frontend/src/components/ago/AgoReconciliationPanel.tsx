@@ -0,0 +1,300 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Link2Off, RefreshCw, Upload } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { exportToExcel } from '@/lib/export-utils';
+import {
+  adminService,
+  AGOReconciliationCategory,
+  AGOReconciliationItem,
+  AGOReconciliationRun,
+} from '@/services/adminService';
+
+const CATEGORY_LABELS: Record<AGOReconciliationCategory, string> = {
+  MISSING_IN_AGO: 'Missing in AGO',
+  MISSING_IN_LMS: 'Missing in LMS',
+  MISMATCH: 'Mismatch',
+  ORPHANED: 'Orphaned',
+};
+
+const POLL_INTERVAL_MS = 3000;
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '-' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export function AgoReconciliationPanel() {
+  const [run, setRun] = useState<AGOReconciliationRun | null>(null);
+  const [items, setItems] = useState<AGOReconciliationItem[]>([]);
+  const [category, setCategory] = useState('all');
+  const [starting, setStarting] = useState(false);
+  const [actionId, setActionId] = useState<string | null>(null);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    loadLatestRun();
+    return () => {
+      if (pollRef.current) clearTimeout(pollRef.current);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (run?.status === 'COMPLETED') {
+      loadItems(run.id);
+    }
+  }, [run?.id, run?.status, category]);
+
+  const loadLatestRun = async () => {
+    try {
+      const data = await adminService.getLatestAGOReconciliation();
+      setRun(data);
+
+      if (data?.status === 'RUNNING') {
+        pollRef.current = setTimeout(loadLatestRun, POLL_INTERVAL_MS);
+      }
+    } catch (error: any) {
+      console.error('Error loading reconciliation:', error);
+      toast.error('Failed to load reconciliation report');
+    }
+  };
+
+  const loadItems = async (runId: string) => {
+    try {
+      const data = await adminService.getAGOReconciliationItems(runId, {
+        category: category === 'all' ? undefined : category,
+        limit: 200,
+      });
+      setItems(data || []);
+    } catch (error: any) {
+      console.error('Error loading reconciliation items:', error);
+      toast.error('Failed to load reconciliation items');
+    }
+  };
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      await adminService.startAGOReconciliation();
+      toast.success('Reconciliation started');
+      setItems([]);
+      loadLatestRun();
+    } catch (error: any) {
+      console.error('Error starting reconciliation:', error);
+      toast.error(error.message || 'Failed to start reconciliation');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!run) return;
+
+    try {
+      const allItems = await adminService.exportAGOReconciliationItems(run.id);
+      const exportData = (allItems || []).map((item) => ({
+        Category: CATEGORY_LABELS[item.category],
+        'Reference ID': item.reference_id || '',
+        'Parcel Number': item.parcel_number || '',
+        GlobalID: item.global_id || '',
+        Details: item.details || '',
+        Differences: (item.differences || [])
+          .map((diff) => `${diff.attribute}: LMS=${formatValue(diff.lms_value)} AGO=${formatValue(diff.ago_value)}`)
+          .join('; '),
+        Resolution: item.resolution || '',
+      }));
+
+      const success = exportToExcel({
+        data: exportData,
+        filename: 'ago_reconciliation',
+        sheetName: 'Reconciliation',
+        metadata: {
+          exportDate: new Date().toLocaleString(),
+          exportedBy: run.started_by_user?.full_name,
+          filters: `Run started ${new Date(run.started_at).toLocaleString()}`,
+          totalRecords: exportData.length,
+        },
+      });
+
+      if (!success) throw new Error('Export failed');
+    } catch (error: any) {
+      console.error('Export error:', error);
+      toast.error(error.message || 'Failed to download report');
+    }
+  };
+
+  const handleAction = async (item: AGOReconciliationItem, action: 'repush' | 'unlink') => {
+    setActionId(item.id);
+    try {
+      const updated =
+        action === 'repush'
+          ? await adminService.repushAGOReconciliationItem(item.id)
+          : await adminService.unlinkAGOReconciliationItem(item.id);
+      setItems((current) => current.map((row) => (row.id === item.id ? { ...row, ...updated } : row)));
+      toast.success(action === 'repush' ? 'Property re-pushed to AGO' : 'Property unlinked');
+    } catch (error: any) {
+      console.error('Reconciliation action error:', error);
+      toast.error(error.message || 'Action failed');
+    } finally {
+      setActionId(null);
+    }
+  };
+
+  const summary = run?.summary;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Reconciliation</CardTitle>
+            <CardDescription>
+              Compare the AGO feature layer with LMS properties by GlobalID and parcel number
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleDownload} disabled={run?.status !== 'COMPLETED'}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Report
+            </Button>
+            <Button onClick={handleStart} disabled={starting || run?.status === 'RUNNING'}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${run?.status === 'RUNNING' ? 'animate-spin' : ''}`} />
+              {run?.status === 'RUNNING' ? 'Running...' : 'Run Reconciliation'}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!run && <p className="text-sm text-muted-foreground">No reconciliation has been run yet.</p>}
+
+        {run && (
+          <p className="text-sm text-muted-foreground">
+            Last run {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+            {run.started_by_user && ` by ${run.started_by_user.full_name}`}
+            {run.status === 'FAILED' && (
+              <span className="text-red-600"> failed: {run.error_message}</span>
+            )}
+          </p>
+        )}
+
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">Properties</p>
+              <p className="text-xl font-bold">{summary.properties_checked}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Features</p>
+              <p className="text-xl font-bold">{summary.features_checked}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Missing in AGO</p>
+              <p className="text-xl font-bold text-red-600">{summary.missing_in_ago}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Missing in LMS</p>
+              <p className="text-xl font-bold text-red-600">{summary.missing_in_lms}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Mismatches</p>
+              <p className="text-xl font-bold text-orange-600">{summary.mismatch}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Orphaned</p>
+              <p className="text-xl font-bold text-orange-600">{summary.orphaned}</p>
+            </div>
+          </div>
+        )}
+
+        {run?.status === 'COMPLETED' && (
+          <>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Category" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Categories</SelectItem>
+                {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {items.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No differences found</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Property</TableHead>
+                    <TableHead>GlobalID</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <Badge variant={item.category === 'MISMATCH' ? 'secondary' : 'destructive'}>
+                          {CATEGORY_LABELS[item.category]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{item.reference_id || '-'}</div>
+                        <div className="text-xs text-muted-foreground">{item.parcel_number}</div>
+                      </TableCell>
+                      <TableCell className="text-xs font-mono">{item.global_id || '-'}</TableCell>
+                      <TableCell className="text-sm">
+                        <div>{item.details}</div>
+                        {item.differences?.map((diff) => (
+                          <div key={diff.attribute} className="text-xs text-muted-foreground">
+                            {diff.attribute}: {formatValue(diff.lms_value)} (LMS) / {formatValue(diff.ago_value)} (AGO)
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        {item.resolution ? (
+                          <Badge variant="outline">{item.resolution}</Badge>
+                        ) : (
+                          <div className="flex gap-2">
+                            {item.property_id && ['MISSING_IN_AGO', 'MISMATCH'].includes(item.category) && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={actionId === item.id}
+                                onClick={() => handleAction(item, 'repush')}
+                              >
+                                <Upload className="h-3 w-3 mr-1" />
+                                Re-push
+                              </Button>
+                            )}
+                            {item.property_id && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={actionId === item.id}
+                                onClick={() => handleAction(item, 'unlink')}
+                              >
+                                <Link2Off className="h-3 w-3 mr-1" />
+                                Unlink
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { FileSpreadsheet, FileText, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { downloadBlob, exportToExcel } from '@/lib/export-utils';
+import { customerService } from '@/services/customerService';
+import type { CustomerStatement, StatementLineType } from '@/types/customer';
+
+interface CustomerStatementTabProps {
+  customerId: string;
+}
+
+const LINE_LABELS: Record<StatementLineType, string> = {
+  ASSESSMENT: 'Assessment',
+  PENALTY: 'Penalty & Interest',
+  PAYMENT: 'Payment',
+  REVERSAL: 'Reversal',
+  REFUND: 'Refund',
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const formatDay = (date: string) => format(new Date(date), 'MMM dd, yyyy');
+
+export const CustomerStatementTab = ({ customerId }: CustomerStatementTabProps) => {
+  const { profile } = useAuth();
+  const [from, setFrom] = useState(`${new Date().getFullYear()}-01-01`);
+  const [to, setTo] = useState(new Date().toISOString().slice(0, 10));
+  // The period last asked for with Show; editing the dates alone does not reload
+  const [shownPeriod, setShownPeriod] = useState({ from, to });
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+
+  const loadStatement = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await customerService.getStatement(customerId, shownPeriod);
+      setStatement(data);
+    } catch (error: any) {
+      console.error('Error loading statement:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to load statement',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId, shownPeriod]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const handleShow = () => {
+    if (!from || !to || from > to) {
+      toast({ title: 'Error', description: 'Choose a valid period', variant: 'destructive' });
+      return;
+    }
+    setShownPeriod({ from, to });
+  };
+
+  const handleDownloadPdf = async () => {
+    if (!statement) return;
+
+    setDownloading(true);
+    try {
+      const { period } = statement;
+      const blob = await customerService.downloadStatementPdf(customerId, period);
+      downloadBlob(blob, `statement_${statement.customer.reference_id}_${period.from}_${period.to}.pdf`);
+    } catch (error: any) {
+      console.error('Error downloading statement:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download statement',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleExportExcel = () => {
+    if (!statement) return;
+
+    const { period } = statement;
+    const blankRow = { Assessment: '', Parcel: '', Document: '' };
+    const exportData = [
+      {
+        Date: period.from,
+        Type: '',
+        Description: 'Opening balance',
+        ...blankRow,
+        Charge: '',
+        Credit: '',
+        Balance: statement.opening_balance,
+      },
+      ...statement.lines.map((line) => ({
+        Date: line.date,
+        Type: LINE_LABELS[line.type],
+        Description: line.description,
+        Assessment: line.assessment_reference_id,
+        Parcel: line.parcel_number,
+        Document: line.document_number || '',
+        Charge: line.charge || '',
+        Credit: line.credit || '',
+        Balance: line.balance,
+      })),
+      {
+        Date: period.to,
+        Type: '',
+        Description: 'Closing balance',
+        ...blankRow,
+        Charge: statement.total_charges,
+        Credit: statement.total_credits,
+        Balance: statement.closing_balance,
+      },
+    ];
+
+    const success = exportToExcel({
+      data: exportData,
+      filename: `statement_${statement.customer.reference_id}`,
+      sheetName: 'Statement',
+      includeMetadata: true,
+      metadata: {
+        exportedBy: profile?.fullName || 'Unknown',
+        filters: `${statement.customer.name} (${statement.customer.reference_id}), ${period.from} to ${period.to}`,
+        totalRecords: statement.lines.length,
+      },
+    });
+
+    if (success) {
+      toast({ title: 'Success', description: 'Statement exported to Excel' });
+    } else {
+      toast({ title: 'Error', description: 'Failed to export statement', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Statement of Account</CardTitle>
+          <CardDescription>
+            Assessments, penalties and payments across all properties the customer currently owns
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="statement_from">From</Label>
+              <Input id="statement_from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="statement_to">To</Label>
+              <Input id="statement_to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={handleShow} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Show
+            </Button>
+            <div className="flex gap-2 ml-auto">
+              <Button variant="outline" onClick={handleExportExcel} disabled={!statement || loading}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Export Excel
+              </Button>
+              <Button onClick={handleDownloadPdf} disabled={!statement || loading || downloading}>
+                <FileText className="h-4 w-4 mr-2" />
+                {downloading ? 'Downloading...' : 'Download PDF'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading && !statement ? (
+        <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+      ) : statement && (
+        <>
+          <div className="grid gap-4 md:grid-cols-5">
+            {[
+              { label: 'Opening Balance', value: statement.opening_balance },
+              { label: 'Charges', value: statement.total_charges },
+              { label: 'Payments & Credits', value: statement.total_credits },
+              { label: 'Closing Balance', value: statement.closing_balance },
+              { label: 'Outstanding Today', value: statement.total_outstanding },
+            ].map((item) => (
+              <Card key={item.label}>
+                <CardContent className="pt-6">
+                  <p className="text-sm text-muted-foreground">{item.label}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(item.value)}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Transactions</CardTitle>
+              <CardDescription>
+                {formatDay(statement.period.from)} to {formatDay(statement.period.to)} across{' '}
+                {statement.properties.length} {statement.properties.length === 1 ? 'property' : 'properties'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Assessment</TableHead>
+                    <TableHead>Document</TableHead>
+                    <TableHead className="text-right">Charge</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="whitespace-nowrap">{formatDay(statement.period.from)}</TableCell>
+                    <TableCell colSpan={5} className="font-medium">Opening balance</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(statement.opening_balance)}</TableCell>
+                  </TableRow>
+                  {statement.lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="whitespace-nowrap">{formatDay(line.date)}</TableCell>
+                      <TableCell>
+                        <div>{line.description}</div>
+                        <div className="text-xs text-muted-foreground">Parcel {line.parcel_number}</div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{line.assessment_reference_id}</TableCell>
+                      <TableCell className="font-mono text-xs">{line.document_number || '-'}</TableCell>
+                      <TableCell className="text-right">{line.charge ? formatCurrency(line.charge) : ''}</TableCell>
+                      <TableCell className="text-right">{line.credit ? formatCurrency(line.credit) : ''}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(line.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="whitespace-nowrap">{formatDay(statement.period.to)}</TableCell>
+                    <TableCell colSpan={3} className="font-medium">Closing balance</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(statement.total_charges)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(statement.total_credits)}</TableCell>
+                    <TableCell className="text-right font-bold">{formatCurrency(statement.closing_balance)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Assessments</CardTitle>
+              <CardDescription>Current position of the assessments on the statement</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {statement.assessments.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-6">No assessments up to the end of the period</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Assessment</TableHead>
+                      <TableHead>Year</TableHead>
+                      <TableHead>Parcel</TableHead>
+                      <TableHead>Due Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Assessed</TableHead>
+                      <TableHead className="text-right">Penalties</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead className="text-right">Outstanding</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statement.assessments.map((assessment) => (
+                      <TableRow key={assessment.id}>
+                        <TableCell>
+                          <Link to={`/tax/${assessment.id}`} className="font-mono text-xs text-primary hover:underline">
+                            {assessment.reference_id}
+                          </Link>
+                        </TableCell>
+                        <TableCell>{assessment.tax_year}</TableCell>
+                        <TableCell>{assessment.parcel_number}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDay(assessment.due_date)}</TableCell>
+                        <TableCell>
+                          <Badge variant={assessment.status === 'OVERDUE' ? 'destructive' : 'outline'}>
+                            {assessment.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(assessment.assessed_amount)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(assessment.penalties)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(assessment.paid_amount)}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(assessment.outstanding_amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
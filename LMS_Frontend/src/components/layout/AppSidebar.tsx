@@ -26,6 +26,14 @@ import {
   Cloud,
   Bell,
   History,
+  Percent,
+  Calculator,
+  BadgeCheck,
+  Mail,
+  Wallet,
+  Landmark,
+  ListChecks,
+  Timer,
 } from 'lucide-react';
 
 const menuItems = [
@@ -53,6 +61,18 @@ const menuItems = [
     icon: Receipt,
     roles: ['INPUTTER', 'APPROVER', 'VIEWER', 'ADMINISTRATOR'],
   },
+  {
+    title: 'Cashier',
+    url: '/cashier',
+    icon: Wallet,
+    roles: ['INPUTTER', 'APPROVER', 'ADMINISTRATOR'],
+  },
+  {
+    title: 'Bank Reconciliation',
+    url: '/bank-reconciliation',
+    icon: Landmark,
+    roles: ['INPUTTER', 'APPROVER', 'ADMINISTRATOR'],
+  },
   {
     title: 'Review Queue',
     url: '/review-queue',
@@ -90,6 +110,36 @@ const adminItems = [
     url: '/admin/lookups',
     icon: Settings,
   },
+  {
+    title: 'Tax Rates',
+    url: '/admin/tax-rates',
+    icon: Calculator,
+  },
+  {
+    title: 'Exemption Rules',
+    url: '/admin/exemption-rules',
+    icon: BadgeCheck,
+  },
+  {
+    title: 'Penalty Rules',
+    url: '/admin/penalty-rules',
+    icon: Percent,
+  },
+  {
+    title: 'Notice Templates',
+    url: '/admin/notice-templates',
+    icon: Mail,
+  },
+  {
+    title: 'Approval Workflows',
+    url: '/admin/workflows',
+    icon: ListChecks,
+  },
+  {
+    title: 'Review SLAs',
+    url: '/admin/review-sla',
+    icon: Timer,
+  },
   {
     title: 'AGO Settings',
     url: '/admin/ago-settings',
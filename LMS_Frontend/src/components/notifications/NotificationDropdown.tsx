@@ -48,6 +48,10 @@ export function NotificationDropdown({ onNotificationRead, onClose }: Notificati
         navigate(`/customers/${notification.entity_id}`);
       } else if (notification.entity_type === 'PROPERTY' || notification.entity_type === 'property') {
         navigate(`/properties/${notification.entity_id}`);
+      } else if (notification.entity_type === 'TAX_ASSESSMENT') {
+        navigate(`/tax/${notification.entity_id}`);
+      } else if (notification.entity_type === 'CASHIER_SESSION') {
+        navigate(`/cashier/${notification.entity_id}`);
       }
 
       onClose();
@@ -0,0 +1,187 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { taxService } from '@/services/taxService';
+import { PaymentMethod, PropertyDebt } from '@/types/tax';
+
+interface AllocatedPaymentDialogProps {
+  debt: PropertyDebt;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRecorded: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+export const AllocatedPaymentDialog = ({ debt, open, onOpenChange, onRecorded }: AllocatedPaymentDialogProps) => {
+  const [amount, setAmount] = useState('');
+  const [paymentDate, setPaymentDate] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('CASH');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAmount(String(debt.total_outstanding));
+    setPaymentDate(new Date().toISOString().slice(0, 10));
+    setPaymentMethod('CASH');
+    setNotes('');
+  }, [open, debt.total_outstanding]);
+
+  const value = parseFloat(amount) || 0;
+
+  // Same split as the server makes: oldest year first, each paid in full before the next
+  let remaining = roundAmount(value);
+  const allocation = debt.open_assessments.map((assessment) => {
+    const share = roundAmount(Math.max(0, Math.min(remaining, assessment.outstanding_amount)));
+    remaining = roundAmount(remaining - share);
+    return { assessment, share };
+  });
+
+  const handleSubmit = async () => {
+    if (value <= 0 || value > debt.total_outstanding) {
+      toast({
+        title: 'Error',
+        description: `Amount must be more than zero and no more than ${formatCurrency(debt.total_outstanding)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await taxService.createAllocatedPayment(debt.property_id, {
+        payment_date: paymentDate,
+        amount_paid: value,
+        payment_method: paymentMethod,
+        notes: notes.trim() || undefined,
+      });
+      const receipts = result.payments.map((payment) => payment.receipt_number).join(', ');
+      if (result.unrecorded.length > 0) {
+        // Some entries were recorded; only the rest must be taken again
+        toast({
+          title: 'Payment partly recorded',
+          description: `Receipts ${receipts} cover ${formatCurrency(result.total_paid)}. Not recorded: ${result.unrecorded
+            .map((item) => `${formatCurrency(item.amount)} for ${item.reference_id} (${item.error})`)
+            .join('; ')}. Take only ${formatCurrency(result.unrecorded_amount)} again.`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({ title: 'Payment recorded', description: `Receipts ${receipts}` });
+      }
+      onRecorded();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error recording allocated payment:', error);
+      toast({ title: 'Error', description: error.message || 'Failed to record the payment', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Pay Oldest Years First</DialogTitle>
+          <DialogDescription>
+            The property owes {formatCurrency(debt.total_outstanding)} across {debt.open_assessments.length} assessments.
+            The payment settles the oldest year first; each assessment gets its own receipt.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="allocated_amount">Amount *</Label>
+              <Input
+                id="allocated_amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="allocated_date">Payment Date *</Label>
+              <Input
+                id="allocated_date"
+                type="date"
+                max={new Date().toISOString().slice(0, 10)}
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Payment Method *</Label>
+              <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="CASH">Cash</SelectItem>
+                  <SelectItem value="BANK_TRANSFER">Bank Transfer</SelectItem>
+                  <SelectItem value="CHECK">Check</SelectItem>
+                  <SelectItem value="MOBILE_MONEY">Mobile Money</SelectItem>
+                  <SelectItem value="CREDIT_CARD">Credit Card</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead>Assessment</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="text-right">Applied</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {allocation.map(({ assessment, share }) => (
+                <TableRow key={assessment.id}>
+                  <TableCell>{assessment.tax_year}</TableCell>
+                  <TableCell className="font-mono text-xs">{assessment.reference_id}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(assessment.outstanding_amount)}</TableCell>
+                  <TableCell className={`text-right ${share > 0 ? 'font-medium' : 'text-muted-foreground'}`}>
+                    {formatCurrency(share)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="space-y-2">
+            <Label htmlFor="allocated_notes">Notes</Label>
+            <Textarea id="allocated_notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving}>
+            {saving ? 'Recording...' : 'Record Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
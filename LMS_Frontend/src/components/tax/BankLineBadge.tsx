@@ -0,0 +1,14 @@
+import { Badge } from '@/components/ui/badge';
+import { BANK_LINE_LABELS, BankLineStatus } from '@/types/tax';
+
+const VARIANTS: Record<BankLineStatus, 'default' | 'outline' | 'warning' | 'success' | 'destructive'> = {
+  MATCHED: 'default',
+  AMBIGUOUS: 'warning',
+  UNMATCHED: 'destructive',
+  POSTED: 'success',
+  IGNORED: 'outline',
+};
+
+export const BankLineBadge = ({ status }: { status: BankLineStatus }) => (
+  <Badge variant={VARIANTS[status]}>{BANK_LINE_LABELS[status]}</Badge>
+);
@@ -0,0 +1,75 @@
+import { Badge } from '@/components/ui/badge';
+import { TaxCalculationBreakdown } from '@/types/tax';
+
+const MATCH_LABELS: Record<string, string> = {
+  property_type_id: 'Property type',
+  district_id: 'District',
+  is_downtown: 'Downtown',
+  occupancy_type: 'Occupancy',
+  construction_status: 'Construction',
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const formatMatch = (field: string, value: string | boolean) => {
+  if (typeof value === 'boolean') return `${MATCH_LABELS[field]}: ${value ? 'Yes' : 'No'}`;
+  if (field === 'property_type_id' || field === 'district_id') return MATCH_LABELS[field];
+  return `${MATCH_LABELS[field] || field}: ${value.replace(/_/g, ' ')}`;
+};
+
+interface CalculationBreakdownProps {
+  breakdown: TaxCalculationBreakdown;
+}
+
+export function CalculationBreakdown({ breakdown }: CalculationBreakdownProps) {
+  const matched = Object.entries(breakdown.matched_on || {});
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-muted-foreground">Rate rule:</span>
+        <span className="font-medium">{breakdown.rule_name}</span>
+        {matched.length === 0 ? (
+          <Badge variant="outline">General rate</Badge>
+        ) : (
+          matched.map(([field, value]) => (
+            <Badge key={field} variant="outline">
+              {formatMatch(field, value)}
+            </Badge>
+          ))
+        )}
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">
+          Land: {breakdown.land.area} m² × {formatCurrency(breakdown.land.rate)}
+        </span>
+        <span>{formatCurrency(breakdown.land.amount)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">
+          Built-up area: {breakdown.building.area} m² × {formatCurrency(breakdown.building.rate)}
+        </span>
+        <span>{formatCurrency(breakdown.building.amount)}</span>
+      </div>
+      {breakdown.floors.adjustment !== 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">
+            Floors: {breakdown.floors.count} × {breakdown.floors.modifier_percent}% per floor above the first
+          </span>
+          <span>{formatCurrency(breakdown.floors.adjustment)}</span>
+        </div>
+      )}
+      {breakdown.minimum_amount !== null && breakdown.subtotal < breakdown.minimum_amount && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Minimum amount applied</span>
+          <span>{formatCurrency(breakdown.minimum_amount)}</span>
+        </div>
+      )}
+      <div className="flex justify-between pt-2 border-t font-medium">
+        <span>Base Assessment</span>
+        <span>{formatCurrency(breakdown.base_assessment)}</span>
+      </div>
+    </div>
+  );
+}
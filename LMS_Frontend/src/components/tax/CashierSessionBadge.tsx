@@ -0,0 +1,13 @@
+import { Badge } from '@/components/ui/badge';
+import { CASHIER_SESSION_LABELS, CashierSessionStatus } from '@/types/tax';
+
+const VARIANTS: Record<CashierSessionStatus, 'default' | 'warning' | 'success' | 'destructive'> = {
+  OPEN: 'default',
+  CLOSED: 'warning',
+  APPROVED: 'success',
+  RETURNED: 'destructive',
+};
+
+export const CashierSessionBadge = ({ status }: { status: CashierSessionStatus }) => (
+  <Badge variant={VARIANTS[status]}>{CASHIER_SESSION_LABELS[status]}</Badge>
+);
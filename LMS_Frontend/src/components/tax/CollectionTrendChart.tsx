@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { TrendingUp } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { dashboardService } from '@/services/dashboardService';
+import { CollectionTrend } from '@/types/tax';
+
+const MONTHS = 12;
+
+const chartConfig = {
+  net: { label: 'Collected (net)', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const monthLabel = (month: string) => format(new Date(`${month}-01T00:00:00`), 'MMM yy');
+
+export function CollectionTrendChart() {
+  const [trends, setTrends] = useState<CollectionTrend[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    dashboardService
+      .getCollectionTrends(MONTHS)
+      .then((data) => setTrends(data || []))
+      .catch((error) => console.error('Error fetching collection trends:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const total = trends.reduce((sum, trend) => sum + trend.net, 0);
+  const current = trends[trends.length - 1];
+  const previous = trends[trends.length - 2];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Monthly Collections
+        </CardTitle>
+        <CardDescription>
+          Payments received over the last {MONTHS} months, net of reversals and refunds:{' '}
+          <span className="font-medium text-foreground">{formatCurrency(total)}</span>
+          {current && previous && (
+            <>
+              {' '}
+              ({formatCurrency(current.net)} this month, {formatCurrency(previous.net)} last month)
+            </>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="h-[260px] w-full">
+            <BarChart data={trends} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={monthLabel} />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={(value: number) => formatCurrency(value)}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => {
+                      const trend = payload?.[0]?.payload as CollectionTrend | undefined;
+                      return trend ? `${monthLabel(trend.month)} - ${trend.payments} payments` : '';
+                    }}
+                    formatter={(value) => formatCurrency(Number(value))}
+                  />
+                }
+              />
+              <Bar dataKey="net" fill="var(--color-net)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,352 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarClock, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { taxService } from '@/services/taxService';
+import {
+  InstallmentPlan,
+  InstallmentPlanStatus,
+  InstallmentStatus,
+  ScheduledInstallment,
+  TaxAssessment,
+} from '@/types/tax';
+
+interface InstallmentPlanCardProps {
+  assessment: TaxAssessment;
+  plans: InstallmentPlan[];
+  canCreate: boolean;
+  canCancel: boolean;
+  onChanged: () => void;
+}
+
+const PLAN_BADGES: Record<InstallmentPlanStatus, { variant: any; label: string }> = {
+  ACTIVE: { variant: 'success', label: 'Current' },
+  DEFAULTED: { variant: 'destructive', label: 'Defaulted' },
+  COMPLETED: { variant: 'default', label: 'Completed' },
+  CANCELLED: { variant: 'secondary', label: 'Cancelled' },
+};
+
+const INSTALLMENT_BADGES: Record<InstallmentStatus, { variant: any; label: string }> = {
+  PENDING: { variant: 'outline', label: 'Pending' },
+  PARTIAL: { variant: 'warning', label: 'Partial' },
+  PAID: { variant: 'success', label: 'Paid' },
+  MISSED: { variant: 'destructive', label: 'Missed' },
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+// Same split as the backend: equal installments, rounding difference on the last one
+const previewSchedule = (total: number, count: number, firstDueDate: string, intervalMonths: number) => {
+  if (!firstDueDate || count < 2 || intervalMonths < 1) return [];
+
+  const amount = Math.floor((total * 100) / count) / 100;
+  const [year, month, day] = firstDueDate.split('-').map(Number);
+
+  return Array.from({ length: count }, (_, index): ScheduledInstallment => {
+    const target = new Date(Date.UTC(year, month - 1 + index * intervalMonths, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+
+    return {
+      due_date: target.toISOString().slice(0, 10),
+      amount: index === count - 1 ? Math.round((total - amount * (count - 1)) * 100) / 100 : amount,
+    };
+  });
+};
+
+export const InstallmentPlanCard = ({ assessment, plans, canCreate, canCancel, onChanged }: InstallmentPlanCardProps) => {
+  const [creating, setCreating] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [count, setCount] = useState('3');
+  const [firstDueDate, setFirstDueDate] = useState('');
+  const [intervalMonths, setIntervalMonths] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const openPlan = plans.find((plan) => plan.status === 'ACTIVE' || plan.status === 'DEFAULTED');
+  const plan = openPlan || plans[0];
+  const canPlan =
+    canCreate &&
+    !openPlan &&
+    assessment.outstanding_amount > 0 &&
+    ['ASSESSED', 'PARTIAL', 'OVERDUE'].includes(assessment.status);
+
+  if (!plan && !canPlan) return null;
+
+  const schedule = previewSchedule(
+    assessment.outstanding_amount,
+    parseInt(count) || 0,
+    firstDueDate,
+    parseInt(intervalMonths) || 0
+  );
+
+  const openCreate = () => {
+    setCount('3');
+    setFirstDueDate('');
+    setIntervalMonths('1');
+    setNotes('');
+    setCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (schedule.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Enter at least 2 installments and the first due date',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await taxService.createInstallmentPlan(assessment.id, {
+        installment_count: parseInt(count),
+        first_due_date: firstDueDate,
+        interval_months: parseInt(intervalMonths),
+        notes: notes.trim() || null,
+      });
+      toast({ title: 'Success', description: 'Payment plan created' });
+      setCreating(false);
+      onChanged();
+    } catch (error: any) {
+      console.error('Error creating payment plan:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to create payment plan',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!openPlan) return;
+
+    if (reason.trim().length < 3) {
+      toast({ title: 'Error', description: 'Please give a reason for cancelling', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await taxService.cancelInstallmentPlan(openPlan.id, reason.trim());
+      toast({ title: 'Success', description: 'Payment plan cancelled' });
+      setCancelling(false);
+      onChanged();
+    } catch (error: any) {
+      console.error('Error cancelling payment plan:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to cancel payment plan',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Payment Plan
+              {plan && <Badge variant={PLAN_BADGES[plan.status].variant}>{PLAN_BADGES[plan.status].label}</Badge>}
+            </CardTitle>
+            {plan && (
+              <CardDescription>
+                {formatCurrency(plan.total_amount)} in {plan.installments.length} installments, set up{' '}
+                {format(new Date(plan.created_at), 'MMM dd, yyyy')}
+                {plan.creator && ` by ${plan.creator.full_name}`}
+                {plan.status === 'CANCELLED' && plan.cancel_reason && ` - cancelled: ${plan.cancel_reason}`}
+              </CardDescription>
+            )}
+          </div>
+          <div className="flex gap-2">
+            {canPlan && (
+              <Button size="sm" onClick={openCreate}>
+                <CalendarClock className="h-4 w-4 mr-1" />
+                Set Up Payment Plan
+              </Button>
+            )}
+            {canCancel && openPlan && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setReason('');
+                  setCancelling(true);
+                }}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Cancel Plan
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+
+      {plan && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>Due Date</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plan.installments.map((installment) => (
+                <TableRow key={installment.id}>
+                  <TableCell>{installment.installment_number}</TableCell>
+                  <TableCell>{format(new Date(installment.due_date), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell>{formatCurrency(installment.amount)}</TableCell>
+                  <TableCell>{formatCurrency(installment.paid_amount)}</TableCell>
+                  <TableCell>
+                    <Badge variant={INSTALLMENT_BADGES[installment.status].variant}>
+                      {INSTALLMENT_BADGES[installment.status].label}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {plan.status === 'DEFAULTED' && (
+            <p className="text-sm text-destructive mt-4">
+              An installment was missed, so penalties and interest apply from the original due date again.
+            </p>
+          )}
+        </CardContent>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set Up Payment Plan</DialogTitle>
+            <DialogDescription>
+              Spread the outstanding {formatCurrency(assessment.outstanding_amount)} over installments. While the plan is
+              current the assessment is not marked overdue or charged penalties.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="installment_count">Installments *</Label>
+                <Input
+                  id="installment_count"
+                  type="number"
+                  min={2}
+                  max={60}
+                  value={count}
+                  onChange={(e) => setCount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="first_due_date">First Due Date *</Label>
+                <Input
+                  id="first_due_date"
+                  type="date"
+                  min={new Date().toISOString().slice(0, 10)}
+                  value={firstDueDate}
+                  onChange={(e) => setFirstDueDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="interval_months">Every (months)</Label>
+                <Input
+                  id="interval_months"
+                  type="number"
+                  min={1}
+                  max={12}
+                  value={intervalMonths}
+                  onChange={(e) => setIntervalMonths(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {schedule.length > 0 && (
+              <div className="bg-muted p-3 rounded-md text-sm max-h-48 overflow-y-auto space-y-1">
+                {schedule.map((installment, index) => (
+                  <div key={index} className="flex justify-between">
+                    <span>
+                      {index + 1}. {format(new Date(installment.due_date), 'MMM dd, yyyy')}
+                    </span>
+                    <span className="font-medium">{formatCurrency(installment.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="plan_notes">Notes</Label>
+              <Textarea id="plan_notes" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={1000} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreating(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? 'Saving...' : 'Create Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={cancelling} onOpenChange={setCancelling}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Payment Plan</DialogTitle>
+            <DialogDescription>
+              The assessment falls back to its original due date and may be marked overdue by the next penalty run.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel_reason">
+              Reason <span className="text-destructive">*</span>
+            </Label>
+            <Textarea
+              id="cancel_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelling(false)} disabled={saving}>
+              Back
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={saving}>
+              {saving ? 'Saving...' : 'Cancel Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
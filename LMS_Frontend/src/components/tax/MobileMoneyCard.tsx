@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Smartphone, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { mobileMoneyService } from '@/services/mobileMoneyService';
+import {
+  MOBILE_MONEY_LABELS,
+  MobileMoneyRequest,
+  MobileMoneyRequestStatus,
+  MobileMoneySettings,
+  TaxAssessment,
+} from '@/types/tax';
+
+interface MobileMoneyCardProps {
+  assessment: TaxAssessment;
+  canRequest: boolean;
+  onPaid: () => void;
+}
+
+const STATUS_VARIANTS: Record<MobileMoneyRequestStatus, any> = {
+  PENDING: 'warning',
+  PROCESSING: 'warning',
+  PAID: 'success',
+  FAILED: 'destructive',
+  NEEDS_REVIEW: 'destructive',
+};
+
+// How often requests waiting for the payer are refreshed
+const POLL_INTERVAL_MS = 5000;
+
+const OPEN_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+
+const formatCurrency = (amount: number, currency: string = 'USD') =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: 2 }).format(amount);
+
+export function MobileMoneyCard({ assessment, canRequest, onPaid }: MobileMoneyCardProps) {
+  const [settings, setSettings] = useState<MobileMoneySettings | null>(null);
+  const [requests, setRequests] = useState<MobileMoneyRequest[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [amount, setAmount] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [simulating, setSimulating] = useState<string | null>(null);
+  const paidIds = useRef<Set<string> | null>(null);
+
+  // The latest onPaid, so a new callback from the parent does not restart loading
+  const onPaidRef = useRef(onPaid);
+
+  useEffect(() => {
+    onPaidRef.current = onPaid;
+  }, [onPaid]);
+
+  const loadRequests = useCallback(async () => {
+    try {
+      const data = await mobileMoneyService.getRequests({ assessment_id: assessment.id });
+      const paid = new Set(data.filter((request) => request.status === 'PAID').map((request) => request.id));
+
+      // Refresh the assessment when a request was paid since the last load
+      if (paidIds.current && Array.from(paid).some((id) => !paidIds.current!.has(id))) {
+        toast({ title: 'Payment received', description: 'A mobile money payment has been posted' });
+        onPaidRef.current();
+      }
+      paidIds.current = paid;
+      setRequests(data || []);
+    } catch (error: any) {
+      console.error('Error loading mobile money requests:', error);
+    }
+  }, [assessment.id]);
+
+  useEffect(() => {
+    mobileMoneyService
+      .getSettings()
+      .then(setSettings)
+      .catch((error) => console.error('Mobile money is not available:', error));
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const waiting = requests.some((request) => request.status === 'PENDING' || request.status === 'PROCESSING');
+
+  useEffect(() => {
+    if (!waiting) return;
+    const timer = setInterval(loadRequests, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [waiting, loadRequests]);
+
+  const openDialog = () => {
+    setPhoneNumber('');
+    setAmount(String(assessment.outstanding_amount));
+    setDialogOpen(true);
+  };
+
+  const handleRequest = async () => {
+    const value = parseFloat(amount);
+    if (!phoneNumber.trim()) {
+      toast({ title: 'Error', description: "Enter the payer's phone number", variant: 'destructive' });
+      return;
+    }
+    if (isNaN(value) || value <= 0 || value > assessment.outstanding_amount) {
+      toast({
+        title: 'Error',
+        description: 'Amount must be more than zero and no more than the outstanding amount',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const request = await mobileMoneyService.requestPayment({
+        assessment_id: assessment.id,
+        phone_number: phoneNumber.trim(),
+        amount: value,
+      });
+      toast({
+        title: 'Request sent',
+        description: `${request.request_number} is waiting for the payer to approve it on ${request.phone_number}`,
+      });
+      setDialogOpen(false);
+      loadRequests();
+    } catch (error: any) {
+      console.error('Error sending mobile money request:', error);
+      toast({ title: 'Error', description: error.message || 'Failed to send the request', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSimulate = async (request: MobileMoneyRequest, outcome: 'SUCCEEDED' | 'FAILED') => {
+    setSimulating(request.id);
+    try {
+      await mobileMoneyService.simulate(request.id, outcome);
+      await loadRequests();
+    } catch (error: any) {
+      console.error('Error simulating mobile money answer:', error);
+      toast({ title: 'Error', description: error.message || 'Failed to simulate the answer', variant: 'destructive' });
+    } finally {
+      setSimulating(null);
+    }
+  };
+
+  const isPayable = canRequest && OPEN_STATUSES.includes(assessment.status) && assessment.outstanding_amount > 0;
+  const canSend = isPayable && !!settings?.enabled;
+  const notEnabled = isPayable && settings?.enabled === false;
+
+  if (!canSend && !notEnabled && requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Smartphone className="h-5 w-5" />
+              Mobile Money
+            </CardTitle>
+            <CardDescription>
+              {notEnabled
+                ? 'Mobile money is not enabled on this server'
+                : 'Ask the payer to approve the payment on their phone; it is posted as soon as the provider confirms it'}
+              {settings?.simulator && ' (simulator: answer for the payer below)'}
+            </CardDescription>
+          </div>
+          {canSend && (
+            <Button variant="outline" onClick={openDialog}>
+              <Smartphone className="h-4 w-4 mr-2" />
+              Request Payment
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      {requests.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Request</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>By</TableHead>
+                {settings?.simulator && <TableHead>Simulator</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-mono text-xs">{request.request_number}</TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(request.created_at), 'MMM dd, yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>{request.phone_number}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(request.amount, request.currency)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[request.status]}>{MOBILE_MONEY_LABELS[request.status]}</Badge>
+                    {request.payment && (
+                      <p className="text-xs text-muted-foreground mt-1">Receipt {request.payment.receipt_number}</p>
+                    )}
+                    {request.failure_reason && (
+                      <p className="text-xs text-muted-foreground mt-1 max-w-[240px]">{request.failure_reason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{request.requester?.full_name || '-'}</TableCell>
+                  {settings?.simulator && (
+                    <TableCell>
+                      {request.status === 'PENDING' && request.provider === settings.provider && (
+                        <div className="flex gap-1">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Payer approves"
+                            disabled={simulating === request.id}
+                            onClick={() => handleSimulate(request, 'SUCCEEDED')}
+                          >
+                            <CheckCircle className="h-3 w-3 text-green-600" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Payer declines"
+                            disabled={simulating === request.id}
+                            onClick={() => handleSimulate(request, 'FAILED')}
+                          >
+                            <XCircle className="h-3 w-3 text-destructive" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Mobile Money Payment</DialogTitle>
+            <DialogDescription>
+              {assessment.reference_id} has {formatCurrency(assessment.outstanding_amount)} outstanding. The payer
+              receives a prompt on their phone to approve the payment.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="mm_phone">Payer's Phone Number *</Label>
+              <Input
+                id="mm_phone"
+                type="tel"
+                placeholder="+251 912 345 678"
+                value={phoneNumber}
+                onChange={(e) => setPhoneNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mm_amount">Amount ({settings?.currency || 'USD'}) *</Label>
+              <Input
+                id="mm_amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleRequest} disabled={saving}>
+              {saving ? 'Sending...' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
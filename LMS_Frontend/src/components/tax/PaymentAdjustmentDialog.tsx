@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { taxService } from '@/services/taxService';
+import { PaymentAdjustmentType, TaxPayment } from '@/types/tax';
+
+interface PaymentAdjustmentDialogProps {
+  payment: TaxPayment | null;
+  adjustmentType: PaymentAdjustmentType;
+  remaining: number;
+  onOpenChange: (open: boolean) => void;
+  onSubmitted: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export const PaymentAdjustmentDialog = ({
+  payment,
+  adjustmentType,
+  remaining,
+  onOpenChange,
+  onSubmitted,
+}: PaymentAdjustmentDialogProps) => {
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isRefund = adjustmentType === 'REFUND';
+  const label = isRefund ? 'Refund' : 'Reversal';
+
+  useEffect(() => {
+    setAmount('');
+    setReason('');
+  }, [payment, adjustmentType]);
+
+  const handleSubmit = async () => {
+    if (!payment) return;
+
+    const refundAmount = parseFloat(amount);
+    if (isRefund && (!refundAmount || refundAmount <= 0 || refundAmount > remaining)) {
+      toast({
+        title: 'Error',
+        description: `Refund amount must be between 0 and ${formatCurrency(remaining)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (reason.trim().length < 3) {
+      toast({ title: 'Error', description: 'Please give a reason', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await taxService.requestPaymentAdjustment(payment.id, {
+        adjustment_type: adjustmentType,
+        amount: isRefund ? refundAmount : undefined,
+        reason: reason.trim(),
+      });
+      toast({ title: 'Success', description: `${label} submitted for approval` });
+      onSubmitted();
+      onOpenChange(false);
+    } catch (error: any) {
+      console.error('Error requesting payment adjustment:', error);
+      toast({
+        title: 'Error',
+        description: error.message || `Failed to request ${label.toLowerCase()}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!payment} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request {label}</DialogTitle>
+          <DialogDescription>
+            {isRefund
+              ? 'Refund part or all of this payment to the payer.'
+              : 'Reverse this payment, for example when it was recorded in error or bounced.'}{' '}
+            An approver has to sign off before it is recorded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {payment && (
+          <div className="space-y-4">
+            <div className="bg-muted p-3 rounded-md text-sm">
+              <p className="font-medium">Receipt {payment.receipt_number}</p>
+              <p className="text-muted-foreground">
+                {formatCurrency(payment.amount_paid)} paid, {formatCurrency(remaining)} not yet reversed or refunded
+              </p>
+            </div>
+
+            {isRefund && (
+              <div className="space-y-2">
+                <Label htmlFor="adjustment_amount">
+                  Refund Amount <span className="text-destructive">*</span>
+                </Label>
+                <Input
+                  id="adjustment_amount"
+                  type="number"
+                  min={0}
+                  max={remaining}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="adjustment_reason">
+                Reason <span className="text-destructive">*</span>
+              </Label>
+              <Textarea
+                id="adjustment_reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                maxLength={500}
+                rows={4}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={saving}>
+            {saving ? 'Submitting...' : `Request ${label}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Check, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { taxService } from '@/services/taxService';
+import { PaymentAdjustment } from '@/types/tax';
+
+interface PendingPaymentAdjustmentsProps {
+  adjustments: PaymentAdjustment[];
+  currentUserId?: string;
+  canReview: boolean;
+  onReviewed: () => void;
+}
+
+type ReviewAction = 'approve' | 'reject';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export const PendingPaymentAdjustments = ({
+  adjustments,
+  currentUserId,
+  canReview,
+  onReviewed,
+}: PendingPaymentAdjustmentsProps) => {
+  const [reviewing, setReviewing] = useState<{ adjustment: PaymentAdjustment; action: ReviewAction } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (adjustments.length === 0) return null;
+
+  const openReview = (adjustment: PaymentAdjustment, action: ReviewAction) => {
+    setNotes('');
+    setReviewing({ adjustment, action });
+  };
+
+  const handleReview = async () => {
+    if (!reviewing) return;
+
+    if (reviewing.action === 'reject' && notes.trim().length < 3) {
+      toast({ title: 'Error', description: 'Please give a reason for rejecting', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (reviewing.action === 'approve') {
+        await taxService.approvePaymentAdjustment(reviewing.adjustment.id, notes.trim() || undefined);
+        toast({ title: 'Success', description: 'Request approved and recorded' });
+      } else {
+        await taxService.rejectPaymentAdjustment(reviewing.adjustment.id, notes.trim());
+        toast({ title: 'Success', description: 'Request rejected' });
+      }
+      setReviewing(null);
+      onReviewed();
+    } catch (error: any) {
+      console.error('Error reviewing payment adjustment:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to review request',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-warning">
+      <CardHeader>
+        <CardTitle>Pending Reversals and Refunds</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Requested</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Receipt</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Requested By</TableHead>
+              {canReview && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {adjustments.map((adjustment) => (
+              <TableRow key={adjustment.id}>
+                <TableCell>{format(new Date(adjustment.requested_at), 'MMM dd, yyyy')}</TableCell>
+                <TableCell>
+                  <Badge variant="warning">{adjustment.adjustment_type === 'REFUND' ? 'Refund' : 'Reversal'}</Badge>
+                </TableCell>
+                <TableCell className="font-mono text-sm">{adjustment.payment?.receipt_number}</TableCell>
+                <TableCell className="font-medium text-destructive">-{formatCurrency(adjustment.amount)}</TableCell>
+                <TableCell className="max-w-xs">{adjustment.reason}</TableCell>
+                <TableCell>{adjustment.requester?.full_name || 'N/A'}</TableCell>
+                {canReview && (
+                  <TableCell className="text-right">
+                    {adjustment.requested_by === currentUserId ? (
+                      <span className="text-sm text-muted-foreground">Awaiting another approver</span>
+                    ) : (
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openReview(adjustment, 'reject')}>
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button size="sm" onClick={() => openReview(adjustment, 'approve')}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.action === 'approve' ? 'Approve' : 'Reject'}{' '}
+              {reviewing?.adjustment.adjustment_type === 'REFUND' ? 'Refund' : 'Reversal'}
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.action === 'approve'
+                ? `A compensating entry of -${formatCurrency(reviewing.adjustment.amount)} will be recorded against receipt ${reviewing.adjustment.payment?.receipt_number}.`
+                : 'The payment stays as recorded.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review_notes">
+              {reviewing?.action === 'approve' ? 'Notes' : 'Reason'}
+              {reviewing?.action === 'reject' && <span className="text-destructive"> *</span>}
+            </Label>
+            <Textarea
+              id="review_notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.action === 'approve' ? 'default' : 'destructive'}
+              onClick={handleReview}
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : reviewing?.action === 'approve' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
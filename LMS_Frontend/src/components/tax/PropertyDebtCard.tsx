@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Wallet } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AllocatedPaymentDialog } from '@/components/tax/AllocatedPaymentDialog';
+import { taxService } from '@/services/taxService';
+import { PropertyDebt, TaxAssessment } from '@/types/tax';
+
+interface PropertyDebtCardProps {
+  assessment: TaxAssessment;
+  canPay: boolean;
+  onPaid: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export function PropertyDebtCard({ assessment, canPay, onPaid }: PropertyDebtCardProps) {
+  const [debt, setDebt] = useState<PropertyDebt | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  useEffect(() => {
+    taxService
+      .getPropertyDebt(assessment.property_id)
+      .then(setDebt)
+      .catch((error) => console.error('Error loading property debt:', error));
+  }, [assessment.property_id, assessment.outstanding_amount]);
+
+  // A property with a single assessment has no history to show
+  if (!debt || debt.history.length <= 1) return null;
+
+  const broughtForward = assessment.arrears_brought_forward || 0;
+  const priorOutstanding = debt.open_assessments
+    .filter((open) => open.tax_year < assessment.tax_year)
+    .reduce((sum, open) => sum + open.outstanding_amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Tax History of the Property
+            </CardTitle>
+            <CardDescription>
+              Total owed across all years:{' '}
+              <span className={`font-semibold ${debt.total_outstanding > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                {formatCurrency(debt.total_outstanding)}
+              </span>
+              {priorOutstanding > 0 && <> ({formatCurrency(priorOutstanding)} from earlier years)</>}
+            </CardDescription>
+            {broughtForward > 0 && (
+              <p className="text-sm text-muted-foreground mt-1">
+                {formatCurrency(broughtForward)} of earlier years was unpaid when this assessment was created
+                {assessment.arrears_details?.length
+                  ? ` (${assessment.arrears_details.map((detail) => detail.tax_year).join(', ')})`
+                  : ''}
+              </p>
+            )}
+          </div>
+          {canPay && debt.open_assessments.length > 0 && (
+            <Button variant="outline" onClick={() => setDialogOpen(true)}>
+              <Wallet className="h-4 w-4 mr-2" />
+              Pay Oldest First
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead>Assessment</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Assessed</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead className="text-right">Outstanding</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {debt.history.map((year) => (
+              <TableRow key={year.id} className={year.id === assessment.id ? 'bg-accent/50' : ''}>
+                <TableCell>{year.tax_year}</TableCell>
+                <TableCell className="font-mono text-xs">
+                  {year.id === assessment.id ? (
+                    year.reference_id
+                  ) : (
+                    <Link to={`/tax/${year.id}`} className="underline">
+                      {year.reference_id}
+                    </Link>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline">{year.status}</Badge>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(year.assessed_amount)}</TableCell>
+                <TableCell className="text-right text-green-600">{formatCurrency(year.paid_amount)}</TableCell>
+                <TableCell className={`text-right ${year.outstanding_amount > 0 ? 'text-destructive font-medium' : ''}`}>
+                  {formatCurrency(year.outstanding_amount)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <AllocatedPaymentDialog debt={debt} open={dialogOpen} onOpenChange={setDialogOpen} onRecorded={onPaid} />
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { FileText, ShieldCheck, ShieldX } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/export-utils';
+import { taxService } from '@/services/taxService';
+import { ClearanceCertificate, ClearanceCheck, ClearanceSubject } from '@/types/tax';
+
+interface TaxClearanceCardProps {
+  subject: ClearanceSubject;
+}
+
+const REASON_LABELS = {
+  OUTSTANDING: 'Balance due',
+  OVERDUE: 'Overdue',
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const formatDay = (date: string) => format(new Date(date), 'MMM dd, yyyy');
+
+const isExpired = (certificate: ClearanceCertificate) =>
+  certificate.valid_until < new Date().toISOString().slice(0, 10);
+
+export function TaxClearanceCard({ subject }: TaxClearanceCardProps) {
+  const { profile } = useAuth();
+  const [check, setCheck] = useState<ClearanceCheck | null>(null);
+  const [certificates, setCertificates] = useState<ClearanceCertificate[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [purpose, setPurpose] = useState('');
+  const [issuing, setIssuing] = useState(false);
+
+  const canIssue = !!profile?.role && ['INPUTTER', 'APPROVER', 'ADMINISTRATOR'].includes(profile.role);
+  const isCustomer = !!subject.customer_id;
+
+  const { property_id: propertyId, customer_id: customerId } = subject;
+
+  // Keyed on the ids, as the parent passes a new subject object on every render
+  const loadClearance = useCallback(async () => {
+    const clearanceSubject = { property_id: propertyId, customer_id: customerId };
+
+    try {
+      const [checkData, certificateData] = await Promise.all([
+        taxService.checkClearance(clearanceSubject),
+        taxService.getClearanceCertificates(clearanceSubject),
+      ]);
+      setCheck(checkData);
+      setCertificates(certificateData || []);
+    } catch (error) {
+      console.error('Error loading tax clearance:', error);
+    }
+  }, [propertyId, customerId]);
+
+  useEffect(() => {
+    loadClearance();
+  }, [loadClearance]);
+
+  const handleDownload = async (certificate: ClearanceCertificate) => {
+    try {
+      const blob = await taxService.getClearanceCertificatePdf(certificate.id);
+      downloadBlob(blob, `${certificate.certificate_number}.pdf`);
+    } catch (error: any) {
+      console.error('Error downloading clearance certificate:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download the certificate',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleIssue = async () => {
+    setIssuing(true);
+    try {
+      const certificate = await taxService.issueClearanceCertificate({
+        ...subject,
+        purpose: purpose.trim() || undefined,
+      });
+      toast({
+        title: 'Certificate issued',
+        description: `${certificate.certificate_number}, valid until ${formatDay(certificate.valid_until)}`,
+      });
+      setDialogOpen(false);
+      setPurpose('');
+      await handleDownload(certificate);
+    } catch (error: any) {
+      console.error('Error issuing clearance certificate:', error);
+      toast({
+        title: 'Clearance refused',
+        description: error.message || 'Failed to issue the certificate',
+        variant: 'destructive',
+      });
+    } finally {
+      setIssuing(false);
+      loadClearance();
+    }
+  };
+
+  if (!check) return null;
+
+  const hasProperties = check.properties.length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              {check.eligible ? (
+                <ShieldCheck className="h-5 w-5 text-green-600" />
+              ) : (
+                <ShieldX className="h-5 w-5 text-destructive" />
+              )}
+              Tax Clearance
+            </CardTitle>
+            <CardDescription>
+              {!hasProperties
+                ? 'The customer has no current properties to clear.'
+                : check.eligible
+                  ? `All ${check.assessments_checked} assessments${isCustomer ? ` of ${check.properties.length} properties` : ''} are settled; a clearance certificate can be issued.`
+                  : `${check.blocking_assessments.length} assessment${check.blocking_assessments.length === 1 ? '' : 's'} must be settled before a certificate can be issued (${formatCurrency(check.total_outstanding)} outstanding).`}
+            </CardDescription>
+          </div>
+          {canIssue && hasProperties && (
+            <Button onClick={() => setDialogOpen(true)} disabled={!check.eligible}>
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Issue Certificate
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {check.blocking_assessments.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-3">Blocking Assessments</h3>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Year</TableHead>
+                  <TableHead>Assessment</TableHead>
+                  {isCustomer && <TableHead>Parcel</TableHead>}
+                  <TableHead>Due Date</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {check.blocking_assessments.map((blocking) => (
+                  <TableRow key={blocking.assessment_id}>
+                    <TableCell>{blocking.tax_year}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      <Link to={`/tax/${blocking.assessment_id}`} className="underline">
+                        {blocking.reference_id}
+                      </Link>
+                    </TableCell>
+                    {isCustomer && <TableCell>{blocking.parcel_number}</TableCell>}
+                    <TableCell>{formatDay(blocking.due_date)}</TableCell>
+                    <TableCell className="space-x-1">
+                      {blocking.reasons.map((reason) => (
+                        <Badge key={reason} variant={reason === 'OVERDUE' ? 'destructive' : 'outline'}>
+                          {REASON_LABELS[reason]}
+                        </Badge>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right text-destructive font-medium">
+                      {formatCurrency(blocking.outstanding_amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div>
+          <h3 className="font-semibold mb-3">Issued Certificates</h3>
+          {certificates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No clearance certificates issued yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Certificate</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead>Purpose</TableHead>
+                  <TableHead>Issued By</TableHead>
+                  <TableHead className="text-right">PDF</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {certificates.map((certificate) => (
+                  <TableRow key={certificate.id}>
+                    <TableCell className="font-mono text-xs">{certificate.certificate_number}</TableCell>
+                    <TableCell>{formatDay(certificate.issued_at)}</TableCell>
+                    <TableCell>
+                      {formatDay(certificate.valid_until)}{' '}
+                      {isExpired(certificate) && <Badge variant="secondary">Expired</Badge>}
+                    </TableCell>
+                    <TableCell>{certificate.purpose || '-'}</TableCell>
+                    <TableCell>{certificate.issuer?.full_name || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDownload(certificate)}>
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Issue Tax Clearance Certificate</DialogTitle>
+            <DialogDescription>
+              Issued to {check.holder_name} for {check.properties.map((property) => property.parcel_number).join(', ')}.
+              The assessments are checked again when the certificate is issued.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="clearance_purpose">Purpose</Label>
+            <Input
+              id="clearance_purpose"
+              placeholder="e.g. Transfer of ownership"
+              maxLength={200}
+              value={purpose}
+              onChange={(e) => setPurpose(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={issuing}>
+              Cancel
+            </Button>
+            <Button onClick={handleIssue} disabled={issuing}>
+              {issuing ? 'Issuing...' : 'Issue Certificate'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
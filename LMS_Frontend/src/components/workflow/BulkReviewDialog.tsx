@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { toast } from '@/hooks/use-toast';
+import { workflowService } from '@/services/workflowService';
+import { BulkReviewDecision, BulkReviewItemResult, BulkReviewResult, WorkflowEntityType } from '@/types/workflow';
+
+interface BulkReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  decision: BulkReviewDecision;
+  items: { entity_type: WorkflowEntityType; id: string; reference_id: string }[];
+  onCompleted: () => void;
+}
+
+const OUTCOME_LABELS: Record<NonNullable<BulkReviewItemResult['outcome']>, string> = {
+  APPROVED: 'Approved',
+  STAGE_APPROVED: 'Stage approved',
+  REJECTED: 'Rejected',
+  CHANGES_RESTORED: 'Changes rejected',
+};
+
+export const BulkReviewDialog = ({ open, onOpenChange, decision, items, onCompleted }: BulkReviewDialogProps) => {
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [result, setResult] = useState<BulkReviewResult | null>(null);
+  const isReject = decision === 'reject';
+
+  useEffect(() => {
+    if (open) {
+      setFeedback('');
+      setResult(null);
+    }
+  }, [open]);
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const data = await workflowService.bulkReview(decision, {
+        customer_ids: items.filter((item) => item.entity_type === 'customer').map((item) => item.id),
+        property_ids: items.filter((item) => item.entity_type === 'property').map((item) => item.id),
+        feedback: feedback.trim() || undefined,
+      });
+
+      onCompleted();
+      if (data.failed === 0) {
+        toast({
+          title: 'Success',
+          description: `${data.succeeded} records ${isReject ? 'rejected' : 'approved'}`,
+        });
+        onOpenChange(false);
+      } else {
+        // Keep the dialog open to show which records failed and why
+        setResult(data);
+      }
+    } catch (error: any) {
+      console.error('Error in bulk review:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || `Failed to ${decision} the selected records`,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isReject ? (
+              <XCircle className="h-5 w-5 text-destructive" />
+            ) : (
+              <CheckCircle2 className="h-5 w-5 text-success" />
+            )}
+            {isReject ? 'Reject' : 'Approve'} {result ? result.total : items.length} Records
+          </DialogTitle>
+          <DialogDescription>
+            {result
+              ? `${result.succeeded} of ${result.total} records were ${isReject ? 'rejected' : 'approved'}.`
+              : 'Each record is decided on its own; records that cannot be decided are skipped and listed afterwards. Creators receive one notification for all their records.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {result.results.map((item) => (
+              <div key={`${item.entity_type}:${item.id}`} className="flex items-center justify-between border rounded-md p-2">
+                <span className="font-mono text-sm">{item.reference_id || item.id}</span>
+                {item.success ? (
+                  <Badge variant="secondary">{item.outcome ? OUTCOME_LABELS[item.outcome] : 'Done'}</Badge>
+                ) : (
+                  <span className="text-sm text-destructive">{item.error}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="bg-muted p-3 rounded-md max-h-32 overflow-y-auto">
+              <p className="text-sm font-mono">{items.map((item) => item.reference_id).join(', ')}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk_feedback">
+                {isReject ? 'Feedback' : 'Note (optional)'}
+                {isReject && <span className="text-destructive"> *</span>}
+              </Label>
+              <Textarea
+                id="bulk_feedback"
+                placeholder={
+                  isReject
+                    ? 'Explain why these records are being rejected and what needs to be corrected...'
+                    : 'Added to the notification sent to the creators'
+                }
+                value={feedback}
+                onChange={(e) => setFeedback(e.target.value)}
+                disabled={saving}
+                maxLength={500}
+                rows={4}
+              />
+              {isReject && (
+                <p className="text-sm text-muted-foreground">At least 10 characters, shared by every record</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {result ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                variant={isReject ? 'destructive' : 'default'}
+                onClick={handleConfirm}
+                disabled={saving || (isReject && feedback.trim().length < 10)}
+              >
+                {saving ? (isReject ? 'Rejecting...' : 'Approving...') : isReject ? 'Reject All' : 'Approve All'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,64 @@
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChangeSection, ReviewChanges } from '@/types/workflow';
+
+interface ChangeSetCardProps {
+  changes: ReviewChanges;
+}
+
+const SECTION_LABELS: Record<ChangeSection, string> = {
+  record: 'General',
+  details: 'Details',
+  boundaries: 'Boundaries',
+  owner: 'Ownership',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const ChangeSetCard = ({ changes }: ChangeSetCardProps) => (
+  <Card className="mb-6 border-orange-300">
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        Changes Since Approval
+        <Badge variant="secondary">{changes.changes.length}</Badge>
+      </CardTitle>
+      <CardDescription>
+        Edited by {changes.edited_by_name || 'Unknown'} on {format(new Date(changes.edited_at), 'MMM dd, yyyy HH:mm')}.
+        Approving accepts all changes; rejecting restores the approved version.
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      {changes.changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No field differs from the approved version</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Section</TableHead>
+              <TableHead>Field</TableHead>
+              <TableHead>Approved Value</TableHead>
+              <TableHead>New Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {changes.changes.map((change) => (
+              <TableRow key={`${change.section}.${change.field}`}>
+                <TableCell className="text-muted-foreground">{SECTION_LABELS[change.section]}</TableCell>
+                <TableCell className="font-medium">{change.label}</TableCell>
+                <TableCell className="line-through text-muted-foreground">{formatValue(change.old_value)}</TableCell>
+                <TableCell className="font-medium">{formatValue(change.new_value)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </CardContent>
+  </Card>
+);
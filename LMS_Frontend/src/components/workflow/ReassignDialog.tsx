@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { workflowService } from '@/services/workflowService';
+import { ApproverLoad, WorkflowEntityType } from '@/types/workflow';
+
+interface ReassignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entityType: WorkflowEntityType;
+  entityId: string;
+  referenceId: string;
+  currentAssigneeId?: string | null;
+  onAssigned: () => void;
+}
+
+export const ReassignDialog = ({
+  open,
+  onOpenChange,
+  entityType,
+  entityId,
+  referenceId,
+  currentAssigneeId,
+  onAssigned,
+}: ReassignDialogProps) => {
+  const [approvers, setApprovers] = useState<ApproverLoad[]>([]);
+  const [userId, setUserId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setUserId('');
+    workflowService
+      .getReviewAssignees(entityType, entityId)
+      .then((data) => setApprovers(data || []))
+      .catch((error) => console.error('Error loading approvers:', error));
+  }, [open, entityType, entityId]);
+
+  const handleAssign = async () => {
+    setSaving(true);
+    try {
+      const assignment = await workflowService.assignReviewItem(entityType, entityId, userId);
+      toast({
+        title: 'Reassigned',
+        description: `${referenceId} is now assigned to ${assignment.assignee?.full_name || 'the approver'}`,
+      });
+      onOpenChange(false);
+      onAssigned();
+    } catch (error: any) {
+      console.error('Error reassigning review:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error.message || 'Failed to reassign',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reassign {referenceId}</DialogTitle>
+          <DialogDescription>
+            Only approvers who can decide the pending stage and have not approved this record yet are listed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label>Approver</Label>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an approver" />
+            </SelectTrigger>
+            <SelectContent>
+              {approvers
+                .filter((approver) => approver.id !== currentAssigneeId)
+                .map((approver) => (
+                  <SelectItem key={approver.id} value={approver.id}>
+                    {approver.full_name} ({approver.active_items} assigned)
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleAssign} disabled={!userId || saving}>
+            {saving ? 'Assigning...' : 'Assign'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,95 @@
+import { format } from 'date-fns';
+import { CheckCircle, Circle, Clock, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { StageProgress, WorkflowAction, WorkflowProgress } from '@/types/workflow';
+
+interface WorkflowProgressCardProps {
+  workflow: WorkflowProgress;
+}
+
+const STATE_BADGES: Record<StageProgress['state'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  PENDING: { label: 'Awaiting approval', variant: 'default' },
+  WAITING: { label: 'Waiting', variant: 'outline' },
+  APPROVED: { label: 'Approved', variant: 'secondary' },
+  REJECTED: { label: 'Rejected', variant: 'destructive' },
+  CANCELLED: { label: 'Not reached', variant: 'outline' },
+};
+
+const ACTION_LABELS: Record<WorkflowAction['action'], string> = {
+  SUBMIT: 'Submitted',
+  APPROVE: 'Approved',
+  REJECT: 'Rejected',
+  CANCEL: 'Withdrawn',
+};
+
+const StageIcon = ({ state }: { state: StageProgress['state'] }) => {
+  if (state === 'APPROVED') return <CheckCircle className="h-4 w-4 text-green-600" />;
+  if (state === 'REJECTED') return <XCircle className="h-4 w-4 text-destructive" />;
+  if (state === 'PENDING') return <Clock className="h-4 w-4 text-orange-600" />;
+  return <Circle className="h-4 w-4 text-muted-foreground" />;
+};
+
+export const WorkflowProgressCard = ({ workflow }: WorkflowProgressCardProps) => {
+  const stageNames = new Map(workflow.stages.map((stage) => [stage.key, stage.name]));
+  const orders = [...new Set(workflow.stages.map((stage) => stage.order))].sort((a, b) => a - b);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Approval Stages</CardTitle>
+        <CardDescription>
+          {workflow.status === 'IN_PROGRESS'
+            ? `Awaiting ${workflow.current_stages.join(', ')}.${workflow.can_act ? '' : ' You cannot approve the pending stages of this record.'}`
+            : `Review ${workflow.status.toLowerCase().replace('_', ' ')}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {orders.map((order, index) => (
+            <div key={order} className="flex gap-3">
+              <span className="text-sm text-muted-foreground w-6 pt-2">{index + 1}.</span>
+              <div className="flex-1 grid gap-2 md:grid-cols-2">
+                {workflow.stages
+                  .filter((stage) => stage.order === order)
+                  .map((stage) => (
+                    <div key={stage.key} className="border rounded-md p-3 space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2 font-medium">
+                          <StageIcon state={stage.state} />
+                          {stage.name}
+                        </span>
+                        <Badge variant={STATE_BADGES[stage.state].variant}>{STATE_BADGES[stage.state].label}</Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {stage.roles.join(' or ')} · {stage.approvals}/{stage.required_approvals} approval
+                        {stage.required_approvals === 1 ? '' : 's'}
+                      </p>
+                      {stage.approved_by.length > 0 && (
+                        <p className="text-xs">Approved by {stage.approved_by.join(', ')}</p>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h3 className="font-semibold mb-3">History</h3>
+          <ul className="space-y-2">
+            {workflow.history.map((action) => (
+              <li key={action.id} className="text-sm">
+                <span className="text-muted-foreground">{format(new Date(action.created_at), 'MMM dd, yyyy HH:mm')}</span>{' '}
+                <span className="font-medium">{ACTION_LABELS[action.action]}</span>
+                {action.stage_key && ` ${stageNames.get(action.stage_key) || action.stage_key}`}
+                {action.actor?.full_name && ` by ${action.actor.full_name}`}
+                {action.feedback && <span className="text-muted-foreground">: {action.feedback}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -4,6 +4,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { dashboardService } from '@/services/dashboardService';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { CollectionTrendChart } from '@/components/tax/CollectionTrendChart';
 import { FileText, Clock, CheckCircle, XCircle, Users, Building, Settings, Receipt, DollarSign } from 'lucide-react';
 
 const Dashboard = () => {
@@ -186,17 +187,26 @@ const Dashboard = () => {
                 <p className="text-2xl font-bold text-destructive">{formatCurrency(taxStats.total_outstanding)}</p>
               </div>
             </div>
-            <Button
-              variant="outline"
-              className="mt-4"
-              onClick={() => navigate('/tax')}
-            >
-              View All Tax Assessments
-            </Button>
+            <div className="flex flex-wrap gap-3 mt-4">
+              <Button
+                variant="outline"
+                onClick={() => navigate('/tax')}
+              >
+                View All Tax Assessments
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate('/tax/arrears')}
+              >
+                Arrears Aging Report
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
 
+      {(profile?.role === 'ADMINISTRATOR' || profile?.role === 'APPROVER') && <CollectionTrendChart />}
+
       {quickActions.length > 0 && (
         <Card>
           <CardHeader>
@@ -126,6 +126,8 @@ export default function Notifications() {
       navigate(`/customers/${notification.entity_id}`);
     } else if (notification.entity_type === 'PROPERTY') {
       navigate(`/properties/${notification.entity_id}`);
+    } else if (notification.entity_type === 'CASHIER_SESSION') {
+      navigate(`/cashier/${notification.entity_id}`);
     }
   };
 
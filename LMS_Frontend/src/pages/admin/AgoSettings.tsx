@@ -1,64 +1,96 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
-import { Cloud, RefreshCw, AlertTriangle, CheckCircle, XCircle, Clock } from "lucide-react";
+import { Cloud, RefreshCw, AlertTriangle, CheckCircle, XCircle, Clock, Save, Plus, Trash2, Eye } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AgoReconciliationPanel } from "@/components/ago/AgoReconciliationPanel";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
-
-interface SyncStats {
-  total: number;
-  synced: number;
-  pending: number;
-  failed: number;
-}
-
-interface FailedSync {
-  id: string;
-  property_id: string;
-  property_reference: string;
-  error_message: string;
-  last_attempt: string;
-  retry_count: number;
-}
+import {
+  adminService,
+  AGOSettings,
+  AGOSettingsUpdate,
+  AGOSyncStats,
+  AGOSyncRetry,
+  AGOFieldMapping,
+  AGOFeaturePreview,
+} from "@/services/adminService";
 
 export default function AgoSettings() {
   const { user } = useAuth();
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
-  const [stats, setStats] = useState<SyncStats>({
+  const [stats, setStats] = useState<AGOSyncStats>({
     total: 0,
     synced: 0,
     pending: 0,
     failed: 0,
+    queue: { pending: 0, retrying: 0, failed: 0 },
   });
-  const [failedSyncs, setFailedSyncs] = useState<FailedSync[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected'>('connected');
+  const [retries, setRetries] = useState<AGOSyncRetry[]>([]);
+  const [queueStatus, setQueueStatus] = useState('PENDING');
+  const [actionId, setActionId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AGOSettings | null>(null);
+  const [form, setForm] = useState<AGOSettingsUpdate>({
+    enabled: false,
+    api_url: '',
+    layer_id: 0,
+    api_key: '',
+    sync_interval: 60,
+    field_mapping: [],
+  });
+  const [saving, setSaving] = useState(false);
+  const [previewProperty, setPreviewProperty] = useState('');
+  const [preview, setPreview] = useState<AGOFeaturePreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'unknown'>('unknown');
+  const [connectionMessage, setConnectionMessage] = useState<string | null>(null);
 
   const isAdmin = user?.role === 'ADMINISTRATOR';
 
   useEffect(() => {
     if (isAdmin) {
+      loadSettings();
       loadSyncStats();
-      loadFailedSyncs();
     }
   }, [isAdmin]);
 
+  useEffect(() => {
+    if (isAdmin) {
+      loadRetries();
+    }
+  }, [isAdmin, queueStatus]);
+
+  const loadSettings = async () => {
+    try {
+      const data = await adminService.getAGOSettings();
+      setSettings(data);
+      setForm({
+        enabled: data.enabled,
+        api_url: data.api_url,
+        layer_id: data.layer_id,
+        api_key: '',
+        sync_interval: data.sync_interval,
+        field_mapping: data.field_mapping,
+      });
+    } catch (error: any) {
+      console.error('Error loading AGO settings:', error);
+      toast.error('Failed to load AGO settings');
+    }
+  };
+
   const loadSyncStats = async () => {
     try {
       setLoading(true);
-
-      // Mock data for pilot mode
-      // In production, this would call the backend API
-      setStats({ 
-        total: 10, 
-        synced: 8, 
-        pending: 1, 
-        failed: 1 
-      });
+      const data = await adminService.getAGOSyncStats();
+      setStats(data);
     } catch (error: any) {
       console.error('Error loading sync stats:', error);
       toast.error('Failed to load sync statistics');
@@ -67,30 +99,86 @@ export default function AgoSettings() {
     }
   };
 
-  const loadFailedSyncs = async () => {
+  const loadRetries = async () => {
+    try {
+      const data = await adminService.getAGOSyncRetries({
+        status: queueStatus === 'all' ? undefined : queueStatus,
+      });
+      setRetries(data || []);
+    } catch (error: any) {
+      console.error('Error loading retry queue:', error);
+      toast.error('Failed to load retry queue');
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    try {
+      const data = await adminService.updateAGOSettings({
+        ...form,
+        api_key: form.api_key || undefined,
+      });
+      setSettings(data);
+      setForm({ ...form, api_key: '' });
+      setConnectionStatus('unknown');
+      setConnectionMessage(null);
+      toast.success('AGO settings saved');
+    } catch (error: any) {
+      console.error('Error saving AGO settings:', error);
+      toast.error(error.message || 'Failed to save AGO settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateMapping = (index: number, changes: Partial<AGOFieldMapping>) => {
+    const fieldMapping = [...(form.field_mapping || [])];
+    fieldMapping[index] = { ...fieldMapping[index], ...changes };
+    setForm({ ...form, field_mapping: fieldMapping });
+  };
+
+  const addMapping = () => {
+    setForm({
+      ...form,
+      field_mapping: [...(form.field_mapping || []), { source: 'reference_id', target: '', transform: 'none' }],
+    });
+  };
+
+  const removeMapping = (index: number) => {
+    setForm({ ...form, field_mapping: (form.field_mapping || []).filter((_, i) => i !== index) });
+  };
+
+  const handlePreview = async () => {
+    if (!previewProperty.trim()) {
+      toast.error('Enter a property reference ID');
+      return;
+    }
+
+    setPreviewing(true);
     try {
-      // Mock data for pilot mode
-      // In production, this would call the backend API
-      setFailedSyncs([]);
+      const data = await adminService.previewAGOFeature(previewProperty.trim(), form.field_mapping);
+      setPreview(data);
     } catch (error: any) {
-      console.error('Error loading failed syncs:', error);
-      toast.error('Failed to load failed syncs');
+      console.error('Preview error:', error);
+      setPreview(null);
+      toast.error(error.message || 'Failed to preview feature');
+    } finally {
+      setPreviewing(false);
     }
   };
 
   const handleTestConnection = async () => {
     setSyncing(true);
     try {
-      // Simulate connection test
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock result (90% success rate)
-      if (Math.random() > 0.1) {
+      const result = await adminService.testAGOConnection();
+      setConnectionMessage(result.message);
+
+      if (result.success) {
         setConnectionStatus('connected');
         toast.success('Connection test successful');
       } else {
         setConnectionStatus('disconnected');
-        toast.error('Connection test failed');
+        toast.error(result.message || 'Connection test failed');
       }
     } catch (error: any) {
       console.error('Connection test error:', error);
@@ -100,30 +188,50 @@ export default function AgoSettings() {
     }
   };
 
-  const handleRetrySync = async (propertyId: string) => {
+  const handleRetryNow = async (retry: AGOSyncRetry) => {
+    setActionId(retry.id);
     try {
-      // Mock retry for pilot mode
-      toast.success('Retry initiated (mock)');
+      const result = await adminService.retryAGOSync(retry.id);
+      if (result.status === 'SUCCESS') {
+        toast.success('Property synced to AGO');
+      } else {
+        toast.error(result.error_message || 'Sync failed again');
+      }
       loadSyncStats();
-      loadFailedSyncs();
+      loadRetries();
     } catch (error: any) {
       console.error('Retry error:', error);
       toast.error(error.message || 'Failed to retry sync');
+    } finally {
+      setActionId(null);
     }
   };
 
-  const handleRetryAll = async () => {
-    setSyncing(true);
+  const handleGiveUp = async (retry: AGOSyncRetry) => {
+    setActionId(retry.id);
     try {
-      // Mock retry all for pilot mode
-      toast.success(`Initiated retry for ${failedSyncs.length} properties (mock)`);
+      await adminService.giveUpAGOSync(retry.id);
+      toast.success('Retry cancelled');
       loadSyncStats();
-      loadFailedSyncs();
+      loadRetries();
     } catch (error: any) {
-      console.error('Retry all error:', error);
-      toast.error('Failed to retry all syncs');
+      console.error('Give up error:', error);
+      toast.error(error.message || 'Failed to cancel retry');
     } finally {
-      setSyncing(false);
+      setActionId(null);
+    }
+  };
+
+  const getRetryStatusVariant = (status: AGOSyncRetry['status']) => {
+    switch (status) {
+      case 'SUCCESS':
+        return 'default';
+      case 'FAILED':
+        return 'destructive';
+      case 'RETRYING':
+        return 'secondary';
+      default:
+        return 'outline';
     }
   };
 
@@ -153,6 +261,210 @@ export default function AgoSettings() {
         </p>
       </div>
 
+      {/* Configuration */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Configuration</CardTitle>
+          <CardDescription>
+            Feature service used for publishing approved properties
+            {settings?.updated_at && ` (last saved ${new Date(settings.updated_at).toLocaleString()})`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="ago-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => setForm({ ...form, enabled })}
+            />
+            <Label htmlFor="ago-enabled">Sync approved properties to ArcGIS Online</Label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="ago-url">Feature Service URL</Label>
+              <Input
+                id="ago-url"
+                placeholder="https://services.arcgis.com/.../arcgis/rest/services/LMS/FeatureServer"
+                value={form.api_url}
+                onChange={(e) => setForm({ ...form, api_url: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ago-layer">Layer ID</Label>
+              <Input
+                id="ago-layer"
+                type="number"
+                min={0}
+                value={form.layer_id}
+                onChange={(e) => setForm({ ...form, layer_id: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ago-interval">Sync Interval (seconds)</Label>
+              <Input
+                id="ago-interval"
+                type="number"
+                min={30}
+                value={form.sync_interval}
+                onChange={(e) => setForm({ ...form, sync_interval: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="ago-key">API Key</Label>
+              <Input
+                id="ago-key"
+                type="password"
+                autoComplete="new-password"
+                placeholder={settings?.api_key ? 'Stored (leave blank to keep)' : 'Not set'}
+                value={form.api_key}
+                onChange={(e) => setForm({ ...form, api_key: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleSaveSettings} disabled={saving}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Field Mapping */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Field Mapping</CardTitle>
+              <CardDescription>
+                How property fields are published as attributes on the AGO feature layer
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={addMapping}>
+              <Plus className="mr-1 h-4 w-4" />
+              Add Field
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Property Field</TableHead>
+                <TableHead>Lookup</TableHead>
+                <TableHead>Transform</TableHead>
+                <TableHead>AGO Attribute</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(form.field_mapping || []).map((mapping, index) => {
+                const lookupColumns = settings?.mapping_options.lookups[mapping.source] || [];
+
+                return (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Select
+                        value={mapping.source}
+                        onValueChange={(source) => updateMapping(index, { source, lookup: null })}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {settings?.mapping_options.sources.map((source) => (
+                            <SelectItem key={source} value={source}>{source}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping.lookup || 'none'}
+                        onValueChange={(lookup) => updateMapping(index, { lookup: lookup === 'none' ? null : lookup })}
+                        disabled={lookupColumns.length === 0}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Raw value</SelectItem>
+                          {lookupColumns.map((column) => (
+                            <SelectItem key={column} value={column}>{column}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping.transform || 'none'}
+                        onValueChange={(transform) => updateMapping(index, { transform })}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {settings?.mapping_options.transforms.map((transform) => (
+                            <SelectItem key={transform} value={transform}>{transform}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={mapping.target}
+                        placeholder="attribute_name"
+                        onChange={(e) => updateMapping(index, { target: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => removeMapping(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <Button onClick={handleSaveSettings} disabled={saving}>
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Mapping'}
+          </Button>
+
+          <div className="border-t pt-4 space-y-3">
+            <Label htmlFor="preview-property">Preview Feature</Label>
+            <div className="flex gap-2">
+              <Input
+                id="preview-property"
+                placeholder="Property reference ID"
+                value={previewProperty}
+                onChange={(e) => setPreviewProperty(e.target.value)}
+              />
+              <Button variant="outline" onClick={handlePreview} disabled={previewing}>
+                <Eye className="mr-2 h-4 w-4" />
+                Preview
+              </Button>
+            </div>
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {preview.reference_id} ({preview.status}) would be sent as an <strong>{preview.operation}</strong> using
+                  the mapping above:
+                </p>
+                <pre className="bg-muted rounded-md p-4 text-xs overflow-auto max-h-96">
+                  {JSON.stringify(preview.feature, null, 2)}
+                </pre>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Connection Status */}
       <Card>
         <CardHeader>
@@ -163,27 +475,36 @@ export default function AgoSettings() {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium">Service URL</p>
-              <p className="text-sm text-muted-foreground">https://services.arcgis.com/pilot/LMS</p>
+              <p className="text-sm text-muted-foreground break-all">
+                {settings?.api_url || 'Not configured'}
+                {settings?.api_url && ` (layer ${settings.layer_id})`}
+              </p>
             </div>
-            <Badge variant={connectionStatus === 'connected' ? 'default' : 'destructive'}>
-              {connectionStatus === 'connected' ? (
-                <>
-                  <CheckCircle className="mr-1 h-3 w-3" />
-                  Connected
-                </>
-              ) : (
-                <>
-                  <XCircle className="mr-1 h-3 w-3" />
-                  Disconnected
-                </>
-              )}
-            </Badge>
+            {connectionStatus !== 'unknown' && (
+              <Badge variant={connectionStatus === 'connected' ? 'default' : 'destructive'}>
+                {connectionStatus === 'connected' ? (
+                  <>
+                    <CheckCircle className="mr-1 h-3 w-3" />
+                    Connected
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="mr-1 h-3 w-3" />
+                    Disconnected
+                  </>
+                )}
+              </Badge>
+            )}
           </div>
 
+          {connectionMessage && (
+            <p className="text-sm text-muted-foreground">{connectionMessage}</p>
+          )}
+
           <div>
             <p className="text-sm font-medium">Last Sync</p>
             <p className="text-sm text-muted-foreground">
-              {new Date().toLocaleString()}
+              {settings?.last_sync ? new Date(settings.last_sync).toLocaleString() : 'Never'}
             </p>
           </div>
 
@@ -236,78 +557,118 @@ export default function AgoSettings() {
         </Card>
       </div>
 
-      {/* Failed Syncs Table */}
-      {failedSyncs.length > 0 && (
-        <Card>
-          <CardHeader>
-            <div className="flex justify-between items-center">
-              <div>
-                <CardTitle>Failed Syncs</CardTitle>
-                <CardDescription>
-                  Properties that failed to sync to ArcGIS Online
-                </CardDescription>
-              </div>
-              <Button
-                onClick={handleRetryAll}
-                disabled={syncing || failedSyncs.length === 0}
-              >
-                <RefreshCw className={`mr-2 h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
-                Retry All Failed
-              </Button>
+      {/* Retry Queue */}
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Retry Queue</CardTitle>
+              <CardDescription>
+                Failed syncs are retried automatically with increasing delays
+                ({stats.queue.pending} pending, {stats.queue.retrying} retrying, {stats.queue.failed} given up)
+              </CardDescription>
             </div>
-          </CardHeader>
-          <CardContent>
+            <Select value={queueStatus} onValueChange={setQueueStatus}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="PENDING">Pending</SelectItem>
+                <SelectItem value="RETRYING">Retrying</SelectItem>
+                <SelectItem value="FAILED">Failed</SelectItem>
+                <SelectItem value="SUCCESS">Succeeded</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {retries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No syncs in this state</p>
+          ) : (
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>Property Reference</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempt</TableHead>
                   <TableHead>Error Message</TableHead>
                   <TableHead>Last Attempt</TableHead>
+                  <TableHead>Next Retry</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {failedSyncs.map((sync) => (
-                  <TableRow key={sync.id}>
+                {retries.map((retry) => (
+                  <TableRow key={retry.id}>
                     <TableCell className="font-medium">
-                      {sync.property_reference}
+                      {retry.properties?.reference_id || retry.property_id}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={getRetryStatusVariant(retry.status)}>{retry.status}</Badge>
                     </TableCell>
+                    <TableCell>{retry.attempt_number}</TableCell>
                     <TableCell className="max-w-md truncate text-red-600">
-                      {sync.error_message}
+                      {retry.error_message || '-'}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1 text-sm text-muted-foreground">
                         <Clock className="h-3 w-3" />
-                        {formatDistanceToNow(new Date(sync.last_attempt), { addSuffix: true })}
+                        {formatDistanceToNow(new Date(retry.last_attempt_at), { addSuffix: true })}
                       </div>
                     </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {retry.status === 'PENDING'
+                        ? formatDistanceToNow(new Date(retry.next_retry_at), { addSuffix: true })
+                        : '-'}
+                    </TableCell>
                     <TableCell>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => handleRetrySync(sync.property_id)}
-                      >
-                        <RefreshCw className="h-3 w-3 mr-1" />
-                        Retry
-                      </Button>
+                      <div className="flex gap-2">
+                        {(retry.status === 'PENDING' || retry.status === 'FAILED') && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={actionId === retry.id}
+                            onClick={() => handleRetryNow(retry)}
+                          >
+                            <RefreshCw className={`h-3 w-3 mr-1 ${actionId === retry.id ? 'animate-spin' : ''}`} />
+                            Retry now
+                          </Button>
+                        )}
+                        {retry.status === 'PENDING' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={actionId === retry.id}
+                            onClick={() => handleGiveUp(retry)}
+                          >
+                            <XCircle className="h-3 w-3 mr-1" />
+                            Give up
+                          </Button>
+                        )}
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
-          </CardContent>
-        </Card>
-      )}
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reconciliation */}
+      {settings?.status === 'configured' && <AgoReconciliationPanel />}
 
       {/* Info Alert */}
-      <Alert>
-        <AlertTriangle className="h-4 w-4" />
-        <AlertDescription>
-          <strong>Pilot Mode:</strong> This system uses a mock AGO sync for demonstration purposes.
-          Properties are marked as synced but not actually published to ArcGIS Online.
-          Failed syncs are randomly generated for testing the retry mechanism.
-        </AlertDescription>
-      </Alert>
+      {settings?.status === 'not_configured' && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <strong>Not configured:</strong> Enter the AGO feature service URL above and enable
+            sync to publish approved properties to ArcGIS Online.
+          </AlertDescription>
+        </Alert>
+      )}
     </div>
   );
 }
@@ -191,6 +191,7 @@ const AuditLogs = () => {
                   <SelectItem value="tax_assessment">Tax Assessment</SelectItem>
                   <SelectItem value="tax_payment">Tax Payment</SelectItem>
                   <SelectItem value="user">User</SelectItem>
+                  <SelectItem value="ago_settings">AGO Settings</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -323,7 +324,7 @@ const AuditLogs = () => {
                       <TableCell>{formatValue(log.old_value)}</TableCell>
                       <TableCell>{formatValue(log.new_value)}</TableCell>
                       <TableCell className="whitespace-nowrap">
-                        {log.user?.full_name || 'Unknown User'}
+                        {log.user?.full_name || (log.changed_by ? 'Unknown User' : 'System')}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -0,0 +1,467 @@
+import { useEffect, useState } from 'react';
+import { BadgeCheck, Edit, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { taxService } from '@/services/taxService';
+import { lookupService } from '@/services/lookupService';
+import { CustomerType } from '@/types/customer';
+import { ExemptionRule, ExemptionRuleInput, ExemptionType, OccupancyType } from '@/types/tax';
+
+// Select value standing for "matches any value"
+const ANY = 'any';
+
+interface LookupOption {
+  id: string;
+  name: string;
+}
+
+interface ExemptionForm {
+  id: string;
+  name: string;
+  description: string;
+  customer_type: string;
+  property_type_id: string;
+  is_downtown: string;
+  is_building: string;
+  occupancy_type: string;
+  exemption_type: ExemptionType;
+  exemption_value: string;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: ExemptionForm = {
+  id: '',
+  name: '',
+  description: '',
+  customer_type: ANY,
+  property_type_id: ANY,
+  is_downtown: ANY,
+  is_building: ANY,
+  occupancy_type: ANY,
+  exemption_type: 'FULL',
+  exemption_value: '0',
+  effective_from: new Date().toISOString().slice(0, 10),
+  effective_to: '',
+  is_active: true,
+};
+
+const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  PERSON: 'Person',
+  BUSINESS: 'Business',
+  GOVERNMENT: 'Government',
+  MOSQUE_HOSPITAL: 'Mosque / Hospital',
+  NON_PROFIT: 'Non-Profit',
+  RESIDENTIAL: 'Residential',
+  RENTAL: 'Rental',
+};
+
+const OCCUPANCY_LABELS: Record<OccupancyType, string> = {
+  OWNER_OCCUPIED: 'Owner Occupied',
+  RENTED: 'Rented',
+  VACANT: 'Vacant',
+  MIXED_USE: 'Mixed Use',
+};
+
+const EXEMPTION_TYPE_LABELS: Record<ExemptionType, string> = {
+  FULL: 'Full',
+  PERCENTAGE: 'Percentage',
+  FIXED: 'Fixed amount',
+};
+
+const fromAny = (value: string) => (value === ANY ? null : value);
+
+const fromAnyBoolean = (value: string) => (value === ANY ? null : value === 'true');
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export default function ExemptionRules() {
+  const [rules, setRules] = useState<ExemptionRule[]>([]);
+  const [propertyTypes, setPropertyTypes] = useState<LookupOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ExemptionForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadRules();
+    loadPropertyTypes();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const data = await taxService.getExemptionRules();
+      setRules(data || []);
+    } catch (error: any) {
+      console.error('Error loading exemption rules:', error);
+      toast.error('Failed to load exemption rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPropertyTypes = async () => {
+    try {
+      const data = await lookupService.getPropertyTypes();
+      setPropertyTypes(data || []);
+    } catch (error: any) {
+      console.error('Error loading property types:', error);
+    }
+  };
+
+  const openDialog = (rule?: ExemptionRule) => {
+    setForm(
+      rule
+        ? {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description || '',
+            customer_type: rule.customer_type || ANY,
+            property_type_id: rule.property_type_id || ANY,
+            is_downtown: rule.is_downtown === null ? ANY : String(rule.is_downtown),
+            is_building: rule.is_building === null ? ANY : String(rule.is_building),
+            occupancy_type: rule.occupancy_type || ANY,
+            exemption_type: rule.exemption_type,
+            exemption_value: String(rule.exemption_value),
+            effective_from: rule.effective_from,
+            effective_to: rule.effective_to || '',
+            is_active: rule.is_active,
+          }
+        : EMPTY_FORM
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.effective_from) {
+      toast.error('Name and effective from date are required');
+      return;
+    }
+
+    const value = parseFloat(form.exemption_value) || 0;
+    if (form.exemption_type !== 'FULL' && value <= 0) {
+      toast.error('Enter the exemption percentage or amount');
+      return;
+    }
+    if (form.exemption_type === 'PERCENTAGE' && value > 100) {
+      toast.error('Percentage cannot be more than 100');
+      return;
+    }
+
+    const payload: ExemptionRuleInput = {
+      name: form.name.trim(),
+      description: form.description || null,
+      customer_type: fromAny(form.customer_type) as CustomerType | null,
+      property_type_id: fromAny(form.property_type_id),
+      is_downtown: fromAnyBoolean(form.is_downtown),
+      is_building: fromAnyBoolean(form.is_building),
+      occupancy_type: fromAny(form.occupancy_type) as OccupancyType | null,
+      exemption_type: form.exemption_type,
+      exemption_value: form.exemption_type === 'FULL' ? 0 : value,
+      effective_from: form.effective_from,
+      effective_to: form.effective_to || null,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await taxService.updateExemptionRule(form.id, payload);
+        toast.success('Exemption rule updated');
+      } else {
+        await taxService.createExemptionRule(payload);
+        toast.success('Exemption rule created');
+      }
+      setDialogOpen(false);
+      loadRules();
+    } catch (error: any) {
+      console.error('Error saving exemption rule:', error);
+      toast.error(error.message || 'Failed to save exemption rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: ExemptionRule) => {
+    if (!confirm(`Delete exemption rule "${rule.name}"? Existing assessments keep their exemptions.`)) return;
+
+    try {
+      await taxService.deleteExemptionRule(rule.id);
+      toast.success('Exemption rule deleted');
+      loadRules();
+    } catch (error: any) {
+      console.error('Error deleting exemption rule:', error);
+      toast.error(error.message || 'Failed to delete exemption rule');
+    }
+  };
+
+  const describeMatch = (rule: ExemptionRule) => {
+    const parts = [
+      rule.customer_type ? `${CUSTOMER_TYPE_LABELS[rule.customer_type]} owner` : null,
+      rule.property_types?.name,
+      rule.is_downtown === null ? null : rule.is_downtown ? 'Downtown' : 'Not downtown',
+      rule.is_building === null ? null : rule.is_building ? 'Building' : 'Not a building',
+      rule.occupancy_type ? OCCUPANCY_LABELS[rule.occupancy_type] : null,
+    ].filter(Boolean);
+
+    return parts.length ? parts.join(', ') : 'All properties';
+  };
+
+  const describeExemption = (rule: ExemptionRule) => {
+    if (rule.exemption_type === 'PERCENTAGE') return `${rule.exemption_value}%`;
+    if (rule.exemption_type === 'FIXED') return formatCurrency(rule.exemption_value);
+    return 'Full';
+  };
+
+  const renderFlagSelect = (label: string, field: 'is_downtown' | 'is_building') => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={form[field]} onValueChange={(value) => setForm({ ...form, [field]: value })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any</SelectItem>
+          <SelectItem value="true">Yes</SelectItem>
+          <SelectItem value="false">No</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <BadgeCheck className="h-8 w-8" />
+            Exemption Rules
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Tax exemptions applied automatically when assessments are created
+          </p>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            Empty criteria match any value. The customer type matches any current owner or co-owner of the
+            property. When several active rules match, the largest exemption is applied.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No exemption rules defined</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Exemption</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      {rule.description && (
+                        <div className="text-xs text-muted-foreground">{rule.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeMatch(rule)}</TableCell>
+                    <TableCell>{describeExemption(rule)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(rule.effective_from), 'MMM dd, yyyy')} –{' '}
+                      {rule.effective_to ? format(new Date(rule.effective_to), 'MMM dd, yyyy') : 'open'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.is_active ? 'default' : 'secondary'}>
+                        {rule.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(rule)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form.id ? 'Edit Exemption Rule' : 'Add Exemption Rule'}</DialogTitle>
+            <DialogDescription>
+              The exemption is deducted from the base assessment of matching properties
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Owner Customer Type</Label>
+                <Select value={form.customer_type} onValueChange={(value) => setForm({ ...form, customer_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {Object.entries(CUSTOMER_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Property Type</Label>
+                <Select value={form.property_type_id} onValueChange={(value) => setForm({ ...form, property_type_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {propertyTypes.map((type) => (
+                      <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {renderFlagSelect('Downtown', 'is_downtown')}
+              {renderFlagSelect('Building', 'is_building')}
+              <div className="space-y-2">
+                <Label>Occupancy Type</Label>
+                <Select value={form.occupancy_type} onValueChange={(value) => setForm({ ...form, occupancy_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {Object.entries(OCCUPANCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Exemption Type *</Label>
+                <Select
+                  value={form.exemption_type}
+                  onValueChange={(value) => setForm({ ...form, exemption_type: value as ExemptionType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(EXEMPTION_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.exemption_type !== 'FULL' && (
+                <div className="space-y-2">
+                  <Label>{form.exemption_type === 'PERCENTAGE' ? 'Percentage (%) *' : 'Amount ($) *'}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={form.exemption_type === 'PERCENTAGE' ? '100' : undefined}
+                    step="0.01"
+                    value={form.exemption_value}
+                    onChange={(e) => setForm({ ...form, exemption_value: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Effective From *</Label>
+                <Input
+                  type="date"
+                  value={form.effective_from}
+                  onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Effective To</Label>
+                <Input
+                  type="date"
+                  value={form.effective_to}
+                  onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
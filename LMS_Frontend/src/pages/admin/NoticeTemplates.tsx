@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { Edit, Mail, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { taxService } from '@/services/taxService';
+import { NOTICE_LABELS, NOTICE_PLACEHOLDERS, NoticeTemplate } from '@/types/tax';
+
+interface TemplateForm extends NoticeTemplate {
+  isNew: boolean;
+}
+
+const EMPTY_FORM: TemplateForm = {
+  isNew: true,
+  language: '',
+  language_name: '',
+  title: '',
+  body: '',
+  closing: '',
+  labels: {},
+  is_active: true,
+};
+
+export default function NoticeTemplates() {
+  const [templates, setTemplates] = useState<NoticeTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const data = await taxService.getNoticeTemplates();
+      setTemplates(data || []);
+    } catch (error: any) {
+      console.error('Error loading notice templates:', error);
+      toast.error('Failed to load notice templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (template?: NoticeTemplate) => {
+    setForm(template ? { ...template, labels: { ...template.labels }, isNew: false } : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const language = form.language.trim().toLowerCase();
+    if (!/^[a-z]{2}$/.test(language)) {
+      toast.error('Language must be a two-letter code such as "en" or "so"');
+      return;
+    }
+    if (!form.language_name.trim() || !form.title.trim() || !form.body.trim()) {
+      toast.error('Language name, title and body are required');
+      return;
+    }
+    if (form.isNew && templates.some((template) => template.language === language)) {
+      toast.error('A template for this language already exists');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await taxService.saveNoticeTemplate(language, {
+        language_name: form.language_name.trim(),
+        title: form.title.trim(),
+        body: form.body.trim(),
+        closing: form.closing.trim(),
+        labels: Object.fromEntries(
+          Object.entries(form.labels).filter(([, value]) => value && value.trim())
+        ),
+        is_active: form.is_active,
+      });
+      toast.success('Notice template saved');
+      setDialogOpen(false);
+      loadTemplates();
+    } catch (error: any) {
+      console.error('Error saving notice template:', error);
+      toast.error(error.message || 'Failed to save notice template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Mail className="h-8 w-8" />
+            Notice Templates
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Wording of the printed assessment notices in each language
+          </p>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Language
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            The body and closing may use the placeholders{' '}
+            {NOTICE_PLACEHOLDERS.map((placeholder) => `{{${placeholder}}}`).join(', ')}. Field labels left empty are
+            printed in English.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No notice templates defined</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template.language}>
+                    <TableCell>
+                      <div className="font-medium">{template.language_name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{template.language}</div>
+                    </TableCell>
+                    <TableCell>{template.title}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {template.updated_at ? format(new Date(template.updated_at), 'MMM dd, yyyy') : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={template.is_active ? 'default' : 'secondary'}>
+                        {template.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button size="sm" variant="outline" onClick={() => openDialog(template)}>
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form.isNew ? 'Add Notice Language' : `Edit ${form.language_name} Template`}</DialogTitle>
+            <DialogDescription>Changes apply to notices generated from now on</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Language Code *</Label>
+                <Input
+                  value={form.language}
+                  maxLength={2}
+                  disabled={!form.isNew}
+                  placeholder="e.g. ar"
+                  onChange={(e) => setForm({ ...form, language: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Language Name *</Label>
+                <Input
+                  value={form.language_name}
+                  onChange={(e) => setForm({ ...form, language_name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Title *</Label>
+              <Input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Body *</Label>
+              <Textarea
+                value={form.body}
+                rows={5}
+                maxLength={5000}
+                onChange={(e) => setForm({ ...form, body: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Closing</Label>
+              <Textarea
+                value={form.closing}
+                rows={3}
+                maxLength={1000}
+                onChange={(e) => setForm({ ...form, closing: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Field Labels</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {Object.entries(NOTICE_LABELS).map(([key, english]) => (
+                  <Input
+                    key={key}
+                    value={form.labels[key] || ''}
+                    placeholder={english}
+                    maxLength={60}
+                    onChange={(e) => setForm({ ...form, labels: { ...form.labels, [key]: e.target.value } })}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react';
+import { Edit, Percent, Play, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { taxService } from '@/services/taxService';
+import { PenaltyRule, PenaltyRuleInput, PenaltyRunSummary, PenaltyType } from '@/types/tax';
+
+interface RuleForm {
+  id: string;
+  name: string;
+  description: string;
+  grace_days: string;
+  penalty_type: PenaltyType;
+  penalty_value: string;
+  monthly_interest_rate: string;
+  interest_cap_percent: string;
+  max_penalty_amount: string;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: RuleForm = {
+  id: '',
+  name: '',
+  description: '',
+  grace_days: '30',
+  penalty_type: 'PERCENTAGE',
+  penalty_value: '5',
+  monthly_interest_rate: '1',
+  interest_cap_percent: '',
+  max_penalty_amount: '',
+  effective_from: new Date().toISOString().slice(0, 10),
+  effective_to: '',
+  is_active: true,
+};
+
+const toOptionalNumber = (value: string) => (value === '' ? null : parseFloat(value));
+
+export default function PenaltyRules() {
+  const [rules, setRules] = useState<PenaltyRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [lastRun, setLastRun] = useState<PenaltyRunSummary | null>(null);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const data = await taxService.getPenaltyRules();
+      setRules(data || []);
+    } catch (error: any) {
+      console.error('Error loading penalty rules:', error);
+      toast.error('Failed to load penalty rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (rule?: PenaltyRule) => {
+    setForm(
+      rule
+        ? {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description || '',
+            grace_days: String(rule.grace_days),
+            penalty_type: rule.penalty_type,
+            penalty_value: String(rule.penalty_value),
+            monthly_interest_rate: String(rule.monthly_interest_rate),
+            interest_cap_percent: rule.interest_cap_percent === null ? '' : String(rule.interest_cap_percent),
+            max_penalty_amount: rule.max_penalty_amount === null ? '' : String(rule.max_penalty_amount),
+            effective_from: rule.effective_from,
+            effective_to: rule.effective_to || '',
+            is_active: rule.is_active,
+          }
+        : EMPTY_FORM
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.effective_from) {
+      toast.error('Name and effective from date are required');
+      return;
+    }
+
+    const payload: PenaltyRuleInput = {
+      name: form.name.trim(),
+      description: form.description || null,
+      grace_days: parseInt(form.grace_days, 10) || 0,
+      penalty_type: form.penalty_type,
+      penalty_value: parseFloat(form.penalty_value) || 0,
+      monthly_interest_rate: parseFloat(form.monthly_interest_rate) || 0,
+      interest_cap_percent: toOptionalNumber(form.interest_cap_percent),
+      max_penalty_amount: toOptionalNumber(form.max_penalty_amount),
+      effective_from: form.effective_from,
+      effective_to: form.effective_to || null,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await taxService.updatePenaltyRule(form.id, payload);
+        toast.success('Penalty rule updated');
+      } else {
+        await taxService.createPenaltyRule(payload);
+        toast.success('Penalty rule created');
+      }
+      setDialogOpen(false);
+      loadRules();
+    } catch (error: any) {
+      console.error('Error saving penalty rule:', error);
+      toast.error(error.message || 'Failed to save penalty rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: PenaltyRule) => {
+    if (!confirm(`Delete penalty rule "${rule.name}"? Assessments already charged keep their penalties.`)) return;
+
+    try {
+      await taxService.deletePenaltyRule(rule.id);
+      toast.success('Penalty rule deleted');
+      loadRules();
+    } catch (error: any) {
+      console.error('Error deleting penalty rule:', error);
+      toast.error(error.message || 'Failed to delete penalty rule');
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const summary = await taxService.runPenalties();
+      setLastRun(summary);
+      toast.success(`Penalties recalculated: ${summary.updated} assessments updated`);
+    } catch (error: any) {
+      console.error('Error running penalties:', error);
+      toast.error(error.message || 'Failed to run penalties');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const formatPenalty = (rule: PenaltyRule) =>
+    rule.penalty_type === 'FLAT' ? `$${Number(rule.penalty_value).toLocaleString()}` : `${rule.penalty_value}%`;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Percent className="h-8 w-8" />
+            Penalty Rules
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Late payment penalties and interest applied daily to assessments past their due date
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleRun} disabled={running}>
+            <Play className="mr-2 h-4 w-4" />
+            {running ? 'Running...' : 'Run Now'}
+          </Button>
+          <Button onClick={() => openDialog()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      {lastRun && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Last Run</CardTitle>
+            <CardDescription>As of {format(new Date(lastRun.as_of), 'MMM dd, yyyy')}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Checked</p>
+                <p className="text-xl font-bold">{lastRun.checked}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Updated</p>
+                <p className="text-xl font-bold">{lastRun.updated}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Marked Overdue</p>
+                <p className="text-xl font-bold text-orange-600">{lastRun.marked_overdue}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">On a Payment Plan</p>
+                <p className="text-xl font-bold">{lastRun.on_plan}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Plans Defaulted</p>
+                <p className="text-xl font-bold text-orange-600">{lastRun.plans_defaulted}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Failed</p>
+                <p className="text-xl font-bold text-red-600">{lastRun.failed}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rules</CardTitle>
+          <CardDescription>
+            The active rule in force on an assessment's due date is applied. Without a rule, past-due
+            assessments are still marked overdue but no charges are added.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No penalty rules defined</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Grace</TableHead>
+                  <TableHead>Penalty</TableHead>
+                  <TableHead>Interest / Month</TableHead>
+                  <TableHead>Caps</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      {rule.description && (
+                        <div className="text-xs text-muted-foreground">{rule.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(rule.effective_from), 'MMM dd, yyyy')} –{' '}
+                      {rule.effective_to ? format(new Date(rule.effective_to), 'MMM dd, yyyy') : 'open'}
+                    </TableCell>
+                    <TableCell>{rule.grace_days} days</TableCell>
+                    <TableCell>{formatPenalty(rule)}</TableCell>
+                    <TableCell>{rule.monthly_interest_rate}%</TableCell>
+                    <TableCell className="text-xs">
+                      {rule.interest_cap_percent !== null && <div>Interest ≤ {rule.interest_cap_percent}%</div>}
+                      {rule.max_penalty_amount !== null && (
+                        <div>Total ≤ ${Number(rule.max_penalty_amount).toLocaleString()}</div>
+                      )}
+                      {rule.interest_cap_percent === null && rule.max_penalty_amount === null && '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.is_active ? 'default' : 'secondary'}>
+                        {rule.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(rule)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{form.id ? 'Edit Penalty Rule' : 'Add Penalty Rule'}</DialogTitle>
+            <DialogDescription>
+              Interest is charged per full month overdue on the assessed amount still unpaid
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Effective From *</Label>
+                <Input
+                  type="date"
+                  value={form.effective_from}
+                  onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Effective To</Label>
+                <Input
+                  type="date"
+                  value={form.effective_to}
+                  onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Grace Days</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  value={form.grace_days}
+                  onChange={(e) => setForm({ ...form, grace_days: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Penalty Type</Label>
+                <Select
+                  value={form.penalty_type}
+                  onValueChange={(value) => setForm({ ...form, penalty_type: value as PenaltyType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="PERCENTAGE">Percentage</SelectItem>
+                    <SelectItem value="FLAT">Flat Amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>{form.penalty_type === 'FLAT' ? 'Penalty ($)' : 'Penalty (%)'}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.penalty_value}
+                  onChange={(e) => setForm({ ...form, penalty_value: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Interest / Month (%)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.monthly_interest_rate}
+                  onChange={(e) => setForm({ ...form, monthly_interest_rate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Interest Cap (%)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No cap"
+                  value={form.interest_cap_percent}
+                  onChange={(e) => setForm({ ...form, interest_cap_percent: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Max Charges ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No cap"
+                  value={form.max_penalty_amount}
+                  onChange={(e) => setForm({ ...form, max_penalty_amount: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,423 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Edit, PlayCircle, Timer } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { adminService, User } from '@/services/adminService';
+import { workflowService } from '@/services/workflowService';
+import {
+  EscalationAction,
+  SlaTarget,
+  TurnaroundReport,
+  TurnaroundStats,
+  WorkflowEntityType,
+} from '@/types/workflow';
+
+interface TargetForm {
+  entity_type: WorkflowEntityType;
+  target_hours: string;
+  warning_percent: string;
+  escalation_action: EscalationAction;
+  supervisor_id: string; // 'all' notifies every administrator
+  is_active: boolean;
+}
+
+const ENTITY_LABELS: Record<WorkflowEntityType, string> = {
+  customer: 'Customers',
+  property: 'Properties',
+};
+
+const ACTION_LABELS: Record<EscalationAction, string> = {
+  NOTIFY: 'Notify supervisor',
+  REASSIGN: 'Reassign and notify supervisor',
+};
+
+const formatHours = (hours: number) => (hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} h`);
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const monthStart = () => `${today().slice(0, 8)}01`;
+
+export default function ReviewSla() {
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [supervisors, setSupervisors] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [form, setForm] = useState<TargetForm | null>(null);
+
+  const [report, setReport] = useState<TurnaroundReport | null>(null);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [from, setFrom] = useState(monthStart());
+  const [to, setTo] = useState(today());
+  const [entityType, setEntityType] = useState<WorkflowEntityType | 'all'>('all');
+
+  const loadTargets = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await workflowService.getSlaTargets();
+      setTargets(data || []);
+    } catch (error: any) {
+      console.error('Error loading SLA targets:', error);
+      toast.error('Failed to load SLA targets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadReport = useCallback(async () => {
+    if (!from || !to || from > to) return;
+
+    try {
+      setReportLoading(true);
+      const data = await workflowService.getTurnaroundReport({
+        from,
+        to,
+        entity_type: entityType === 'all' ? undefined : entityType,
+      });
+      setReport(data);
+    } catch (error: any) {
+      console.error('Error loading turnaround report:', error);
+      toast.error('Failed to load turnaround report');
+    } finally {
+      setReportLoading(false);
+    }
+  }, [from, to, entityType]);
+
+  useEffect(() => {
+    loadTargets();
+    adminService
+      .getUsers({ isActive: true })
+      .then((users) =>
+        setSupervisors((users || []).filter((user) => ['APPROVER', 'ADMINISTRATOR'].includes(user.role)))
+      )
+      .catch((error) => console.error('Error loading users:', error));
+  }, [loadTargets]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const openDialog = (target: SlaTarget) => {
+    setForm({
+      entity_type: target.entity_type,
+      target_hours: target.target_hours ? String(target.target_hours) : '48',
+      warning_percent: String(target.warning_percent),
+      escalation_action: target.escalation_action,
+      supervisor_id: target.supervisor_id || 'all',
+      is_active: target.id ? target.is_active : true,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    const targetHours = parseFloat(form.target_hours);
+    const warningPercent = parseInt(form.warning_percent, 10);
+    if (!(targetHours >= 0.5 && targetHours <= 2160)) {
+      toast.error('The target must be between 0.5 and 2160 hours');
+      return;
+    }
+    if (!(warningPercent >= 1 && warningPercent <= 100)) {
+      toast.error('The warning threshold must be between 1 and 100 percent');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await workflowService.saveSlaTarget(form.entity_type, {
+        target_hours: targetHours,
+        warning_percent: warningPercent,
+        escalation_action: form.escalation_action,
+        supervisor_id: form.supervisor_id === 'all' ? null : form.supervisor_id,
+        is_active: form.is_active,
+      });
+      toast.success('SLA target saved');
+      setForm(null);
+      loadTargets();
+    } catch (error: any) {
+      console.error('Error saving SLA target:', error);
+      toast.error(error.message || 'Failed to save SLA target');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRunEscalations = async () => {
+    setRunning(true);
+    try {
+      const summary = await workflowService.runEscalations();
+      if (summary.failed > 0) {
+        toast.warning(`${summary.escalated} reviews escalated, ${summary.failed} failed`);
+      } else {
+        toast.success(
+          summary.escalated > 0
+            ? `${summary.escalated} reviews escalated (${summary.reassigned} reassigned)`
+            : 'No overdue reviews to escalate'
+        );
+      }
+    } catch (error: any) {
+      console.error('Error running escalations:', error);
+      toast.error(error.message || 'Failed to escalate overdue reviews');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderStats = (stats: TurnaroundStats) => (
+    <>
+      <TableCell className="text-right">{stats.decisions}</TableCell>
+      <TableCell className="text-right">{stats.approvals}</TableCell>
+      <TableCell className="text-right">{stats.rejections}</TableCell>
+      <TableCell className="text-right">{formatHours(stats.average_hours)}</TableCell>
+      <TableCell className="text-right">{formatHours(stats.median_hours)}</TableCell>
+      <TableCell className="text-right">{formatHours(stats.p90_hours)}</TableCell>
+      <TableCell className="text-right">{formatHours(stats.max_hours)}</TableCell>
+    </>
+  );
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Timer className="h-8 w-8" />
+            Review SLAs
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            How long a submitted customer or property may wait for its review, and how fast approvers decide
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRunEscalations} disabled={running}>
+          <PlayCircle className="mr-2 h-4 w-4" />
+          {running ? 'Escalating...' : 'Escalate Overdue Now'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>SLA Targets</CardTitle>
+          <CardDescription>
+            Overdue reviews are escalated once, automatically every few minutes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Records</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>At Risk From</TableHead>
+                  <TableHead>Escalation</TableHead>
+                  <TableHead>Supervisor</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last Changed</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {targets.map((target) => (
+                  <TableRow key={target.entity_type}>
+                    <TableCell className="font-medium">{ENTITY_LABELS[target.entity_type]}</TableCell>
+                    <TableCell>{target.target_hours ? `${target.target_hours} hours` : 'Not set'}</TableCell>
+                    <TableCell>{target.id ? `${target.warning_percent}% of target` : '-'}</TableCell>
+                    <TableCell>{target.id ? ACTION_LABELS[target.escalation_action] : '-'}</TableCell>
+                    <TableCell>{target.id ? target.supervisor?.full_name || 'All administrators' : '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={target.id && target.is_active ? 'default' : 'secondary'}>
+                        {target.id && target.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {target.updated_at ? format(new Date(target.updated_at), 'MMM dd, yyyy HH:mm') : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(target)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Approver Turnaround</CardTitle>
+          <CardDescription>
+            Time from a stage becoming pending to the approver's decision, for decisions in the period
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>To</Label>
+              <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-2 w-48">
+              <Label>Records</Label>
+              <Select value={entityType} onValueChange={(value) => setEntityType(value as WorkflowEntityType | 'all')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All records</SelectItem>
+                  <SelectItem value="customer">Customers</SelectItem>
+                  <SelectItem value="property">Properties</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {reportLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : !report || report.approvers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No decisions in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Approver</TableHead>
+                  <TableHead className="text-right">Decisions</TableHead>
+                  <TableHead className="text-right">Approved</TableHead>
+                  <TableHead className="text-right">Rejected</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">90th Percentile</TableHead>
+                  <TableHead className="text-right">Longest</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.approvers.map((approver) => (
+                  <TableRow key={approver.user_id}>
+                    <TableCell className="font-medium">{approver.full_name}</TableCell>
+                    {renderStats(approver)}
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell>All approvers</TableCell>
+                  {renderStats(report.overall)}
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form && ENTITY_LABELS[form.entity_type]} SLA Target</DialogTitle>
+            <DialogDescription>
+              Measured from submission until the record is approved or rejected. A review is escalated once when it
+              passes the target.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Target (hours) *</Label>
+                  <Input
+                    type="number"
+                    min="0.5"
+                    max="2160"
+                    step="0.5"
+                    value={form.target_hours}
+                    onChange={(e) => setForm({ ...form, target_hours: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>At Risk From (% of target)</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={form.warning_percent}
+                    onChange={(e) => setForm({ ...form, warning_percent: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>When Breached</Label>
+                <Select
+                  value={form.escalation_action}
+                  onValueChange={(value) => setForm({ ...form, escalation_action: value as EscalationAction })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACTION_LABELS) as EscalationAction[]).map((action) => (
+                      <SelectItem key={action} value={action}>
+                        {ACTION_LABELS[action]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Supervisor</Label>
+                <Select value={form.supervisor_id} onValueChange={(value) => setForm({ ...form, supervisor_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All administrators</SelectItem>
+                    {supervisors.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.full_name} ({user.role})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="sla_active"
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+                <Label htmlFor="sla_active">Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,480 @@
+import { useEffect, useState } from 'react';
+import { Calculator, Edit, Plus, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { taxService } from '@/services/taxService';
+import { lookupService } from '@/services/lookupService';
+import { ConstructionStatus, OccupancyType, TaxRateRule, TaxRateRuleInput } from '@/types/tax';
+
+// Select value standing for "matches any value"
+const ANY = 'any';
+
+interface LookupOption {
+  id: string;
+  name: string;
+}
+
+interface RateForm {
+  id: string;
+  name: string;
+  description: string;
+  property_type_id: string;
+  district_id: string;
+  is_downtown: string;
+  occupancy_type: string;
+  construction_status: string;
+  land_rate_per_m2: string;
+  built_rate_per_m2: string;
+  floor_modifier_percent: string;
+  minimum_amount: string;
+  effective_from: string;
+  effective_to: string;
+  is_active: boolean;
+}
+
+const EMPTY_FORM: RateForm = {
+  id: '',
+  name: '',
+  description: '',
+  property_type_id: ANY,
+  district_id: ANY,
+  is_downtown: ANY,
+  occupancy_type: ANY,
+  construction_status: ANY,
+  land_rate_per_m2: '0',
+  built_rate_per_m2: '0',
+  floor_modifier_percent: '0',
+  minimum_amount: '',
+  effective_from: new Date().toISOString().slice(0, 10),
+  effective_to: '',
+  is_active: true,
+};
+
+const OCCUPANCY_LABELS: Record<OccupancyType, string> = {
+  OWNER_OCCUPIED: 'Owner Occupied',
+  RENTED: 'Rented',
+  VACANT: 'Vacant',
+  MIXED_USE: 'Mixed Use',
+};
+
+const CONSTRUCTION_LABELS: Record<ConstructionStatus, string> = {
+  COMPLETED: 'Completed',
+  UNDER_CONSTRUCTION: 'Under Construction',
+  PLANNED: 'Planned',
+};
+
+const fromAny = (value: string) => (value === ANY ? null : value);
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export default function TaxRates() {
+  const [rules, setRules] = useState<TaxRateRule[]>([]);
+  const [districts, setDistricts] = useState<LookupOption[]>([]);
+  const [propertyTypes, setPropertyTypes] = useState<LookupOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<RateForm>(EMPTY_FORM);
+
+  useEffect(() => {
+    loadRules();
+    loadLookups();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      setLoading(true);
+      const data = await taxService.getRateRules();
+      setRules(data || []);
+    } catch (error: any) {
+      console.error('Error loading tax rate rules:', error);
+      toast.error('Failed to load tax rate rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadLookups = async () => {
+    try {
+      const [districtData, propertyTypeData] = await Promise.all([
+        lookupService.getDistricts(),
+        lookupService.getPropertyTypes(),
+      ]);
+      setDistricts(districtData || []);
+      setPropertyTypes(propertyTypeData || []);
+    } catch (error: any) {
+      console.error('Error loading lookups:', error);
+    }
+  };
+
+  const openDialog = (rule?: TaxRateRule) => {
+    setForm(
+      rule
+        ? {
+            id: rule.id,
+            name: rule.name,
+            description: rule.description || '',
+            property_type_id: rule.property_type_id || ANY,
+            district_id: rule.district_id || ANY,
+            is_downtown: rule.is_downtown === null ? ANY : String(rule.is_downtown),
+            occupancy_type: rule.occupancy_type || ANY,
+            construction_status: rule.construction_status || ANY,
+            land_rate_per_m2: String(rule.land_rate_per_m2),
+            built_rate_per_m2: String(rule.built_rate_per_m2),
+            floor_modifier_percent: String(rule.floor_modifier_percent),
+            minimum_amount: rule.minimum_amount === null ? '' : String(rule.minimum_amount),
+            effective_from: rule.effective_from,
+            effective_to: rule.effective_to || '',
+            is_active: rule.is_active,
+          }
+        : EMPTY_FORM
+    );
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.effective_from) {
+      toast.error('Name and effective from date are required');
+      return;
+    }
+
+    const payload: TaxRateRuleInput = {
+      name: form.name.trim(),
+      description: form.description || null,
+      property_type_id: fromAny(form.property_type_id),
+      district_id: fromAny(form.district_id),
+      is_downtown: form.is_downtown === ANY ? null : form.is_downtown === 'true',
+      occupancy_type: fromAny(form.occupancy_type) as OccupancyType | null,
+      construction_status: fromAny(form.construction_status) as ConstructionStatus | null,
+      land_rate_per_m2: parseFloat(form.land_rate_per_m2) || 0,
+      built_rate_per_m2: parseFloat(form.built_rate_per_m2) || 0,
+      floor_modifier_percent: parseFloat(form.floor_modifier_percent) || 0,
+      minimum_amount: form.minimum_amount === '' ? null : parseFloat(form.minimum_amount),
+      effective_from: form.effective_from,
+      effective_to: form.effective_to || null,
+      is_active: form.is_active,
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await taxService.updateRateRule(form.id, payload);
+        toast.success('Tax rate rule updated');
+      } else {
+        await taxService.createRateRule(payload);
+        toast.success('Tax rate rule created');
+      }
+      setDialogOpen(false);
+      loadRules();
+    } catch (error: any) {
+      console.error('Error saving tax rate rule:', error);
+      toast.error(error.message || 'Failed to save tax rate rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: TaxRateRule) => {
+    if (!confirm(`Delete tax rate rule "${rule.name}"? Existing assessments keep their amounts.`)) return;
+
+    try {
+      await taxService.deleteRateRule(rule.id);
+      toast.success('Tax rate rule deleted');
+      loadRules();
+    } catch (error: any) {
+      console.error('Error deleting tax rate rule:', error);
+      toast.error(error.message || 'Failed to delete tax rate rule');
+    }
+  };
+
+  const describeMatch = (rule: TaxRateRule) => {
+    const parts = [
+      rule.property_types?.name,
+      rule.districts?.name,
+      rule.is_downtown === null ? null : rule.is_downtown ? 'Downtown' : 'Not downtown',
+      rule.occupancy_type ? OCCUPANCY_LABELS[rule.occupancy_type] : null,
+      rule.construction_status ? CONSTRUCTION_LABELS[rule.construction_status] : null,
+    ].filter(Boolean);
+
+    return parts.length ? parts.join(', ') : 'All properties';
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Calculator className="h-8 w-8" />
+            Tax Rates
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Rate tables used to calculate the base assessment of new tax assessments
+          </p>
+        </div>
+        <Button onClick={() => openDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rate
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Rate Rules</CardTitle>
+          <CardDescription>
+            Empty criteria match any value. When several active rules match, the most specific one is
+            used, then the one with the latest effective date.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No tax rate rules defined</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Applies To</TableHead>
+                  <TableHead>Land / m²</TableHead>
+                  <TableHead>Built / m²</TableHead>
+                  <TableHead>Per Floor</TableHead>
+                  <TableHead>Minimum</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      {rule.description && (
+                        <div className="text-xs text-muted-foreground">{rule.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeMatch(rule)}</TableCell>
+                    <TableCell>{formatCurrency(rule.land_rate_per_m2)}</TableCell>
+                    <TableCell>{formatCurrency(rule.built_rate_per_m2)}</TableCell>
+                    <TableCell>{rule.floor_modifier_percent}%</TableCell>
+                    <TableCell>{rule.minimum_amount !== null ? formatCurrency(rule.minimum_amount) : '-'}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(rule.effective_from), 'MMM dd, yyyy')} –{' '}
+                      {rule.effective_to ? format(new Date(rule.effective_to), 'MMM dd, yyyy') : 'open'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={rule.is_active ? 'default' : 'secondary'}>
+                        {rule.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button size="sm" variant="outline" onClick={() => openDialog(rule)}>
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => handleDelete(rule)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form.id ? 'Edit Tax Rate' : 'Add Tax Rate'}</DialogTitle>
+            <DialogDescription>
+              Base = land size × land rate + built-up area × built rate, adjusted per floor above the first
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Description</Label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Property Type</Label>
+                <Select value={form.property_type_id} onValueChange={(value) => setForm({ ...form, property_type_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {propertyTypes.map((type) => (
+                      <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>District</Label>
+                <Select value={form.district_id} onValueChange={(value) => setForm({ ...form, district_id: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {districts.map((district) => (
+                      <SelectItem key={district.id} value={district.id}>{district.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Downtown</Label>
+                <Select value={form.is_downtown} onValueChange={(value) => setForm({ ...form, is_downtown: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    <SelectItem value="true">Yes</SelectItem>
+                    <SelectItem value="false">No</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Occupancy Type</Label>
+                <Select value={form.occupancy_type} onValueChange={(value) => setForm({ ...form, occupancy_type: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {Object.entries(OCCUPANCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Construction Status</Label>
+                <Select
+                  value={form.construction_status}
+                  onValueChange={(value) => setForm({ ...form, construction_status: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {Object.entries(CONSTRUCTION_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Land Rate / m²</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.land_rate_per_m2}
+                  onChange={(e) => setForm({ ...form, land_rate_per_m2: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Built Rate / m²</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.built_rate_per_m2}
+                  onChange={(e) => setForm({ ...form, built_rate_per_m2: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Per Floor (%)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={form.floor_modifier_percent}
+                  onChange={(e) => setForm({ ...form, floor_modifier_percent: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Minimum ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="None"
+                  value={form.minimum_amount}
+                  onChange={(e) => setForm({ ...form, minimum_amount: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Effective From *</Label>
+                <Input
+                  type="date"
+                  value={form.effective_from}
+                  onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Effective To</Label>
+                <Input
+                  type="date"
+                  value={form.effective_to}
+                  onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch checked={form.is_active} onCheckedChange={(checked) => setForm({ ...form, is_active: checked })} />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
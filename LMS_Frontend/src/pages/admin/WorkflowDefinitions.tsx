@@ -0,0 +1,472 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Edit, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { workflowService } from '@/services/workflowService';
+import {
+  ConditionOperator,
+  StageCondition,
+  WorkflowDefinition,
+  WorkflowEntityType,
+  WorkflowRole,
+  WorkflowStage,
+} from '@/types/workflow';
+
+interface StageForm {
+  key: string;
+  name: string;
+  order: string;
+  roles: WorkflowRole[];
+  required_approvals: string;
+  condition_field: string; // '' when the stage applies to every record
+  condition_operator: ConditionOperator;
+  condition_value: string;
+}
+
+interface DefinitionForm {
+  entity_type: WorkflowEntityType;
+  name: string;
+  stages: StageForm[];
+}
+
+type FieldType = 'number' | 'boolean' | 'string';
+
+// Mirrors the condition fields the backend accepts per entity type
+const CONDITION_FIELDS: Record<WorkflowEntityType, { field: string; label: string; type: FieldType }[]> = {
+  customer: [{ field: 'customer_type', label: 'Customer type', type: 'string' }],
+  property: [
+    { field: 'size', label: 'Size (m²)', type: 'number' },
+    { field: 'parcel_area', label: 'Parcel area', type: 'number' },
+    { field: 'number_of_floors', label: 'Number of floors', type: 'number' },
+    { field: 'is_downtown', label: 'Downtown', type: 'boolean' },
+    { field: 'is_building', label: 'Building', type: 'boolean' },
+    { field: 'district_id', label: 'District ID', type: 'string' },
+    { field: 'property_type_id', label: 'Property type ID', type: 'string' },
+  ],
+};
+
+const OPERATORS: { value: ConditionOperator; label: string }[] = [
+  { value: 'gt', label: 'greater than' },
+  { value: 'gte', label: 'at least' },
+  { value: 'lt', label: 'less than' },
+  { value: 'lte', label: 'at most' },
+  { value: 'eq', label: 'equals' },
+  { value: 'neq', label: 'not equal to' },
+];
+
+const ROLES: WorkflowRole[] = ['APPROVER', 'ADMINISTRATOR'];
+
+const ENTITY_LABELS: Record<WorkflowEntityType, string> = {
+  customer: 'Customers',
+  property: 'Properties',
+};
+
+const NEW_STAGE: StageForm = {
+  key: '',
+  name: '',
+  order: '1',
+  roles: ['APPROVER', 'ADMINISTRATOR'],
+  required_approvals: '1',
+  condition_field: '',
+  condition_operator: 'gt',
+  condition_value: '',
+};
+
+const getField = (entityType: WorkflowEntityType, field: string) =>
+  CONDITION_FIELDS[entityType].find((option) => option.field === field);
+
+const describeCondition = (entityType: WorkflowEntityType, condition: StageCondition | null) => {
+  if (!condition) return 'All records';
+  const label = getField(entityType, condition.field)?.label || condition.field;
+  const operator = OPERATORS.find((option) => option.value === condition.operator)?.label || condition.operator;
+  return `${label} ${operator} ${String(condition.value)}`;
+};
+
+const toStageKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'stage';
+
+const toStageForm = (stage: WorkflowStage): StageForm => ({
+  key: stage.key,
+  name: stage.name,
+  order: String(stage.order),
+  roles: stage.roles,
+  required_approvals: String(stage.required_approvals),
+  condition_field: stage.condition?.field || '',
+  condition_operator: stage.condition?.operator || 'gt',
+  condition_value: stage.condition ? String(stage.condition.value) : '',
+});
+
+const toCondition = (entityType: WorkflowEntityType, stage: StageForm): StageCondition | null => {
+  const field = getField(entityType, stage.condition_field);
+  if (!field) return null;
+
+  const value =
+    field.type === 'number'
+      ? parseFloat(stage.condition_value)
+      : field.type === 'boolean'
+        ? stage.condition_value === 'true'
+        : stage.condition_value.trim();
+
+  return { field: field.field, operator: stage.condition_operator, value };
+};
+
+export default function WorkflowDefinitions() {
+  const [definitions, setDefinitions] = useState<WorkflowDefinition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<DefinitionForm | null>(null);
+
+  useEffect(() => {
+    loadDefinitions();
+  }, []);
+
+  const loadDefinitions = async () => {
+    try {
+      setLoading(true);
+      const data = await workflowService.getDefinitions();
+      setDefinitions(data || []);
+    } catch (error: any) {
+      console.error('Error loading workflow definitions:', error);
+      toast.error('Failed to load approval workflows');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (definition: WorkflowDefinition) => {
+    setForm({
+      entity_type: definition.entity_type,
+      name: definition.name,
+      stages: definition.stages.map(toStageForm),
+    });
+  };
+
+  const updateStage = (index: number, changes: Partial<StageForm>) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      stages: form.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)),
+    });
+  };
+
+  const toggleRole = (index: number, role: WorkflowRole, checked: boolean) => {
+    if (!form) return;
+    const roles = form.stages[index].roles;
+    updateStage(index, { roles: checked ? [...roles, role] : roles.filter((r) => r !== role) });
+  };
+
+  const addStage = () => {
+    if (!form) return;
+    const lastOrder = Math.max(0, ...form.stages.map((stage) => parseInt(stage.order, 10) || 0));
+    setForm({ ...form, stages: [...form.stages, { ...NEW_STAGE, order: String(lastOrder + 1) }] });
+  };
+
+  const removeStage = (index: number) => {
+    if (!form) return;
+    setForm({ ...form, stages: form.stages.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    if (!form.name.trim() || form.stages.length === 0) {
+      toast.error('A workflow needs a name and at least one stage');
+      return;
+    }
+    if (form.stages.some((stage) => !stage.name.trim() || stage.roles.length === 0)) {
+      toast.error('Every stage needs a name and at least one role');
+      return;
+    }
+    if (form.stages.some((stage) => stage.condition_field && stage.condition_value.trim() === '')) {
+      toast.error('Enter a value for every stage condition');
+      return;
+    }
+
+    // New stages get a key from their name; existing keys are kept
+    const usedKeys = new Set<string>();
+    const stages: WorkflowStage[] = form.stages.map((stage) => {
+      let key = stage.key || toStageKey(stage.name);
+      for (let suffix = 2; usedKeys.has(key); suffix++) {
+        key = `${stage.key || toStageKey(stage.name)}_${suffix}`;
+      }
+      usedKeys.add(key);
+
+      return {
+        key,
+        name: stage.name.trim(),
+        order: parseInt(stage.order, 10) || 1,
+        roles: stage.roles,
+        required_approvals: parseInt(stage.required_approvals, 10) || 1,
+        condition: toCondition(form.entity_type, stage),
+      };
+    });
+
+    setSaving(true);
+    try {
+      await workflowService.saveDefinition(form.entity_type, { name: form.name.trim(), stages });
+      toast.success('Approval workflow saved');
+      setForm(null);
+      loadDefinitions();
+    } catch (error: any) {
+      console.error('Error saving workflow definition:', error);
+      toast.error(error.message || 'Failed to save approval workflow');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+          <ListChecks className="h-8 w-8" />
+          Approval Workflows
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Stages a submitted customer or property must pass before it is approved
+        </p>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+      ) : (
+        definitions.map((definition) => (
+          <Card key={definition.entity_type}>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle>
+                    {ENTITY_LABELS[definition.entity_type]}: {definition.name}
+                  </CardTitle>
+                  <CardDescription>
+                    {definition.id
+                      ? definition.updated_at && `Last changed ${format(new Date(definition.updated_at), 'MMM dd, yyyy HH:mm')}`
+                      : 'Built-in single approval; no workflow defined yet'}
+                  </CardDescription>
+                </div>
+                <Button variant="outline" onClick={() => openDialog(definition)}>
+                  <Edit className="mr-2 h-4 w-4" />
+                  Edit Stages
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Roles</TableHead>
+                    <TableHead>Approvals</TableHead>
+                    <TableHead>Applies To</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {definition.stages.map((stage) => (
+                    <TableRow key={stage.key}>
+                      <TableCell>{stage.order}</TableCell>
+                      <TableCell className="font-medium">{stage.name}</TableCell>
+                      <TableCell className="space-x-1">
+                        {stage.roles.map((role) => (
+                          <Badge key={role} variant="outline">
+                            {role}
+                          </Badge>
+                        ))}
+                      </TableCell>
+                      <TableCell>{stage.required_approvals}</TableCell>
+                      <TableCell>{describeCondition(definition.entity_type, stage.condition)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit {form && ENTITY_LABELS[form.entity_type]} Workflow</DialogTitle>
+            <DialogDescription>
+              Stages with the same order run in parallel; a higher order starts once they are all approved. A user
+              approves at most one stage of a record. Records already under review keep their stages.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Name *</Label>
+                <Input value={form.name} maxLength={100} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+
+              {form.stages.map((stage, index) => {
+                const field = getField(form.entity_type, stage.condition_field);
+                return (
+                  <div key={index} className="border rounded-md p-4 space-y-4">
+                    <div className="grid grid-cols-12 gap-4 items-end">
+                      <div className="col-span-5 space-y-2">
+                        <Label>Stage Name *</Label>
+                        <Input
+                          value={stage.name}
+                          maxLength={100}
+                          onChange={(e) => updateStage(index, { name: e.target.value })}
+                        />
+                      </div>
+                      <div className="col-span-2 space-y-2">
+                        <Label>Order</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          max="20"
+                          value={stage.order}
+                          onChange={(e) => updateStage(index, { order: e.target.value })}
+                        />
+                      </div>
+                      <div className="col-span-2 space-y-2">
+                        <Label>Approvals</Label>
+                        <Input
+                          type="number"
+                          min="1"
+                          max="5"
+                          value={stage.required_approvals}
+                          onChange={(e) => updateStage(index, { required_approvals: e.target.value })}
+                        />
+                      </div>
+                      <div className="col-span-3 flex justify-end">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeStage(index)}
+                          disabled={form.stages.length === 1}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="flex gap-6">
+                      {ROLES.map((role) => (
+                        <div key={role} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`stage_${index}_${role}`}
+                            checked={stage.roles.includes(role)}
+                            onCheckedChange={(checked) => toggleRole(index, role, checked as boolean)}
+                          />
+                          <Label htmlFor={`stage_${index}_${role}`}>{role}</Label>
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-4">
+                      <div className="space-y-2">
+                        <Label>Applies To</Label>
+                        <Select
+                          value={stage.condition_field || 'all'}
+                          onValueChange={(value) =>
+                            updateStage(index, {
+                              condition_field: value === 'all' ? '' : value,
+                              condition_operator: getField(form.entity_type, value)?.type === 'number' ? 'gt' : 'eq',
+                              condition_value: '',
+                            })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="all">All records</SelectItem>
+                            {CONDITION_FIELDS[form.entity_type].map((option) => (
+                              <SelectItem key={option.field} value={option.field}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {field && (
+                        <>
+                          <div className="space-y-2">
+                            <Label>Condition</Label>
+                            <Select
+                              value={stage.condition_operator}
+                              onValueChange={(value) =>
+                                updateStage(index, { condition_operator: value as ConditionOperator })
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {OPERATORS.filter(
+                                  (option) => field.type === 'number' || option.value === 'eq' || option.value === 'neq'
+                                ).map((option) => (
+                                  <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          <div className="space-y-2">
+                            <Label>Value</Label>
+                            {field.type === 'boolean' ? (
+                              <Select
+                                value={stage.condition_value}
+                                onValueChange={(value) => updateStage(index, { condition_value: value })}
+                              >
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="true">Yes</SelectItem>
+                                  <SelectItem value="false">No</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Input
+                                type={field.type === 'number' ? 'number' : 'text'}
+                                value={stage.condition_value}
+                                onChange={(e) => updateStage(index, { condition_value: e.target.value })}
+                              />
+                            )}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              <Button variant="outline" onClick={addStage} disabled={form.stages.length >= 20}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Stage
+              </Button>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -39,6 +39,8 @@ import { SubmitConfirmationDialog } from '@/components/workflow/SubmitConfirmati
 import { RejectionBanner } from '@/components/workflow/RejectionBanner';
 import { ActivityLogTab } from '@/components/activity/ActivityLogTab';
 import { AuditLogViewer } from '@/components/audit/AuditLogViewer';
+import { CustomerStatementTab } from '@/components/customers/CustomerStatementTab';
+import { TaxClearanceCard } from '@/components/tax/TaxClearanceCard';
 
 const CustomerDetail = () => {
   const { id } = useParams<{ id: string }>();
@@ -298,6 +300,9 @@ const CustomerDetail = () => {
                 <p>Coming in Phase 3</p>
               </TooltipContent>
             </Tooltip>
+            <TabsTrigger value="statement">
+              Statement
+            </TabsTrigger>
             <TabsTrigger value="activity">
               Activity
             </TabsTrigger>
@@ -823,6 +828,11 @@ const CustomerDetail = () => {
           </Card>
         </TabsContent>
 
+        <TabsContent value="statement" className="mt-6 space-y-6">
+          <CustomerStatementTab customerId={customer.id} />
+          <TaxClearanceCard subject={{ customer_id: customer.id }} />
+        </TabsContent>
+
         <TabsContent value="activity" className="mt-6">
           <ActivityLogTab customerId={customer.id} />
         </TabsContent>
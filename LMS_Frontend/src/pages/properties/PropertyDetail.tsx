@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { propertyService } from '@/services/propertyService';
+import { taxService } from '@/services/taxService';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +13,9 @@ import { toast } from 'sonner';
 import { ActivityLogTab } from '@/components/activity/ActivityLogTab';
 import { AuditLogViewer } from '@/components/audit/AuditLogViewer';
 import { SubmitConfirmationDialog } from '@/components/workflow/SubmitConfirmationDialog';
+import { AllocatedPaymentDialog } from '@/components/tax/AllocatedPaymentDialog';
+import { TaxClearanceCard } from '@/components/tax/TaxClearanceCard';
+import { PropertyDebt } from '@/types/tax';
 import { format } from 'date-fns';
 
 export default function PropertyDetail() {
@@ -24,6 +28,8 @@ export default function PropertyDetail() {
   const [photos, setPhotos] = useState<any[]>([]);
   const [ownership, setOwnership] = useState<any[]>([]);
   const [taxAssessments, setTaxAssessments] = useState<any[]>([]);
+  const [taxDebt, setTaxDebt] = useState<PropertyDebt | null>(null);
+  const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
   const [submitDialogOpen, setSubmitDialogOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
 
@@ -60,9 +66,9 @@ export default function PropertyDetail() {
 
   const fetchTaxAssessments = async () => {
     try {
-      // Tax assessments will be included in property data or fetched separately
-      // For now, skip or implement taxService if needed
-      setTaxAssessments([]);
+      const debt = await taxService.getPropertyDebt(id!);
+      setTaxDebt(debt);
+      setTaxAssessments(debt.history || []);
     } catch (error) {
       console.error('Error fetching tax assessments:', error);
     }
@@ -666,7 +672,7 @@ export default function PropertyDetail() {
           </Card>
         </TabsContent>
 
-        <TabsContent value="tax">
+        <TabsContent value="tax" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
@@ -690,6 +696,29 @@ export default function PropertyDetail() {
                 </div>
               ) : (
                 <div className="space-y-6">
+                  {/* Total Debt Across Years */}
+                  {taxDebt && (
+                    <div className="flex items-center justify-between p-4 border rounded-lg">
+                      <div>
+                        <p className="text-sm text-muted-foreground">Total Owed Across All Years</p>
+                        <p className={`text-2xl font-bold ${taxDebt.total_outstanding > 0 ? 'text-destructive' : 'text-green-600'}`}>
+                          {formatCurrency(taxDebt.total_outstanding)}
+                        </p>
+                        {taxDebt.open_assessments.length > 0 && (
+                          <p className="text-sm text-muted-foreground">
+                            Unpaid years: {taxDebt.open_assessments.map((open) => open.tax_year).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      {profile?.role && ['INPUTTER', 'ADMINISTRATOR'].includes(profile.role) &&
+                        taxDebt.open_assessments.length > 0 && (
+                          <Button variant="outline" onClick={() => setPaymentDialogOpen(true)}>
+                            Pay Oldest First
+                          </Button>
+                        )}
+                    </div>
+                  )}
+
                   {/* Latest Assessment Card */}
                   {taxAssessments[0] && (
                     <div className="p-4 border rounded-lg bg-accent/50">
@@ -790,6 +819,7 @@ export default function PropertyDetail() {
               )}
             </CardContent>
           </Card>
+          <TaxClearanceCard subject={{ property_id: id }} />
         </TabsContent>
 
         <TabsContent value="activity">
@@ -812,6 +842,15 @@ export default function PropertyDetail() {
         onConfirm={handleSubmit}
         loading={submitting}
       />
+
+      {taxDebt && (
+        <AllocatedPaymentDialog
+          debt={taxDebt}
+          open={paymentDialogOpen}
+          onOpenChange={setPaymentDialogOpen}
+          onRecorded={fetchTaxAssessments}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,498 @@
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Hourglass, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { lookupService } from '@/services/lookupService';
+import { taxService } from '@/services/taxService';
+import { CustomerType } from '@/types/customer';
+import {
+  AGING_GROUP_LABELS,
+  AgedAssessment,
+  AgingBucketKey,
+  AgingFilters,
+  AgingGroup,
+  AgingGroupBy,
+  AgingReport,
+} from '@/types/tax';
+
+// Select value standing for "no filter"
+const ALL = 'ALL';
+
+const PAGE_SIZE = 25;
+
+const CUSTOMER_TYPE_LABELS: Record<CustomerType, string> = {
+  PERSON: 'Person',
+  BUSINESS: 'Business',
+  GOVERNMENT: 'Government',
+  MOSQUE_HOSPITAL: 'Mosque / Hospital',
+  NON_PROFIT: 'Non-Profit',
+  RESIDENTIAL: 'Residential',
+  RENTAL: 'Rental',
+};
+
+const BUCKET_COLORS: Record<AgingBucketKey, string> = {
+  DAYS_0_30: 'text-foreground',
+  DAYS_31_90: 'text-yellow-600',
+  DAYS_91_180: 'text-orange-600',
+  DAYS_OVER_180: 'text-destructive',
+};
+
+interface LookupOption {
+  id: string;
+  name: string;
+}
+
+// The report cell being drilled into; a missing group or bucket means all of them
+interface DrillDown {
+  group?: AgingGroup;
+  bucket?: AgingBucketKey;
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export default function ArrearsReport() {
+  const navigate = useNavigate();
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>('DISTRICT');
+  const [filters, setFilters] = useState<AgingFilters>({});
+  const [districts, setDistricts] = useState<LookupOption[]>([]);
+  const [subDistricts, setSubDistricts] = useState<LookupOption[]>([]);
+  const [propertyTypes, setPropertyTypes] = useState<LookupOption[]>([]);
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const [assessments, setAssessments] = useState<AgedAssessment[]>([]);
+  const [pagination, setPagination] = useState({ page: 1, total: 0, totalPages: 0 });
+  const [loadingAssessments, setLoadingAssessments] = useState(false);
+
+  useEffect(() => {
+    Promise.all([lookupService.getDistricts(), lookupService.getPropertyTypes()])
+      .then(([districtsData, propertyTypesData]) => {
+        setDistricts(districtsData || []);
+        setPropertyTypes(propertyTypesData || []);
+      })
+      .catch((error) => console.error('Error loading lookups:', error));
+  }, []);
+
+  useEffect(() => {
+    setSubDistricts([]);
+    if (filters.district_id) {
+      lookupService
+        .getSubDistricts(filters.district_id)
+        .then((data) => setSubDistricts(data || []))
+        .catch((error) => console.error('Error loading sub-districts:', error));
+    }
+  }, [filters.district_id]);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReport(await taxService.getArrearsAging(groupBy, filters));
+    } catch (error: any) {
+      console.error('Error loading arrears report:', error);
+      toast.error(error.message || 'Failed to load the arrears report');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupBy, filters]);
+
+  const loadAssessments = useCallback(async (page: number) => {
+    if (!drillDown) return;
+
+    setLoadingAssessments(true);
+    try {
+      const response = await taxService.getArrearsAgingAssessments({
+        ...filters,
+        ...(drillDown.group ? { group_by: groupBy, group_key: drillDown.group.key ?? '' } : {}),
+        bucket: drillDown.bucket,
+        page,
+        limit: PAGE_SIZE,
+      });
+      setAssessments(response.data || []);
+      setPagination({ page, total: response.meta.total, totalPages: response.meta.totalPages });
+    } catch (error: any) {
+      console.error('Error loading assessments in arrears:', error);
+      toast.error(error.message || 'Failed to load the assessments');
+    } finally {
+      setLoadingAssessments(false);
+    }
+  }, [drillDown, filters, groupBy]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  useEffect(() => {
+    loadAssessments(1);
+  }, [loadAssessments]);
+
+  // A new grouping or filter closes the drill-down, which belongs to the previous report
+  const setFilter = (changes: AgingFilters) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setDrillDown(null);
+  };
+
+  const changeGroupBy = (value: AgingGroupBy) => {
+    setGroupBy(value);
+    setDrillDown(null);
+  };
+
+  const groupLabel = (group: AgingGroup) =>
+    groupBy === 'CUSTOMER_TYPE' && group.key ? CUSTOMER_TYPE_LABELS[group.key as CustomerType] || group.label : group.label;
+
+  const bucketLabel = (bucket: AgingBucketKey) => report?.buckets.find((b) => b.key === bucket)?.label || bucket;
+
+  const drillDownTitle = () => {
+    if (!drillDown) return '';
+    const parts = [
+      drillDown.group ? groupLabel(drillDown.group) : `All ${AGING_GROUP_LABELS[groupBy].toLowerCase()}s`,
+      drillDown.bucket ? bucketLabel(drillDown.bucket) : 'all ages',
+    ];
+    return parts.join(' - ');
+  };
+
+  const amountCell = (amount: number, cell: DrillDown, className = '') => (
+    <TableCell className={`text-right ${className}`}>
+      {amount > 0 ? (
+        <button type="button" className="hover:underline" onClick={() => setDrillDown(cell)}>
+          {formatCurrency(amount)}
+        </button>
+      ) : (
+        <span className="text-muted-foreground">-</span>
+      )}
+    </TableCell>
+  );
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/tax')}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Hourglass className="h-8 w-8" />
+            Arrears Aging
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Outstanding tax past its due date across all years, by how long it has been overdue
+            {report && ` (as of ${format(new Date(report.as_of), 'MMM dd, yyyy')})`}
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2">
+              <Label>Group By</Label>
+              <Select value={groupBy} onValueChange={(value) => changeGroupBy(value as AgingGroupBy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AGING_GROUP_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tax_year">Tax Year</Label>
+              <Input
+                id="tax_year"
+                type="number"
+                min={2000}
+                max={2100}
+                placeholder="All years"
+                value={filters.tax_year || ''}
+                onChange={(e) => setFilter({ tax_year: parseInt(e.target.value) || undefined })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>District</Label>
+              <Select
+                value={filters.district_id || ALL}
+                onValueChange={(value) =>
+                  setFilter({ district_id: value === ALL ? undefined : value, sub_district_id: undefined })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All districts</SelectItem>
+                  {districts.map((district) => (
+                    <SelectItem key={district.id} value={district.id}>
+                      {district.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Sub-district</Label>
+              <Select
+                value={filters.sub_district_id || ALL}
+                onValueChange={(value) => setFilter({ sub_district_id: value === ALL ? undefined : value })}
+                disabled={!filters.district_id}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sub-districts</SelectItem>
+                  {subDistricts.map((subDistrict) => (
+                    <SelectItem key={subDistrict.id} value={subDistrict.id}>
+                      {subDistrict.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Property Type</Label>
+              <Select
+                value={filters.property_type || ALL}
+                onValueChange={(value) => setFilter({ property_type: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All property types</SelectItem>
+                  {propertyTypes.map((propertyType) => (
+                    <SelectItem key={propertyType.id} value={propertyType.name}>
+                      {propertyType.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Customer Type</Label>
+              <Select
+                value={filters.customer_type || ALL}
+                onValueChange={(value) => setFilter({ customer_type: value === ALL ? undefined : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All customer types</SelectItem>
+                  {Object.entries(CUSTOMER_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Bucket totals */}
+      {report && (
+        <div className="grid gap-4 md:grid-cols-5">
+          {report.buckets.map((bucket) => (
+            <Card
+              key={bucket.key}
+              className="cursor-pointer hover:shadow-lg transition-shadow"
+              onClick={() => setDrillDown({ bucket: bucket.key })}
+            >
+              <CardHeader className="pb-2">
+                <CardDescription>{bucket.label}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <p className={`text-2xl font-bold ${BUCKET_COLORS[bucket.key]}`}>
+                  {formatCurrency(report.totals.buckets[bucket.key])}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => setDrillDown({})}>
+            <CardHeader className="pb-2">
+              <CardDescription>Total in arrears</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{formatCurrency(report.totals.outstanding)}</p>
+              <p className="text-xs text-muted-foreground">{report.totals.count} assessments</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Aging by group */}
+      <Card>
+        <CardHeader>
+          <CardTitle>By {AGING_GROUP_LABELS[groupBy]}</CardTitle>
+          <CardDescription>Select an amount to list the assessments behind it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !report || report.groups.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No assessments are past due</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{AGING_GROUP_LABELS[groupBy]}</TableHead>
+                  <TableHead className="text-right">Assessments</TableHead>
+                  {report.buckets.map((bucket) => (
+                    <TableHead key={bucket.key} className="text-right">
+                      {bucket.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.groups.map((group) => (
+                  <TableRow key={group.key ?? ''}>
+                    <TableCell className="font-medium">{groupLabel(group)}</TableCell>
+                    <TableCell className="text-right">{group.count}</TableCell>
+                    {report.buckets.map((bucket) => (
+                      <Fragment key={bucket.key}>
+                        {amountCell(group.buckets[bucket.key], { group, bucket: bucket.key }, BUCKET_COLORS[bucket.key])}
+                      </Fragment>
+                    ))}
+                    {amountCell(group.outstanding, { group }, 'font-medium')}
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{report.totals.count}</TableCell>
+                  {report.buckets.map((bucket) => (
+                    <Fragment key={bucket.key}>
+                      {amountCell(report.totals.buckets[bucket.key], { bucket: bucket.key })}
+                    </Fragment>
+                  ))}
+                  {amountCell(report.totals.outstanding, {})}
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Drill-down */}
+      {drillDown && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle>{drillDownTitle()}</CardTitle>
+                <CardDescription>{pagination.total} assessments, longest overdue first</CardDescription>
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => setDrillDown(null)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loadingAssessments ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Assessment</TableHead>
+                    <TableHead>Year</TableHead>
+                    <TableHead>Parcel</TableHead>
+                    <TableHead>Owner</TableHead>
+                    <TableHead>District</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Days Overdue</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assessments.map((assessment) => (
+                    <TableRow
+                      key={assessment.id}
+                      className="cursor-pointer"
+                      onClick={() => navigate(`/tax/${assessment.id}`)}
+                    >
+                      <TableCell className="font-mono text-xs">{assessment.reference_id}</TableCell>
+                      <TableCell>{assessment.tax_year}</TableCell>
+                      <TableCell>{assessment.property.parcel_number}</TableCell>
+                      <TableCell>
+                        {assessment.owner ? (
+                          <>
+                            {assessment.owner.name}
+                            {assessment.owner.customer_type && (
+                              <Badge variant="outline" className="ml-2">
+                                {CUSTOMER_TYPE_LABELS[assessment.owner.customer_type] || assessment.owner.customer_type}
+                              </Badge>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">No owner</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {assessment.property.district || '-'}
+                        {assessment.property.sub_district && (
+                          <p className="text-xs text-muted-foreground">{assessment.property.sub_district}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(assessment.due_date), 'MMM dd, yyyy')}
+                      </TableCell>
+                      <TableCell className={`text-right ${BUCKET_COLORS[assessment.bucket]}`}>
+                        {assessment.days_past_due}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(assessment.outstanding_amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4">
+                <p className="text-sm text-muted-foreground">
+                  Page {pagination.page} of {pagination.totalPages}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadAssessments(pagination.page - 1)}
+                    disabled={pagination.page === 1 || loadingAssessments}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadAssessments(pagination.page + 1)}
+                    disabled={pagination.page >= pagination.totalPages || loadingAssessments}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,471 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, Ban, Landmark, Link2, Search, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BankLineBadge } from '@/components/tax/BankLineBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { taxService } from '@/services/taxService';
+import {
+  BANK_LINE_LABELS,
+  BankLineAssessment,
+  BankLineStatus,
+  BankStatementImportDetail,
+  BankStatementLine,
+} from '@/types/tax';
+
+const OPEN_STATUSES = ['ASSESSED', 'PARTIAL', 'OVERDUE'];
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export default function BankImportDetail() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [statement, setStatement] = useState<BankStatementImportDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [status, setStatus] = useState<string>('ALL');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [posting, setPosting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [assignLine, setAssignLine] = useState<BankStatementLine | null>(null);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<BankLineAssessment[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [ignoreLine, setIgnoreLine] = useState<BankStatementLine | null>(null);
+  const [ignoreReason, setIgnoreReason] = useState('');
+
+  const canReconcile = profile?.role === 'INPUTTER' || profile?.role === 'ADMINISTRATOR';
+
+  const loadStatement = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      const data = await taxService.getBankImport(id);
+      setStatement(data);
+      // Keep only selections that can still be posted
+      setSelected((current) =>
+        current.filter((lineId) => data.lines.some((line) => line.id === lineId && line.status === 'MATCHED'))
+      );
+    } catch (error: any) {
+      console.error('Error loading bank statement import:', error);
+      toast.error(error.message || 'Failed to load bank statement import');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  if (loading && !statement) {
+    return <div className="container mx-auto py-6 text-center text-muted-foreground">Loading...</div>;
+  }
+
+  if (!statement) {
+    return <div className="container mx-auto py-6 text-center text-muted-foreground">Bank statement import not found</div>;
+  }
+
+  const lines = status === 'ALL' ? statement.lines : statement.lines.filter((line) => line.status === status);
+  const matched = statement.lines.filter((line) => line.status === 'MATCHED');
+  const countOf = (lineStatus: BankLineStatus) => statement.lines.filter((line) => line.status === lineStatus).length;
+  const matchedTotal = matched.reduce((sum, line) => sum + line.amount, 0);
+
+  const toggleSelected = (lineId: string, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, lineId] : current.filter((value) => value !== lineId)));
+
+  const handlePost = async () => {
+    setPosting(true);
+    try {
+      const result = await taxService.postBankLines(statement.id, selected.length > 0 ? selected : undefined);
+      if (result.posted > 0) {
+        toast.success(`${result.posted} payment(s) posted`);
+      }
+      if (result.failed.length > 0) {
+        toast.error(
+          `${result.failed.length} line(s) could not be posted: ` +
+            result.failed.map((failure) => `line ${failure.line_number} (${failure.error})`).join('; ')
+        );
+      }
+      setSelected([]);
+      loadStatement();
+    } catch (error: any) {
+      console.error('Error posting bank statement lines:', error);
+      toast.error(error.message || 'Failed to post payments');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const openAssign = (line: BankStatementLine) => {
+    setAssignLine(line);
+    setSearch('');
+    setResults(null);
+  };
+
+  const handleSearch = async () => {
+    if (search.trim().length < 3) {
+      toast.error('Enter at least 3 characters of the assessment reference');
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const response = await taxService.getAssessments({ search: search.trim(), limit: 20 });
+      const assessments = (response.data || []) as BankLineAssessment[];
+      setResults(
+        assessments.filter(
+          (assessment) => OPEN_STATUSES.includes(assessment.status) && Number(assessment.outstanding_amount) > 0
+        )
+      );
+    } catch (error: any) {
+      console.error('Error searching assessments:', error);
+      toast.error('Failed to search assessments');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleAssign = async (assessment: BankLineAssessment) => {
+    if (!assignLine) return;
+
+    setSaving(true);
+    try {
+      await taxService.assignBankLine(assignLine.id, assessment.id);
+      toast.success(`Line ${assignLine.line_number} assigned to ${assessment.reference_id}`);
+      setAssignLine(null);
+      loadStatement();
+    } catch (error: any) {
+      console.error('Error assigning bank statement line:', error);
+      toast.error(error.message || 'Failed to assign line');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleIgnore = async () => {
+    if (!ignoreLine) return;
+    if (ignoreReason.trim().length < 3) {
+      toast.error('Give a reason for ignoring the line');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await taxService.ignoreBankLine(ignoreLine.id, ignoreReason.trim());
+      toast.success(`Line ${ignoreLine.line_number} ignored`);
+      setIgnoreLine(null);
+      loadStatement();
+    } catch (error: any) {
+      console.error('Error ignoring bank statement line:', error);
+      toast.error(error.message || 'Failed to ignore line');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderAssessment = (assessment: BankLineAssessment) => (
+    <div>
+      <Link to={`/tax/${assessment.id}`} className="font-mono text-xs text-primary hover:underline">
+        {assessment.reference_id}
+      </Link>
+      <p className="text-xs text-muted-foreground">
+        {assessment.properties?.parcel_number || '-'} · {formatCurrency(Number(assessment.outstanding_amount))} open
+      </p>
+    </div>
+  );
+
+  const assessmentChoices = (assessments: BankLineAssessment[]) => (
+    <div className="space-y-2">
+      {assessments.map((assessment) => (
+        <div key={assessment.id} className="flex items-center justify-between border rounded-md p-2">
+          <div>
+            <p className="font-mono text-sm">{assessment.reference_id}</p>
+            <p className="text-xs text-muted-foreground">
+              {assessment.tax_year} · {assessment.properties?.parcel_number || '-'} ·{' '}
+              {formatCurrency(Number(assessment.outstanding_amount))} outstanding
+            </p>
+          </div>
+          <Button size="sm" onClick={() => handleAssign(assessment)} disabled={saving}>
+            Assign
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div className="flex items-start gap-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate('/bank-reconciliation')}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+              <Landmark className="h-8 w-8" />
+              {statement.filename}
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              {statement.format === 'CAMT053' ? 'CAMT.053' : statement.format}
+              {statement.account && ` · account ${statement.account}`} · imported{' '}
+              {format(new Date(statement.created_at), 'MMM dd, yyyy HH:mm')} by {statement.importer?.full_name || '-'}
+              {statement.duplicate_count > 0 && ` · ${statement.duplicate_count} line(s) skipped as already imported`}
+            </p>
+          </div>
+        </div>
+        {canReconcile && matched.length > 0 && (
+          <Button onClick={handlePost} disabled={posting}>
+            <Send className="mr-2 h-4 w-4" />
+            {posting
+              ? 'Posting...'
+              : selected.length > 0
+                ? `Post Selected (${selected.length})`
+                : `Post All Matched (${matched.length})`}
+          </Button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-5">
+        {(Object.keys(BANK_LINE_LABELS) as BankLineStatus[]).map((lineStatus) => (
+          <Card
+            key={lineStatus}
+            className={`cursor-pointer ${status === lineStatus ? 'border-primary' : ''}`}
+            onClick={() => setStatus(status === lineStatus ? 'ALL' : lineStatus)}
+          >
+            <CardHeader className="pb-2">
+              <CardDescription>{BANK_LINE_LABELS[lineStatus]}</CardDescription>
+              <CardTitle className="text-2xl">{countOf(lineStatus)}</CardTitle>
+            </CardHeader>
+            {lineStatus === 'MATCHED' && (
+              <CardContent className="text-xs text-muted-foreground">{formatCurrency(matchedTotal)} to post</CardContent>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Statement Lines</CardTitle>
+              <CardDescription>
+                Assign ambiguous and unmatched lines to an assessment, or ignore lines that are not tax payments
+              </CardDescription>
+            </div>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Lines</SelectItem>
+                {Object.entries(BANK_LINE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No lines with this status</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canReconcile && <TableHead className="w-8" />}
+                  <TableHead>#</TableHead>
+                  <TableHead>Booked</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Assessment</TableHead>
+                  {canReconcile && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    {canReconcile && (
+                      <TableCell>
+                        {line.status === 'MATCHED' && (
+                          <Checkbox
+                            checked={selected.includes(line.id)}
+                            onCheckedChange={(checked) => toggleSelected(line.id, checked === true)}
+                          />
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>{line.line_number}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(line.booking_date), 'MMM dd, yyyy')}
+                    </TableCell>
+                    <TableCell className={`text-right whitespace-nowrap ${line.amount < 0 ? 'text-destructive' : ''}`}>
+                      {formatCurrency(line.amount)}
+                    </TableCell>
+                    <TableCell className="max-w-[320px]">
+                      <p className="text-sm break-words">{line.narrative || '-'}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {[line.counterparty, line.bank_reference && `ref ${line.bank_reference}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <BankLineBadge status={line.status} />
+                      {line.match_reason && (
+                        <p className="text-xs text-muted-foreground mt-1 max-w-[220px]">{line.match_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {line.assessment ? (
+                        renderAssessment(line.assessment)
+                      ) : line.candidates.length > 0 ? (
+                        <div className="space-y-1">
+                          {line.candidates.map((candidate) => (
+                            <div key={candidate.id}>{renderAssessment(candidate)}</div>
+                          ))}
+                        </div>
+                      ) : (
+                        '-'
+                      )}
+                      {line.payment && (
+                        <p className="text-xs text-green-600 mt-1">Receipt {line.payment.receipt_number}</p>
+                      )}
+                    </TableCell>
+                    {canReconcile && (
+                      <TableCell>
+                        {line.status !== 'POSTED' && (
+                          <div className="flex gap-1">
+                            {line.amount > 0 && (
+                              <Button size="sm" variant="outline" title="Assign" onClick={() => openAssign(line)}>
+                                <Link2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                            {line.status !== 'IGNORED' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                title="Ignore"
+                                onClick={() => {
+                                  setIgnoreLine(line);
+                                  setIgnoreReason('');
+                                }}
+                              >
+                                <Ban className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Assign Dialog */}
+      <Dialog open={assignLine !== null} onOpenChange={(open) => !open && setAssignLine(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Assign Line {assignLine?.line_number}</DialogTitle>
+            <DialogDescription>
+              {assignLine && `${formatCurrency(assignLine.amount)} booked ${assignLine.booking_date}: ${assignLine.narrative || '-'}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {assignLine && assignLine.candidates.length > 0 && (
+              <div className="space-y-2">
+                <Label>Assessments named on the line</Label>
+                {assessmentChoices(assignLine.candidates)}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="assessment_search">Find an open assessment</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="assessment_search"
+                  placeholder="e.g. TAX-2025-00012"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+                />
+                <Button variant="outline" onClick={handleSearch} disabled={searching}>
+                  <Search className="h-4 w-4" />
+                </Button>
+              </div>
+              {results &&
+                (results.length > 0 ? (
+                  assessmentChoices(results)
+                ) : (
+                  <p className="text-xs text-muted-foreground">No open assessment found</p>
+                ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignLine(null)} disabled={saving}>
+              Cancel
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Ignore Dialog */}
+      <Dialog open={ignoreLine !== null} onOpenChange={(open) => !open && setIgnoreLine(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ignore Line {ignoreLine?.line_number}</DialogTitle>
+            <DialogDescription>
+              Ignored lines are not posted. You can still assign the line to an assessment later.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="ignore_reason">Reason</Label>
+            <Textarea
+              id="ignore_reason"
+              value={ignoreReason}
+              onChange={(e) => setIgnoreReason(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="e.g. Not a property tax payment"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIgnoreLine(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleIgnore} disabled={saving}>
+              {saving ? 'Saving...' : 'Ignore Line'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Eye, Landmark, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import { taxService } from '@/services/taxService';
+import { BankStatementImport } from '@/types/tax';
+
+const FORMAT_LABELS = {
+  CSV: 'CSV',
+  MT940: 'MT940',
+  CAMT053: 'CAMT.053',
+};
+
+export default function BankReconciliation() {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [imports, setImports] = useState<BankStatementImport[]>([]);
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const canReconcile = profile?.role === 'INPUTTER' || profile?.role === 'ADMINISTRATOR';
+
+  useEffect(() => {
+    loadImports();
+  }, []);
+
+  const loadImports = async () => {
+    try {
+      setLoading(true);
+      const data = await taxService.getBankImports();
+      setImports(data || []);
+    } catch (error: any) {
+      console.error('Error loading bank statement imports:', error);
+      toast.error('Failed to load bank statement imports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) {
+      toast.error('Choose a statement file first');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const summary = await taxService.importBankStatement(file);
+      toast.success(
+        `Imported ${summary.lines} line(s): ${summary.matched} matched, ${summary.ambiguous} ambiguous, ` +
+          `${summary.unmatched} unmatched` +
+          (summary.duplicates > 0 ? `, ${summary.duplicates} already imported` : '')
+      );
+      navigate(`/bank-reconciliation/${summary.import_id}`);
+    } catch (error: any) {
+      console.error('Error importing bank statement:', error);
+      toast.error(error.message || 'Failed to import bank statement');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const count = (statement: BankStatementImport, status: keyof NonNullable<BankStatementImport['status_counts']>) =>
+    statement.status_counts?.[status] || 0;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+          <Landmark className="h-8 w-8" />
+          Bank Reconciliation
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          Import bank statements and post the transfers they contain as payments
+        </p>
+      </div>
+
+      {canReconcile && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Statement</CardTitle>
+            <CardDescription>
+              CSV, MT940 or CAMT.053 XML. Lines naming an assessment (TAX-YYYY-NNNNN) or an earlier receipt
+              (RCPT-YYYY-NNNNN) are matched automatically; lines imported before are skipped.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex gap-2 items-center">
+              <Input
+                type="file"
+                accept=".csv,.txt,.sta,.mt940,.940,.xml"
+                className="max-w-md"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+              <Button onClick={handleImport} disabled={!file || importing}>
+                <Upload className="mr-2 h-4 w-4" />
+                {importing ? 'Importing...' : 'Import'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Imported Statements</CardTitle>
+          <CardDescription>Open a statement to assign its unmatched lines and post the matched ones</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : imports.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No bank statements imported yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Imported</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Format</TableHead>
+                  <TableHead>Account</TableHead>
+                  <TableHead className="text-right">Lines</TableHead>
+                  <TableHead className="text-right">Matched</TableHead>
+                  <TableHead className="text-right">To Review</TableHead>
+                  <TableHead className="text-right">Posted</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map((statement) => {
+                  const toReview = count(statement, 'AMBIGUOUS') + count(statement, 'UNMATCHED');
+                  return (
+                    <TableRow key={statement.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(statement.created_at), 'MMM dd, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell className="max-w-[220px] truncate" title={statement.filename}>
+                        {statement.filename}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{FORMAT_LABELS[statement.format]}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{statement.account || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {statement.line_count}
+                        {statement.duplicate_count > 0 && (
+                          <span className="text-xs text-muted-foreground"> (+{statement.duplicate_count} skipped)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{count(statement, 'MATCHED')}</TableCell>
+                      <TableCell className={`text-right ${toReview > 0 ? 'text-orange-600 font-medium' : ''}`}>
+                        {toReview}
+                      </TableCell>
+                      <TableCell className="text-right">{count(statement, 'POSTED')}</TableCell>
+                      <TableCell>{statement.importer?.full_name || '-'}</TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`/bank-reconciliation/${statement.id}`)}
+                        >
+                          <Eye className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,436 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowLeft, CheckCircle, FileDown, Lock, RotateCcw, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CashierSessionBadge } from '@/components/tax/CashierSessionBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { downloadBlob } from '@/lib/export-utils';
+import { taxService } from '@/services/taxService';
+import { CashierSessionDetail as CashierSessionData, PaymentMethod } from '@/types/tax';
+
+type ReviewMode = 'approve' | 'return';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const formatMethod = (method: string) => method.replace(/_/g, ' ');
+
+const varianceClass = (variance: number) =>
+  variance < 0 ? 'text-destructive' : variance > 0 ? 'text-green-600' : '';
+
+export default function CashierSessionDetail() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { profile, user } = useAuth();
+  const [session, setSession] = useState<CashierSessionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [closing, setClosing] = useState(false);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [closingNotes, setClosingNotes] = useState('');
+  const [reviewMode, setReviewMode] = useState<ReviewMode | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+
+  const loadSession = useCallback(async () => {
+    if (!id) return;
+
+    try {
+      setLoading(true);
+      setSession(await taxService.getCashierSession(id));
+    } catch (error: any) {
+      console.error('Error loading cashier session:', error);
+      toast.error(error.message || 'Failed to load cashier session');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadSession();
+  }, [loadSession]);
+
+  if (loading && !session) {
+    return <div className="container mx-auto py-6 text-center text-muted-foreground">Loading...</div>;
+  }
+
+  if (!session) {
+    return <div className="container mx-auto py-6 text-center text-muted-foreground">Cashier session not found</div>;
+  }
+
+  const isCashier = session.cashier_id === user?.id;
+  const unsettled = session.status === 'OPEN' || session.status === 'RETURNED';
+  const canClose = isCashier && unsettled;
+  const canReview =
+    !isCashier && session.status === 'CLOSED' && (profile?.role === 'APPROVER' || profile?.role === 'ADMINISTRATOR');
+
+  const sum = (field: 'expected_amount' | 'counted_amount' | 'variance') =>
+    session.totals.reduce((total, line) => total + line[field], 0);
+
+  const openClose = () => {
+    setCounts(Object.fromEntries(session.totals.map((total) => [total.payment_method, ''])));
+    setClosingNotes('');
+    setClosing(true);
+  };
+
+  const handleClose = async () => {
+    const entries = Object.entries(counts);
+    if (entries.some(([, value]) => value === '' || isNaN(parseFloat(value)) || parseFloat(value) < 0)) {
+      toast.error('Enter the counted amount for every payment method');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data = await taxService.closeCashierSession(session.id, {
+        counts: entries.map(([method, value]) => ({
+          payment_method: method as PaymentMethod,
+          counted_amount: parseFloat(value),
+        })),
+        notes: closingNotes.trim() || null,
+      });
+      toast.success('Session closed and sent for approval');
+      setClosing(false);
+      setSession(data);
+    } catch (error: any) {
+      console.error('Error closing cashier session:', error);
+      toast.error(error.message || 'Failed to close cashier session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReview = async () => {
+    if (reviewMode === 'return' && reviewNotes.trim().length < 3) {
+      toast.error('Say what needs to be recounted');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const data =
+        reviewMode === 'approve'
+          ? await taxService.approveCashierSession(session.id, reviewNotes.trim() || undefined)
+          : await taxService.returnCashierSession(session.id, reviewNotes.trim());
+      toast.success(reviewMode === 'approve' ? 'Cashier session approved' : 'Cashier session returned for a recount');
+      setReviewMode(null);
+      setSession(data);
+    } catch (error: any) {
+      console.error('Error reviewing cashier session:', error);
+      toast.error(error.message || 'Failed to review cashier session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleZReport = async () => {
+    try {
+      const blob = await taxService.downloadZReport(session.id);
+      downloadBlob(blob, `z-report_${session.session_number}.pdf`);
+    } catch (error: any) {
+      console.error('Error downloading Z-report:', error);
+      toast.error(error.message || 'Failed to download Z-report');
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div>
+        <Button variant="ghost" size="sm" onClick={() => navigate('/cashier')}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Cashier Sessions
+        </Button>
+        <div className="flex justify-between items-start mt-2">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+              <Wallet className="h-8 w-8" />
+              {session.session_number}
+              <CashierSessionBadge status={session.status} />
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              {session.cashier?.full_name || 'Unknown cashier'}, opened{' '}
+              {format(new Date(session.opened_at), 'MMM dd, yyyy HH:mm')}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {canClose && (
+              <Button onClick={openClose}>
+                <Lock className="h-4 w-4 mr-2" />
+                Close Session
+              </Button>
+            )}
+            {canReview && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setReviewNotes('');
+                    setReviewMode('return');
+                  }}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Return for Recount
+                </Button>
+                <Button
+                  onClick={() => {
+                    setReviewNotes('');
+                    setReviewMode('approve');
+                  }}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Approve
+                </Button>
+              </>
+            )}
+            {!unsettled && (
+              <Button variant="outline" onClick={handleZReport}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Z-Report
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {isCashier && session.status === 'RETURNED' && (
+        <Alert variant="destructive">
+          <RotateCcw className="h-4 w-4" />
+          <AlertTitle>Returned for a recount</AlertTitle>
+          <AlertDescription>
+            A returned session takes no payments, and no new session can be opened until it is closed again.
+            Recount the till and close the session, then open a new session to continue taking payments.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Session</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-3 text-sm">
+            <div>
+              <p className="text-muted-foreground">Opening Float</p>
+              <p className="font-medium">{formatCurrency(session.opening_float)}</p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Closed</p>
+              <p className="font-medium">
+                {session.closed_at ? format(new Date(session.closed_at), 'MMM dd, yyyy HH:mm') : '-'}
+              </p>
+            </div>
+            <div>
+              <p className="text-muted-foreground">Reviewed</p>
+              <p className="font-medium">
+                {session.reviewed_at
+                  ? `${session.reviewer?.full_name || '-'}, ${format(new Date(session.reviewed_at), 'MMM dd, yyyy HH:mm')}`
+                  : '-'}
+              </p>
+            </div>
+            {session.opening_notes && (
+              <div>
+                <p className="text-muted-foreground">Opening Notes</p>
+                <p>{session.opening_notes}</p>
+              </div>
+            )}
+            {session.closing_notes && (
+              <div>
+                <p className="text-muted-foreground">Cashier Notes</p>
+                <p>{session.closing_notes}</p>
+              </div>
+            )}
+            {session.review_notes && (
+              <div>
+                <p className="text-muted-foreground">Supervisor Notes</p>
+                <p>{session.review_notes}</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reconciliation</CardTitle>
+          <CardDescription>
+            {unsettled
+              ? 'Running totals of the payments taken so far; cash includes the opening float'
+              : 'Counted against expected per payment method; a negative variance is a shortage'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Payment Method</TableHead>
+                <TableHead className="text-right">Payments</TableHead>
+                <TableHead className="text-right">Expected</TableHead>
+                {!unsettled && <TableHead className="text-right">Counted</TableHead>}
+                {!unsettled && <TableHead className="text-right">Variance</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {session.totals.map((total) => (
+                <TableRow key={total.payment_method}>
+                  <TableCell>{formatMethod(total.payment_method)}</TableCell>
+                  <TableCell className="text-right">{total.payment_count}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(total.expected_amount)}</TableCell>
+                  {!unsettled && <TableCell className="text-right">{formatCurrency(total.counted_amount)}</TableCell>}
+                  {!unsettled && (
+                    <TableCell className={`text-right ${varianceClass(total.variance)}`}>
+                      {formatCurrency(total.variance)}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{session.payments.length}</TableCell>
+                <TableCell className="text-right">{formatCurrency(sum('expected_amount'))}</TableCell>
+                {!unsettled && <TableCell className="text-right">{formatCurrency(sum('counted_amount'))}</TableCell>}
+                {!unsettled && (
+                  <TableCell className={`text-right ${varianceClass(session.total_variance)}`}>
+                    {formatCurrency(session.total_variance)}
+                  </TableCell>
+                )}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {session.payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No payments taken in this session</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Assessment</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {session.payments.map((payment) => (
+                  <TableRow key={payment.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(payment.created_at), 'HH:mm')}</TableCell>
+                    <TableCell className="font-mono text-xs">{payment.receipt_number}</TableCell>
+                    <TableCell className="font-mono text-xs">{payment.assessment_reference_id}</TableCell>
+                    <TableCell>{formatMethod(payment.payment_method)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.amount_paid)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={closing} onOpenChange={setClosing}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Close Cashier Session</DialogTitle>
+            <DialogDescription>
+              Count the till and enter the amount per payment method. Cash includes the opening float. No further
+              payments can be recorded in this session once it is closed.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {Object.keys(counts).map((method) => (
+              <div key={method} className="space-y-2">
+                <Label htmlFor={`count_${method}`}>{formatMethod(method)} counted *</Label>
+                <Input
+                  id={`count_${method}`}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={counts[method]}
+                  onChange={(e) => setCounts({ ...counts, [method]: e.target.value })}
+                />
+              </div>
+            ))}
+            <div className="space-y-2">
+              <Label htmlFor="closing_notes">Notes</Label>
+              <Textarea
+                id="closing_notes"
+                value={closingNotes}
+                onChange={(e) => setClosingNotes(e.target.value)}
+                maxLength={1000}
+                rows={2}
+                placeholder="Explain any difference"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClosing(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleClose} disabled={saving}>
+              {saving ? 'Closing...' : 'Close Session'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={reviewMode !== null} onOpenChange={(open) => !open && setReviewMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewMode === 'approve' ? 'Approve Close' : 'Return for Recount'}</DialogTitle>
+            <DialogDescription>
+              {reviewMode === 'approve'
+                ? `Total variance ${formatCurrency(session.total_variance)}. Approving signs off the session.`
+                : 'The cashier recounts the till and closes the session again.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review_notes">
+              Notes {reviewMode === 'return' && <span className="text-destructive">*</span>}
+            </Label>
+            <Textarea
+              id="review_notes"
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewMode(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewMode === 'return' ? 'destructive' : 'default'}
+              onClick={handleReview}
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : reviewMode === 'approve' ? 'Approve' : 'Return'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
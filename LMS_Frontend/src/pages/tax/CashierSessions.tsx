@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Eye, Plus, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { CashierSessionBadge } from '@/components/tax/CashierSessionBadge';
+import { useAuth } from '@/contexts/AuthContext';
+import { taxService } from '@/services/taxService';
+import { CASHIER_SESSION_LABELS, CashierSession, CashierSessionDetail, CashierSessionStatus } from '@/types/tax';
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+export default function CashierSessions() {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [sessions, setSessions] = useState<CashierSession[]>([]);
+  const [current, setCurrent] = useState<CashierSessionDetail | null>(null);
+  const [status, setStatus] = useState<string>('ALL');
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState('0');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canCollect = profile?.role === 'INPUTTER' || profile?.role === 'ADMINISTRATOR';
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await taxService.getCashierSessions(
+        status === 'ALL' ? {} : { status: status as CashierSessionStatus }
+      );
+      setSessions(data || []);
+    } catch (error: any) {
+      console.error('Error loading cashier sessions:', error);
+      toast.error('Failed to load cashier sessions');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  const loadCurrent = useCallback(async () => {
+    try {
+      setCurrent(await taxService.getCurrentCashierSession());
+    } catch (error: any) {
+      console.error('Error loading current cashier session:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  useEffect(() => {
+    if (canCollect) loadCurrent();
+  }, [canCollect, loadCurrent]);
+
+  const handleOpen = async () => {
+    const amount = parseFloat(openingFloat || '0');
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Opening float must be zero or more');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const session = await taxService.openCashierSession({ opening_float: amount, notes: notes.trim() || null });
+      toast.success(`Cashier session ${session.session_number} opened`);
+      setDialogOpen(false);
+      setCurrent(session);
+      loadSessions();
+    } catch (error: any) {
+      console.error('Error opening cashier session:', error);
+      toast.error(error.message || 'Failed to open cashier session');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getVariance = (session: CashierSession) =>
+    (session.counts || []).reduce((sum, count) => sum + Number(count.variance), 0);
+
+  const expectedTotal = current ? current.totals.reduce((sum, total) => sum + total.expected_amount, 0) : 0;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Wallet className="h-8 w-8" />
+            Cashier Sessions
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Open a till before taking payments and reconcile it at the end of the day
+          </p>
+        </div>
+        {canCollect && !current && (
+          <Button
+            onClick={() => {
+              setOpeningFloat('0');
+              setNotes('');
+              setDialogOpen(true);
+            }}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Open Session
+          </Button>
+        )}
+      </div>
+
+      {canCollect && current && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  My Session {current.session_number}
+                  <CashierSessionBadge status={current.status} />
+                </CardTitle>
+                <CardDescription>
+                  Opened {format(new Date(current.opened_at), 'MMM dd, yyyy HH:mm')} with a float of{' '}
+                  {formatCurrency(current.opening_float)}
+                  {current.status === 'RETURNED' && current.review_notes && ` - returned: ${current.review_notes}`}
+                </CardDescription>
+              </div>
+              <Button onClick={() => navigate(`/cashier/${current.id}`)}>
+                {current.status === 'RETURNED' ? 'Recount & Close' : 'View & Close'}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {current.status === 'RETURNED' && (
+              <p className="text-sm text-destructive">
+                No payments can be taken in a returned session. Recount and close it, then open a new session.
+              </p>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <p className="text-sm text-muted-foreground">Payments Taken</p>
+                <p className="text-2xl font-bold">{current.payments.length}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Expected in Till (incl. float)</p>
+                <p className="text-2xl font-bold">{formatCurrency(expectedTotal)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Sessions</CardTitle>
+              <CardDescription>
+                {profile?.role === 'INPUTTER' ? 'Your cashier sessions' : 'Cashier sessions of all collectors'}
+              </CardDescription>
+            </div>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="ALL">All Statuses</SelectItem>
+                {Object.entries(CASHIER_SESSION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Loading...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No cashier sessions found</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Session</TableHead>
+                  <TableHead>Cashier</TableHead>
+                  <TableHead>Opened</TableHead>
+                  <TableHead>Closed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => {
+                  const variance = getVariance(session);
+                  return (
+                    <TableRow key={session.id}>
+                      <TableCell className="font-mono text-xs">{session.session_number}</TableCell>
+                      <TableCell>{session.cashier?.full_name || '-'}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(session.opened_at), 'MMM dd, yyyy HH:mm')}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {session.closed_at ? format(new Date(session.closed_at), 'MMM dd, yyyy HH:mm') : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <CashierSessionBadge status={session.status} />
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${variance < 0 ? 'text-destructive' : variance > 0 ? 'text-green-600' : ''}`}
+                      >
+                        {session.counts && session.counts.length > 0 ? formatCurrency(variance) : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Button size="sm" variant="outline" onClick={() => navigate(`/cashier/${session.id}`)}>
+                          <Eye className="h-3 w-3" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Open Cashier Session</DialogTitle>
+            <DialogDescription>
+              Payments you record are attached to this session until you close it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening_float">Opening Float (cash in the till)</Label>
+              <Input
+                id="opening_float"
+                type="number"
+                min={0}
+                step="0.01"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opening_notes">Notes</Label>
+              <Textarea id="opening_notes" value={notes} onChange={(e) => setNotes(e.target.value)} maxLength={500} rows={2} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleOpen} disabled={saving}>
+              {saving ? 'Opening...' : 'Open Session'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
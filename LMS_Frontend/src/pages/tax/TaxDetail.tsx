@@ -22,9 +22,24 @@ import {
   BreadcrumbSeparator,
 } from '@/components/ui/breadcrumb';
 import { toast } from '@/hooks/use-toast';
-import { ArrowLeft, Edit, Plus, Check, X, Home, Building2, FileText } from 'lucide-react';
-import { TaxAssessment, TaxPayment, TaxStatus } from '@/types/tax';
+import { ArrowLeft, Edit, Plus, Check, X, Home, Building2, FileText, Undo2, HandCoins, Printer } from 'lucide-react';
+import {
+  InstallmentPlan,
+  PaymentAdjustment,
+  PaymentAdjustmentType,
+  TaxAssessment,
+  TaxNotice,
+  TaxPayment,
+  TaxStatus,
+} from '@/types/tax';
+import { CalculationBreakdown } from '@/components/tax/CalculationBreakdown';
+import { InstallmentPlanCard } from '@/components/tax/InstallmentPlanCard';
+import { MobileMoneyCard } from '@/components/tax/MobileMoneyCard';
+import { PropertyDebtCard } from '@/components/tax/PropertyDebtCard';
+import { PaymentAdjustmentDialog } from '@/components/tax/PaymentAdjustmentDialog';
+import { PendingPaymentAdjustments } from '@/components/tax/PendingPaymentAdjustments';
 import { format } from 'date-fns';
+import { downloadBlob } from '@/lib/export-utils';
 
 export default function TaxDetail() {
   const { id } = useParams();
@@ -32,10 +47,15 @@ export default function TaxDetail() {
   const { profile } = useAuth();
   const [assessment, setAssessment] = useState<TaxAssessment | null>(null);
   const [payments, setPayments] = useState<TaxPayment[]>([]);
+  const [pendingAdjustments, setPendingAdjustments] = useState<PaymentAdjustment[]>([]);
+  const [notices, setNotices] = useState<TaxNotice[]>([]);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlan[]>([]);
+  const [adjusting, setAdjusting] = useState<{ payment: TaxPayment; type: PaymentAdjustmentType } | null>(null);
   const [activityLogs, setActivityLogs] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
 
   const canEdit = profile?.role && ['INPUTTER', 'APPROVER', 'ADMINISTRATOR'].includes(profile.role);
+  const canReview = !!profile?.role && ['APPROVER', 'ADMINISTRATOR'].includes(profile.role);
 
   useEffect(() => {
     if (id) {
@@ -52,8 +72,20 @@ export default function TaxDetail() {
       // Fetch payments for this assessment
       const paymentsData = await taxService.getPayments(id!);
 
+      // Reversals and refunds awaiting sign-off
+      const adjustmentsData = await taxService.getPaymentAdjustments({ status: 'PENDING', assessment_id: id! });
+
+      // Payment plans with their installments
+      const plansData = await taxService.getInstallmentPlans(id!);
+
+      // Printed assessment notices
+      const noticesData = await taxService.getAssessmentNotices(id!);
+
       setAssessment(assessmentData);
       setPayments(paymentsData || []);
+      setPendingAdjustments(adjustmentsData || []);
+      setInstallmentPlans(plansData || []);
+      setNotices(noticesData || []);
       setActivityLogs([]); // Activity logs can be added later if needed
     } catch (error: any) {
       console.error('Error fetching tax detail:', error);
@@ -87,8 +119,34 @@ export default function TaxDetail() {
     }).format(amount);
   };
 
+  // Reversals and refunds are negative entries, so the sum is the net amount paid
   const totalPaid = payments.reduce((sum, p) => sum + p.amount_paid, 0);
 
+  const getRemainingAmount = (payment: TaxPayment) =>
+    payments
+      .filter((p) => p.reverses_payment_id === payment.id)
+      .reduce((sum, p) => sum + p.amount_paid, payment.amount_paid);
+
+  const handlePrintReceipt = async (payment: TaxPayment) => {
+    try {
+      const blob = await taxService.getPaymentReceipt(payment.id);
+      downloadBlob(blob, `${payment.receipt_number}.pdf`);
+    } catch (error: any) {
+      console.error('Error downloading receipt:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to download receipt',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const getEntryBadge = (payment: TaxPayment) => {
+    if (payment.entry_type === 'REVERSAL') return <Badge variant="destructive">Reversal</Badge>;
+    if (payment.entry_type === 'REFUND') return <Badge variant="warning">Refund</Badge>;
+    return <Badge variant="secondary">Payment</Badge>;
+  };
+
   if (loading) {
     return (
       <div className="container mx-auto py-6">
@@ -298,6 +356,12 @@ export default function TaxDetail() {
           {/* Tax Calculation */}
           <div>
             <h3 className="font-semibold mb-3">Tax Calculation</h3>
+            {assessment.calculation_breakdown && (
+              <div className="p-4 border rounded-md mb-4">
+                <p className="text-sm font-medium mb-2">Calculation Breakdown</p>
+                <CalculationBreakdown breakdown={assessment.calculation_breakdown} />
+              </div>
+            )}
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-muted-foreground">Base Assessment</span>
@@ -305,7 +369,10 @@ export default function TaxDetail() {
               </div>
               {assessment.exemption_amount > 0 && (
                 <div className="flex justify-between items-center">
-                  <span className="text-muted-foreground">Exemption Amount</span>
+                  <span className="text-muted-foreground">
+                    Exemption Amount
+                    {assessment.exemption_details && ` (${assessment.exemption_details.rule_name})`}
+                  </span>
                   <span className="font-medium text-destructive">
                     -{formatCurrency(assessment.exemption_amount)}
                   </span>
@@ -315,6 +382,23 @@ export default function TaxDetail() {
                 <span className="font-semibold text-lg">Assessed Amount</span>
                 <span className="font-bold text-lg">{formatCurrency(assessment.assessed_amount)}</span>
               </div>
+              {assessment.penalty_amount > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">
+                    Late Payment Penalty
+                    {assessment.penalty_rules && ` (${assessment.penalty_rules.name})`}
+                  </span>
+                  <span className="font-medium text-destructive">+{formatCurrency(assessment.penalty_amount)}</span>
+                </div>
+              )}
+              {assessment.interest_amount > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">
+                    Interest ({assessment.interest_months} month{assessment.interest_months !== 1 ? 's' : ''})
+                  </span>
+                  <span className="font-medium text-destructive">+{formatCurrency(assessment.interest_amount)}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-muted-foreground">Paid Amount</span>
                 <span className="font-medium text-green-600">{formatCurrency(assessment.paid_amount)}</span>
@@ -346,6 +430,12 @@ export default function TaxDetail() {
                   <p className="font-medium text-destructive">{assessment.days_overdue} days</p>
                 </div>
               )}
+              {assessment.penalty_calculated_at && (
+                <div>
+                  <p className="text-sm text-muted-foreground">Penalties Calculated</p>
+                  <p className="font-medium">{format(new Date(assessment.penalty_calculated_at), 'MMM dd, yyyy')}</p>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -392,6 +482,29 @@ export default function TaxDetail() {
         </Card>
       )}
 
+      {/* Other Years of the Property */}
+      <PropertyDebtCard assessment={assessment} canPay={!!canEdit} onPaid={fetchTaxDetail} />
+
+      {/* Pending Reversals and Refunds */}
+      <PendingPaymentAdjustments
+        adjustments={pendingAdjustments}
+        currentUserId={profile?.id}
+        canReview={canReview}
+        onReviewed={fetchTaxDetail}
+      />
+
+      {/* Payment Plan */}
+      <InstallmentPlanCard
+        assessment={assessment}
+        plans={installmentPlans}
+        canCreate={!!canEdit}
+        canCancel={canReview}
+        onChanged={fetchTaxDetail}
+      />
+
+      {/* Mobile Money Requests */}
+      <MobileMoneyCard assessment={assessment} canRequest={!!canEdit} onPaid={fetchTaxDetail} />
+
       {/* Payment History */}
       <Card>
         <CardHeader>
@@ -414,31 +527,81 @@ export default function TaxDetail() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Payment Date</TableHead>
+                    <TableHead>Type</TableHead>
                     <TableHead>Amount</TableHead>
                     <TableHead>Payment Method</TableHead>
                     <TableHead>Receipt Number</TableHead>
                     <TableHead>Collected By</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {payments.map((payment) => (
-                    <TableRow key={payment.id}>
-                      <TableCell>{format(new Date(payment.payment_date), 'MMM dd, yyyy')}</TableCell>
-                      <TableCell className="font-medium">{formatCurrency(payment.amount_paid)}</TableCell>
-                      <TableCell>
-                        <Badge variant="outline">{payment.payment_method.replace(/_/g, ' ')}</Badge>
-                      </TableCell>
-                      <TableCell className="font-mono text-sm">{payment.receipt_number}</TableCell>
-                      <TableCell>{payment.collector?.full_name || 'N/A'}</TableCell>
-                    </TableRow>
-                  ))}
+                  {payments.map((payment) => {
+                    const corrected = payments.find((p) => p.id === payment.reverses_payment_id);
+                    const canAdjust =
+                      payment.entry_type === 'PAYMENT' &&
+                      getRemainingAmount(payment) > 0 &&
+                      !pendingAdjustments.some((a) => a.payment_id === payment.id);
+
+                    return (
+                      <TableRow key={payment.id}>
+                        <TableCell>{format(new Date(payment.payment_date), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell>
+                          {getEntryBadge(payment)}
+                          {payment.entry_type !== 'PAYMENT' && (
+                            <div className="text-xs text-muted-foreground mt-1 max-w-xs">
+                              {corrected && <p>Of receipt {corrected.receipt_number}</p>}
+                              <p>{payment.reason}</p>
+                              {payment.approver && <p>Approved by {payment.approver.full_name}</p>}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className={`font-medium ${payment.amount_paid < 0 ? 'text-destructive' : ''}`}>
+                          {formatCurrency(payment.amount_paid)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{payment.payment_method.replace(/_/g, ' ')}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-sm">{payment.receipt_number}</TableCell>
+                        <TableCell>{payment.collector?.full_name || 'N/A'}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => handlePrintReceipt(payment)}>
+                              <Printer className="h-4 w-4 mr-1" />
+                              Receipt
+                            </Button>
+                            {canEdit && canAdjust && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setAdjusting({ payment, type: 'REVERSAL' })}
+                                >
+                                  <Undo2 className="h-4 w-4 mr-1" />
+                                  Reverse
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => setAdjusting({ payment, type: 'REFUND' })}
+                                >
+                                  <HandCoins className="h-4 w-4 mr-1" />
+                                  Refund
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
 
               {/* Payment Summary */}
               <div className="mt-4 pt-4 border-t space-y-2">
                 <div className="flex justify-between items-center">
-                  <span className="font-semibold">Total Paid:</span>
+                  <span className="font-semibold">Net Paid:</span>
                   <span className="font-bold text-green-600">{formatCurrency(totalPaid)}</span>
                 </div>
                 <div className="flex justify-between items-center">
@@ -452,6 +615,54 @@ export default function TaxDetail() {
           )}
         </CardContent>
       </Card>
+
+      {/* Assessment Notices */}
+      {notices.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Assessment Notices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Notice Number</TableHead>
+                  <TableHead>Generated</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Addressed To</TableHead>
+                  <TableHead>Amount Due</TableHead>
+                  <TableHead>Due Date</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {notices.map((notice) => (
+                  <TableRow key={notice.id}>
+                    <TableCell className="font-mono text-sm">{notice.notice_number}</TableCell>
+                    <TableCell>
+                      {format(new Date(notice.generated_at), 'MMM dd, yyyy')}
+                      {notice.generated_by_user && (
+                        <div className="text-xs text-muted-foreground">by {notice.generated_by_user.full_name}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{notice.language.toUpperCase()}</TableCell>
+                    <TableCell>{notice.recipient_name}</TableCell>
+                    <TableCell>{formatCurrency(notice.amount_due)}</TableCell>
+                    <TableCell>{format(new Date(notice.due_date), 'MMM dd, yyyy')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <PaymentAdjustmentDialog
+        payment={adjusting?.payment || null}
+        adjustmentType={adjusting?.type || 'REVERSAL'}
+        remaining={adjusting ? getRemainingAmount(adjusting.payment) : 0}
+        onOpenChange={(open) => !open && setAdjusting(null)}
+        onSubmitted={fetchTaxDetail}
+      />
     </div>
   );
 }
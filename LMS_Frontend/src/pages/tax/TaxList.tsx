@@ -24,7 +24,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from '@/hooks/use-toast';
-import { Plus, Search, FileDown, Filter, Archive, ArchiveRestore, Receipt, DollarSign } from 'lucide-react';
+import { Plus, Search, FileDown, FileStack, Filter, Archive, ArchiveRestore, Receipt, DollarSign, Mail, Hourglass } from 'lucide-react';
 import { TaxAssessment, TaxStatus } from '@/types/tax';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
@@ -55,6 +55,7 @@ export default function TaxList() {
   const canCreateAssessment = profile?.role && ['INPUTTER', 'ADMINISTRATOR'].includes(profile.role);
   const canExport = profile?.role && ['APPROVER', 'ADMINISTRATOR'].includes(profile.role);
   const isViewer = profile?.role === 'VIEWER';
+  const canGenerateRoll = profile?.role === 'ADMINISTRATOR';
 
   // Generate year options (2020-2030)
   const yearOptions = Array.from({ length: 11 }, (_, i) => 2020 + i);
@@ -371,6 +372,22 @@ export default function TaxList() {
                 {exporting ? 'Exporting...' : 'Export'}
               </Button>
             )}
+            <Button variant="outline" onClick={() => navigate('/tax/arrears')}>
+              <Hourglass className="mr-2 h-4 w-4" />
+              Arrears Aging
+            </Button>
+            {canGenerateRoll && (
+              <Button variant="outline" onClick={() => navigate('/tax/roll')}>
+                <FileStack className="mr-2 h-4 w-4" />
+                Generate Tax Roll
+              </Button>
+            )}
+            {canGenerateRoll && (
+              <Button variant="outline" onClick={() => navigate('/tax/notices')}>
+                <Mail className="mr-2 h-4 w-4" />
+                Assessment Notices
+              </Button>
+            )}
             {canCreateAssessment && (
               <Button onClick={() => navigate('/tax/new')}>
                 <Plus className="mr-2 h-4 w-4" />
@@ -33,6 +33,8 @@ import { toast } from '@/hooks/use-toast';
 import { ArrowLeft, CalendarIcon, Search, Check, ChevronsUpDown } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { CalculationBreakdown } from '@/components/tax/CalculationBreakdown';
+import { TaxCalculationResult } from '@/types/tax';
 
 export default function TaxNew() {
   const navigate = useNavigate();
@@ -71,7 +73,6 @@ export default function TaxNew() {
     property_registered: false,
     title_deed_number: '',
     // Tax calculation
-    base_assessment: '',
     exemption_amount: '0',
     // Dates
     assessment_date: new Date() as Date,
@@ -81,10 +82,53 @@ export default function TaxNew() {
   // Track existing assessment years for selected property
   const [existingYears, setExistingYears] = useState<number[]>([]);
 
+  // Base assessment calculated from the rate tables
+  const [calculation, setCalculation] = useState<TaxCalculationResult | null>(null);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
   useEffect(() => {
     loadProperties();
   }, []);
 
+  useEffect(() => {
+    const landSize = parseFloat(formData.land_size);
+    if (!landSize || landSize <= 0) {
+      setCalculation(null);
+      setCalculationError(null);
+      return;
+    }
+
+    const timer = setTimeout(() => calculateBaseAssessment(landSize), 400);
+    return () => clearTimeout(timer);
+  }, [
+    formData.property_id,
+    formData.occupancy_type,
+    formData.construction_status,
+    formData.land_size,
+    formData.built_up_area,
+    formData.number_of_floors,
+    formData.assessment_date,
+  ]);
+
+  const calculateBaseAssessment = async (landSize: number) => {
+    try {
+      const data = await taxService.calculateAssessment({
+        property_id: formData.property_id || null,
+        occupancy_type: formData.occupancy_type,
+        construction_status: formData.construction_status,
+        land_size: landSize,
+        built_up_area: formData.built_up_area ? parseFloat(formData.built_up_area) : null,
+        number_of_floors: formData.number_of_floors ? parseInt(formData.number_of_floors) : null,
+        assessment_date: format(formData.assessment_date, 'yyyy-MM-dd'),
+      });
+      setCalculation(data);
+      setCalculationError(null);
+    } catch (error: any) {
+      setCalculation(null);
+      setCalculationError(error.message || 'Failed to calculate base assessment');
+    }
+  };
+
   const loadProperties = async () => {
     try {
       const response = await propertyService.getProperties({
@@ -143,10 +187,10 @@ export default function TaxNew() {
       // Validate required fields
       // Property is optional - can be added later
       
-      if (!formData.base_assessment || parseFloat(formData.base_assessment) <= 0) {
+      if (!calculation) {
         toast({
           title: 'Error',
-          description: 'Base assessment must be greater than 0',
+          description: calculationError || 'Enter the land size to calculate the base assessment',
           variant: 'destructive'
         });
         return;
@@ -189,7 +233,6 @@ export default function TaxNew() {
         construction_status: formData.construction_status,
         property_registered: formData.property_registered,
         title_deed_number: formData.property_registered ? formData.title_deed_number : null,
-        base_assessment: parseFloat(formData.base_assessment),
         exemption_amount: formData.exemption_amount ? parseFloat(formData.exemption_amount) : 0,
         assessment_date: format(formData.assessment_date, 'yyyy-MM-dd'),
         due_date: format(formData.due_date, 'yyyy-MM-dd'),
@@ -216,9 +259,12 @@ export default function TaxNew() {
     }
   };
 
-  const assessedAmount = formData.base_assessment && formData.exemption_amount
-    ? parseFloat(formData.base_assessment) - parseFloat(formData.exemption_amount)
-    : 0;
+  // An exemption policy replaces the exemption entered by hand
+  const policyExemption = calculation?.exemption ?? null;
+  const exemptionAmount = policyExemption
+    ? policyExemption.exemption_amount
+    : parseFloat(formData.exemption_amount) || 0;
+  const assessedAmount = calculation ? calculation.base_assessment - exemptionAmount : 0;
 
   return (
     <div className="container mx-auto py-6 max-w-4xl">
@@ -611,16 +657,16 @@ export default function TaxNew() {
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="base_assessment">Base Assessment *</Label>
-              <Input
-                id="base_assessment"
-                type="number"
-                step="0.01"
-                value={formData.base_assessment}
-                onChange={(e) => setFormData(prev => ({ ...prev, base_assessment: e.target.value }))}
-                required
-              />
-              <p className="text-sm text-muted-foreground">Enter the base tax assessment amount</p>
+              <Label>Base Assessment</Label>
+              {calculation ? (
+                <div className="p-4 border rounded-md">
+                  <CalculationBreakdown breakdown={calculation} />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {calculationError || 'Calculated from the tax rate tables once the land size is entered'}
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -629,13 +675,18 @@ export default function TaxNew() {
                 id="exemption_amount"
                 type="number"
                 step="0.01"
-                value={formData.exemption_amount}
+                value={policyExemption ? String(policyExemption.exemption_amount) : formData.exemption_amount}
+                disabled={!!policyExemption}
                 onChange={(e) => setFormData(prev => ({ ...prev, exemption_amount: e.target.value }))}
               />
-              <p className="text-sm text-muted-foreground">Enter any exemption amount (if applicable)</p>
+              <p className="text-sm text-muted-foreground">
+                {policyExemption
+                  ? `Applied automatically by the exemption rule "${policyExemption.rule_name}"`
+                  : 'Enter any exemption amount (if applicable)'}
+              </p>
             </div>
 
-            {formData.base_assessment && (
+            {calculation && (
               <div className="p-4 border rounded-md bg-accent">
                 <div className="text-lg font-bold">
                   Assessed Amount: {new Intl.NumberFormat('en-US', {
@@ -0,0 +1,335 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Eye, FileDown, Mail } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { taxService } from '@/services/taxService';
+import { lookupService } from '@/services/lookupService';
+import { downloadBlob } from '@/lib/export-utils';
+import { NoticeOptions, NoticePreview, NoticeTemplate, TaxNoticeBatch } from '@/types/tax';
+
+// Select value standing for "all districts"
+const ALL = 'ALL';
+
+interface LookupOption {
+  id: string;
+  name: string;
+}
+
+export default function TaxNotices() {
+  const navigate = useNavigate();
+  const [options, setOptions] = useState<NoticeOptions>({
+    tax_year: new Date().getFullYear(),
+    language: 'en',
+    district_id: null,
+    sub_district_id: null,
+    group_by: 'SUB_DISTRICT',
+    output_format: 'PDF',
+  });
+  const [templates, setTemplates] = useState<NoticeTemplate[]>([]);
+  const [districts, setDistricts] = useState<LookupOption[]>([]);
+  const [subDistricts, setSubDistricts] = useState<LookupOption[]>([]);
+  const [preview, setPreview] = useState<NoticePreview | null>(null);
+  const [batches, setBatches] = useState<TaxNoticeBatch[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    setPreview(null);
+  }, [options]);
+
+  useEffect(() => {
+    setSubDistricts([]);
+    if (options.district_id) {
+      lookupService
+        .getSubDistricts(options.district_id)
+        .then((data) => setSubDistricts(data || []))
+        .catch((error) => console.error('Error loading sub-districts:', error));
+    }
+  }, [options.district_id]);
+
+  const loadData = async () => {
+    try {
+      const [templatesData, districtsData, batchesData] = await Promise.all([
+        taxService.getNoticeTemplates(),
+        lookupService.getDistricts(),
+        taxService.getNoticeBatches(),
+      ]);
+      setTemplates((templatesData || []).filter((template) => template.is_active));
+      setDistricts(districtsData || []);
+      setBatches(batchesData || []);
+    } catch (error: any) {
+      console.error('Error loading notice data:', error);
+      toast.error('Failed to load notice templates');
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await taxService.previewNotices(options));
+    } catch (error: any) {
+      console.error('Error previewing notices:', error);
+      toast.error(error.message || 'Failed to preview notices');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!confirm(`Generate and record assessment notices for ${options.tax_year}?`)) return;
+
+    setGenerating(true);
+    try {
+      const blob = await taxService.generateNotices(options);
+      const extension = options.output_format === 'ZIP' ? 'zip' : 'pdf';
+      downloadBlob(
+        blob,
+        `assessment_notices_${options.tax_year}_${options.language}_${new Date().toISOString().slice(0, 10)}.${extension}`
+      );
+      toast.success('Assessment notices generated');
+      setBatches(await taxService.getNoticeBatches());
+    } catch (error: any) {
+      console.error('Error generating notices:', error);
+      toast.error(error.message || 'Failed to generate notices');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/tax')}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <Mail className="h-8 w-8" />
+            Assessment Notices
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Print the assessment notices of a tax year for every assessment with an amount due
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Batch</CardTitle>
+          <CardDescription>
+            Notices are addressed to the current owners and co-owners and grouped by district or sub-district, each
+            group starting with a cover page. Every notice generated is recorded against its assessment.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax_year">Tax Year</Label>
+              <Input
+                id="tax_year"
+                type="number"
+                min={2000}
+                max={2100}
+                value={options.tax_year}
+                onChange={(e) => setOptions({ ...options, tax_year: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={options.language} onValueChange={(value) => setOptions({ ...options, language: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.language} value={template.language}>
+                      {template.language_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>District</Label>
+              <Select
+                value={options.district_id || ALL}
+                onValueChange={(value) =>
+                  setOptions({ ...options, district_id: value === ALL ? null : value, sub_district_id: null })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All districts</SelectItem>
+                  {districts.map((district) => (
+                    <SelectItem key={district.id} value={district.id}>
+                      {district.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Sub-district</Label>
+              <Select
+                value={options.sub_district_id || ALL}
+                onValueChange={(value) => setOptions({ ...options, sub_district_id: value === ALL ? null : value })}
+                disabled={!options.district_id}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sub-districts</SelectItem>
+                  {subDistricts.map((subDistrict) => (
+                    <SelectItem key={subDistrict.id} value={subDistrict.id}>
+                      {subDistrict.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Group By</Label>
+              <Select
+                value={options.group_by}
+                onValueChange={(value) => setOptions({ ...options, group_by: value as NoticeOptions['group_by'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="DISTRICT">District</SelectItem>
+                  <SelectItem value="SUB_DISTRICT">Sub-district</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Output</Label>
+              <Select
+                value={options.output_format}
+                onValueChange={(value) =>
+                  setOptions({ ...options, output_format: value as NoticeOptions['output_format'] })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PDF">One printable PDF</SelectItem>
+                  <SelectItem value="ZIP">ZIP with a PDF per group</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePreview} disabled={previewing || generating}>
+              <Eye className="mr-2 h-4 w-4" />
+              {previewing ? 'Previewing...' : 'Preview'}
+            </Button>
+            <Button onClick={handleGenerate} disabled={generating || templates.length === 0}>
+              <FileDown className="mr-2 h-4 w-4" />
+              {generating ? 'Generating...' : 'Generate'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview for {preview.tax_year}</CardTitle>
+            <CardDescription>
+              {preview.total} notices in {preview.groups.length} groups
+              {preview.without_owner > 0 && (
+                <span className="text-orange-600">
+                  {' '}
+                  - {preview.without_owner} properties have no current owner and will be addressed to "The Owner"
+                </span>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {preview.groups.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>District</TableHead>
+                    <TableHead>Sub-district</TableHead>
+                    <TableHead className="text-right">Notices</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.groups.map((group) => (
+                    <TableRow key={`${group.district}-${group.sub_district}`}>
+                      <TableCell className="font-medium">{group.district}</TableCell>
+                      <TableCell>{group.sub_district || '-'}</TableCell>
+                      <TableCell className="text-right">{group.count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {batches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Batches</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Generated</TableHead>
+                  <TableHead>Tax Year</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Area</TableHead>
+                  <TableHead>Output</TableHead>
+                  <TableHead className="text-right">Notices</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell>
+                      {formatDistanceToNow(new Date(batch.generated_at), { addSuffix: true })}
+                      {batch.generated_by_user && (
+                        <span className="text-muted-foreground"> by {batch.generated_by_user.full_name}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{batch.tax_year}</TableCell>
+                    <TableCell>{batch.language.toUpperCase()}</TableCell>
+                    <TableCell>
+                      {[batch.districts?.name, batch.sub_districts?.name].filter(Boolean).join(' / ') || 'All districts'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{batch.output_format}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{batch.notice_count}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
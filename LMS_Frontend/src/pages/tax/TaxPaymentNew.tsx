@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { taxService } from '@/services/taxService';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -14,6 +14,7 @@ import {
 } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Popover,
@@ -21,10 +22,10 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { toast } from '@/hooks/use-toast';
-import { ArrowLeft, CalendarIcon } from 'lucide-react';
+import { ArrowLeft, CalendarIcon, Wallet } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
-import { TaxAssessment } from '@/types/tax';
+import { CashierSessionDetail, TaxAssessment } from '@/types/tax';
 
 export default function TaxPaymentNew() {
   const { assessmentId } = useParams();
@@ -32,6 +33,7 @@ export default function TaxPaymentNew() {
   const { profile } = useAuth();
   const [loading, setLoading] = useState(false);
   const [assessment, setAssessment] = useState<TaxAssessment | null>(null);
+  const [cashierSession, setCashierSession] = useState<CashierSessionDetail | null | undefined>(undefined);
 
   const [formData, setFormData] = useState({
     payment_date: new Date() as Date,
@@ -47,6 +49,20 @@ export default function TaxPaymentNew() {
     }
   }, [assessmentId]);
 
+  useEffect(() => {
+    taxService
+      .getCurrentCashierSession()
+      .then(setCashierSession)
+      .catch((error) => {
+        console.error('Error fetching cashier session:', error);
+        setCashierSession(null);
+      });
+  }, []);
+
+  const sessionOpen = cashierSession?.status === 'OPEN';
+  // Collectors need an open session; administrators may record payments outside the sessions
+  const sessionRequired = profile?.role === 'INPUTTER';
+
   const fetchAssessment = async () => {
     try {
       const data = await taxService.getAssessment(assessmentId!);
@@ -162,6 +178,42 @@ export default function TaxPaymentNew() {
         <h1 className="text-3xl font-bold mt-2">Record Payment</h1>
       </div>
 
+      {/* Payments are attached to the collector's open cashier session */}
+      {cashierSession !== undefined && (
+        <Alert className="mb-6" variant={sessionOpen || !sessionRequired ? 'default' : 'destructive'}>
+          <Wallet className="h-4 w-4" />
+          <AlertTitle>
+            {sessionOpen
+              ? `Cashier session ${cashierSession!.session_number}`
+              : cashierSession?.status === 'RETURNED'
+                ? `Cashier session ${cashierSession.session_number} returned for a recount`
+                : 'No open cashier session'}
+          </AlertTitle>
+          <AlertDescription>
+            {sessionOpen ? (
+              'This payment will be recorded in your open cashier session.'
+            ) : !sessionRequired ? (
+              'This payment will be recorded outside the cashier sessions.'
+            ) : cashierSession?.status === 'RETURNED' ? (
+              <>
+                No payments can be taken until you{' '}
+                <Link to={`/cashier/${cashierSession.id}`} className="underline">
+                  recount and close it
+                </Link>{' '}
+                and open a new session.
+              </>
+            ) : (
+              <>
+                <Link to="/cashier" className="underline">
+                  Open a cashier session
+                </Link>{' '}
+                before recording payments.
+              </>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Assessment Summary */}
       {assessment && (
         <Card className="mb-6">
@@ -261,6 +313,15 @@ export default function TaxPaymentNew() {
                   <SelectItem value="CREDIT_CARD">Credit Card</SelectItem>
                 </SelectContent>
               </Select>
+              {formData.payment_method === 'MOBILE_MONEY' && (
+                <p className="text-sm text-muted-foreground">
+                  To collect from the payer's phone, send a mobile money request from the{' '}
+                  <Link to={`/tax/${assessmentId}`} className="underline">
+                    assessment page
+                  </Link>{' '}
+                  instead; the payment is then posted automatically.
+                </p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -301,7 +362,7 @@ export default function TaxPaymentNew() {
           >
             Cancel
           </Button>
-          <Button type="submit" disabled={loading}>
+          <Button type="submit" disabled={loading || (sessionRequired && !sessionOpen)}>
             {loading ? 'Recording...' : 'Record Payment'}
           </Button>
         </div>
@@ -0,0 +1,334 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Eye, FileStack, Play } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { taxService } from '@/services/taxService';
+import { TaxRollFailure, TaxRollOptions, TaxRollPreview, TaxRollRun } from '@/types/tax';
+
+const POLL_INTERVAL_MS = 2000;
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2 }).format(amount);
+
+const defaultOptions = (): TaxRollOptions => {
+  const year = new Date().getFullYear();
+  return {
+    tax_year: year,
+    assessment_date: new Date().toISOString().slice(0, 10),
+    due_date: `${year}-12-31`,
+  };
+};
+
+function FailuresTable({ failures }: { failures: TaxRollFailure[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Property</TableHead>
+          <TableHead>Reason</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {failures.map((failure) => (
+          <TableRow key={failure.property_id}>
+            <TableCell className="font-medium">{failure.property_reference_id}</TableCell>
+            <TableCell className="text-red-600">{failure.reason}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function TaxRoll() {
+  const navigate = useNavigate();
+  const [options, setOptions] = useState<TaxRollOptions>(defaultOptions);
+  const [preview, setPreview] = useState<TaxRollPreview | null>(null);
+  const [run, setRun] = useState<TaxRollRun | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setPreview(null);
+    loadLatestRun(options.tax_year);
+    return () => {
+      if (pollRef.current) clearTimeout(pollRef.current);
+    };
+  }, [options.tax_year]);
+
+  const loadLatestRun = async (taxYear: number) => {
+    if (pollRef.current) clearTimeout(pollRef.current);
+
+    try {
+      const data = await taxService.getLatestTaxRollRun(taxYear);
+      setRun(data);
+
+      if (data?.status === 'RUNNING') {
+        pollRef.current = setTimeout(() => loadLatestRun(taxYear), POLL_INTERVAL_MS);
+      }
+    } catch (error: any) {
+      console.error('Error loading tax roll run:', error);
+      toast.error('Failed to load tax roll status');
+    }
+  };
+
+  const validate = () => {
+    if (!options.tax_year || !options.assessment_date || !options.due_date) {
+      toast.error('Tax year, assessment date and due date are required');
+      return false;
+    }
+    if (options.due_date <= options.assessment_date) {
+      toast.error('Due date must be after the assessment date');
+      return false;
+    }
+    return true;
+  };
+
+  const handlePreview = async () => {
+    if (!validate()) return;
+
+    setPreviewing(true);
+    try {
+      setPreview(await taxService.previewTaxRoll(options));
+    } catch (error: any) {
+      console.error('Error previewing tax roll:', error);
+      toast.error(error.message || 'Failed to preview tax roll');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!validate()) return;
+    if (!confirm(`Generate tax assessments for ${options.tax_year}?`)) return;
+
+    setStarting(true);
+    try {
+      await taxService.startTaxRoll(options);
+      toast.success('Tax roll generation started');
+      setPreview(null);
+      loadLatestRun(options.tax_year);
+    } catch (error: any) {
+      console.error('Error starting tax roll:', error);
+      toast.error(error.message || 'Failed to start tax roll');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const running = run?.status === 'RUNNING';
+  const progress = run && run.total_properties > 0 ? Math.round((run.processed / run.total_properties) * 100) : 0;
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/tax')}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight flex items-center gap-2">
+            <FileStack className="h-8 w-8" />
+            Generate Tax Roll
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            Create the assessments of a tax year for every approved property that does not have one yet
+          </p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Year</CardTitle>
+          <CardDescription>
+            Occupancy, utilities and size are copied from the prior year's assessment when there is one. Base
+            assessments use the current tax rates. Properties already assessed for the year are left unchanged, so
+            the roll can be generated again after adding properties.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="tax_year">Tax Year</Label>
+              <Input
+                id="tax_year"
+                type="number"
+                min={2000}
+                max={2100}
+                value={options.tax_year}
+                onChange={(e) => setOptions({ ...options, tax_year: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="assessment_date">Assessment Date</Label>
+              <Input
+                id="assessment_date"
+                type="date"
+                value={options.assessment_date}
+                onChange={(e) => setOptions({ ...options, assessment_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="due_date">Due Date</Label>
+              <Input
+                id="due_date"
+                type="date"
+                value={options.due_date}
+                onChange={(e) => setOptions({ ...options, due_date: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePreview} disabled={previewing || running}>
+              <Eye className="mr-2 h-4 w-4" />
+              {previewing ? 'Previewing...' : 'Preview'}
+            </Button>
+            <Button onClick={handleGenerate} disabled={starting || running}>
+              <Play className="mr-2 h-4 w-4" />
+              {running ? 'Generating...' : 'Generate'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {run && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <CardTitle>Latest Run</CardTitle>
+              <Badge variant={run.status === 'FAILED' ? 'destructive' : run.status === 'COMPLETED' ? 'default' : 'secondary'}>
+                {run.status}
+              </Badge>
+            </div>
+            <CardDescription>
+              Started {formatDistanceToNow(new Date(run.started_at), { addSuffix: true })}
+              {run.started_by_user && ` by ${run.started_by_user.full_name}`}
+              {run.status === 'FAILED' && <span className="text-red-600"> failed: {run.error_message}</span>}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {running && (
+              <div className="space-y-2">
+                <Progress value={progress} />
+                <p className="text-sm text-muted-foreground">
+                  {run.processed} of {run.total_properties} properties processed
+                </p>
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Approved Properties</p>
+                <p className="text-xl font-bold">{run.total_properties}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Created</p>
+                <p className="text-xl font-bold text-green-600">{run.created_count}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Already Assessed</p>
+                <p className="text-xl font-bold">{run.skipped_count}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Failed</p>
+                <p className="text-xl font-bold text-red-600">{run.failed_count}</p>
+              </div>
+            </div>
+            {run.failures && run.failures.length > 0 && <FailuresTable failures={run.failures} />}
+          </CardContent>
+        </Card>
+      )}
+
+      {preview && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Preview for {preview.tax_year}</CardTitle>
+            <CardDescription>Nothing has been saved yet</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">Approved Properties</p>
+                <p className="text-xl font-bold">{preview.total_properties}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Already Assessed</p>
+                <p className="text-xl font-bold">{preview.already_assessed}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">To Create</p>
+                <p className="text-xl font-bold text-green-600">
+                  {preview.to_create}
+                  <span className="text-sm font-normal text-muted-foreground"> ({preview.from_prior_year} from prior year)</span>
+                </p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Failed</p>
+                <p className="text-xl font-bold text-red-600">{preview.failed}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Total Base Assessment</p>
+                <p className="text-xl font-bold">{formatCurrency(preview.total_base_assessment)}</p>
+                {preview.total_exemption_amount > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(preview.total_exemption_amount)} exempt
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {preview.failures.length > 0 && <FailuresTable failures={preview.failures} />}
+
+            {preview.items.length > 0 && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Property</TableHead>
+                      <TableHead>Parcel Number</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead>Rate Rule</TableHead>
+                      <TableHead className="text-right">Base Assessment</TableHead>
+                      <TableHead>Exemption</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.items.map((item) => (
+                      <TableRow key={item.property_id}>
+                        <TableCell className="font-medium">{item.property_reference_id}</TableCell>
+                        <TableCell>{item.parcel_number}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{item.source === 'PRIOR_YEAR' ? 'Prior year' : 'Property'}</Badge>
+                        </TableCell>
+                        <TableCell>{item.rate_rule_name}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.base_assessment)}</TableCell>
+                        <TableCell>
+                          {item.exemption_rule_name
+                            ? `${item.exemption_rule_name} (-${formatCurrency(item.exemption_amount)})`
+                            : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {preview.items.length < preview.to_create && (
+                  <p className="text-sm text-muted-foreground">
+                    Showing the first {preview.items.length} of {preview.to_create} assessments
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, Building2, CheckCircle2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { taxService } from '@/services/taxService';
+import { ClearanceVerification } from '@/types/tax';
+
+export default function VerifyClearance() {
+  const { code } = useParams();
+  const [certificate, setCertificate] = useState<ClearanceVerification | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (code) {
+      verify(code);
+    }
+  }, [code]);
+
+  const verify = async (verificationCode: string) => {
+    setLoading(true);
+    try {
+      setCertificate(await taxService.verifyClearance(verificationCode));
+    } catch (error: any) {
+      setErrorMessage(error.message || 'This certificate could not be verified');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <Building2 className="h-10 w-10 mx-auto text-primary" />
+          <CardTitle>Tax Clearance Verification</CardTitle>
+          <CardDescription>Checks a tax clearance certificate against the official records</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Verifying...</div>
+          ) : certificate ? (
+            <div className="space-y-4">
+              {certificate.valid ? (
+                <div className="flex items-center justify-center gap-2 text-green-600">
+                  <CheckCircle2 className="h-6 w-6" />
+                  <span className="text-lg font-semibold">Authentic and valid certificate</span>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center gap-2 text-destructive">
+                  <AlertTriangle className="h-6 w-6" />
+                  <span className="text-lg font-semibold">Authentic certificate, expired</span>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Certificate Number</p>
+                  <p className="font-mono font-medium">{certificate.certificate_number}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Issued To</p>
+                  <p className="font-medium">{certificate.holder_name}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Issued On</p>
+                  <p className="font-medium">{format(new Date(certificate.issued_at), 'MMM dd, yyyy')}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Valid Until</p>
+                  <p className="font-medium">{format(new Date(certificate.valid_until), 'MMM dd, yyyy')}</p>
+                </div>
+                <div className="col-span-2">
+                  <p className="text-muted-foreground">
+                    {certificate.parcel_numbers.length === 1 ? 'Parcel Number' : 'Parcel Numbers'}
+                  </p>
+                  <p className="font-medium">{certificate.parcel_numbers.join(', ')}</p>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-2 py-6 text-destructive">
+              <XCircle className="h-8 w-8" />
+              <p className="font-semibold">Certificate not verified</p>
+              <p className="text-sm text-muted-foreground text-center">{errorMessage}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Building2, CheckCircle2, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { taxService } from '@/services/taxService';
+import { formatCurrency } from '@/lib/export-utils';
+import { ReceiptVerification } from '@/types/tax';
+
+const ENTRY_LABELS = {
+  PAYMENT: 'Payment',
+  REVERSAL: 'Reversal',
+  REFUND: 'Refund',
+};
+
+export default function VerifyReceipt() {
+  const { code } = useParams();
+  const [receipt, setReceipt] = useState<ReceiptVerification | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (code) {
+      verify(code);
+    }
+  }, [code]);
+
+  const verify = async (verificationCode: string) => {
+    setLoading(true);
+    try {
+      setReceipt(await taxService.verifyReceipt(verificationCode));
+    } catch (error: any) {
+      setErrorMessage(error.message || 'This receipt could not be verified');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <Building2 className="h-10 w-10 mx-auto text-primary" />
+          <CardTitle>Receipt Verification</CardTitle>
+          <CardDescription>Checks a tax receipt against the official payment records</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="text-center py-8">Verifying...</div>
+          ) : receipt ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-center gap-2 text-green-600">
+                <CheckCircle2 className="h-6 w-6" />
+                <span className="text-lg font-semibold">Authentic receipt</span>
+              </div>
+              {receipt.reversed_amount > 0 && (
+                <p className="text-center text-sm text-destructive">
+                  {formatCurrency(receipt.reversed_amount)} of this payment has since been reversed or refunded
+                </p>
+              )}
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Receipt Number</p>
+                  <p className="font-mono font-medium">{receipt.receipt_number}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Type</p>
+                  <Badge variant="outline">{ENTRY_LABELS[receipt.entry_type]}</Badge>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Date</p>
+                  <p className="font-medium">{format(new Date(receipt.payment_date), 'MMM dd, yyyy')}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Amount</p>
+                  <p className="font-medium">{formatCurrency(receipt.amount_paid)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Payment Method</p>
+                  <p className="font-medium">{receipt.payment_method.replace(/_/g, ' ')}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Tax Year</p>
+                  <p className="font-medium">{receipt.tax_year}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Assessment</p>
+                  <p className="font-medium">{receipt.assessment_reference_id}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Parcel Number</p>
+                  <p className="font-medium">{receipt.parcel_number}</p>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-2 py-6 text-destructive">
+              <XCircle className="h-8 w-8" />
+              <p className="font-semibold">Receipt not verified</p>
+              <p className="text-sm text-muted-foreground text-center">{errorMessage}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
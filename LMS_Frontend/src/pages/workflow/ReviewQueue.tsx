@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { workflowService } from '@/services/workflowService';
 import { Button } from '@/components/ui/button';
@@ -13,13 +13,17 @@ import {
 } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { AlertCircle, FileSearch, AlertTriangle } from 'lucide-react';
+import { AlertCircle, FileSearch, AlertTriangle, Hand, UserCog } from 'lucide-react';
 import { format } from 'date-fns';
 import { ReviewPanel } from '@/components/workflow/ReviewPanel';
 import { PropertyReviewPanel } from '@/components/workflow/PropertyReviewPanel';
 import type { CustomerWithDetails } from '@/types/customer';
+import { ReassignDialog } from '@/components/workflow/ReassignDialog';
+import { BulkReviewDialog } from '@/components/workflow/BulkReviewDialog';
+import type { BulkReviewDecision, ReviewQueueView, SlaState, WorkflowProgress } from '@/types/workflow';
 import { Link, useNavigate } from 'react-router-dom';
 import {
   Breadcrumb,
@@ -42,8 +46,62 @@ interface ReviewQueueItem {
   submitted_by_name: string;
   submitted_at: string;
   days_pending: number;
+  hours_pending: number;
+  sla_state: SlaState | null;
+  sla_target_hours: number | null;
+  sla_due_at: string | null;
+  current_stages?: string[];
+  can_act?: boolean;
+  assigned_to: string | null;
+  assigned_to_name: string | null;
+  assignment_expires_at: string | null;
 }
 
+const VIEWS: { value: ReviewQueueView; label: string }[] = [
+  { value: 'mine', label: 'My Items' },
+  { value: 'unassigned', label: 'Unassigned' },
+  { value: 'all', label: 'All' },
+];
+
+const HOUR_MS = 1000 * 60 * 60;
+const DAY_MS = HOUR_MS * 24;
+
+const SLA_LABELS: Record<SlaState, string> = {
+  ON_TRACK: 'On track',
+  AT_RISK: 'At risk',
+  BREACHED: 'Breached',
+};
+
+// The API returns lowercase entity types and a generic type column
+const toQueueItem = (item: any): ReviewQueueItem => ({
+  ...item,
+  entity_type: item.entity_type === 'customer' ? 'CUSTOMER' : 'PROPERTY',
+  customer_type: item.entity_type === 'customer' ? item.type : undefined,
+  property_type: item.entity_type === 'property' ? item.type : undefined,
+  days_pending: Math.floor((Date.now() - new Date(item.submitted_at || item.created_at).getTime()) / DAY_MS),
+  hours_pending: item.hours_pending ?? (Date.now() - new Date(item.submitted_at || item.created_at).getTime()) / HOUR_MS,
+  sla_state: item.sla_state ?? null,
+  sla_target_hours: item.sla_target_hours ?? null,
+  sla_due_at: item.sla_due_at ?? null,
+});
+
+const formatPending = (hours: number) => {
+  const days = Math.floor(hours / 24);
+  const rest = Math.floor(hours % 24);
+  return days > 0 ? `${days}d ${rest}h` : hours >= 1 ? `${rest}h` : `${Math.max(1, Math.round(hours * 60))}m`;
+};
+
+// Without an SLA target for its type, a record is overdue after two days
+const isOverdue = (item: ReviewQueueItem) => (item.sla_state ? item.sla_state === 'BREACHED' : item.days_pending > 2);
+
+const toEntityType = (item: ReviewQueueItem) => (item.entity_type === 'CUSTOMER' ? 'customer' : 'property');
+
+// A stage approval keeps the record in the queue until its remaining stages are approved
+const approvalDescription = (result: { workflow?: WorkflowProgress | null }, label: string) =>
+  result?.workflow?.status === 'IN_PROGRESS'
+    ? `Stage approved; the ${label.toLowerCase()} now awaits ${result.workflow.current_stages.join(', ')}`
+    : `${label} approved successfully`;
+
 export const ReviewQueue = () => {
   const { profile } = useAuth();
   const { toast } = useToast();
@@ -58,6 +116,11 @@ export const ReviewQueue = () => {
   const [customerLoading, setCustomerLoading] = useState(false);
   const [propertyLoading, setPropertyLoading] = useState(false);
   const [actionLoading, setActionLoading] = useState(false);
+  const [view, setView] = useState<ReviewQueueView>('all');
+  const [reassignItem, setReassignItem] = useState<ReviewQueueItem | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkDecision, setBulkDecision] = useState<BulkReviewDecision | null>(null);
+  const isAdmin = profile?.role === 'ADMINISTRATOR';
 
   // Check if user has access
   useEffect(() => {
@@ -71,17 +134,14 @@ export const ReviewQueue = () => {
     }
   }, [profile, navigate, toast]);
 
-  useEffect(() => {
-    fetchReviewQueue();
-  }, []);
-
-  const fetchReviewQueue = async () => {
+  const fetchReviewQueue = useCallback(async () => {
     try {
       setLoading(true);
 
       // Fetch review queue from backend
-      const response = await workflowService.getReviewQueue({ limit: 50 });
-      setItems(response.data || []);
+      const response = await workflowService.getReviewQueue({ limit: 50, view });
+      setItems((response.data || []).map(toQueueItem));
+      setSelected(new Set());
     } catch (err: any) {
       console.error('Error fetching review queue:', err);
       toast({
@@ -92,22 +152,170 @@ export const ReviewQueue = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [view, toast]);
+
+  useEffect(() => {
+    fetchReviewQueue();
+  }, [fetchReviewQueue]);
 
   const handleReview = (itemId: string) => {
     navigate(`/review-queue/${itemId}`);
   };
 
+  const handleClaim = async (item: ReviewQueueItem) => {
+    try {
+      await workflowService.claimReviewItem(toEntityType(item), item.id);
+      toast({
+        title: 'Assigned to you',
+        description: `${item.reference_id} is now in your items`,
+      });
+      fetchReviewQueue();
+    } catch (err: any) {
+      console.error('Error claiming review item:', err);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err?.message || 'Failed to claim',
+      });
+      fetchReviewQueue();
+    }
+  };
+
+  const handleRelease = async (item: ReviewQueueItem) => {
+    try {
+      await workflowService.releaseReviewItem(toEntityType(item), item.id);
+      toast({
+        title: 'Released',
+        description: `${item.reference_id} is back in the unassigned items`,
+      });
+      fetchReviewQueue();
+    } catch (err: any) {
+      console.error('Error releasing review item:', err);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err?.message || 'Failed to release',
+      });
+    }
+  };
+
+  const renderAssignee = (item: ReviewQueueItem) =>
+    item.assigned_to ? (
+      <div>
+        <div className="font-medium">{item.assigned_to === profile?.id ? 'You' : item.assigned_to_name}</div>
+        {item.assignment_expires_at && (
+          <div className="text-xs text-muted-foreground">
+            until {format(new Date(item.assignment_expires_at), 'MMM dd, HH:mm')}
+          </div>
+        )}
+      </div>
+    ) : (
+      <span className="text-muted-foreground">Unassigned</span>
+    );
+
+  // Only records with a stage this user may decide can be selected for bulk review
+  const isSelectable = (item: ReviewQueueItem) => item.can_act !== false;
+
+  const toggleSelected = (item: ReviewQueueItem, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(item.id);
+    else next.delete(item.id);
+    setSelected(next);
+  };
+
+  const toggleAll = (rows: ReviewQueueItem[], checked: boolean) => {
+    const next = new Set(selected);
+    rows.filter(isSelectable).forEach((item) => (checked ? next.add(item.id) : next.delete(item.id)));
+    setSelected(next);
+  };
+
+  const renderSelectHead = (rows: ReviewQueueItem[]) => {
+    const selectable = rows.filter(isSelectable);
+    return (
+      <TableHead className="w-10">
+        <Checkbox
+          aria-label="Select all"
+          checked={selectable.length > 0 && selectable.every((item) => selected.has(item.id))}
+          disabled={selectable.length === 0}
+          onCheckedChange={(checked) => toggleAll(rows, checked === true)}
+        />
+      </TableHead>
+    );
+  };
+
+  const renderSelectCell = (item: ReviewQueueItem) => (
+    <TableCell>
+      <Checkbox
+        aria-label={`Select ${item.reference_id}`}
+        checked={selected.has(item.id)}
+        disabled={!isSelectable(item)}
+        onCheckedChange={(checked) => toggleSelected(item, checked === true)}
+      />
+    </TableCell>
+  );
+
+  // Time since submission against the SLA target of the record type, when one is set
+  const renderTimeInState = (item: ReviewQueueItem) => {
+    const state = item.sla_state;
+    const breached = state ? state === 'BREACHED' : item.days_pending >= 4;
+    const warning = state ? state === 'AT_RISK' : item.days_pending >= 2;
+
+    return (
+      <div
+        title={item.sla_due_at ? `Target ${item.sla_target_hours}h, due ${format(new Date(item.sla_due_at), 'MMM dd, HH:mm')}` : undefined}
+      >
+        <span
+          className={`font-medium flex items-center gap-1 ${
+            breached ? 'text-destructive' : warning ? 'text-warning' : ''
+          }`}
+        >
+          {formatPending(item.hours_pending)}
+          {breached && <AlertTriangle className="h-3 w-3" />}
+        </span>
+        {state && (
+          <Badge
+            variant={state === 'BREACHED' ? 'destructive' : state === 'AT_RISK' ? 'secondary' : 'outline'}
+            className="mt-1"
+          >
+            {SLA_LABELS[state]}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const renderActions = (item: ReviewQueueItem) => (
+    <div className="flex justify-end gap-2">
+      {!item.assigned_to && item.can_act !== false && (
+        <Button variant="outline" onClick={() => handleClaim(item)}>
+          <Hand className="h-4 w-4 mr-1" />
+          Claim
+        </Button>
+      )}
+      {item.assigned_to && (item.assigned_to === profile?.id || isAdmin) && (
+        <Button variant="ghost" onClick={() => handleRelease(item)}>
+          Release
+        </Button>
+      )}
+      {isAdmin && (
+        <Button variant="ghost" size="icon" title="Reassign" onClick={() => setReassignItem(item)}>
+          <UserCog className="h-4 w-4" />
+        </Button>
+      )}
+      <Button onClick={() => handleReview(item.id)}>Review</Button>
+    </div>
+  );
+
   const handleApprove = async () => {
     if (!selectedCustomer) return;
 
     try {
       setActionLoading(true);
-      await workflowService.approveCustomer(selectedCustomer.id);
+      const result = await workflowService.approveCustomer(selectedCustomer.id);
 
       toast({
         title: 'Success',
-        description: 'Customer approved successfully',
+        description: approvalDescription(result, 'Customer'),
       });
 
       setReviewPanelOpen(false);
@@ -152,20 +360,16 @@ export const ReviewQueue = () => {
     }
   };
 
-  const handleReviewProperty = (propertyId: string) => {
-    navigate(`/review-queue/${propertyId}`);
-  };
-
   const handleApproveProperty = async () => {
     if (!selectedProperty) return;
 
     try {
       setActionLoading(true);
-      await workflowService.approveProperty(selectedProperty.id);
+      const result = await workflowService.approveProperty(selectedProperty.id);
 
       toast({
         title: 'Success',
-        description: 'Property approved successfully',
+        description: approvalDescription(result, 'Property'),
       });
 
       setPropertyPanelOpen(false);
@@ -210,7 +414,7 @@ export const ReviewQueue = () => {
     }
   };
 
-  const overdueItems = items.filter(item => item.days_pending > 2);
+  const overdueItems = items.filter(isOverdue);
 
   return (
     <div className="space-y-6">
@@ -235,6 +439,34 @@ export const ReviewQueue = () => {
         <p className="text-muted-foreground">Records pending your approval</p>
       </div>
 
+      <div className="flex gap-2">
+        {VIEWS.map((option) => (
+          <Button
+            key={option.value}
+            variant={view === option.value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setView(option.value)}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {selected.size > 0 && (
+        <div className="flex items-center gap-2 border rounded-lg p-3 bg-muted">
+          <span className="text-sm font-medium mr-auto">{selected.size} selected</span>
+          <Button size="sm" onClick={() => setBulkDecision('approve')}>
+            Approve Selected
+          </Button>
+          <Button size="sm" variant="destructive" onClick={() => setBulkDecision('reject')}>
+            Reject Selected
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+            Clear
+          </Button>
+        </div>
+      )}
+
       {/* Tabs */}
       <Tabs defaultValue="all" className="w-full">
         <TabsList>
@@ -277,19 +509,23 @@ export const ReviewQueue = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {renderSelectHead(items)}
                     <TableHead>Type</TableHead>
                     <TableHead>Reference ID</TableHead>
                     <TableHead>Name/Description</TableHead>
                     <TableHead>Category</TableHead>
                     <TableHead>Submitted By</TableHead>
                     <TableHead>Submitted Date</TableHead>
-                    <TableHead>Days Pending</TableHead>
+                    <TableHead>Time in Review</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Assigned To</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {items.map((item) => (
                     <TableRow key={item.id}>
+                      {renderSelectCell(item)}
                       <TableCell>
                         <Badge variant={item.entity_type === 'CUSTOMER' ? 'secondary' : 'default'}>
                           {item.entity_type === 'CUSTOMER' ? 'Customer' : 'Property'}
@@ -307,26 +543,15 @@ export const ReviewQueue = () => {
                       <TableCell>{item.submitted_by_name}</TableCell>
                       <TableCell>{format(new Date(item.submitted_at), 'MMM dd, yyyy HH:mm')}</TableCell>
                       <TableCell>
-                        <span
-                          className={`font-medium flex items-center gap-1 ${
-                            item.days_pending >= 4
-                              ? 'text-destructive'
-                              : item.days_pending >= 2
-                              ? 'text-warning'
-                              : ''
-                          }`}
-                        >
-                          {item.days_pending} days
-                          {item.days_pending >= 4 && <AlertTriangle className="h-3 w-3" />}
-                        </span>
+                        {renderTimeInState(item)}
                       </TableCell>
-                      <TableCell className="text-right">
-                        {item.entity_type === 'CUSTOMER' ? (
-                          <Button onClick={() => handleReview(item.id)}>Review</Button>
-                        ) : (
-                          <Button onClick={() => handleReviewProperty(item.id)}>Review</Button>
-                        )}
+                      <TableCell>
+                        <span className={item.can_act === false ? 'text-muted-foreground' : undefined}>
+                          {item.current_stages?.length ? item.current_stages.join(', ') : '-'}
+                        </span>
                       </TableCell>
+                      <TableCell>{renderAssignee(item)}</TableCell>
+                      <TableCell className="text-right">{renderActions(item)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -352,18 +577,21 @@ export const ReviewQueue = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {renderSelectHead(items.filter(i => i.entity_type === 'CUSTOMER'))}
                     <TableHead>Reference ID</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Type</TableHead>
                     <TableHead>Submitted By</TableHead>
                     <TableHead>Submitted Date</TableHead>
-                    <TableHead>Days Pending</TableHead>
+                    <TableHead>Time in Review</TableHead>
+                    <TableHead>Assigned To</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {items.filter(i => i.entity_type === 'CUSTOMER').map((item) => (
                     <TableRow key={item.id}>
+                      {renderSelectCell(item)}
                       <TableCell className="font-mono">{item.reference_id}</TableCell>
                       <TableCell className="font-medium">{item.name}</TableCell>
                       <TableCell>
@@ -372,22 +600,10 @@ export const ReviewQueue = () => {
                       <TableCell>{item.submitted_by_name}</TableCell>
                       <TableCell>{format(new Date(item.submitted_at), 'MMM dd, yyyy HH:mm')}</TableCell>
                       <TableCell>
-                        <span
-                          className={`font-medium flex items-center gap-1 ${
-                            item.days_pending >= 4
-                              ? 'text-destructive'
-                              : item.days_pending >= 2
-                              ? 'text-warning'
-                              : ''
-                          }`}
-                        >
-                          {item.days_pending} days
-                          {item.days_pending >= 4 && <AlertTriangle className="h-3 w-3" />}
-                        </span>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <Button onClick={() => handleReview(item.id)}>Review</Button>
+                        {renderTimeInState(item)}
                       </TableCell>
+                      <TableCell>{renderAssignee(item)}</TableCell>
+                      <TableCell className="text-right">{renderActions(item)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -413,18 +629,21 @@ export const ReviewQueue = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {renderSelectHead(items.filter(i => i.entity_type === 'PROPERTY'))}
                     <TableHead>Reference ID</TableHead>
                     <TableHead>Parcel Number</TableHead>
                     <TableHead>Type & District</TableHead>
                     <TableHead>Submitted By</TableHead>
                     <TableHead>Submitted Date</TableHead>
-                    <TableHead>Days Pending</TableHead>
+                    <TableHead>Time in Review</TableHead>
+                    <TableHead>Assigned To</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {items.filter(i => i.entity_type === 'PROPERTY').map((item) => (
                     <TableRow key={item.id}>
+                      {renderSelectCell(item)}
                       <TableCell className="font-mono">{item.reference_id}</TableCell>
                       <TableCell className="font-medium">{item.name}</TableCell>
                       <TableCell>
@@ -433,22 +652,10 @@ export const ReviewQueue = () => {
                       <TableCell>{item.submitted_by_name}</TableCell>
                       <TableCell>{format(new Date(item.submitted_at), 'MMM dd, yyyy HH:mm')}</TableCell>
                       <TableCell>
-                        <span
-                          className={`font-medium flex items-center gap-1 ${
-                            item.days_pending >= 4
-                              ? 'text-destructive'
-                              : item.days_pending >= 2
-                              ? 'text-warning'
-                              : ''
-                          }`}
-                        >
-                          {item.days_pending} days
-                          {item.days_pending >= 4 && <AlertTriangle className="h-3 w-3" />}
-                        </span>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <Button onClick={() => handleReviewProperty(item.id)}>Review</Button>
+                        {renderTimeInState(item)}
                       </TableCell>
+                      <TableCell>{renderAssignee(item)}</TableCell>
+                      <TableCell className="text-right">{renderActions(item)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -474,18 +681,21 @@ export const ReviewQueue = () => {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    {renderSelectHead(overdueItems)}
                     <TableHead>Reference ID</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Type</TableHead>
                     <TableHead>Submitted By</TableHead>
                     <TableHead>Submitted Date</TableHead>
-                    <TableHead>Days Pending</TableHead>
+                    <TableHead>Time in Review</TableHead>
+                    <TableHead>Assigned To</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {overdueItems.map((item) => (
                     <TableRow key={item.id}>
+                      {renderSelectCell(item)}
                       <TableCell className="font-mono">{item.reference_id}</TableCell>
                       <TableCell className="font-medium">{item.name}</TableCell>
                       <TableCell>
@@ -498,18 +708,10 @@ export const ReviewQueue = () => {
                       <TableCell>{item.submitted_by_name}</TableCell>
                       <TableCell>{format(new Date(item.submitted_at), 'MMM dd, yyyy HH:mm')}</TableCell>
                       <TableCell>
-                        <span className="font-bold text-destructive flex items-center gap-1">
-                          {item.days_pending} days
-                          <AlertTriangle className="h-3 w-3" />
-                        </span>
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {item.entity_type === 'CUSTOMER' ? (
-                          <Button onClick={() => handleReview(item.id)}>Review</Button>
-                        ) : (
-                          <Button onClick={() => handleReviewProperty(item.id)}>Review</Button>
-                        )}
+                        {renderTimeInState(item)}
                       </TableCell>
+                      <TableCell>{renderAssignee(item)}</TableCell>
+                      <TableCell className="text-right">{renderActions(item)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -529,6 +731,28 @@ export const ReviewQueue = () => {
         actionLoading={actionLoading}
       />
 
+      <BulkReviewDialog
+        open={!!bulkDecision}
+        onOpenChange={(open) => !open && setBulkDecision(null)}
+        decision={bulkDecision || 'approve'}
+        items={items
+          .filter((item) => selected.has(item.id))
+          .map((item) => ({ entity_type: toEntityType(item), id: item.id, reference_id: item.reference_id }))}
+        onCompleted={fetchReviewQueue}
+      />
+
+      {reassignItem && (
+        <ReassignDialog
+          open={!!reassignItem}
+          onOpenChange={(open) => !open && setReassignItem(null)}
+          entityType={toEntityType(reassignItem)}
+          entityId={reassignItem.id}
+          referenceId={reassignItem.reference_id}
+          currentAssigneeId={reassignItem.assigned_to}
+          onAssigned={fetchReviewQueue}
+        />
+      )}
+
       <PropertyReviewPanel
         open={propertyPanelOpen}
         onOpenChange={setPropertyPanelOpen}
@@ -11,7 +11,10 @@ import { AlertCircle, ArrowLeft, CheckCircle, XCircle } from 'lucide-react';
 import { format } from 'date-fns';
 import { ApproveConfirmationDialog } from '@/components/workflow/ApproveConfirmationDialog';
 import { RejectFeedbackDialog } from '@/components/workflow/RejectFeedbackDialog';
+import { WorkflowProgressCard } from '@/components/workflow/WorkflowProgressCard';
+import { ChangeSetCard } from '@/components/workflow/ChangeSetCard';
 import type { CustomerWithDetails } from '@/types/customer';
+import type { ReviewAssignment, ReviewChanges, WorkflowProgress } from '@/types/workflow';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -71,6 +74,9 @@ export const ReviewQueueDetail = () => {
   const [customer, setCustomer] = useState<CustomerWithDetails | null>(null);
   const [property, setProperty] = useState<PropertyDetails | null>(null);
   const [tax, setTax] = useState<any | null>(null);
+  const [workflow, setWorkflow] = useState<WorkflowProgress | null>(null);
+  const [assignment, setAssignment] = useState<ReviewAssignment | null>(null);
+  const [changes, setChanges] = useState<ReviewChanges | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [approveDialogOpen, setApproveDialogOpen] = useState(false);
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
@@ -105,6 +111,9 @@ export const ReviewQueueDetail = () => {
       try {
         const data = await workflowService.getReviewItem('customer', id);
         setCustomer(data);
+        setWorkflow(data.workflow || null);
+        setAssignment(data.assignment || null);
+        setChanges(data.changes || null);
         setEntityType('CUSTOMER');
         return;
       } catch (customerErr) {
@@ -112,6 +121,9 @@ export const ReviewQueueDetail = () => {
         try {
           const data = await workflowService.getReviewItem('property', id);
           setProperty(data);
+          setWorkflow(data.workflow || null);
+          setAssignment(data.assignment || null);
+          setChanges(data.changes || null);
           setEntityType('PROPERTY');
           return;
         } catch (propertyErr) {
@@ -132,6 +144,41 @@ export const ReviewQueueDetail = () => {
     }
   };
 
+  const handleClaim = async () => {
+    if (!id || (entityType !== 'CUSTOMER' && entityType !== 'PROPERTY')) return;
+
+    try {
+      const claimed = await workflowService.claimReviewItem(entityType === 'CUSTOMER' ? 'customer' : 'property', id);
+      setAssignment(claimed);
+      toast({
+        title: 'Assigned to you',
+        description: `Until ${format(new Date(claimed.expires_at), 'MMM dd, HH:mm')}`,
+      });
+    } catch (err: any) {
+      console.error('Error claiming review item:', err);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err?.message || 'Failed to claim',
+      });
+    }
+  };
+
+  // An approval may only complete one stage; the record then stays in the queue for the next ones
+  const toastApproval = (result: { workflow?: WorkflowProgress | null }, label: string) => {
+    if (result?.workflow?.status === 'IN_PROGRESS') {
+      toast({
+        title: 'Stage approved',
+        description: `${label} now awaits ${result.workflow.current_stages.join(', ')}`,
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: `${label} approved successfully`,
+      });
+    }
+  };
+
   const handleApprove = async () => {
     if (!id || !profile) return;
 
@@ -139,17 +186,11 @@ export const ReviewQueueDetail = () => {
       setActionLoading(true);
 
       if (entityType === 'CUSTOMER' && customer) {
-        await workflowService.approveCustomer(customer.id);
-        toast({
-          title: 'Success',
-          description: 'Customer approved successfully',
-        });
+        const result = await workflowService.approveCustomer(customer.id);
+        toastApproval(result, 'Customer');
       } else if (entityType === 'PROPERTY' && property) {
-        await workflowService.approveProperty(property.id);
-        toast({
-          title: 'Success',
-          description: 'Property approved successfully',
-        });
+        const result = await workflowService.approveProperty(property.id);
+        toastApproval(result, 'Property');
       }
 
       navigate('/review-queue');
@@ -173,16 +214,16 @@ export const ReviewQueueDetail = () => {
       setActionLoading(true);
 
       if (entityType === 'CUSTOMER' && customer) {
-        await workflowService.rejectCustomer(customer.id, feedback);
+        const result = await workflowService.rejectCustomer(customer.id, feedback);
         toast({
           title: 'Success',
-          description: 'Customer rejected',
+          description: result?.changes_restored ? 'Changes rejected, approved customer restored' : 'Customer rejected',
         });
       } else if (entityType === 'PROPERTY' && property) {
-        await workflowService.rejectProperty(property.id, feedback);
+        const result = await workflowService.rejectProperty(property.id, feedback);
         toast({
           title: 'Success',
-          description: 'Property rejected',
+          description: result?.changes_restored ? 'Changes rejected, approved property restored' : 'Property rejected',
         });
       }
 
@@ -265,14 +306,34 @@ export const ReviewQueueDetail = () => {
             {entityType === 'CUSTOMER' ? 'Customer Review' : entityType === 'PROPERTY' ? 'Property Review' : 'Tax Assessment Review'}
           </h1>
         </div>
-        <Badge variant={daysPending > 3 ? 'destructive' : 'default'}>
-          {daysPending} days pending
-        </Badge>
+        <div className="flex items-center gap-2">
+          {assignment ? (
+            <Badge variant={assignment.assigned_to === profile?.id ? 'default' : 'outline'}>
+              {assignment.assigned_to === profile?.id
+                ? 'Assigned to you'
+                : `Assigned to ${assignment.assignee?.full_name || 'another approver'}`}
+            </Badge>
+          ) : (
+            (entityType === 'CUSTOMER' || entityType === 'PROPERTY') && (!workflow || workflow.can_act) && (
+              <Button variant="outline" size="sm" onClick={handleClaim}>
+                Claim
+              </Button>
+            )
+          )}
+          <Badge variant={daysPending > 3 ? 'destructive' : 'default'}>
+            {daysPending} days pending
+          </Badge>
+        </div>
       </div>
 
+      {workflow && <WorkflowProgressCard workflow={workflow} />}
+
+      {changes && <ChangeSetCard changes={changes} />}
+
       {customer && entityType === 'CUSTOMER' && (
         <CustomerReviewContent
           customer={customer}
+          canApprove={!workflow || workflow.can_act}
           onApprove={() => setApproveDialogOpen(true)}
           onReject={() => setRejectDialogOpen(true)}
           actionLoading={actionLoading}
@@ -282,6 +343,7 @@ export const ReviewQueueDetail = () => {
       {property && entityType === 'PROPERTY' && (
         <PropertyReviewContent
           property={property}
+          canApprove={!workflow || workflow.can_act}
           onApprove={() => setApproveDialogOpen(true)}
           onReject={() => setRejectDialogOpen(true)}
           actionLoading={actionLoading}
@@ -320,11 +382,13 @@ export const ReviewQueueDetail = () => {
 
 const CustomerReviewContent = ({
   customer,
+  canApprove,
   onApprove,
   onReject,
   actionLoading,
 }: {
   customer: CustomerWithDetails;
+  canApprove: boolean;
   onApprove: () => void;
   onReject: () => void;
   actionLoading: boolean;
@@ -574,7 +638,7 @@ const CustomerReviewContent = ({
       )}
 
       <div className="flex gap-4">
-        <Button onClick={onApprove} disabled={actionLoading} className="flex-1">
+        <Button onClick={onApprove} disabled={actionLoading || !canApprove} className="flex-1">
           <CheckCircle className="h-4 w-4 mr-2" />
           Approve
         </Button>
@@ -589,11 +653,13 @@ const CustomerReviewContent = ({
 
 const PropertyReviewContent = ({
   property,
+  canApprove,
   onApprove,
   onReject,
   actionLoading,
 }: {
   property: PropertyDetails;
+  canApprove: boolean;
   onApprove: () => void;
   onReject: () => void;
   actionLoading: boolean;
@@ -815,7 +881,7 @@ const PropertyReviewContent = ({
 
       {/* Action Buttons */}
       <div className="flex gap-4">
-        <Button onClick={onApprove} disabled={actionLoading} className="flex-1">
+        <Button onClick={onApprove} disabled={actionLoading || !canApprove} className="flex-1">
           <CheckCircle className="h-4 w-4 mr-2" />
           Approve
         </Button>
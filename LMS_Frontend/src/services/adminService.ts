@@ -59,7 +59,7 @@ export interface AuditLog {
   field: string | null;
   old_value: string | null;
   new_value: string | null;
-  changed_by: string;
+  changed_by: string | null;
   timestamp: string;
   user?: {
     id: string;
@@ -67,6 +67,127 @@ export interface AuditLog {
   } | null;
 }
 
+// AGO Settings
+export interface AGOFieldMapping {
+  source: string;
+  target: string;
+  lookup?: string | null;
+  transform?: string;
+}
+
+export interface AGOMappingOptions {
+  sources: string[];
+  lookups: Record<string, string[]>;
+  transforms: string[];
+}
+
+export interface AGOFeaturePreview {
+  property_id: string;
+  reference_id: string;
+  status: string;
+  operation: 'add' | 'update';
+  feature: {
+    attributes: Record<string, unknown>;
+    geometry: { x: number; y: number; spatialReference?: { wkid: number } } | null;
+  };
+}
+
+export interface AGOSettings {
+  enabled: boolean;
+  api_url: string;
+  layer_id: number;
+  api_key: string;
+  sync_interval: number;
+  field_mapping: AGOFieldMapping[];
+  mapping_options: AGOMappingOptions;
+  last_sync: string | null;
+  updated_at: string | null;
+  status: 'configured' | 'not_configured';
+}
+
+export interface AGOSettingsUpdate {
+  enabled: boolean;
+  api_url: string;
+  layer_id: number;
+  api_key?: string;
+  clear_api_key?: boolean;
+  sync_interval: number;
+  field_mapping?: AGOFieldMapping[];
+}
+
+export interface AGOConnectionTest {
+  success: boolean;
+  message: string;
+  layer?: {
+    id: number;
+    name: string;
+    geometry_type: string | null;
+  };
+  timestamp: string;
+}
+
+export interface AGOSyncStats {
+  total: number;
+  synced: number;
+  pending: number;
+  failed: number;
+  queue: {
+    pending: number;
+    retrying: number;
+    failed: number;
+  };
+}
+
+export interface AGOSyncRetry {
+  id: string;
+  property_id: string;
+  attempt_number: number;
+  last_attempt_at: string;
+  next_retry_at: string;
+  error_message: string | null;
+  status: 'PENDING' | 'RETRYING' | 'SUCCESS' | 'FAILED';
+  created_at: string;
+  updated_at: string;
+  properties?: {
+    reference_id: string;
+    parcel_number: string;
+  };
+}
+
+export type AGOReconciliationCategory = 'MISSING_IN_AGO' | 'MISSING_IN_LMS' | 'MISMATCH' | 'ORPHANED';
+
+export interface AGOReconciliationRun {
+  id: string;
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  started_by: string;
+  started_at: string;
+  completed_at: string | null;
+  error_message: string | null;
+  summary: {
+    properties_checked: number;
+    features_checked: number;
+    missing_in_ago: number;
+    missing_in_lms: number;
+    mismatch: number;
+    orphaned: number;
+  } | null;
+  started_by_user?: { full_name: string };
+}
+
+export interface AGOReconciliationItem {
+  id: string;
+  run_id: string;
+  category: AGOReconciliationCategory;
+  property_id: string | null;
+  global_id: string | null;
+  parcel_number: string | null;
+  reference_id: string | null;
+  details: string | null;
+  differences: Array<{ attribute: string; lms_value: unknown; ago_value: unknown }> | null;
+  resolution: 'REPUSHED' | 'UNLINKED' | null;
+  resolved_at: string | null;
+}
+
 export interface AuditLogFilters {
   entityType?: string;
   userId?: string;
@@ -204,6 +325,86 @@ export const adminService = {
     return response.data;
   },
 
+  // AGO Settings
+  async getAGOSettings() {
+    const response = await apiClient.get<{ data: AGOSettings }>('/admin/ago-settings');
+    return response.data;
+  },
+
+  async updateAGOSettings(data: AGOSettingsUpdate) {
+    const response = await apiClient.put<{ data: AGOSettings }>('/admin/ago-settings', data);
+    return response.data;
+  },
+
+  async testAGOConnection() {
+    const response = await apiClient.post<{ data: AGOConnectionTest }>('/admin/ago-settings/test');
+    return response.data;
+  },
+
+  async previewAGOFeature(property: string, fieldMapping?: AGOFieldMapping[]) {
+    const response = await apiClient.post<{ data: AGOFeaturePreview }>('/admin/ago-settings/preview', {
+      property,
+      field_mapping: fieldMapping,
+    });
+    return response.data;
+  },
+
+  async getAGOSyncStats() {
+    const response = await apiClient.get<{ data: AGOSyncStats }>('/admin/ago-sync/stats');
+    return response.data;
+  },
+
+  async getAGOSyncRetries(filters?: { status?: string; page?: number; limit?: number }) {
+    const response = await apiClient.get<{ data: AGOSyncRetry[] }>('/admin/ago-sync/retries', filters);
+    return response.data;
+  },
+
+  async retryAGOSync(id: string) {
+    const response = await apiClient.post<{ data: AGOSyncRetry }>(`/admin/ago-sync/retries/${id}/retry`);
+    return response.data;
+  },
+
+  async giveUpAGOSync(id: string) {
+    const response = await apiClient.post<{ data: AGOSyncRetry }>(`/admin/ago-sync/retries/${id}/give-up`);
+    return response.data;
+  },
+
+  // AGO Reconciliation
+  async startAGOReconciliation() {
+    const response = await apiClient.post<{ data: AGOReconciliationRun }>('/admin/ago-reconciliation/runs');
+    return response.data;
+  },
+
+  async getLatestAGOReconciliation() {
+    const response = await apiClient.get<{ data: AGOReconciliationRun | null }>('/admin/ago-reconciliation/runs/latest');
+    return response.data;
+  },
+
+  async getAGOReconciliationItems(runId: string, filters?: { category?: string; page?: number; limit?: number }) {
+    const response = await apiClient.get<{ data: AGOReconciliationItem[] }>(
+      `/admin/ago-reconciliation/runs/${runId}/items`,
+      filters
+    );
+    return response.data;
+  },
+
+  async exportAGOReconciliationItems(runId: string) {
+    const response = await apiClient.get<{ data: AGOReconciliationItem[] }>(
+      `/admin/ago-reconciliation/runs/${runId}/items/export`
+    );
+    return response.data;
+  },
+
+  async repushAGOReconciliationItem(itemId: string) {
+    const response = await apiClient.post<{ data: AGOReconciliationItem }>(`/admin/ago-reconciliation/items/${itemId}/repush`);
+    return response.data;
+  },
+
+  async unlinkAGOReconciliationItem(itemId: string) {
+    const response = await apiClient.post<{ data: AGOReconciliationItem }>(`/admin/ago-reconciliation/items/${itemId}/unlink`);
+    return response.data;
+  },
+
   // Activity Logs (for specific entities)
   async getActivityLogs(entityType: string, entityId: string) {
     const response = await apiClient.get<{ data: any[] }>(`/activity-logs/${entityType}/${entityId}`);
@@ -96,6 +96,16 @@ class ApiClient {
           return Promise.reject(error);
         }
         
+        // File downloads receive their JSON error body as a Blob
+        if (error.response?.data instanceof Blob && error.response.data.type.includes('json')) {
+          try {
+            const body = JSON.parse(await error.response.data.text());
+            return Promise.reject(new Error(body.error || body.message || error.message));
+          } catch {
+            return Promise.reject(new Error(error.message));
+          }
+        }
+
         const errorMessage = error.response?.data?.error || error.response?.data?.message || error.message || 'An error occurred';
         return Promise.reject(new Error(errorMessage));
       }
@@ -122,6 +132,15 @@ class ApiClient {
   async delete<T>(url: string): Promise<T> {
     return this.client.delete(url);
   }
+
+  // Files such as PDF documents
+  async download(url: string, params?: any): Promise<Blob> {
+    return this.client.get(url, { params, responseType: 'blob' });
+  }
+
+  async downloadPost(url: string, data?: any): Promise<Blob> {
+    return this.client.post(url, data, { responseType: 'blob' });
+  }
 }
 
 export const apiClient = new ApiClient();
\ No newline at end of file
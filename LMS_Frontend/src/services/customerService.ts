@@ -1,4 +1,5 @@
 import { apiClient } from './api';
+import type { CustomerStatement } from '@/types/customer';
 
 export interface CustomerFilters {
   page?: number;
@@ -58,4 +59,13 @@ export const customerService = {
     });
     return response.data;
   },
+
+  async getStatement(id: string, period: { from: string; to: string }): Promise<CustomerStatement> {
+    const response = await apiClient.get<{ data: CustomerStatement }>(`/customers/${id}/statement`, period);
+    return response.data;
+  },
+
+  async downloadStatementPdf(id: string, period: { from: string; to: string }): Promise<Blob> {
+    return apiClient.download(`/customers/${id}/statement/pdf`, { ...period, download: true });
+  },
 };
@@ -1,4 +1,5 @@
 import { apiClient } from './api';
+import { CollectionTrend } from '@/types/tax';
 
 export interface DashboardStats {
   drafts_pending: number;
@@ -71,4 +72,9 @@ export const dashboardService = {
       total_outstanding: data.totalOutstanding,
     };
   },
+
+  async getCollectionTrends(months: number = 12): Promise<CollectionTrend[]> {
+    const response = await apiClient.get<{ data: CollectionTrend[] }>('/dashboard/collection-trends', { months });
+    return response.data;
+  },
 };
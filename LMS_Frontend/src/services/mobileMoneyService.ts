@@ -0,0 +1,26 @@
+import { apiClient } from './api';
+import { MobileMoneyRequest, MobileMoneyRequestStatus, MobileMoneySettings } from '@/types/tax';
+
+export const mobileMoneyService = {
+  async getSettings() {
+    const response = await apiClient.get<{ data: MobileMoneySettings }>('/mobile-money/settings');
+    return response.data;
+  },
+
+  async getRequests(filters: { assessment_id?: string; status?: MobileMoneyRequestStatus }) {
+    const response = await apiClient.get<{ data: MobileMoneyRequest[] }>('/mobile-money/requests', filters);
+    return response.data;
+  },
+
+  async requestPayment(data: { assessment_id: string; phone_number: string; amount: number }) {
+    const response = await apiClient.post<{ data: MobileMoneyRequest }>('/mobile-money/requests', data);
+    return response.data;
+  },
+
+  async simulate(id: string, outcome: 'SUCCEEDED' | 'FAILED') {
+    const response = await apiClient.post<{ data: MobileMoneyRequest }>(`/mobile-money/requests/${id}/simulate`, {
+      outcome,
+    });
+    return response.data;
+  },
+};
@@ -1,4 +1,51 @@
 import { apiClient } from './api';
+import {
+  AgedAssessment,
+  AgingBucketKey,
+  AgingFilters,
+  AgingGroupBy,
+  AgingReport,
+  AllocatedPaymentInput,
+  AllocatedPaymentResult,
+  BankImportSummary,
+  BankPostingResult,
+  BankStatementImport,
+  BankStatementImportDetail,
+  BankStatementLine,
+  CashierCount,
+  CashierSession,
+  CashierSessionDetail,
+  CashierSessionStatus,
+  ClearanceCertificate,
+  ClearanceCheck,
+  ClearanceSubject,
+  ClearanceVerification,
+  ExemptionRule,
+  ExemptionRuleInput,
+  InstallmentPlan,
+  InstallmentPlanInput,
+  NoticeOptions,
+  NoticePreview,
+  NoticeTemplate,
+  NoticeTemplateInput,
+  PaymentAdjustment,
+  PaymentAdjustmentInput,
+  PaymentAdjustmentStatus,
+  PenaltyRule,
+  PenaltyRuleInput,
+  PenaltyRunSummary,
+  PropertyDebt,
+  ReceiptVerification,
+  TaxCalculationInput,
+  TaxCalculationResult,
+  TaxNotice,
+  TaxNoticeBatch,
+  TaxRateRule,
+  TaxRateRuleInput,
+  TaxRollOptions,
+  TaxRollPreview,
+  TaxRollRun,
+} from '@/types/tax';
 
 export interface TaxFilters {
   page?: number;
@@ -30,6 +77,11 @@ export const taxService = {
     return response.data;
   },
 
+  async calculateAssessment(data: TaxCalculationInput) {
+    const response = await apiClient.post<{ data: TaxCalculationResult }>('/tax/assessments/calculate', data);
+    return response.data;
+  },
+
   async deleteAssessment(id: string) {
     await apiClient.delete(`/tax/assessments/${id}`);
   },
@@ -49,8 +101,300 @@ export const taxService = {
     return response.data;
   },
 
+  async getPropertyDebt(propertyId: string) {
+    const response = await apiClient.get<{ data: PropertyDebt }>(`/tax/properties/${propertyId}/debt`);
+    return response.data;
+  },
+
+  // One payment split across the open assessments of the property, oldest year first
+  async createAllocatedPayment(propertyId: string, data: AllocatedPaymentInput) {
+    const response = await apiClient.post<{ data: AllocatedPaymentResult }>(
+      `/tax/properties/${propertyId}/payments`,
+      data
+    );
+    return response.data;
+  },
+
+  async getPaymentReceipt(paymentId: string) {
+    return apiClient.download(`/tax/payments/${paymentId}/receipt`, { download: true });
+  },
+
+  async verifyReceipt(code: string) {
+    const response = await apiClient.get<{ data: ReceiptVerification }>(`/verify/receipts/${code}`);
+    return response.data;
+  },
+
+  // Whether a clearance certificate can be issued, with the assessments blocking it
+  async checkClearance(subject: ClearanceSubject) {
+    const response = await apiClient.get<{ data: ClearanceCheck }>('/tax/clearances/check', subject);
+    return response.data;
+  },
+
+  async getClearanceCertificates(subject: ClearanceSubject) {
+    const response = await apiClient.get<{ data: ClearanceCertificate[] }>('/tax/clearances', subject);
+    return response.data;
+  },
+
+  async issueClearanceCertificate(data: ClearanceSubject & { purpose?: string }) {
+    const response = await apiClient.post<{ data: ClearanceCertificate }>('/tax/clearances', data);
+    return response.data;
+  },
+
+  async getClearanceCertificatePdf(certificateId: string) {
+    return apiClient.download(`/tax/clearances/${certificateId}/pdf`, { download: true });
+  },
+
+  async verifyClearance(code: string) {
+    const response = await apiClient.get<{ data: ClearanceVerification }>(`/verify/clearances/${code}`);
+    return response.data;
+  },
+
+  async requestPaymentAdjustment(paymentId: string, data: PaymentAdjustmentInput) {
+    const response = await apiClient.post<{ data: PaymentAdjustment }>(`/tax/payments/${paymentId}/adjustments`, data);
+    return response.data;
+  },
+
+  async getPaymentAdjustments(filters: { status?: PaymentAdjustmentStatus; assessment_id?: string }) {
+    const response = await apiClient.get<{ data: PaymentAdjustment[] }>('/tax/payment-adjustments', filters);
+    return response.data;
+  },
+
+  async approvePaymentAdjustment(id: string, notes?: string) {
+    const response = await apiClient.post<{ data: PaymentAdjustment }>(`/tax/payment-adjustments/${id}/approve`, { notes });
+    return response.data;
+  },
+
+  async rejectPaymentAdjustment(id: string, notes: string) {
+    const response = await apiClient.post<{ data: PaymentAdjustment }>(`/tax/payment-adjustments/${id}/reject`, { notes });
+    return response.data;
+  },
+
+  async getInstallmentPlans(assessmentId: string) {
+    const response = await apiClient.get<{ data: InstallmentPlan[] }>(`/tax/assessments/${assessmentId}/installment-plans`);
+    return response.data;
+  },
+
+  async createInstallmentPlan(assessmentId: string, data: InstallmentPlanInput) {
+    const response = await apiClient.post<{ data: InstallmentPlan }>(`/tax/assessments/${assessmentId}/installment-plans`, data);
+    return response.data;
+  },
+
+  async cancelInstallmentPlan(id: string, reason: string) {
+    const response = await apiClient.post<{ data: InstallmentPlan }>(`/tax/installment-plans/${id}/cancel`, { reason });
+    return response.data;
+  },
+
+  async getCashierSessions(filters: { status?: CashierSessionStatus; cashier_id?: string; from?: string; to?: string }) {
+    const response = await apiClient.get<{ data: CashierSession[] }>('/tax/cashier-sessions', filters);
+    return response.data;
+  },
+
+  async getCurrentCashierSession() {
+    const response = await apiClient.get<{ data: CashierSessionDetail | null }>('/tax/cashier-sessions/current');
+    return response.data;
+  },
+
+  async getCashierSession(id: string) {
+    const response = await apiClient.get<{ data: CashierSessionDetail }>(`/tax/cashier-sessions/${id}`);
+    return response.data;
+  },
+
+  async openCashierSession(data: { opening_float: number; notes?: string | null }) {
+    const response = await apiClient.post<{ data: CashierSessionDetail }>('/tax/cashier-sessions', data);
+    return response.data;
+  },
+
+  async closeCashierSession(id: string, data: { counts: CashierCount[]; notes?: string | null }) {
+    const response = await apiClient.post<{ data: CashierSessionDetail }>(`/tax/cashier-sessions/${id}/close`, data);
+    return response.data;
+  },
+
+  async approveCashierSession(id: string, notes?: string) {
+    const response = await apiClient.post<{ data: CashierSessionDetail }>(`/tax/cashier-sessions/${id}/approve`, { notes });
+    return response.data;
+  },
+
+  async returnCashierSession(id: string, notes: string) {
+    const response = await apiClient.post<{ data: CashierSessionDetail }>(`/tax/cashier-sessions/${id}/return`, { notes });
+    return response.data;
+  },
+
+  async downloadZReport(id: string): Promise<Blob> {
+    return apiClient.download(`/tax/cashier-sessions/${id}/z-report`, { download: true });
+  },
+
+  async getBankImports() {
+    const response = await apiClient.get<{ data: BankStatementImport[] }>('/tax/bank-imports');
+    return response.data;
+  },
+
+  async getBankImport(id: string) {
+    const response = await apiClient.get<{ data: BankStatementImportDetail }>(`/tax/bank-imports/${id}`);
+    return response.data;
+  },
+
+  async importBankStatement(file: File) {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await apiClient.post<{ data: BankImportSummary }>('/tax/bank-imports', formData);
+    return response.data;
+  },
+
+  async postBankLines(importId: string, lineIds?: string[]) {
+    const response = await apiClient.post<{ data: BankPostingResult }>(`/tax/bank-imports/${importId}/post`, {
+      line_ids: lineIds,
+    });
+    return response.data;
+  },
+
+  async assignBankLine(lineId: string, assessmentId: string) {
+    const response = await apiClient.post<{ data: BankStatementLine }>(`/tax/bank-lines/${lineId}/assign`, {
+      assessment_id: assessmentId,
+    });
+    return response.data;
+  },
+
+  async ignoreBankLine(lineId: string, reason: string) {
+    const response = await apiClient.post<{ data: BankStatementLine }>(`/tax/bank-lines/${lineId}/ignore`, { reason });
+    return response.data;
+  },
+
   async getTaxStats(year?: number) {
     const response = await apiClient.get<any>('/tax/stats', year ? { year } : undefined);
     return response.data;
   },
+
+  async getPenaltyRules() {
+    const response = await apiClient.get<{ data: PenaltyRule[] }>('/tax/penalty-rules');
+    return response.data;
+  },
+
+  async createPenaltyRule(data: PenaltyRuleInput) {
+    const response = await apiClient.post<{ data: PenaltyRule }>('/tax/penalty-rules', data);
+    return response.data;
+  },
+
+  async updatePenaltyRule(id: string, data: PenaltyRuleInput) {
+    const response = await apiClient.put<{ data: PenaltyRule }>(`/tax/penalty-rules/${id}`, data);
+    return response.data;
+  },
+
+  async deletePenaltyRule(id: string) {
+    await apiClient.delete(`/tax/penalty-rules/${id}`);
+  },
+
+  async runPenalties() {
+    const response = await apiClient.post<{ data: PenaltyRunSummary }>('/tax/penalties/run');
+    return response.data;
+  },
+
+  async getRateRules() {
+    const response = await apiClient.get<{ data: TaxRateRule[] }>('/tax/rate-rules');
+    return response.data;
+  },
+
+  async createRateRule(data: TaxRateRuleInput) {
+    const response = await apiClient.post<{ data: TaxRateRule }>('/tax/rate-rules', data);
+    return response.data;
+  },
+
+  async updateRateRule(id: string, data: TaxRateRuleInput) {
+    const response = await apiClient.put<{ data: TaxRateRule }>(`/tax/rate-rules/${id}`, data);
+    return response.data;
+  },
+
+  async deleteRateRule(id: string) {
+    await apiClient.delete(`/tax/rate-rules/${id}`);
+  },
+
+  async getExemptionRules() {
+    const response = await apiClient.get<{ data: ExemptionRule[] }>('/tax/exemption-rules');
+    return response.data;
+  },
+
+  async createExemptionRule(data: ExemptionRuleInput) {
+    const response = await apiClient.post<{ data: ExemptionRule }>('/tax/exemption-rules', data);
+    return response.data;
+  },
+
+  async updateExemptionRule(id: string, data: ExemptionRuleInput) {
+    const response = await apiClient.put<{ data: ExemptionRule }>(`/tax/exemption-rules/${id}`, data);
+    return response.data;
+  },
+
+  async deleteExemptionRule(id: string) {
+    await apiClient.delete(`/tax/exemption-rules/${id}`);
+  },
+
+  async previewTaxRoll(data: TaxRollOptions) {
+    const response = await apiClient.post<{ data: TaxRollPreview }>('/tax/roll/preview', data);
+    return response.data;
+  },
+
+  async startTaxRoll(data: TaxRollOptions) {
+    const response = await apiClient.post<{ data: TaxRollRun }>('/tax/roll/runs', data);
+    return response.data;
+  },
+
+  async getLatestTaxRollRun(taxYear?: number) {
+    const response = await apiClient.get<{ data: TaxRollRun | null }>('/tax/roll/runs/latest', {
+      tax_year: taxYear,
+    });
+    return response.data;
+  },
+
+  async getTaxRollRun(id: string) {
+    const response = await apiClient.get<{ data: TaxRollRun }>(`/tax/roll/runs/${id}`);
+    return response.data;
+  },
+
+  async getNoticeTemplates() {
+    const response = await apiClient.get<{ data: NoticeTemplate[] }>('/tax/notice-templates');
+    return response.data;
+  },
+
+  async saveNoticeTemplate(language: string, data: NoticeTemplateInput) {
+    const response = await apiClient.put<{ data: NoticeTemplate }>(`/tax/notice-templates/${language}`, data);
+    return response.data;
+  },
+
+  async previewNotices(options: NoticeOptions) {
+    const response = await apiClient.post<{ data: NoticePreview }>('/tax/notices/preview', options);
+    return response.data;
+  },
+
+  async generateNotices(options: NoticeOptions) {
+    return apiClient.downloadPost('/tax/notices', options);
+  },
+
+  async getNoticeBatches() {
+    const response = await apiClient.get<{ data: TaxNoticeBatch[] }>('/tax/notices/batches');
+    return response.data;
+  },
+
+  async getAssessmentNotices(assessmentId: string) {
+    const response = await apiClient.get<{ data: TaxNotice[] }>(`/tax/assessments/${assessmentId}/notices`);
+    return response.data;
+  },
+
+  async getArrearsAging(groupBy: AgingGroupBy, filters?: AgingFilters) {
+    const response = await apiClient.get<{ data: AgingReport }>('/tax/arrears/aging', { group_by: groupBy, ...filters });
+    return response.data;
+  },
+
+  // group_key is '' for the group of assessments without a value for the grouping
+  async getArrearsAgingAssessments(
+    params: AgingFilters & {
+      group_by?: AgingGroupBy;
+      group_key?: string;
+      bucket?: AgingBucketKey;
+      page?: number;
+      limit?: number;
+    }
+  ) {
+    return apiClient.get<{
+      data: AgedAssessment[];
+      meta: { as_of: string; page: number; limit: number; total: number; totalPages: number };
+    }>('/tax/arrears/aging/assessments', params);
+  },
 };
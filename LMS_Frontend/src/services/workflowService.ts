@@ -1,10 +1,27 @@
 import { apiClient } from './api';
+import {
+  ApproverLoad,
+  BulkReviewDecision,
+  BulkReviewRequest,
+  BulkReviewResult,
+  EscalationSummary,
+  ReviewAssignment,
+  ReviewQueueView,
+  SlaTarget,
+  SlaTargetInput,
+  TurnaroundFilters,
+  TurnaroundReport,
+  WorkflowDefinition,
+  WorkflowDefinitionInput,
+  WorkflowEntityType,
+} from '@/types/workflow';
 
 export interface ReviewQueueFilters {
   page?: number;
   limit?: number;
   entityType?: 'customer' | 'property';
   search?: string;
+  view?: ReviewQueueView;
 }
 
 export const workflowService = {
@@ -18,6 +35,27 @@ export const workflowService = {
     return response.data;
   },
 
+  async claimReviewItem(entityType: WorkflowEntityType, entityId: string) {
+    const response = await apiClient.post<{ data: ReviewAssignment }>(`/workflow/review/${entityType}/${entityId}/claim`);
+    return response.data;
+  },
+
+  async releaseReviewItem(entityType: WorkflowEntityType, entityId: string) {
+    await apiClient.post(`/workflow/review/${entityType}/${entityId}/release`);
+  },
+
+  async getReviewAssignees(entityType: WorkflowEntityType, entityId: string) {
+    const response = await apiClient.get<{ data: ApproverLoad[] }>(`/workflow/review/${entityType}/${entityId}/assignees`);
+    return response.data;
+  },
+
+  async assignReviewItem(entityType: WorkflowEntityType, entityId: string, userId: string) {
+    const response = await apiClient.post<{ data: ReviewAssignment }>(`/workflow/review/${entityType}/${entityId}/assign`, {
+      user_id: userId,
+    });
+    return response.data;
+  },
+
   async approveCustomer(customerId: string) {
     const response = await apiClient.post<any>(`/workflow/customers/${customerId}/approve`);
     return response.data;
@@ -37,4 +75,39 @@ export const workflowService = {
     const response = await apiClient.post<any>(`/workflow/properties/${propertyId}/reject`, { feedback });
     return response.data;
   },
+
+  async bulkReview(decision: BulkReviewDecision, request: BulkReviewRequest) {
+    const response = await apiClient.post<{ data: BulkReviewResult }>(`/workflow/bulk/${decision}`, request);
+    return response.data;
+  },
+
+  async getDefinitions() {
+    const response = await apiClient.get<{ data: WorkflowDefinition[] }>('/workflow/definitions');
+    return response.data;
+  },
+
+  async saveDefinition(entityType: WorkflowEntityType, input: WorkflowDefinitionInput) {
+    const response = await apiClient.put<{ data: WorkflowDefinition }>(`/workflow/definitions/${entityType}`, input);
+    return response.data;
+  },
+
+  async getSlaTargets() {
+    const response = await apiClient.get<{ data: SlaTarget[] }>('/workflow/sla-targets');
+    return response.data;
+  },
+
+  async saveSlaTarget(entityType: WorkflowEntityType, input: SlaTargetInput) {
+    const response = await apiClient.put<{ data: SlaTarget }>(`/workflow/sla-targets/${entityType}`, input);
+    return response.data;
+  },
+
+  async runEscalations() {
+    const response = await apiClient.post<{ data: EscalationSummary }>('/workflow/sla-escalations/run');
+    return response.data;
+  },
+
+  async getTurnaroundReport(filters?: TurnaroundFilters) {
+    const response = await apiClient.get<{ data: TurnaroundReport }>('/workflow/reports/turnaround', filters);
+    return response.data;
+  },
 };
@@ -192,3 +192,66 @@ export interface PaginationInfo {
   limit: number;
   totalPages: number;
 }
+
+export type StatementLineType = 'ASSESSMENT' | 'PENALTY' | 'PAYMENT' | 'REVERSAL' | 'REFUND';
+
+export interface StatementProperty {
+  id: string;
+  reference_id: string;
+  parcel_number: string;
+  location: string | null;
+  district: string | null;
+  ownership_type: string;
+  ownership_percentage: number | null;
+}
+
+export interface StatementAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  property_id: string;
+  parcel_number: string;
+  assessment_date: string;
+  due_date: string;
+  status: string;
+  assessed_amount: number;
+  penalties: number;
+  penalty_date: string | null;
+  paid_amount: number;
+  outstanding_amount: number;
+}
+
+export interface StatementLine {
+  date: string;
+  type: StatementLineType;
+  description: string;
+  assessment_reference_id: string;
+  parcel_number: string;
+  document_number: string | null;
+  charge: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: {
+    id: string;
+    reference_id: string;
+    name: string;
+    customer_type: string;
+    contact: string | null;
+  };
+  period: {
+    from: string;
+    to: string;
+  };
+  generated_at: string;
+  properties: StatementProperty[];
+  assessments: StatementAssessment[];
+  opening_balance: number;
+  total_charges: number;
+  total_credits: number;
+  closing_balance: number;
+  total_outstanding: number;
+  lines: StatementLine[];
+}
@@ -1,7 +1,10 @@
+import { CustomerType } from '@/types/customer';
+
 export type TaxStatus = 'NOT_ASSESSED' | 'ASSESSED' | 'PAID' | 'PARTIAL' | 'OVERDUE';
 export type OccupancyType = 'OWNER_OCCUPIED' | 'RENTED' | 'VACANT' | 'MIXED_USE';
 export type ConstructionStatus = 'COMPLETED' | 'UNDER_CONSTRUCTION' | 'PLANNED';
 export type PaymentMethod = 'CASH' | 'BANK_TRANSFER' | 'CHECK' | 'MOBILE_MONEY' | 'CREDIT_CARD';
+export type PaymentEntryType = 'PAYMENT' | 'REVERSAL' | 'REFUND';
 
 export interface TaxAssessment {
   id: string;
@@ -40,11 +43,24 @@ export interface TaxAssessment {
   
   // Tax calculation
   base_assessment: number;
+  rate_rule_id?: string | null;
+  calculation_breakdown?: TaxCalculationBreakdown | null;
   exemption_amount: number;
+  exemption_rule_id?: string | null;
+  exemption_details?: TaxExemptionDetails | null;
   assessed_amount: number;
   paid_amount: number;
   outstanding_amount: number;
   penalty_amount: number;
+  interest_amount: number;
+  interest_months: number;
+  penalty_rule_id?: string | null;
+  penalty_calculated_at?: string | null;
+
+  // Prior years: the latest earlier assessment and what earlier years owed at creation
+  previous_assessment_id?: string | null;
+  arrears_brought_forward?: number;
+  arrears_details?: ArrearsDetail[] | null;
   
   // Dates
   assessment_date: string;
@@ -61,6 +77,7 @@ export interface TaxAssessment {
   // Relations (populated by joins)
   property?: any;
   creator?: any;
+  penalty_rules?: Pick<PenaltyRule, 'name' | 'grace_days'> | null;
   days_overdue?: number;
 }
 
@@ -74,9 +91,662 @@ export interface TaxPayment {
   notes?: string;
   collected_by?: string;
   created_at: string;
+
+  // Reversals and refunds have a negative amount and point at the payment they correct
+  entry_type: PaymentEntryType;
+  reverses_payment_id?: string | null;
+  reason?: string | null;
+  approved_by?: string | null;
+  cashier_session_id?: string | null;
+  allocation_id?: string | null; // shared by the entries of one payment split across years
   
   // Relations
   collector?: any;
+  approver?: { full_name: string } | null;
+}
+
+export interface ReceiptVerification {
+  valid: true;
+  receipt_number: string;
+  entry_type: PaymentEntryType;
+  payment_date: string;
+  amount_paid: number;
+  payment_method: PaymentMethod;
+  assessment_reference_id: string;
+  tax_year: number;
+  parcel_number: string;
+  reversed_amount: number;
+  issued_at: string;
+}
+
+export type PaymentAdjustmentType = 'REVERSAL' | 'REFUND';
+export type PaymentAdjustmentStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface PaymentAdjustmentInput {
+  adjustment_type: PaymentAdjustmentType;
+  amount?: number; // refunds only
+  reason: string;
+}
+
+export interface PaymentAdjustment {
+  id: string;
+  payment_id: string;
+  assessment_id: string;
+  adjustment_type: PaymentAdjustmentType;
+  amount: number;
+  reason: string;
+  status: PaymentAdjustmentStatus;
+  requested_by: string;
+  requested_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  adjustment_payment_id: string | null;
+
+  // Relations
+  payment?: Pick<TaxPayment, 'receipt_number' | 'amount_paid' | 'payment_method' | 'payment_date'>;
+  assessment?: { reference_id: string; tax_year: number };
+  requester?: { full_name: string } | null;
+  reviewer?: { full_name: string } | null;
+}
+
+export type InstallmentPlanStatus = 'ACTIVE' | 'DEFAULTED' | 'COMPLETED' | 'CANCELLED';
+export type InstallmentStatus = 'PENDING' | 'PARTIAL' | 'PAID' | 'MISSED';
+
+export interface ScheduledInstallment {
+  due_date: string;
+  amount: number;
+}
+
+// Either an explicit schedule or a number of equal installments
+export interface InstallmentPlanInput {
+  installments?: ScheduledInstallment[];
+  installment_count?: number;
+  first_due_date?: string;
+  interval_months?: number;
+  notes?: string | null;
+}
+
+export interface Installment {
+  id: string;
+  plan_id: string;
+  installment_number: number;
+  due_date: string;
+  amount: number;
+  paid_amount: number;
+  status: InstallmentStatus;
+  paid_at: string | null;
+}
+
+export interface InstallmentPlan {
+  id: string;
+  assessment_id: string;
+  status: InstallmentPlanStatus;
+  total_amount: number;
+  opening_paid_amount: number;
+  penalty_suspended_from: string;
+  penalty_resumes_on: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  cancelled_by: string | null;
+  cancelled_at: string | null;
+  cancel_reason: string | null;
+  installments: Installment[];
+
+  // Relations
+  creator?: { full_name: string } | null;
+  canceller?: { full_name: string } | null;
+}
+
+export type CashierSessionStatus = 'OPEN' | 'CLOSED' | 'APPROVED' | 'RETURNED';
+
+export const CASHIER_SESSION_LABELS: Record<CashierSessionStatus, string> = {
+  OPEN: 'Open',
+  CLOSED: 'Awaiting Approval',
+  APPROVED: 'Approved',
+  RETURNED: 'Returned',
+};
+
+export interface CashierCount {
+  payment_method: PaymentMethod;
+  counted_amount: number;
+}
+
+// Variance is counted minus expected; cash includes the opening float
+export interface CashierMethodTotal {
+  payment_method: PaymentMethod;
+  payment_count: number;
+  expected_amount: number;
+  counted_amount: number;
+  variance: number;
+}
+
+export interface CashierSessionPayment {
+  id: string;
+  receipt_number: string;
+  payment_date: string;
+  payment_method: PaymentMethod;
+  amount_paid: number;
+  created_at: string;
+  assessment_reference_id: string;
+}
+
+export interface CashierSession {
+  id: string;
+  session_number: string;
+  cashier_id: string;
+  status: CashierSessionStatus;
+  opening_float: number;
+  opened_at: string;
+  opening_notes: string | null;
+  closed_at: string | null;
+  closing_notes: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+
+  // Relations
+  cashier?: { full_name: string } | null;
+  reviewer?: { full_name: string } | null;
+  counts?: CashierMethodTotal[];
+}
+
+export interface CashierSessionDetail extends CashierSession {
+  payments: CashierSessionPayment[];
+  totals: CashierMethodTotal[];
+  total_variance: number;
+}
+
+export type BankStatementFormat = 'CSV' | 'MT940' | 'CAMT053';
+
+export type BankLineStatus = 'MATCHED' | 'AMBIGUOUS' | 'UNMATCHED' | 'POSTED' | 'IGNORED';
+
+export const BANK_LINE_LABELS: Record<BankLineStatus, string> = {
+  MATCHED: 'Matched',
+  AMBIGUOUS: 'Ambiguous',
+  UNMATCHED: 'Unmatched',
+  POSTED: 'Posted',
+  IGNORED: 'Ignored',
+};
+
+export interface BankStatementImport {
+  id: string;
+  filename: string;
+  format: BankStatementFormat;
+  account: string | null;
+  line_count: number;
+  duplicate_count: number;
+  imported_by: string;
+  created_at: string;
+
+  // Relations
+  importer?: { full_name: string } | null;
+  status_counts?: Partial<Record<BankLineStatus, number>>;
+}
+
+export interface BankLineAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  status: TaxStatus;
+  outstanding_amount: number;
+  properties?: { reference_id: string; parcel_number: string } | null;
+}
+
+// Credits are positive and debits negative
+export interface BankStatementLine {
+  id: string;
+  import_id: string;
+  line_number: number;
+  booking_date: string;
+  value_date: string | null;
+  amount: number;
+  currency: string | null;
+  bank_reference: string | null;
+  counterparty: string | null;
+  narrative: string;
+  status: BankLineStatus;
+  match_reason: string | null;
+  assessment_id: string | null;
+  candidate_assessment_ids: string[];
+  payment_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+
+  // Relations
+  assessment?: BankLineAssessment | null;
+  candidates: BankLineAssessment[];
+  payment?: { id: string; receipt_number: string } | null;
+  resolver?: { full_name: string } | null;
+}
+
+export interface BankStatementImportDetail extends BankStatementImport {
+  lines: BankStatementLine[];
+}
+
+export interface BankImportSummary {
+  import_id: string;
+  format: BankStatementFormat;
+  lines: number;
+  duplicates: number;
+  matched: number;
+  ambiguous: number;
+  unmatched: number;
+  ignored: number;
+}
+
+export interface BankPostingResult {
+  posted: number;
+  failed: Array<{ line_id: string; line_number: number; error: string }>;
+}
+
+export type MobileMoneyRequestStatus = 'PENDING' | 'PROCESSING' | 'PAID' | 'FAILED' | 'NEEDS_REVIEW';
+
+export const MOBILE_MONEY_LABELS: Record<MobileMoneyRequestStatus, string> = {
+  PENDING: 'Waiting for Payer',
+  PROCESSING: 'Posting',
+  PAID: 'Paid',
+  FAILED: 'Failed',
+  NEEDS_REVIEW: 'Needs Review',
+};
+
+export interface MobileMoneySettings {
+  enabled: boolean; // false when the server has no provider registered
+  provider: string;
+  currency: string;
+  simulator: boolean;
+}
+
+export interface MobileMoneyRequest {
+  id: string;
+  request_number: string;
+  assessment_id: string;
+  provider: string;
+  provider_reference: string | null;
+  provider_transaction_id: string | null;
+  phone_number: string;
+  amount: number;
+  currency: string;
+  status: MobileMoneyRequestStatus;
+  failure_reason: string | null;
+  payment_id: string | null;
+  requested_by: string;
+  completed_at: string | null;
+  created_at: string;
+
+  // Relations
+  assessment?: { id: string; reference_id: string; tax_year: number; outstanding_amount: number } | null;
+  payment?: { id: string; receipt_number: string } | null;
+  requester?: { full_name: string } | null;
+}
+
+export type AgingBucketKey = 'DAYS_0_30' | 'DAYS_31_90' | 'DAYS_91_180' | 'DAYS_OVER_180';
+export type AgingGroupBy = 'DISTRICT' | 'SUB_DISTRICT' | 'PROPERTY_TYPE' | 'CUSTOMER_TYPE';
+
+export const AGING_GROUP_LABELS: Record<AgingGroupBy, string> = {
+  DISTRICT: 'District',
+  SUB_DISTRICT: 'Sub-district',
+  PROPERTY_TYPE: 'Property Type',
+  CUSTOMER_TYPE: 'Customer Type',
+};
+
+export interface AgingBucket {
+  key: AgingBucketKey;
+  label: string;
+  min_days: number;
+  max_days: number | null;
+}
+
+export interface AgingFilters {
+  district_id?: string;
+  sub_district_id?: string;
+  property_type?: string;
+  customer_type?: string;
+  tax_year?: number;
+}
+
+export interface AgingAmounts {
+  count: number;
+  outstanding: number;
+  buckets: Record<AgingBucketKey, number>;
+}
+
+export interface AgingGroup extends AgingAmounts {
+  key: string | null; // null for assessments without a value for the grouping
+  label: string;
+}
+
+export interface AgingReport {
+  as_of: string;
+  group_by: AgingGroupBy;
+  buckets: AgingBucket[];
+  totals: AgingAmounts;
+  groups: AgingGroup[];
+}
+
+export interface AgedAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  status: TaxStatus;
+  due_date: string;
+  days_past_due: number;
+  bucket: AgingBucketKey;
+  outstanding_amount: number;
+  property: {
+    id: string;
+    reference_id: string;
+    parcel_number: string;
+    district_id: string | null;
+    district: string | null;
+    sub_district_id: string | null;
+    sub_district: string | null;
+    property_type: string | null;
+  };
+  owner: { name: string; customer_type: CustomerType | null } | null;
+}
+
+export interface ArrearsDetail {
+  assessment_id: string;
+  reference_id: string;
+  tax_year: number;
+  outstanding_amount: number;
+}
+
+export interface DebtAssessment {
+  id: string;
+  reference_id: string;
+  tax_year: number;
+  status: TaxStatus;
+  due_date: string;
+  assessed_amount: number;
+  penalty_amount: number;
+  paid_amount: number;
+  outstanding_amount: number;
+  arrears_brought_forward: number;
+}
+
+export interface PropertyDebt {
+  property_id: string;
+  total_outstanding: number;
+  open_assessments: DebtAssessment[]; // oldest first, the order payments are allocated in
+  history: DebtAssessment[]; // latest year first
+}
+
+export interface AllocatedPaymentInput {
+  payment_date: string;
+  amount_paid: number;
+  payment_method: PaymentMethod;
+  notes?: string;
+}
+
+export interface UnrecordedAllocation {
+  assessment_id: string;
+  reference_id: string;
+  amount: number;
+  error: string;
+}
+
+export interface AllocatedPaymentResult {
+  allocation_id: string;
+  total_paid: number; // sum of the recorded entries
+  unrecorded_amount: number;
+  payments: TaxPayment[];
+  unrecorded: UnrecordedAllocation[]; // shares not recorded when an entry failed part-way
+}
+
+export type ClearanceSubjectType = 'PROPERTY' | 'CUSTOMER';
+
+export interface ClearanceSubject {
+  property_id?: string;
+  customer_id?: string;
+}
+
+export interface ClearanceProperty {
+  id: string;
+  reference_id: string;
+  parcel_number: string;
+  location: string | null;
+  district: string | null;
+}
+
+export interface BlockingAssessment {
+  assessment_id: string;
+  reference_id: string;
+  tax_year: number;
+  parcel_number: string;
+  status: TaxStatus;
+  due_date: string;
+  outstanding_amount: number;
+  reasons: Array<'OUTSTANDING' | 'OVERDUE'>;
+}
+
+export interface ClearanceCheck {
+  subject_type: ClearanceSubjectType;
+  property_id: string | null;
+  customer_id: string | null;
+  holder_name: string;
+  properties: ClearanceProperty[];
+  assessments_checked: number;
+  total_outstanding: number;
+  eligible: boolean;
+  blocking_assessments: BlockingAssessment[];
+}
+
+export interface ClearanceCertificate {
+  id: string;
+  certificate_number: string;
+  subject_type: ClearanceSubjectType;
+  property_id: string | null;
+  customer_id: string | null;
+  holder_name: string;
+  purpose: string | null;
+  properties: ClearanceProperty[];
+  assessments_checked: number;
+  issued_at: string;
+  valid_until: string; // last valid day
+
+  // Relations
+  issuer?: { full_name: string } | null;
+}
+
+export interface ClearanceVerification {
+  valid: boolean; // false once the certificate has expired
+  certificate_number: string;
+  subject_type: ClearanceSubjectType;
+  holder_name: string;
+  parcel_numbers: string[];
+  issued_at: string;
+  valid_until: string;
+}
+
+export interface CollectionTrend {
+  month: string; // YYYY-MM
+  collected: number;
+  adjustments: number; // reversals and refunds, negative
+  net: number;
+  payments: number;
+}
+
+export interface TaxRateRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  property_type_id: string | null;
+  district_id: string | null;
+  is_downtown: boolean | null;
+  occupancy_type: OccupancyType | null;
+  construction_status: ConstructionStatus | null;
+  land_rate_per_m2: number;
+  built_rate_per_m2: number;
+  floor_modifier_percent: number;
+  minimum_amount: number | null;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+
+  // Relations
+  property_types?: { name: string } | null;
+  districts?: { name: string } | null;
+}
+
+export type TaxRateRuleInput = Omit<
+  TaxRateRule,
+  'id' | 'created_at' | 'updated_at' | 'property_types' | 'districts'
+>;
+
+export interface TaxCalculationInput {
+  property_id?: string | null;
+  occupancy_type: string;
+  construction_status: string;
+  land_size: number;
+  built_up_area?: number | null;
+  number_of_floors?: number | null;
+  assessment_date?: string;
+}
+
+export interface TaxCalculationBreakdown {
+  rule_id: string;
+  rule_name: string;
+  matched_on: Record<string, string | boolean>;
+  land: { area: number; rate: number; amount: number };
+  building: { area: number; rate: number; amount: number };
+  floors: { count: number; modifier_percent: number; factor: number; adjustment: number };
+  subtotal: number;
+  minimum_amount: number | null;
+  base_assessment: number;
+  calculated_at: string;
+}
+
+export interface TaxCalculationResult extends TaxCalculationBreakdown {
+  exemption: TaxExemptionDetails | null;
+}
+
+export type ExemptionType = 'FULL' | 'PERCENTAGE' | 'FIXED';
+
+export interface ExemptionRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  customer_type: CustomerType | null;
+  property_type_id: string | null;
+  is_downtown: boolean | null;
+  is_building: boolean | null;
+  occupancy_type: OccupancyType | null;
+  exemption_type: ExemptionType;
+  exemption_value: number;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+
+  // Relations
+  property_types?: { name: string } | null;
+}
+
+export type ExemptionRuleInput = Omit<ExemptionRule, 'id' | 'created_at' | 'updated_at' | 'property_types'>;
+
+export interface TaxExemptionDetails {
+  rule_id: string;
+  rule_name: string;
+  exemption_type: ExemptionType;
+  exemption_value: number;
+  matched_on: Record<string, string | boolean>;
+  owner_customer_id: string | null;
+  base_assessment: number;
+  exemption_amount: number;
+  applied_at: string;
+}
+
+export type PenaltyType = 'FLAT' | 'PERCENTAGE';
+
+export interface PenaltyRule {
+  id: string;
+  name: string;
+  description?: string | null;
+  grace_days: number;
+  penalty_type: PenaltyType;
+  penalty_value: number;
+  monthly_interest_rate: number;
+  interest_cap_percent: number | null;
+  max_penalty_amount: number | null;
+  effective_from: string;
+  effective_to: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type PenaltyRuleInput = Omit<PenaltyRule, 'id' | 'created_at' | 'updated_at'>;
+
+export interface PenaltyRunSummary {
+  as_of: string;
+  checked: number;
+  updated: number;
+  marked_overdue: number;
+  on_plan: number; // skipped, on a current installment plan
+  plans_defaulted: number;
+  failed: number;
+}
+
+export interface TaxRollOptions {
+  tax_year: number;
+  assessment_date: string;
+  due_date: string;
+}
+
+export interface TaxRollPlanItem {
+  property_id: string;
+  property_reference_id: string;
+  parcel_number: string;
+  source: 'PRIOR_YEAR' | 'PROPERTY';
+  rate_rule_name: string;
+  base_assessment: number;
+  exemption_rule_name: string | null;
+  exemption_amount: number;
+}
+
+export interface TaxRollFailure {
+  property_id: string;
+  property_reference_id: string;
+  reason: string;
+}
+
+export interface TaxRollPreview {
+  tax_year: number;
+  total_properties: number;
+  already_assessed: number;
+  to_create: number;
+  from_prior_year: number;
+  failed: number;
+  total_base_assessment: number;
+  total_exemption_amount: number;
+  items: TaxRollPlanItem[];
+  failures: TaxRollFailure[];
+}
+
+export type TaxRollRunStatus = 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface TaxRollRun extends TaxRollOptions {
+  id: string;
+  status: TaxRollRunStatus;
+  total_properties: number;
+  processed: number;
+  created_count: number;
+  skipped_count: number;
+  failed_count: number;
+  failures: TaxRollFailure[] | null;
+  error_message: string | null;
+  started_by: string;
+  started_at: string;
+  completed_at: string | null;
+
+  // Relations
+  started_by_user?: { full_name: string } | null;
 }
 
 export interface TaxStats {
@@ -95,3 +765,98 @@ export interface TaxStats {
   properties_with_arrears: number;
   total_assessments: number;
 }
+
+export type NoticeGroupBy = 'DISTRICT' | 'SUB_DISTRICT';
+export type NoticeOutputFormat = 'PDF' | 'ZIP';
+
+export const NOTICE_LABELS: Record<string, string> = {
+  notice_number: 'Notice No.',
+  notice_date: 'Date',
+  recipient: 'To',
+  property: 'Property',
+  parcel_number: 'Parcel Number',
+  property_reference: 'Property Reference',
+  location: 'Location',
+  district: 'District',
+  assessment: 'Assessment',
+  assessment_reference: 'Assessment Reference',
+  base_assessment: 'Base Assessment',
+  exemption: 'Exemption',
+  assessed_amount: 'Assessed Amount',
+  penalties: 'Penalties and Interest',
+  paid: 'Paid',
+  amount_due: 'Amount Due',
+  due_date: 'Due Date',
+};
+
+export const NOTICE_PLACEHOLDERS = [
+  'owner_name',
+  'parcel_number',
+  'property_reference',
+  'tax_year',
+  'amount_due',
+  'due_date',
+  'assessment_reference',
+  'organization_name',
+];
+
+export interface NoticeTemplate {
+  language: string;
+  language_name: string;
+  title: string;
+  body: string;
+  closing: string;
+  labels: Record<string, string>; // English labels are used for missing keys
+  is_active: boolean;
+  updated_at?: string;
+}
+
+export type NoticeTemplateInput = Omit<NoticeTemplate, 'language' | 'updated_at'>;
+
+export interface NoticeOptions {
+  tax_year: number;
+  language: string;
+  district_id?: string | null;
+  sub_district_id?: string | null;
+  group_by: NoticeGroupBy;
+  output_format: NoticeOutputFormat;
+}
+
+export interface NoticePreview {
+  tax_year: number;
+  total: number;
+  without_owner: number;
+  groups: Array<{ district: string; sub_district: string | null; count: number }>;
+}
+
+export interface TaxNoticeBatch {
+  id: string;
+  tax_year: number;
+  language: string;
+  group_by: NoticeGroupBy;
+  output_format: NoticeOutputFormat;
+  notice_count: number;
+  file_name: string;
+  generated_at: string;
+
+  // Relations
+  districts?: { name: string } | null;
+  sub_districts?: { name: string } | null;
+  generated_by_user?: { full_name: string } | null;
+}
+
+export interface TaxNotice {
+  id: string;
+  notice_number: string;
+  batch_id: string;
+  assessment_id: string;
+  language: string;
+  recipient_name: string;
+  recipient_contact: string | null;
+  amount_due: number;
+  due_date: string;
+  generated_at: string;
+
+  // Relations
+  generated_by_user?: { full_name: string } | null;
+}
@@ -0,0 +1,191 @@
+export type WorkflowEntityType = 'customer' | 'property';
+
+export type WorkflowRole = 'APPROVER' | 'ADMINISTRATOR';
+
+export type ConditionOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
+
+export interface StageCondition {
+  field: string;
+  operator: ConditionOperator;
+  value: number | string | boolean;
+}
+
+export interface WorkflowStage {
+  key: string;
+  name: string;
+  order: number; // stages with the same order run in parallel
+  roles: WorkflowRole[];
+  required_approvals: number;
+  condition: StageCondition | null;
+}
+
+export interface WorkflowDefinition {
+  id: string | null; // null while the built-in single approval applies
+  entity_type: WorkflowEntityType;
+  name: string;
+  stages: WorkflowStage[];
+  updated_at: string | null;
+}
+
+export interface WorkflowDefinitionInput {
+  name: string;
+  stages: WorkflowStage[];
+}
+
+export type WorkflowStatus = 'IN_PROGRESS' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export type StageState = 'PENDING' | 'WAITING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+
+export interface StageProgress extends WorkflowStage {
+  state: StageState;
+  approvals: number;
+  approved_by: string[];
+}
+
+export interface WorkflowAction {
+  id: string;
+  stage_key: string | null;
+  action: 'SUBMIT' | 'APPROVE' | 'REJECT' | 'CANCEL';
+  acted_by: string | null;
+  feedback: string | null;
+  created_at: string;
+  actor?: { full_name: string } | null;
+}
+
+export interface WorkflowProgress {
+  instance_id: string;
+  status: WorkflowStatus;
+  submitted_at: string;
+  completed_at: string | null;
+  current_order: number | null;
+  current_stages: string[];
+  stages: StageProgress[];
+  history: WorkflowAction[];
+  can_act: boolean;
+}
+
+export type ReviewQueueView = 'mine' | 'unassigned' | 'all';
+
+export type AssignmentMethod = 'CLAIM' | 'ROUND_ROBIN' | 'LEAST_LOADED' | 'REASSIGN';
+
+export interface ReviewAssignment {
+  id: string;
+  entity_type: WorkflowEntityType;
+  entity_id: string;
+  assigned_to: string;
+  assigned_by: string | null;
+  method: AssignmentMethod;
+  status: 'ACTIVE' | 'RELEASED' | 'EXPIRED' | 'COMPLETED';
+  assigned_at: string;
+  expires_at: string;
+  assignee?: { full_name: string } | null;
+}
+
+export interface ApproverLoad {
+  id: string;
+  full_name: string;
+  role: string;
+  active_items: number;
+}
+
+export type EscalationAction = 'NOTIFY' | 'REASSIGN';
+
+export type SlaState = 'ON_TRACK' | 'AT_RISK' | 'BREACHED';
+
+export interface SlaTarget {
+  id: string | null;
+  entity_type: WorkflowEntityType;
+  target_hours: number | null;
+  warning_percent: number;
+  escalation_action: EscalationAction;
+  supervisor_id: string | null;
+  is_active: boolean;
+  updated_at: string | null;
+  supervisor?: { full_name: string } | null;
+}
+
+export interface SlaTargetInput {
+  target_hours: number;
+  warning_percent: number;
+  escalation_action: EscalationAction;
+  supervisor_id: string | null;
+  is_active: boolean;
+}
+
+export interface EscalationSummary {
+  checked: number;
+  escalated: number;
+  reassigned: number;
+  failed: number;
+}
+
+export interface TurnaroundStats {
+  decisions: number;
+  approvals: number;
+  rejections: number;
+  average_hours: number;
+  median_hours: number;
+  p90_hours: number;
+  max_hours: number;
+}
+
+export interface ApproverTurnaround extends TurnaroundStats {
+  user_id: string;
+  full_name: string;
+}
+
+export interface TurnaroundReport {
+  from: string;
+  to: string;
+  entity_type: WorkflowEntityType | null;
+  overall: TurnaroundStats;
+  approvers: ApproverTurnaround[];
+}
+
+export interface TurnaroundFilters {
+  from?: string;
+  to?: string;
+  entity_type?: WorkflowEntityType;
+}
+
+export type ChangeSection = 'record' | 'details' | 'boundaries' | 'owner';
+
+export interface FieldChange {
+  section: ChangeSection;
+  field: string;
+  label: string;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+export interface ReviewChanges {
+  change_set_id: string;
+  edited_by: string | null;
+  edited_by_name: string | null;
+  edited_at: string;
+  changes: FieldChange[];
+}
+
+export type BulkReviewDecision = 'approve' | 'reject';
+
+export interface BulkReviewRequest {
+  customer_ids?: string[];
+  property_ids?: string[];
+  feedback?: string;
+}
+
+export interface BulkReviewItemResult {
+  entity_type: WorkflowEntityType;
+  id: string;
+  reference_id: string | null;
+  success: boolean;
+  outcome?: 'APPROVED' | 'STAGE_APPROVED' | 'REJECTED' | 'CHANGES_RESTORED';
+  error?: string;
+}
+
+export interface BulkReviewResult {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkReviewItemResult[];
+}